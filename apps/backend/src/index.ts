@@ -6,6 +6,7 @@ import mongoose from 'mongoose';
 import { connectDatabase } from './lib/database.js';
 import { initSentry } from './lib/sentry.js';
 import { requestLogger } from './middleware/logger.js';
+import { captureRawBody } from './middleware/rawBody.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import routes from './routes/index.js';
 import { initializeIntegrations, shutdownIntegrations } from './integrations/index.js';
@@ -26,7 +27,8 @@ app.use(
     credentials: true,
   })
 );
-app.use(express.json());
+// Keep the raw body for webhook signature verification
+app.use(express.json({ verify: captureRawBody }));
 app.use(requestLogger);
 
 // Health check with database status
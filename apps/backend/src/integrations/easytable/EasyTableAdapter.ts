@@ -1,11 +1,20 @@
 import type { IntegrationConfig, EasyTableBooking, OrderData } from '@easyrate/shared';
+import { DEFAULT_TIMEZONE } from '@easyrate/shared';
 import { BaseAdapter } from '../BaseAdapter.js';
+import { parseLocalDateTime } from '../../utils/timezone.js';
 import { EasyTableClient } from './EasyTableClient.js';
 
 export class EasyTableAdapter extends BaseAdapter {
   readonly name = 'easytable';
 
   private client: EasyTableClient | null = null;
+  // EasyTable sends local dates and times without an offset
+  private readonly timeZone: string;
+
+  constructor(timeZone: string = DEFAULT_TIMEZONE) {
+    super();
+    this.timeZone = timeZone;
+  }
 
   async connect(config: IntegrationConfig): Promise<void> {
     if (!config.apiKey) {
@@ -59,12 +68,13 @@ export class EasyTableAdapter extends BaseAdapter {
    */
   transformBooking(booking: EasyTableBooking): OrderData {
     // Combine date and arrival time to create orderDate
-    // API returns date as "YYYY-MM-DD" and arrival as "HH:MM"
-    const bookingDateTime = new Date(`${booking.date}T${booking.arrival}:00`);
+    // API returns date as "YYYY-MM-DD" and arrival as "HH:MM", local time at the restaurant
+    const bookingDateTime =
+      parseLocalDateTime(booking.date, booking.arrival, this.timeZone) ??
+      new Date(`${booking.date}T${booking.arrival}:00Z`);
 
     // Calculate completion time based on booking duration
-    const completedAt = new Date(bookingDateTime);
-    completedAt.setMinutes(completedAt.getMinutes() + booking.duration);
+    const completedAt = new Date(bookingDateTime.getTime() + booking.duration * 60 * 1000);
 
     const orderData: OrderData = {
       orderId: booking.bookingID.toString(),
@@ -105,6 +115,34 @@ export class EasyTableAdapter extends BaseAdapter {
     return booking.status === '1' && booking.arrived === 1;
   }
 
+  /**
+   * Fetch bookings modified since the poll cursor and return the completed visits.
+   * Unlike fetchCompletedBookings, handlers are not notified - the poller queues
+   * the orders itself so a failure can stop the cursor from advancing.
+   */
+  async fetchModifiedBookings(since: Date): Promise<{
+    fetched: number;
+    orders: OrderData[];
+    serverTime: Date | null;
+  }> {
+    this.validateConfig();
+
+    if (!this.client) {
+      throw new Error('EasyTable client not initialized');
+    }
+
+    const { bookings, serverTime } = await this.client.getBookingsModifiedSince(since);
+    const orders = bookings
+      .filter((booking) => this.shouldProcess(booking))
+      .map((booking) => this.transformBooking(booking));
+
+    this.log(
+      `Fetched ${String(bookings.length)} modified bookings since ${since.toISOString()}, ${String(orders.length)} completed`
+    );
+
+    return { fetched: bookings.length, orders, serverTime };
+  }
+
   async fetchCompletedBookings(since: Date): Promise<OrderData[]> {
     this.validateConfig();
 
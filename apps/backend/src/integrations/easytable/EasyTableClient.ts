@@ -14,6 +14,11 @@ export interface EasyTableBookingsResponse {
   bookings: EasyTableBooking[];
 }
 
+export interface EasyTableModifiedBookings {
+  bookings: EasyTableBooking[];
+  serverTime: Date | null; // null if the API returned an unparseable time
+}
+
 export class EasyTableClient {
   private apiKey: string;
   private placeToken: string;
@@ -110,8 +115,9 @@ export class EasyTableClient {
   /**
    * Get bookings modified since a specific timestamp
    * @param modifiedSince Server timestamp to fetch modifications after
+   * @returns The bookings and the server time of the response, to use as the next modifiedSince
    */
-  async getBookingsModifiedSince(modifiedSince: Date): Promise<EasyTableBooking[]> {
+  async getBookingsModifiedSince(modifiedSince: Date): Promise<EasyTableModifiedBookings> {
     const params = new URLSearchParams({
       modifiedSince: modifiedSince.toISOString(),
     });
@@ -120,7 +126,11 @@ export class EasyTableClient {
       `/bookings?${params.toString()}`
     );
 
-    return response.bookings;
+    const serverTime = new Date(response.settings.serverTime);
+    return {
+      bookings: response.bookings,
+      serverTime: Number.isNaN(serverTime.getTime()) ? null : serverTime,
+    };
   }
 
   /**
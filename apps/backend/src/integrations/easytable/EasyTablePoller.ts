@@ -1,5 +1,9 @@
-import type { OrderData } from '@easyrate/shared';
+import type { IntegrationPollState, OrderData } from '@easyrate/shared';
+import { EASYTABLE_POLLING } from '@easyrate/shared';
 import { Business } from '../../models/Business.js';
+import { integrationPollService } from '../../services/IntegrationPollService.js';
+import { createWorkerId, jobLeaseService } from '../../services/JobLeaseService.js';
+import { getBusinessTimeZone } from '../../utils/timezone.js';
 import { EasyTableAdapter } from './EasyTableAdapter.js';
 
 export interface PollerConfig {
@@ -9,18 +13,55 @@ export interface PollerConfig {
 interface BusinessPollState {
   businessId: string;
   adapter: EasyTableAdapter;
-  lastPollAt: Date;
+  cursor: Date | undefined; // Persisted in the integration's polling state
+  lastPollAt: Date | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Only one backend instance polls EasyTable: the holder of this lock
+const LEADER_LOCK = 'easytable-poller';
+
+/**
+ * Where the next poll starts. A business without a cursor starts a day back;
+ * a cursor older than two intervals means the poller was down, and the gap is
+ * backfilled up to the max lookback.
+ */
+export function resolvePollWindow(
+  cursor: Date | undefined,
+  now: Date,
+  intervalMs: number
+): { since: Date; isBackfill: boolean } {
+  if (!cursor) {
+    return {
+      since: new Date(now.getTime() - EASYTABLE_POLLING.initialLookbackHours * HOUR_MS),
+      isBackfill: false,
+    };
+  }
+
+  const oldest = now.getTime() - EASYTABLE_POLLING.maxLookbackHours * HOUR_MS;
+  return {
+    since: new Date(Math.max(cursor.getTime(), oldest)),
+    isBackfill: now.getTime() - cursor.getTime() > 2 * intervalMs,
+  };
 }
 
 export class EasyTablePoller {
   private intervalMs: number;
+  private leaderLeaseMs: number;
+  private workerId = createWorkerId('EasyTablePoller');
   private pollStates = new Map<string, BusinessPollState>();
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private isRunning = false;
+  private isLeader = false;
   private orderHandler: ((businessId: string, order: OrderData) => Promise<void>) | null = null;
 
-  constructor(config: PollerConfig = { intervalMs: 5 * 60 * 1000 }) {
+  constructor(
+    config: PollerConfig = { intervalMs: EASYTABLE_POLLING.intervalMinutes * 60 * 1000 }
+  ) {
     this.intervalMs = config.intervalMs;
+    // Renewed on every poll; another instance takes over after a few missed polls
+    this.leaderLeaseMs = 3 * config.intervalMs;
   }
 
   setOrderHandler(handler: (businessId: string, order: OrderData) => Promise<void>): void {
@@ -36,15 +77,14 @@ export class EasyTablePoller {
     this.isRunning = true;
     console.log(`[EasyTablePoller] Starting with ${String(this.intervalMs)}ms interval`);
 
-    // Initialize adapters for all enabled businesses
-    await this.initializeAdapters();
-
-    // Run first poll immediately
-    await this.poll();
+    // Run first poll immediately - this also catches up on bookings missed while down
+    await this.pollAsLeader().catch((error: unknown) => {
+      console.error('[EasyTablePoller] Initial poll error:', error);
+    });
 
     // Set up interval for subsequent polls
     this.intervalId = setInterval(() => {
-      this.poll().catch((error: unknown) => {
+      this.pollAsLeader().catch((error: unknown) => {
         console.error('[EasyTablePoller] Poll error:', error);
       });
     }, this.intervalMs);
@@ -62,6 +102,48 @@ export class EasyTablePoller {
       this.intervalId = null;
     }
 
+    // Hand over leadership right away instead of letting the lease run out
+    if (this.isLeader) {
+      await jobLeaseService.releaseLock(LEADER_LOCK, this.workerId).catch((error: unknown) => {
+        console.error('[EasyTablePoller] Failed to release leadership:', error);
+      });
+      this.isLeader = false;
+    }
+
+    await this.clearAdapters();
+    this.isRunning = false;
+  }
+
+  /**
+   * Renew or take the leadership, then poll if this instance is the leader.
+   * A new leader loads the adapters, so it continues from the persisted cursors.
+   */
+  private async pollAsLeader(): Promise<void> {
+    const wasLeader = this.isLeader;
+    this.isLeader = await jobLeaseService.acquireLock(
+      LEADER_LOCK,
+      this.workerId,
+      this.leaderLeaseMs
+    );
+
+    if (!this.isLeader) {
+      if (wasLeader) {
+        console.warn('[EasyTablePoller] Lost leadership to another instance');
+        await this.clearAdapters();
+      }
+      return;
+    }
+
+    if (!wasLeader) {
+      console.log('[EasyTablePoller] Elected leader, polling from this instance');
+      await this.clearAdapters();
+      await this.initializeAdapters();
+    }
+
+    await this.poll();
+  }
+
+  private async clearAdapters(): Promise<void> {
     // Disconnect all adapters
     for (const state of this.pollStates.values()) {
       try {
@@ -75,7 +157,6 @@ export class EasyTablePoller {
     }
 
     this.pollStates.clear();
-    this.isRunning = false;
   }
 
   private async initializeAdapters(): Promise<void> {
@@ -100,7 +181,9 @@ export class EasyTablePoller {
               business._id.toString(),
               integration.apiKey,
               placeToken,
-              integration.settings
+              integration.settings,
+              integration.polling,
+              getBusinessTimeZone(business)
             );
           } else {
             console.warn(
@@ -122,14 +205,16 @@ export class EasyTablePoller {
     businessId: string,
     apiKey: string,
     placeToken: string,
-    settings?: Record<string, unknown>
+    settings?: Record<string, unknown>,
+    polling?: IntegrationPollState,
+    timeZone?: string
   ): Promise<void> {
     if (this.pollStates.has(businessId)) {
       console.log(`[EasyTablePoller] Business ${businessId} already registered, updating`);
       await this.removeBusiness(businessId);
     }
 
-    const adapter = new EasyTableAdapter();
+    const adapter = new EasyTableAdapter(timeZone);
     await adapter.connect({
       platform: 'easytable',
       apiKey,
@@ -140,18 +225,11 @@ export class EasyTablePoller {
       },
     });
 
-    if (this.orderHandler) {
-      const handler = this.orderHandler;
-      adapter.onOrderComplete(async (order) => {
-        await handler(businessId, order);
-      });
-    }
-
     this.pollStates.set(businessId, {
       businessId,
       adapter,
-      // Start polling from 1 day ago to catch any missed bookings
-      lastPollAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      cursor: polling?.cursor,
+      lastPollAt: polling?.lastPollAt ?? null,
     });
 
     console.log(`[EasyTablePoller] Added business ${businessId}`);
@@ -183,7 +261,14 @@ export class EasyTablePoller {
       if (integration?.enabled && integration.apiKey) {
         const placeToken = integration.settings?.placeToken as string | undefined;
         if (placeToken) {
-          await this.addBusiness(businessId, integration.apiKey, placeToken, integration.settings);
+          await this.addBusiness(
+            businessId,
+            integration.apiKey,
+            placeToken,
+            integration.settings,
+            integration.polling,
+            getBusinessTimeZone(business)
+          );
         } else {
           console.warn(
             `[EasyTablePoller] Business ${businessId} missing placeToken, removing from poller`
@@ -215,38 +300,93 @@ export class EasyTablePoller {
   }
 
   private async pollBusiness(state: BusinessPollState): Promise<void> {
-    const { businessId, adapter, lastPollAt } = state;
+    const { businessId, adapter } = state;
+    const startedAt = new Date();
+    const { since, isBackfill } = resolvePollWindow(state.cursor, startedAt, this.intervalMs);
+    let fetched = 0;
+    let queued = 0;
 
-    try {
-      const orders = await adapter.fetchCompletedBookings(lastPollAt);
+    if (isBackfill) {
       console.log(
-        `[EasyTablePoller] Business ${businessId}: fetched ${String(orders.length)} new orders`
+        `[EasyTablePoller] Business ${businessId}: catching up on bookings since ${since.toISOString()}`
       );
+    }
 
-      // Update last poll time
+    try {
+      const result = await adapter.fetchModifiedBookings(since);
+      fetched = result.fetched;
+
+      // Queue before moving the cursor: if this fails or the process dies, the next
+      // poll fetches the same bookings again, and enqueue skips already queued orders
+      for (const order of result.orders) {
+        if (this.orderHandler) {
+          await this.orderHandler(businessId, order);
+          queued++;
+        }
+      }
+
+      const until = result.serverTime ?? startedAt;
+      await integrationPollService.recordRun({
+        businessId,
+        status: 'success',
+        since,
+        until,
+        isBackfill,
+        fetched,
+        queued,
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+
+      state.cursor = until;
       state.lastPollAt = new Date();
+      console.log(
+        `[EasyTablePoller] Business ${businessId}: fetched ${String(fetched)} bookings, queued ${String(queued)} orders`
+      );
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[EasyTablePoller] Failed to poll business ${businessId}:`, error);
+      state.lastPollAt = new Date();
 
       // Check if it's an auth error and the integration might need to be disabled
-      if (error instanceof Error && error.message.includes('401')) {
+      if (message.includes('401')) {
         console.warn(
           `[EasyTablePoller] Auth error for business ${businessId}, credentials may be invalid`
         );
       }
+
+      await integrationPollService
+        .recordRun({
+          businessId,
+          status: 'failed',
+          since,
+          isBackfill,
+          fetched,
+          queued,
+          error: message,
+          durationMs: Date.now() - startedAt.getTime(),
+        })
+        .catch((recordError: unknown) => {
+          console.error(
+            `[EasyTablePoller] Failed to record poll run for business ${businessId}:`,
+            recordError
+          );
+        });
     }
   }
 
   getStatus(): {
     isRunning: boolean;
+    isLeader: boolean;
     businessCount: number;
-    businesses: { businessId: string; lastPollAt: Date }[];
+    businesses: { businessId: string; cursor: Date | undefined; lastPollAt: Date | null }[];
   } {
     return {
       isRunning: this.isRunning,
+      isLeader: this.isLeader,
       businessCount: this.pollStates.size,
       businesses: Array.from(this.pollStates.values()).map((state) => ({
         businessId: state.businessId,
+        cursor: state.cursor,
         lastPollAt: state.lastPollAt,
       })),
     };
@@ -2,6 +2,7 @@ export {
   EasyTableClient,
   type EasyTableClientConfig,
   type EasyTableBookingsResponse,
+  type EasyTableModifiedBookings,
 } from './EasyTableClient.js';
 export { EasyTableAdapter, easyTableAdapter } from './EasyTableAdapter.js';
 export { EasyTablePoller, easyTablePoller, type PollerConfig } from './EasyTablePoller.js';
@@ -3,10 +3,14 @@ import { IntegrationRegistry } from './IntegrationRegistry.js';
 import { dullyAdapter } from './dully/index.js';
 import { easyTableAdapter, easyTablePoller } from './easytable/index.js';
 import { orderQueueService } from '../services/OrderQueueService.js';
+import { integrationFilterService } from '../services/IntegrationFilterService.js';
 import { startQueueProcessor, stopQueueProcessor } from '../jobs/processOrderQueue.js';
 import { startNotificationProcessor, stopNotificationProcessor } from '../jobs/processNotifications.js';
 import { startInsightsProcessor, stopInsightsProcessor } from '../jobs/processInsights.js';
 import { startGoogleReviewsProcessor, stopGoogleReviewsProcessor } from '../jobs/processGoogleReviews.js';
+import { startWebhookDeliveryProcessor, stopWebhookDeliveryProcessor } from '../jobs/processWebhooks.js';
+import { startAlertDigestProcessor, stopAlertDigestProcessor } from '../jobs/processAlertDigests.js';
+import { startReportProcessor, stopReportProcessor } from '../jobs/processReports.js';
 
 export async function initializeIntegrations(): Promise<void> {
   console.log('[Integrations] Initializing integration layer...');
@@ -15,10 +19,10 @@ export async function initializeIntegrations(): Promise<void> {
   IntegrationRegistry.register(dullyAdapter);
   IntegrationRegistry.register(easyTableAdapter);
 
-  // Set up order handlers for both adapters
+  // Set up order handlers for both adapters - the business' filter rules decide what is queued
   const handleOrder = async (businessId: string, order: Parameters<typeof orderQueueService.enqueue>[1]) => {
     const delay = INTEGRATION_DELAYS[order.platform];
-    await orderQueueService.enqueue(businessId, order, delay);
+    await integrationFilterService.enqueue(businessId, order, delay);
   };
 
   // For Dully, the webhook route will handle business ID and call the handler
@@ -34,7 +38,8 @@ export async function initializeIntegrations(): Promise<void> {
   // Start the EasyTable poller
   await easyTablePoller.start();
 
-  // Start the queue processor
+  // Start the queue processor, once the queue's indexes allow reminder steps
+  await orderQueueService.migrateIndexes();
   startQueueProcessor();
 
   // Start the notification processor
@@ -46,6 +51,15 @@ export async function initializeIntegrations(): Promise<void> {
   // Start the Google reviews processor (for syncing Google Business reviews)
   startGoogleReviewsProcessor();
 
+  // Start the webhook delivery processor (outgoing webhooks to business systems)
+  startWebhookDeliveryProcessor();
+
+  // Start the alert digest processor (daily negative feedback digests)
+  startAlertDigestProcessor();
+
+  // Start the report processor (weekly/monthly performance report emails)
+  startReportProcessor();
+
   console.log('[Integrations] Integration layer initialized');
   console.log(`[Integrations] Registered adapters: ${IntegrationRegistry.getAllNames().join(', ')}`);
 }
@@ -53,6 +67,15 @@ export async function initializeIntegrations(): Promise<void> {
 export async function shutdownIntegrations(): Promise<void> {
   console.log('[Integrations] Shutting down integration layer...');
 
+  // Stop the report processor
+  stopReportProcessor();
+
+  // Stop the alert digest processor
+  stopAlertDigestProcessor();
+
+  // Stop the webhook delivery processor
+  stopWebhookDeliveryProcessor();
+
   // Stop the Google reviews processor
   stopGoogleReviewsProcessor();
 
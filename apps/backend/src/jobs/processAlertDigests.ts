@@ -0,0 +1,111 @@
+import { alertService } from '../services/AlertService.js';
+import { createWorkerId, jobLeaseService } from '../services/JobLeaseService.js';
+
+interface ProcessorConfig {
+  intervalMs: number;
+  leaseMs: number;
+}
+
+const DEFAULT_CONFIG: ProcessorConfig = {
+  intervalMs: 10 * 60 * 1000, // 10 minutes
+  leaseMs: 10 * 60 * 1000, // 10 minutes
+};
+
+/**
+ * AlertDigestProcessor - Sends daily negative feedback digests
+ *
+ * Each business picks its digest time; this checks regularly for
+ * businesses whose digest time has passed with alerts still waiting.
+ * Only one instance sends digests at a time.
+ */
+export class AlertDigestProcessor {
+  private config: ProcessorConfig;
+  private workerId = createWorkerId('AlertDigestProcessor');
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+
+  constructor(config: Partial<ProcessorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('[AlertDigestProcessor] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(
+      `[AlertDigestProcessor] Starting with ${String(this.config.intervalMs)}ms interval`
+    );
+
+    // Run first check immediately (catches digests missed while the server was down)
+    this.processDigests().catch((error: unknown) => {
+      console.error('[AlertDigestProcessor] Initial process error:', error);
+    });
+
+    // Set up interval for subsequent checks
+    this.intervalId = setInterval(() => {
+      this.processDigests().catch((error: unknown) => {
+        console.error('[AlertDigestProcessor] Process error:', error);
+      });
+    }, this.config.intervalMs);
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    console.log('[AlertDigestProcessor] Stopping');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+  }
+
+  async processDigests(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      await jobLeaseService.runExclusive(
+        'alert-digests',
+        this.workerId,
+        this.config.leaseMs,
+        async () => {
+          const sent = await alertService.sendDueDigests();
+          if (sent > 0) {
+            console.log(`[AlertDigestProcessor] Sent ${String(sent)} alert digests`);
+          }
+        }
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  getStatus(): { isRunning: boolean; isProcessing: boolean } {
+    return {
+      isRunning: this.isRunning,
+      isProcessing: this.isProcessing,
+    };
+  }
+}
+
+export const alertDigestProcessor = new AlertDigestProcessor();
+
+export function startAlertDigestProcessor(): void {
+  alertDigestProcessor.start();
+}
+
+export function stopAlertDigestProcessor(): void {
+  alertDigestProcessor.stop();
+}
@@ -1,16 +1,19 @@
 import { Business, BusinessDocument } from '../models/Business.js';
 import { googleReviewsSyncService } from '../services/GoogleReviewsSyncService.js';
 import { reviewAttributionService } from '../services/ReviewAttributionService.js';
+import { createWorkerId, jobLeaseService } from '../services/JobLeaseService.js';
 import { isGoogleConfigured } from '../providers/index.js';
 
 interface ProcessorConfig {
   intervalMs: number;
   batchSize: number;
+  leaseMs: number;
 }
 
 const DEFAULT_CONFIG: ProcessorConfig = {
   intervalMs: 30 * 60 * 1000, // 30 minutes (check interval, not sync interval)
   batchSize: 10,
+  leaseMs: 15 * 60 * 1000, // 15 minutes
 };
 
 // Google API rate limit: ~2000 requests/day
@@ -22,10 +25,12 @@ const DAILY_REQUEST_LIMIT = 1800; // Leave some buffer
  *
  * Checks every 30 minutes for businesses that need review sync
  * (based on their configured syncIntervalHours).
- * Also runs auto-attribution after syncing.
+ * Also runs auto-attribution after syncing. Each business is locked while it
+ * syncs, so other instances skip it.
  */
-class GoogleReviewsProcessor {
+export class GoogleReviewsProcessor {
   private config: ProcessorConfig;
+  private workerId = createWorkerId('GoogleReviewsProcessor');
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private isRunning = false;
   private isProcessing = false;
@@ -165,39 +170,17 @@ class GoogleReviewsProcessor {
     const businessId = business._id.toString();
 
     try {
-      console.log(`[GoogleReviewsProcessor] Syncing reviews for business ${businessId}`);
-
-      // Estimate requests: 1 per location for reviews
-      const locationCount = business.settings?.googleBusiness?.locationIds?.length || 0;
-      this.dailyRequestCount += locationCount + 1; // +1 for token refresh
-
-      // Sync reviews
-      const result = await googleReviewsSyncService.syncBusinessReviews(businessId);
-
-      console.log(
-        `[GoogleReviewsProcessor] Synced business ${businessId}: ` +
-          `${result.newReviews} new, ${result.updatedReviews} updated, ` +
-          `${result.errors.length} errors`
+      const ran = await jobLeaseService.runExclusive(
+        `google-reviews:${businessId}`,
+        this.workerId,
+        this.config.leaseMs,
+        () => this.syncBusiness(business)
       );
 
-      // Run auto-attribution if enabled
-      if (
-        business.settings?.googleBusiness?.attributionEnabled &&
-        result.newReviews > 0
-      ) {
-        try {
-          const linked = await reviewAttributionService.autoAttributeNewReviews(businessId);
-          if (linked > 0) {
-            console.log(
-              `[GoogleReviewsProcessor] Auto-attributed ${linked} reviews for business ${businessId}`
-            );
-          }
-        } catch (attrError) {
-          console.error(
-            `[GoogleReviewsProcessor] Attribution error for ${businessId}:`,
-            attrError
-          );
-        }
+      if (!ran) {
+        console.log(
+          `[GoogleReviewsProcessor] Business ${businessId} is being synced by another instance`
+        );
       }
     } catch (error) {
       console.error(
@@ -208,6 +191,45 @@ class GoogleReviewsProcessor {
     }
   }
 
+  private async syncBusiness(business: BusinessDocument): Promise<void> {
+    const businessId = business._id.toString();
+
+    console.log(`[GoogleReviewsProcessor] Syncing reviews for business ${businessId}`);
+
+    // Estimate requests: 1 per location for reviews
+    const locationCount = business.settings?.googleBusiness?.locationIds?.length || 0;
+    this.dailyRequestCount += locationCount + 1; // +1 for token refresh
+
+    // Sync reviews
+    const result = await googleReviewsSyncService.syncBusinessReviews(businessId);
+
+    console.log(
+      `[GoogleReviewsProcessor] Synced business ${businessId}: ` +
+        `${result.newReviews} new, ${result.updatedReviews} updated, ` +
+        `${result.errors.length} errors`
+    );
+
+    // Run auto-attribution if enabled
+    if (
+      business.settings?.googleBusiness?.attributionEnabled &&
+      result.newReviews > 0
+    ) {
+      try {
+        const linked = await reviewAttributionService.autoAttributeNewReviews(businessId);
+        if (linked > 0) {
+          console.log(
+            `[GoogleReviewsProcessor] Auto-attributed ${linked} reviews for business ${businessId}`
+          );
+        }
+      } catch (attrError) {
+        console.error(
+          `[GoogleReviewsProcessor] Attribution error for ${businessId}:`,
+          attrError
+        );
+      }
+    }
+  }
+
   private resetDailyCountIfNeeded(): void {
     const now = new Date();
     const lastReset = this.lastRequestCountReset;
@@ -1,27 +1,47 @@
+import { DEFAULT_TIMEZONE } from '@easyrate/shared';
 import { insightsService } from '../services/InsightsService.js';
+import { createWorkerId, jobLeaseService } from '../services/JobLeaseService.js';
 import { isAIConfigured } from '../providers/index.js';
+import { getLocalDateTime } from '../utils/timezone.js';
 
 interface ProcessorConfig {
   intervalMs: number;
+  batchHour: number; // Local hour (DEFAULT_TIMEZONE) of the nightly batch submission
   batchSize: number;
+  leaseMs: number;
+}
+
+const DEFAULT_BATCH_HOUR = 3;
+
+function parseBatchHour(value: string | undefined): number {
+  const hour = parseInt(value ?? '', 10);
+  return hour >= 0 && hour <= 23 ? hour : DEFAULT_BATCH_HOUR;
 }
 
 const DEFAULT_CONFIG: ProcessorConfig = {
-  intervalMs: 60 * 60 * 1000, // 1 hour
-  batchSize: 10,
+  intervalMs: 15 * 60 * 1000, // 15 minutes
+  batchHour: parseBatchHour(process.env.INSIGHTS_BATCH_HOUR),
+  batchSize: 500,
+  leaseMs: 10 * 60 * 1000, // 10 minutes - covers preparing and submitting a batch
 };
 
 /**
  * InsightsProcessor - Scheduled job for auto-refreshing AI insights
  *
- * Checks hourly for businesses that need insight refresh (7+ days old)
- * and processes them in batches.
+ * Once a night, in the batch hour, businesses that need an insight refresh
+ * (7+ days old) are submitted to the AI provider as one batch job, which is
+ * cheaper than real-time analysis. Every tick polls the submitted batches and
+ * stores finished results in their insight runs. Only one instance works on
+ * batches at a time. Manual refreshes do not go through here - they are
+ * analysed in real time.
  */
-class InsightsProcessor {
+export class InsightsProcessor {
   private config: ProcessorConfig;
+  private workerId = createWorkerId('InsightsProcessor');
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private isRunning = false;
   private isProcessing = false;
+  private lastBatchDate: string | null = null;
 
   constructor(config: Partial<ProcessorConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -34,7 +54,10 @@ class InsightsProcessor {
     }
 
     this.isRunning = true;
-    console.log(`[InsightsProcessor] Starting with ${this.config.intervalMs}ms interval`);
+    console.log(
+      `[InsightsProcessor] Starting with ${String(this.config.intervalMs)}ms interval, ` +
+        `nightly batch at ${String(this.config.batchHour)}:00`
+    );
 
     // Check if AI provider is configured
     if (!isAIConfigured()) {
@@ -46,14 +69,14 @@ class InsightsProcessor {
 
     // Run first check after 5 minutes (give server time to start)
     setTimeout(() => {
-      this.checkAndProcessInsights().catch((error) => {
+      this.checkAndProcessInsights().catch((error: unknown) => {
         console.error('[InsightsProcessor] Initial check error:', error);
       });
     }, 5 * 60 * 1000);
 
     // Set up interval for subsequent checks
     this.intervalId = setInterval(() => {
-      this.checkAndProcessInsights().catch((error) => {
+      this.checkAndProcessInsights().catch((error: unknown) => {
         console.error('[InsightsProcessor] Check error:', error);
       });
     }, this.config.intervalMs);
@@ -74,7 +97,7 @@ class InsightsProcessor {
     this.isRunning = false;
   }
 
-  async checkAndProcessInsights(): Promise<void> {
+  async checkAndProcessInsights(now = new Date()): Promise<void> {
     if (this.isProcessing) {
       console.log('[InsightsProcessor] Already processing, skipping');
       return;
@@ -87,40 +110,48 @@ class InsightsProcessor {
     this.isProcessing = true;
 
     try {
-      // Find businesses that need insight refresh
-      const businessIds = await insightsService.getBusinessesNeedingRefresh(this.config.batchSize);
-
-      if (businessIds.length === 0) {
-        return;
-      }
-
-      console.log(`[InsightsProcessor] Found ${businessIds.length} businesses needing refresh`);
+      const ran = await jobLeaseService.runExclusive(
+        'insights:batch',
+        this.workerId,
+        this.config.leaseMs,
+        async () => {
+          const collected = await insightsService.collectBatchResults(this.workerId);
+          if (collected > 0) {
+            console.log(`[InsightsProcessor] Stored ${String(collected)} batch insight results`);
+          }
+
+          const batchDate = this.getDueBatchDate(now);
+          if (!batchDate) {
+            return;
+          }
+
+          const submitted = await insightsService.submitScheduledBatch(this.config.batchSize);
+          this.lastBatchDate = batchDate;
+          console.log(`[InsightsProcessor] Submitted ${String(submitted)} insights for batch`);
+        }
+      );
 
-      // Process each business
-      for (const businessId of businessIds) {
-        await this.processBusinessInsight(businessId);
+      if (!ran) {
+        console.log('[InsightsProcessor] Batches are being processed by another instance');
       }
-
-      console.log(`[InsightsProcessor] Completed processing ${businessIds.length} businesses`);
     } finally {
       this.isProcessing = false;
     }
   }
 
-  private async processBusinessInsight(businessId: string): Promise<void> {
-    try {
-      console.log(`[InsightsProcessor] Processing insights for business ${businessId}`);
-
-      const insight = await insightsService.createAndProcess(businessId, 'scheduled');
-
-      console.log(
-        `[InsightsProcessor] Completed insight ${insight.id} for business ${businessId} ` +
-        `(${insight.reviewCount} reviews, ${insight.themes.length} themes)`
-      );
-    } catch (error) {
-      console.error(`[InsightsProcessor] Failed to process business ${businessId}:`, error);
-      // Continue with other businesses even if one fails
+  /**
+   * The local date of tonight's batch, if it is due: in the batch hour and not
+   * yet submitted by this instance. Another instance submitting in the same
+   * hour only picks up businesses not already waiting for a batch.
+   */
+  private getDueBatchDate(now: Date): string | null {
+    const local = getLocalDateTime(now, DEFAULT_TIMEZONE);
+    if (Math.floor(local.minutes / 60) !== this.config.batchHour) {
+      return null;
     }
+
+    const date = `${String(local.year)}-${String(local.month)}-${String(local.day)}`;
+    return date === this.lastBatchDate ? null : date;
   }
 
   getStatus(): { isRunning: boolean; isProcessing: boolean } {
@@ -3,17 +3,27 @@ import { Notification } from '../models/Notification.js';
 import type { BusinessDocument } from '../models/Business.js';
 import { Business } from '../models/Business.js';
 import { notificationService } from '../services/NotificationService.js';
+import { createWorkerId, jobLeaseService } from '../services/JobLeaseService.js';
+import { suppressionService } from '../services/SuppressionService.js';
+import { templateService } from '../services/TemplateService.js';
+import { resolveEmailSender, resolveSmsSender } from '../services/SenderIdentityService.js';
 import {
   getSmsProvider,
+  getConfiguredSmsProviderNames,
   getEmailProvider,
+  getConfiguredEmailProviderNames,
   isSmsConfigured,
   isEmailConfigured,
 } from '../providers/index.js';
-import type { Message } from '@easyrate/shared';
+import { EMAIL_TEMPLATES, UNSUBSCRIBE_TEXT } from '@easyrate/shared';
+import type { Message, ProviderName } from '@easyrate/shared';
+import { getNextAllowedSendTime } from '../utils/sendWindow.js';
+import { getBusinessTimeZone } from '../utils/timezone.js';
 
 interface ProcessorConfig {
   intervalMs: number;
   batchSize: number;
+  leaseMs: number;
   maxRetries: number;
   retryDelaysMs: number[];
 }
@@ -21,12 +31,14 @@ interface ProcessorConfig {
 const DEFAULT_CONFIG: ProcessorConfig = {
   intervalMs: 10 * 1000, // 10 seconds
   batchSize: 10,
+  leaseMs: 5 * 60 * 1000, // 5 minutes - a send takes seconds
   maxRetries: 3,
   retryDelaysMs: [60 * 1000, 2 * 60 * 1000, 4 * 60 * 1000], // 1min, 2min, 4min
 };
 
-class NotificationProcessor {
+export class NotificationProcessor {
   private config: ProcessorConfig;
+  private workerId = createWorkerId('NotificationProcessor');
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private isRunning = false;
   private isProcessing = false;
@@ -53,10 +65,14 @@ class NotificationProcessor {
       );
     } else {
       if (isSmsConfigured()) {
-        console.log('[NotificationProcessor] SMS provider (Gateway API) configured');
+        console.log(
+          `[NotificationProcessor] SMS providers configured: ${getConfiguredSmsProviderNames().join(', ')}`
+        );
       }
       if (isEmailConfigured()) {
-        console.log('[NotificationProcessor] Email provider (Resend) configured');
+        console.log(
+          `[NotificationProcessor] Email providers configured: ${getConfiguredEmailProviderNames().join(', ')}`
+        );
       }
     }
 
@@ -96,14 +112,16 @@ class NotificationProcessor {
     this.isProcessing = true;
 
     try {
-      // Find pending notifications that are due for sending or retry
+      // Claim pending notifications that are due for sending or retry - a claimed
+      // notification is leased to this instance, so other instances never send it too
       const now = new Date();
-      const pendingNotifications = await Notification.find({
-        status: 'pending',
-        $or: [{ retryAt: null }, { retryAt: { $lte: now } }],
-      })
-        .sort({ createdAt: 1 })
-        .limit(this.config.batchSize);
+      const pendingNotifications = await jobLeaseService.claimBatch(
+        Notification,
+        { status: 'pending', $or: [{ retryAt: null }, { retryAt: { $lte: now } }] },
+        this.workerId,
+        this.config.batchSize,
+        { leaseMs: this.config.leaseMs, sort: { createdAt: 1 } }
+      );
 
       if (pendingNotifications.length === 0) {
         return;
@@ -115,7 +133,11 @@ class NotificationProcessor {
 
       // Process each notification
       for (const notification of pendingNotifications) {
-        await this.processNotification(notification);
+        try {
+          await this.processNotification(notification);
+        } finally {
+          await jobLeaseService.release(Notification, String(notification._id), this.workerId);
+        }
       }
     } finally {
       this.isProcessing = false;
@@ -124,10 +146,40 @@ class NotificationProcessor {
 
   private async processNotification(notification: NotificationDocument): Promise<void> {
     const notificationId = String(notification._id);
+    let business: BusinessDocument | null = null;
 
     try {
-      // Load business for fallback email
-      const business = await Business.findById(notification.businessId);
+      // Load business for fallback email and send window
+      business = await Business.findById(notification.businessId);
+
+      // Never send to recipients who opted out (also covers fallbacks created after queueing)
+      const suppressed = await suppressionService.isSuppressed(
+        String(notification.businessId),
+        notification.type,
+        notification.recipient
+      );
+      if (suppressed) {
+        await notificationService.updateStatus(notificationId, 'failed', {
+          errorMessage: 'Recipient has opted out',
+        });
+        console.log(`[NotificationProcessor] Recipient opted out, cancelled ${notificationId}`);
+        return;
+      }
+
+      // Respect quiet hours - defer without counting it as a retry
+      const now = new Date();
+      const sendAt = getNextAllowedSendTime(
+        now,
+        business?.settings.sendWindow,
+        getBusinessTimeZone(business)
+      );
+      if (sendAt.getTime() > now.getTime()) {
+        await Notification.findByIdAndUpdate(notificationId, { retryAt: sendAt });
+        console.log(
+          `[NotificationProcessor] Outside send window, deferred ${notificationId} to ${sendAt.toISOString()}`
+        );
+        return;
+      }
 
       if (notification.type === 'sms') {
         await this.sendSms(notification, business);
@@ -141,7 +193,7 @@ class NotificationProcessor {
         error
       );
 
-      await this.handleFailure(notification, errorMessage);
+      await this.handleFailure(notification, errorMessage, business);
     }
   }
 
@@ -155,19 +207,20 @@ class NotificationProcessor {
       console.warn(
         `[NotificationProcessor] SMS provider not configured, skipping ${notificationId}`
       );
-      await this.handleFailure(notification, 'SMS provider not configured');
+      await this.handleFailure(notification, 'SMS provider not configured', business);
       return;
     }
 
-    const smsProvider = getSmsProvider();
+    // The business's preferred provider first, failing over to the others
+    const smsProvider = getSmsProvider(business?.settings.smsProvider);
 
     const message: Message = {
       to: notification.recipient,
       content: notification.content,
     };
 
-    if (business?.name) {
-      message.fromName = business.name;
+    if (business) {
+      message.fromName = resolveSmsSender(business);
     }
 
     console.log(`[NotificationProcessor] Sending SMS to ${notification.recipient}`);
@@ -175,13 +228,16 @@ class NotificationProcessor {
     const result = await smsProvider.send(message);
 
     if (result.success) {
-      const updateOptions: { externalMessageId?: string } = {};
+      const updateOptions: { externalMessageId?: string; provider?: ProviderName } = {};
       if (result.messageId) {
         updateOptions.externalMessageId = result.messageId;
       }
+      if (result.provider) {
+        updateOptions.provider = result.provider;
+      }
       await notificationService.updateStatus(notificationId, 'sent', updateOptions);
       console.log(
-        `[NotificationProcessor] Sent SMS ${notificationId} (external: ${result.messageId ?? ''})`
+        `[NotificationProcessor] Sent SMS ${notificationId} via ${result.provider ?? ''} (external: ${result.messageId ?? ''})`
       );
     } else {
       console.error(
@@ -201,7 +257,7 @@ class NotificationProcessor {
         }
       }
 
-      await this.handleFailure(notification, result.error ?? 'Unknown SMS error');
+      await this.handleFailure(notification, result.error ?? 'Unknown SMS error', business);
     }
   }
 
@@ -215,23 +271,55 @@ class NotificationProcessor {
       console.warn(
         `[NotificationProcessor] Email provider not configured, skipping ${notificationId}`
       );
-      await this.handleFailure(notification, 'Email provider not configured');
+      await this.handleFailure(notification, 'Email provider not configured', business);
       return;
     }
 
-    const emailProvider = getEmailProvider();
+    const emailProvider = getEmailProvider(business?.settings.emailProvider);
+
+    // Every review request carries an unsubscribe link (footer + one-click header)
+    const unsubscribeToken = suppressionService.generateUnsubscribeToken({
+      businessId: String(notification.businessId),
+      email: notification.recipient,
+    });
+    const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+    const apiUrl = process.env.API_URL ?? 'http://localhost:3001';
+    const footer = templateService.render(UNSUBSCRIBE_TEXT.emailFooter, {
+      businessName: business?.name ?? '',
+      reviewLink: notification.reviewLink,
+      unsubscribeLink: `${frontendUrl}/unsubscribe/${unsubscribeToken}`,
+    });
+
+    // Branded HTML with a one-click star row, and a plain text alternative
+    const email = templateService.renderReviewRequestEmail({
+      businessName: business?.name ?? '',
+      body: notification.content,
+      reviewLink: notification.reviewLink,
+      footer,
+      primaryColor: business?.branding.primaryColor,
+      logoUrl: business?.branding.logoUrl,
+    });
 
     const message: Message = {
       to: notification.recipient,
-      content: notification.content,
+      content: email.text,
+      html: email.html,
+      headers: {
+        'List-Unsubscribe': `<${apiUrl}/api/v1/unsubscribe/${unsubscribeToken}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
     };
 
     if (notification.subject) {
       message.subject = notification.subject;
     }
 
-    if (business?.name) {
-      message.fromName = business.name;
+    if (business) {
+      const sender = resolveEmailSender(business);
+      message.fromName = sender.fromName;
+      if (sender.from) {
+        message.from = sender.from;
+      }
     }
 
     console.log(`[NotificationProcessor] Sending email to ${notification.recipient}`);
@@ -239,10 +327,13 @@ class NotificationProcessor {
     const result = await emailProvider.send(message);
 
     if (result.success) {
-      const updateOptions: { externalMessageId?: string } = {};
+      const updateOptions: { externalMessageId?: string; provider?: ProviderName } = {};
       if (result.messageId) {
         updateOptions.externalMessageId = result.messageId;
       }
+      if (result.provider) {
+        updateOptions.provider = result.provider;
+      }
       await notificationService.updateStatus(notificationId, 'sent', updateOptions);
       console.log(
         `[NotificationProcessor] Sent email ${notificationId} (external: ${result.messageId ?? ''})`
@@ -251,7 +342,7 @@ class NotificationProcessor {
       console.error(
         `[NotificationProcessor] Email send failed for ${notificationId}: ${result.error ?? ''}`
       );
-      await this.handleFailure(notification, result.error ?? 'Unknown email error');
+      await this.handleFailure(notification, result.error ?? 'Unknown email error', business);
     }
   }
 
@@ -273,9 +364,15 @@ class NotificationProcessor {
 
     // Create a fallback email notification
     const emailSubject = `Hvordan var din oplevelse hos ${business.name}?`;
-    const emailContent =
-      business.messageTemplates.email ??
-      `Tak for dit besøg hos ${business.name}! Vi vil meget gerne høre om din oplevelse. ${notification.reviewLink}`;
+    const emailContent = templateService.render(
+      business.messageTemplates.email ?? EMAIL_TEMPLATES.reviewRequest.body,
+      {
+        businessName: business.name,
+        customerName: '',
+        reviewLink: notification.reviewLink,
+        link: notification.reviewLink,
+      }
+    );
 
     const createInput: Parameters<typeof notificationService.create>[1] = {
       type: 'email',
@@ -296,7 +393,8 @@ class NotificationProcessor {
 
   private async handleFailure(
     notification: NotificationDocument,
-    errorMessage: string
+    errorMessage: string,
+    business: BusinessDocument | null = null
   ): Promise<void> {
     const notificationId = String(notification._id);
     const currentRetryCount = notification.retryCount;
@@ -316,7 +414,12 @@ class NotificationProcessor {
     const retryDelayIndex = Math.min(currentRetryCount, this.config.retryDelaysMs.length - 1);
     const retryDelay =
       this.config.retryDelaysMs[retryDelayIndex] ?? this.config.retryDelaysMs[0] ?? 60000;
-    const retryAt = new Date(Date.now() + retryDelay);
+    // Retries are also held back until the business' next send window
+    const retryAt = getNextAllowedSendTime(
+      new Date(Date.now() + retryDelay),
+      business?.settings.sendWindow,
+      getBusinessTimeZone(business)
+    );
 
     await Notification.findByIdAndUpdate(notificationId, {
       retryCount: currentRetryCount + 1,
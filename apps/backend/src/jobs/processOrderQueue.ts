@@ -1,20 +1,35 @@
-import { Business } from '../models/Business.js';
+import { SMS_TEMPLATES, EMAIL_TEMPLATES } from '@easyrate/shared';
+import type { OrderData } from '@easyrate/shared';
+import { Business, type BusinessDocument } from '../models/Business.js';
 import { orderQueueService, type QueuedOrder } from '../services/OrderQueueService.js';
 import { notificationService } from '../services/NotificationService.js';
 import { reviewLinkService } from '../services/ReviewLinkService.js';
+import { reminderService } from '../services/ReminderService.js';
+import { contactFrequencyService } from '../services/ContactFrequencyService.js';
+import { suppressionService } from '../services/SuppressionService.js';
+import { templateService } from '../services/TemplateService.js';
+import { createWorkerId } from '../services/JobLeaseService.js';
+import { isRetryableError } from '../utils/errors.js';
 
 interface ProcessorConfig {
   intervalMs: number;
   batchSize: number;
+  leaseMs: number;
+  maxRetries: number;
+  retryDelaysMs: number[];
 }
 
 const DEFAULT_CONFIG: ProcessorConfig = {
   intervalMs: 60 * 1000, // 1 minute
   batchSize: 10,
+  leaseMs: 10 * 60 * 1000, // 10 minutes - an item is processed in seconds
+  maxRetries: 3,
+  retryDelaysMs: [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000], // 1min, 5min, 30min
 };
 
-class OrderQueueProcessor {
+export class OrderQueueProcessor {
   private config: ProcessorConfig;
+  private workerId = createWorkerId('OrderQueueProcessor');
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private isRunning = false;
   private isProcessing = false;
@@ -69,17 +84,22 @@ class OrderQueueProcessor {
     this.isProcessing = true;
 
     try {
-      const dueOrders = await orderQueueService.getDueOrders();
-
-      if (dueOrders.length === 0) {
-        return;
-      }
+      // Items of a worker that died mid-way go back in the queue
+      await orderQueueService.recoverStaleClaims();
+
+      // Claim and process in batches until nothing is due - other instances claim in parallel
+      for (;;) {
+        const batch = await orderQueueService.claimDueOrders(
+          this.workerId,
+          this.config.batchSize,
+          this.config.leaseMs
+        );
 
-      console.log(`[OrderQueueProcessor] Processing ${String(dueOrders.length)} due orders`);
+        if (batch.length === 0) {
+          return;
+        }
 
-      // Process in batches
-      for (let i = 0; i < dueOrders.length; i += this.config.batchSize) {
-        const batch = dueOrders.slice(i, i + this.config.batchSize);
+        console.log(`[OrderQueueProcessor] Processing ${String(batch.length)} due orders`);
         await Promise.all(batch.map((order) => this.processOrder(order)));
       }
     } finally {
@@ -91,9 +111,6 @@ class OrderQueueProcessor {
     const { id, businessId, orderData } = queuedOrder;
 
     try {
-      // Mark as processing
-      await orderQueueService.markProcessing(id);
-
       // Load business config
       const business = await Business.findById(businessId);
       if (!business) {
@@ -101,6 +118,11 @@ class OrderQueueProcessor {
         return;
       }
 
+      if (queuedOrder.reminderStep > 0) {
+        await this.processReminder(queuedOrder, business);
+        return;
+      }
+
       // Check if customer has contact info
       const hasPhone = Boolean(orderData.customerPhone);
       const hasEmail = Boolean(orderData.customerEmail);
@@ -109,119 +131,281 @@ class OrderQueueProcessor {
         console.warn(
           `[OrderQueueProcessor] Order ${orderData.orderId} has no customer contact info, skipping`
         );
-        await orderQueueService.markCompleted(id);
+        await orderQueueService.markSkipped(id, 'no_contact');
         return;
       }
 
       // Determine notification type based on business settings and available contact
-      const shouldSendSms = business.settings.smsEnabled && hasPhone;
-      const shouldSendEmail = business.settings.emailEnabled && hasEmail;
+      let shouldSendSms = business.settings.smsEnabled && hasPhone;
+      let shouldSendEmail = business.settings.emailEnabled && hasEmail;
 
       if (!shouldSendSms && !shouldSendEmail) {
         console.warn(
           `[OrderQueueProcessor] No notification method available for order ${orderData.orderId}`
         );
-        await orderQueueService.markCompleted(id);
+        await orderQueueService.markSkipped(id, 'no_channel');
         return;
       }
 
-      // Build customer object only with defined values
-      const customer: { email?: string; phone?: string; name?: string } = {};
-      if (orderData.customerEmail) {
-        customer.email = orderData.customerEmail;
+      // Drop channels the customer has opted out of
+      if (shouldSendSms && orderData.customerPhone) {
+        shouldSendSms = !(await suppressionService.isSuppressed(
+          businessId,
+          'sms',
+          orderData.customerPhone
+        ));
       }
-      if (orderData.customerPhone) {
-        customer.phone = orderData.customerPhone;
+      if (shouldSendEmail && orderData.customerEmail) {
+        shouldSendEmail = !(await suppressionService.isSuppressed(
+          businessId,
+          'email',
+          orderData.customerEmail
+        ));
       }
-      if (orderData.customerName) {
-        customer.name = orderData.customerName;
+
+      if (!shouldSendSms && !shouldSendEmail) {
+        console.log(
+          `[OrderQueueProcessor] Customer for order ${orderData.orderId} has opted out, skipping`
+        );
+        await orderQueueService.markSkipped(id, 'suppressed');
+        return;
       }
 
-      // Get message templates
-      const smsTemplate =
-        business.messageTemplates.sms ??
-        `Tak for dit besøg hos ${business.name}! Del venligst din oplevelse: {link}`;
-      const emailTemplate =
-        business.messageTemplates.email ??
-        `Tak for dit besøg hos ${business.name}! Vi vil meget gerne høre om din oplevelse.`;
+      // Per-customer frequency capping and dedupe across orders
+      const skipReason = await contactFrequencyService.evaluate(
+        businessId,
+        orderData,
+        business.settings.contactFrequency
+      );
+      if (skipReason) {
+        console.log(
+          `[OrderQueueProcessor] Skipping order ${orderData.orderId} due to contact policy: ${skipReason}`
+        );
+        await orderQueueService.markSkipped(id, skipReason);
+        return;
+      }
 
-      const baseUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+      // Get message templates
+      const emailTemplate = business.messageTemplates.email ?? EMAIL_TEMPLATES.reviewRequest.body;
 
       // Create SMS notification if enabled
-      // Flow: 1) Create notification without content, 2) Generate token with notificationId, 3) Update notification with content
       if (shouldSendSms && orderData.customerPhone) {
-        // Step 1: Create notification placeholder (non-empty to pass validation)
-        const smsNotification = await notificationService.create(businessId, {
-          type: 'sms',
-          recipient: orderData.customerPhone,
-          content: 'pending',
-          reviewLink: 'pending',
-          orderId: orderData.orderId,
-        });
-
-        // Step 2: Generate short-code link with notificationId for click tracking
-        const smsShortCode = await reviewLinkService.createShortLink({
-          businessId,
-          ...(Object.keys(customer).length > 0 && { customer }),
-          orderId: orderData.orderId,
-          sourcePlatform: orderData.platform,
-          notificationId: smsNotification.id,
-        });
-        const smsReviewLink = `${baseUrl}/r/${smsShortCode}`;
-        const smsContent = smsTemplate.replace('{link}', smsReviewLink);
-
-        // Step 3: Update notification with actual content and link
-        await notificationService.updateContent(smsNotification.id, {
-          content: smsContent,
-          reviewLink: smsReviewLink,
-        });
-
-        console.log(
-          `[OrderQueueProcessor] Created SMS notification for order ${orderData.orderId}`
+        await this.createReviewRequest(businessId, orderData, 'sms', (link) =>
+          templateService.buildReviewRequestSms(business.name, business.messageTemplates.sms, link)
         );
       }
 
       // Create email notification if enabled
       if (shouldSendEmail && orderData.customerEmail) {
-        // Step 1: Create notification placeholder (non-empty to pass validation)
-        const emailNotification = await notificationService.create(businessId, {
-          type: 'email',
-          recipient: orderData.customerEmail,
-          subject: 'pending',
-          content: 'pending',
-          reviewLink: 'pending',
-          orderId: orderData.orderId,
-        });
-
-        // Step 2: Generate short-code link with notificationId for click tracking
-        const emailShortCode = await reviewLinkService.createShortLink({
+        const variables = {
+          businessName: business.name,
+          customerName: orderData.customerName ?? '',
+        };
+        await this.createReviewRequest(
           businessId,
-          ...(Object.keys(customer).length > 0 && { customer }),
-          orderId: orderData.orderId,
-          sourcePlatform: orderData.platform,
-          notificationId: emailNotification.id,
-        });
-        const emailReviewLink = `${baseUrl}/r/${emailShortCode}`;
-        const emailContent = emailTemplate.replace('{link}', emailReviewLink);
-
-        // Step 3: Update notification with actual content and link
-        await notificationService.updateContent(emailNotification.id, {
-          content: emailContent,
-          reviewLink: emailReviewLink,
-        });
-
-        console.log(
-          `[OrderQueueProcessor] Created email notification for order ${orderData.orderId}`
+          orderData,
+          'email',
+          (link) => templateService.render(emailTemplate, { ...variables, reviewLink: link, link }),
+          {
+            subject: templateService.render(EMAIL_TEMPLATES.reviewRequest.subject, {
+              ...variables,
+              reviewLink: '',
+            }),
+          }
         );
       }
 
       // Mark as completed
       await orderQueueService.markCompleted(id);
+
+      // Start the follow-up reminder sequence, if configured
+      await reminderService.scheduleNext(queuedOrder, business.settings.reminders);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[OrderQueueProcessor] Failed to process order ${orderData.orderId}:`, error);
+      await this.handleFailure(queuedOrder, error);
+    } finally {
+      await orderQueueService.releaseClaim(id, this.workerId);
+    }
+  }
+
+  /**
+   * Retry retryable errors with backoff until maxRetries, then move the item to
+   * dead letter. Permanent errors fail straight away.
+   */
+  private async handleFailure(queuedOrder: QueuedOrder, error: unknown): Promise<void> {
+    const { id, attempts } = queuedOrder;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (!isRetryableError(error)) {
       await orderQueueService.markFailed(id, errorMessage);
+      return;
     }
+
+    if (attempts >= this.config.maxRetries) {
+      await orderQueueService.markDeadLetter(
+        id,
+        `Max retries exceeded. Last error: ${errorMessage}`
+      );
+      return;
+    }
+
+    const retryDelayIndex = Math.min(attempts, this.config.retryDelaysMs.length - 1);
+    const retryDelay =
+      this.config.retryDelaysMs[retryDelayIndex] ?? this.config.retryDelaysMs[0] ?? 60000;
+    await orderQueueService.scheduleRetry(queuedOrder, errorMessage, retryDelay);
+  }
+
+  /**
+   * Send a follow-up reminder step, unless the customer already engaged with an earlier message
+   */
+  private async processReminder(
+    queuedOrder: QueuedOrder,
+    business: BusinessDocument
+  ): Promise<void> {
+    const { id, businessId, orderData, reminderStep } = queuedOrder;
+    const reminders = business.settings.reminders;
+    const step = reminderService.getStep(reminders, reminderStep);
+
+    if (!step) {
+      await orderQueueService.markSkipped(id, 'reminder_not_configured');
+      return;
+    }
+
+    const previous = await notificationService.findByOrderId(businessId, orderData.orderId);
+    if (reminderService.hasEngaged(previous)) {
+      await orderQueueService.markSkipped(id, 'customer_engaged');
+      return;
+    }
+
+    const recipient = step.channel === 'sms' ? orderData.customerPhone : orderData.customerEmail;
+
+    if (recipient && (await suppressionService.isSuppressed(businessId, step.channel, recipient))) {
+      // Opted out of this channel - skip the step, later steps may use another channel
+      await orderQueueService.markSkipped(id, 'suppressed');
+    } else if (recipient) {
+      const variables = {
+        businessName: business.name,
+        customerName: orderData.customerName ?? '',
+      };
+
+      if (step.channel === 'sms') {
+        const template = step.template ?? SMS_TEMPLATES.reminder;
+        await this.createReviewRequest(
+          businessId,
+          orderData,
+          'sms',
+          (link) => templateService.render(template, { ...variables, reviewLink: link, link }),
+          { reminderStep }
+        );
+      } else {
+        const template = step.template ?? EMAIL_TEMPLATES.reminder.body;
+        await this.createReviewRequest(
+          businessId,
+          orderData,
+          'email',
+          (link) => templateService.render(template, { ...variables, reviewLink: link, link }),
+          {
+            subject: templateService.render(EMAIL_TEMPLATES.reminder.subject, {
+              ...variables,
+              reviewLink: '',
+            }),
+            reminderStep,
+          }
+        );
+      }
+
+      await orderQueueService.markCompleted(id);
+    } else {
+      // Missing contact for this channel - skip the step but keep the sequence going
+      await orderQueueService.markSkipped(id, 'no_contact');
+    }
+
+    await reminderService.scheduleNext(queuedOrder, reminders);
+  }
+
+  /**
+   * Create a notification with a tracked review link.
+   * Flow: 1) Create notification without content, 2) Generate token with notificationId, 3) Update notification with content
+   */
+  private async createReviewRequest(
+    businessId: string,
+    orderData: OrderData,
+    type: 'sms' | 'email',
+    renderContent: (reviewLink: string) => string,
+    options: { subject?: string; reminderStep?: number } = {}
+  ): Promise<void> {
+    const recipient = type === 'sms' ? orderData.customerPhone : orderData.customerEmail;
+    if (!recipient) {
+      return;
+    }
+
+    // Never repeat a message an earlier attempt already created - automatic
+    // retries and manual retries (which reset the attempt count) alike
+    const reminderStep = options.reminderStep ?? 0;
+    const previous = await notificationService.findByOrderId(businessId, orderData.orderId);
+    const alreadyCreated = previous.some(
+      (notification) =>
+        notification.type === type &&
+        (notification.reminderStep ?? 0) === reminderStep &&
+        notification.status !== 'failed'
+    );
+    if (alreadyCreated) {
+      console.log(
+        `[OrderQueueProcessor] ${type.toUpperCase()} for order ${orderData.orderId} already created by an earlier attempt`
+      );
+      return;
+    }
+
+    // Build customer object only with defined values
+    const customer: { email?: string; phone?: string; name?: string } = {};
+    if (orderData.customerEmail) {
+      customer.email = orderData.customerEmail;
+    }
+    if (orderData.customerPhone) {
+      customer.phone = orderData.customerPhone;
+    }
+    if (orderData.customerName) {
+      customer.name = orderData.customerName;
+    }
+
+    // Step 1: Create notification placeholder (non-empty to pass validation)
+    const notification = await notificationService.create(businessId, {
+      type,
+      recipient,
+      ...(type === 'email' && { subject: options.subject ?? 'pending' }),
+      content: 'pending',
+      reviewLink: 'pending',
+      orderId: orderData.orderId,
+      ...(options.reminderStep !== undefined && { reminderStep: options.reminderStep }),
+    });
+
+    try {
+      // Step 2: Generate short-code link with notificationId for click tracking
+      const shortCode = await reviewLinkService.createShortLink({
+        businessId,
+        ...(Object.keys(customer).length > 0 && { customer }),
+        orderId: orderData.orderId,
+        sourcePlatform: orderData.platform,
+        notificationId: notification.id,
+      });
+      const baseUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+      const reviewLink = `${baseUrl}/r/${shortCode}`;
+
+      // Step 3: Update notification with actual content and link
+      await notificationService.updateContent(notification.id, {
+        content: renderContent(reviewLink),
+        reviewLink,
+      });
+    } catch (error) {
+      // Never leave a placeholder behind to be sent - a retry creates a new one
+      await notificationService.delete(notification.id);
+      throw error;
+    }
+
+    const label = options.reminderStep ? `reminder ${String(options.reminderStep)} ` : '';
+    console.log(
+      `[OrderQueueProcessor] Created ${type.toUpperCase()} ${label}notification for order ${orderData.orderId}`
+    );
   }
 
   getStatus(): { isRunning: boolean; isProcessing: boolean } {
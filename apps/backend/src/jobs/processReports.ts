@@ -0,0 +1,109 @@
+import { reportService } from '../services/ReportService.js';
+import { createWorkerId, jobLeaseService } from '../services/JobLeaseService.js';
+
+interface ProcessorConfig {
+  intervalMs: number;
+  leaseMs: number;
+}
+
+const DEFAULT_CONFIG: ProcessorConfig = {
+  intervalMs: 60 * 60 * 1000, // 1 hour
+  leaseMs: 30 * 60 * 1000, // 30 minutes
+};
+
+/**
+ * ReportProcessor - Sends weekly/monthly performance report emails
+ *
+ * Reports go out after the send hour (local time) on the first day after
+ * a week or month ends. Already logged periods are skipped. Only one instance
+ * sends reports at a time.
+ */
+export class ReportProcessor {
+  private config: ProcessorConfig;
+  private workerId = createWorkerId('ReportProcessor');
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+
+  constructor(config: Partial<ProcessorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('[ReportProcessor] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`[ReportProcessor] Starting with ${String(this.config.intervalMs)}ms interval`);
+
+    // Run first check immediately (catches reports missed while the server was down)
+    this.processReports().catch((error: unknown) => {
+      console.error('[ReportProcessor] Initial process error:', error);
+    });
+
+    // Set up interval for subsequent checks
+    this.intervalId = setInterval(() => {
+      this.processReports().catch((error: unknown) => {
+        console.error('[ReportProcessor] Process error:', error);
+      });
+    }, this.config.intervalMs);
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    console.log('[ReportProcessor] Stopping');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+  }
+
+  async processReports(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      await jobLeaseService.runExclusive(
+        'reports',
+        this.workerId,
+        this.config.leaseMs,
+        async () => {
+          const sent = await reportService.sendDueReports();
+          if (sent > 0) {
+            console.log(`[ReportProcessor] Sent ${String(sent)} performance reports`);
+          }
+        }
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  getStatus(): { isRunning: boolean; isProcessing: boolean } {
+    return {
+      isRunning: this.isRunning,
+      isProcessing: this.isProcessing,
+    };
+  }
+}
+
+export const reportProcessor = new ReportProcessor();
+
+export function startReportProcessor(): void {
+  reportProcessor.start();
+}
+
+export function stopReportProcessor(): void {
+  reportProcessor.stop();
+}
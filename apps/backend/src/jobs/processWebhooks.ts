@@ -0,0 +1,130 @@
+import { WebhookDelivery } from '../models/WebhookDelivery.js';
+import { webhookService } from '../services/WebhookService.js';
+import { createWorkerId, jobLeaseService } from '../services/JobLeaseService.js';
+
+interface ProcessorConfig {
+  intervalMs: number;
+  batchSize: number;
+  leaseMs: number;
+}
+
+const DEFAULT_CONFIG: ProcessorConfig = {
+  intervalMs: 15 * 1000, // 15 seconds
+  batchSize: 20,
+  leaseMs: 5 * 60 * 1000, // 5 minutes
+};
+
+/**
+ * WebhookDeliveryProcessor - Sends queued outgoing webhook deliveries
+ *
+ * Claims pending deliveries that are due (new events and scheduled retries).
+ * Retry backoff is decided by WebhookService.deliver.
+ */
+export class WebhookDeliveryProcessor {
+  private config: ProcessorConfig;
+  private workerId = createWorkerId('WebhookDeliveryProcessor');
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+
+  constructor(config: Partial<ProcessorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('[WebhookDeliveryProcessor] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(
+      `[WebhookDeliveryProcessor] Starting with ${String(this.config.intervalMs)}ms interval`
+    );
+
+    // Run first processing immediately
+    this.processDeliveries().catch((error: unknown) => {
+      console.error('[WebhookDeliveryProcessor] Initial process error:', error);
+    });
+
+    // Set up interval for subsequent processing
+    this.intervalId = setInterval(() => {
+      this.processDeliveries().catch((error: unknown) => {
+        console.error('[WebhookDeliveryProcessor] Process error:', error);
+      });
+    }, this.config.intervalMs);
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    console.log('[WebhookDeliveryProcessor] Stopping');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+  }
+
+  async processDeliveries(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const deliveries = await jobLeaseService.claimBatch(
+        WebhookDelivery,
+        { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+        this.workerId,
+        this.config.batchSize,
+        { leaseMs: this.config.leaseMs, sort: { nextAttemptAt: 1 } }
+      );
+
+      if (deliveries.length === 0) {
+        return;
+      }
+
+      console.log(
+        `[WebhookDeliveryProcessor] Processing ${String(deliveries.length)} webhook deliveries`
+      );
+
+      for (const delivery of deliveries) {
+        try {
+          await webhookService.deliver(delivery);
+        } catch (error) {
+          console.error(
+            `[WebhookDeliveryProcessor] Failed to process delivery ${String(delivery._id)}:`,
+            error
+          );
+        } finally {
+          await jobLeaseService.release(WebhookDelivery, String(delivery._id), this.workerId);
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  getStatus(): { isRunning: boolean; isProcessing: boolean } {
+    return {
+      isRunning: this.isRunning,
+      isProcessing: this.isProcessing,
+    };
+  }
+}
+
+export const webhookDeliveryProcessor = new WebhookDeliveryProcessor();
+
+export function startWebhookDeliveryProcessor(): void {
+  webhookDeliveryProcessor.start();
+}
+
+export function stopWebhookDeliveryProcessor(): void {
+  webhookDeliveryProcessor.stop();
+}
@@ -3,6 +3,7 @@ import jwt from 'jsonwebtoken';
 import type { JwtPayload } from '@easyrate/shared';
 import { UnauthorizedError, ForbiddenError } from '../utils/errors.js';
 import { Business } from '../models/Business.js';
+import { safeEqual } from '../utils/safeEqual.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'development-secret-change-in-production';
 
@@ -88,6 +89,38 @@ export async function authenticateApiKey(
   }
 }
 
+/**
+ * Authenticate the generic order API: only the key of the business' enabled
+ * `api` integration is accepted, not the keys of Dully or EasyTable.
+ */
+export async function authenticateOrderApiKey(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  const apiKey = req.headers['x-api-key'];
+
+  if (typeof apiKey !== 'string' || !apiKey) {
+    return next(new UnauthorizedError('Manglende API nøgle'));
+  }
+
+  try {
+    const business = await Business.findOne({
+      integrations: { $elemMatch: { platform: 'api', apiKey, enabled: true } },
+    }).select('integrations');
+    const integration = business?.integrations.find((i) => i.platform === 'api');
+
+    if (!business || !integration?.apiKey || !safeEqual(integration.apiKey, apiKey)) {
+      return next(new UnauthorizedError('Ugyldig API nøgle'));
+    }
+
+    req.businessId = business._id.toString();
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 export function requireRole(...allowedRoles: Array<'admin' | 'user'>) {
   return (req: Request, _res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -0,0 +1,26 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Request } from 'express';
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * `verify` hook for express.json() that keeps the unparsed request body.
+ * Webhook signatures are computed over the exact bytes the sender posted,
+ * so they must never be checked against a re-serialized `req.body`.
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as Request).rawBody = buf;
+}
+
+/**
+ * Get the raw request body as a UTF-8 string, or null if it was not captured
+ */
+export function getRawBody(req: Request): string | null {
+  return req.rawBody ? req.rawBody.toString('utf-8') : null;
+}
@@ -1,16 +1,32 @@
 import type { Document, Model } from 'mongoose';
 import mongoose, { Schema } from 'mongoose';
 import type { Business as BusinessType, IntegrationConfig } from '@easyrate/shared';
+import {
+  ANALYSIS_LANGUAGES,
+  DEFAULT_ANALYSIS_LANGUAGE,
+  EMAIL_PROVIDER_NAMES,
+  SMS_PROVIDER_NAMES,
+} from '@easyrate/shared';
 
 export interface BusinessDocument extends Omit<BusinessType, 'id'>, Document {
   _id: mongoose.Types.ObjectId;
 }
 
+const integrationPollStateSchema = new Schema(
+  {
+    cursor: { type: Date },
+    lastPollAt: { type: Date },
+    lastSuccessAt: { type: Date },
+    lastError: { type: String },
+  },
+  { _id: false }
+);
+
 const integrationConfigSchema = new Schema<IntegrationConfig>(
   {
     platform: {
       type: String,
-      enum: ['dully', 'easytable'],
+      enum: ['dully', 'easytable', 'api'],
       required: true,
     },
     apiKey: { type: String },
@@ -20,6 +36,9 @@ const integrationConfigSchema = new Schema<IntegrationConfig>(
     connectedAt: { type: Date },
     lastWebhookAt: { type: Date },
     webhookCount: { type: Number, default: 0 },
+    polling: { type: integrationPollStateSchema },
+    // Validated by integrationFilterRuleSchema, shape depends on the rule type
+    filterRules: { type: [Schema.Types.Mixed], default: undefined },
   },
   { _id: false }
 );
@@ -39,6 +58,8 @@ const aiSettingsSchema = new Schema(
     enabled: { type: Boolean, default: false },
     provider: { type: String, enum: ['grok', 'openai'], default: 'grok' },
     autoRefresh: { type: Boolean, default: true },
+    language: { type: String, enum: ANALYSIS_LANGUAGES, default: DEFAULT_ANALYSIS_LANGUAGE },
+    includeExternalReviews: { type: Boolean, default: true },
     lastInsightRunId: { type: Schema.Types.ObjectId, ref: 'InsightRun' },
     lastInsightRunAt: { type: Date },
   },
@@ -63,6 +84,81 @@ const googleBusinessSettingsSchema = new Schema(
   { _id: false }
 );
 
+const reminderStepSchema = new Schema(
+  {
+    channel: { type: String, enum: ['sms', 'email'], required: true },
+    delayHours: { type: Number, required: true, min: 1 },
+    template: { type: String },
+  },
+  { _id: false }
+);
+
+const reminderSettingsSchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    steps: { type: [reminderStepSchema], default: [] },
+    maxAttempts: { type: Number, default: 2, min: 1 },
+  },
+  { _id: false }
+);
+
+const sendWindowSettingsSchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    // Legacy - superseded by Business.timezone, no default so it stays a fallback only
+    timezone: { type: String },
+    start: { type: String, default: '09:00' },
+    end: { type: String, default: '21:00' },
+    // Per-weekday overrides keyed by 'mon'..'sun', null = no sending that day
+    days: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const contactFrequencySettingsSchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    maxRequests: { type: Number, default: 1, min: 1 },
+    periodDays: { type: Number, default: 30, min: 1 },
+    skipIfReviewedWithinDays: { type: Number, default: 90, min: 0 },
+  },
+  { _id: false }
+);
+
+const alertRecipientSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    email: { type: String, trim: true, lowercase: true },
+    phone: { type: String, trim: true },
+    channels: { type: [String], enum: ['sms', 'email'], default: [] },
+  },
+  { _id: false }
+);
+
+const alertSettingsSchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    ratingThreshold: { type: Number, default: 3, min: 1, max: 5 },
+    keywords: { type: [String], default: [] },
+    googleReviews: { type: Boolean, default: true },
+    notifyOwner: { type: Boolean, default: true },
+    ownerChannels: { type: [String], enum: ['sms', 'email'], default: ['email'] },
+    recipients: { type: [alertRecipientSchema], default: [] },
+    deliveryMode: { type: String, enum: ['instant', 'digest'], default: 'instant' },
+    digestTime: { type: String, default: '08:00' },
+  },
+  { _id: false }
+);
+
+const reportSettingsSchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    frequency: { type: String, enum: ['weekly', 'monthly'], default: 'weekly' },
+    recipients: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
 const businessSettingsSchema = new Schema(
   {
     defaultDelayMinutes: { type: Number, default: 60 },
@@ -70,12 +166,19 @@ const businessSettingsSchema = new Schema(
     emailDelayMinutes: { type: Number },
     smsEnabled: { type: Boolean, default: true },
     emailEnabled: { type: Boolean, default: false },
+    smsProvider: { type: String, enum: SMS_PROVIDER_NAMES },
+    emailProvider: { type: String, enum: EMAIL_PROVIDER_NAMES },
     googleReviewUrl: { type: String },
     primaryColor: { type: String, default: '#3B82F6' },
     logoUrl: { type: String },
     gdpr: { type: gdprSettingsSchema, default: () => ({}) },
     aiSettings: { type: aiSettingsSchema, default: () => ({}) },
     googleBusiness: { type: googleBusinessSettingsSchema },
+    reminders: { type: reminderSettingsSchema, default: () => ({}) },
+    sendWindow: { type: sendWindowSettingsSchema, default: () => ({}) },
+    contactFrequency: { type: contactFrequencySettingsSchema, default: () => ({}) },
+    alerts: { type: alertSettingsSchema, default: () => ({}) },
+    reports: { type: reportSettingsSchema, default: () => ({}) },
   },
   { _id: false }
 );
@@ -96,6 +199,32 @@ const brandingSchema = new Schema(
   { _id: false }
 );
 
+const senderDomainSchema = new Schema(
+  {
+    name: { type: String, required: true, lowercase: true, trim: true },
+    status: {
+      type: String,
+      enum: ['pending', 'verified', 'failed'],
+      default: 'pending',
+    },
+    verificationToken: { type: String, required: true },
+    lastCheckedAt: { type: Date },
+    verifiedAt: { type: Date },
+    lastError: { type: String },
+  },
+  { _id: false }
+);
+
+const senderIdentitySchema = new Schema(
+  {
+    fromName: { type: String, trim: true, maxlength: 100 },
+    fromEmail: { type: String, trim: true, lowercase: true },
+    smsSenderId: { type: String, trim: true, maxlength: 11 },
+    domain: { type: senderDomainSchema },
+  },
+  { _id: false }
+);
+
 const businessSchema = new Schema<BusinessDocument>(
   {
     name: {
@@ -120,6 +249,10 @@ const businessSchema = new Schema<BusinessDocument>(
       trim: true,
       maxlength: 500,
     },
+    // IANA time zone - no default, so older businesses fall back to their send window's zone
+    timezone: {
+      type: String,
+    },
     settings: {
       type: businessSettingsSchema,
       default: () => ({}),
@@ -136,6 +269,9 @@ const businessSchema = new Schema<BusinessDocument>(
       type: brandingSchema,
       default: () => ({}),
     },
+    senderIdentity: {
+      type: senderIdentitySchema,
+    },
     // Reserved for future multi-location support
     locationId: {
       type: String,
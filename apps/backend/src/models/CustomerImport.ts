@@ -0,0 +1,99 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+import type {
+  CustomerImportRow,
+  CustomerImportStatus,
+  CustomerImportSummary,
+} from '@easyrate/shared';
+
+export interface CustomerImportDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  businessId: mongoose.Types.ObjectId;
+  fileName: string;
+  status: CustomerImportStatus;
+  rows: CustomerImportRow[];
+  summary: CustomerImportSummary;
+  smsPreview?: string;
+  sendsPerHour?: number;
+  scheduledAt?: Date;
+  firstSendAt?: Date;
+  lastSendAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const customerImportRowSchema = new Schema<CustomerImportRow>(
+  {
+    rowNumber: { type: Number, required: true },
+    name: String,
+    phone: String,
+    email: String,
+    visitDate: Date,
+    status: {
+      type: String,
+      enum: ['valid', 'invalid', 'duplicate', 'already_contacted', 'suppressed'],
+      required: true,
+    },
+    reasons: { type: [String], default: [] },
+    channels: { type: [String], enum: ['sms', 'email'], default: [] },
+    smsSegments: Number,
+    orderId: String,
+    scheduledFor: Date,
+  },
+  { _id: false }
+);
+
+const customerImportSchema = new Schema<CustomerImportDocument>(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['preview', 'scheduled', 'cancelled'],
+      default: 'preview',
+    },
+    rows: {
+      type: [customerImportRowSchema],
+      default: [],
+    },
+    summary: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    smsPreview: String,
+    sendsPerHour: Number,
+    scheduledAt: Date,
+    firstSendAt: Date,
+    lastSendAt: Date,
+    cancelledAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        ret.businessId = String(ret.businessId as mongoose.Types.ObjectId);
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+// Import history
+customerImportSchema.index({ businessId: 1, createdAt: -1 });
+
+export const CustomerImport: Model<CustomerImportDocument> = mongoose.model<CustomerImportDocument>(
+  'CustomerImport',
+  customerImportSchema
+);
@@ -0,0 +1,121 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+import type {
+  FeedbackAlertDelivery,
+  FeedbackAlertSource,
+  FeedbackAlertStatus,
+  FeedbackAlertTrigger,
+} from '@easyrate/shared';
+
+export interface FeedbackAlertDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  businessId: mongoose.Types.ObjectId;
+  source: FeedbackAlertSource;
+  reviewId?: mongoose.Types.ObjectId;
+  externalReviewId?: mongoose.Types.ObjectId;
+  rating: number;
+  excerpt?: string;
+  customerName?: string;
+  triggers: FeedbackAlertTrigger[];
+  matchedKeywords: string[];
+  status: FeedbackAlertStatus;
+  deliveries: FeedbackAlertDelivery[];
+  digestAttempts: number;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const feedbackAlertDeliverySchema = new Schema<FeedbackAlertDelivery>(
+  {
+    channel: { type: String, enum: ['sms', 'email'], required: true },
+    recipient: { type: String, required: true },
+    success: { type: Boolean, required: true },
+    error: { type: String },
+  },
+  { _id: false }
+);
+
+const feedbackAlertSchema = new Schema<FeedbackAlertDocument>(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ['review', 'google_review'],
+      required: true,
+    },
+    reviewId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Review',
+    },
+    externalReviewId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ExternalReview',
+    },
+    rating: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 5,
+    },
+    excerpt: String,
+    customerName: String,
+    triggers: {
+      type: [String],
+      enum: ['rating', 'keyword', 'google_review'],
+      default: [],
+    },
+    matchedKeywords: {
+      type: [String],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: ['pending_digest', 'sent', 'failed', 'skipped'],
+      required: true,
+    },
+    deliveries: {
+      type: [feedbackAlertDeliverySchema],
+      default: [],
+    },
+    // Failed digest sends - the alerts stay pending_digest until FEEDBACK_ALERTS.maxDigestAttempts
+    digestAttempts: {
+      type: Number,
+      default: 0,
+    },
+    sentAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        ret.businessId = String(ret.businessId as mongoose.Types.ObjectId);
+        if (ret.reviewId) {
+          ret.reviewId = String(ret.reviewId as mongoose.Types.ObjectId);
+        }
+        if (ret.externalReviewId) {
+          ret.externalReviewId = String(ret.externalReviewId as mongoose.Types.ObjectId);
+        }
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+// Alert history
+feedbackAlertSchema.index({ businessId: 1, createdAt: -1 });
+// Daily digest pickup
+feedbackAlertSchema.index({ status: 1, businessId: 1, createdAt: 1 });
+
+export const FeedbackAlert: Model<FeedbackAlertDocument> = mongoose.model<FeedbackAlertDocument>(
+  'FeedbackAlert',
+  feedbackAlertSchema
+);
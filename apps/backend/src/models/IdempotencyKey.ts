@@ -0,0 +1,63 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+import { ORDER_API } from '@easyrate/shared';
+
+export interface IdempotencyKeyDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  businessId: mongoose.Types.ObjectId;
+  key: string;
+  scope: string; // Endpoint the key was used on, e.g. 'orders.create'
+  requestHash: string;
+  status: 'processing' | 'completed';
+  responseStatus?: number;
+  responseBody?: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IdempotencyKeyDocument>(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    scope: {
+      type: String,
+      required: true,
+    },
+    // SHA-256 of the request body - a reused key with a different body is rejected
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['processing', 'completed'],
+      default: 'processing',
+    },
+    responseStatus: Number,
+    responseBody: Schema.Types.Mixed,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+// One record per key and business
+idempotencyKeySchema.index({ businessId: 1, key: 1 }, { unique: true });
+// Keys expire - retries after this are treated as new requests
+idempotencyKeySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: ORDER_API.idempotencyKeyTtlHours * 60 * 60 }
+);
+
+export const IdempotencyKey: Model<IdempotencyKeyDocument> = mongoose.model<IdempotencyKeyDocument>(
+  'IdempotencyKey',
+  idempotencyKeySchema
+);
@@ -8,11 +8,15 @@ import type {
   InsightRunStatus,
   InsightTrigger,
   AIProviderType,
+  InsightReviewSource,
 } from '@easyrate/shared';
+import { ANALYSIS_LANGUAGES, DEFAULT_ANALYSIS_LANGUAGE } from '@easyrate/shared';
 
 export interface InsightRunDocument extends Omit<InsightRunType, 'id' | 'businessId'>, Document {
   _id: mongoose.Types.ObjectId;
   businessId: mongoose.Types.ObjectId;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
 }
 
 const overallSentimentSchema = new Schema(
@@ -36,6 +40,7 @@ const overallSentimentSchema = new Schema(
 
 const insightThemeSchema = new Schema(
   {
+    key: { type: String },
     name: { type: String, required: true },
     description: { type: String, required: true },
     customerCount: { type: Number, required: true, min: 0 },
@@ -52,6 +57,30 @@ const insightThemeSchema = new Schema(
     },
     exampleQuotes: { type: [String], default: [] },
     suggestion: { type: String },
+    sources: {
+      type: [String],
+      enum: ['easyrate', 'google', 'trustpilot'] as InsightReviewSource[],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+const reviewCountsBySourceSchema = new Schema(
+  {
+    easyrate: { type: Number, min: 0 },
+    google: { type: Number, min: 0 },
+    trustpilot: { type: Number, min: 0 },
+  },
+  { _id: false }
+);
+
+const insightRunFailureSchema = new Schema(
+  {
+    provider: { type: String, enum: ['grok', 'openai'] as AIProviderType[], required: true },
+    message: { type: String, required: true },
+    rawResponse: { type: String },
+    failedAt: { type: Date, required: true },
   },
   { _id: false }
 );
@@ -86,6 +115,11 @@ const insightRunSchema = new Schema<InsightRunDocument>(
       required: true,
       default: 0,
     },
+    // Analysed reviews per source, an attributed Google review counted once
+    reviewCountsBySource: {
+      type: reviewCountsBySourceSchema,
+      default: null,
+    },
     avgRating: {
       type: Number,
       default: null,
@@ -111,6 +145,12 @@ const insightRunSchema = new Schema<InsightRunDocument>(
       enum: ['grok', 'openai'] as AIProviderType[],
       required: true,
     },
+    // Language the report was written in (the business' setting at the time)
+    language: {
+      type: String,
+      enum: ANALYSIS_LANGUAGES,
+      default: DEFAULT_ANALYSIS_LANGUAGE,
+    },
     modelUsed: {
       type: String,
       default: '',
@@ -128,10 +168,29 @@ const insightRunSchema = new Schema<InsightRunDocument>(
       enum: ['scheduled', 'manual'] as InsightTrigger[],
       required: true,
     },
+    // Provider batch job of a scheduled run, see InsightsService.submitScheduledBatch
+    batchId: {
+      type: String,
+      default: null,
+    },
+    // Lease while a batch result is stored (see JobLeaseService) - expires if the worker dies mid-way
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
     errorMessage: {
       type: String,
       default: null,
     },
+    // Failed attempts (provider errors, invalid answers) with the raw answer
+    failures: {
+      type: [insightRunFailureSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -141,6 +200,8 @@ const insightRunSchema = new Schema<InsightRunDocument>(
         ret.businessId = String(ret.businessId);
         delete ret._id;
         delete ret.__v;
+        delete ret.lockedBy;
+        delete ret.lockedUntil;
         return ret;
       },
     },
@@ -151,6 +212,7 @@ const insightRunSchema = new Schema<InsightRunDocument>(
 insightRunSchema.index({ businessId: 1, createdAt: -1 });
 insightRunSchema.index({ businessId: 1, status: 1 });
 insightRunSchema.index({ status: 1, createdAt: -1 });
+insightRunSchema.index({ status: 1, batchId: 1 });
 
 export const InsightRun: Model<InsightRunDocument> = mongoose.model<InsightRunDocument>(
   'InsightRun',
@@ -0,0 +1,86 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+import type { IntegrationPollRunStatus } from '@easyrate/shared';
+import { EASYTABLE_POLLING } from '@easyrate/shared';
+
+export interface IntegrationPollRunDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  businessId: mongoose.Types.ObjectId;
+  platform: 'easytable';
+  status: IntegrationPollRunStatus;
+  since: Date;
+  until?: Date;
+  isBackfill: boolean;
+  fetched: number;
+  queued: number;
+  error?: string;
+  durationMs: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const integrationPollRunSchema = new Schema<IntegrationPollRunDocument>(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: true,
+    },
+    platform: {
+      type: String,
+      enum: ['easytable'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['success', 'failed'],
+      required: true,
+    },
+    since: {
+      type: Date,
+      required: true,
+    },
+    until: Date,
+    isBackfill: {
+      type: Boolean,
+      default: false,
+    },
+    fetched: {
+      type: Number,
+      default: 0,
+    },
+    queued: {
+      type: Number,
+      default: 0,
+    },
+    error: String,
+    durationMs: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        ret.businessId = String(ret.businessId as mongoose.Types.ObjectId);
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+// Poll history per integration
+integrationPollRunSchema.index({ businessId: 1, platform: 1, createdAt: -1 });
+// A run every few minutes adds up - only recent history is kept
+integrationPollRunSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: EASYTABLE_POLLING.runRetentionDays * 24 * 60 * 60 }
+);
+
+export const IntegrationPollRun: Model<IntegrationPollRunDocument> =
+  mongoose.model<IntegrationPollRunDocument>('IntegrationPollRun', integrationPollRunSchema);
@@ -0,0 +1,42 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+
+export interface JobLockDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string; // e.g. 'easytable-poller' or 'insights:<businessId>'
+  lockedBy: string;
+  lockedUntil: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobLockSchema = new Schema<JobLockDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+    },
+    // Worker id of the holder, see createWorkerId
+    lockedBy: {
+      type: String,
+      required: true,
+    },
+    // The lock is free again after this, so a crashed holder does not block others
+    lockedUntil: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+// One lock per name - a second worker's upsert fails on this
+jobLockSchema.index({ name: 1 }, { unique: true });
+
+export const JobLock: Model<JobLockDocument> = mongoose.model<JobLockDocument>(
+  'JobLock',
+  jobLockSchema
+);
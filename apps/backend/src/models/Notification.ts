@@ -14,6 +14,8 @@ export interface NotificationDocument
   businessId: mongoose.Types.ObjectId;
   retryCount: number;
   retryAt: Date | null;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
   consent?: NotificationConsent;
 }
 
@@ -54,9 +56,17 @@ const notificationSchema = new Schema<NotificationDocument>(
     orderId: {
       type: String,
     },
+    reminderStep: {
+      type: Number,
+      default: 0,
+    },
     externalMessageId: {
       type: String,
     },
+    // Provider that sent the message, after any SMS failover
+    provider: {
+      type: String,
+    },
     errorMessage: {
       type: String,
     },
@@ -83,6 +93,15 @@ const notificationSchema = new Schema<NotificationDocument>(
       type: Date,
       default: null,
     },
+    // Processor lease (see JobLeaseService) - expires if the worker dies mid-way
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
     consent: {
       marketingOptIn: { type: Boolean, default: false },
       consentTimestamp: { type: Date },
@@ -116,6 +135,10 @@ const notificationSchema = new Schema<NotificationDocument>(
 notificationSchema.index({ businessId: 1, createdAt: -1 });
 notificationSchema.index({ businessId: 1, status: 1 });
 notificationSchema.index({ externalMessageId: 1 });
+// Index for reminder engagement checks per order
+notificationSchema.index({ businessId: 1, orderId: 1 });
+// Index for per-customer contact frequency checks
+notificationSchema.index({ businessId: 1, recipient: 1, createdAt: -1 });
 notificationSchema.index({ locationId: 1 });
 // Index for notification processor to find pending notifications
 notificationSchema.index({ status: 1, retryAt: 1 });
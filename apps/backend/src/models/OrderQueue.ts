@@ -1,18 +1,31 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import type { OrderData } from '@easyrate/shared';
+import type {
+  FilterRuleResult,
+  OrderData,
+  OrderPlatform,
+  OrderQueueStatus,
+  QueueSkipReason,
+} from '@easyrate/shared';
 
 export interface OrderQueueDocument extends Document {
   _id: mongoose.Types.ObjectId;
   businessId: mongoose.Types.ObjectId;
   orderId: string;
-  platform: 'dully' | 'easytable' | 'test';
+  platform: OrderPlatform;
   orderData: OrderData;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: OrderQueueStatus;
+  reminderStep: number;
   scheduledFor: Date;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
   processedAt?: Date;
   errorMessage?: string;
   cancelledAt?: Date;
   cancelReason?: string;
+  skipReason?: QueueSkipReason;
+  skipTrace?: FilterRuleResult[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,8 +42,9 @@ const orderDataSchema = new Schema<OrderData>(
     platform: {
       type: String,
       required: true,
-      enum: ['dully', 'easytable', 'test'],
+      enum: ['dully', 'easytable', 'api', 'import', 'test'],
     },
+    source: { type: String },
     metadata: { type: Schema.Types.Mixed },
   },
   { _id: false }
@@ -51,7 +65,7 @@ const orderQueueSchema = new Schema<OrderQueueDocument>(
     platform: {
       type: String,
       required: true,
-      enum: ['dully', 'easytable', 'test'],
+      enum: ['dully', 'easytable', 'api', 'import', 'test'],
     },
     orderData: {
       type: orderDataSchema,
@@ -60,20 +74,72 @@ const orderQueueSchema = new Schema<OrderQueueDocument>(
     status: {
       type: String,
       required: true,
-      enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+      enum: ['pending', 'processing', 'completed', 'failed', 'dead_letter', 'cancelled', 'skipped'],
       default: 'pending',
     },
+    // 0 = initial review request, 1+ = follow-up reminder steps
+    reminderStep: {
+      type: Number,
+      default: 0,
+    },
     cancelledAt: {
       type: Date,
     },
     cancelReason: {
       type: String,
     },
+    // Why no review request was sent (status 'skipped')
+    skipReason: {
+      type: String,
+      enum: [
+        'no_contact',
+        'no_channel',
+        'frequency_cap',
+        'recently_reviewed',
+        'customer_engaged',
+        'reminder_not_configured',
+        'suppressed',
+        'filtered',
+      ],
+    },
+    // Filter rule results for orders skipped with skipReason 'filtered'
+    skipTrace: {
+      type: [
+        new Schema<FilterRuleResult>(
+          {
+            rule: { type: Schema.Types.Mixed, required: true },
+            passed: { type: Boolean, required: true },
+            detail: { type: String, required: true },
+          },
+          { _id: false }
+        ),
+      ],
+      default: undefined,
+    },
     scheduledFor: {
       type: Date,
       required: true,
       index: true,
     },
+    // Failed processing attempts, retryable errors are retried until the limit
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    // When a pending item may be retried after a retryable error
+    nextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    // Processor lease (see JobLeaseService) - expires if the worker dies mid-way
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
     processedAt: {
       type: Date,
     },
@@ -88,10 +154,12 @@ const orderQueueSchema = new Schema<OrderQueueDocument>(
 
 // Compound index for queue processing
 orderQueueSchema.index({ status: 1, scheduledFor: 1 });
+// Index for recovering items whose processing lease expired
+orderQueueSchema.index({ status: 1, lockedUntil: 1 });
 
-// Unique compound index to prevent duplicate orders
+// Unique compound index to prevent duplicate orders (one item per reminder step)
 orderQueueSchema.index(
-  { businessId: 1, orderId: 1, platform: 1 },
+  { businessId: 1, orderId: 1, platform: 1, reminderStep: 1 },
   { unique: true }
 );
 
@@ -0,0 +1,80 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+import type {
+  PerformanceReportData,
+  PerformanceReportStatus,
+  ReportFrequency,
+} from '@easyrate/shared';
+
+export interface PerformanceReportDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  businessId: mongoose.Types.ObjectId;
+  frequency: ReportFrequency;
+  periodStart: Date;
+  periodEnd: Date;
+  recipients: string[];
+  status: PerformanceReportStatus;
+  error?: string;
+  data: PerformanceReportData;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const performanceReportSchema = new Schema<PerformanceReportDocument>(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: true,
+    },
+    frequency: {
+      type: String,
+      enum: ['weekly', 'monthly'],
+      required: true,
+    },
+    periodStart: {
+      type: Date,
+      required: true,
+    },
+    periodEnd: {
+      type: Date,
+      required: true,
+    },
+    recipients: {
+      type: [String],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: ['sent', 'failed'],
+      required: true,
+    },
+    error: String,
+    // Snapshot of the numbers as they were sent
+    data: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        ret.businessId = String(ret.businessId as mongoose.Types.ObjectId);
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+// One report per business and period - also guards against double sends
+performanceReportSchema.index({ businessId: 1, frequency: 1, periodStart: 1 }, { unique: true });
+// Report history
+performanceReportSchema.index({ businessId: 1, createdAt: -1 });
+
+export const PerformanceReport: Model<PerformanceReportDocument> =
+  mongoose.model<PerformanceReportDocument>('PerformanceReport', performanceReportSchema);
@@ -51,7 +51,7 @@ const reviewSchema = new Schema<ReviewDocument>(
     },
     sourcePlatform: {
       type: String,
-      enum: ['dully', 'easytable', 'direct', 'test'],
+      enum: ['dully', 'easytable', 'api', 'import', 'direct', 'test'],
       required: true,
     },
     orderId: {
@@ -0,0 +1,68 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+import type { NotificationType, SuppressionReason } from '@easyrate/shared';
+
+export interface SuppressionDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  businessId: mongoose.Types.ObjectId | null;
+  channel: NotificationType;
+  value: string;
+  reason: SuppressionReason;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const suppressionSchema = new Schema<SuppressionDocument>(
+  {
+    // null = global suppression (applies to all businesses)
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      default: null,
+    },
+    channel: {
+      type: String,
+      enum: ['sms', 'email'],
+      required: true,
+    },
+    // Normalized phone number (+45...) or lowercased email
+    value: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    reason: {
+      type: String,
+      enum: ['unsubscribe', 'sms_stop', 'complaint', 'manual'],
+      required: true,
+    },
+    note: {
+      type: String,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        ret.businessId = ret.businessId ? String(ret.businessId as mongoose.Types.ObjectId) : null;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+// One entry per recipient and scope, also used for lookups before sending
+suppressionSchema.index({ businessId: 1, channel: 1, value: 1 }, { unique: true });
+// Dashboard list
+suppressionSchema.index({ businessId: 1, createdAt: -1 });
+
+export const Suppression: Model<SuppressionDocument> = mongoose.model<SuppressionDocument>(
+  'Suppression',
+  suppressionSchema
+);
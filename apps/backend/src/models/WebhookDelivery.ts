@@ -0,0 +1,102 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+import type {
+  WebhookDeliveryStatus,
+  WebhookEventPayload,
+  WebhookEventType,
+} from '@easyrate/shared';
+
+export interface WebhookDeliveryDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  businessId: mongoose.Types.ObjectId;
+  endpointId: mongoose.Types.ObjectId;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEventPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastResponseStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Delivery log entries are kept for 30 days
+const DELIVERY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const webhookDeliverySchema = new Schema<WebhookDeliveryDocument>(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: true,
+    },
+    endpointId: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookEndpoint',
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    eventType: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'succeeded', 'failed'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: Date,
+    // Processor lease (see JobLeaseService) - expires if the worker dies mid-way
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    lastResponseStatus: Number,
+    lastError: String,
+    deliveredAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        ret.businessId = String(ret.businessId as mongoose.Types.ObjectId);
+        ret.endpointId = String(ret.endpointId as mongoose.Types.ObjectId);
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+// Processor picks up due deliveries
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+// Delivery log per endpoint
+webhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+// Expire old log entries
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_RETENTION_SECONDS });
+
+export const WebhookDelivery: Model<WebhookDeliveryDocument> =
+  mongoose.model<WebhookDeliveryDocument>('WebhookDelivery', webhookDeliverySchema);
@@ -0,0 +1,77 @@
+import type { Document, Model } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+import type { WebhookEventType } from '@easyrate/shared';
+
+export interface WebhookEndpointDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  businessId: mongoose.Types.ObjectId;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  secret: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookEndpointSchema = new Schema<WebhookEndpointDocument>(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: true,
+    },
+    url: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 2048,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    events: {
+      type: [String],
+      enum: [
+        'review.created',
+        'review.negative',
+        'review.replied',
+        'external_review.synced',
+        'notification.failed',
+        'insight_run.completed',
+      ],
+      default: [],
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    // Signing secret (whsec_<base64>) - never included in API responses after creation
+    secret: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        ret.businessId = String(ret.businessId as mongoose.Types.ObjectId);
+        delete ret._id;
+        delete ret.__v;
+        delete ret.secret;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+// Endpoint lookup when emitting events
+webhookEndpointSchema.index({ businessId: 1, enabled: 1 });
+
+export const WebhookEndpoint: Model<WebhookEndpointDocument> =
+  mongoose.model<WebhookEndpointDocument>('WebhookEndpoint', webhookEndpointSchema);
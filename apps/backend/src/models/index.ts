@@ -18,3 +18,30 @@ export type { InsightRunDocument } from './InsightRun.js';
 
 export { ResponseGenerationLog } from './ResponseGenerationLog.js';
 export type { ResponseGenerationLogDocument } from './ResponseGenerationLog.js';
+
+export { Suppression } from './Suppression.js';
+export type { SuppressionDocument } from './Suppression.js';
+
+export { WebhookEndpoint } from './WebhookEndpoint.js';
+export type { WebhookEndpointDocument } from './WebhookEndpoint.js';
+
+export { WebhookDelivery } from './WebhookDelivery.js';
+export type { WebhookDeliveryDocument } from './WebhookDelivery.js';
+
+export { FeedbackAlert } from './FeedbackAlert.js';
+export type { FeedbackAlertDocument } from './FeedbackAlert.js';
+
+export { PerformanceReport } from './PerformanceReport.js';
+export type { PerformanceReportDocument } from './PerformanceReport.js';
+
+export { IdempotencyKey } from './IdempotencyKey.js';
+export type { IdempotencyKeyDocument } from './IdempotencyKey.js';
+
+export { CustomerImport } from './CustomerImport.js';
+export type { CustomerImportDocument } from './CustomerImport.js';
+
+export { IntegrationPollRun } from './IntegrationPollRun.js';
+export type { IntegrationPollRunDocument } from './IntegrationPollRun.js';
+
+export { JobLock } from './JobLock.js';
+export type { JobLockDocument } from './JobLock.js';
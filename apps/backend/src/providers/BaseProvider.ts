@@ -1,6 +1,6 @@
 import type { Message, SendResult, MessageStatusResult, MessageProvider } from '@easyrate/shared';
 import type { ProviderName } from '@easyrate/shared';
-import { getRateLimiter, type RateLimiter } from '../services/RateLimiter.js';
+import { getRateLimiter, type RateLimitConfig, type RateLimiter } from '../services/RateLimiter.js';
 
 export interface ProviderConfig {
   apiKey: string;
@@ -20,16 +20,27 @@ export abstract class BaseProvider implements MessageProvider {
     this.config = config;
   }
 
+  getName(): ProviderName {
+    return this.providerName;
+  }
+
   /**
-   * Get the rate limiter for this provider
+   * Get the rate limiter for this provider (keyed by provider name)
    */
   protected get rateLimiter(): RateLimiter {
     if (!this._rateLimiter) {
-      this._rateLimiter = getRateLimiter(this.providerName);
+      this._rateLimiter = getRateLimiter(this.providerName, this.getRateLimitOverrides());
     }
     return this._rateLimiter;
   }
 
+  /**
+   * Limits that differ from PROVIDER_RATE_LIMITS, e.g. from the provider's config
+   */
+  protected getRateLimitOverrides(): Partial<RateLimitConfig> | undefined {
+    return undefined;
+  }
+
   /**
    * Wait for rate limit before making request
    */
@@ -66,6 +77,7 @@ export abstract class BaseProvider implements MessageProvider {
     return {
       success: false,
       error: errorMessage,
+      provider: this.providerName,
     };
   }
 
@@ -1,6 +1,17 @@
-import type { SmsProvider, EmailProvider, AIProviderType } from '@easyrate/shared';
+import type {
+  SmsProvider,
+  EmailProvider,
+  AIProviderType,
+  SmsProviderName,
+  EmailProviderName,
+} from '@easyrate/shared';
+import { PROVIDER_NAMES, SMS_PROVIDER_NAMES, EMAIL_PROVIDER_NAMES } from '@easyrate/shared';
 import { InMobileProvider, type InMobileConfig } from './sms/InMobileProvider.js';
+import { HttpSmsProvider, type HttpSmsConfig } from './sms/HttpSmsProvider.js';
+import { SmsProviderRegistry, FailoverSmsProvider } from './sms/SmsProviderRegistry.js';
 import { ResendProvider, type ResendConfig } from './email/ResendProvider.js';
+import { SmtpProvider, type SmtpConfig } from './email/SmtpProvider.js';
+import type { SmtpSecurity } from './email/SmtpClient.js';
 import type { BaseAIProvider } from './ai/index.js';
 import { createGrokProvider, createOpenAIProvider } from './ai/index.js';
 import { GoogleBusinessProvider } from './google/GoogleBusinessProvider.js';
@@ -11,13 +22,22 @@ import { GoogleBusinessProvider } from './google/GoogleBusinessProvider.js';
  */
 export class ProviderFactory {
   private static instance: ProviderFactory | undefined;
-  private smsProvider: SmsProvider | null = null;
-  private emailProvider: EmailProvider | null = null;
+  private smsRegistry: SmsProviderRegistry;
+  private emailProviders = new Map<EmailProviderName, EmailProvider>();
   private aiProvider: BaseAIProvider | null = null;
   private googleProvider: GoogleBusinessProvider | null = null;
 
-  // eslint-disable-next-line @typescript-eslint/no-empty-function
-  private constructor() {}
+  private constructor() {
+    this.smsRegistry = new SmsProviderRegistry();
+    this.smsRegistry.register(PROVIDER_NAMES.INMOBILE, {
+      isConfigured: () => Boolean(process.env.INMOBILE_API_KEY),
+      create: () => new InMobileProvider(this.getInMobileConfig()),
+    });
+    this.smsRegistry.register(PROVIDER_NAMES.HTTP_SMS, {
+      isConfigured: () => Boolean(process.env.SMS_HTTP_URL && process.env.SMS_HTTP_API_KEY),
+      create: () => new HttpSmsProvider(this.getHttpSmsConfig()),
+    });
+  }
 
   static getInstance(): ProviderFactory {
     ProviderFactory.instance ??= new ProviderFactory();
@@ -25,39 +45,67 @@ export class ProviderFactory {
   }
 
   /**
-   * Get or create the SMS provider
+   * Get the SMS provider: the preferred provider (e.g. a business's setting),
+   * then SMS_PROVIDER, failing over to the other configured providers
    */
-  getSmsProvider(): SmsProvider {
-    if (!this.smsProvider) {
-      const config = this.getInMobileConfig();
-      this.smsProvider = new InMobileProvider(config);
+  getSmsProvider(preferred?: SmsProviderName): SmsProvider {
+    if (!this.smsRegistry.isConfigured()) {
+      throw new Error('No SMS provider is configured. Set INMOBILE_API_KEY or SMS_HTTP_URL.');
     }
-    return this.smsProvider;
+    return new FailoverSmsProvider(this.smsRegistry, preferred, this.getDefaultSmsProviderName());
   }
 
   /**
-   * Get or create the email provider
+   * Get the SMS provider registry
    */
-  getEmailProvider(): EmailProvider {
-    if (!this.emailProvider) {
-      const config = this.getResendConfig();
-      this.emailProvider = new ResendProvider(config);
+  getSmsRegistry(): SmsProviderRegistry {
+    return this.smsRegistry;
+  }
+
+  /**
+   * Get or create the email provider: the preferred provider (e.g. a business's
+   * setting) if configured, otherwise EMAIL_PROVIDER, otherwise Resend then SMTP
+   */
+  getEmailProvider(preferred?: EmailProviderName): EmailProvider {
+    const name = this.resolveEmailProviderName(preferred);
+    if (!name) {
+      throw new Error('No email provider is configured. Set RESEND_API_KEY or SMTP_HOST.');
+    }
+
+    let provider = this.emailProviders.get(name);
+    if (!provider) {
+      provider =
+        name === PROVIDER_NAMES.SMTP
+          ? new SmtpProvider(this.getSmtpConfig())
+          : new ResendProvider(this.getResendConfig());
+      this.emailProviders.set(name, provider);
     }
-    return this.emailProvider;
+    return provider;
   }
 
   /**
    * Check if SMS provider is configured
    */
   isSmsConfigured(): boolean {
-    return Boolean(process.env.INMOBILE_API_KEY);
+    return this.smsRegistry.isConfigured();
   }
 
   /**
    * Check if email provider is configured
    */
   isEmailConfigured(): boolean {
-    return Boolean(process.env.RESEND_API_KEY);
+    return this.resolveEmailProviderName() !== null;
+  }
+
+  /**
+   * Get the names of the configured email providers
+   */
+  getConfiguredEmailProviderNames(): EmailProviderName[] {
+    return EMAIL_PROVIDER_NAMES.filter((name) =>
+      name === PROVIDER_NAMES.SMTP
+        ? Boolean(process.env.SMTP_HOST && process.env.SMTP_FROM_EMAIL)
+        : Boolean(process.env.RESEND_API_KEY)
+    );
   }
 
   /**
@@ -87,6 +135,14 @@ export class ProviderFactory {
     return this.aiProvider;
   }
 
+  /**
+   * Get the other configured AI provider, to retry an analysis the given
+   * provider could not produce (Grok falls back to OpenAI and vice versa)
+   */
+  getFallbackAIProvider(failedProvider: AIProviderType): BaseAIProvider | null {
+    return failedProvider === 'grok' ? createOpenAIProvider() : createGrokProvider();
+  }
+
   /**
    * Check if any AI provider is configured
    */
@@ -135,6 +191,51 @@ export class ProviderFactory {
     };
   }
 
+  /**
+   * Get the default SMS provider from SMS_PROVIDER, if it is a known provider
+   */
+  private getDefaultSmsProviderName(): SmsProviderName | undefined {
+    const name = process.env.SMS_PROVIDER;
+    return SMS_PROVIDER_NAMES.find((provider) => provider === name);
+  }
+
+  /**
+   * The first configured of: the preferred provider, EMAIL_PROVIDER, any configured provider
+   */
+  private resolveEmailProviderName(preferred?: EmailProviderName): EmailProviderName | null {
+    const configured = this.getConfiguredEmailProviderNames();
+
+    for (const candidate of [preferred, process.env.EMAIL_PROVIDER, ...configured]) {
+      const name = configured.find((provider) => provider === candidate);
+      if (name) {
+        return name;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get HTTP SMS gateway configuration from environment
+   */
+  private getHttpSmsConfig(): HttpSmsConfig {
+    const url = process.env.SMS_HTTP_URL;
+    const apiKey = process.env.SMS_HTTP_API_KEY;
+    if (!url || !apiKey) {
+      throw new Error('SMS_HTTP_URL and SMS_HTTP_API_KEY environment variables are required');
+    }
+
+    const rateLimit = Number(process.env.SMS_HTTP_RATE_LIMIT);
+
+    return {
+      url,
+      apiKey,
+      senderId: process.env.SMS_HTTP_SENDER_ID ?? 'EasyRate',
+      webhookSecret: process.env.SMS_HTTP_WEBHOOK_SECRET,
+      statusCallbackUrl: process.env.SMS_HTTP_STATUS_CALLBACK_URL,
+      maxRequestsPerSecond: rateLimit > 0 ? rateLimit : undefined,
+    };
+  }
+
   /**
    * Get Resend configuration from environment
    */
@@ -157,24 +258,65 @@ export class ProviderFactory {
     };
   }
 
+  /**
+   * Get SMTP configuration from environment
+   */
+  private getSmtpConfig(): SmtpConfig {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error('SMTP_HOST environment variable is required');
+    }
+
+    const fromEmail = process.env.SMTP_FROM_EMAIL;
+    if (!fromEmail) {
+      throw new Error('SMTP_FROM_EMAIL environment variable is required');
+    }
+
+    const security: SmtpSecurity =
+      process.env.SMTP_SECURITY === 'tls' || process.env.SMTP_SECURITY === 'none'
+        ? process.env.SMTP_SECURITY
+        : 'starttls';
+    const defaultPort = security === 'tls' ? 465 : 587;
+
+    return {
+      host,
+      port: Number(process.env.SMTP_PORT) || defaultPort,
+      security,
+      username: process.env.SMTP_USERNAME,
+      password: process.env.SMTP_PASSWORD,
+      fromEmail,
+      fromName: process.env.SMTP_FROM_NAME ?? 'EasyRate',
+      rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+      bounceSecret: process.env.SMTP_BOUNCE_SECRET,
+    };
+  }
+
   /**
    * Reset providers (mainly for testing)
    */
   reset(): void {
-    this.smsProvider = null;
-    this.emailProvider = null;
+    this.smsRegistry.reset();
+    this.emailProviders.clear();
     this.aiProvider = null;
     this.googleProvider = null;
   }
 }
 
 // Convenience functions for getting providers
-export function getSmsProvider(): SmsProvider {
-  return ProviderFactory.getInstance().getSmsProvider();
+export function getSmsProvider(preferred?: SmsProviderName): SmsProvider {
+  return ProviderFactory.getInstance().getSmsProvider(preferred);
+}
+
+export function getConfiguredSmsProviderNames(): SmsProviderName[] {
+  return ProviderFactory.getInstance().getSmsRegistry().getConfiguredNames();
 }
 
-export function getEmailProvider(): EmailProvider {
-  return ProviderFactory.getInstance().getEmailProvider();
+export function getEmailProvider(preferred?: EmailProviderName): EmailProvider {
+  return ProviderFactory.getInstance().getEmailProvider(preferred);
+}
+
+export function getConfiguredEmailProviderNames(): EmailProviderName[] {
+  return ProviderFactory.getInstance().getConfiguredEmailProviderNames();
 }
 
 export function isSmsConfigured(): boolean {
@@ -189,6 +331,10 @@ export function getAIProvider(preferredProvider?: AIProviderType): BaseAIProvide
   return ProviderFactory.getInstance().getAIProvider(preferredProvider);
 }
 
+export function getFallbackAIProvider(failedProvider: AIProviderType): BaseAIProvider | null {
+  return ProviderFactory.getInstance().getFallbackAIProvider(failedProvider);
+}
+
 export function isAIConfigured(): boolean {
   return ProviderFactory.getInstance().isAIConfigured();
 }
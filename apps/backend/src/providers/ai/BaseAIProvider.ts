@@ -4,20 +4,139 @@ import type {
   AIProviderType,
   AIResponseGenerationInput,
   AIResponseGenerationResult,
+  AnalysisLanguage,
+  InsightReviewSource,
 } from '@easyrate/shared';
+import { detectLanguage, LANGUAGE_NAMES } from '../../utils/language.js';
+import { canonicalizeThemeKey } from '../../utils/themeKey.js';
+import { validateAnalysisResponse, type AnalysisResponse } from './analysisSchema.js';
 
 export interface AIProviderConfig {
   apiKey: string;
   model?: string | undefined;
+  baseUrl?: string | undefined; // Overrides the provider's API URL, e.g. for a proxy
   [key: string]: unknown;
 }
 
+export interface ChatCompletionRequest {
+  model: string;
+  messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+  temperature: number;
+  max_tokens: number;
+  response_format?: { type: 'json_object' };
+}
+
+export type AIBatchStatus = 'in_progress' | 'completed' | 'failed' | 'expired' | 'cancelled';
+
+export interface AIBatchRequest {
+  customId: string; // Returned with the result, e.g. the insight run ID
+  input: AIAnalysisInput;
+}
+
+export interface AIBatch {
+  id: string;
+  status: AIBatchStatus;
+  outputFileId?: string | undefined;
+  errorFileId?: string | undefined;
+  submittedAt?: Date | undefined;
+  endedAt?: Date | undefined; // Completed, failed, expired or cancelled
+}
+
+export interface AIBatchResult {
+  customId: string;
+  result?: AIAnalysisResult;
+  error?: string;
+  rawResponse?: string; // The model's answer, when it could not be used
+}
+
+export interface ChatCompletion {
+  content: string;
+  model: string;
+  tokensUsed: number;
+}
+
+/**
+ * The model answered, but not with something usable: invalid or incomplete
+ * JSON, or the wrong language. Keeps the raw answer for debugging.
+ */
+export class AIResponseError extends Error {
+  constructor(
+    message: string,
+    public readonly rawResponse: string
+  ) {
+    super(message);
+    this.name = 'AIResponseError';
+  }
+}
+
+interface BatchObject {
+  id: string;
+  status: string;
+  output_file_id?: string | null;
+  error_file_id?: string | null;
+  // Unix timestamps in seconds
+  created_at?: number;
+  completed_at?: number | null;
+  failed_at?: number | null;
+  expired_at?: number | null;
+  cancelled_at?: number | null;
+}
+
+interface BatchOutputLine {
+  custom_id: string;
+  response?: {
+    status_code: number;
+    body?: {
+      model?: string;
+      choices?: { message: { content: string } }[];
+      usage?: { total_tokens: number };
+      error?: { message: string };
+    };
+  } | null;
+  error?: { message: string } | null;
+}
+
+function toDate(seconds: number | null | undefined): Date | undefined {
+  return typeof seconds === 'number' ? new Date(seconds * 1000) : undefined;
+}
+
+// Batches are processed at a discount within this window
+const BATCH_COMPLETION_WINDOW = '24h';
+const BATCH_ENDPOINT = '/v1/chat/completions';
+
+// The analysis JSON, validated by analysisResponseSchema
+const ANALYSIS_JSON_STRUCTURE = `{
+  "overallSentiment": {
+    "score": <number 0-100>,
+    "label": <"very_negative" | "negative" | "neutral" | "positive" | "very_positive">,
+    "summary": "<short summary of customer satisfaction>"
+  },
+  "themes": [
+    {
+      "key": "<stable English kebab-case identifier, e.g. long-wait-times>",
+      "name": "<theme name>",
+      "description": "<short description of the theme>",
+      "customerCount": <number of unique customers mentioning this>,
+      "mentionCount": <number of times the theme is mentioned>,
+      "severity": <"critical" | "high" | "medium" | "low">,
+      "sentiment": <"positive" | "negative" | "neutral">,
+      "exampleQuotes": ["<quote 1>", "<quote 2>"],
+      "suggestion": "<concrete actionable suggestion>",
+      "sources": [<the sources of the reviews mentioning this theme>]
+    }
+  ],
+  "topImprovementPoint": "<the most important area for improvement with a concrete suggestion>",
+  "customerSatisfactionSummary": "<overall assessment of customer satisfaction>"
+}`;
+
 /**
  * Abstract base class for AI providers (Grok, OpenAI)
  * Provides common functionality for prompt building and response parsing
  */
 export abstract class BaseAIProvider {
   protected abstract readonly providerName: AIProviderType;
+  protected abstract readonly displayName: string;
+  protected abstract readonly defaultBaseUrl: string;
   protected config: AIProviderConfig;
 
   constructor(config: AIProviderConfig) {
@@ -39,6 +158,101 @@ export abstract class BaseAIProvider {
    */
   abstract isConfigured(): boolean;
 
+  /**
+   * Build the chat completion request for an analysis - shared by the
+   * real-time and the batch path, so both get the same prompt and settings
+   */
+  protected abstract buildAnalysisRequest(input: AIAnalysisInput): ChatCompletionRequest;
+
+  /**
+   * Submit analyses as one batch job (OpenAI-compatible Files + Batches API).
+   * Results are ready within 24 hours at a lower price than real-time calls.
+   */
+  async submitAnalysisBatch(requests: AIBatchRequest[]): Promise<AIBatch> {
+    this.assertConfigured();
+
+    const lines = requests.map((request) =>
+      JSON.stringify({
+        custom_id: request.customId,
+        method: 'POST',
+        url: BATCH_ENDPOINT,
+        body: this.buildAnalysisRequest(request.input),
+      })
+    );
+
+    const form = new FormData();
+    form.append('purpose', 'batch');
+    form.append(
+      'file',
+      new Blob([lines.join('\n')], { type: 'application/jsonl' }),
+      'insights.jsonl'
+    );
+
+    const file = (await (
+      await this.batchApiRequest('/files', { method: 'POST', body: form })
+    ).json()) as { id: string };
+
+    const batch = (await (
+      await this.batchApiRequest('/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          input_file_id: file.id,
+          endpoint: BATCH_ENDPOINT,
+          completion_window: BATCH_COMPLETION_WINDOW,
+        }),
+      })
+    ).json()) as BatchObject;
+
+    this.log('Batch submitted', { batchId: batch.id, requestCount: requests.length });
+
+    return this.toAIBatch(batch);
+  }
+
+  /**
+   * Get the current state of a batch job
+   */
+  async getBatch(batchId: string): Promise<AIBatch> {
+    this.assertConfigured();
+
+    const response = await this.batchApiRequest(`/batches/${encodeURIComponent(batchId)}`);
+    return this.toAIBatch((await response.json()) as BatchObject);
+  }
+
+  /**
+   * Get the results of a finished batch job. Invalid answers get a real-time
+   * repair request. Requests that failed, could not be repaired or were answered
+   * in another language than `languages` (by custom ID) asks for, come back with
+   * an error instead of a result, as do malformed output lines that still name
+   * their request; requests that never ran are missing.
+   */
+  async getBatchResults(
+    batch: AIBatch,
+    languages: ReadonlyMap<string, AnalysisLanguage> = new Map()
+  ): Promise<AIBatchResult[]> {
+    this.assertConfigured();
+
+    const lines: string[] = [];
+    for (const fileId of [batch.outputFileId, batch.errorFileId]) {
+      if (!fileId) {
+        continue;
+      }
+      const response = await this.batchApiRequest(`/files/${encodeURIComponent(fileId)}/content`);
+      const content = await response.text();
+      lines.push(...content.split('\n').filter((line) => line.trim()));
+    }
+
+    // One bad line only fails its own request, never the whole batch
+    const results: AIBatchResult[] = [];
+    for (const line of lines) {
+      const result = await this.parseBatchLine(line, languages);
+      if (result) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
   /**
    * Get the provider name
    */
@@ -46,6 +260,13 @@ export abstract class BaseAIProvider {
     return this.providerName;
   }
 
+  /**
+   * API URL, without a trailing slash
+   */
+  protected get baseUrl(): string {
+    return this.config.baseUrl?.replace(/\/+$/, '') ?? this.defaultBaseUrl;
+  }
+
   /**
    * Build the analysis prompt for the AI model
    */
@@ -58,56 +279,48 @@ export abstract class BaseAIProvider {
         : new Date().toISOString().slice(0, 10);
     const toDate = new Date().toISOString().slice(0, 10);
 
+    const languageName = LANGUAGE_NAMES[input.analysisLanguage];
+
     const reviewsText = input.reviews
       .map((r, i) => {
         const text = r.feedbackText ? `"${r.feedbackText}"` : '(no text)';
-        return `${String(i + 1)}. Rating: ${String(r.rating)}/5 - ${text}`;
+        return `${String(i + 1)}. [${r.source}] Rating: ${String(r.rating)}/5 - ${text}`;
       })
       .join('\n');
+    const sources = [...new Set(input.reviews.map((r) => r.source))];
+
+    const knownThemesText =
+      input.knownThemes && input.knownThemes.length > 0
+        ? `\nKNOWN THEMES (from the previous analysis):\n${input.knownThemes
+            .map((theme) => `- ${theme.key}: ${theme.name}`)
+            .join('\n')}\n`
+        : '';
 
     return `You are an expert in customer feedback analysis for restaurants and service businesses.
 
-Analyse the following customer reviews and generate a structured report in English.
+Analyse the following customer reviews and generate a structured report in ${languageName}.
 
 BUSINESS: ${input.businessName}
 PERIOD: ${fromDate} to ${toDate}
 NUMBER OF REVIEWS: ${String(input.reviews.length)}
+SOURCES: ${sources.join(', ') || 'easyrate'} (each review is labelled with its source: easyrate = collected by the business itself, google = public Google review, trustpilot = public Trustpilot review)
 
 REVIEWS:
 ${reviewsText}
-
+${knownThemesText}
 ---
 
 Return ONLY a JSON object (no markdown, no code blocks) with the following structure:
-{
-  "overallSentiment": {
-    "score": <number 0-100>,
-    "label": <"very_negative" | "negative" | "neutral" | "positive" | "very_positive">,
-    "summary": "<short summary of customer satisfaction>"
-  },
-  "themes": [
-    {
-      "name": "<theme name>",
-      "description": "<short description of the theme>",
-      "customerCount": <number of unique customers mentioning this>,
-      "mentionCount": <number of times the theme is mentioned>,
-      "severity": <"critical" | "high" | "medium" | "low">,
-      "sentiment": <"positive" | "negative" | "neutral">,
-      "exampleQuotes": ["<quote 1>", "<quote 2>"],
-      "suggestion": "<concrete actionable suggestion>"
-    }
-  ],
-  "topImprovementPoint": "<the most important area for improvement with a concrete suggestion>",
-  "customerSatisfactionSummary": "<overall assessment of customer satisfaction>"
-}
+${ANALYSIS_JSON_STRUCTURE}
 
 RULES:
-1. All text must be in English
+1. All text must be in ${languageName}
 2. Include only 3-8 themes, and only if mentioned by at least 2 customers
 3. Severity should reflect: critical (repeated serious complaints), high (frequent issues), medium (moderate), low (minor/positive)
 4. Preserve customer anonymity in quotes (remove names, specific details)
 5. Suggestions must be concrete and actionable
-6. If there are too few reviews (<5), note this in customerSatisfactionSummary`;
+6. If there are too few reviews (<5), note this in customerSatisfactionSummary
+7. Reuse the key of a known theme when a theme covers the same topic, even if you name it differently`;
   }
 
   /**
@@ -119,6 +332,7 @@ RULES:
     const customerName = review.customerName ?? 'Customer';
     const feedbackText = review.feedbackText ?? '';
     const isNegative = review.rating <= 3;
+    const languageName = LANGUAGE_NAMES[input.language];
 
     if (isNegative && feedbackText) {
       return `You are a customer service representative for ${businessName}.
@@ -139,7 +353,7 @@ RULES:
 7. End with an invitation to return
 8. Never include contact information (phone numbers, email addresses, websites, or physical addresses)
 
-Reply ONLY with the response text, no explanations.`;
+Write the response in ${languageName}. Reply ONLY with the response text, no explanations.`;
     }
 
     if (isNegative) {
@@ -161,7 +375,7 @@ RULES:
 8. End with an invitation to return
 9. Never include contact information (phone numbers, email addresses, websites, or physical addresses)
 
-Reply ONLY with the response text, no explanations.`;
+Write the response in ${languageName}. Reply ONLY with the response text, no explanations.`;
     }
 
     // Different prompt for positive reviews with or without feedback text
@@ -183,7 +397,7 @@ RULES:
 6. Keep the tone warm and personal
 7. Never include contact information (phone numbers, email addresses, websites, or physical addresses)
 
-Reply ONLY with the response text, no explanations.`;
+Write the response in ${languageName}. Reply ONLY with the response text, no explanations.`;
     }
 
     // Positive review without feedback text (e.g., went directly to Google)
@@ -204,7 +418,7 @@ RULES:
 7. Avoid referring to specific feedback (there is none)
 8. Never include contact information (phone numbers, email addresses, websites, or physical addresses)
 
-Reply ONLY with the response text, no explanations.`;
+Write the response in ${languageName}. Reply ONLY with the response text, no explanations.`;
   }
 
   /**
@@ -213,92 +427,337 @@ Reply ONLY with the response text, no explanations.`;
   protected parseAnalysisResponse(
     responseText: string,
     modelUsed: string,
-    tokensUsed: number
+    tokensUsed: number,
+    language?: AnalysisLanguage
   ): AIAnalysisResult {
-    // Clean the response - remove markdown code blocks if present
-    let cleanedResponse = responseText.trim();
-    if (cleanedResponse.startsWith('```json')) {
-      cleanedResponse = cleanedResponse.slice(7);
-    } else if (cleanedResponse.startsWith('```')) {
-      cleanedResponse = cleanedResponse.slice(3);
+    const validation = validateAnalysisResponse(responseText);
+    if (!validation.success) {
+      throw new AIResponseError(
+        `${this.displayName} returned an invalid analysis: ${validation.error}`,
+        responseText
+      );
+    }
+
+    return this.toAnalysisResult(validation.data, responseText, modelUsed, tokensUsed, language);
+  }
+
+  /**
+   * Parse the AI response, asking the model once to repair it when it is not
+   * valid analysis JSON, e.g. cut off or missing fields
+   */
+  protected async parseAnalysisWithRepair(
+    responseText: string,
+    modelUsed: string,
+    tokensUsed: number,
+    language?: AnalysisLanguage
+  ): Promise<AIAnalysisResult> {
+    const validation = validateAnalysisResponse(responseText);
+    if (validation.success) {
+      return this.toAnalysisResult(validation.data, responseText, modelUsed, tokensUsed, language);
     }
-    if (cleanedResponse.endsWith('```')) {
-      cleanedResponse = cleanedResponse.slice(0, -3);
+
+    this.logError('Invalid analysis response, requesting a repair', {
+      model: modelUsed,
+      error: validation.error,
+    });
+
+    const repair = await this.createChatCompletion(
+      this.buildRepairRequest(modelUsed, responseText, validation.error)
+    );
+    const repaired = validateAnalysisResponse(repair.content);
+    if (!repaired.success) {
+      throw new AIResponseError(
+        `${this.displayName} returned an invalid analysis, also after a repair: ${repaired.error}`,
+        responseText
+      );
+    }
+
+    this.log('Analysis response repaired', { model: modelUsed });
+
+    return this.toAnalysisResult(
+      repaired.data,
+      repair.content,
+      modelUsed,
+      tokensUsed + repair.tokensUsed,
+      language
+    );
+  }
+
+  /**
+   * Send a chat completion request (OpenAI-compatible API)
+   */
+  protected async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletion> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logError('API request failed', { status: response.status, error: errorText });
+      throw new Error(`${this.displayName} API error: ${String(response.status)} - ${errorText}`);
+    }
+
+    const data = (await response.json()) as {
+      model?: string;
+      choices: { message: { content: string } }[];
+      usage?: { total_tokens: number };
+    };
+
+    const [firstChoice] = data.choices;
+    if (!firstChoice) {
+      throw new Error(`${this.displayName} API returned no choices`);
     }
-    cleanedResponse = cleanedResponse.trim();
-
-    const parsed = JSON.parse(cleanedResponse) as {
-      overallSentiment?: { score?: number; label?: string; summary?: string };
-      themes?: {
-        name?: string;
-        description?: string;
-        customerCount?: number;
-        mentionCount?: number;
-        severity?: string;
-        sentiment?: string;
-        exampleQuotes?: string[];
-        suggestion?: string;
-      }[];
-      topImprovementPoint?: string;
-      customerSatisfactionSummary?: string;
+
+    return {
+      content: firstChoice.message.content,
+      model: data.model ?? request.model,
+      tokensUsed: data.usage?.total_tokens ?? 0,
     };
+  }
+
+  /**
+   * Reject output the model wrote in another language than requested
+   */
+  protected assertLanguage(text: string, language: AnalysisLanguage, rawResponse = text): void {
+    const detected = detectLanguage(text);
+    if (detected && detected !== language) {
+      throw new AIResponseError(
+        `${this.displayName} answered in ${LANGUAGE_NAMES[detected]} instead of ${LANGUAGE_NAMES[language]}`,
+        rawResponse
+      );
+    }
+  }
 
-    // Validate and normalize the response
+  /**
+   * Normalise a validated analysis into the result, checking its language
+   */
+  private toAnalysisResult(
+    data: AnalysisResponse,
+    responseText: string,
+    modelUsed: string,
+    tokensUsed: number,
+    language?: AnalysisLanguage
+  ): AIAnalysisResult {
     const result: AIAnalysisResult = {
-      overallSentiment: {
-        score: Math.min(100, Math.max(0, parsed.overallSentiment?.score ?? 50)),
-        label: this.validateSentimentLabel(parsed.overallSentiment?.label) ?? 'neutral',
-        summary: parsed.overallSentiment?.summary ?? 'No summary available',
-      },
-      themes: (parsed.themes ?? []).map((theme) => ({
-        name: theme.name ?? 'Unknown theme',
-        description: theme.description ?? '',
-        customerCount: Math.max(0, theme.customerCount ?? 0),
-        mentionCount: Math.max(0, theme.mentionCount ?? 0),
-        severity: this.validateSeverity(theme.severity) ?? 'medium',
-        sentiment: this.validateThemeSentiment(theme.sentiment) ?? 'neutral',
-        exampleQuotes: Array.isArray(theme.exampleQuotes) ? theme.exampleQuotes.map(String) : [],
-        suggestion: theme.suggestion ?? '',
+      overallSentiment: data.overallSentiment,
+      themes: data.themes.map((theme) => ({
+        key:
+          canonicalizeThemeKey(theme.key ?? '') ||
+          canonicalizeThemeKey(theme.name) ||
+          'unknown-theme',
+        name: theme.name,
+        description: theme.description,
+        customerCount: theme.customerCount,
+        mentionCount: theme.mentionCount,
+        severity: theme.severity,
+        sentiment: theme.sentiment,
+        exampleQuotes: theme.exampleQuotes,
+        suggestion: theme.suggestion,
+        sources: this.validateSources(theme.sources),
       })),
-      topImprovementPoint: parsed.topImprovementPoint,
-      customerSatisfactionSummary: parsed.customerSatisfactionSummary,
+      topImprovementPoint: data.topImprovementPoint,
+      customerSatisfactionSummary: data.customerSatisfactionSummary,
       tokensUsed,
       modelUsed,
     };
 
+    if (language) {
+      // Example quotes may be in the customers' own words, so they are not checked
+      this.assertLanguage(
+        [
+          result.overallSentiment.summary,
+          result.topImprovementPoint,
+          result.customerSatisfactionSummary,
+          ...result.themes.flatMap((theme) => [theme.description, theme.suggestion]),
+        ].join('\n'),
+        language,
+        responseText
+      );
+    }
+
     return result;
   }
 
   /**
-   * Validate sentiment label
+   * Ask the model to turn an invalid analysis response into valid JSON
    */
-  private validateSentimentLabel(
-    label: unknown
-  ): 'very_negative' | 'negative' | 'neutral' | 'positive' | 'very_positive' | null {
-    const validLabels = ['very_negative', 'negative', 'neutral', 'positive', 'very_positive'];
-    return validLabels.includes(String(label))
-      ? (label as 'very_negative' | 'negative' | 'neutral' | 'positive' | 'very_positive')
-      : null;
+  private buildRepairRequest(
+    model: string,
+    responseText: string,
+    error: string
+  ): ChatCompletionRequest {
+    return {
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You repair JSON. Reply ONLY with valid JSON, no markdown or explanations.',
+        },
+        {
+          role: 'user',
+          content: `The following customer feedback analysis is not valid: ${error}
+
+Fix it so it is one complete JSON object with the structure below. Keep the content and its language. If the analysis was cut off, end it after the last complete theme.
+
+STRUCTURE:
+${ANALYSIS_JSON_STRUCTURE}
+
+ANALYSIS:
+${responseText}`,
+        },
+      ],
+      temperature: 0,
+      max_tokens: 4096,
+      response_format: { type: 'json_object' },
+    };
+  }
+
+  private toAIBatch(batch: BatchObject): AIBatch {
+    return {
+      id: batch.id,
+      status: this.mapBatchStatus(batch.status),
+      outputFileId: batch.output_file_id ?? undefined,
+      errorFileId: batch.error_file_id ?? undefined,
+      submittedAt: toDate(batch.created_at),
+      endedAt: toDate(
+        batch.completed_at ?? batch.failed_at ?? batch.expired_at ?? batch.cancelled_at
+      ),
+    };
+  }
+
+  /**
+   * Result of one batch output line, or null for a line that cannot be matched
+   * to a request (its insight then counts as never run)
+   */
+  private async parseBatchLine(
+    text: string,
+    languages: ReadonlyMap<string, AnalysisLanguage>
+  ): Promise<AIBatchResult | null> {
+    let line: BatchOutputLine;
+    try {
+      line = JSON.parse(text) as BatchOutputLine;
+    } catch (error) {
+      const customId = /"custom_id"\s*:\s*"([^"\\]+)"/.exec(text)?.[1];
+      this.logError('Malformed batch output line', {
+        customId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return customId
+        ? { customId, error: `${this.displayName} returned a malformed batch result` }
+        : null;
+    }
+
+    if (typeof line.custom_id !== 'string') {
+      this.logError('Batch output line without a custom ID', {});
+      return null;
+    }
+
+    try {
+      return await this.toBatchResult(line, languages.get(line.custom_id));
+    } catch (error) {
+      return {
+        customId: line.custom_id,
+        error: error instanceof Error ? error.message : 'Invalid batch result',
+      };
+    }
   }
 
   /**
-   * Validate severity
+   * Map the API's batch status - validating, finalizing and cancelling are
+   * still in progress
    */
-  private validateSeverity(severity: unknown): 'critical' | 'high' | 'medium' | 'low' | null {
-    const validSeverities = ['critical', 'high', 'medium', 'low'];
-    return validSeverities.includes(String(severity))
-      ? (severity as 'critical' | 'high' | 'medium' | 'low')
-      : null;
+  private mapBatchStatus(status: string): AIBatchStatus {
+    switch (status) {
+      case 'completed':
+      case 'failed':
+      case 'expired':
+      case 'cancelled':
+        return status;
+      default:
+        return 'in_progress';
+    }
+  }
+
+  private async toBatchResult(
+    line: BatchOutputLine,
+    language?: AnalysisLanguage
+  ): Promise<AIBatchResult> {
+    const response = line.response;
+    const body = response?.body;
+
+    if (response?.status_code !== 200 || !body) {
+      return {
+        customId: line.custom_id,
+        error:
+          line.error?.message ??
+          body?.error?.message ??
+          `${this.displayName} API error: ${String(response?.status_code ?? 'no response')}`,
+      };
+    }
+
+    const [firstChoice] = body.choices ?? [];
+    if (!firstChoice) {
+      return { customId: line.custom_id, error: `${this.displayName} API returned no choices` };
+    }
+
+    try {
+      return {
+        customId: line.custom_id,
+        result: await this.parseAnalysisWithRepair(
+          firstChoice.message.content,
+          body.model ?? this.config.model ?? '',
+          body.usage?.total_tokens ?? 0,
+          language
+        ),
+      };
+    } catch (error) {
+      return {
+        customId: line.custom_id,
+        error: error instanceof Error ? error.message : 'Invalid analysis response',
+        rawResponse: firstChoice.message.content,
+      };
+    }
+  }
+
+  private async batchApiRequest(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.config.apiKey}`,
+        ...(init.headers as Record<string, string> | undefined),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logError('Batch API request failed', {
+        path,
+        status: response.status,
+        error: errorText,
+      });
+      throw new Error(`${this.displayName} API error: ${String(response.status)} - ${errorText}`);
+    }
+
+    return response;
+  }
+
+  private assertConfigured(): void {
+    if (!this.isConfigured()) {
+      throw new Error(`${this.displayName} API is not configured`);
+    }
   }
 
   /**
-   * Validate theme sentiment
+   * Validate theme sources, dropping unknown ones
    */
-  private validateThemeSentiment(sentiment: unknown): 'positive' | 'negative' | 'neutral' | null {
-    const validSentiments = ['positive', 'negative', 'neutral'];
-    return validSentiments.includes(String(sentiment))
-      ? (sentiment as 'positive' | 'negative' | 'neutral')
-      : null;
+  private validateSources(sources: string[]): InsightReviewSource[] {
+    const validSources: InsightReviewSource[] = ['easyrate', 'google', 'trustpilot'];
+    return validSources.filter((source) => sources.includes(source));
   }
 
   /**
@@ -5,7 +5,11 @@ import type {
   AIResponseGenerationInput,
   AIResponseGenerationResult,
 } from '@easyrate/shared';
-import { BaseAIProvider, type AIProviderConfig } from './BaseAIProvider.js';
+import {
+  BaseAIProvider,
+  type AIProviderConfig,
+  type ChatCompletionRequest,
+} from './BaseAIProvider.js';
 
 export interface GrokConfig extends AIProviderConfig {
   apiKey: string;
@@ -39,7 +43,8 @@ interface GrokChatResponse {
  */
 export class GrokProvider extends BaseAIProvider {
   protected readonly providerName: AIProviderType = 'grok';
-  private readonly baseUrl = 'https://api.x.ai/v1';
+  protected readonly displayName = 'Grok';
+  protected readonly defaultBaseUrl = 'https://api.x.ai/v1';
   private readonly defaultModel = 'grok-beta';
 
   isConfigured(): boolean {
@@ -51,8 +56,8 @@ export class GrokProvider extends BaseAIProvider {
       throw new Error('Grok API is not configured');
     }
 
-    const model = this.config.model ?? this.defaultModel;
-    const prompt = this.buildAnalysisPrompt(input);
+    const request = this.buildAnalysisRequest(input);
+    const model = request.model;
 
     this.log('Starting analysis', {
       reviewCount: input.reviews.length,
@@ -60,51 +65,36 @@ export class GrokProvider extends BaseAIProvider {
       model,
     });
 
-    const messages: GrokChatMessage[] = [
-      {
-        role: 'system',
-        content:
-          'You are an expert in customer feedback analysis. Reply ONLY with valid JSON, no markdown or explanations.',
-      },
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ];
-
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature: 0.3,
-        max_tokens: 4096,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      this.logError('API request failed', { status: response.status, error: errorText });
-      throw new Error(`Grok API error: ${String(response.status)} - ${errorText}`);
-    }
+    const completion = await this.createChatCompletion(request);
 
-    const data = (await response.json()) as GrokChatResponse;
+    this.log('Analysis completed', { tokensUsed: completion.tokensUsed, model });
 
-    const [firstChoice] = data.choices;
-    if (!firstChoice) {
-      throw new Error('Grok API returned no choices');
-    }
-
-    const responseText = firstChoice.message.content;
-    const tokensUsed = data.usage.total_tokens;
-
-    this.log('Analysis completed', { tokensUsed, model });
+    return this.parseAnalysisWithRepair(
+      completion.content,
+      model,
+      completion.tokensUsed,
+      input.analysisLanguage
+    );
+  }
 
-    return this.parseAnalysisResponse(responseText, model, tokensUsed);
+  protected buildAnalysisRequest(input: AIAnalysisInput): ChatCompletionRequest {
+    return {
+      model: this.config.model ?? this.defaultModel,
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You are an expert in customer feedback analysis. Reply ONLY with valid JSON, no markdown or explanations.',
+        },
+        {
+          role: 'user',
+          content: this.buildAnalysisPrompt(input),
+        },
+      ],
+      temperature: 0.3,
+      max_tokens: 4096,
+      response_format: { type: 'json_object' },
+    };
   }
 
   async generateResponse(input: AIResponseGenerationInput): Promise<AIResponseGenerationResult> {
@@ -163,6 +153,8 @@ export class GrokProvider extends BaseAIProvider {
     const responseText = firstChoice.message.content.trim();
     const tokensUsed = data.usage.total_tokens;
 
+    this.assertLanguage(responseText, input.language);
+
     this.log('Response generated', { tokensUsed, model });
 
     return {
@@ -185,5 +177,6 @@ export function createGrokProvider(): GrokProvider | null {
   return new GrokProvider({
     apiKey,
     model: process.env.GROK_MODEL,
+    baseUrl: process.env.GROK_BASE_URL,
   });
 }
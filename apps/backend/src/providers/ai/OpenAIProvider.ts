@@ -5,7 +5,11 @@ import type {
   AIResponseGenerationInput,
   AIResponseGenerationResult,
 } from '@easyrate/shared';
-import { BaseAIProvider, type AIProviderConfig } from './BaseAIProvider.js';
+import {
+  BaseAIProvider,
+  type AIProviderConfig,
+  type ChatCompletionRequest,
+} from './BaseAIProvider.js';
 
 export interface OpenAIConfig extends AIProviderConfig {
   apiKey: string;
@@ -39,7 +43,8 @@ interface OpenAIChatResponse {
  */
 export class OpenAIProvider extends BaseAIProvider {
   protected readonly providerName: AIProviderType = 'openai';
-  private readonly baseUrl = 'https://api.openai.com/v1';
+  protected readonly displayName = 'OpenAI';
+  protected readonly defaultBaseUrl = 'https://api.openai.com/v1';
   private readonly defaultModel = 'gpt-4-turbo';
 
   isConfigured(): boolean {
@@ -51,8 +56,8 @@ export class OpenAIProvider extends BaseAIProvider {
       throw new Error('OpenAI API is not configured');
     }
 
-    const model = this.config.model ?? this.defaultModel;
-    const prompt = this.buildAnalysisPrompt(input);
+    const request = this.buildAnalysisRequest(input);
+    const model = request.model;
 
     this.log('Starting analysis', {
       reviewCount: input.reviews.length,
@@ -60,52 +65,36 @@ export class OpenAIProvider extends BaseAIProvider {
       model,
     });
 
-    const messages: OpenAIChatMessage[] = [
-      {
-        role: 'system',
-        content:
-          'You are an expert in customer feedback analysis. Reply ONLY with valid JSON, no markdown or explanations.',
-      },
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ];
-
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature: 0.3,
-        max_tokens: 4096,
-        response_format: { type: 'json_object' },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      this.logError('API request failed', { status: response.status, error: errorText });
-      throw new Error(`OpenAI API error: ${String(response.status)} - ${errorText}`);
-    }
+    const completion = await this.createChatCompletion(request);
 
-    const data = (await response.json()) as OpenAIChatResponse;
+    this.log('Analysis completed', { tokensUsed: completion.tokensUsed, model });
 
-    const [firstChoice] = data.choices;
-    if (!firstChoice) {
-      throw new Error('OpenAI API returned no choices');
-    }
-
-    const responseText = firstChoice.message.content;
-    const tokensUsed = data.usage.total_tokens;
-
-    this.log('Analysis completed', { tokensUsed, model });
+    return this.parseAnalysisWithRepair(
+      completion.content,
+      model,
+      completion.tokensUsed,
+      input.analysisLanguage
+    );
+  }
 
-    return this.parseAnalysisResponse(responseText, model, tokensUsed);
+  protected buildAnalysisRequest(input: AIAnalysisInput): ChatCompletionRequest {
+    return {
+      model: this.config.model ?? this.defaultModel,
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You are an expert in customer feedback analysis. Reply ONLY with valid JSON, no markdown or explanations.',
+        },
+        {
+          role: 'user',
+          content: this.buildAnalysisPrompt(input),
+        },
+      ],
+      temperature: 0.3,
+      max_tokens: 4096,
+      response_format: { type: 'json_object' },
+    };
   }
 
   async generateResponse(input: AIResponseGenerationInput): Promise<AIResponseGenerationResult> {
@@ -164,6 +153,8 @@ export class OpenAIProvider extends BaseAIProvider {
     const responseText = firstChoice.message.content.trim();
     const tokensUsed = data.usage.total_tokens;
 
+    this.assertLanguage(responseText, input.language);
+
     this.log('Response generated', { tokensUsed, model });
 
     return {
@@ -186,5 +177,6 @@ export function createOpenAIProvider(): OpenAIProvider | null {
   return new OpenAIProvider({
     apiKey,
     model: process.env.OPENAI_MODEL,
+    baseUrl: process.env.OPENAI_BASE_URL,
   });
 }
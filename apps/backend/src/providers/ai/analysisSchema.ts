@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+/**
+ * The analysis JSON the models are asked for (see BaseAIProvider.buildAnalysisPrompt).
+ * Optional texts and lists may be left out; everything that is there must be valid.
+ */
+export const analysisResponseSchema = z.object({
+  overallSentiment: z.object({
+    score: z.number().min(0).max(100),
+    label: z.enum(['very_negative', 'negative', 'neutral', 'positive', 'very_positive']),
+    summary: z.string().min(1),
+  }),
+  themes: z.array(
+    z.object({
+      key: z.string().optional(),
+      name: z.string().min(1),
+      description: z.string().default(''),
+      customerCount: z.number().int().min(0),
+      mentionCount: z.number().int().min(0),
+      severity: z.enum(['critical', 'high', 'medium', 'low']),
+      sentiment: z.enum(['positive', 'negative', 'neutral']),
+      exampleQuotes: z.array(z.string()).default([]),
+      suggestion: z.string().default(''),
+      // Unknown sources are dropped rather than failing the analysis
+      sources: z.array(z.string()).default([]),
+    })
+  ),
+  topImprovementPoint: z.string().optional(),
+  customerSatisfactionSummary: z.string().optional(),
+});
+
+export type AnalysisResponse = z.infer<typeof analysisResponseSchema>;
+
+export type AnalysisValidation =
+  | { success: true; data: AnalysisResponse }
+  | { success: false; error: string };
+
+/**
+ * Parse and validate a model's analysis response. Tolerates markdown code
+ * fences and text around the JSON object; the error lists what is wrong.
+ */
+export function validateAnalysisResponse(responseText: string): AnalysisValidation {
+  const text = responseText
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(start >= 0 && end > start ? text.slice(start, end + 1) : text);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const parsed = analysisResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; '),
+    };
+  }
+
+  return { success: true, data: parsed.data };
+}
@@ -1,3 +1,11 @@
-export { BaseAIProvider, type AIProviderConfig } from './BaseAIProvider.js';
+export {
+  BaseAIProvider,
+  AIResponseError,
+  type AIProviderConfig,
+  type AIBatch,
+  type AIBatchRequest,
+  type AIBatchResult,
+  type AIBatchStatus,
+} from './BaseAIProvider.js';
 export { GrokProvider, type GrokConfig, createGrokProvider } from './GrokProvider.js';
 export { OpenAIProvider, type OpenAIConfig, createOpenAIProvider } from './OpenAIProvider.js';
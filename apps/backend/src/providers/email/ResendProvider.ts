@@ -1,8 +1,8 @@
-import crypto from 'crypto';
-import { Resend } from 'resend';
+import { Resend, type ErrorResponse } from 'resend';
 import type { Message, SendResult, MessageStatusResult, EmailProvider } from '@easyrate/shared';
 import { PROVIDER_NAMES } from '@easyrate/shared';
 import { BaseProvider } from '../BaseProvider.js';
+import { parseSvixSecrets, verifySvixSignature } from '../../utils/svix.js';
 
 export interface ResendConfig {
   apiKey: string;
@@ -11,6 +11,13 @@ export interface ResendConfig {
   webhookSecret?: string | undefined;
 }
 
+function isSenderRejection(error: ErrorResponse): boolean {
+  return (
+    error.name === 'invalid_from_address' ||
+    (error.name === 'validation_error' && /domain is not verified/i.test(error.message))
+  );
+}
+
 /**
  * Resend Email Provider
  * API Docs: https://resend.com/docs
@@ -52,9 +59,20 @@ export class ResendProvider extends BaseProvider implements EmailProvider {
         to: [message.to],
         subject: message.subject ?? 'Message from EasyRate',
         ...(message.html ? { html: message.html } : { text: message.content }),
+        ...(message.headers && { headers: message.headers }),
       });
 
       if (error) {
+        // The business' own address is not on a domain verified with Resend -
+        // send from ours instead of failing the message
+        if (message.from && isSenderRejection(error)) {
+          this.logError(
+            `Sender ${message.from} rejected, sending from ${this.fromEmail}:`,
+            error.message
+          );
+          const { from: _rejected, ...fromDefault } = message;
+          return await this.send(fromDefault);
+        }
         return {
           success: false,
           error: error.message,
@@ -67,6 +85,7 @@ export class ResendProvider extends BaseProvider implements EmailProvider {
       return {
         success: true,
         messageId,
+        provider: this.providerName,
       };
     } catch (error) {
       return this.handleApiError(error);
@@ -92,43 +111,32 @@ export class ResendProvider extends BaseProvider implements EmailProvider {
   /**
    * Verify Resend webhook signature (svix)
    * Resend uses svix for webhook delivery. The signature is an HMAC-SHA256
-   * of `${msgId}.${timestamp}.${body}` using the webhook secret.
+   * of `${msgId}.${timestamp}.${body}` using the webhook secret, so the
+   * svix-id and svix-timestamp headers are required as well.
    */
-  verifyWebhookSignature(payload: string | Buffer, signature: string): boolean {
+  verifyWebhookSignature(
+    payload: string | Buffer,
+    signature: string,
+    headers?: { id: string; timestamp: string }
+  ): boolean {
     if (!this.webhookSecret) {
       this.logError('Webhook secret not configured', {});
       return false;
     }
 
-    try {
-      const payloadStr = typeof payload === 'string' ? payload : payload.toString('utf-8');
-
-      // svix signatures are comma-separated list of "v1,<base64>" values
-      const signatures = signature.split(' ');
-      const secret = this.webhookSecret.startsWith('whsec_')
-        ? this.webhookSecret.slice(6)
-        : this.webhookSecret;
-      const secretBytes = Buffer.from(secret, 'base64');
-
-      for (const sig of signatures) {
-        const [version, sigValue] = sig.split(',');
-        if (version !== 'v1' || !sigValue) continue;
-
-        const expected = crypto
-          .createHmac('sha256', secretBytes)
-          .update(payloadStr)
-          .digest('base64');
-
-        if (sigValue === expected) {
-          return true;
-        }
-      }
-
-      return false;
-    } catch (error) {
-      this.logError('Webhook signature verification failed', error);
+    if (!headers) {
+      this.logError('Webhook signature verification requires svix-id and svix-timestamp', {});
       return false;
     }
+
+    const payloadStr = typeof payload === 'string' ? payload : payload.toString('utf-8');
+    const result = verifySvixSignature(
+      payloadStr,
+      { ...headers, signature },
+      parseSvixSecrets(this.webhookSecret)
+    );
+
+    return result.valid;
   }
 
   private isValidEmail(email: string): boolean {
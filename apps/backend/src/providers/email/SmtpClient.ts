@@ -0,0 +1,338 @@
+import net from 'net';
+import tls from 'tls';
+
+/**
+ * - tls: implicit TLS from the first byte (usually port 465)
+ * - starttls: plain connection upgraded with STARTTLS, required (usually port 587)
+ * - none: no encryption, only for local relays and test sinks
+ */
+export type SmtpSecurity = 'tls' | 'starttls' | 'none';
+
+export interface SmtpClientConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username?: string | undefined;
+  password?: string | undefined;
+  clientName?: string | undefined; // EHLO name
+  rejectUnauthorized?: boolean | undefined; // Set false only for relays with self-signed certificates
+  timeoutMs?: number | undefined;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+  envelopeId?: string | undefined; // DSN ENVID, returned in bounce reports
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * SMTP error with the server's reply code. 5xx replies are permanent: the
+ * same message will be rejected again.
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+    public readonly step?: string // Command the server rejected, e.g. 'MAIL'
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get permanent(): boolean {
+    return this.code >= 500 && this.code < 600;
+  }
+}
+
+/**
+ * Minimal SMTP client (RFC 5321) for submitting one message per connection
+ *
+ * Supports implicit TLS and STARTTLS, AUTH PLAIN/LOGIN and the DSN extension
+ * (RFC 3461), so bounce reports carry our envelope id and the original headers.
+ */
+export class SmtpClient {
+  private readonly config: SmtpClientConfig;
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private lines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiter: {
+    resolve: (response: SmtpResponse) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+  private extensions = new Map<string, string>();
+
+  constructor(config: SmtpClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Deliver a raw RFC 5322 message. Returns the server's final reply, which
+   * usually holds its queue id.
+   */
+  async send(envelope: SmtpEnvelope, rawMessage: string): Promise<string> {
+    await this.connect();
+
+    try {
+      this.expect(await this.read(), [220], 'Greeting');
+      await this.hello();
+
+      if (this.config.security === 'starttls') {
+        if (!this.extensions.has('STARTTLS')) {
+          throw new SmtpError('Server does not support STARTTLS', 0);
+        }
+        await this.command('STARTTLS', [220]);
+        await this.upgradeToTls();
+        await this.hello();
+      }
+
+      if (this.config.username) {
+        await this.authenticate(this.config.username, this.config.password ?? '');
+      }
+
+      const dsn = this.extensions.has('DSN');
+      let mailFrom = `MAIL FROM:<${envelope.from}>`;
+      if (dsn) {
+        mailFrom += ' RET=HDRS';
+        if (envelope.envelopeId) {
+          mailFrom += ` ENVID=${encodeXtext(envelope.envelopeId)}`;
+        }
+      }
+      await this.command(mailFrom, [250]);
+
+      for (const recipient of envelope.to) {
+        await this.command(
+          `RCPT TO:<${recipient}>${dsn ? ' NOTIFY=FAILURE,DELAY' : ''}`,
+          [250, 251]
+        );
+      }
+
+      await this.command('DATA', [354]);
+      this.write(`${dotStuff(rawMessage)}\r\n.\r\n`);
+      const accepted = this.expect(await this.read(), [250], 'DATA');
+
+      await this.command('QUIT', [221]).catch(() => undefined);
+
+      return accepted.lines.join(' ');
+    } finally {
+      this.close();
+    }
+  }
+
+  private connect(): Promise<void> {
+    const { host, port, security } = this.config;
+
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => {
+        reject(error);
+      };
+
+      const socket =
+        security === 'tls'
+          ? tls.connect({
+              host,
+              port,
+              servername: host,
+              rejectUnauthorized: this.config.rejectUnauthorized ?? true,
+            })
+          : net.connect({ host, port });
+
+      socket.once(security === 'tls' ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError);
+        this.attach(socket);
+        resolve();
+      });
+      socket.once('error', onError);
+      socket.setTimeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+        socket.destroy(new Error(`SMTP connection to ${host}:${String(port)} timed out`));
+      });
+    });
+  }
+
+  private upgradeToTls(): Promise<void> {
+    const plain = this.socket;
+    if (!plain) {
+      return Promise.reject(new Error('SMTP connection is closed'));
+    }
+
+    // The TLS socket reads from the plain one from now on
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({
+        socket: plain,
+        servername: this.config.host,
+        rejectUnauthorized: this.config.rejectUnauthorized ?? true,
+      });
+
+      const onError = (error: Error) => {
+        reject(error);
+      };
+
+      secure.once('secureConnect', () => {
+        secure.off('error', onError);
+        this.attach(secure);
+        resolve();
+      });
+      secure.once('error', onError);
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    this.buffer = '';
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+      socket.destroy(new Error('SMTP server did not respond in time'));
+    });
+    socket.on('data', (chunk: string) => {
+      this.onData(chunk);
+    });
+    socket.on('error', (error: Error) => {
+      this.fail(error);
+    });
+    socket.on('close', () => {
+      this.fail(new Error('SMTP connection closed unexpectedly'));
+    });
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    let index;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const response = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+
+        if (this.waiter) {
+          this.waiter.resolve(response);
+          this.waiter = null;
+        } else {
+          this.responses.push(response);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiter) {
+      this.waiter.reject(error);
+      this.waiter = null;
+    }
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const response = this.responses.shift();
+    if (response) {
+      return Promise.resolve(response);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private write(data: string): void {
+    if (!this.socket) {
+      throw new Error('SMTP connection is closed');
+    }
+    this.socket.write(data);
+  }
+
+  /**
+   * Send a command and check the reply code. `step` names the command in
+   * errors, so credentials are never echoed.
+   */
+  private async command(
+    line: string,
+    expected: number[],
+    step = line.split(/[\s:]/)[0] ?? line
+  ): Promise<SmtpResponse> {
+    this.write(`${line}\r\n`);
+    return this.expect(await this.read(), expected, step);
+  }
+
+  private expect(response: SmtpResponse, expected: number[], step: string): SmtpResponse {
+    if (!expected.includes(response.code)) {
+      throw new SmtpError(
+        `${step} failed: ${String(response.code)} ${response.lines.join(' ')}`,
+        response.code,
+        step
+      );
+    }
+    return response;
+  }
+
+  private async hello(): Promise<void> {
+    const response = await this.command(`EHLO ${this.config.clientName ?? 'localhost'}`, [250]);
+
+    // The first line is the greeting, the rest are extensions like "AUTH PLAIN LOGIN"
+    this.extensions.clear();
+    for (const line of response.lines.slice(1)) {
+      const [keyword = '', ...params] = line.split(' ');
+      this.extensions.set(keyword.toUpperCase(), params.join(' ').toUpperCase());
+    }
+  }
+
+  private async authenticate(username: string, password: string): Promise<void> {
+    const mechanisms = (this.extensions.get('AUTH') ?? '').split(' ');
+
+    if (mechanisms.includes('PLAIN')) {
+      const token = Buffer.from(`\0${username}\0${password}`).toString('base64');
+      await this.command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+    } else if (mechanisms.includes('LOGIN')) {
+      await this.command('AUTH LOGIN', [334]);
+      await this.command(Buffer.from(username).toString('base64'), [334], 'AUTH');
+      await this.command(Buffer.from(password).toString('base64'), [235], 'AUTH');
+    } else {
+      throw new SmtpError('Server supports neither AUTH PLAIN nor AUTH LOGIN', 0);
+    }
+  }
+
+  private close(): void {
+    this.socket?.removeAllListeners('close');
+    this.socket?.destroy();
+    this.socket = null;
+  }
+}
+
+/**
+ * Escape lines starting with a dot and normalize line endings to CRLF
+ */
+function dotStuff(message: string): string {
+  return message
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+}
+
+/**
+ * Encode a DSN parameter value as xtext (RFC 3461)
+ */
+function encodeXtext(value: string): string {
+  return value.replace(
+    /[^!-~]|[+=]/g,
+    (char) => `+${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`
+  );
+}
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import type { Message, SendResult, MessageStatusResult, EmailProvider } from '@easyrate/shared';
+import { PROVIDER_NAMES } from '@easyrate/shared';
+import { BaseProvider } from '../BaseProvider.js';
+import { SmtpClient, SmtpError, type SmtpSecurity } from './SmtpClient.js';
+import { safeEqual } from '../../utils/safeEqual.js';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username?: string | undefined;
+  password?: string | undefined;
+  fromEmail: string;
+  fromName?: string | undefined;
+  rejectUnauthorized?: boolean | undefined;
+  bounceSecret?: string | undefined;
+}
+
+/**
+ * SMTP Email Provider, for sending through a customer's own relay
+ *
+ * Each message gets a Message-ID we generate, stored as the notification's
+ * externalMessageId. Bounces come back as DSN reports to the bounce webhook,
+ * which finds the notification by that Message-ID.
+ */
+export class SmtpProvider extends BaseProvider implements EmailProvider {
+  protected readonly providerName = PROVIDER_NAMES.SMTP;
+  public readonly fromEmail: string;
+  public readonly fromName: string | undefined;
+  private readonly smtpConfig: SmtpConfig;
+
+  constructor(config: SmtpConfig) {
+    super({ apiKey: config.password ?? '' });
+    this.smtpConfig = config;
+    this.fromEmail = config.fromEmail;
+    this.fromName = config.fromName;
+  }
+
+  async send(message: Message): Promise<SendResult> {
+    if (!this.isValidEmail(message.to)) {
+      return {
+        success: false,
+        error: `Invalid email address: ${message.to}`,
+        provider: this.providerName,
+        permanent: true,
+      };
+    }
+
+    this.log(`Sending email`, { to: message.to, subject: message.subject });
+
+    try {
+      await this.waitForRateLimit();
+
+      const fromAddress = message.from ?? this.fromEmail;
+      const messageId = this.createMessageId(fromAddress);
+      const client = new SmtpClient({
+        host: this.smtpConfig.host,
+        port: this.smtpConfig.port,
+        security: this.smtpConfig.security,
+        username: this.smtpConfig.username,
+        password: this.smtpConfig.password,
+        clientName: fromAddress.split('@')[1],
+        rejectUnauthorized: this.smtpConfig.rejectUnauthorized,
+      });
+
+      await client.send(
+        { from: fromAddress, to: [message.to], envelopeId: messageId },
+        this.buildMessage(message, fromAddress, messageId)
+      );
+
+      this.log(`Email sent successfully`, { messageId });
+
+      return {
+        success: true,
+        messageId,
+        provider: this.providerName,
+      };
+    } catch (error) {
+      // The relay does not accept the business' own address - send from ours
+      if (error instanceof SmtpError && error.permanent && error.step === 'MAIL' && message.from) {
+        this.logError(
+          `Sender ${message.from} rejected, sending from ${this.fromEmail}:`,
+          error.message
+        );
+        const { from: _rejected, ...fromDefault } = message;
+        return this.send(fromDefault);
+      }
+      if (error instanceof SmtpError && error.permanent) {
+        this.logError('Message rejected:', error.message);
+        return {
+          success: false,
+          error: error.message,
+          provider: this.providerName,
+          permanent: true,
+        };
+      }
+      return this.handleApiError(error);
+    }
+  }
+
+  /**
+   * SMTP has no status lookup - delivery problems arrive as DSN bounces
+   */
+  getStatus(messageId: string): Promise<MessageStatusResult> {
+    return Promise.resolve({ messageId, status: 'sent' });
+  }
+
+  /**
+   * Verify the shared secret sent with forwarded bounce messages
+   */
+  verifyWebhookSignature(_payload: string | Buffer, signature: string): boolean {
+    if (!this.smtpConfig.bounceSecret) {
+      this.logError('Bounce secret not configured', {});
+      return false;
+    }
+
+    return safeEqual(signature, this.smtpConfig.bounceSecret);
+  }
+
+  /**
+   * Build the RFC 5322 message: plain text, or multipart/alternative with HTML
+   */
+  buildMessage(message: Message, fromAddress: string, messageId: string): string {
+    const senderName = message.fromName ?? this.fromName;
+    const subject = message.subject ?? 'Message from EasyRate';
+    const headers: [string, string][] = [
+      [
+        'From',
+        senderName
+          ? `${encodeDisplayName(sanitizeHeader(senderName))} <${fromAddress}>`
+          : fromAddress,
+      ],
+      ['To', sanitizeHeader(message.to)],
+      ['Subject', encodeHeaderValue(sanitizeHeader(subject))],
+      ['Date', new Date().toUTCString()],
+      ['Message-ID', `<${messageId}>`],
+      ['MIME-Version', '1.0'],
+      ...Object.entries(message.headers ?? {}).map(([name, value]): [string, string] => [
+        name,
+        sanitizeHeader(value),
+      ]),
+    ];
+
+    const lines = headers.map(([name, value]) => `${name}: ${value}`);
+
+    if (message.html) {
+      const boundary = `easyrate-${crypto.randomUUID()}`;
+      lines.push(
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        ...textPart('text/plain', message.content),
+        `--${boundary}`,
+        ...textPart('text/html', message.html),
+        `--${boundary}--`
+      );
+    } else {
+      lines.push(...textPart('text/plain', message.content));
+    }
+
+    return lines.join('\r\n');
+  }
+
+  private createMessageId(fromAddress: string): string {
+    const domain = fromAddress.split('@')[1] ?? 'easyrate.dk';
+    return `${crypto.randomUUID()}@${domain}`;
+  }
+
+  private isValidEmail(email: string): boolean {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(email);
+  }
+}
+
+/**
+ * Headers and body of a UTF-8 text part, base64 encoded in 76 character lines
+ */
+function textPart(type: 'text/plain' | 'text/html', content: string): string[] {
+  const encoded = Buffer.from(content, 'utf-8').toString('base64');
+  return [
+    `Content-Type: ${type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(encoded.match(/.{1,76}/g) ?? []),
+  ];
+}
+
+/**
+ * Encode non-ASCII header text (e.g. æ, ø, å) as RFC 2047 encoded words
+ */
+function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  // Encoded words may be at most 75 characters, so split long values
+  const words: string[] = [];
+  const chars = Array.from(value);
+  for (let i = 0; i < chars.length; i += 10) {
+    const chunk = Buffer.from(chars.slice(i, i + 10).join(''), 'utf-8').toString('base64');
+    words.push(`=?UTF-8?B?${chunk}?=`);
+  }
+  return words.join('\r\n ');
+}
+
+function encodeDisplayName(name: string): string {
+  if (!/^[\x20-\x7e]*$/.test(name)) {
+    return encodeHeaderValue(name);
+  }
+  return `"${name.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Strip line breaks, which could inject extra headers
+ */
+function sanitizeHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
@@ -3,7 +3,9 @@ export { BaseProvider, type ProviderConfig } from './BaseProvider.js';
 export {
   ProviderFactory,
   getSmsProvider,
+  getConfiguredSmsProviderNames,
   getEmailProvider,
+  getConfiguredEmailProviderNames,
   isSmsConfigured,
   isEmailConfigured,
   getAIProvider,
@@ -13,11 +15,26 @@ export {
   isGoogleConfigured,
 } from './ProviderFactory.js';
 export { InMobileProvider, type InMobileConfig } from './sms/InMobileProvider.js';
+export { HttpSmsProvider, type HttpSmsConfig } from './sms/HttpSmsProvider.js';
+export {
+  SmsProviderRegistry,
+  FailoverSmsProvider,
+  type SmsProviderRegistration,
+  type SmsFailoverConfig,
+} from './sms/SmsProviderRegistry.js';
 export {
   ResendProvider,
   type ResendConfig,
   type ResendWebhookEvent,
 } from './email/ResendProvider.js';
+export { SmtpProvider, type SmtpConfig } from './email/SmtpProvider.js';
+export {
+  SmtpClient,
+  SmtpError,
+  type SmtpClientConfig,
+  type SmtpEnvelope,
+  type SmtpSecurity,
+} from './email/SmtpClient.js';
 
 // AI Providers
 export {
@@ -0,0 +1,207 @@
+import type { Message, SendResult, MessageStatusResult, SmsProvider } from '@easyrate/shared';
+import { PROVIDER_NAMES } from '@easyrate/shared';
+import { BaseProvider } from '../BaseProvider.js';
+import type { RateLimitConfig } from '../../services/RateLimiter.js';
+import { normalizeDanishPhone, isValidPhoneNumber } from '../../utils/smsEncoding.js';
+import { safeEqual } from '../../utils/safeEqual.js';
+
+export interface HttpSmsConfig {
+  url: string;
+  apiKey: string;
+  senderId: string;
+  webhookSecret?: string | undefined;
+  statusCallbackUrl?: string | undefined;
+  maxRequestsPerSecond?: number | undefined;
+}
+
+interface HttpSmsResponse {
+  id?: string | number;
+  messageId?: string | number;
+}
+
+interface HttpSmsStatusResponse {
+  status?: string;
+  timestamp?: string;
+  error?: string;
+}
+
+/**
+ * Generic HTTP SMS gateway, used as a second SMS provider
+ *
+ * Contract: POST {url} with a Bearer API key and JSON { to, from, text,
+ * statusCallbackUrl? }; a 2xx response returns { id } or { messageId }.
+ * GET {url}/{id} returns { status, timestamp?, error? }.
+ */
+export class HttpSmsProvider extends BaseProvider implements SmsProvider {
+  protected readonly providerName = PROVIDER_NAMES.HTTP_SMS;
+  public readonly senderId: string;
+  private readonly url: string;
+  private readonly apiKey: string;
+  private readonly webhookSecret: string | undefined;
+  private readonly statusCallbackUrl: string | undefined;
+  private readonly maxRequestsPerSecond: number | undefined;
+
+  constructor(config: HttpSmsConfig) {
+    super({ apiKey: config.apiKey });
+    this.url = config.url.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.senderId = config.senderId;
+    this.webhookSecret = config.webhookSecret;
+    this.statusCallbackUrl = config.statusCallbackUrl;
+    this.maxRequestsPerSecond = config.maxRequestsPerSecond;
+  }
+
+  /**
+   * Send SMS via the gateway
+   */
+  async send(message: Message): Promise<SendResult> {
+    const normalizedPhone = normalizeDanishPhone(message.to);
+    if (!isValidPhoneNumber(normalizedPhone)) {
+      return {
+        success: false,
+        error: `Invalid phone number: ${message.to}`,
+        provider: this.providerName,
+        permanent: true,
+      };
+    }
+
+    try {
+      await this.waitForRateLimit();
+
+      const payload: Record<string, unknown> = {
+        to: normalizedPhone,
+        from: message.fromName?.slice(0, 11) ?? message.from ?? this.senderId,
+        text: message.content,
+      };
+
+      if (this.statusCallbackUrl) {
+        payload.statusCallbackUrl = this.statusCallbackUrl;
+      }
+
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        return {
+          success: false,
+          error: `HTTP ${String(response.status)}${body ? `: ${body.slice(0, 200)}` : ''}`,
+          provider: this.providerName,
+          // The gateway rejected the message itself - another provider would too
+          permanent: response.status === 400 || response.status === 422,
+        };
+      }
+
+      const data = (await response.json()) as HttpSmsResponse;
+      const messageId = String(data.messageId ?? data.id ?? '');
+
+      this.log('SMS sent successfully', { messageId });
+
+      return {
+        success: true,
+        messageId,
+        provider: this.providerName,
+      };
+    } catch (error) {
+      return this.handleApiError(error);
+    }
+  }
+
+  async getStatus(messageId: string): Promise<MessageStatusResult> {
+    try {
+      await this.waitForRateLimit();
+
+      const response = await fetch(`${this.url}/${encodeURIComponent(messageId)}`, {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+      });
+
+      if (!response.ok) {
+        return { messageId, status: 'failed', error: `HTTP ${String(response.status)}` };
+      }
+
+      const data = (await response.json()) as HttpSmsStatusResponse;
+      const result: MessageStatusResult = {
+        messageId,
+        status: HttpSmsProvider.mapStatus(data.status ?? ''),
+      };
+
+      if (data.timestamp) {
+        result.timestamp = new Date(data.timestamp);
+      }
+      if (data.error) {
+        result.error = data.error;
+      }
+
+      return result;
+    } catch (error) {
+      return {
+        messageId,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Verify the shared secret sent with status callbacks
+   */
+  verifyWebhookSignature(_payload: string | Buffer, signature: string): boolean {
+    if (!this.webhookSecret) {
+      this.logError('Webhook secret not configured', {});
+      return false;
+    }
+
+    return safeEqual(signature, this.webhookSecret);
+  }
+
+  protected override getRateLimitOverrides(): Partial<RateLimitConfig> | undefined {
+    return this.maxRequestsPerSecond
+      ? { maxRequests: this.maxRequestsPerSecond, windowMs: 1000 }
+      : undefined;
+  }
+
+  /**
+   * Parse a delivery status callback: { messageId | id, status, error? }
+   */
+  static parseDeliveryWebhook(payload: unknown): {
+    messageId: string;
+    status: string;
+    error?: string;
+  } {
+    const data = payload as Record<string, unknown>;
+    const id = data.messageId ?? data.id;
+    const result: { messageId: string; status: string; error?: string } = {
+      messageId: typeof id === 'string' || typeof id === 'number' ? String(id) : '',
+      status: typeof data.status === 'string' ? data.status : '',
+    };
+
+    if (typeof data.error === 'string') {
+      result.error = data.error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Map a gateway status to our status. Anything not final counts as sent
+   */
+  static mapStatus(status: string): 'sent' | 'delivered' | 'failed' {
+    switch (status.toLowerCase()) {
+      case 'delivered':
+        return 'delivered';
+      case 'failed':
+      case 'rejected':
+      case 'undelivered':
+      case 'expired':
+        return 'failed';
+      default:
+        return 'sent';
+    }
+  }
+}
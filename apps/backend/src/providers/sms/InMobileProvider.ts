@@ -65,6 +65,8 @@ export class InMobileProvider extends BaseProvider implements SmsProvider {
       return {
         success: false,
         error: `Invalid phone number: ${message.to}`,
+        provider: this.providerName,
+        permanent: true,
       };
     }
 
@@ -106,6 +108,7 @@ export class InMobileProvider extends BaseProvider implements SmsProvider {
         return {
           success: false,
           error: errorData.errorMessage || `HTTP ${response.status}`,
+          provider: this.providerName,
         };
       }
 
@@ -118,6 +121,7 @@ export class InMobileProvider extends BaseProvider implements SmsProvider {
       return {
         success: true,
         messageId,
+        provider: this.providerName,
       };
     } catch (error) {
       return this.handleApiError(error);
@@ -246,6 +250,32 @@ export class InMobileProvider extends BaseProvider implements SmsProvider {
     return result;
   }
 
+  /**
+   * Parse InMobile inbound SMS webhook payload.
+   * The sender may be a plain msisdn or a number object with rawMsisdn.
+   */
+  static parseInboundWebhook(body: Record<string, unknown>): {
+    from: string;
+    text: string;
+    timestamp: Date;
+  } {
+    const sender = body.from ?? body.msisdn;
+    let from = '';
+    if (typeof sender === 'string' || typeof sender === 'number') {
+      from = String(sender);
+    } else if (sender && typeof sender === 'object') {
+      const { rawMsisdn } = sender as { rawMsisdn?: unknown };
+      from = typeof rawMsisdn === 'string' ? rawMsisdn : '';
+    }
+
+    return {
+      // InMobile delivers numbers without the leading '+'
+      from: /^\d{10,}$/.test(from) ? `+${from}` : from,
+      text: typeof body.text === 'string' ? body.text : '',
+      timestamp: body.receivedAt ? new Date(body.receivedAt as string) : new Date(),
+    };
+  }
+
   /**
    * Map InMobile webhook status to NotificationStatus
    */
@@ -0,0 +1,201 @@
+import type {
+  Message,
+  MessageStatusResult,
+  SendResult,
+  SmsProvider,
+  SmsProviderName,
+} from '@easyrate/shared';
+
+export interface SmsProviderRegistration {
+  isConfigured: () => boolean;
+  create: () => SmsProvider;
+}
+
+export interface SmsFailoverConfig {
+  failureThreshold: number; // Consecutive failures before a provider is moved last
+  cooldownMs: number; // How long it stays last
+}
+
+const DEFAULT_FAILOVER_CONFIG: SmsFailoverConfig = {
+  failureThreshold: 3,
+  cooldownMs: 60_000,
+};
+
+interface ProviderHealth {
+  consecutiveFailures: number;
+  lastFailureAt: number;
+}
+
+/**
+ * Registry of SMS providers with failover
+ *
+ * The send order is the business's preferred provider, then the default
+ * provider, then the remaining configured providers in registration order.
+ * A provider that keeps failing is moved to the end of the order for a
+ * cooldown, so sends go straight to a working provider during an outage.
+ */
+export class SmsProviderRegistry {
+  private registrations = new Map<SmsProviderName, SmsProviderRegistration>();
+  private instances = new Map<SmsProviderName, SmsProvider>();
+  private health = new Map<SmsProviderName, ProviderHealth>();
+  private config: SmsFailoverConfig;
+
+  constructor(config: Partial<SmsFailoverConfig> = {}) {
+    this.config = { ...DEFAULT_FAILOVER_CONFIG, ...config };
+  }
+
+  register(name: SmsProviderName, registration: SmsProviderRegistration): void {
+    this.registrations.set(name, registration);
+    this.instances.delete(name);
+  }
+
+  getConfiguredNames(): SmsProviderName[] {
+    return [...this.registrations.entries()]
+      .filter(([, registration]) => registration.isConfigured())
+      .map(([name]) => name);
+  }
+
+  isConfigured(name?: SmsProviderName): boolean {
+    const names = this.getConfiguredNames();
+    return name ? names.includes(name) : names.length > 0;
+  }
+
+  /**
+   * Get or create a provider instance
+   */
+  get(name: SmsProviderName): SmsProvider {
+    let provider = this.instances.get(name);
+    if (!provider) {
+      const registration = this.registrations.get(name);
+      if (!registration) {
+        throw new Error(`SMS provider not registered: ${name}`);
+      }
+      provider = registration.create();
+      this.instances.set(name, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Configured providers in the order sends should try them
+   */
+  resolveOrder(...preferred: (SmsProviderName | undefined)[]): SmsProviderName[] {
+    const configured = this.getConfiguredNames();
+    const order = [
+      ...new Set([
+        ...preferred.filter((name): name is SmsProviderName => !!name && configured.includes(name)),
+        ...configured,
+      ]),
+    ];
+
+    const healthy = order.filter((name) => !this.isCoolingDown(name));
+    const coolingDown = order.filter((name) => this.isCoolingDown(name));
+    return [...healthy, ...coolingDown];
+  }
+
+  /**
+   * Send via the first provider in order, failing over to the next on errors.
+   * Permanent errors (the message itself was rejected) are not retried elsewhere.
+   */
+  async send(message: Message, ...preferred: (SmsProviderName | undefined)[]): Promise<SendResult> {
+    const order = this.resolveOrder(...preferred);
+    if (order.length === 0) {
+      return { success: false, error: 'No SMS provider is configured' };
+    }
+
+    const errors: string[] = [];
+    let result: SendResult = { success: false };
+
+    for (const name of order) {
+      try {
+        result = { ...(await this.get(name).send(message)), provider: name };
+      } catch (error) {
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          provider: name,
+        };
+      }
+
+      if (result.success) {
+        this.recordSuccess(name);
+        return result;
+      }
+
+      errors.push(`${name}: ${result.error ?? 'Unknown error'}`);
+      if (result.permanent) {
+        break;
+      }
+
+      this.recordFailure(name);
+      console.warn(`[SmsProviderRegistry] Send via ${name} failed: ${result.error ?? ''}`);
+    }
+
+    return { ...result, error: errors.join('; ') };
+  }
+
+  /**
+   * Clear instances and health (mainly for testing)
+   */
+  reset(): void {
+    this.instances.clear();
+    this.health.clear();
+  }
+
+  private isCoolingDown(name: SmsProviderName): boolean {
+    const health = this.health.get(name);
+    return (
+      !!health &&
+      health.consecutiveFailures >= this.config.failureThreshold &&
+      Date.now() - health.lastFailureAt < this.config.cooldownMs
+    );
+  }
+
+  private recordSuccess(name: SmsProviderName): void {
+    this.health.delete(name);
+  }
+
+  private recordFailure(name: SmsProviderName): void {
+    const health = this.health.get(name);
+    this.health.set(name, {
+      consecutiveFailures: (health?.consecutiveFailures ?? 0) + 1,
+      lastFailureAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * SmsProvider that sends through the registry, so callers get failover
+ * without knowing about it
+ */
+export class FailoverSmsProvider implements SmsProvider {
+  private readonly preferred: (SmsProviderName | undefined)[];
+
+  constructor(
+    private readonly registry: SmsProviderRegistry,
+    ...preferred: (SmsProviderName | undefined)[]
+  ) {
+    this.preferred = preferred;
+  }
+
+  get senderId(): string {
+    const [primary] = this.registry.resolveOrder(...this.preferred);
+    return primary ? this.registry.get(primary).senderId : '';
+  }
+
+  send(message: Message): Promise<SendResult> {
+    return this.registry.send(message, ...this.preferred);
+  }
+
+  /**
+   * Status from the primary provider. Delivery status normally arrives via the
+   * provider's webhook instead.
+   */
+  async getStatus(messageId: string): Promise<MessageStatusResult> {
+    const [primary] = this.registry.resolveOrder(...this.preferred);
+    if (!primary) {
+      return { messageId, status: 'failed', error: 'No SMS provider is configured' };
+    }
+    return this.registry.get(primary).getStatus(messageId);
+  }
+}
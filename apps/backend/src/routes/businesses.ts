@@ -1,14 +1,31 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { updateBusinessSchema, businessSettingsSchema, integrationConfigSchema } from '@easyrate/shared';
+import type { IntegrationConfig, IntegrationPlatform, SenderIdentity } from '@easyrate/shared';
+import {
+  updateBusinessSchema,
+  businessSettingsSchema,
+  integrationConfigSchema,
+  apiIntegrationSettingsSchema,
+  paginationParamsSchema,
+  updateSenderIdentitySchema,
+  EMAIL_TEMPLATES,
+  UNSUBSCRIBE_TEXT,
+} from '@easyrate/shared';
 import { businessService } from '../services/BusinessService.js';
+import { templateService } from '../services/TemplateService.js';
+import {
+  senderIdentityService,
+  getVerificationRecordName,
+} from '../services/SenderIdentityService.js';
 import { authenticateJwt } from '../middleware/auth.js';
-import { validateBody, validateParams } from '../middleware/validate.js';
-import { sendSuccess } from '../utils/response.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { sendPaginated, sendSuccess } from '../utils/response.js';
 import { IntegrationRegistry } from '../integrations/IntegrationRegistry.js';
 import { dullyAdapter } from '../integrations/dully/index.js';
-import { easyTableAdapter, easyTablePoller } from '../integrations/easytable/index.js';
+import { easyTableAdapter } from '../integrations/easytable/index.js';
 import { orderQueueService } from '../services/OrderQueueService.js';
+import { integrationPollService } from '../services/IntegrationPollService.js';
+import { integrationFilterService } from '../services/IntegrationFilterService.js';
 import { ValidationError } from '../utils/errors.js';
 
 const router = Router();
@@ -70,6 +87,101 @@ router.patch(
   }
 );
 
+// Sender identity plus the DNS record the business must publish for its domain
+function senderIdentityResponse(senderIdentity: SenderIdentity) {
+  const domain = senderIdentity.domain;
+  return {
+    senderIdentity,
+    verificationRecord: domain
+      ? { type: 'TXT', name: getVerificationRecordName(domain.name), value: domain.verificationToken }
+      : null,
+  };
+}
+
+// GET /api/v1/businesses/me/sender-identity - Get sender name, address and SMS sender ID
+router.get(
+  '/me/sender-identity',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const senderIdentity = await senderIdentityService.get(req.businessId!);
+      sendSuccess(res, senderIdentityResponse(senderIdentity));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/v1/businesses/me/sender-identity - Update sender identity
+router.patch(
+  '/me/sender-identity',
+  validateBody(updateSenderIdentitySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const senderIdentity = await senderIdentityService.update(req.businessId!, req.body);
+      sendSuccess(res, senderIdentityResponse(senderIdentity));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/businesses/me/sender-identity/verify-domain - Check the domain's TXT record
+router.post(
+  '/me/sender-identity/verify-domain',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const senderIdentity = await senderIdentityService.verifyDomain(req.businessId!);
+      sendSuccess(res, senderIdentityResponse(senderIdentity));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const emailPreviewSchema = z.object({
+  template: z.string().max(5000),
+});
+
+// POST /api/v1/businesses/me/email-preview - Render a review request email with sample data
+router.post(
+  '/me/email-preview',
+  validateBody(emailPreviewSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const business = await businessService.findByIdOrThrow(req.businessId!);
+      const { template } = req.body as z.infer<typeof emailPreviewSchema>;
+      const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+      const variables = {
+        businessName: business.name,
+        customerName: 'Anders',
+        reviewLink: `${frontendUrl}/r/preview`,
+      };
+
+      const email = templateService.renderReviewRequestEmail({
+        businessName: business.name,
+        body: templateService.render(template.trim() || EMAIL_TEMPLATES.reviewRequest.body, {
+          ...variables,
+          link: variables.reviewLink,
+        }),
+        reviewLink: variables.reviewLink,
+        footer: templateService.render(UNSUBSCRIBE_TEXT.emailFooter, {
+          ...variables,
+          unsubscribeLink: `${frontendUrl}/unsubscribe/preview`,
+        }),
+        primaryColor: business.branding.primaryColor,
+        logoUrl: business.branding.logoUrl,
+      });
+
+      sendSuccess(res, {
+        subject: templateService.render(EMAIL_TEMPLATES.reviewRequest.subject, variables),
+        ...email,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /api/v1/businesses/me/integrations - Get business integrations
 router.get(
   '/me/integrations',
@@ -84,7 +196,7 @@ router.get(
 );
 
 const platformParamSchema = z.object({
-  platform: z.enum(['dully', 'easytable']),
+  platform: z.enum(['dully', 'easytable', 'api']),
 });
 
 const integrationUpdateSchema = integrationConfigSchema.partial().omit({ platform: true });
@@ -96,11 +208,21 @@ router.patch(
   validateBody(integrationUpdateSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const platform = req.params.platform as 'dully' | 'easytable';
+      const platform = req.params.platform as IntegrationPlatform;
+      const body = req.body as Partial<IntegrationConfig>;
+
+      // The generic order API keeps its per-source delays in the integration settings
+      if (platform === 'api' && body.settings) {
+        const parsed = apiIntegrationSettingsSchema.safeParse(body.settings);
+        if (!parsed.success) {
+          throw new ValidationError('Ugyldige API indstillinger', { errors: parsed.error.errors });
+        }
+      }
+
       const business = await businessService.updateIntegration(
         req.businessId!,
         platform,
-        req.body
+        body
       );
       const integration = business.integrations.find((i) => i.platform === platform);
       sendSuccess(res, { integration });
@@ -110,13 +232,23 @@ router.patch(
   }
 );
 
+// POST /api/v1/businesses/me/integrations/api/key - Generate a new order API key (replaces the old one)
+router.post('/me/integrations/api/key', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKey = await businessService.generateOrderApiKey(req.businessId!);
+    sendSuccess(res, { apiKey }, 201);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/v1/businesses/me/integrations/:platform/test - Test integration connection
 router.post(
   '/me/integrations/:platform/test',
   validateParams(platformParamSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const platform = req.params.platform as 'dully' | 'easytable';
+      const platform = req.params.platform as IntegrationPlatform;
       const business = await businessService.findByIdOrThrow(req.businessId!);
 
       const integration = business.integrations.find((i) => i.platform === platform);
@@ -157,6 +289,10 @@ router.post(
         } else {
           message = 'EasyTable API nøgle er ikke konfigureret';
         }
+      } else {
+        // The order API has nothing to connect to - it only needs a key
+        connected = Boolean(integration.apiKey);
+        message = connected ? 'Ordre API nøgle er konfigureret' : 'Ordre API nøgle mangler';
       }
 
       sendSuccess(res, {
@@ -176,30 +312,28 @@ router.get(
   validateParams(platformParamSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const platform = req.params.platform as 'dully' | 'easytable';
+      const platform = req.params.platform as IntegrationPlatform;
       const businessId = req.businessId!;
       const business = await businessService.findByIdOrThrow(businessId);
 
       const integration = business.integrations.find((i) => i.platform === platform);
       const enabled = integration?.enabled ?? false;
 
-      // Check if adapter is connected
-      const adapter = IntegrationRegistry.get(platform);
-      const connected = adapter ? await adapter.testConnection() : false;
+      // Check if adapter is connected (the order API has no adapter)
+      const adapter = platform === 'api' ? undefined : IntegrationRegistry.get(platform);
+      const connected = adapter
+        ? await adapter.testConnection()
+        : enabled && Boolean(integration?.apiKey);
 
       // Get pending notification count
       const pendingNotifications = await orderQueueService.getPendingCount(businessId);
 
-      // For EasyTable, get last poll info
+      // For EasyTable, use the persisted poll state so it survives restarts
       let lastEventAt: Date | null = null;
       if (platform === 'easytable') {
-        const pollerStatus = easyTablePoller.getStatus();
-        const businessState = pollerStatus.businesses.find(
-          (b) => b.businessId === businessId
-        );
-        if (businessState) {
-          lastEventAt = businessState.lastPollAt;
-        }
+        lastEventAt = integration?.polling?.lastSuccessAt ?? null;
+      } else if (platform === 'api') {
+        lastEventAt = integration?.lastWebhookAt ?? null;
       }
 
       sendSuccess(res, {
@@ -208,6 +342,10 @@ router.get(
         connected,
         lastEventAt,
         pendingNotifications,
+        ...(platform === 'easytable' && {
+          lastPollAt: integration?.polling?.lastPollAt ?? null,
+          lastPollError: integration?.polling?.lastError ?? null,
+        }),
       });
     } catch (error) {
       next(error);
@@ -215,4 +353,34 @@ router.get(
   }
 );
 
+// GET /api/v1/businesses/me/integrations/:platform/filtered-orders - Recent orders excluded by filter rules
+router.get(
+  '/me/integrations/:platform/filtered-orders',
+  validateParams(platformParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const platform = req.params.platform as IntegrationPlatform;
+      const orders = await integrationFilterService.listFiltered(req.businessId!, platform);
+      sendSuccess(res, { orders });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/businesses/me/integrations/easytable/poll-runs - List EasyTable poll runs
+router.get(
+  '/me/integrations/easytable/poll-runs',
+  validateQuery(paginationParamsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query as unknown as z.infer<typeof paginationParamsSchema>;
+      const result = await integrationPollService.list(req.businessId!, page, limit);
+      sendPaginated(res, result.data, result.pagination);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
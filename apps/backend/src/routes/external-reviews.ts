@@ -2,11 +2,13 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { paginationParamsSchema, idParamSchema } from '@easyrate/shared';
 import { externalReviewService } from '../services/ExternalReviewService.js';
+import { businessService } from '../services/BusinessService.js';
 import { googleReviewsSyncService } from '../services/GoogleReviewsSyncService.js';
 import { reviewAttributionService } from '../services/ReviewAttributionService.js';
 import { authenticateJwt } from '../middleware/auth.js';
 import { validateBody, validateQuery, validateParams } from '../middleware/validate.js';
 import { sendSuccess, sendPaginated } from '../utils/response.js';
+import { resolveDateRange } from '../utils/timezone.js';
 
 const router = Router();
 
@@ -79,7 +81,7 @@ router.get(
       const { fromDate, toDate } = req.query as z.infer<typeof statsQuerySchema>;
       const dateRange =
         fromDate && toDate
-          ? { from: new Date(fromDate), to: new Date(toDate) }
+          ? resolveDateRange(fromDate, toDate, await businessService.getTimeZone(req.businessId!))
           : undefined;
       const stats = await externalReviewService.getStats(req.businessId!, dateRange);
       sendSuccess(res, stats);
@@ -0,0 +1,134 @@
+import type { Request, Response, NextFunction } from 'express';
+import express, { Router } from 'express';
+import { z } from 'zod';
+import {
+  CUSTOMER_IMPORTS,
+  customerImportUploadQuerySchema,
+  paginationParamsSchema,
+  scheduleCustomerImportSchema,
+} from '@easyrate/shared';
+import { customerImportService } from '../services/CustomerImportService.js';
+import { authenticateJwt } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { ValidationError } from '../utils/errors.js';
+import { sendPaginated, sendSuccess } from '../utils/response.js';
+
+const router = Router();
+
+const importIdParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+// The file is sent as the raw request body; the global JSON parser skips these types
+const rawUpload = express.raw({
+  type: [
+    'text/csv',
+    'text/plain',
+    'application/csv',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/octet-stream',
+  ],
+  limit: `${String(CUSTOMER_IMPORTS.maxFileSizeMb)}mb`,
+});
+
+// All routes require JWT authentication
+router.use(authenticateJwt);
+
+// GET /api/v1/imports - Import history for current business
+router.get(
+  '/',
+  validateQuery(paginationParamsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query as unknown as z.infer<typeof paginationParamsSchema>;
+      const result = await customerImportService.list(req.businessId!, page, limit);
+      sendPaginated(res, result.data, result.pagination);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/imports?fileName=kunder.csv - Upload a CSV/XLSX customer list and get a preview
+router.post(
+  '/',
+  validateQuery(customerImportUploadQuerySchema),
+  rawUpload,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new ValidationError('Upload en CSV- eller Excel-fil');
+      }
+
+      const { fileName } = req.query as unknown as z.infer<typeof customerImportUploadQuerySchema>;
+      const customerImport = await customerImportService.preview(
+        req.businessId!,
+        fileName,
+        req.body
+      );
+      sendSuccess(res, customerImport, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/imports/:id - Import with all rows
+router.get(
+  '/:id',
+  validateParams(importIdParamsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const customerImport = await customerImportService.get(
+        req.businessId!,
+        req.params.id as string
+      );
+      sendSuccess(res, customerImport);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/imports/:id/schedule - Queue the valid rows, throttled to sendsPerHour
+router.post(
+  '/:id/schedule',
+  validateParams(importIdParamsSchema),
+  validateBody(scheduleCustomerImportSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = req.body as z.infer<typeof scheduleCustomerImportSchema>;
+      const customerImport = await customerImportService.schedule(
+        req.businessId!,
+        req.params.id as string,
+        {
+          ...(input.sendsPerHour !== undefined && { sendsPerHour: input.sendsPerHour }),
+          ...(input.startAt && { startAt: input.startAt }),
+        }
+      );
+      sendSuccess(res, customerImport);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/imports/:id/cancel - Cancel review requests that have not been sent yet
+router.post(
+  '/:id/cancel',
+  validateParams(importIdParamsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const customerImport = await customerImportService.cancel(
+        req.businessId!,
+        req.params.id as string
+      );
+      sendSuccess(res, customerImport);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
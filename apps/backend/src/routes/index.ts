@@ -13,6 +13,14 @@ import googleAuthRouter from './google-auth.js';
 import googleConfigRouter from './google-config.js';
 import externalReviewsRouter from './external-reviews.js';
 import internalRouter from './internal.js';
+import suppressionsRouter from './suppressions.js';
+import unsubscribeRouter from './unsubscribe.js';
+import webhookEndpointsRouter from './webhook-endpoints.js';
+import alertsRouter from './alerts.js';
+import reportsRouter from './reports.js';
+import ordersRouter from './orders.js';
+import importsRouter from './imports.js';
+import orderQueueRouter from './order-queue.js';
 
 const router = Router();
 
@@ -31,5 +39,13 @@ router.use('/google/auth', googleAuthRouter);
 router.use('/google', googleConfigRouter);
 router.use('/external-reviews', externalReviewsRouter);
 router.use('/internal', internalRouter);
+router.use('/suppressions', suppressionsRouter);
+router.use('/unsubscribe', unsubscribeRouter);
+router.use('/webhook-endpoints', webhookEndpointsRouter);
+router.use('/alerts', alertsRouter);
+router.use('/reports', reportsRouter);
+router.use('/orders', ordersRouter);
+router.use('/imports', importsRouter);
+router.use('/order-queue', orderQueueRouter);
 
 export default router;
@@ -1,5 +1,5 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
-import type { z } from 'zod';
+import { z } from 'zod';
 import { paginationParamsSchema, idParamSchema } from '@easyrate/shared';
 import { insightsService } from '../services/InsightsService.js';
 import { authenticateJwt } from '../middleware/auth.js';
@@ -11,6 +11,11 @@ const router = Router();
 // History query schema
 const historyQuerySchema = paginationParamsSchema;
 
+// Trends query schema: number of latest runs to compare
+const trendsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(2).max(52).default(12),
+});
+
 // GET /api/v1/insights - Get latest completed insight
 router.get(
   '/',
@@ -57,6 +62,22 @@ router.get(
   }
 );
 
+// GET /api/v1/insights/trends - Sentiment over time and theme changes since the previous run
+router.get(
+  '/trends',
+  authenticateJwt,
+  validateQuery(trendsQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { limit } = req.query as unknown as z.infer<typeof trendsQuerySchema>;
+      const trends = await insightsService.getTrends(req.businessId!, limit);
+      sendSuccess(res, trends);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /api/v1/insights/:id - Get specific insight run by ID
 router.get(
   '/:id',
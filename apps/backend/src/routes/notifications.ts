@@ -2,9 +2,11 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { paginationParamsSchema, idParamSchema } from '@easyrate/shared';
 import { notificationService, NotificationFilters } from '../services/NotificationService.js';
+import { businessService } from '../services/BusinessService.js';
 import { authenticateJwt } from '../middleware/auth.js';
 import { validateQuery, validateParams } from '../middleware/validate.js';
 import { sendSuccess, sendPaginated } from '../utils/response.js';
+import { resolveDateRange } from '../utils/timezone.js';
 
 const router = Router();
 
@@ -61,9 +63,10 @@ router.get(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { fromDate, toDate } = req.query as z.infer<typeof statsQuerySchema>;
-      const dateRange = fromDate && toDate
-        ? { from: new Date(fromDate), to: new Date(toDate) }
-        : undefined;
+      const dateRange =
+        fromDate && toDate
+          ? resolveDateRange(fromDate, toDate, await businessService.getTimeZone(req.businessId!))
+          : undefined;
       const stats = await notificationService.getStats(req.businessId!, dateRange);
       sendSuccess(res, stats);
     } catch (error) {
@@ -0,0 +1,148 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  idParamSchema,
+  orderQueueCancelSchema,
+  orderQueueRescheduleSchema,
+  orderQueueRetrySchema,
+  orderQueueStatusSchema,
+  paginationParamsSchema,
+} from '@easyrate/shared';
+import type {
+  OrderQueueCancelInput,
+  OrderQueueRescheduleInput,
+  OrderQueueRetryInput,
+} from '@easyrate/shared';
+import { orderQueueService, type OrderQueueFilters } from '../services/OrderQueueService.js';
+import { notificationService } from '../services/NotificationService.js';
+import { authenticateJwt } from '../middleware/auth.js';
+import { validateBody, validateQuery, validateParams } from '../middleware/validate.js';
+import { sendSuccess, sendPaginated } from '../utils/response.js';
+
+const router = Router();
+
+// All routes require JWT authentication
+router.use(authenticateJwt);
+
+const listOrderQueueQuerySchema = z
+  .object({
+    status: orderQueueStatusSchema.optional(),
+    platform: z.enum(['dully', 'easytable', 'api', 'import', 'test']).optional(),
+    search: z.string().max(255).optional(),
+  })
+  .merge(paginationParamsSchema);
+
+// GET /api/v1/order-queue - List queue items for current business
+router.get(
+  '/',
+  validateQuery(listOrderQueueQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = req.query as unknown as z.infer<typeof listOrderQueueQuerySchema>;
+      const { page, limit, status, platform, search } = parsed;
+      const filters: OrderQueueFilters = {};
+      if (status) filters.status = status;
+      if (platform) filters.platform = platform;
+      if (search) filters.search = search;
+
+      const result = await orderQueueService.list(req.businessId!, filters, page, limit);
+      sendPaginated(res, result.data, result.pagination);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/order-queue/stats - Queue item counts per status
+router.get('/stats', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const stats = await orderQueueService.getBusinessQueueStats(req.businessId!);
+    sendSuccess(res, { stats });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/order-queue/retry-failed - Retry the given failed or dead-lettered items, or all of them
+router.post(
+  '/retry-failed',
+  validateBody(orderQueueRetrySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { ids } = req.body as OrderQueueRetryInput;
+      const retried = await orderQueueService.retryAllFailed(req.businessId!, ids);
+      sendSuccess(res, { retried });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/order-queue/:id - Queue item with the notifications sent for the order
+router.get(
+  '/:id',
+  validateParams(idParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const businessId = req.businessId!;
+      const item = await orderQueueService.findForBusiness(businessId, req.params.id as string);
+      const notifications = await notificationService.findByOrderId(businessId, item.orderId);
+      sendSuccess(res, { item, notifications });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/order-queue/:id/retry - Send a failed, dead-lettered or cancelled item again
+router.post(
+  '/:id/retry',
+  validateParams(idParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const item = await orderQueueService.retry(req.businessId!, req.params.id as string);
+      sendSuccess(res, { item });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/order-queue/:id/cancel - Cancel a pending item
+router.post(
+  '/:id/cancel',
+  validateParams(idParamSchema),
+  validateBody(orderQueueCancelSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { reason } = req.body as OrderQueueCancelInput;
+      const item = await orderQueueService.cancel(req.businessId!, req.params.id as string, reason);
+      sendSuccess(res, { item });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/order-queue/:id/reschedule - Move a pending item to another time
+router.post(
+  '/:id/reschedule',
+  validateParams(idParamSchema),
+  validateBody(orderQueueRescheduleSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { scheduledFor } = req.body as OrderQueueRescheduleInput;
+      const item = await orderQueueService.reschedule(
+        req.businessId!,
+        req.params.id as string,
+        scheduledFor
+      );
+      sendSuccess(res, { item });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,98 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import type { ApiOrderInput } from '@easyrate/shared';
+import { apiOrderBatchSchema, apiOrderCancelSchema, apiOrderSchema } from '@easyrate/shared';
+import { orderApiService } from '../services/OrderApiService.js';
+import { idempotencyService } from '../services/IdempotencyService.js';
+import { authenticateOrderApiKey } from '../middleware/auth.js';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { sendSuccess } from '../utils/response.js';
+
+const router = Router();
+
+// All routes require an integration API key (X-API-Key)
+router.use(authenticateOrderApiKey);
+
+const orderIdParamSchema = z.object({
+  orderId: z.string().min(1).max(200),
+});
+
+function getIdempotencyKey(req: Request): string | undefined {
+  const header = req.headers['idempotency-key'];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+// POST /api/v1/orders - Submit a completed order for a review request
+router.post(
+  '/',
+  validateBody(apiOrderSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const businessId = req.businessId!;
+      const result = await idempotencyService.run(
+        businessId,
+        getIdempotencyKey(req),
+        'orders.create',
+        req.body,
+        async () => ({
+          status: 202,
+          body: { order: await orderApiService.submit(businessId, req.body as ApiOrderInput) },
+        })
+      );
+      if (result.replayed) {
+        res.setHeader('Idempotent-Replayed', 'true');
+      }
+      sendSuccess(res, result.body, result.status);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/orders/batch - Submit up to ORDER_API.maxBatchSize orders at once
+router.post(
+  '/batch',
+  validateBody(apiOrderBatchSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const businessId = req.businessId!;
+      const { orders } = req.body as z.infer<typeof apiOrderBatchSchema>;
+      const result = await idempotencyService.run(
+        businessId,
+        getIdempotencyKey(req),
+        'orders.batch',
+        req.body,
+        async () => ({
+          status: 202,
+          body: await orderApiService.submitBatch(businessId, orders),
+        })
+      );
+      if (result.replayed) {
+        res.setHeader('Idempotent-Replayed', 'true');
+      }
+      sendSuccess(res, result.body, result.status);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/orders/:orderId/cancel - Cancel the pending review request for an order
+router.post(
+  '/:orderId/cancel',
+  validateParams(orderIdParamSchema),
+  validateBody(apiOrderCancelSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orderId = req.params.orderId as string;
+      const { reason } = req.body as z.infer<typeof apiOrderCancelSchema>;
+      const result = await orderApiService.cancel(req.businessId!, orderId, reason);
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
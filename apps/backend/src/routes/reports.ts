@@ -0,0 +1,30 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
+import type { z } from 'zod';
+import { paginationParamsSchema } from '@easyrate/shared';
+import { reportService } from '../services/ReportService.js';
+import { authenticateJwt } from '../middleware/auth.js';
+import { validateQuery } from '../middleware/validate.js';
+import { sendPaginated } from '../utils/response.js';
+
+const router = Router();
+
+// All routes require JWT authentication
+router.use(authenticateJwt);
+
+// GET /api/v1/reports - Sent performance reports for current business (settings live in business settings)
+router.get(
+  '/',
+  validateQuery(paginationParamsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query as unknown as z.infer<typeof paginationParamsSchema>;
+      const result = await reportService.list(req.businessId!, page, limit);
+      sendPaginated(res, result.data, result.pagination);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -7,16 +7,18 @@ import {
   ReviewFilters,
 } from '@easyrate/shared';
 import { reviewService } from '../services/ReviewService.js';
+import { businessService } from '../services/BusinessService.js';
 import { authenticateJwt, authenticateApiKey } from '../middleware/auth.js';
 import { validateBody, validateQuery, validateParams } from '../middleware/validate.js';
 import { sendSuccess, sendPaginated } from '../utils/response.js';
+import { resolveDateRange } from '../utils/timezone.js';
 
 const router = Router();
 
 // Review filters schema for query params
 const reviewFiltersQuerySchema = z.object({
   rating: z.coerce.number().int().min(1).max(5).optional(),
-  sourcePlatform: z.enum(['dully', 'easytable', 'direct']).optional(),
+  sourcePlatform: z.enum(['dully', 'easytable', 'api', 'import', 'direct']).optional(),
   isPublic: z.coerce.boolean().optional(),
   fromDate: z.string().optional(),
   toDate: z.string().optional(),
@@ -70,9 +72,10 @@ router.get(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { fromDate, toDate } = req.query as z.infer<typeof statsQuerySchema>;
-      const dateRange = fromDate && toDate
-        ? { from: new Date(fromDate), to: new Date(toDate) }
-        : undefined;
+      const dateRange =
+        fromDate && toDate
+          ? resolveDateRange(fromDate, toDate, await businessService.getTimeZone(req.businessId!))
+          : undefined;
       const stats = await reviewService.getStats(req.businessId!, dateRange);
       sendSuccess(res, stats);
     } catch (error) {
@@ -103,9 +106,10 @@ router.get(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { fromDate, toDate } = req.query as z.infer<typeof statsQuerySchema>;
-      const dateRange = fromDate && toDate
-        ? { from: new Date(fromDate), to: new Date(toDate) }
-        : undefined;
+      const dateRange =
+        fromDate && toDate
+          ? resolveDateRange(fromDate, toDate, await businessService.getTimeZone(req.businessId!))
+          : undefined;
       const metrics = await reviewService.getFeedbackMetrics(req.businessId!, dateRange);
       sendSuccess(res, metrics);
     } catch (error) {
@@ -0,0 +1,81 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  paginationParamsSchema,
+  idParamSchema,
+  notificationTypeSchema,
+  createSuppressionSchema,
+} from '@easyrate/shared';
+import type { CreateSuppressionSchema } from '@easyrate/shared';
+import { suppressionService, type SuppressionFilters } from '../services/SuppressionService.js';
+import { authenticateJwt } from '../middleware/auth.js';
+import { validateBody, validateQuery, validateParams } from '../middleware/validate.js';
+import { sendSuccess, sendPaginated } from '../utils/response.js';
+
+const router = Router();
+
+// All routes require JWT authentication
+router.use(authenticateJwt);
+
+const listSuppressionsQuerySchema = z
+  .object({
+    channel: notificationTypeSchema.optional(),
+    search: z.string().max(255).optional(),
+  })
+  .merge(paginationParamsSchema);
+
+// GET /api/v1/suppressions - List suppressed recipients for current business
+router.get(
+  '/',
+  validateQuery(listSuppressionsQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = req.query as unknown as z.infer<typeof listSuppressionsQuerySchema>;
+      const { page, limit, channel, search } = parsed;
+      const filters: SuppressionFilters = {};
+      if (channel) filters.channel = channel;
+      if (search) filters.search = search;
+
+      const result = await suppressionService.list(req.businessId!, filters, page, limit);
+      sendPaginated(res, result.data, result.pagination);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/suppressions - Manually suppress a recipient
+router.post(
+  '/',
+  validateBody(createSuppressionSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channel, value, note } = req.body as CreateSuppressionSchema;
+      const suppression = await suppressionService.add(
+        req.businessId!,
+        { channel, value, ...(note && { note }) },
+        'manual'
+      );
+      sendSuccess(res, suppression, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/v1/suppressions/:id - Remove a recipient from the suppression list
+router.delete(
+  '/:id',
+  validateParams(idParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await suppressionService.remove(req.businessId!, req.params.id as string);
+      sendSuccess(res, { deleted: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,44 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { suppressionService } from '../services/SuppressionService.js';
+import { validateParams } from '../middleware/validate.js';
+import { sendSuccess } from '../utils/response.js';
+
+const router = Router();
+
+const tokenParamSchema = z.object({
+  token: z.string().min(1),
+});
+
+// GET /api/v1/unsubscribe/:token - Get unsubscribe page data
+router.get(
+  '/:token',
+  validateParams(tokenParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { businessName, email } = await suppressionService.resolveUnsubscribeToken(
+        req.params.token as string
+      );
+      sendSuccess(res, { businessName, email });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/unsubscribe/:token - Unsubscribe (landing page and RFC 8058 one-click)
+router.post(
+  '/:token',
+  validateParams(tokenParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await suppressionService.unsubscribe(req.params.token as string);
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
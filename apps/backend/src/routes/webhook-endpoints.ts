@@ -0,0 +1,146 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
+import type { z } from 'zod';
+import {
+  paginationParamsSchema,
+  idParamSchema,
+  createWebhookEndpointSchema,
+  updateWebhookEndpointSchema,
+} from '@easyrate/shared';
+import type {
+  CreateWebhookEndpointSchema,
+  UpdateWebhookEndpointInput,
+  UpdateWebhookEndpointSchema,
+} from '@easyrate/shared';
+import { webhookService } from '../services/WebhookService.js';
+import { authenticateJwt } from '../middleware/auth.js';
+import { validateBody, validateQuery, validateParams } from '../middleware/validate.js';
+import { sendSuccess, sendPaginated } from '../utils/response.js';
+
+const router = Router();
+
+// All routes require JWT authentication
+router.use(authenticateJwt);
+
+// GET /api/v1/webhook-endpoints - List webhook endpoints for current business
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const endpoints = await webhookService.listEndpoints(req.businessId!);
+    sendSuccess(res, endpoints);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/webhook-endpoints - Create endpoint (response includes the signing secret)
+router.post(
+  '/',
+  validateBody(createWebhookEndpointSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { url, description, events, enabled } = req.body as CreateWebhookEndpointSchema;
+      const endpoint = await webhookService.createEndpoint(req.businessId!, {
+        url,
+        events,
+        ...(description && { description }),
+        ...(enabled !== undefined && { enabled }),
+      });
+      sendSuccess(res, endpoint, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/v1/webhook-endpoints/:id - Update endpoint
+router.patch(
+  '/:id',
+  validateParams(idParamSchema),
+  validateBody(updateWebhookEndpointSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body as UpdateWebhookEndpointSchema;
+      const input: UpdateWebhookEndpointInput = {};
+      if (body.url !== undefined) input.url = body.url;
+      if (body.description !== undefined) input.description = body.description;
+      if (body.events !== undefined) input.events = body.events;
+      if (body.enabled !== undefined) input.enabled = body.enabled;
+
+      const endpoint = await webhookService.updateEndpoint(
+        req.businessId!,
+        req.params.id as string,
+        input
+      );
+      sendSuccess(res, endpoint);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/v1/webhook-endpoints/:id - Delete endpoint and its delivery log
+router.delete(
+  '/:id',
+  validateParams(idParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await webhookService.deleteEndpoint(req.businessId!, req.params.id as string);
+      sendSuccess(res, { deleted: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/webhook-endpoints/:id/rotate-secret - Replace the signing secret
+router.post(
+  '/:id/rotate-secret',
+  validateParams(idParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const endpoint = await webhookService.rotateSecret(req.businessId!, req.params.id as string);
+      sendSuccess(res, endpoint);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/webhook-endpoints/:id/test - Send a test event and return the delivery result
+router.post(
+  '/:id/test',
+  validateParams(idParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const delivery = await webhookService.sendTestEvent(req.businessId!, req.params.id as string);
+      sendSuccess(res, delivery);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const listDeliveriesQuerySchema = paginationParamsSchema;
+
+// GET /api/v1/webhook-endpoints/:id/deliveries - Delivery log for an endpoint
+router.get(
+  '/:id/deliveries',
+  validateParams(idParamSchema),
+  validateQuery(listDeliveriesQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query as unknown as z.infer<typeof listDeliveriesQuerySchema>;
+      const result = await webhookService.listDeliveries(
+        req.businessId!,
+        req.params.id as string,
+        page,
+        limit
+      );
+      sendPaginated(res, result.data, result.pagination);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
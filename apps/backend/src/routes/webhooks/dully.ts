@@ -5,6 +5,8 @@ import { dullyWebhookPayloadSchema, INTEGRATION_DELAYS } from '@easyrate/shared'
 import { Business } from '../../models/Business.js';
 import { dullyAdapter } from '../../integrations/dully/index.js';
 import { orderQueueService } from '../../services/OrderQueueService.js';
+import { integrationFilterService } from '../../services/IntegrationFilterService.js';
+import { getRawBody } from '../../middleware/rawBody.js';
 import { UnauthorizedError, NotFoundError, ValidationError } from '../../utils/errors.js';
 
 const router = Router();
@@ -92,8 +94,11 @@ router.post('/:businessId', async (req: Request, res: Response, next: NextFuncti
       throw new UnauthorizedError('Webhook timestamp udløbet');
     }
 
-    // 5. Verify signature
-    const rawBody = JSON.stringify(req.body);
+    // 5. Verify signature over the body exactly as it was sent
+    const rawBody = getRawBody(req);
+    if (rawBody === null) {
+      throw new Error('Raw request body not captured');
+    }
     const isValid = dullyAdapter.verifySignature(
       rawBody,
       headers.signature,
@@ -151,8 +156,8 @@ router.post('/:businessId', async (req: Request, res: Response, next: NextFuncti
     // 9. Transform to OrderData
     const orderData = dullyAdapter.transformPayload(payload);
 
-    // 10. Queue notification with configured delay
-    await orderQueueService.enqueue(businessId, orderData, INTEGRATION_DELAYS.dully);
+    // 10. Queue notification with configured delay (unless the filter rules exclude it)
+    await integrationFilterService.enqueue(businessId, orderData, INTEGRATION_DELAYS.dully);
 
     // 11. Update webhook tracking
     await updateWebhookTracking(businessId);
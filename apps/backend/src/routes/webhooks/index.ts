@@ -2,6 +2,8 @@ import { Router } from 'express';
 import dullyRouter from './dully.js';
 import inmobileRouter from './inmobile.js';
 import resendRouter from './resend.js';
+import smsHttpRouter from './sms-http.js';
+import smtpRouter from './smtp.js';
 
 const router = Router();
 
@@ -12,5 +14,7 @@ router.use('/dully', dullyRouter);
 // Mount provider webhook routes
 router.use('/inmobile', inmobileRouter);
 router.use('/resend', resendRouter);
+router.use('/sms-http', smsHttpRouter);
+router.use('/smtp', smtpRouter);
 
 export default router;
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { notificationService } from '../../services/NotificationService.js';
+import { suppressionService } from '../../services/SuppressionService.js';
 import { InMobileProvider } from '../../providers/sms/InMobileProvider.js';
+import { safeEqual } from '../../utils/safeEqual.js';
 import type { NotificationStatus } from '@easyrate/shared';
 
 const router = Router();
@@ -62,4 +64,44 @@ router.post('/delivery', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * InMobile inbound SMS webhook
+ * POST /api/v1/webhooks/inmobile/inbound
+ *
+ * Receives replies to our SMS sender. STOP replies (STOP/STOPP/AFMELD) add the
+ * sender to the suppression list. Other replies are acknowledged and ignored.
+ * Auth: shared secret via X-InMobile-Secret header. Without INMOBILE_WEBHOOK_SECRET
+ * every request is rejected, as anyone could opt numbers out.
+ */
+router.post('/inbound', async (req: Request, res: Response) => {
+  try {
+    const expectedSecret = process.env.INMOBILE_WEBHOOK_SECRET;
+
+    if (!expectedSecret) {
+      console.error('[InMobile Webhook] INMOBILE_WEBHOOK_SECRET is not configured');
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const secret = req.headers['x-inmobile-secret'];
+    if (typeof secret !== 'string' || !safeEqual(secret, expectedSecret)) {
+      console.warn('[InMobile Webhook] Missing or invalid X-InMobile-Secret header');
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const inbound = InMobileProvider.parseInboundWebhook(req.body as Record<string, unknown>);
+
+    if (!inbound.from) {
+      console.warn('[InMobile Webhook] Inbound message without sender');
+      return res.status(400).json({ error: 'Invalid payload format' });
+    }
+
+    const suppression = await suppressionService.handleInboundSms(inbound.from, inbound.text);
+
+    return res.status(200).json({ received: true, suppressed: suppression !== null });
+  } catch (error) {
+    console.error('[InMobile Webhook] Error processing inbound message:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
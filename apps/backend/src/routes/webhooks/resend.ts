@@ -1,7 +1,10 @@
 import type { Request, Response } from 'express';
 import { Router } from 'express';
 import { notificationService } from '../../services/NotificationService.js';
+import { suppressionService } from '../../services/SuppressionService.js';
 import { ResendProvider, type ResendWebhookEvent } from '../../providers/email/ResendProvider.js';
+import { getRawBody } from '../../middleware/rawBody.js';
+import { parseSvixSecrets, verifySvixSignature } from '../../utils/svix.js';
 import type { NotificationStatus } from '@easyrate/shared';
 
 const router = Router();
@@ -11,6 +14,9 @@ const router = Router();
  * POST /api/v1/webhooks/resend/events
  *
  * Resend sends individual event objects (not arrays like SendGrid).
+ * Requests are signed by svix; RESEND_WEBHOOK_SECRET may hold several
+ * space-separated secrets while rotating. Without a secret every request is
+ * rejected, as forged events would change statuses and suppressions.
  * Status mapping:
  * - email.sent            → sent
  * - email.delivered       → delivered
@@ -19,28 +25,37 @@ const router = Router();
  * - email.complained      → bounced
  * - email.opened          → opened
  * - email.clicked         → clicked
+ *
+ * Spam complaints also add the recipient to the business' suppression list.
  */
 router.post('/events', async (req: Request, res: Response) => {
   try {
-    // Verify webhook signature if secret is configured
-    const webhookSecret = process.env.RESEND_WEBHOOK_SECRET;
-    if (webhookSecret) {
-      const svixId = req.headers['svix-id'] as string;
-      const svixTimestamp = req.headers['svix-timestamp'] as string;
-      const svixSignature = req.headers['svix-signature'] as string;
-
-      if (!svixId || !svixTimestamp || !svixSignature) {
-        console.warn('[Resend Webhook] Missing svix signature headers');
-        return res.status(401).json({ error: 'Unauthorized' });
-      }
+    // Verify svix signature over the raw body
+    const secrets = parseSvixSecrets(process.env.RESEND_WEBHOOK_SECRET);
+    if (secrets.length === 0) {
+      console.error('[Resend Webhook] RESEND_WEBHOOK_SECRET is not configured');
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
 
-      // Verify timestamp is within tolerance (5 minutes)
-      const timestampSeconds = parseInt(svixTimestamp, 10);
-      const now = Math.floor(Date.now() / 1000);
-      if (Math.abs(now - timestampSeconds) > 300) {
-        console.warn('[Resend Webhook] Timestamp outside tolerance');
-        return res.status(401).json({ error: 'Unauthorized' });
-      }
+    const rawBody = getRawBody(req);
+    if (rawBody === null) {
+      console.error('[Resend Webhook] Raw body not captured, cannot verify signature');
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+
+    const verification = verifySvixSignature(
+      rawBody,
+      {
+        id: req.header('svix-id'),
+        timestamp: req.header('svix-timestamp'),
+        signature: req.header('svix-signature'),
+      },
+      secrets
+    );
+
+    if (!verification.valid) {
+      console.warn(`[Resend Webhook] Signature verification failed: ${verification.reason}`);
+      return res.status(401).json({ error: 'Unauthorized' });
     }
 
     const event = req.body as ResendWebhookEvent;
@@ -84,6 +99,15 @@ router.post('/events', async (req: Request, res: Response) => {
           `[Resend Webhook] Updated notification ${notification.id}: ${parsedEvent.event} → ${newStatus}`
         );
       }
+
+      if (parsedEvent.event === 'email.complained') {
+        await suppressionService.add(
+          notification.businessId,
+          { channel: 'email', value: notification.recipient },
+          'complaint'
+        );
+        console.log(`[Resend Webhook] Suppressed ${notification.recipient} after spam complaint`);
+      }
     } catch (eventError) {
       console.error(`[Resend Webhook] Error processing event:`, eventError);
     }
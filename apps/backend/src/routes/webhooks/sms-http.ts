@@ -0,0 +1,66 @@
+import { Router, type Request, type Response } from 'express';
+import { notificationService } from '../../services/NotificationService.js';
+import { HttpSmsProvider } from '../../providers/sms/HttpSmsProvider.js';
+import { safeEqual } from '../../utils/safeEqual.js';
+
+const router = Router();
+
+/**
+ * HTTP SMS gateway delivery status webhook
+ * POST /api/v1/webhooks/sms-http/delivery
+ *
+ * The gateway posts { messageId, status, error? } to SMS_HTTP_STATUS_CALLBACK_URL.
+ * Auth: shared secret via X-Webhook-Secret header. Without SMS_HTTP_WEBHOOK_SECRET
+ * every request is rejected, as anyone could change notification statuses.
+ */
+router.post('/delivery', async (req: Request, res: Response) => {
+  try {
+    const expectedSecret = process.env.SMS_HTTP_WEBHOOK_SECRET;
+
+    if (!expectedSecret) {
+      console.error('[SMS HTTP Webhook] SMS_HTTP_WEBHOOK_SECRET is not configured');
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const secret = req.headers['x-webhook-secret'];
+    if (typeof secret !== 'string' || !safeEqual(secret, expectedSecret)) {
+      console.warn('[SMS HTTP Webhook] Missing or invalid X-Webhook-Secret header');
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const webhookData = HttpSmsProvider.parseDeliveryWebhook(req.body);
+
+    if (!webhookData.messageId) {
+      return res.status(400).json({ error: 'Invalid payload format' });
+    }
+
+    const notification = await notificationService.findByExternalMessageId(webhookData.messageId);
+
+    if (!notification) {
+      console.warn(
+        `[SMS HTTP Webhook] Notification not found for message ID: ${webhookData.messageId}`
+      );
+      // Return 200 to acknowledge receipt even if we can't find the notification
+      return res.status(200).json({ received: true, found: false });
+    }
+
+    const newStatus = HttpSmsProvider.mapStatus(webhookData.status);
+
+    const updateOptions: { errorMessage?: string } = {};
+    if (webhookData.error) {
+      updateOptions.errorMessage = webhookData.error;
+    }
+    await notificationService.updateStatus(notification.id, newStatus, updateOptions);
+
+    console.log(
+      `[SMS HTTP Webhook] Updated notification ${notification.id} status to ${newStatus}`
+    );
+
+    return res.status(200).json({ received: true, updated: true });
+  } catch (error) {
+    console.error('[SMS HTTP Webhook] Error processing webhook:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,86 @@
+import express, { Router, type Request, type Response } from 'express';
+import { notificationService } from '../../services/NotificationService.js';
+import { parseDsn, stripAngleBrackets } from '../../utils/dsn.js';
+import { safeEqual } from '../../utils/safeEqual.js';
+
+const router = Router();
+
+/**
+ * SMTP bounce webhook
+ * POST /api/v1/webhooks/smtp/bounces
+ *
+ * The bounce mailbox (the relay's return path) forwards each raw bounce
+ * message here, e.g. from a mail server pipe or an inbound mail service.
+ * Auth: shared secret via X-Webhook-Secret header. Without SMTP_BOUNCE_SECRET every
+ * request is rejected, as anyone could mark messages bounced and suppress customers.
+ *
+ * DSN action mapping:
+ * - failed  → bounced
+ * - delayed → no change, the relay keeps trying
+ */
+router.post(
+  '/bounces',
+  express.text({ type: () => true, limit: '2mb' }),
+  async (req: Request, res: Response) => {
+    try {
+      const expectedSecret = process.env.SMTP_BOUNCE_SECRET;
+
+      if (!expectedSecret) {
+        console.error('[SMTP Webhook] SMTP_BOUNCE_SECRET is not configured');
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const secret = req.headers['x-webhook-secret'];
+      if (typeof secret !== 'string' || !safeEqual(secret, expectedSecret)) {
+        console.warn('[SMTP Webhook] Missing or invalid X-Webhook-Secret header');
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      if (typeof req.body !== 'string' || req.body.length === 0) {
+        return res.status(400).json({ error: 'Invalid payload format' });
+      }
+
+      const report = parseDsn(req.body);
+
+      if (!report) {
+        console.warn('[SMTP Webhook] Message is not a delivery status notification');
+        // Acknowledge so the forwarder does not retry
+        return res.status(200).json({ received: true, parsed: false });
+      }
+
+      const rawMessageId = report.originalMessageId ?? report.envelopeId;
+      const notification = rawMessageId
+        ? await notificationService.findByExternalMessageId(stripAngleBrackets(rawMessageId))
+        : null;
+
+      if (!notification) {
+        console.warn(
+          `[SMTP Webhook] Notification not found for message ID: ${rawMessageId ?? '(none)'}`
+        );
+        return res.status(200).json({ received: true, found: false });
+      }
+
+      if (report.action !== 'failed') {
+        console.log(
+          `[SMTP Webhook] ${report.action} report for notification ${notification.id}, no change`
+        );
+        return res.status(200).json({ received: true, updated: false });
+      }
+
+      await notificationService.updateStatus(notification.id, 'bounced', {
+        errorMessage: [report.status, report.diagnosticCode].filter(Boolean).join(' ') || 'Bounced',
+      });
+
+      console.log(
+        `[SMTP Webhook] Notification ${notification.id} bounced (${report.status ?? ''})`
+      );
+
+      return res.status(200).json({ received: true, updated: true });
+    } catch (error) {
+      console.error('[SMTP Webhook] Error processing bounce:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,413 @@
+import type {
+  AlertChannel,
+  AlertSettings,
+  ExternalReview as ExternalReviewType,
+  FeedbackAlert as FeedbackAlertType,
+  FeedbackAlertDelivery,
+  FeedbackAlertSource,
+  FeedbackAlertStatus,
+  FeedbackAlertTrigger,
+  Review as ReviewType,
+} from '@easyrate/shared';
+import { ALERT_TEMPLATES, FEEDBACK_ALERTS } from '@easyrate/shared';
+import { FeedbackAlert, type FeedbackAlertDocument } from '../models/FeedbackAlert.js';
+import { Business, type BusinessDocument } from '../models/Business.js';
+import {
+  getEmailProvider,
+  getSmsProvider,
+  isEmailConfigured,
+  isSmsConfigured,
+} from '../providers/index.js';
+import { calculatePagination, type PaginationMeta } from '../utils/response.js';
+import { getLatestLocalTime } from '../utils/sendWindow.js';
+import { getBusinessTimeZone } from '../utils/timezone.js';
+import { templateService } from './TemplateService.js';
+
+function toFeedbackAlertType(doc: FeedbackAlertDocument): FeedbackAlertType {
+  return doc.toJSON() as unknown as FeedbackAlertType;
+}
+
+export interface AlertCandidate {
+  source: FeedbackAlertSource;
+  rating: number;
+  text?: string | undefined;
+}
+
+export interface AlertMatch {
+  triggers: FeedbackAlertTrigger[];
+  matchedKeywords: string[];
+}
+
+export interface AlertAddress {
+  channel: AlertChannel;
+  address: string;
+}
+
+export interface PaginatedFeedbackAlerts {
+  data: FeedbackAlertType[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * Decide which alert rules a review matches. Empty triggers = no alert.
+ */
+export function getAlertTriggers(settings: AlertSettings, candidate: AlertCandidate): AlertMatch {
+  const triggers: FeedbackAlertTrigger[] = [];
+  const matchedKeywords: string[] = [];
+
+  if (candidate.source === 'google_review') {
+    if (settings.googleReviews && candidate.rating <= settings.ratingThreshold) {
+      triggers.push('google_review');
+    }
+    return { triggers, matchedKeywords };
+  }
+
+  if (candidate.rating <= settings.ratingThreshold) {
+    triggers.push('rating');
+  }
+
+  const text = candidate.text?.toLowerCase() ?? '';
+  for (const keyword of settings.keywords) {
+    const normalized = keyword.trim().toLowerCase();
+    if (normalized && text.includes(normalized)) {
+      matchedKeywords.push(keyword.trim());
+    }
+  }
+  if (matchedKeywords.length > 0) {
+    triggers.push('keyword');
+  }
+
+  return { triggers, matchedKeywords };
+}
+
+/**
+ * Resolve owner and staff into unique channel/address pairs
+ */
+export function resolveAlertAddresses(
+  settings: AlertSettings,
+  owner: { email: string; phone?: string | undefined }
+): AlertAddress[] {
+  const addresses: AlertAddress[] = [];
+  const add = (channel: AlertChannel, address: string | undefined) => {
+    if (!address) return;
+    if (!addresses.some((a) => a.channel === channel && a.address === address)) {
+      addresses.push({ channel, address });
+    }
+  };
+
+  if (settings.notifyOwner) {
+    for (const channel of settings.ownerChannels) {
+      add(channel, channel === 'email' ? owner.email : owner.phone);
+    }
+  }
+
+  for (const recipient of settings.recipients) {
+    for (const channel of recipient.channels) {
+      add(channel, channel === 'email' ? recipient.email : recipient.phone);
+    }
+  }
+
+  return addresses;
+}
+
+function toExcerpt(text: string | undefined): string | undefined {
+  const trimmed = text?.trim();
+  if (!trimmed) return undefined;
+  return trimmed.length > FEEDBACK_ALERTS.excerptLength
+    ? `${trimmed.slice(0, FEEDBACK_ALERTS.excerptLength - 1)}…`
+    : trimmed;
+}
+
+function getDashboardLink(): string {
+  const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+  return `${frontendUrl}/dashboard/reviews`;
+}
+
+/**
+ * Service for owner/staff alerts on negative feedback.
+ * Alerts are sent right away or collected for a daily digest, and every alert is
+ * kept as history. Handlers never throw - alerting must not break review intake or sync.
+ */
+export class AlertService {
+  /**
+   * Alert on an internal review submitted through the review flow
+   */
+  async handleReview(businessId: string, review: ReviewType): Promise<void> {
+    try {
+      await this.evaluate(businessId, {
+        source: 'review',
+        rating: review.rating,
+        text: review.feedbackText,
+        reviewId: review.id,
+        customerName: review.customer.name,
+      });
+    } catch (error) {
+      console.error(`[AlertService] Failed to handle review ${review.id}:`, error);
+    }
+  }
+
+  /**
+   * Alert on a newly synced Google review. Old reviews (e.g. from the first sync) are ignored.
+   */
+  async handleExternalReview(businessId: string, review: ExternalReviewType): Promise<void> {
+    try {
+      const ageMs = Date.now() - new Date(review.reviewedAt).getTime();
+      if (ageMs > FEEDBACK_ALERTS.googleMaxAgeHours * 60 * 60 * 1000) {
+        return;
+      }
+
+      await this.evaluate(businessId, {
+        source: 'google_review',
+        rating: review.rating,
+        text: review.reviewText,
+        externalReviewId: review.id,
+        customerName: review.reviewerName,
+      });
+    } catch (error) {
+      console.error(`[AlertService] Failed to handle external review ${review.id}:`, error);
+    }
+  }
+
+  async list(businessId: string, page = 1, limit = 20): Promise<PaginatedFeedbackAlerts> {
+    const skip = (page - 1) * limit;
+
+    const [alerts, total] = await Promise.all([
+      FeedbackAlert.find({ businessId }).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      FeedbackAlert.countDocuments({ businessId }),
+    ]);
+
+    return {
+      data: alerts.map(toFeedbackAlertType),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  /**
+   * Send daily digests that are due. Alerts created before the business' most recent
+   * digest time go into that digest; later alerts wait for the next day.
+   * @returns Number of digests sent
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    const businessIds = await FeedbackAlert.distinct('businessId', { status: 'pending_digest' });
+    let sent = 0;
+
+    for (const businessId of businessIds) {
+      try {
+        const business = await Business.findById(businessId);
+        const settings = business?.settings.alerts;
+
+        if (!business || !settings?.enabled) {
+          // Alerts were turned off while waiting - nothing will ever send these
+          await FeedbackAlert.updateMany(
+            { businessId, status: 'pending_digest' },
+            { status: 'skipped' }
+          );
+          continue;
+        }
+
+        // Switched back to instant delivery - flush everything now
+        const cutoff =
+          settings.deliveryMode === 'digest'
+            ? getLatestLocalTime(now, settings.digestTime, getBusinessTimeZone(business))
+            : now;
+
+        const alerts = await FeedbackAlert.find({
+          businessId,
+          status: 'pending_digest',
+          createdAt: { $lte: cutoff },
+        }).sort({ createdAt: 1 });
+
+        if (alerts.length === 0) {
+          continue;
+        }
+
+        await this.sendDigest(business, settings, alerts);
+        sent++;
+      } catch (error) {
+        console.error(
+          `[AlertService] Failed to send digest for business ${String(businessId)}:`,
+          error
+        );
+      }
+    }
+
+    return sent;
+  }
+
+  private async evaluate(
+    businessId: string,
+    input: AlertCandidate & {
+      reviewId?: string;
+      externalReviewId?: string;
+      customerName?: string | undefined;
+    }
+  ): Promise<void> {
+    const business = await Business.findById(businessId);
+    const settings = business?.settings.alerts;
+    if (!business || !settings?.enabled) {
+      return;
+    }
+
+    const { triggers, matchedKeywords } = getAlertTriggers(settings, input);
+    if (triggers.length === 0) {
+      return;
+    }
+
+    const excerpt = toExcerpt(input.text);
+    const alert = new FeedbackAlert({
+      businessId,
+      source: input.source,
+      rating: input.rating,
+      triggers,
+      matchedKeywords,
+      status: 'pending_digest',
+      ...(input.reviewId && { reviewId: input.reviewId }),
+      ...(input.externalReviewId && { externalReviewId: input.externalReviewId }),
+      ...(excerpt && { excerpt }),
+      ...(input.customerName && { customerName: input.customerName }),
+    });
+
+    if (settings.deliveryMode === 'digest') {
+      await alert.save();
+      return;
+    }
+
+    const addresses = resolveAlertAddresses(settings, business);
+    const vars = {
+      businessName: business.name,
+      reviewLink: getDashboardLink(),
+      rating: String(alert.rating),
+      source: ALERT_TEMPLATES.sources[alert.source],
+      customerName: alert.customerName ?? ALERT_TEMPLATES.anonymousCustomer,
+      reasons: alert.triggers.map((trigger) => ALERT_TEMPLATES.triggers[trigger]).join(', '),
+      // Customer text last so placeholders inside it are never substituted
+      excerpt: alert.excerpt ?? ALERT_TEMPLATES.noText,
+    };
+
+    const deliveries = await this.deliver(addresses, {
+      sms: templateService.render(ALERT_TEMPLATES.sms, vars),
+      subject: templateService.render(ALERT_TEMPLATES.email.subject, vars),
+      body: templateService.render(ALERT_TEMPLATES.email.body, vars),
+    });
+
+    alert.set({
+      status: this.getStatus(deliveries),
+      deliveries,
+      ...(deliveries.some((d) => d.success) && { sentAt: new Date() }),
+    });
+    await alert.save();
+
+    console.log(
+      `[AlertService] Alert ${String(alert._id)} for business ${businessId}: ${alert.status}`
+    );
+  }
+
+  private async sendDigest(
+    business: BusinessDocument,
+    settings: AlertSettings,
+    alerts: FeedbackAlertDocument[]
+  ): Promise<void> {
+    const items = alerts
+      .map((alert) =>
+        templateService.render(ALERT_TEMPLATES.digest.item, {
+          businessName: business.name,
+          reviewLink: getDashboardLink(),
+          rating: String(alert.rating),
+          source: ALERT_TEMPLATES.sources[alert.source],
+          customerName: alert.customerName ?? ALERT_TEMPLATES.anonymousCustomer,
+          excerpt: alert.excerpt ?? ALERT_TEMPLATES.noText,
+        })
+      )
+      .join('\n');
+
+    const vars = {
+      businessName: business.name,
+      reviewLink: getDashboardLink(),
+      count: String(alerts.length),
+      items,
+    };
+
+    const deliveries = await this.deliver(resolveAlertAddresses(settings, business), {
+      sms: templateService.render(ALERT_TEMPLATES.digest.sms, vars),
+      subject: templateService.render(ALERT_TEMPLATES.digest.subject, vars),
+      body: templateService.render(ALERT_TEMPLATES.digest.body, vars),
+    });
+
+    // Nobody got the digest - the alerts stay pending for the next tick until
+    // the attempts run out
+    const sendStatus = this.getStatus(deliveries);
+    const attempts = Math.max(...alerts.map((alert) => alert.digestAttempts)) + 1;
+    const status =
+      sendStatus === 'failed' && attempts < FEEDBACK_ALERTS.maxDigestAttempts
+        ? 'pending_digest'
+        : sendStatus;
+
+    await FeedbackAlert.updateMany(
+      { _id: { $in: alerts.map((alert) => alert._id) } },
+      {
+        status,
+        deliveries,
+        ...(sendStatus === 'failed' && { digestAttempts: attempts }),
+        ...(status === 'sent' && { sentAt: new Date() }),
+      }
+    );
+
+    console.log(
+      `[AlertService] Digest with ${String(alerts.length)} alerts for business ${String(business._id)}: ${status}`
+    );
+  }
+
+  private async deliver(
+    addresses: AlertAddress[],
+    content: { sms: string; subject: string; body: string }
+  ): Promise<FeedbackAlertDelivery[]> {
+    const deliveries: FeedbackAlertDelivery[] = [];
+
+    for (const { channel, address } of addresses) {
+      if (channel === 'sms' ? !isSmsConfigured() : !isEmailConfigured()) {
+        deliveries.push({
+          channel,
+          recipient: address,
+          success: false,
+          error: `${channel === 'sms' ? 'SMS' : 'Email'} provider not configured`,
+        });
+        continue;
+      }
+
+      try {
+        const result =
+          channel === 'sms'
+            ? await getSmsProvider().send({ to: address, content: content.sms })
+            : await getEmailProvider().send({
+                to: address,
+                subject: content.subject,
+                content: content.body,
+                fromName: 'EasyRate',
+              });
+
+        deliveries.push({
+          channel,
+          recipient: address,
+          success: result.success,
+          ...(result.error && { error: result.error }),
+        });
+      } catch (error) {
+        deliveries.push({
+          channel,
+          recipient: address,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return deliveries;
+  }
+
+  private getStatus(deliveries: FeedbackAlertDelivery[]): FeedbackAlertStatus {
+    if (deliveries.length === 0) return 'skipped';
+    return deliveries.some((d) => d.success) ? 'sent' : 'failed';
+  }
+}
+
+export const alertService = new AlertService();
@@ -1,6 +1,9 @@
-import type { CreateBusinessInput, UpdateBusinessInput, Business as BusinessType, IntegrationConfig } from '@easyrate/shared';
+import crypto from 'crypto';
+import type { CreateBusinessInput, UpdateBusinessInput, Business as BusinessType, IntegrationConfig, IntegrationPlatform } from '@easyrate/shared';
+import { DEFAULT_TIMEZONE } from '@easyrate/shared';
 import { Business, BusinessDocument } from '../models/Business.js';
 import { NotFoundError, ConflictError } from '../utils/errors.js';
+import { getBusinessTimeZone } from '../utils/timezone.js';
 
 function toBusinessType(doc: BusinessDocument): BusinessType {
   return doc.toJSON() as unknown as BusinessType;
@@ -18,6 +21,7 @@ export class BusinessService {
       email: input.email,
       phone: input.phone,
       address: input.address,
+      timezone: input.timezone ?? DEFAULT_TIMEZONE,
       settings: {},
       integrations: [],
       messageTemplates: {},
@@ -57,6 +61,7 @@ export class BusinessService {
     if (input.email !== undefined) business.email = input.email;
     if (input.phone !== undefined) business.phone = input.phone;
     if (input.address !== undefined) business.address = input.address;
+    if (input.timezone !== undefined) business.timezone = input.timezone;
 
     // Update settings (deep merge for nested objects like aiSettings)
     if (input.settings) {
@@ -125,7 +130,7 @@ export class BusinessService {
 
   async updateIntegration(
     id: string,
-    platform: 'dully' | 'easytable',
+    platform: IntegrationPlatform,
     config: Partial<IntegrationConfig>
   ): Promise<BusinessType> {
     const business = await Business.findById(id);
@@ -146,6 +151,7 @@ export class BusinessService {
       };
       if (config.apiKey) newIntegration.apiKey = config.apiKey;
       if (config.webhookSecret) newIntegration.webhookSecret = config.webhookSecret;
+      if (config.filterRules) newIntegration.filterRules = config.filterRules;
       business.integrations.push(newIntegration);
     } else {
       // Update existing integration
@@ -165,6 +171,14 @@ export class BusinessService {
       } else if (existing.webhookSecret) {
         updated.webhookSecret = existing.webhookSecret;
       }
+      // Keep the poll cursor so a settings change does not re-fetch or skip bookings
+      if (existing.polling) {
+        updated.polling = existing.polling;
+      }
+      const filterRules = config.filterRules ?? existing.filterRules;
+      if (filterRules) {
+        updated.filterRules = filterRules;
+      }
       business.integrations[integrationIndex] = updated;
     }
 
@@ -172,6 +186,24 @@ export class BusinessService {
     return toBusinessType(business);
   }
 
+  /**
+   * The business' IANA time zone, used for local dates in stats and reports
+   */
+  async getTimeZone(id: string): Promise<string> {
+    const business = await Business.findById(id).select('timezone settings.sendWindow');
+    return getBusinessTimeZone(business);
+  }
+
+  /**
+   * Generate a key for the generic order API and enable the 'api' integration.
+   * The key is what POS systems send as X-API-Key.
+   */
+  async generateOrderApiKey(id: string): Promise<string> {
+    const apiKey = `er_${crypto.randomBytes(24).toString('base64url')}`;
+    await this.updateIntegration(id, 'api', { apiKey, enabled: true });
+    return apiKey;
+  }
+
   async delete(id: string): Promise<void> {
     const result = await Business.findByIdAndDelete(id);
     if (!result) {
@@ -0,0 +1,74 @@
+import type { ContactFrequencySettings, OrderData, QueueSkipReason } from '@easyrate/shared';
+import { Notification } from '../models/Notification.js';
+import { Review } from '../models/Review.js';
+import { getPhoneVariants } from '../utils/phone.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for per-customer contact frequency capping and dedupe across orders
+ */
+export class ContactFrequencyService {
+  /**
+   * Check whether a review request for this order should be skipped.
+   * Returns the skip reason, or null if the request may be sent.
+   */
+  async evaluate(
+    businessId: string,
+    orderData: OrderData,
+    settings: ContactFrequencySettings | undefined
+  ): Promise<QueueSkipReason | null> {
+    if (!settings?.enabled) {
+      return null;
+    }
+
+    const phones = orderData.customerPhone ? getPhoneVariants(orderData.customerPhone) : [];
+    const emails = orderData.customerEmail
+      ? [...new Set([orderData.customerEmail.trim(), orderData.customerEmail.trim().toLowerCase()])]
+      : [];
+
+    if (phones.length === 0 && emails.length === 0) {
+      return null;
+    }
+
+    const now = Date.now();
+
+    // Skip customers who already left a review recently
+    if (settings.skipIfReviewedWithinDays) {
+      const customerMatch: Record<string, unknown>[] = [];
+      if (phones.length > 0) {
+        customerMatch.push({ 'customer.phone': { $in: phones } });
+      }
+      if (emails.length > 0) {
+        customerMatch.push({ 'customer.email': { $in: emails } });
+      }
+
+      const recentReview = await Review.exists({
+        businessId,
+        createdAt: { $gte: new Date(now - settings.skipIfReviewedWithinDays * DAY_MS) },
+        $or: customerMatch,
+      });
+
+      if (recentReview) {
+        return 'recently_reviewed';
+      }
+    }
+
+    // Count earlier review requests (initial messages only - reminders belong to the same request)
+    const previousOrderIds = await Notification.distinct('orderId', {
+      businessId,
+      recipient: { $in: [...phones, ...emails] },
+      orderId: { $ne: orderData.orderId },
+      reminderStep: { $not: { $gt: 0 } },
+      createdAt: { $gte: new Date(now - settings.periodDays * DAY_MS) },
+    });
+
+    if (previousOrderIds.length >= settings.maxRequests) {
+      return 'frequency_cap';
+    }
+
+    return null;
+  }
+}
+
+export const contactFrequencyService = new ContactFrequencyService();
@@ -0,0 +1,528 @@
+import { z } from 'zod';
+import type {
+  CustomerImport as CustomerImportType,
+  CustomerImportListItem,
+  CustomerImportRow,
+  CustomerImportSummary,
+  NotificationType,
+  OrderData,
+  ScheduleCustomerImportInput,
+} from '@easyrate/shared';
+import { CUSTOMER_IMPORTS } from '@easyrate/shared';
+import { Business } from '../models/Business.js';
+import { CustomerImport, type CustomerImportDocument } from '../models/CustomerImport.js';
+import { Notification } from '../models/Notification.js';
+import { OrderQueue } from '../models/OrderQueue.js';
+import { Suppression } from '../models/Suppression.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { getPhoneVariants, toDanishPhone } from '../utils/phone.js';
+import { calculatePagination, type PaginationMeta } from '../utils/response.js';
+import { getNextAllowedSendTime } from '../utils/sendWindow.js';
+import { getBusinessTimeZone } from '../utils/timezone.js';
+import { calculateSmsSegments } from '../utils/smsEncoding.js';
+import { parseSpreadsheet, SpreadsheetParseError } from '../utils/spreadsheet.js';
+import { orderQueueService } from './OrderQueueService.js';
+import { reviewLinkService } from './ReviewLinkService.js';
+import { templateService } from './TemplateService.js';
+
+type ImportColumn = 'name' | 'phone' | 'email' | 'visitDate';
+
+// Header names are compared lowercased with spaces, dashes and underscores removed
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  name: ['navn', 'fuldtnavn', 'kunde', 'kundenavn', 'gæst', 'name', 'fullname', 'customer'],
+  phone: ['telefon', 'telefonnummer', 'tlf', 'tlfnr', 'mobil', 'mobilnummer', 'phone', 'mobile'],
+  email: ['email', 'emailadresse', 'mail', 'emailaddress'],
+  visitDate: ['besøgsdato', 'besøg', 'dato', 'visitdate', 'visit', 'date'],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MAX_NAME_LENGTH = 200;
+
+const emailSchema = z.string().email();
+
+export interface PaginatedCustomerImports {
+  data: CustomerImportListItem[];
+  pagination: PaginationMeta;
+}
+
+function toCustomerImportType(doc: CustomerImportDocument): CustomerImportType {
+  return doc.toJSON() as unknown as CustomerImportType;
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]/g, '');
+}
+
+/**
+ * Find the column index of each known field from the header row
+ */
+export function mapImportColumns(header: string[]): Partial<Record<ImportColumn, number>> {
+  const columns: Partial<Record<ImportColumn, number>> = {};
+
+  header.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell);
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [ImportColumn, string[]][]) {
+      if (columns[column] === undefined && aliases.includes(normalized)) {
+        columns[column] = index;
+      }
+    }
+  });
+
+  return columns;
+}
+
+function toUtcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * Parse a visit date as ISO (2024-01-15), Danish (15-01-2024, 15.01.24, 15/1/2024)
+ * or an Excel date serial. Times are ignored; the date is returned as UTC midnight.
+ */
+export function parseVisitDate(value: string): Date | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  if (iso) {
+    return toUtcDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const danish = /^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})(?:\D|$)/.exec(value);
+  if (danish) {
+    const year = Number(danish[3]);
+    return toUtcDate(year < 100 ? 2000 + year : year, Number(danish[2]), Number(danish[1]));
+  }
+
+  if (/^\d{5}(\.\d+)?$/.test(value)) {
+    return new Date(EXCEL_EPOCH + Math.floor(Number(value)) * DAY_MS);
+  }
+
+  return null;
+}
+
+/**
+ * Validate the rows of an uploaded file and mark duplicates within the file.
+ * Checks against the database (notifications, suppressions) happen in the service.
+ */
+export function parseCustomerRows(cells: string[][], now: Date = new Date()): CustomerImportRow[] {
+  const [header, ...dataRows] = cells;
+  const columns = mapImportColumns(header ?? []);
+
+  if (columns.phone === undefined && columns.email === undefined) {
+    throw new ValidationError('Filen skal have en kolonne med telefon eller email');
+  }
+  if (dataRows.length === 0) {
+    throw new ValidationError('Filen indeholder ingen kunder');
+  }
+  if (dataRows.length > CUSTOMER_IMPORTS.maxRows) {
+    throw new ValidationError(
+      `Filen må højst indeholde ${String(CUSTOMER_IMPORTS.maxRows)} kunder`
+    );
+  }
+
+  const oldestVisit = now.getTime() - CUSTOMER_IMPORTS.maxVisitAgeDays * DAY_MS;
+  const seen = new Map<string, number>();
+
+  return dataRows.map((cellsInRow, index) => {
+    const read = (column: ImportColumn): string =>
+      columns[column] === undefined ? '' : (cellsInRow[columns[column]] ?? '').trim();
+    const row: CustomerImportRow = {
+      rowNumber: index + 2,
+      status: 'valid',
+      reasons: [],
+      channels: [],
+    };
+
+    const name = read('name');
+    if (name) {
+      row.name = name.slice(0, MAX_NAME_LENGTH);
+    }
+
+    const phone = read('phone');
+    if (phone) {
+      const normalized = toDanishPhone(phone);
+      if (normalized) {
+        row.phone = normalized;
+      } else {
+        row.reasons.push(`Ugyldigt dansk telefonnummer: ${phone}`);
+      }
+    }
+
+    const email = read('email');
+    if (email) {
+      if (emailSchema.safeParse(email).success) {
+        row.email = email.toLowerCase();
+      } else {
+        row.reasons.push(`Ugyldig email: ${email}`);
+      }
+    }
+
+    if (!phone && !email) {
+      row.reasons.push('Telefonnummer eller email mangler');
+    }
+
+    const visitDate = read('visitDate');
+    if (visitDate) {
+      const parsed = parseVisitDate(visitDate);
+      if (!parsed) {
+        row.reasons.push(`Ugyldig besøgsdato: ${visitDate}`);
+      } else if (parsed.getTime() > now.getTime()) {
+        row.reasons.push('Besøgsdatoen ligger i fremtiden');
+      } else if (parsed.getTime() < oldestVisit) {
+        row.reasons.push(
+          `Besøget er mere end ${String(CUSTOMER_IMPORTS.maxVisitAgeDays)} dage gammelt`
+        );
+      } else {
+        row.visitDate = parsed;
+      }
+    }
+
+    if (row.reasons.length > 0) {
+      row.status = 'invalid';
+      return row;
+    }
+
+    const keys = [row.phone, row.email].filter((key): key is string => Boolean(key));
+    const firstRow = keys.map((key) => seen.get(key)).find((rowNumber) => rowNumber !== undefined);
+    if (firstRow !== undefined) {
+      row.status = 'duplicate';
+      row.reasons.push(`Samme kunde som række ${String(firstRow)}`);
+      return row;
+    }
+    for (const key of keys) {
+      seen.set(key, row.rowNumber);
+    }
+
+    return row;
+  });
+}
+
+export function summarizeImportRows(
+  rows: CustomerImportRow[]
+): Omit<CustomerImportSummary, 'smsSegments' | 'smsEncoding'> {
+  const count = (status: CustomerImportRow['status']) =>
+    rows.filter((row) => row.status === status).length;
+  const valid = rows.filter((row) => row.status === 'valid');
+
+  return {
+    total: rows.length,
+    valid: valid.length,
+    invalid: count('invalid'),
+    duplicate: count('duplicate'),
+    alreadyContacted: count('already_contacted'),
+    suppressed: count('suppressed'),
+    smsCount: valid.filter((row) => row.channels.includes('sms')).length,
+    emailCount: valid.filter((row) => row.channels.includes('email')).length,
+  };
+}
+
+/**
+ * Service for one-off review request campaigns from an uploaded customer list.
+ * An upload is validated into a preview; scheduling queues the valid rows in the
+ * order queue, spread out over time so a large list is not sent at once.
+ */
+export class CustomerImportService {
+  /**
+   * Parse and validate a CSV/XLSX upload and store it as a preview
+   */
+  async preview(businessId: string, fileName: string, file: Buffer): Promise<CustomerImportType> {
+    const business = await Business.findById(businessId);
+    if (!business) {
+      throw new NotFoundError('Virksomhed ikke fundet');
+    }
+
+    let cells: string[][];
+    try {
+      cells = parseSpreadsheet(file);
+    } catch (error) {
+      if (error instanceof SpreadsheetParseError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+
+    const rows = parseCustomerRows(cells);
+    const candidates = rows.filter((row) => row.status === 'valid');
+
+    const [suppressed, contacted, queued] = await Promise.all([
+      this.findSuppressed(businessId, candidates),
+      this.findContacted(businessId, candidates),
+      this.findQueued(businessId, candidates),
+    ]);
+
+    for (const row of candidates) {
+      const channels: NotificationType[] = [];
+      if (row.phone && business.settings.smsEnabled) channels.push('sms');
+      if (row.email && business.settings.emailEnabled) channels.push('email');
+
+      if (channels.length === 0) {
+        row.status = 'invalid';
+        row.reasons.push(row.phone ? 'SMS er slået fra' : 'Email er slået fra');
+        continue;
+      }
+
+      row.channels = channels.filter(
+        (channel) =>
+          !suppressed.has(`${channel}:${(channel === 'sms' ? row.phone : row.email) ?? ''}`)
+      );
+      if (row.channels.length === 0) {
+        row.status = 'suppressed';
+        row.reasons.push('Kunden har afmeldt sig');
+        continue;
+      }
+
+      const recipients = [...(row.phone ? getPhoneVariants(row.phone) : []), row.email];
+      if (recipients.some((recipient) => recipient && contacted.has(recipient))) {
+        row.status = 'already_contacted';
+        row.reasons.push('Kunden har allerede modtaget en anmeldelsesforespørgsel');
+        row.channels = [];
+      } else if (recipients.some((recipient) => recipient && queued.has(recipient))) {
+        row.status = 'already_contacted';
+        row.reasons.push('Kunden venter allerede på en anmeldelsesforespørgsel');
+        row.channels = [];
+      }
+    }
+
+    // Every SMS has the same length (the review link code has a fixed length),
+    // so one rendered message gives the segment count for all of them
+    const baseUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+    const smsPreview = templateService.buildReviewRequestSms(
+      business.name,
+      business.messageTemplates.sms,
+      `${baseUrl}/r/${reviewLinkService.generateShortCode()}`
+    );
+    const smsInfo = calculateSmsSegments(smsPreview);
+
+    for (const row of rows) {
+      if (row.status === 'valid' && row.channels.includes('sms')) {
+        row.smsSegments = smsInfo.segmentCount;
+      }
+    }
+
+    const counts = summarizeImportRows(rows);
+    const summary: CustomerImportSummary = {
+      ...counts,
+      smsSegments: counts.smsCount * smsInfo.segmentCount,
+      ...(counts.smsCount > 0 && { smsEncoding: smsInfo.encoding }),
+    };
+
+    const customerImport = await CustomerImport.create({
+      businessId,
+      fileName,
+      status: 'preview',
+      rows,
+      summary,
+      ...(counts.smsCount > 0 && { smsPreview }),
+    });
+
+    console.log(
+      `[CustomerImportService] Import ${String(customerImport._id)} for business ${businessId}: ${String(summary.valid)}/${String(summary.total)} valid`
+    );
+
+    return toCustomerImportType(customerImport);
+  }
+
+  /**
+   * Queue the valid rows of a preview, one send every 60/sendsPerHour minutes.
+   * Send times falling outside the business' send window move to the next allowed
+   * time, and the throttling continues from there.
+   */
+  async schedule(
+    businessId: string,
+    importId: string,
+    input: ScheduleCustomerImportInput = {}
+  ): Promise<CustomerImportType> {
+    const customerImport = await this.findDocument(businessId, importId);
+    if (customerImport.status !== 'preview') {
+      throw new ConflictError('Importen er allerede planlagt eller annulleret');
+    }
+
+    const business = await Business.findById(businessId).select('timezone settings.sendWindow');
+    const timeZone = getBusinessTimeZone(business);
+    const sendsPerHour = input.sendsPerHour ?? CUSTOMER_IMPORTS.defaultSendsPerHour;
+    const intervalMs = (60 * 60 * 1000) / sendsPerHour;
+    const now = Date.now();
+    let nextSendAt = new Date(Math.max(input.startAt?.getTime() ?? now, now));
+
+    for (const row of customerImport.rows) {
+      if (row.status !== 'valid') {
+        continue;
+      }
+
+      nextSendAt = getNextAllowedSendTime(nextSendAt, business?.settings.sendWindow, timeZone);
+      const orderData: OrderData = {
+        orderId: `import-${String(customerImport._id)}-${String(row.rowNumber)}`,
+        orderDate: row.visitDate ?? new Date(now),
+        platform: 'import',
+        ...(row.name && { customerName: row.name }),
+        ...(row.phone && { customerPhone: row.phone }),
+        ...(row.email && { customerEmail: row.email }),
+        metadata: { importId: String(customerImport._id), rowNumber: row.rowNumber },
+      };
+
+      const queued = await orderQueueService.enqueue(
+        businessId,
+        orderData,
+        Math.max(0, (nextSendAt.getTime() - Date.now()) / 60000)
+      );
+
+      row.orderId = queued.orderId;
+      row.scheduledFor = queued.scheduledFor;
+      customerImport.firstSendAt ??= queued.scheduledFor;
+      customerImport.lastSendAt = queued.scheduledFor;
+      nextSendAt = new Date(queued.scheduledFor.getTime() + intervalMs);
+    }
+
+    customerImport.status = 'scheduled';
+    customerImport.sendsPerHour = sendsPerHour;
+    customerImport.scheduledAt = new Date();
+    await customerImport.save();
+
+    console.log(
+      `[CustomerImportService] Scheduled ${String(customerImport.summary.valid)} review requests from import ${importId}`
+    );
+
+    return toCustomerImportType(customerImport);
+  }
+
+  /**
+   * Cancel the review requests of a scheduled import that have not been sent yet
+   */
+  async cancel(businessId: string, importId: string): Promise<CustomerImportType> {
+    const customerImport = await this.findDocument(businessId, importId);
+    if (customerImport.status === 'cancelled') {
+      return toCustomerImportType(customerImport);
+    }
+
+    for (const row of customerImport.rows) {
+      if (row.orderId) {
+        await orderQueueService.cancelByOrderId(
+          businessId,
+          row.orderId,
+          'import',
+          'Import annulleret'
+        );
+      }
+    }
+
+    customerImport.status = 'cancelled';
+    customerImport.cancelledAt = new Date();
+    await customerImport.save();
+
+    return toCustomerImportType(customerImport);
+  }
+
+  async get(businessId: string, importId: string): Promise<CustomerImportType> {
+    return toCustomerImportType(await this.findDocument(businessId, importId));
+  }
+
+  async list(businessId: string, page = 1, limit = 20): Promise<PaginatedCustomerImports> {
+    const skip = (page - 1) * limit;
+
+    const [imports, total] = await Promise.all([
+      CustomerImport.find({ businessId })
+        .select('-rows')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      CustomerImport.countDocuments({ businessId }),
+    ]);
+
+    return {
+      data: imports.map((doc) => doc.toJSON() as unknown as CustomerImportListItem),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  private async findDocument(
+    businessId: string,
+    importId: string
+  ): Promise<CustomerImportDocument> {
+    const customerImport = await CustomerImport.findOne({ _id: importId, businessId });
+    if (!customerImport) {
+      throw new NotFoundError('Import ikke fundet');
+    }
+    return customerImport;
+  }
+
+  /**
+   * Suppressed recipients among the rows, as 'channel:value' keys
+   */
+  private async findSuppressed(
+    businessId: string,
+    rows: CustomerImportRow[]
+  ): Promise<Set<string>> {
+    const phones = rows.flatMap((row) => (row.phone ? [row.phone] : []));
+    const emails = rows.flatMap((row) => (row.email ? [row.email] : []));
+    if (phones.length === 0 && emails.length === 0) {
+      return new Set();
+    }
+
+    const suppressions = await Suppression.find({
+      businessId: { $in: [businessId, null] },
+      $or: [
+        { channel: 'sms', value: { $in: phones } },
+        { channel: 'email', value: { $in: emails } },
+      ],
+    }).select('channel value');
+
+    return new Set(suppressions.map((s) => `${s.channel}:${s.value}`));
+  }
+
+  /**
+   * Recipients among the rows that already got a notification from this business
+   */
+  private async findContacted(businessId: string, rows: CustomerImportRow[]): Promise<Set<string>> {
+    const recipients = rows.flatMap((row) => [
+      ...(row.phone ? getPhoneVariants(row.phone) : []),
+      ...(row.email ? [row.email] : []),
+    ]);
+    if (recipients.length === 0) {
+      return new Set();
+    }
+
+    const contacted = await Notification.distinct('recipient', {
+      businessId,
+      recipient: { $in: recipients },
+    });
+    return new Set(contacted.map(String));
+  }
+
+  /**
+   * Recipients among the rows with a review request of this business still
+   * waiting in the order queue, e.g. from an integration or an earlier import
+   */
+  private async findQueued(businessId: string, rows: CustomerImportRow[]): Promise<Set<string>> {
+    const phones = rows.flatMap((row) => (row.phone ? getPhoneVariants(row.phone) : []));
+    const emails = rows.flatMap((row) => (row.email ? [row.email] : []));
+    if (phones.length === 0 && emails.length === 0) {
+      return new Set();
+    }
+
+    const items = await OrderQueue.find({
+      businessId,
+      status: { $in: ['pending', 'processing'] },
+      $or: [
+        { 'orderData.customerPhone': { $in: phones } },
+        { 'orderData.customerEmail': { $in: emails } },
+      ],
+    }).select('orderData.customerPhone orderData.customerEmail');
+
+    return new Set(
+      items.flatMap((item) => [
+        ...(item.orderData.customerPhone ? [item.orderData.customerPhone] : []),
+        ...(item.orderData.customerEmail ? [item.orderData.customerEmail] : []),
+      ])
+    );
+  }
+}
+
+export const customerImportService = new CustomerImportService();
@@ -1,8 +1,10 @@
 import mongoose from 'mongoose';
-import type { GoogleSyncStatus } from '@easyrate/shared';
+import type { ExternalReview as ExternalReviewType, GoogleSyncStatus } from '@easyrate/shared';
 import { Business, BusinessDocument } from '../models/Business.js';
 import { ExternalReview } from '../models/ExternalReview.js';
 import { googleAuthService } from './GoogleAuthService.js';
+import { webhookService } from './WebhookService.js';
+import { alertService } from './AlertService.js';
 import { googleBusinessProvider, type GoogleReview } from '../providers/google/GoogleBusinessProvider.js';
 import { NotFoundError } from '../utils/errors.js';
 
@@ -194,7 +196,8 @@ export class GoogleReviewsSyncService {
   }
 
   /**
-   * Insert or update a review
+   * Insert or update a review.
+   * Emits external_review.synced for new reviews and reviews whose content changed.
    */
   private async upsertReview(
     businessId: string,
@@ -233,6 +236,11 @@ export class GoogleReviewsSyncService {
     };
 
     if (existingReview) {
+      const changed =
+        existingReview.rating !== reviewData.rating ||
+        existingReview.reviewText !== reviewData.reviewText ||
+        existingReview.reply?.text !== reviewData.reply?.text;
+
       // Update existing review
       Object.assign(existingReview, reviewData);
       // Preserve existing attribution
@@ -242,11 +250,23 @@ export class GoogleReviewsSyncService {
         };
       }
       await existingReview.save();
+      if (changed) {
+        void webhookService.emit(businessId, 'external_review.synced', {
+          created: false,
+          review: existingReview.toJSON() as unknown as ExternalReviewType,
+        });
+      }
       return false;
     } else {
       // Create new review
       const newReview = new ExternalReview(reviewData);
       await newReview.save();
+      const created = newReview.toJSON() as unknown as ExternalReviewType;
+      void webhookService.emit(businessId, 'external_review.synced', {
+        created: true,
+        review: created,
+      });
+      void alertService.handleExternalReview(businessId, created);
       return true;
     }
   }
@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { IdempotencyKey } from '../models/IdempotencyKey.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+
+export interface IdempotentResponse<T> {
+  status: number;
+  body: T;
+  replayed: boolean;
+}
+
+const MAX_KEY_LENGTH = 255;
+
+export function hashRequestBody(body: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(body ?? null))
+    .digest('hex');
+}
+
+/**
+ * Service for Idempotency-Key handling on API-key endpoints.
+ * The first request with a key runs the handler and stores its response;
+ * retries with the same key and body get the stored response back.
+ */
+export class IdempotencyService {
+  async run<T>(
+    businessId: string,
+    key: string | undefined,
+    scope: string,
+    body: unknown,
+    handler: () => Promise<{ status: number; body: T }>
+  ): Promise<IdempotentResponse<T>> {
+    if (!key) {
+      return { ...(await handler()), replayed: false };
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new ValidationError(`Idempotency-Key må højst være ${String(MAX_KEY_LENGTH)} tegn`);
+    }
+
+    const requestHash = hashRequestBody(body);
+
+    try {
+      await IdempotencyKey.create({ businessId, key, scope, requestHash });
+    } catch (error) {
+      if (
+        !(error instanceof Error && 'code' in error && (error as { code: number }).code === 11000)
+      ) {
+        throw error;
+      }
+
+      const existing = await IdempotencyKey.findOne({ businessId, key });
+      if (!existing) {
+        // Expired between insert and lookup - treat as a new request
+        return this.run(businessId, key, scope, body, handler);
+      }
+      if (existing.scope !== scope || existing.requestHash !== requestHash) {
+        throw new ConflictError('Idempotency-Key er allerede brugt til en anden forespørgsel');
+      }
+      if (existing.status !== 'completed') {
+        throw new ConflictError('En forespørgsel med denne Idempotency-Key behandles stadig');
+      }
+
+      return {
+        status: existing.responseStatus ?? 200,
+        body: existing.responseBody as T,
+        replayed: true,
+      };
+    }
+
+    try {
+      const response = await handler();
+      await IdempotencyKey.updateOne(
+        { businessId, key },
+        { status: 'completed', responseStatus: response.status, responseBody: response.body }
+      );
+      return { ...response, replayed: false };
+    } catch (error) {
+      // Failed requests are not stored, so the client can retry with the same key
+      await IdempotencyKey.deleteOne({ businessId, key });
+      throw error;
+    }
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
@@ -1,19 +1,35 @@
 import mongoose from 'mongoose';
 import type {
+  AIAnalysisInput,
+  AIAnalysisResult,
+  AIProviderType,
   InsightRun as InsightRunType,
+  InsightReviewSource,
   InsightTrigger,
   InsightStatusResponse,
+  InsightTrendsResponse,
+  ThemeTrend,
+  ThemeTrendPoint,
+  ThemeTrendStatus,
 } from '@easyrate/shared';
+import { DEFAULT_ANALYSIS_LANGUAGE } from '@easyrate/shared';
 import { InsightRun, type InsightRunDocument } from '../models/InsightRun.js';
 import { Review } from '../models/Review.js';
 import { Business } from '../models/Business.js';
+import { ExternalReview } from '../models/ExternalReview.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { calculatePagination, type PaginationMeta } from '../utils/response.js';
+import { canonicalizeThemeKey } from '../utils/themeKey.js';
+import { getBusinessTimeZone, startOfLocalDay } from '../utils/timezone.js';
 import {
   getAIProvider,
+  getFallbackAIProvider,
   isAIConfigured,
   getConfiguredAIProviderName,
 } from '../providers/ProviderFactory.js';
+import { AIResponseError, type AIBatchRequest } from '../providers/ai/index.js';
+import { jobLeaseService } from './JobLeaseService.js';
+import { webhookService } from './WebhookService.js';
 
 // Rate limit: 1 manual refresh per hour
 const MANUAL_REFRESH_COOLDOWN_MS = 60 * 60 * 1000; // 1 hour
@@ -21,6 +37,15 @@ const MANUAL_REFRESH_COOLDOWN_MS = 60 * 60 * 1000; // 1 hour
 // Default analysis period: 30 days
 const DEFAULT_ANALYSIS_DAYS = 30;
 
+// Raw AI answers kept with a failed attempt are cut to this length
+const MAX_RAW_RESPONSE_LENGTH = 10_000;
+
+// Lease on one batch run while its result is stored, covering a real-time fallback analysis
+const BATCH_RUN_LEASE_MS = 5 * 60 * 1000;
+
+// Relative change in a theme's share of reviews before it counts as growing or shrinking
+const THEME_TREND_THRESHOLD = 0.2;
+
 function toInsightRunType(doc: InsightRunDocument): InsightRunType {
   return doc.toJSON() as unknown as InsightRunType;
 }
@@ -30,6 +55,109 @@ export interface PaginatedInsightRuns {
   pagination: PaginationMeta;
 }
 
+function getThemeTrendStatus(
+  current: ThemeTrendPoint | undefined,
+  previous: ThemeTrendPoint | undefined
+): ThemeTrendStatus {
+  if (!current) {
+    return 'resolved';
+  }
+  if (!previous) {
+    return 'new';
+  }
+  // Compare shares rather than counts, so a busier month does not look like a growing problem
+  if (current.share >= previous.share * (1 + THEME_TREND_THRESHOLD)) {
+    return 'growing';
+  }
+  if (current.share <= previous.share * (1 - THEME_TREND_THRESHOLD)) {
+    return 'shrinking';
+  }
+  return 'stable';
+}
+
+/**
+ * Build the sentiment time series and theme trends from completed runs, oldest
+ * first. Theme statuses compare the latest run with the one before it; themes
+ * in neither of the two are left out.
+ */
+export function buildInsightTrends(runs: InsightRunType[]): InsightTrendsResponse {
+  const sentiment = runs.flatMap((run) =>
+    run.overallSentiment
+      ? [
+          {
+            runId: run.id,
+            date: run.dateRange.to,
+            score: run.overallSentiment.score,
+            label: run.overallSentiment.label,
+            avgRating: run.avgRating,
+            reviewCount: run.reviewCount,
+          },
+        ]
+      : []
+  );
+
+  const trends = new Map<string, ThemeTrend>();
+  for (const run of runs) {
+    for (const theme of run.themes) {
+      const key = theme.key ?? canonicalizeThemeKey(theme.name);
+      const trend = trends.get(key) ?? {
+        key,
+        name: theme.name,
+        sentiment: theme.sentiment,
+        severity: theme.severity,
+        status: 'new',
+        customerCount: 0,
+        previousCustomerCount: 0,
+        history: [],
+      };
+      trend.name = theme.name;
+      trend.sentiment = theme.sentiment;
+      trend.severity = theme.severity;
+
+      // Two themes of one run with the same key are counted as one
+      const lastPoint = trend.history.at(-1);
+      const point =
+        lastPoint?.runId === run.id
+          ? lastPoint
+          : { runId: run.id, date: run.dateRange.to, customerCount: 0, mentionCount: 0, share: 0 };
+      point.customerCount += theme.customerCount;
+      point.mentionCount += theme.mentionCount;
+      point.share = run.reviewCount > 0 ? Math.min(1, point.customerCount / run.reviewCount) : 0;
+      if (point !== lastPoint) {
+        trend.history.push(point);
+      }
+
+      trends.set(key, trend);
+    }
+  }
+
+  const latestRun = runs.at(-1);
+  const previousRun = runs.at(-2);
+  const themes: ThemeTrend[] = [];
+  for (const trend of trends.values()) {
+    const current = trend.history.find((point) => point.runId === latestRun?.id);
+    const previous = trend.history.find((point) => point.runId === previousRun?.id);
+    if (!current && !previous) {
+      continue;
+    }
+    trend.status = getThemeTrendStatus(current, previous);
+    trend.customerCount = current?.customerCount ?? 0;
+    trend.previousCustomerCount = previous?.customerCount ?? 0;
+    themes.push(trend);
+  }
+
+  themes.sort(
+    (a, b) => b.customerCount - a.customerCount || b.previousCustomerCount - a.previousCustomerCount
+  );
+
+  return {
+    sentiment,
+    themes,
+    latestRunId: latestRun?.id,
+    previousRunId: previousRun?.id,
+  };
+}
+
 export class InsightsService {
   /**
    * Get the latest completed insight run for a business
@@ -79,6 +207,21 @@ export class InsightsService {
     };
   }
 
+  /**
+   * Get sentiment and theme trends over the latest completed runs with reviews
+   */
+  async getTrends(businessId: string, limit = 12): Promise<InsightTrendsResponse> {
+    const runs = await InsightRun.find({
+      businessId,
+      status: 'completed',
+      reviewCount: { $gt: 0 },
+    })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    return buildInsightTrends(runs.reverse().map(toInsightRunType));
+  }
+
   /**
    * Check if a new insight can be requested (rate limiting)
    */
@@ -145,6 +288,13 @@ export class InsightsService {
    * Create a new pending insight run
    */
   async createRun(businessId: string, triggeredBy: InsightTrigger): Promise<InsightRunType> {
+    return toInsightRunType(await this.createRunDocument(businessId, triggeredBy));
+  }
+
+  private async createRunDocument(
+    businessId: string,
+    triggeredBy: InsightTrigger
+  ): Promise<InsightRunDocument> {
     // Check rate limit for manual requests
     if (triggeredBy === 'manual') {
       const rateLimit = await this.canRequestNewInsight(businessId);
@@ -171,10 +321,9 @@ export class InsightsService {
       throw new NotFoundError('Business not found');
     }
 
-    // Calculate date range (last 30 days)
+    // Calculate date range (last 30 days, from local midnight in the business' time zone)
     const to = new Date();
-    const from = new Date();
-    from.setDate(from.getDate() - DEFAULT_ANALYSIS_DAYS);
+    const from = startOfLocalDay(to, getBusinessTimeZone(business), -DEFAULT_ANALYSIS_DAYS);
 
     // Determine AI provider
     const preferredProvider = business.settings.aiSettings?.provider;
@@ -187,6 +336,7 @@ export class InsightsService {
       reviewCount: 0,
       themes: [],
       aiProvider: preferredProvider === providerName ? preferredProvider : providerName,
+      language: business.settings.aiSettings?.language ?? DEFAULT_ANALYSIS_LANGUAGE,
       modelUsed: '',
       tokensUsed: 0,
       processingTimeMs: 0,
@@ -194,7 +344,7 @@ export class InsightsService {
     });
 
     await run.save();
-    return toInsightRunType(run);
+    return run;
   }
 
   /**
@@ -219,112 +369,195 @@ export class InsightsService {
     await run.save();
 
     try {
-      // Fetch reviews for the date range
-      const reviews = await Review.find({
-        businessId: run.businessId,
-        createdAt: {
-          $gte: run.dateRange.from,
-          $lte: run.dateRange.to,
-        },
-      }).sort({ createdAt: -1 });
+      const analysisInput = await this.prepareAnalysis(run);
+      if (!analysisInput) {
+        return await this.completeRun(run, null, startTime);
+      }
 
-      run.reviewCount = reviews.length;
+      // Get AI provider and analyze, falling back to the other configured provider
+      const result = await this.analyzeWithFallback(run, analysisInput);
 
-      // Calculate actual average rating from reviews
-      if (reviews.length > 0) {
-        const totalRating = reviews.reduce((sum, r) => sum + r.rating, 0);
-        run.avgRating = Math.round((totalRating / reviews.length) * 10) / 10;
-      }
+      return await this.completeRun(run, result, startTime);
+    } catch (error) {
+      await this.failRun(run, error instanceof Error ? error.message : 'Unknown error', startTime);
+
+      console.error('[InsightsService] Processing failed:', error);
+      throw error;
+    }
+  }
 
-      // Check if we have enough reviews
-      if (reviews.length === 0) {
-        run.status = 'completed';
-        run.overallSentiment = {
-          score: 50,
-          label: 'neutral',
-          summary: 'No reviews in the period to analyse.',
-        };
-        run.customerSatisfactionSummary = 'There are no reviews to analyse in the selected period.';
-        run.processingTimeMs = Date.now() - startTime;
+  /**
+   * Create and process a new insight run in one step
+   */
+  async createAndProcess(businessId: string, triggeredBy: InsightTrigger): Promise<InsightRunType> {
+    const run = await this.createRun(businessId, triggeredBy);
+    return this.processRun(run.id);
+  }
+
+  /**
+   * Submit the scheduled refresh as provider batch jobs: a run for each business
+   * needing a refresh, sent together per AI provider at the batch price.
+   * Businesses already waiting for a batch are skipped, and runs without reviews
+   * complete right away. Returns the number of runs submitted.
+   */
+  async submitScheduledBatch(limit: number): Promise<number> {
+    const waiting = await InsightRun.distinct('businessId', {
+      status: 'processing',
+      batchId: { $ne: null },
+    });
+    const businessIds = await this.getBusinessesNeedingRefresh(limit, waiting.map(String));
+
+    const groups = new Map<
+      AIProviderType,
+      { runs: InsightRunDocument[]; requests: AIBatchRequest[] }
+    >();
+
+    for (const businessId of businessIds) {
+      let run: InsightRunDocument | null = null;
+      try {
+        run = await this.createRunDocument(businessId, 'scheduled');
+        run.status = 'processing';
         await run.save();
 
-        // Update business with last insight run
-        await this.updateBusinessInsightRun(String(run.businessId), String(run._id));
+        const analysisInput = await this.prepareAnalysis(run);
+        if (!analysisInput) {
+          await this.completeRun(run, null, run.createdAt.getTime());
+          continue;
+        }
+        await run.save();
 
-        return toInsightRunType(run);
+        const group = groups.get(run.aiProvider) ?? { runs: [], requests: [] };
+        group.runs.push(run);
+        group.requests.push({ customId: String(run._id), input: analysisInput });
+        groups.set(run.aiProvider, group);
+      } catch (error) {
+        console.error(
+          `[InsightsService] Failed to prepare insight for business ${businessId}:`,
+          error
+        );
+        if (run) {
+          await this.failRun(
+            run,
+            error instanceof Error ? error.message : 'Unknown error',
+            run.createdAt.getTime()
+          );
+        }
       }
+    }
 
-      // Get business info
-      const business = await Business.findById(run.businessId);
-      if (!business) {
-        throw new NotFoundError('Business not found');
+    let submitted = 0;
+    for (const [providerName, group] of groups) {
+      try {
+        const batch = await getAIProvider(providerName).submitAnalysisBatch(group.requests);
+        await InsightRun.updateMany(
+          { _id: { $in: group.runs.map((run) => run._id) } },
+          { $set: { batchId: batch.id } }
+        );
+        submitted += group.runs.length;
+      } catch (error) {
+        console.error(`[InsightsService] Failed to submit ${providerName} batch:`, error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        for (const run of group.runs) {
+          await this.failRun(run, message, run.createdAt.getTime());
+        }
       }
+    }
 
-      // Get AI provider and analyze
-      const aiProvider = getAIProvider(run.aiProvider);
-
-      const analysisInput = {
-        reviews: reviews.map((r) => ({
-          rating: r.rating,
-          feedbackText: r.feedbackText,
-          createdAt: r.createdAt,
-          customerId: r.customer.email ?? r.customer.phone ?? undefined,
-        })),
-        businessName: business.name,
-        analysisLanguage: 'da' as const,
-      };
+    return submitted;
+  }
 
-      const result = await aiProvider.analyze(analysisInput);
+  /**
+   * Store the results of finished batch jobs in their insight runs. Each run is
+   * claimed before its result is stored: a failed batch is retried in real time
+   * run by run, which can outlast the job lock, and another instance then
+   * collects the same batch. Returns the number of runs completed or failed.
+   */
+  async collectBatchResults(workerId: string): Promise<number> {
+    const runs = await InsightRun.find({ status: 'processing', batchId: { $ne: null } });
 
-      // Update run with results
-      run.status = 'completed';
-      run.overallSentiment = result.overallSentiment;
-      run.themes = result.themes;
-      if (result.topImprovementPoint) {
-        run.topImprovementPoint = result.topImprovementPoint;
-      }
-      if (result.customerSatisfactionSummary) {
-        run.customerSatisfactionSummary = result.customerSatisfactionSummary;
+    const runsByBatch = new Map<string, InsightRunDocument[]>();
+    for (const run of runs) {
+      if (run.batchId) {
+        runsByBatch.set(run.batchId, [...(runsByBatch.get(run.batchId) ?? []), run]);
       }
-      run.modelUsed = result.modelUsed;
-      run.tokensUsed = result.tokensUsed;
-      run.processingTimeMs = Date.now() - startTime;
-
-      await run.save();
+    }
 
-      // Update business with last insight run
-      await this.updateBusinessInsightRun(String(run.businessId), String(run._id));
+    let finished = 0;
+    for (const [batchId, batchRuns] of runsByBatch) {
+      const [firstRun] = batchRuns;
+      if (!firstRun) {
+        continue;
+      }
 
-      return toInsightRunType(run);
-    } catch (error) {
-      // Mark run as failed
-      run.status = 'failed';
-      run.errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      run.processingTimeMs = Date.now() - startTime;
-      await run.save();
+      try {
+        const aiProvider = getAIProvider(firstRun.aiProvider);
+        const batch = await aiProvider.getBatch(batchId);
+        if (batch.status === 'in_progress') {
+          continue;
+        }
+
+        // The provider's time from submit to end, not the wait until this poll; a
+        // fallback retry adds its own real-time analysis on top
+        const batchTimeMs =
+          (batch.endedAt ?? new Date()).getTime() -
+          (batch.submittedAt ?? firstRun.createdAt).getTime();
+
+        const languages = new Map(batchRuns.map((run) => [String(run._id), run.language]));
+        const results = new Map(
+          (await aiProvider.getBatchResults(batch, languages)).map((entry) => [
+            entry.customId,
+            entry,
+          ])
+        );
 
-      console.error('[InsightsService] Processing failed:', error);
-      throw error;
+        let stored = 0;
+        for (const batchRun of batchRuns) {
+          const run = await jobLeaseService.claim(
+            InsightRun,
+            { _id: batchRun._id, status: 'processing', batchId },
+            workerId,
+            { leaseMs: BATCH_RUN_LEASE_MS }
+          );
+          if (!run) {
+            continue;
+          }
+
+          const entry = results.get(String(run._id));
+          const startTime = Date.now() - batchTimeMs;
+          if (entry?.result) {
+            await this.completeRun(run, entry.result, startTime);
+          } else {
+            const message =
+              entry?.error ?? `Batch job ${batch.status} without a result for this insight`;
+            this.recordFailure(run, run.aiProvider, message, entry?.rawResponse);
+            await this.retryWithFallback(run, message, startTime);
+          }
+          stored++;
+        }
+        finished += stored;
+
+        console.log(
+          `[InsightsService] Batch ${batchId} ${batch.status}: ${String(stored)} insights stored`
+        );
+      } catch (error) {
+        // Retried on the next poll
+        console.error(`[InsightsService] Failed to collect batch ${batchId}:`, error);
+      }
     }
-  }
 
-  /**
-   * Create and process a new insight run in one step
-   */
-  async createAndProcess(businessId: string, triggeredBy: InsightTrigger): Promise<InsightRunType> {
-    const run = await this.createRun(businessId, triggeredBy);
-    return this.processRun(run.id);
+    return finished;
   }
 
   /**
    * Get businesses that need scheduled insight refresh
    * Returns businesses with AI enabled, autoRefresh on, and last run > 7 days ago
    */
-  async getBusinessesNeedingRefresh(limit = 10): Promise<string[]> {
+  async getBusinessesNeedingRefresh(limit = 10, excludeIds: string[] = []): Promise<string[]> {
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
     const businesses = await Business.find({
+      ...(excludeIds.length > 0 && { _id: { $nin: excludeIds } }),
       'settings.aiSettings.enabled': true,
       'settings.aiSettings.autoRefresh': true,
       $or: [
@@ -338,6 +571,248 @@ export class InsightsService {
     return businesses.map((b) => String(b._id));
   }
 
+  /**
+   * Count the run's reviews and build the analysis input, with the synced external
+   * reviews unless the business has turned them off.
+   * Returns null when there are no reviews to analyse.
+   */
+  private async prepareAnalysis(run: InsightRunDocument): Promise<AIAnalysisInput | null> {
+    // Get business info
+    const business = await Business.findById(run.businessId);
+    if (!business) {
+      throw new NotFoundError('Business not found');
+    }
+
+    // Fetch reviews for the date range
+    const reviews = await Review.find({
+      businessId: run.businessId,
+      createdAt: {
+        $gte: run.dateRange.from,
+        $lte: run.dateRange.to,
+      },
+    }).sort({ createdAt: -1 });
+
+    const entries: AIAnalysisInput['reviews'] = [];
+    const entriesByReviewId = new Map<string, AIAnalysisInput['reviews'][number]>();
+    for (const r of reviews) {
+      const entry = {
+        rating: r.rating,
+        feedbackText: r.feedbackText,
+        createdAt: r.createdAt,
+        customerId: r.customer.email ?? r.customer.phone ?? undefined,
+        source: 'easyrate' as const,
+      };
+      entries.push(entry);
+      entriesByReviewId.set(String(r._id), entry);
+    }
+
+    if (business.settings.aiSettings?.includeExternalReviews ?? true) {
+      const externalReviews = await ExternalReview.find({
+        businessId: run.businessId,
+        reviewedAt: {
+          $gte: run.dateRange.from,
+          $lte: run.dateRange.to,
+        },
+      });
+
+      for (const external of externalReviews) {
+        const internalId = external.attribution?.internalReviewId;
+        const internal = internalId ? entriesByReviewId.get(String(internalId)) : undefined;
+        if (internal) {
+          // The same customer's review: counted once, with the public text if ours has none
+          if (!internal.feedbackText && external.reviewText) {
+            internal.feedbackText = external.reviewText;
+            internal.source = external.sourcePlatform;
+          }
+          continue;
+        }
+
+        entries.push({
+          rating: external.rating,
+          feedbackText: external.reviewText,
+          createdAt: external.reviewedAt,
+          source: external.sourcePlatform,
+        });
+      }
+
+      entries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    run.reviewCount = entries.length;
+
+    const reviewCountsBySource: Partial<Record<InsightReviewSource, number>> = {};
+    for (const entry of entries) {
+      reviewCountsBySource[entry.source] = (reviewCountsBySource[entry.source] ?? 0) + 1;
+    }
+    run.reviewCountsBySource = reviewCountsBySource;
+
+    // Calculate actual average rating from reviews
+    if (entries.length > 0) {
+      const totalRating = entries.reduce((sum, r) => sum + r.rating, 0);
+      run.avgRating = Math.round((totalRating / entries.length) * 10) / 10;
+    }
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    // Themes of the previous analysis, so the model keeps their keys
+    const previousRun = await InsightRun.findOne({
+      businessId: run.businessId,
+      status: 'completed',
+      reviewCount: { $gt: 0 },
+    }).sort({ createdAt: -1 });
+    const knownThemes = (previousRun?.themes ?? []).map((theme) => ({
+      key: theme.key ?? canonicalizeThemeKey(theme.name),
+      name: theme.name,
+    }));
+
+    return {
+      reviews: entries,
+      businessName: business.name,
+      analysisLanguage: run.language,
+      ...(knownThemes.length > 0 && { knownThemes }),
+    };
+  }
+
+  /**
+   * Analyse with the run's provider, falling back to the other configured
+   * provider when it fails. Failed attempts are recorded on the run.
+   */
+  private async analyzeWithFallback(
+    run: InsightRunDocument,
+    input: AIAnalysisInput
+  ): Promise<AIAnalysisResult> {
+    try {
+      return await getAIProvider(run.aiProvider).analyze(input);
+    } catch (error) {
+      this.recordFailure(run, run.aiProvider, error);
+      return this.analyzeWithFallbackProvider(run, input, error);
+    }
+  }
+
+  /**
+   * Analyse with the provider to fall back to after `error`, which is rethrown
+   * if there is none. The run's provider becomes the fallback on success.
+   */
+  private async analyzeWithFallbackProvider(
+    run: InsightRunDocument,
+    input: AIAnalysisInput,
+    error: unknown
+  ): Promise<AIAnalysisResult> {
+    const fallback = getFallbackAIProvider(run.aiProvider);
+    if (!fallback) {
+      throw error;
+    }
+
+    console.warn(
+      `[InsightsService] ${run.aiProvider} analysis failed, retrying with ${fallback.getName()}`
+    );
+
+    try {
+      const result = await fallback.analyze(input);
+      run.aiProvider = fallback.getName();
+      return result;
+    } catch (fallbackError) {
+      this.recordFailure(run, fallback.getName(), fallbackError);
+      throw fallbackError;
+    }
+  }
+
+  /**
+   * Analyse a run its batch job gave no result for with the fallback provider
+   * in real time, or fail it with the batch error
+   */
+  private async retryWithFallback(
+    run: InsightRunDocument,
+    message: string,
+    startTime: number
+  ): Promise<void> {
+    try {
+      const analysisInput = await this.prepareAnalysis(run);
+      if (!analysisInput) {
+        await this.completeRun(run, null, startTime);
+        return;
+      }
+
+      const result = await this.analyzeWithFallbackProvider(run, analysisInput, new Error(message));
+      await this.completeRun(run, result, startTime);
+    } catch (error) {
+      await this.failRun(run, error instanceof Error ? error.message : message, startTime);
+    }
+  }
+
+  /**
+   * Record a failed attempt on the run (saved with the run), with the model's
+   * answer when it was unusable
+   */
+  private recordFailure(
+    run: InsightRunDocument,
+    provider: AIProviderType,
+    error: unknown,
+    rawResponse?: string
+  ): void {
+    const raw = error instanceof AIResponseError ? error.rawResponse : rawResponse;
+    run.failures.push({
+      provider,
+      message: error instanceof Error ? error.message : String(error),
+      ...(raw ? { rawResponse: raw.slice(0, MAX_RAW_RESPONSE_LENGTH) } : {}),
+      failedAt: new Date(),
+    });
+  }
+
+  /**
+   * Store the analysis result (null: no reviews in the period) and complete the run
+   */
+  private async completeRun(
+    run: InsightRunDocument,
+    result: AIAnalysisResult | null,
+    startTime: number
+  ): Promise<InsightRunType> {
+    run.status = 'completed';
+
+    if (result) {
+      run.overallSentiment = result.overallSentiment;
+      run.themes = result.themes;
+      if (result.topImprovementPoint) {
+        run.topImprovementPoint = result.topImprovementPoint;
+      }
+      if (result.customerSatisfactionSummary) {
+        run.customerSatisfactionSummary = result.customerSatisfactionSummary;
+      }
+      run.modelUsed = result.modelUsed;
+      run.tokensUsed = result.tokensUsed;
+    } else {
+      run.overallSentiment = {
+        score: 50,
+        label: 'neutral',
+        summary: 'No reviews in the period to analyse.',
+      };
+      run.customerSatisfactionSummary = 'There are no reviews to analyse in the selected period.';
+    }
+
+    run.processingTimeMs = Date.now() - startTime;
+    await run.save();
+
+    // Update business with last insight run
+    await this.updateBusinessInsightRun(String(run.businessId), String(run._id));
+
+    const completedRun = toInsightRunType(run);
+    void webhookService.emit(completedRun.businessId, 'insight_run.completed', completedRun);
+    return completedRun;
+  }
+
+  private async failRun(
+    run: InsightRunDocument,
+    message: string,
+    startTime: number
+  ): Promise<void> {
+    run.status = 'failed';
+    run.errorMessage = message;
+    run.processingTimeMs = Date.now() - startTime;
+    await run.save();
+  }
+
   /**
    * Update business with last insight run info
    */
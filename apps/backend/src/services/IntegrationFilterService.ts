@@ -0,0 +1,198 @@
+import type {
+  FilterRuleResult,
+  IntegrationFilterRule,
+  IntegrationPlatform,
+  OrderData,
+} from '@easyrate/shared';
+import { integrationFilterRuleSchema } from '@easyrate/shared';
+import { Business } from '../models/Business.js';
+import { OrderQueue } from '../models/OrderQueue.js';
+import { orderQueueService, type QueuedOrder } from './OrderQueueService.js';
+
+export interface FilterEvaluation {
+  passed: boolean;
+  results: FilterRuleResult[];
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Tags from order metadata. EasyTable sends { tagID, tagName } objects,
+ * API orders may send plain strings.
+ */
+export function getOrderTags(order: OrderData): string[] {
+  const tags = order.metadata?.tags;
+  if (!Array.isArray(tags)) {
+    return [];
+  }
+
+  return tags.flatMap((tag: unknown) => {
+    if (typeof tag === 'string') return [tag];
+    const name = (tag as { tagName?: unknown } | null)?.tagName;
+    return typeof name === 'string' ? [name] : [];
+  });
+}
+
+/**
+ * Every identifier a table is known by (name, ID and external ID), from
+ * EasyTable's `tables` array or a plain `table` field on API orders
+ */
+export function getOrderTables(order: OrderData): string[] {
+  const { tables, table } = order.metadata ?? {};
+  const identifiers: string[] = [];
+
+  const add = (value: unknown) => {
+    if (typeof value === 'string' && value.trim()) identifiers.push(value);
+    if (typeof value === 'number') identifiers.push(String(value));
+  };
+
+  if (Array.isArray(tables)) {
+    for (const entry of tables as unknown[]) {
+      if (entry && typeof entry === 'object') {
+        const { tableName, tableID, externalID } = entry as Record<string, unknown>;
+        add(tableName);
+        add(tableID);
+        add(externalID);
+      } else {
+        add(entry);
+      }
+    }
+  }
+  add(table);
+
+  return identifiers;
+}
+
+export function getPartySize(order: OrderData): number | undefined {
+  const size = Number(order.metadata?.partySize);
+  return Number.isFinite(size) && size > 0 ? size : undefined;
+}
+
+function evaluateRule(rule: IntegrationFilterRule, order: OrderData): FilterRuleResult {
+  switch (rule.type) {
+    case 'exclude_tags': {
+      const excluded = new Set(rule.tags.map(normalize));
+      const match = getOrderTags(order).find((tag) => excluded.has(normalize(tag)));
+      return match
+        ? { rule, passed: false, detail: `Ordren har det udelukkede tag "${match}"` }
+        : { rule, passed: true, detail: 'Ingen udelukkede tags' };
+    }
+
+    case 'max_party_size': {
+      const size = getPartySize(order);
+      if (size === undefined) {
+        return { rule, passed: true, detail: 'Antal personer er ukendt' };
+      }
+      return size > rule.max
+        ? {
+            rule,
+            passed: false,
+            detail: `Selskabet på ${String(size)} personer er større end ${String(rule.max)}`,
+          }
+        : { rule, passed: true, detail: `Selskabet er på ${String(size)} personer` };
+    }
+
+    case 'min_order_total': {
+      if (order.orderTotal === undefined) {
+        return { rule, passed: true, detail: 'Ordrebeløb er ukendt' };
+      }
+      return order.orderTotal < rule.min
+        ? {
+            rule,
+            passed: false,
+            detail: `Ordrebeløbet ${String(order.orderTotal)} er under ${String(rule.min)}`,
+          }
+        : { rule, passed: true, detail: `Ordrebeløbet er ${String(order.orderTotal)}` };
+    }
+
+    case 'only_tables': {
+      const allowed = new Set(rule.tables.map(normalize));
+      const tables = getOrderTables(order);
+      if (tables.length === 0) {
+        return { rule, passed: false, detail: 'Ordren har intet bord' };
+      }
+      const match = tables.find((table) => allowed.has(normalize(table)));
+      return match
+        ? { rule, passed: true, detail: `Bord ${match} er tilladt` }
+        : {
+            rule,
+            passed: false,
+            detail: `Bord ${tables[0] ?? ''} er ikke blandt de tilladte borde`,
+          };
+    }
+  }
+}
+
+/**
+ * Run every rule against the order. All rules are evaluated, so the trace
+ * shows each rule that rejected the order, not just the first.
+ */
+export function evaluateFilterRules(
+  rules: IntegrationFilterRule[],
+  order: OrderData
+): FilterEvaluation {
+  const results = rules.map((rule) => evaluateRule(rule, order));
+  return { passed: results.every((result) => result.passed), results };
+}
+
+/**
+ * Service for the per-integration filter rules applied before an order is queued.
+ * Filtered orders are stored as skipped queue items with the rule trace.
+ */
+export class IntegrationFilterService {
+  async getRules(
+    businessId: string,
+    platform: IntegrationPlatform
+  ): Promise<IntegrationFilterRule[]> {
+    const business = await Business.findById(businessId).select('integrations');
+    const integration = business?.integrations.find((i) => i.platform === platform);
+
+    // Ignore rules that no longer match the schema rather than blocking every order
+    return (integration?.filterRules ?? []).flatMap((rule) => {
+      const parsed = integrationFilterRuleSchema.safeParse(rule);
+      return parsed.success ? [parsed.data] : [];
+    });
+  }
+
+  /**
+   * Queue the order unless the integration's filter rules exclude it.
+   * Pass `rules` when queueing many orders for the same integration.
+   */
+  async enqueue(
+    businessId: string,
+    order: OrderData,
+    delayMinutes: number,
+    rules?: IntegrationFilterRule[]
+  ): Promise<QueuedOrder> {
+    const activeRules =
+      rules ??
+      (order.platform === 'dully' || order.platform === 'easytable' || order.platform === 'api'
+        ? await this.getRules(businessId, order.platform)
+        : []);
+
+    const evaluation = evaluateFilterRules(activeRules, order);
+    if (!evaluation.passed) {
+      return orderQueueService.enqueueSkipped(businessId, order, 'filtered', evaluation.results);
+    }
+
+    return orderQueueService.enqueue(businessId, order, delayMinutes);
+  }
+
+  /**
+   * Most recent orders excluded by the integration's filter rules
+   */
+  async listFiltered(
+    businessId: string,
+    platform: IntegrationPlatform,
+    limit = 20
+  ): Promise<QueuedOrder[]> {
+    const items = await OrderQueue.find({ businessId, platform, skipReason: 'filtered' })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+    return items.map((item) => item.toJSON() as unknown as QueuedOrder);
+  }
+}
+
+export const integrationFilterService = new IntegrationFilterService();
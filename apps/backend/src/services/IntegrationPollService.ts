@@ -0,0 +1,72 @@
+import type { IntegrationPollRun as IntegrationPollRunType } from '@easyrate/shared';
+import { Business } from '../models/Business.js';
+import {
+  IntegrationPollRun,
+  type IntegrationPollRunDocument,
+} from '../models/IntegrationPollRun.js';
+import { calculatePagination, type PaginationMeta } from '../utils/response.js';
+
+export interface PaginatedPollRuns {
+  data: IntegrationPollRunType[];
+  pagination: PaginationMeta;
+}
+
+export type PollRunInput = Omit<IntegrationPollRunType, 'id' | 'createdAt' | 'platform'>;
+
+function toPollRunType(doc: IntegrationPollRunDocument): IntegrationPollRunType {
+  return doc.toJSON() as unknown as IntegrationPollRunType;
+}
+
+/**
+ * Service for the persisted EasyTable poll cursor and the poll run history.
+ * The cursor lives on the business' integration, so it survives restarts.
+ */
+export class IntegrationPollService {
+  /**
+   * Store the outcome of a poll. The cursor only moves on success, so a failed
+   * poll is retried from the same point.
+   */
+  async recordRun(input: PollRunInput): Promise<IntegrationPollRunType> {
+    const now = new Date();
+    const filter = { _id: input.businessId, 'integrations.platform': 'easytable' };
+
+    if (input.status === 'success' && input.until) {
+      await Business.updateOne(filter, {
+        $set: {
+          'integrations.$.polling': {
+            cursor: input.until,
+            lastPollAt: now,
+            lastSuccessAt: now,
+          },
+        },
+      });
+    } else {
+      await Business.updateOne(filter, {
+        $set: {
+          'integrations.$.polling.lastPollAt': now,
+          'integrations.$.polling.lastError': input.error ?? 'Ukendt fejl',
+        },
+      });
+    }
+
+    const run = await IntegrationPollRun.create({ ...input, platform: 'easytable' });
+    return toPollRunType(run);
+  }
+
+  async list(businessId: string, page = 1, limit = 20): Promise<PaginatedPollRuns> {
+    const skip = (page - 1) * limit;
+    const filter = { businessId, platform: 'easytable' };
+
+    const [runs, total] = await Promise.all([
+      IntegrationPollRun.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      IntegrationPollRun.countDocuments(filter),
+    ]);
+
+    return {
+      data: runs.map(toPollRunType),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+}
+
+export const integrationPollService = new IntegrationPollService();
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import os from 'os';
+import type { HydratedDocument, Model, QueryFilter, UpdateQuery } from 'mongoose';
+import { JobLock } from '../models/JobLock.js';
+
+/**
+ * Fields of a collection whose items are claimed by background processors
+ */
+export interface LeasedDocument {
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+}
+
+export interface ClaimOptions {
+  leaseMs: number;
+  sort?: Record<string, 1 | -1>;
+  set?: Record<string, unknown>; // Extra fields set on the claimed item, e.g. a status
+}
+
+/**
+ * Id of one processor instance. Replicas, and several processors in one
+ * process (as in tests), each get their own, so their leases never mix.
+ */
+export function createWorkerId(name: string): string {
+  return `${name}:${os.hostname()}:${String(process.pid)}:${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Service for lease-based job claiming across backend instances.
+ *
+ * Items are claimed one at a time with findOneAndUpdate, so two workers can
+ * never claim the same item. A lease runs out at lockedUntil: items held by a
+ * worker that crashed are claimable again once it has passed. Named locks
+ * (JobLock) do the same for singleton jobs and leader election.
+ */
+export class JobLeaseService {
+  /**
+   * Claim the first matching item that is not leased by another worker
+   */
+  async claim<T extends LeasedDocument>(
+    model: Model<T>,
+    filter: QueryFilter<T>,
+    workerId: string,
+    options: ClaimOptions
+  ): Promise<HydratedDocument<T> | null> {
+    const now = new Date();
+    const available = {
+      $and: [filter, { $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] }],
+    } as QueryFilter<T>;
+    const update = {
+      $set: {
+        ...options.set,
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + options.leaseMs),
+      },
+    } as UpdateQuery<T>;
+
+    return model.findOneAndUpdate(available, update, {
+      new: true,
+      ...(options.sort && { sort: options.sort }),
+    });
+  }
+
+  /**
+   * Claim up to `limit` matching items
+   */
+  async claimBatch<T extends LeasedDocument>(
+    model: Model<T>,
+    filter: QueryFilter<T>,
+    workerId: string,
+    limit: number,
+    options: ClaimOptions
+  ): Promise<HydratedDocument<T>[]> {
+    const claimed: HydratedDocument<T>[] = [];
+
+    while (claimed.length < limit) {
+      const item = await this.claim(model, filter, workerId, options);
+      if (!item) {
+        break;
+      }
+      claimed.push(item);
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Give up the lease on an item, if this worker still holds it
+   */
+  async release<T extends LeasedDocument>(
+    model: Model<T>,
+    id: string,
+    workerId: string
+  ): Promise<void> {
+    await model.updateOne(
+      { _id: id, lockedBy: workerId } as QueryFilter<T>,
+      {
+        $set: { lockedBy: null, lockedUntil: null },
+      } as UpdateQuery<T>
+    );
+  }
+
+  /**
+   * Take or renew a named lock. Returns false while another worker holds it.
+   */
+  async acquireLock(name: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      await JobLock.findOneAndUpdate(
+        { name, $or: [{ lockedBy: workerId }, { lockedUntil: { $lte: now } }] },
+        { $set: { lockedBy: workerId, lockedUntil: new Date(now.getTime() + leaseMs) } },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      // The lock is held: the filter missed, and the upsert collides with the holder's lock
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async releaseLock(name: string, workerId: string): Promise<void> {
+    await JobLock.deleteOne({ name, lockedBy: workerId });
+  }
+
+  /**
+   * Run a task under a named lock. Returns false, without running it, if another
+   * worker holds the lock.
+   */
+  async runExclusive(
+    name: string,
+    workerId: string,
+    leaseMs: number,
+    task: () => Promise<void>
+  ): Promise<boolean> {
+    if (!(await this.acquireLock(name, workerId, leaseMs))) {
+      return false;
+    }
+
+    try {
+      await task();
+    } finally {
+      await this.releaseLock(name, workerId);
+    }
+
+    return true;
+  }
+}
+
+export const jobLeaseService = new JobLeaseService();
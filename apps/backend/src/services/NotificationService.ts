@@ -4,12 +4,14 @@ import type {
   Notification as NotificationType,
   NotificationStatus,
   NotificationStats,
+  ProviderName,
 } from '@easyrate/shared';
 import type { NotificationDocument } from '../models/Notification.js';
 import { Notification } from '../models/Notification.js';
 import { NotFoundError } from '../utils/errors.js';
 import type { PaginationMeta } from '../utils/response.js';
 import { calculatePagination } from '../utils/response.js';
+import { webhookService } from './WebhookService.js';
 
 function toNotificationType(doc: NotificationDocument): NotificationType {
   return doc.toJSON() as unknown as NotificationType;
@@ -43,6 +45,7 @@ export class NotificationService {
       content: input.content,
       reviewLink: input.reviewLink,
       orderId: input.orderId,
+      reminderStep: input.reminderStep ?? 0,
     });
 
     await notification.save();
@@ -62,6 +65,11 @@ export class NotificationService {
     return notification;
   }
 
+  async findByOrderId(businessId: string, orderId: string): Promise<NotificationType[]> {
+    const notifications = await Notification.find({ businessId, orderId }).sort({ createdAt: 1 });
+    return notifications.map(toNotificationType);
+  }
+
   async findByExternalMessageId(externalMessageId: string): Promise<NotificationType | null> {
     const notification = await Notification.findOne({ externalMessageId });
     return notification ? toNotificationType(notification) : null;
@@ -110,6 +118,7 @@ export class NotificationService {
     options?: {
       externalMessageId?: string;
       errorMessage?: string;
+      provider?: ProviderName;
     }
   ): Promise<NotificationType> {
     const updateData: Record<string, unknown> = { status };
@@ -137,6 +146,9 @@ export class NotificationService {
     if (options?.errorMessage) {
       updateData.errorMessage = options.errorMessage;
     }
+    if (options?.provider) {
+      updateData.provider = options.provider;
+    }
 
     const notification = await Notification.findByIdAndUpdate(id, updateData, { new: true });
 
@@ -144,7 +156,13 @@ export class NotificationService {
       throw new NotFoundError('Notifikation ikke fundet');
     }
 
-    return toNotificationType(notification);
+    const updated = toNotificationType(notification);
+
+    if (status === 'failed' || status === 'bounced') {
+      void webhookService.emit(updated.businessId, 'notification.failed', updated);
+    }
+
+    return updated;
   }
 
   async getStats(
@@ -257,6 +275,10 @@ export class NotificationService {
     return toNotificationType(notification);
   }
 
+  async delete(id: string): Promise<void> {
+    await Notification.deleteOne({ _id: id });
+  }
+
   async findByIds(businessId: string, ids: string[]): Promise<NotificationType[]> {
     const notifications = await Notification.find({
       businessId,
@@ -0,0 +1,186 @@
+import type { ApiIntegrationSettings, ApiOrderInput, OrderData } from '@easyrate/shared';
+import { apiIntegrationSettingsSchema, apiOrderSchema, INTEGRATION_DELAYS } from '@easyrate/shared';
+import { Business } from '../models/Business.js';
+import { ForbiddenError } from '../utils/errors.js';
+import { orderQueueService, type QueuedOrder } from './OrderQueueService.js';
+import { integrationFilterService } from './IntegrationFilterService.js';
+
+export interface AcceptedApiOrder {
+  id: string;
+  orderId: string;
+  status: QueuedOrder['status'];
+  scheduledFor: Date;
+}
+
+export interface ApiOrderBatchResult {
+  index: number;
+  orderId?: string;
+  success: boolean;
+  order?: AcceptedApiOrder;
+  error?: string;
+  details?: unknown;
+}
+
+export interface ApiOrderBatchResponse {
+  accepted: number;
+  rejected: number;
+  results: ApiOrderBatchResult[];
+}
+
+export function toApiOrderData(input: ApiOrderInput): OrderData {
+  return {
+    orderId: input.orderId,
+    orderDate: input.orderDate ?? new Date(),
+    platform: 'api',
+    ...(input.source && { source: input.source }),
+    ...(input.customerName && { customerName: input.customerName }),
+    ...(input.customerEmail && { customerEmail: input.customerEmail }),
+    ...(input.customerPhone && { customerPhone: input.customerPhone }),
+    ...(input.orderTotal !== undefined && { orderTotal: input.orderTotal }),
+    ...(input.completedAt && { completedAt: input.completedAt }),
+    ...(input.metadata && { metadata: input.metadata }),
+  };
+}
+
+/**
+ * Delay before the review request: explicit per-order delay, then the
+ * source's configured delay, then the integration default.
+ */
+export function resolveApiOrderDelay(
+  settings: ApiIntegrationSettings,
+  input: Pick<ApiOrderInput, 'source' | 'delayMinutes'>
+): number {
+  if (input.delayMinutes !== undefined) {
+    return input.delayMinutes;
+  }
+  if (input.source) {
+    const source = input.source.toLowerCase();
+    const match = Object.entries(settings.sourceDelays ?? {}).find(
+      ([name]) => name.toLowerCase() === source
+    );
+    if (match) {
+      return match[1];
+    }
+  }
+  return settings.defaultDelayMinutes ?? INTEGRATION_DELAYS.api;
+}
+
+function toAcceptedOrder(order: QueuedOrder): AcceptedApiOrder {
+  return {
+    id: order.id,
+    orderId: order.orderId,
+    status: order.status,
+    scheduledFor: order.scheduledFor,
+  };
+}
+
+/**
+ * Service for the generic order API used by POS systems without a dedicated integration.
+ * Orders go through OrderQueueService.enqueue like Dully and EasyTable orders.
+ */
+export class OrderApiService {
+  async submit(businessId: string, input: ApiOrderInput): Promise<AcceptedApiOrder> {
+    const settings = await this.getSettings(businessId);
+    const order = await integrationFilterService.enqueue(
+      businessId,
+      toApiOrderData(input),
+      resolveApiOrderDelay(settings, input)
+    );
+    await this.updateTracking(businessId, 1);
+    return toAcceptedOrder(order);
+  }
+
+  /**
+   * Submit several orders. Each order is validated and queued on its own,
+   * so one bad order does not reject the rest.
+   */
+  async submitBatch(businessId: string, orders: unknown[]): Promise<ApiOrderBatchResponse> {
+    const settings = await this.getSettings(businessId);
+    const rules = await integrationFilterService.getRules(businessId, 'api');
+    const results: ApiOrderBatchResult[] = [];
+
+    for (const [index, raw] of orders.entries()) {
+      const parsed = apiOrderSchema.safeParse(raw);
+      if (!parsed.success) {
+        const orderId = (raw as { orderId?: unknown } | null)?.orderId;
+        results.push({
+          index,
+          ...(typeof orderId === 'string' && { orderId }),
+          success: false,
+          error: 'Ugyldig ordre',
+          details: parsed.error.errors,
+        });
+        continue;
+      }
+
+      try {
+        const order = await integrationFilterService.enqueue(
+          businessId,
+          toApiOrderData(parsed.data),
+          resolveApiOrderDelay(settings, parsed.data),
+          rules
+        );
+        results.push({
+          index,
+          orderId: parsed.data.orderId,
+          success: true,
+          order: toAcceptedOrder(order),
+        });
+      } catch (error) {
+        console.error(`[OrderApiService] Failed to queue order ${parsed.data.orderId}:`, error);
+        results.push({
+          index,
+          orderId: parsed.data.orderId,
+          success: false,
+          error: 'Ordren kunne ikke sættes i kø',
+        });
+      }
+    }
+
+    const accepted = results.filter((result) => result.success).length;
+    if (accepted > 0) {
+      await this.updateTracking(businessId, accepted);
+    }
+
+    return { accepted, rejected: results.length - accepted, results };
+  }
+
+  /**
+   * Cancel a pending review request (and any reminders) for an API order
+   */
+  async cancel(
+    businessId: string,
+    orderId: string,
+    reason?: string
+  ): Promise<{ orderId: string; cancelled: boolean }> {
+    await this.getSettings(businessId);
+    const cancelled = await orderQueueService.cancelByOrderId(businessId, orderId, 'api', reason);
+    return { orderId, cancelled: cancelled !== null };
+  }
+
+  /**
+   * Settings of the business' order API integration; fails if it is not enabled
+   */
+  private async getSettings(businessId: string): Promise<ApiIntegrationSettings> {
+    const business = await Business.findById(businessId).select('integrations');
+    const integration = business?.integrations.find((i) => i.platform === 'api');
+    if (!integration?.enabled) {
+      throw new ForbiddenError('Ordre API integrationen er ikke aktiveret');
+    }
+
+    const parsed = apiIntegrationSettingsSchema.safeParse(integration.settings ?? {});
+    return parsed.success ? parsed.data : {};
+  }
+
+  private async updateTracking(businessId: string, count: number): Promise<void> {
+    await Business.updateOne(
+      { _id: businessId, 'integrations.platform': 'api' },
+      {
+        $set: { 'integrations.$.lastWebhookAt': new Date() },
+        $inc: { 'integrations.$.webhookCount': count },
+      }
+    );
+  }
+}
+
+export const orderApiService = new OrderApiService();
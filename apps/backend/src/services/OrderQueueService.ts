@@ -1,35 +1,110 @@
 import mongoose from 'mongoose';
-import type { OrderData } from '@easyrate/shared';
+import type {
+  FilterRuleResult,
+  OrderData,
+  OrderPlatform,
+  OrderQueueItem,
+  OrderQueueStats,
+  OrderQueueStatus,
+  QueueSkipReason,
+} from '@easyrate/shared';
 import { OrderQueue, type OrderQueueDocument } from '../models/OrderQueue.js';
-import { NotFoundError } from '../utils/errors.js';
-
-export interface QueuedOrder {
-  id: string;
-  businessId: string;
-  orderId: string;
-  platform: 'dully' | 'easytable';
-  orderData: OrderData;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
-  scheduledFor: Date;
-  processedAt?: Date;
-  errorMessage?: string;
-  cancelledAt?: Date;
-  cancelReason?: string;
-  createdAt: Date;
-  updatedAt: Date;
+import { Business } from '../models/Business.js';
+import { jobLeaseService } from './JobLeaseService.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { calculatePagination, type PaginationMeta } from '../utils/response.js';
+import { getNextAllowedSendTime } from '../utils/sendWindow.js';
+import { getBusinessTimeZone } from '../utils/timezone.js';
+
+export type QueuedOrder = OrderQueueItem;
+
+export interface OrderQueueFilters {
+  status?: OrderQueueStatus;
+  platform?: OrderPlatform;
+  search?: string; // Order ID, customer name, phone or email
 }
 
+export interface PaginatedQueuedOrders {
+  data: QueuedOrder[];
+  pagination: PaginationMeta;
+}
+
+// Statuses a manual retry applies to
+const RETRYABLE_STATUSES: OrderQueueStatus[] = ['failed', 'dead_letter', 'cancelled'];
+
+// Cleared when an item is manually put back to pending
+const PROCESSING_RESULT_FIELDS = {
+  processedAt: 1,
+  errorMessage: 1,
+  cancelledAt: 1,
+  cancelReason: 1,
+};
+
 function toQueuedOrder(doc: OrderQueueDocument): QueuedOrder {
   return doc.toJSON() as unknown as QueuedOrder;
 }
 
+// Due pending items - the retry wait (nextAttemptAt) must have passed too
+function dueFilter(now: Date) {
+  return {
+    status: 'pending',
+    scheduledFor: { $lte: now },
+    $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: now } }],
+  };
+}
+
+// Unique index from before reminder steps; it blocks every reminder item
+const LEGACY_UNIQUE_INDEX = 'businessId_1_orderId_1_platform_1';
+
+// MongoDB error codes for a missing collection or index
+const NAMESPACE_NOT_FOUND = 26;
+const INDEX_NOT_FOUND = 27;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 export class OrderQueueService {
+  /**
+   * Bring an existing collection's indexes up to date. Drops the unique index on
+   * (businessId, orderId, platform), which rejects reminder steps as duplicates,
+   * and builds the indexes of the schema. Run at startup before the queue processor.
+   */
+  async migrateIndexes(): Promise<void> {
+    try {
+      await OrderQueue.collection.dropIndex(LEGACY_UNIQUE_INDEX);
+      console.log(`[OrderQueueService] Dropped legacy index ${LEGACY_UNIQUE_INDEX}`);
+    } catch (error) {
+      const code = error instanceof Error && 'code' in error ? error.code : undefined;
+      if (code !== NAMESPACE_NOT_FOUND && code !== INDEX_NOT_FOUND) {
+        throw error;
+      }
+    }
+
+    await OrderQueue.createIndexes();
+  }
+
+  /**
+   * Push a scheduled time into the business' next allowed send window (quiet hours)
+   */
+  private async applySendWindow(businessId: string, scheduledFor: Date): Promise<Date> {
+    const business = await Business.findById(businessId).select('timezone settings.sendWindow');
+    return getNextAllowedSendTime(
+      scheduledFor,
+      business?.settings.sendWindow,
+      getBusinessTimeZone(business)
+    );
+  }
+
   async enqueue(
     businessId: string,
     orderData: OrderData,
     delayMinutes: number
   ): Promise<QueuedOrder> {
-    const scheduledFor = new Date(Date.now() + delayMinutes * 60 * 1000);
+    const scheduledFor = await this.applySendWindow(
+      businessId,
+      new Date(Date.now() + delayMinutes * 60 * 1000)
+    );
 
     try {
       const queueItem = new OrderQueue({
@@ -57,6 +132,7 @@ export class OrderQueueService {
           businessId,
           orderId: orderData.orderId,
           platform: orderData.platform,
+          reminderStep: 0,
         });
         if (existing) {
           return toQueuedOrder(existing);
@@ -66,10 +142,97 @@ export class OrderQueueService {
     }
   }
 
-  async getQueuedOrders(
-    status: 'pending' | 'processing' | 'completed' | 'failed',
-    beforeDate?: Date
-  ): Promise<QueuedOrder[]> {
+  /**
+   * Record an order that will never get a review request, e.g. because the
+   * integration's filter rules excluded it. Keeping the item lets the dashboard
+   * explain why, and the unique index stops a re-delivered order from being queued.
+   */
+  async enqueueSkipped(
+    businessId: string,
+    orderData: OrderData,
+    skipReason: QueueSkipReason,
+    skipTrace?: FilterRuleResult[]
+  ): Promise<QueuedOrder> {
+    const now = new Date();
+
+    try {
+      const queueItem = new OrderQueue({
+        businessId,
+        orderId: orderData.orderId,
+        platform: orderData.platform,
+        orderData,
+        status: 'skipped',
+        skipReason,
+        skipTrace,
+        scheduledFor: now,
+        processedAt: now,
+      });
+
+      await queueItem.save();
+      console.log(
+        `[OrderQueueService] Skipped order ${orderData.orderId} for business ${businessId}: ${skipReason}`
+      );
+
+      return toQueuedOrder(queueItem);
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && (error as { code: number }).code === 11000) {
+        const existing = await OrderQueue.findOne({
+          businessId,
+          orderId: orderData.orderId,
+          platform: orderData.platform,
+          reminderStep: 0,
+        });
+        if (existing) {
+          return toQueuedOrder(existing);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Schedule a follow-up reminder step for an already processed order.
+   * Returns null if the step has already been scheduled.
+   */
+  async scheduleReminder(
+    order: QueuedOrder,
+    reminderStep: number,
+    delayMinutes: number
+  ): Promise<QueuedOrder | null> {
+    const scheduledFor = await this.applySendWindow(
+      order.businessId,
+      new Date(Date.now() + delayMinutes * 60 * 1000)
+    );
+
+    try {
+      const queueItem = new OrderQueue({
+        businessId: order.businessId,
+        orderId: order.orderId,
+        platform: order.platform,
+        orderData: order.orderData,
+        status: 'pending',
+        reminderStep,
+        scheduledFor,
+      });
+
+      await queueItem.save();
+      console.log(
+        `[OrderQueueService] Scheduled reminder ${String(reminderStep)} for order ${order.orderId}, scheduled for ${scheduledFor.toISOString()}`
+      );
+
+      return toQueuedOrder(queueItem);
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && (error as { code: number }).code === 11000) {
+        console.log(
+          `[OrderQueueService] Reminder ${String(reminderStep)} for order ${order.orderId} already scheduled, skipping`
+        );
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getQueuedOrders(status: OrderQueueStatus, beforeDate?: Date): Promise<QueuedOrder[]> {
     const query: Record<string, unknown> = { status };
 
     if (beforeDate) {
@@ -80,12 +243,73 @@ export class OrderQueueService {
     return items.map(toQueuedOrder);
   }
 
+  /**
+   * Pending items that are due, leaving out items waiting for their next automatic retry
+   */
   async getDueOrders(): Promise<QueuedOrder[]> {
-    return this.getQueuedOrders('pending', new Date());
+    const items = await OrderQueue.find(dueFilter(new Date())).sort({ scheduledFor: 1 });
+    return items.map(toQueuedOrder);
+  }
+
+  /**
+   * Claim up to `limit` due items for a worker and mark them as processing.
+   * Each item is claimed atomically, so concurrent workers never get the same one.
+   */
+  async claimDueOrders(workerId: string, limit: number, leaseMs: number): Promise<QueuedOrder[]> {
+    const items = await jobLeaseService.claimBatch(
+      OrderQueue,
+      dueFilter(new Date()),
+      workerId,
+      limit,
+      { leaseMs, sort: { scheduledFor: 1 }, set: { status: 'processing', nextAttemptAt: null } }
+    );
+    return items.map(toQueuedOrder);
+  }
+
+  /**
+   * Release a worker's claim once the item has left processing. An item still
+   * processing (its result could not be saved) keeps the lease until it expires
+   * and recoverStaleClaims puts it back in the queue.
+   */
+  async releaseClaim(id: string, workerId: string): Promise<void> {
+    await OrderQueue.updateOne(
+      { _id: id, lockedBy: workerId, status: { $ne: 'processing' } },
+      { lockedBy: null, lockedUntil: null }
+    );
+  }
+
+  /**
+   * Put items back in the queue whose worker died while processing them (the
+   * lease ran out). This counts as an attempt, so the retry does not repeat
+   * messages that were already created.
+   */
+  async recoverStaleClaims(): Promise<number> {
+    const result = await OrderQueue.updateMany(
+      { status: 'processing', lockedUntil: { $lte: new Date() } },
+      {
+        status: 'pending',
+        errorMessage: 'Processing lease expired',
+        nextAttemptAt: null,
+        lockedBy: null,
+        lockedUntil: null,
+        $inc: { attempts: 1 },
+      }
+    );
+
+    if (result.modifiedCount > 0) {
+      console.warn(
+        `[OrderQueueService] Recovered ${String(result.modifiedCount)} items with an expired processing lease`
+      );
+    }
+    return result.modifiedCount;
   }
 
   async markProcessing(id: string): Promise<QueuedOrder> {
-    const item = await OrderQueue.findByIdAndUpdate(id, { status: 'processing' }, { new: true });
+    const item = await OrderQueue.findByIdAndUpdate(
+      id,
+      { status: 'processing', nextAttemptAt: null },
+      { new: true }
+    );
 
     if (!item) {
       throw new NotFoundError(`Queue item ${id} not found`);
@@ -112,7 +336,13 @@ export class OrderQueueService {
   async markFailed(id: string, errorMessage: string): Promise<QueuedOrder> {
     const item = await OrderQueue.findByIdAndUpdate(
       id,
-      { status: 'failed', processedAt: new Date(), errorMessage },
+      {
+        status: 'failed',
+        processedAt: new Date(),
+        errorMessage,
+        nextAttemptAt: null,
+        $inc: { attempts: 1 },
+      },
       { new: true }
     );
 
@@ -124,6 +354,77 @@ export class OrderQueueService {
     return toQueuedOrder(item);
   }
 
+  /**
+   * Put an item back to pending after a retryable error. The retry is held
+   * back until `delayMs` has passed and the business' send window allows it.
+   */
+  async scheduleRetry(
+    order: QueuedOrder,
+    errorMessage: string,
+    delayMs: number
+  ): Promise<QueuedOrder> {
+    const nextAttemptAt = await this.applySendWindow(
+      order.businessId,
+      new Date(Date.now() + delayMs)
+    );
+
+    const item = await OrderQueue.findByIdAndUpdate(
+      order.id,
+      { status: 'pending', errorMessage, nextAttemptAt, $inc: { attempts: 1 } },
+      { new: true }
+    );
+
+    if (!item) {
+      throw new NotFoundError(`Queue item ${order.id} not found`);
+    }
+
+    console.warn(
+      `[OrderQueueService] Retry ${String(item.attempts)} for order ${item.orderId} at ${nextAttemptAt.toISOString()}: ${errorMessage}`
+    );
+    return toQueuedOrder(item);
+  }
+
+  /**
+   * Give up on an item whose retryable error persisted through every retry
+   */
+  async markDeadLetter(id: string, errorMessage: string): Promise<QueuedOrder> {
+    const item = await OrderQueue.findByIdAndUpdate(
+      id,
+      {
+        status: 'dead_letter',
+        processedAt: new Date(),
+        errorMessage,
+        nextAttemptAt: null,
+        $inc: { attempts: 1 },
+      },
+      { new: true }
+    );
+
+    if (!item) {
+      throw new NotFoundError(`Queue item ${id} not found`);
+    }
+
+    console.error(
+      `[OrderQueueService] Moved order ${item.orderId} to dead letter after ${String(item.attempts)} attempts: ${errorMessage}`
+    );
+    return toQueuedOrder(item);
+  }
+
+  async markSkipped(id: string, skipReason: QueueSkipReason): Promise<QueuedOrder> {
+    const item = await OrderQueue.findByIdAndUpdate(
+      id,
+      { status: 'skipped', processedAt: new Date(), skipReason },
+      { new: true }
+    );
+
+    if (!item) {
+      throw new NotFoundError(`Queue item ${id} not found`);
+    }
+
+    console.log(`[OrderQueueService] Skipped order ${item.orderId}: ${skipReason}`);
+    return toQueuedOrder(item);
+  }
+
   async retryFailed(id: string, delayMinutes = 60): Promise<QueuedOrder> {
     const scheduledFor = new Date(Date.now() + delayMinutes * 60 * 1000);
 
@@ -151,25 +452,30 @@ export class OrderQueueService {
   async cancelByOrderId(
     businessId: string,
     orderId: string,
-    platform: 'dully' | 'easytable',
+    platform: OrderPlatform,
     reason?: string
   ): Promise<QueuedOrder | null> {
-    const item = await OrderQueue.findOneAndUpdate(
-      {
-        businessId,
-        orderId,
-        platform,
-        status: 'pending',
-      },
-      {
-        status: 'cancelled',
-        cancelledAt: new Date(),
-        cancelReason: reason,
-      },
-      { new: true }
-    );
+    const filter = {
+      businessId,
+      orderId,
+      platform,
+      status: 'pending',
+    };
+    const update = {
+      status: 'cancelled',
+      cancelledAt: new Date(),
+      cancelReason: reason,
+    };
+
+    const item = await OrderQueue.findOneAndUpdate(filter, update, {
+      new: true,
+      sort: { reminderStep: 1 },
+    });
 
     if (item) {
+      // Also cancel any follow-up reminders still waiting for this order
+      await OrderQueue.updateMany(filter, update);
+
       console.log(
         `[OrderQueueService] Cancelled order ${orderId} for business ${businessId}${reason ? `: ${reason}` : ''}`
       );
@@ -182,23 +488,175 @@ export class OrderQueueService {
     return null;
   }
 
+  /**
+   * List a business' queue items for the dashboard, most recently scheduled first
+   */
+  async list(
+    businessId: string,
+    filters: OrderQueueFilters,
+    page = 1,
+    limit = 20
+  ): Promise<PaginatedQueuedOrders> {
+    const query: Record<string, unknown> = { businessId };
+
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.platform) {
+      query.platform = filters.platform;
+    }
+    if (filters.search?.trim()) {
+      const pattern = { $regex: escapeRegex(filters.search.trim()), $options: 'i' };
+      query.$or = [
+        { orderId: pattern },
+        { 'orderData.customerName': pattern },
+        { 'orderData.customerPhone': pattern },
+        { 'orderData.customerEmail': pattern },
+      ];
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [items, total] = await Promise.all([
+      OrderQueue.find(query).sort({ scheduledFor: -1 }).skip(skip).limit(limit),
+      OrderQueue.countDocuments(query),
+    ]);
+
+    return {
+      data: items.map(toQueuedOrder),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  async findForBusiness(businessId: string, id: string): Promise<QueuedOrder> {
+    const item = await OrderQueue.findOne({ _id: id, businessId });
+
+    if (!item) {
+      throw new NotFoundError('Ordren blev ikke fundet i køen');
+    }
+
+    return toQueuedOrder(item);
+  }
+
+  /**
+   * Explain why a status-guarded update matched nothing: the item is missing
+   * or it is not in a status the action applies to
+   */
+  private async rejectTransition(businessId: string, id: string, message: string): Promise<never> {
+    const item = await this.findForBusiness(businessId, id);
+    throw new ValidationError(message, { status: item.status });
+  }
+
+  /**
+   * Send a failed, dead-lettered or cancelled item again, at the next time the
+   * send window allows. Automatic retries start over.
+   */
+  async retry(businessId: string, id: string): Promise<QueuedOrder> {
+    const scheduledFor = await this.applySendWindow(businessId, new Date());
+
+    const item = await OrderQueue.findOneAndUpdate(
+      { _id: id, businessId, status: { $in: RETRYABLE_STATUSES } },
+      {
+        $set: { status: 'pending', scheduledFor, attempts: 0, nextAttemptAt: null },
+        $unset: PROCESSING_RESULT_FIELDS,
+      },
+      { new: true }
+    );
+
+    if (!item) {
+      return this.rejectTransition(
+        businessId,
+        id,
+        'Kun fejlede eller annullerede ordrer kan sendes igen'
+      );
+    }
+
+    console.log(
+      `[OrderQueueService] Manually retrying order ${item.orderId}, scheduled for ${scheduledFor.toISOString()}`
+    );
+    return toQueuedOrder(item);
+  }
+
+  /**
+   * Send failed and dead-lettered items again in bulk - the given items, or
+   * all of them for the business. Returns the number of items queued.
+   */
+  async retryAllFailed(businessId: string, ids?: string[]): Promise<number> {
+    const scheduledFor = await this.applySendWindow(businessId, new Date());
+
+    const result = await OrderQueue.updateMany(
+      {
+        businessId,
+        status: { $in: ['failed', 'dead_letter'] },
+        ...(ids && { _id: { $in: ids } }),
+      },
+      {
+        $set: { status: 'pending', scheduledFor, attempts: 0, nextAttemptAt: null },
+        $unset: PROCESSING_RESULT_FIELDS,
+      }
+    );
+
+    console.log(
+      `[OrderQueueService] Manually retrying ${String(result.modifiedCount)} failed orders for business ${businessId}`
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Cancel a pending item from the dashboard
+   */
+  async cancel(businessId: string, id: string, reason?: string): Promise<QueuedOrder> {
+    const item = await OrderQueue.findOneAndUpdate(
+      { _id: id, businessId, status: 'pending' },
+      { status: 'cancelled', cancelledAt: new Date(), cancelReason: reason },
+      { new: true }
+    );
+
+    if (!item) {
+      return this.rejectTransition(businessId, id, 'Kun ventende ordrer kan annulleres');
+    }
+
+    console.log(`[OrderQueueService] Manually cancelled order ${item.orderId}`);
+    return toQueuedOrder(item);
+  }
+
+  /**
+   * Move a pending item to another time. The send window still applies, so
+   * a time in quiet hours is pushed to the next allowed time.
+   */
+  async reschedule(businessId: string, id: string, scheduledFor: Date): Promise<QueuedOrder> {
+    const allowedTime = await this.applySendWindow(businessId, scheduledFor);
+
+    const item = await OrderQueue.findOneAndUpdate(
+      { _id: id, businessId, status: 'pending' },
+      // An explicit time replaces a pending automatic retry
+      { scheduledFor: allowedTime, nextAttemptAt: null },
+      { new: true }
+    );
+
+    if (!item) {
+      return this.rejectTransition(businessId, id, 'Kun ventende ordrer kan flyttes');
+    }
+
+    console.log(
+      `[OrderQueueService] Rescheduled order ${item.orderId} to ${allowedTime.toISOString()}`
+    );
+    return toQueuedOrder(item);
+  }
+
   async getPendingCount(businessId: string): Promise<number> {
     return OrderQueue.countDocuments({ businessId, status: 'pending' });
   }
 
-  async getBusinessQueueStats(businessId: string): Promise<{
-    pending: number;
-    processing: number;
-    completed: number;
-    failed: number;
-    cancelled: number;
-  }> {
-    const stats = {
+  async getBusinessQueueStats(businessId: string): Promise<OrderQueueStats> {
+    const stats: OrderQueueStats = {
       pending: 0,
       processing: 0,
       completed: 0,
       failed: 0,
+      dead_letter: 0,
       cancelled: 0,
+      skipped: 0,
     };
 
     const grouped = await OrderQueue.aggregate([
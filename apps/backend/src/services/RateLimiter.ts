@@ -1,6 +1,6 @@
 import { PROVIDER_RATE_LIMITS, type ProviderName } from '@easyrate/shared';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
 }
@@ -24,14 +24,17 @@ export class RateLimiter {
   }
 
   /**
-   * Create a rate limiter for a specific provider
+   * Create a rate limiter for a specific provider, optionally overriding its default limits
    */
-  static forProvider(providerName: ProviderName): RateLimiter {
+  static forProvider(
+    providerName: ProviderName,
+    overrides: Partial<RateLimitConfig> = {}
+  ): RateLimiter {
     const config = PROVIDER_RATE_LIMITS[providerName];
     if (!config) {
       throw new Error(`Unknown provider: ${providerName}`);
     }
-    return new RateLimiter(config);
+    return new RateLimiter({ ...config, ...overrides });
   }
 
   /**
@@ -159,13 +162,16 @@ export class RateLimiter {
   }
 }
 
-// Singleton rate limiters for each provider
+// Singleton rate limiters for each provider - providers never share a limit
 const rateLimiters: Map<ProviderName, RateLimiter> = new Map();
 
-export function getRateLimiter(providerName: ProviderName): RateLimiter {
+export function getRateLimiter(
+  providerName: ProviderName,
+  overrides?: Partial<RateLimitConfig>
+): RateLimiter {
   let limiter = rateLimiters.get(providerName);
   if (!limiter) {
-    limiter = RateLimiter.forProvider(providerName);
+    limiter = RateLimiter.forProvider(providerName, overrides);
     rateLimiters.set(providerName, limiter);
   }
   return limiter;
@@ -0,0 +1,64 @@
+import type {
+  Notification as NotificationType,
+  ReminderSettings,
+  ReminderStep,
+} from '@easyrate/shared';
+import { orderQueueService, type QueuedOrder } from './OrderQueueService.js';
+
+/**
+ * Notification statuses that mean the customer has acted on a review request.
+ * Once any notification for an order reaches one of these, no further reminders are sent.
+ */
+const ENGAGED_STATUSES: ReadonlySet<NotificationType['status']> = new Set(['clicked', 'converted']);
+
+/**
+ * Service for multi-step follow-up reminder sequences.
+ *
+ * Reminder steps are scheduled as OrderQueue items with reminderStep > 0,
+ * one step at a time, each relative to the previous message in the sequence.
+ */
+export class ReminderService {
+  /**
+   * Resolve the configuration for a reminder step (1-based).
+   * Returns null if reminders are disabled, the step is not configured,
+   * or sending it would exceed maxAttempts.
+   */
+  getStep(settings: ReminderSettings | undefined, reminderStep: number): ReminderStep | null {
+    if (!settings?.enabled || reminderStep < 1) {
+      return null;
+    }
+
+    // maxAttempts counts the initial request as the first attempt
+    if (reminderStep + 1 > settings.maxAttempts) {
+      return null;
+    }
+
+    return settings.steps[reminderStep - 1] ?? null;
+  }
+
+  /**
+   * Check whether the customer has clicked or converted on any message for the order
+   */
+  hasEngaged(notifications: Pick<NotificationType, 'status'>[]): boolean {
+    return notifications.some((notification) => ENGAGED_STATUSES.has(notification.status));
+  }
+
+  /**
+   * Schedule the reminder step following the given queue item, if one is configured
+   */
+  async scheduleNext(
+    order: QueuedOrder,
+    settings: ReminderSettings | undefined
+  ): Promise<QueuedOrder | null> {
+    const nextStep = order.reminderStep + 1;
+    const step = this.getStep(settings, nextStep);
+
+    if (!step) {
+      return null;
+    }
+
+    return orderQueueService.scheduleReminder(order, nextStep, step.delayHours * 60);
+  }
+}
+
+export const reminderService = new ReminderService();
@@ -0,0 +1,410 @@
+import type {
+  NotificationStats,
+  PerformanceReport as PerformanceReportType,
+  PerformanceReportData,
+  ReportFrequency,
+} from '@easyrate/shared';
+import {
+  DEFAULT_BRANDING,
+  PERFORMANCE_REPORTS,
+  REPORT_TEMPLATES,
+  REVIEW_THRESHOLDS,
+} from '@easyrate/shared';
+import mongoose from 'mongoose';
+import { Business, type BusinessDocument } from '../models/Business.js';
+import { ExternalReview } from '../models/ExternalReview.js';
+import { PerformanceReport, type PerformanceReportDocument } from '../models/PerformanceReport.js';
+import { getEmailProvider, isEmailConfigured } from '../providers/index.js';
+import { escapeHtml, isHttpUrl } from '../utils/html.js';
+import { calculatePagination, type PaginationMeta } from '../utils/response.js';
+import { getLastCompletedPeriod, getLatestLocalTime } from '../utils/sendWindow.js';
+import { getBusinessTimeZone } from '../utils/timezone.js';
+import { insightsService } from './InsightsService.js';
+import { notificationService } from './NotificationService.js';
+import { reviewService } from './ReviewService.js';
+import { templateService } from './TemplateService.js';
+
+function toPerformanceReportType(doc: PerformanceReportDocument): PerformanceReportType {
+  return doc.toJSON() as unknown as PerformanceReportType;
+}
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface RenderedReport {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface PaginatedPerformanceReports {
+  data: PerformanceReportType[];
+  pagination: PaginationMeta;
+}
+
+function getDashboardLink(): string {
+  const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+  return `${frontendUrl}/dashboard`;
+}
+
+function toPercent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+/**
+ * Human readable period, e.g. "8. jan. - 14. jan. 2024" or "januar 2024"
+ */
+export function formatReportPeriod(
+  period: ReportPeriod,
+  frequency: ReportFrequency,
+  timeZone: string
+): string {
+  const lastDay = new Date(period.end.getTime() - 1);
+
+  if (frequency === 'monthly') {
+    return new Intl.DateTimeFormat('da-DK', { timeZone, month: 'long', year: 'numeric' }).format(
+      period.start
+    );
+  }
+
+  const dayMonth = new Intl.DateTimeFormat('da-DK', { timeZone, day: 'numeric', month: 'short' });
+  const year = new Intl.DateTimeFormat('da-DK', { timeZone, year: 'numeric' }).format(lastDay);
+  return `${dayMonth.format(period.start)} - ${dayMonth.format(lastDay)} ${year}`;
+}
+
+/**
+ * Render the report email. All values are escaped for the HTML version.
+ */
+export function renderPerformanceReport(input: {
+  businessName: string;
+  primaryColor?: string | undefined;
+  logoUrl?: string | undefined;
+  frequency: ReportFrequency;
+  periodLabel: string;
+  data: PerformanceReportData;
+}): RenderedReport {
+  const { data } = input;
+  const labels = REPORT_TEMPLATES.labels;
+  const formatRating = (rating: number) =>
+    rating > 0 ? rating.toFixed(1).replace('.', ',') : REPORT_TEMPLATES.noReviews;
+  const formatTrend = (trend: number) =>
+    trend > 0 ? ` (+${String(trend)}%)` : trend < 0 ? ` (${String(trend)}%)` : '';
+
+  const rows: [string, string][] = [
+    [labels.reviews, `${String(data.reviews.total)}${formatTrend(data.reviews.volumeTrend)}`],
+    [
+      labels.avgRating,
+      `${formatRating(data.reviews.avgRating)} (${formatRating(data.reviews.previousAvgRating)})`,
+    ],
+    [labels.negative, String(data.reviews.negative)],
+    [
+      labels.smsConversion,
+      `${String(data.notifications.smsConversionRate)}% · ${String(data.notifications.smsSent)} ${REPORT_TEMPLATES.sent}`,
+    ],
+    [
+      labels.emailConversion,
+      `${String(data.notifications.emailConversionRate)}% · ${String(data.notifications.emailSent)} ${REPORT_TEMPLATES.sent}`,
+    ],
+    [
+      labels.googleNew,
+      `${String(data.google.newReviews)} (${formatRating(data.google.avgRating)})`,
+    ],
+    [labels.googleUnanswered, String(data.google.unanswered)],
+  ];
+
+  const base = {
+    businessName: input.businessName,
+    reviewLink: getDashboardLink(),
+    periodTitle: REPORT_TEMPLATES.periodTitles[input.frequency],
+    periodLabel: input.periodLabel,
+  };
+  const insightVars = data.insight && {
+    sentiment: REPORT_TEMPLATES.sentiments[data.insight.sentiment],
+    // AI output last so placeholders inside it are never substituted
+    headline: data.insight.headline,
+  };
+
+  const subject = templateService.render(REPORT_TEMPLATES.subject, base);
+
+  const text = templateService.render(REPORT_TEMPLATES.text, {
+    ...base,
+    rows: rows
+      .map(([label, value]) =>
+        templateService.render(REPORT_TEMPLATES.textRow, { ...base, label, value })
+      )
+      .join('\n'),
+    insight: insightVars
+      ? templateService.render(REPORT_TEMPLATES.textInsight, { ...base, ...insightVars })
+      : '',
+  });
+
+  const htmlBase = {
+    businessName: escapeHtml(input.businessName),
+    reviewLink: escapeHtml(base.reviewLink),
+    periodTitle: escapeHtml(base.periodTitle),
+    periodLabel: escapeHtml(base.periodLabel),
+    primaryColor:
+      input.primaryColor && /^#[0-9A-Fa-f]{6}$/.test(input.primaryColor)
+        ? input.primaryColor
+        : DEFAULT_BRANDING.primaryColor,
+  };
+  const html = templateService.render(REPORT_TEMPLATES.html, {
+    ...htmlBase,
+    logo:
+      input.logoUrl && isHttpUrl(input.logoUrl)
+        ? `<img src="${escapeHtml(input.logoUrl)}" alt="${htmlBase.businessName}" style="max-height:48px;margin-bottom:12px;">`
+        : '',
+    rows: rows
+      .map(([label, value]) =>
+        templateService.render(REPORT_TEMPLATES.row, {
+          ...htmlBase,
+          label: escapeHtml(label),
+          value: escapeHtml(value),
+        })
+      )
+      .join('\n'),
+    insight: insightVars
+      ? templateService.render(REPORT_TEMPLATES.insight, {
+          ...htmlBase,
+          sentiment: escapeHtml(insightVars.sentiment),
+          headline: escapeHtml(insightVars.headline),
+        })
+      : '',
+  });
+
+  return { subject, html, text };
+}
+
+/**
+ * Service for scheduled weekly/monthly performance report emails.
+ * Reports cover the last completed local week or month and are logged per period,
+ * so each period is sent at most once.
+ */
+export class ReportService {
+  /**
+   * Collect the report numbers for a period
+   */
+  async buildReportData(
+    businessId: string,
+    period: ReportPeriod,
+    previous: ReportPeriod
+  ): Promise<PerformanceReportData> {
+    // getStats ranges are inclusive
+    const range = { from: period.start, to: new Date(period.end.getTime() - 1) };
+    const previousRange = { from: previous.start, to: new Date(previous.end.getTime() - 1) };
+    const businessObjectId = new mongoose.Types.ObjectId(businessId);
+
+    const [stats, previousStats, notificationStats, googleStats, unanswered, insight] =
+      await Promise.all([
+        reviewService.getStats(businessId, range),
+        reviewService.getStats(businessId, previousRange),
+        notificationService.getStats(businessId, range),
+        ExternalReview.aggregate<{ count: number; avgRating: number }>([
+          {
+            $match: {
+              businessId: businessObjectId,
+              reviewedAt: { $gte: period.start, $lt: period.end },
+            },
+          },
+          { $group: { _id: null, count: { $sum: 1 }, avgRating: { $avg: '$rating' } } },
+        ]),
+        ExternalReview.countDocuments({ businessId: businessObjectId, reply: null }),
+        insightsService.getLatest(businessId),
+      ]);
+
+    const volumeTrend =
+      previousStats.total > 0
+        ? Math.round(((stats.total - previousStats.total) / previousStats.total) * 100)
+        : 0;
+    const negative = REVIEW_THRESHOLDS.negative.reduce(
+      (sum, rating) => sum + (stats.byRating[rating] ?? 0),
+      0
+    );
+    const [google] = googleStats;
+    const headline =
+      insight?.topImprovementPoint ??
+      insight?.overallSentiment?.summary ??
+      insight?.customerSatisfactionSummary;
+
+    return {
+      reviews: {
+        total: stats.total,
+        avgRating: stats.avgRating,
+        previousAvgRating: previousStats.avgRating,
+        volumeTrend,
+        negative,
+      },
+      notifications: this.getConversion(notificationStats),
+      google: {
+        newReviews: google?.count ?? 0,
+        avgRating: google ? Math.round(google.avgRating * 10) / 10 : 0,
+        unanswered,
+      },
+      ...(insight?.overallSentiment &&
+        headline && {
+          insight: {
+            headline,
+            sentiment: insight.overallSentiment.label,
+            generatedAt: insight.createdAt,
+          },
+        }),
+    };
+  }
+
+  /**
+   * Send every report whose period ended before today's send hour (local time).
+   * Reports missed for longer than maxSendDelayDays are not sent late.
+   * @returns Number of reports sent
+   */
+  async sendDueReports(now: Date = new Date()): Promise<number> {
+    const businesses = await Business.find({ 'settings.reports.enabled': true });
+    const sendTime = `${String(PERFORMANCE_REPORTS.sendHour).padStart(2, '0')}:00`;
+    const maxDelayMs = PERFORMANCE_REPORTS.maxSendDelayDays * 24 * 60 * 60 * 1000;
+    let sent = 0;
+
+    for (const business of businesses) {
+      try {
+        const frequency = business.settings.reports?.frequency ?? 'weekly';
+        const timeZone = getBusinessTimeZone(business);
+        const period = getLastCompletedPeriod(now, frequency, timeZone);
+
+        const isDue =
+          getLatestLocalTime(now, sendTime, timeZone) >= period.end &&
+          now.getTime() - period.end.getTime() <= maxDelayMs &&
+          business.createdAt < period.end;
+        if (!isDue) {
+          continue;
+        }
+
+        // A failed report is retried on later runs within the max delay
+        const exists = await PerformanceReport.exists({
+          businessId: business._id,
+          frequency,
+          periodStart: period.start,
+          status: { $ne: 'failed' },
+        });
+        if (exists) {
+          continue;
+        }
+
+        const report = await this.sendReport(business, frequency, period);
+        if (report.status === 'sent') {
+          sent++;
+        }
+      } catch (error) {
+        console.error(
+          `[ReportService] Failed to send report for business ${String(business._id)}:`,
+          error
+        );
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Build, render, send and log the report for one period. A retry replaces
+   * the period's failed log entry.
+   */
+  async sendReport(
+    business: BusinessDocument,
+    frequency: ReportFrequency,
+    period: ReportPeriod
+  ): Promise<PerformanceReportType> {
+    const businessId = String(business._id);
+    const timeZone = getBusinessTimeZone(business);
+    const previous = getLastCompletedPeriod(
+      new Date(period.start.getTime() - 1),
+      frequency,
+      timeZone
+    );
+    const data = await this.buildReportData(businessId, period, previous);
+
+    const configured = business.settings.reports?.recipients ?? [];
+    const recipients = configured.length > 0 ? configured : [business.email];
+
+    const { subject, html, text } = renderPerformanceReport({
+      businessName: business.name,
+      primaryColor: business.branding.primaryColor,
+      logoUrl: business.branding.logoUrl,
+      frequency,
+      periodLabel: formatReportPeriod(period, frequency, timeZone),
+      data,
+    });
+
+    const errors: string[] = [];
+    let delivered = 0;
+    if (!isEmailConfigured()) {
+      errors.push('Email provider not configured');
+    } else {
+      for (const to of recipients) {
+        try {
+          const result = await getEmailProvider().send({
+            to,
+            subject,
+            content: text,
+            html,
+            fromName: 'EasyRate',
+          });
+          if (result.success) {
+            delivered++;
+          } else {
+            errors.push(`${to}: ${result.error ?? 'Unknown error'}`);
+          }
+        } catch (error) {
+          errors.push(`${to}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    // Sent when at least one recipient got it
+    const status = delivered > 0 ? 'sent' : 'failed';
+    const report = await PerformanceReport.findOneAndUpdate(
+      { businessId: business._id, frequency, periodStart: period.start },
+      {
+        $set: {
+          periodEnd: period.end,
+          recipients,
+          status,
+          data,
+          ...(errors.length > 0 && { error: errors.join('; ') }),
+        },
+        ...(errors.length === 0 && { $unset: { error: 1 } }),
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    console.log(
+      `[ReportService] ${frequency} report for business ${businessId} (${period.start.toISOString()}): ${status}`
+    );
+
+    return toPerformanceReportType(report);
+  }
+
+  async list(businessId: string, page = 1, limit = 20): Promise<PaginatedPerformanceReports> {
+    const skip = (page - 1) * limit;
+
+    const [reports, total] = await Promise.all([
+      PerformanceReport.find({ businessId }).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      PerformanceReport.countDocuments({ businessId }),
+    ]);
+
+    return {
+      data: reports.map(toPerformanceReportType),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  private getConversion(stats: NotificationStats): PerformanceReportData['notifications'] {
+    return {
+      smsSent: stats.smsSent,
+      emailSent: stats.emailSent,
+      smsConversionRate: toPercent(stats.smsConverted, stats.smsSent),
+      emailConversionRate: toPercent(stats.emailConverted, stats.emailSent),
+    };
+  }
+}
+
+export const reportService = new ReportService();
@@ -8,13 +8,16 @@ import type {
   ResponseGenerationStatus,
   InternalFeedbackMetrics,
 } from '@easyrate/shared';
-import { EMAIL_TEMPLATES } from '@easyrate/shared';
+import { DEFAULT_ANALYSIS_LANGUAGE, EMAIL_TEMPLATES, REVIEW_THRESHOLDS } from '@easyrate/shared';
 import { Review, ReviewDocument } from '../models/Review.js';
 import { ResponseGenerationLog } from '../models/ResponseGenerationLog.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { calculatePagination, PaginationMeta } from '../utils/response.js';
 import { getEmailProvider, isEmailConfigured, getAIProvider, isAIConfigured } from '../providers/ProviderFactory.js';
 import { businessService } from './BusinessService.js';
+import { resolveEmailSender } from './SenderIdentityService.js';
+import { webhookService } from './WebhookService.js';
+import { alertService } from './AlertService.js';
 
 const DAILY_GENERATION_LIMIT = 50;
 
@@ -59,7 +62,15 @@ export class ReviewService {
     });
 
     await review.save();
-    return toReviewType(review);
+    const created = toReviewType(review);
+
+    void webhookService.emit(businessId, 'review.created', created);
+    if ((REVIEW_THRESHOLDS.negative as readonly number[]).includes(created.rating)) {
+      void webhookService.emit(businessId, 'review.negative', created);
+    }
+    void alertService.handleReview(businessId, created);
+
+    return created;
   }
 
   async findById(businessId: string, id: string): Promise<ReviewType | null> {
@@ -178,6 +189,8 @@ export class ReviewService {
     const bySource: Record<string, number> = {
       dully: 0,
       easytable: 0,
+      api: 0,
+      import: 0,
       direct: 0,
     };
     for (const src of sourceAggregation) {
@@ -326,12 +339,12 @@ export class ReviewService {
       .replace('{{businessName}}', business.name);
 
     // Send email
-    const emailProvider = getEmailProvider();
+    const emailProvider = getEmailProvider(business.settings.emailProvider);
     const sendResult = await emailProvider.send({
       to: review.customer.email,
       subject,
       content: body,
-      fromName: business.name,
+      ...resolveEmailSender(business),
     });
 
     if (!sendResult.success) {
@@ -360,7 +373,11 @@ export class ReviewService {
     review.response = responseData;
 
     await review.save();
-    return toReviewType(review);
+    const replied = toReviewType(review);
+
+    void webhookService.emit(businessId, 'review.replied', replied);
+
+    return replied;
   }
 
   async getResponseGenerationStatus(businessId: string): Promise<ResponseGenerationStatus> {
@@ -428,6 +445,7 @@ export class ReviewService {
         customerName: review.customer?.name || undefined,
       },
       businessName: business.name,
+      language: business.settings.aiSettings?.language ?? DEFAULT_ANALYSIS_LANGUAGE,
     });
 
     // Log the generation for rate limiting
@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+import type {
+  Business as BusinessType,
+  SenderDomain,
+  SenderIdentity,
+  UpdateSenderIdentityInput,
+} from '@easyrate/shared';
+import { Business } from '../models/Business.js';
+import type { BusinessDocument } from '../models/Business.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+
+// TXT record a business publishes to prove it owns its sending domain
+const VERIFICATION_RECORD_PREFIX = '_easyrate';
+const VERIFICATION_TOKEN_PREFIX = 'easyrate-verify=';
+
+export interface EmailSender {
+  fromName: string;
+  from?: string; // Unset = the provider's default address
+}
+
+type SenderSource = Pick<BusinessType, 'name' | 'senderIdentity'>;
+
+export function getDomainOfEmail(email: string): string {
+  return (email.split('@')[1] ?? '').toLowerCase();
+}
+
+/**
+ * Host name of the TXT record holding the verification token
+ */
+export function getVerificationRecordName(domain: string): string {
+  return `${VERIFICATION_RECORD_PREFIX}.${domain}`;
+}
+
+/**
+ * Email sender for a business. The custom address is only used once its
+ * domain is verified - until then mail goes out from the provider's address,
+ * with the business' display name. The email providers also fall back to their
+ * own address when they refuse the custom one (e.g. a domain not set up there).
+ */
+export function resolveEmailSender(business: SenderSource): EmailSender {
+  const identity = business.senderIdentity;
+  const sender: EmailSender = { fromName: identity?.fromName ?? business.name };
+
+  if (
+    identity?.fromEmail &&
+    identity.domain?.status === 'verified' &&
+    identity.domain.name === getDomainOfEmail(identity.fromEmail)
+  ) {
+    sender.from = identity.fromEmail;
+  }
+
+  return sender;
+}
+
+/**
+ * SMS sender ID for a business, falling back to its name (providers cut it to 11 characters)
+ */
+export function resolveSmsSender(business: SenderSource): string {
+  return business.senderIdentity?.smsSenderId ?? business.name;
+}
+
+export class SenderIdentityService {
+  async get(businessId: string): Promise<SenderIdentity> {
+    const business = await this.findBusiness(businessId);
+    return this.toSenderIdentity(business);
+  }
+
+  /**
+   * Update the sender fields. A new sending domain starts over as pending
+   * with a fresh verification token.
+   */
+  async update(businessId: string, input: UpdateSenderIdentityInput): Promise<SenderIdentity> {
+    const business = await this.findBusiness(businessId);
+    const merged: SenderIdentity = { ...this.toSenderIdentity(business), ...input };
+
+    if (input.fromEmail !== undefined) {
+      merged.fromEmail = input.fromEmail.toLowerCase();
+
+      const domainName = getDomainOfEmail(merged.fromEmail);
+      if (!domainName) {
+        delete merged.domain;
+      } else if (merged.domain?.name !== domainName) {
+        merged.domain = {
+          name: domainName,
+          status: 'pending',
+          verificationToken: `${VERIFICATION_TOKEN_PREFIX}${crypto.randomBytes(16).toString('hex')}`,
+        };
+      }
+    }
+
+    // Empty strings clear a field
+    const identity = Object.fromEntries(
+      Object.entries(merged).filter(([, value]) => value !== '')
+    ) as SenderIdentity;
+
+    business.senderIdentity = identity;
+    business.markModified('senderIdentity');
+    await business.save();
+
+    return this.toSenderIdentity(business);
+  }
+
+  /**
+   * Look up the verification TXT record and record the outcome
+   */
+  async verifyDomain(businessId: string): Promise<SenderIdentity> {
+    const business = await this.findBusiness(businessId);
+    const identity = this.toSenderIdentity(business);
+    const domain = identity.domain;
+
+    if (!domain) {
+      throw new ValidationError('Der er ikke angivet en afsenderadresse med eget domæne', {
+        code: 'NO_SENDER_DOMAIN',
+      });
+    }
+
+    const recordName = getVerificationRecordName(domain.name);
+    const now = new Date();
+    const checked: SenderDomain = { ...domain, lastCheckedAt: now };
+
+    try {
+      const records = await dns.resolveTxt(recordName);
+      // Long TXT values are split into chunks, which belong together
+      const found = records.some((chunks) => chunks.join('').trim() === domain.verificationToken);
+
+      if (found) {
+        checked.status = 'verified';
+        checked.verifiedAt = now;
+        delete checked.lastError;
+      } else {
+        checked.status = 'failed';
+        checked.lastError = `TXT-record på ${recordName} indeholder ikke verifikationskoden`;
+      }
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      checked.status = 'failed';
+      checked.lastError =
+        code === dns.NOTFOUND || code === dns.NODATA
+          ? `Ingen TXT-record fundet på ${recordName}`
+          : `DNS-opslag fejlede (${code ?? 'ukendt fejl'})`;
+    }
+
+    console.log(
+      `[SenderIdentityService] Domain ${domain.name} for business ${businessId}: ${checked.status}`
+    );
+
+    business.senderIdentity = { ...identity, domain: checked };
+    business.markModified('senderIdentity');
+    await business.save();
+
+    return this.toSenderIdentity(business);
+  }
+
+  private async findBusiness(businessId: string): Promise<BusinessDocument> {
+    const business = await Business.findById(businessId);
+    if (!business) {
+      throw new NotFoundError('Virksomhed ikke fundet');
+    }
+    return business;
+  }
+
+  private toSenderIdentity(business: BusinessDocument): SenderIdentity {
+    return (business.toJSON() as unknown as BusinessType).senderIdentity ?? {};
+  }
+}
+
+export const senderIdentityService = new SenderIdentityService();
@@ -0,0 +1,233 @@
+import jwt from 'jsonwebtoken';
+import type {
+  CreateSuppressionInput,
+  NotificationType,
+  Suppression as SuppressionType,
+  SuppressionReason,
+  UnsubscribeTokenPayload,
+} from '@easyrate/shared';
+import { Suppression, type SuppressionDocument } from '../models/Suppression.js';
+import { Notification } from '../models/Notification.js';
+import { Business } from '../models/Business.js';
+import { NotFoundError } from '../utils/errors.js';
+import { calculatePagination, type PaginationMeta } from '../utils/response.js';
+import { getPhoneVariants, normalizePhone } from '../utils/phone.js';
+
+// Use dedicated secret or fall back to JWT_SECRET
+const UNSUBSCRIBE_SECRET =
+  process.env.UNSUBSCRIBE_SECRET ??
+  process.env.JWT_SECRET ??
+  'development-unsubscribe-secret-change-in-production';
+
+// Inbound SMS replies that opt the sender out (matched on the first word, case-insensitive)
+const STOP_KEYWORDS = ['STOP', 'STOPP', 'AFMELD', 'UNSUBSCRIBE'];
+
+function toSuppressionType(doc: SuppressionDocument): SuppressionType {
+  return doc.toJSON() as unknown as SuppressionType;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Normalize a recipient so the same customer always maps to one suppression entry
+ */
+export function normalizeSuppressionValue(channel: NotificationType, value: string): string {
+  return channel === 'sms' ? normalizePhone(value) : value.trim().toLowerCase();
+}
+
+export interface SuppressionFilters {
+  channel?: NotificationType;
+  search?: string;
+}
+
+export interface PaginatedSuppressions {
+  data: SuppressionType[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * Service for the suppression list (opt-outs).
+ * Suppressed recipients never receive review requests - checked both when orders are
+ * turned into notifications and right before a notification is sent.
+ */
+export class SuppressionService {
+  /**
+   * Check whether a recipient is suppressed for a business (business or global entry)
+   */
+  async isSuppressed(
+    businessId: string,
+    channel: NotificationType,
+    value: string
+  ): Promise<boolean> {
+    const suppression = await Suppression.exists({
+      businessId: { $in: [businessId, null] },
+      channel,
+      value: normalizeSuppressionValue(channel, value),
+    });
+    return suppression !== null;
+  }
+
+  /**
+   * Add a recipient to the suppression list. Adding an existing entry is a no-op.
+   * @param businessId - Business scope, or null for a global suppression
+   */
+  async add(
+    businessId: string | null,
+    input: CreateSuppressionInput,
+    reason: SuppressionReason
+  ): Promise<SuppressionType> {
+    const value = normalizeSuppressionValue(input.channel, input.value);
+
+    const suppression = await Suppression.findOneAndUpdate(
+      { businessId, channel: input.channel, value },
+      {
+        $setOnInsert: {
+          businessId,
+          channel: input.channel,
+          value,
+          reason,
+          ...(input.note && { note: input.note }),
+        },
+      },
+      { upsert: true, new: true }
+    );
+
+    return toSuppressionType(suppression);
+  }
+
+  /**
+   * Remove a business-scoped suppression. Global entries cannot be removed by a business.
+   */
+  async remove(businessId: string, id: string): Promise<void> {
+    const result = await Suppression.deleteOne({ _id: id, businessId });
+    if (result.deletedCount === 0) {
+      throw new NotFoundError('Afmelding ikke fundet');
+    }
+  }
+
+  async list(
+    businessId: string,
+    filters: SuppressionFilters,
+    page = 1,
+    limit = 20
+  ): Promise<PaginatedSuppressions> {
+    const query: Record<string, unknown> = { businessId };
+
+    if (filters.channel) {
+      query.channel = filters.channel;
+    }
+    if (filters.search) {
+      query.value = { $regex: escapeRegex(filters.search.trim().toLowerCase()) };
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [suppressions, total] = await Promise.all([
+      Suppression.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      Suppression.countDocuments(query),
+    ]);
+
+    return {
+      data: suppressions.map(toSuppressionType),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  /**
+   * Generate the token used in email unsubscribe links.
+   * Tokens do not expire - an unsubscribe link must keep working for old emails.
+   */
+  generateUnsubscribeToken(payload: UnsubscribeTokenPayload): string {
+    return jwt.sign(payload, UNSUBSCRIBE_SECRET);
+  }
+
+  /**
+   * Verify and decode an unsubscribe token
+   * @returns Decoded payload or null if invalid
+   */
+  verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+    try {
+      const decoded = jwt.verify(token, UNSUBSCRIBE_SECRET) as UnsubscribeTokenPayload &
+        jwt.JwtPayload;
+      return { businessId: decoded.businessId, email: decoded.email };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Resolve an unsubscribe token to the business name and email shown on the landing page
+   */
+  async resolveUnsubscribeToken(
+    token: string
+  ): Promise<{ businessId: string; businessName: string; email: string }> {
+    const payload = this.verifyUnsubscribeToken(token);
+    if (!payload) {
+      throw new NotFoundError('Ugyldigt afmeldingslink');
+    }
+
+    const business = await Business.findById(payload.businessId).select('name');
+    if (!business) {
+      throw new NotFoundError('Ugyldigt afmeldingslink');
+    }
+
+    return { businessId: payload.businessId, businessName: business.name, email: payload.email };
+  }
+
+  /**
+   * Unsubscribe the email address embedded in an unsubscribe token
+   */
+  async unsubscribe(token: string): Promise<{ businessName: string; email: string }> {
+    const { businessId, businessName, email } = await this.resolveUnsubscribeToken(token);
+
+    await this.add(businessId, { channel: 'email', value: email }, 'unsubscribe');
+    console.log(`[SuppressionService] ${email} unsubscribed from business ${businessId}`);
+
+    return { businessName, email };
+  }
+
+  /**
+   * Check whether an inbound SMS is an opt-out reply
+   */
+  isStopMessage(text: string): boolean {
+    const firstWord = text.trim().split(/\s+/)[0]?.toUpperCase() ?? '';
+    return STOP_KEYWORDS.includes(firstWord.replace(/[^A-ZÆØÅ]/g, ''));
+  }
+
+  /**
+   * Handle an inbound SMS reply. STOP replies suppress the sender for the business
+   * that most recently texted them. Replies from numbers no business has texted are
+   * ignored, so a forged STOP cannot block a number for every business.
+   * @returns The created suppression, or null if the message was not an opt-out
+   */
+  async handleInboundSms(from: string, text: string): Promise<SuppressionType | null> {
+    if (!this.isStopMessage(text)) {
+      return null;
+    }
+
+    const lastSms = await Notification.findOne({
+      type: 'sms',
+      recipient: { $in: getPhoneVariants(from) },
+    })
+      .sort({ createdAt: -1 })
+      .select('businessId');
+
+    if (!lastSms) {
+      console.warn(`[SuppressionService] Ignoring STOP reply from ${from}: no SMS was sent to it`);
+      return null;
+    }
+
+    const businessId = String(lastSms.businessId);
+    const suppression = await this.add(businessId, { channel: 'sms', value: from }, 'sms_stop');
+
+    console.log(
+      `[SuppressionService] ${suppression.value} opted out via SMS (business ${businessId})`
+    );
+
+    return suppression;
+  }
+}
+
+export const suppressionService = new SuppressionService();
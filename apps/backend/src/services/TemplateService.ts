@@ -1,5 +1,14 @@
-import { SMS_TEMPLATES, EMAIL_TEMPLATES, SMS_ENCODING } from '@easyrate/shared';
+import type { ReviewRating } from '@easyrate/shared';
+import {
+  SMS_TEMPLATES,
+  EMAIL_TEMPLATES,
+  SMS_ENCODING,
+  DEFAULT_BRANDING,
+  REVIEW_EMAIL_LAYOUT,
+  REVIEW_THRESHOLDS,
+} from '@easyrate/shared';
 import { requiresUcs2Encoding, calculateSmsSegments, type SmsEncodingInfo } from '../utils/smsEncoding.js';
+import { escapeHtml, isHttpUrl } from '../utils/html.js';
 
 export interface TemplateVariables {
   customerName?: string;
@@ -11,6 +20,34 @@ export interface TemplateVariables {
 export type SmsTemplateType = keyof typeof SMS_TEMPLATES;
 export type EmailTemplateType = keyof typeof EMAIL_TEMPLATES;
 
+export interface ReviewEmailInput {
+  businessName: string;
+  body: string; // The rendered plain text template
+  reviewLink?: string | undefined; // Adds the star row - omit for emails without a review link
+  footer?: string | undefined;
+  primaryColor?: string | undefined;
+  logoUrl?: string | undefined;
+}
+
+export interface RenderedEmail {
+  html: string;
+  text: string; // Plain text alternative
+}
+
+const RATINGS: readonly ReviewRating[] = [
+  ...REVIEW_THRESHOLDS.negative,
+  ...REVIEW_THRESHOLDS.positive,
+];
+
+/**
+ * Landing page link with the rating preselected
+ */
+export function buildRatingLink(reviewLink: string, rating: ReviewRating): string {
+  const url = new URL(reviewLink);
+  url.searchParams.set('rating', String(rating));
+  return url.toString();
+}
+
 interface TemplateValidationResult {
   valid: boolean;
   errors: string[];
@@ -167,6 +204,20 @@ export class TemplateService {
     return this.render(template, variables);
   }
 
+  /**
+   * Review request SMS as sent by the order queue: the business' own template,
+   * or a default naming the business. Only {link} is replaced.
+   */
+  buildReviewRequestSms(
+    businessName: string,
+    customTemplate: string | undefined,
+    reviewLink: string
+  ): string {
+    const template =
+      customTemplate ?? `Tak for dit besøg hos ${businessName}! Del venligst din oplevelse: {link}`;
+    return template.replace('{link}', reviewLink);
+  }
+
   /**
    * Render the default email review request template
    */
@@ -182,6 +233,101 @@ export class TemplateService {
     };
   }
 
+  /**
+   * Wrap a review request in the business' branded HTML layout with a
+   * one-click star row, and build the matching plain text alternative
+   */
+  renderReviewRequestEmail(input: ReviewEmailInput): RenderedEmail {
+    const layout = REVIEW_EMAIL_LAYOUT;
+    const primaryColor =
+      input.primaryColor && /^#[0-9A-Fa-f]{6}$/.test(input.primaryColor)
+        ? input.primaryColor
+        : DEFAULT_BRANDING.primaryColor;
+    const reviewLink = input.reviewLink && isHttpUrl(input.reviewLink) ? input.reviewLink : '';
+    const stars = reviewLink
+      ? RATINGS.map((rating) => ({
+          label: layout.starLabels[rating],
+          url: buildRatingLink(reviewLink, rating),
+        }))
+      : [];
+    const footer = input.footer ?? '';
+    // Business and customer text goes last, so placeholders inside it are never substituted
+    const base = { reviewLink, ratingTitle: layout.ratingTitle, ratingHint: layout.ratingHint };
+
+    const text = this.render(layout.text, {
+      ...base,
+      ratingRow:
+        stars.length > 0
+          ? this.render(layout.textRatingRow, {
+              ...base,
+              businessName: input.businessName,
+              stars: stars
+                .map((star) => this.render(layout.textStar, { ...base, ...star, businessName: '' }))
+                .join('\n'),
+            })
+          : '',
+      footer,
+      businessName: input.businessName,
+      body: input.body.trim(),
+    });
+
+    const htmlBase = { ...base, primaryColor, businessName: escapeHtml(input.businessName) };
+    const html = this.render(layout.html, {
+      primaryColor,
+      reviewLink: '',
+      header:
+        input.logoUrl && isHttpUrl(input.logoUrl)
+          ? this.render(layout.logo, { ...htmlBase, logoUrl: escapeHtml(input.logoUrl) })
+          : this.render(layout.title, htmlBase),
+      ratingRow:
+        stars.length > 0
+          ? this.render(layout.ratingRow, {
+              ...htmlBase,
+              stars: stars
+                .map((star) =>
+                  this.render(layout.star, {
+                    ...htmlBase,
+                    label: star.label,
+                    url: escapeHtml(star.url),
+                  })
+                )
+                .join(''),
+            })
+          : '',
+      footer: this.formatHtmlText(footer, primaryColor),
+      businessName: htmlBase.businessName,
+      body: input.body
+        .split(/\n\s*\n/)
+        .map((paragraph) => paragraph.trim())
+        .filter((paragraph) => paragraph.length > 0)
+        .map((paragraph) =>
+          this.render(layout.paragraph, {
+            ...htmlBase,
+            text: this.formatHtmlText(paragraph, primaryColor),
+          })
+        )
+        .join('\n      '),
+    });
+
+    return { html, text };
+  }
+
+  /**
+   * Escape plain text for HTML, turning URLs into links and line breaks into <br>
+   */
+  private formatHtmlText(text: string, primaryColor: string): string {
+    return escapeHtml(text)
+      .replace(/https?:\/\/[^\s<]*[^\s<.,;:!?)]/g, (url) =>
+        this.render(REVIEW_EMAIL_LAYOUT.link, {
+          businessName: '',
+          reviewLink: '',
+          primaryColor,
+          url,
+        })
+      )
+      .replace(/\n/g, '<br>');
+  }
+
   /**
    * Get a preview of what the template will look like with sample data
    */
@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import type {
+  CreateWebhookEndpointInput,
+  UpdateWebhookEndpointInput,
+  WebhookDelivery as WebhookDeliveryType,
+  WebhookEndpoint as WebhookEndpointType,
+  WebhookEventPayload,
+  WebhookEventType,
+} from '@easyrate/shared';
+import { WEBHOOK_DELIVERY } from '@easyrate/shared';
+import { WebhookEndpoint, type WebhookEndpointDocument } from '../models/WebhookEndpoint.js';
+import { WebhookDelivery, type WebhookDeliveryDocument } from '../models/WebhookDelivery.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { calculatePagination, type PaginationMeta } from '../utils/response.js';
+import { signSvixPayload } from '../utils/svix.js';
+import { getBlockedWebhookReason, webhookDispatcher } from '../utils/webhookUrl.js';
+
+// Response bodies are not stored, only a short excerpt of errors
+const MAX_ERROR_LENGTH = 500;
+
+function toEndpointType(doc: WebhookEndpointDocument): WebhookEndpointType {
+  return doc.toJSON() as unknown as WebhookEndpointType;
+}
+
+function toDeliveryType(doc: WebhookDeliveryDocument): WebhookDeliveryType {
+  return doc.toJSON() as unknown as WebhookDeliveryType;
+}
+
+async function assertWebhookUrlAllowed(url: string): Promise<void> {
+  const reason = await getBlockedWebhookReason(url);
+  if (reason) {
+    throw new ValidationError('Webhook URL skal pege på en offentlig https adresse', { reason });
+  }
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64')}`;
+}
+
+/**
+ * Headers for a signed delivery (Standard Webhooks / svix compatible, so receivers
+ * can verify with any svix library)
+ */
+export function buildWebhookHeaders(
+  secret: string,
+  eventId: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  const ts = String(timestamp);
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'EasyRate-Webhooks/1.0',
+    'webhook-id': eventId,
+    'webhook-timestamp': ts,
+    'webhook-signature': `v1,${signSvixPayload(secret, eventId, ts, body)}`,
+  };
+}
+
+/**
+ * Time of the next attempt after a failed one, or null when all retries are used up
+ * @param attempts - Number of attempts made so far (including the failed one)
+ */
+export function getNextWebhookAttempt(attempts: number, now: Date = new Date()): Date | null {
+  const delayMinutes = WEBHOOK_DELIVERY.retryDelaysMinutes[attempts - 1];
+  if (delayMinutes === undefined) {
+    return null;
+  }
+  return new Date(now.getTime() + delayMinutes * 60 * 1000);
+}
+
+export interface PaginatedWebhookDeliveries {
+  data: WebhookDeliveryType[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * Service for outgoing webhooks.
+ * Events are stored as one delivery per subscribed endpoint and sent by the
+ * webhook delivery processor, so emitting never blocks the caller.
+ */
+export class WebhookService {
+  async listEndpoints(businessId: string): Promise<WebhookEndpointType[]> {
+    const endpoints = await WebhookEndpoint.find({ businessId }).sort({ createdAt: 1 });
+    return endpoints.map(toEndpointType);
+  }
+
+  /**
+   * Create an endpoint. The signing secret is only returned here.
+   */
+  async createEndpoint(
+    businessId: string,
+    input: CreateWebhookEndpointInput
+  ): Promise<WebhookEndpointType> {
+    const count = await WebhookEndpoint.countDocuments({ businessId });
+    if (count >= WEBHOOK_DELIVERY.maxEndpointsPerBusiness) {
+      throw new ValidationError(
+        `Der kan højst oprettes ${String(WEBHOOK_DELIVERY.maxEndpointsPerBusiness)} webhooks`
+      );
+    }
+
+    await assertWebhookUrlAllowed(input.url);
+
+    const secret = generateSecret();
+    const endpoint = await WebhookEndpoint.create({ ...input, businessId, secret });
+
+    return { ...toEndpointType(endpoint), secret };
+  }
+
+  async updateEndpoint(
+    businessId: string,
+    id: string,
+    input: UpdateWebhookEndpointInput
+  ): Promise<WebhookEndpointType> {
+    if (input.url !== undefined) {
+      await assertWebhookUrlAllowed(input.url);
+    }
+
+    const endpoint = await WebhookEndpoint.findOneAndUpdate(
+      { _id: id, businessId },
+      { $set: input },
+      { new: true, runValidators: true }
+    );
+    if (!endpoint) {
+      throw new NotFoundError('Webhook ikke fundet');
+    }
+    return toEndpointType(endpoint);
+  }
+
+  /**
+   * Delete an endpoint together with its delivery log
+   */
+  async deleteEndpoint(businessId: string, id: string): Promise<void> {
+    const result = await WebhookEndpoint.deleteOne({ _id: id, businessId });
+    if (result.deletedCount === 0) {
+      throw new NotFoundError('Webhook ikke fundet');
+    }
+    await WebhookDelivery.deleteMany({ endpointId: id });
+  }
+
+  /**
+   * Replace the signing secret. The new secret is only returned here.
+   */
+  async rotateSecret(businessId: string, id: string): Promise<WebhookEndpointType> {
+    const secret = generateSecret();
+    const endpoint = await WebhookEndpoint.findOneAndUpdate(
+      { _id: id, businessId },
+      { $set: { secret } },
+      { new: true }
+    );
+    if (!endpoint) {
+      throw new NotFoundError('Webhook ikke fundet');
+    }
+    return { ...toEndpointType(endpoint), secret };
+  }
+
+  /**
+   * Queue an event for every enabled endpoint subscribed to it.
+   * Never throws - webhook problems must not affect the operation that triggered the event.
+   */
+  async emit(businessId: string, type: WebhookEventType, data: object): Promise<void> {
+    try {
+      const endpoints = await WebhookEndpoint.find({ businessId, enabled: true, events: type })
+        .select('_id')
+        .lean();
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const payload = this.buildPayload(businessId, type, data);
+      const now = new Date();
+
+      await WebhookDelivery.insertMany(
+        endpoints.map((endpoint) => ({
+          businessId,
+          endpointId: endpoint._id,
+          eventId: payload.id,
+          eventType: type,
+          payload,
+          status: 'pending',
+          nextAttemptAt: now,
+        }))
+      );
+    } catch (error) {
+      console.error(`[WebhookService] Failed to queue ${type} for business ${businessId}:`, error);
+    }
+  }
+
+  /**
+   * Make one delivery attempt and record the outcome.
+   * Failed attempts are rescheduled with backoff until retries are used up.
+   */
+  async deliver(delivery: WebhookDeliveryDocument): Promise<WebhookDeliveryType> {
+    const deliveryId = String(delivery._id);
+    const attempts = delivery.attempts + 1;
+    // Test events are a one-shot check of the endpoint
+    const canRetry = delivery.eventType !== 'webhook.test';
+
+    const endpoint = await WebhookEndpoint.findById(delivery.endpointId);
+    if (!endpoint?.enabled) {
+      delivery.set({
+        status: 'failed',
+        attempts,
+        nextAttemptAt: undefined,
+        lastError: endpoint ? 'Endpoint disabled' : 'Endpoint deleted',
+      });
+      await delivery.save();
+      return toDeliveryType(delivery);
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    let responseStatus: number | undefined;
+    let errorMessage: string | undefined;
+
+    // Resolved on every attempt, as the host's DNS may have changed since the last one
+    const blockedReason = await getBlockedWebhookReason(endpoint.url);
+    if (blockedReason) {
+      errorMessage = blockedReason;
+    } else {
+      try {
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: buildWebhookHeaders(endpoint.secret, delivery.eventId, body),
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(WEBHOOK_DELIVERY.timeoutMs),
+          // Connects only to the addresses checked at connect time. The cast
+          // bridges undici's own types and the copy bundled with @types/node.
+          dispatcher: webhookDispatcher as unknown as NonNullable<RequestInit['dispatcher']>,
+        });
+        responseStatus = response.status;
+        if (!response.ok) {
+          errorMessage = `HTTP ${String(response.status)}`;
+        }
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    if (errorMessage === undefined) {
+      delivery.set({
+        status: 'succeeded',
+        attempts,
+        nextAttemptAt: undefined,
+        lastResponseStatus: responseStatus,
+        lastError: undefined,
+        deliveredAt: new Date(),
+      });
+    } else {
+      const nextAttemptAt = canRetry ? getNextWebhookAttempt(attempts) : null;
+      delivery.set({
+        status: nextAttemptAt ? 'pending' : 'failed',
+        attempts,
+        nextAttemptAt: nextAttemptAt ?? undefined,
+        lastResponseStatus: responseStatus,
+        lastError: errorMessage.slice(0, MAX_ERROR_LENGTH),
+      });
+      console.warn(
+        `[WebhookService] Delivery ${deliveryId} attempt ${String(attempts)} failed: ${errorMessage}`
+      );
+    }
+
+    await delivery.save();
+    return toDeliveryType(delivery);
+  }
+
+  /**
+   * Send a 'webhook.test' event to one endpoint right away and return the result
+   */
+  async sendTestEvent(businessId: string, id: string): Promise<WebhookDeliveryType> {
+    const endpoint = await WebhookEndpoint.findOne({ _id: id, businessId });
+    if (!endpoint) {
+      throw new NotFoundError('Webhook ikke fundet');
+    }
+
+    const payload = this.buildPayload(businessId, 'webhook.test', {
+      message: 'Test event from EasyRate',
+    });
+
+    // No nextAttemptAt - the processor never picks up test deliveries
+    const delivery = await WebhookDelivery.create({
+      businessId,
+      endpointId: endpoint._id,
+      eventId: payload.id,
+      eventType: 'webhook.test',
+      payload,
+      status: 'pending',
+    });
+
+    return this.deliver(delivery);
+  }
+
+  async listDeliveries(
+    businessId: string,
+    endpointId: string,
+    page = 1,
+    limit = 20
+  ): Promise<PaginatedWebhookDeliveries> {
+    const query = { businessId, endpointId };
+    const skip = (page - 1) * limit;
+
+    const [deliveries, total] = await Promise.all([
+      WebhookDelivery.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      WebhookDelivery.countDocuments(query),
+    ]);
+
+    return {
+      data: deliveries.map(toDeliveryType),
+      pagination: calculatePagination(page, limit, total),
+    };
+  }
+
+  private buildPayload(
+    businessId: string,
+    type: WebhookEventType,
+    data: object
+  ): WebhookEventPayload {
+    return {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      createdAt: new Date().toISOString(),
+      businessId,
+      data: data as Record<string, unknown>,
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
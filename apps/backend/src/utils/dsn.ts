@@ -0,0 +1,166 @@
+/**
+ * Delivery Status Notification (bounce report) parsing.
+ * Format: RFC 3464 - a multipart/report with a message/delivery-status part
+ * and the original message or its headers (message/rfc822, text/rfc822-headers).
+ */
+
+export interface DeliveryStatusReport {
+  action: string; // failed | delayed | delivered | relayed | expanded
+  status?: string; // Enhanced status code, e.g. 5.1.1
+  recipient?: string;
+  diagnosticCode?: string;
+  envelopeId?: string; // ENVID given when the message was sent
+  originalMessageId?: string; // Message-ID of the bounced message, without angle brackets
+  permanent: boolean; // Hard bounce - the address will not accept mail
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+/**
+ * Parse a raw bounce message. Returns null if it is not a DSN.
+ */
+export function parseDsn(raw: string): DeliveryStatusReport | null {
+  const message = parsePart(raw.replace(/\r\n/g, '\n'));
+  const parts = flattenParts(message);
+
+  const statusPart = parts.find((part) => contentType(part) === 'message/delivery-status');
+  if (!statusPart) {
+    return null;
+  }
+
+  // The first group holds per-message fields, the rest one group per recipient
+  const [messageFields, ...recipientGroups] = statusPart.body
+    .split(/\n\s*\n/)
+    .filter((group) => group.trim().length > 0)
+    .map((group) => parseHeaders(group));
+
+  const recipientFields =
+    recipientGroups.find((fields) => fields.get('action')?.toLowerCase() === 'failed') ??
+    recipientGroups[0];
+  if (!recipientFields) {
+    return null;
+  }
+
+  const action = (recipientFields.get('action') ?? '').toLowerCase();
+  const status = recipientFields.get('status');
+  const report: DeliveryStatusReport = {
+    action,
+    permanent: action === 'failed' && (!status || status.startsWith('5')),
+  };
+
+  if (status) {
+    report.status = status;
+  }
+
+  const recipient = stripAddressType(
+    recipientFields.get('final-recipient') ?? recipientFields.get('original-recipient')
+  );
+  if (recipient) {
+    report.recipient = recipient;
+  }
+
+  const diagnosticCode = stripAddressType(recipientFields.get('diagnostic-code'));
+  if (diagnosticCode) {
+    report.diagnosticCode = diagnosticCode;
+  }
+
+  const envelopeId = messageFields?.get('original-envelope-id');
+  if (envelopeId) {
+    report.envelopeId = envelopeId;
+  }
+
+  const originalPart = parts.find((part) =>
+    ['message/rfc822', 'text/rfc822-headers', 'message/rfc822-headers'].includes(contentType(part))
+  );
+  const originalMessageId = originalPart
+    ? parseHeaders(originalPart.body.split(/\n\s*\n/)[0] ?? '').get('message-id')
+    : undefined;
+  if (originalMessageId) {
+    report.originalMessageId = stripAngleBrackets(originalMessageId);
+  }
+
+  return report;
+}
+
+/**
+ * Remove the angle brackets around a Message-ID
+ */
+export function stripAngleBrackets(messageId: string): string {
+  return messageId.trim().replace(/^<|>$/g, '');
+}
+
+function parsePart(raw: string): MimePart {
+  const separator = raw.indexOf('\n\n');
+  const headerBlock = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? '' : raw.slice(separator + 2);
+  const headers = parseHeaders(headerBlock);
+
+  const encoding = headers.get('content-transfer-encoding')?.toLowerCase();
+  return {
+    headers,
+    body: encoding === 'base64' ? Buffer.from(body, 'base64').toString('utf-8') : body,
+  };
+}
+
+/**
+ * Parse header lines into lower-cased names (first occurrence wins),
+ * joining folded continuation lines
+ */
+function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>();
+
+  for (const line of block.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+
+  return headers;
+}
+
+function contentType(part: MimePart): string {
+  return (
+    (part.headers.get('content-type') ?? 'text/plain').split(';')[0]?.trim().toLowerCase() ?? ''
+  );
+}
+
+/**
+ * All leaf parts of a message, descending into nested multiparts
+ */
+function flattenParts(part: MimePart): MimePart[] {
+  const type = contentType(part);
+  if (!type.startsWith('multipart/')) {
+    return [part];
+  }
+
+  const boundary = /boundary="?([^";]+)"?/i.exec(part.headers.get('content-type') ?? '')?.[1];
+  if (!boundary) {
+    return [part];
+  }
+
+  return part.body
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter((section) => !section.startsWith('--'))
+    .map((section) => parsePart(section.replace(/^\n/, '')))
+    .flatMap(flattenParts);
+}
+
+/**
+ * "rfc822; anders@example.com" → "anders@example.com"
+ */
+function stripAddressType(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const separator = value.indexOf(';');
+  return separator === -1 ? value : value.slice(separator + 1).trim();
+}
@@ -1,3 +1,5 @@
+import mongoose from 'mongoose';
+
 export class AppError extends Error {
   public readonly code: string;
   public readonly statusCode: number;
@@ -52,3 +54,24 @@ export class ConflictError extends AppError {
     this.name = 'ConflictError';
   }
 }
+
+/**
+ * Whether retrying the same work may succeed. App errors (not found, validation)
+ * and schema errors fail the same way every time; database, network and other
+ * unexpected errors, such as a duplicate random short code, are worth retrying.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AppError) {
+    return error.statusCode >= 500;
+  }
+
+  if (
+    error instanceof mongoose.Error.ValidationError ||
+    error instanceof mongoose.Error.CastError ||
+    error instanceof mongoose.Error.StrictModeError
+  ) {
+    return false;
+  }
+
+  return true;
+}
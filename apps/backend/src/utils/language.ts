@@ -0,0 +1,68 @@
+import type { AnalysisLanguage } from '@easyrate/shared';
+
+// English names, as used in AI prompts
+export const LANGUAGE_NAMES: Record<AnalysisLanguage, string> = {
+  da: 'Danish',
+  en: 'English',
+  sv: 'Swedish',
+  de: 'German',
+};
+
+// Common words that only occur in one of the languages. Words shared by Danish
+// and Swedish (det, som, har, med ...) or German and English are left out.
+const MARKER_WORDS: Record<AnalysisLanguage, ReadonlySet<string>> = {
+  da: new Set(
+    (
+      'og er ikke af til meget også være været bliver jeg hvor nogle flere mere deres denne dette ' +
+      'mange godt hvis kunne skal fordi nok kunderne gæster gæsterne personalet maden'
+    ).split(' ')
+  ),
+  sv: new Set(
+    (
+      'och är inte av till mycket också vara varit blir jag hur några fler mer deras denna detta ' +
+      'många bra för att ska utan eftersom väldigt kunderna gäster gästerna personalen ' +
+      'maten'
+    ).split(' ')
+  ),
+  en: new Set(
+    (
+      'the and is are of not very be were this that with their they many more should which ' +
+      'have has it but on guests customers staff food'
+    ).split(' ')
+  ),
+  de: new Set(
+    (
+      'und ist sind nicht sehr auch sein wird werden ich wie sollte einige mehr ihre diese ' +
+      'dieser viele die das mit für von zu ein eine dem des auf bei wurde aber oder gäste ' +
+      'kunden personal essen'
+    ).split(' ')
+  ),
+};
+
+// Hits needed before a language is recognised, and its lead over the runner-up
+const MIN_MARKER_HITS = 3;
+const MIN_LEAD_FACTOR = 2;
+
+/**
+ * Recognise which of the analysis languages a text is written in, from common
+ * words. Returns null when the text is too short or mixed to tell.
+ */
+export function detectLanguage(text: string): AnalysisLanguage | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const hits = (Object.keys(MARKER_WORDS) as AnalysisLanguage[])
+    .map((language) => ({
+      language,
+      count: words.filter((word) => MARKER_WORDS[language].has(word)).length,
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  const [best, runnerUp] = hits;
+  if (!best || best.count < MIN_MARKER_HITS) {
+    return null;
+  }
+  if (runnerUp && best.count < runnerUp.count * MIN_LEAD_FACTOR) {
+    return null;
+  }
+
+  return best.language;
+}
@@ -0,0 +1,51 @@
+/**
+ * Phone number helpers for matching customers across orders.
+ * Integrations deliver numbers in different formats (e.g. '12345678', '+45 12 34 56 78', '004512345678').
+ */
+
+const DANISH_COUNTRY_CODE = '45';
+
+/**
+ * Normalize a phone number to E.164-like format ('+4512345678').
+ * 8-digit numbers without a country code are assumed to be Danish.
+ */
+export function normalizePhone(phone: string): string {
+  let digits = phone.trim().replace(/[\s\-().]/g, '');
+
+  if (digits.startsWith('00')) {
+    digits = `+${digits.slice(2)}`;
+  }
+
+  if (/^\d{8}$/.test(digits)) {
+    return `+${DANISH_COUNTRY_CODE}${digits}`;
+  }
+
+  return digits;
+}
+
+/**
+ * Normalize a Danish number, or null if it is not one.
+ * Also accepts the country code without '+' ('4512345678'), as spreadsheets drop it.
+ */
+export function toDanishPhone(phone: string): string | null {
+  const normalized = normalizePhone(phone);
+  const withPlus = /^\d{10}$/.test(normalized) ? `+${normalized}` : normalized;
+  return new RegExp(`^\\+${DANISH_COUNTRY_CODE}\\d{8}$`).test(withPlus) ? withPlus : null;
+}
+
+/**
+ * All stored formats a phone number may appear in, for database lookups
+ */
+export function getPhoneVariants(phone: string): string[] {
+  const normalized = normalizePhone(phone);
+  const variants = new Set([phone.trim(), normalized]);
+
+  if (normalized.startsWith(`+${DANISH_COUNTRY_CODE}`) && normalized.length === 11) {
+    const local = normalized.slice(3);
+    variants.add(local);
+    variants.add(`${DANISH_COUNTRY_CODE}${local}`);
+    variants.add(`00${DANISH_COUNTRY_CODE}${local}`);
+  }
+
+  return [...variants];
+}
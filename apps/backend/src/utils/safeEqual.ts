@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+/**
+ * Constant-time string comparison for secrets and API keys
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
@@ -0,0 +1,139 @@
+import type {
+  ReportFrequency,
+  SendWindowHours,
+  SendWindowSettings,
+  Weekday,
+} from '@easyrate/shared';
+import { getLocalDateTime, zonedTimeToUtc } from './timezone.js';
+
+const WEEKDAYS: readonly Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Parse an 'HH:mm' string into minutes since midnight
+ */
+function parseTime(value: string): number {
+  const [hours = '0', minutes = '0'] = value.split(':');
+  return parseInt(hours, 10) * 60 + parseInt(minutes, 10);
+}
+
+/**
+ * Resolve the allowed hours for a weekday, or null if sending is not allowed that day
+ */
+function getHoursForDay(window: SendWindowSettings, weekday: Weekday): SendWindowHours | null {
+  const override = window.days?.[weekday];
+  if (override === null) {
+    return null;
+  }
+  return override ?? { start: window.start, end: window.end };
+}
+
+/**
+ * Check whether sending is allowed at the given instant
+ */
+export function isWithinSendWindow(
+  date: Date,
+  window: SendWindowSettings | undefined,
+  timeZone: string
+): boolean {
+  return getNextAllowedSendTime(date, window, timeZone).getTime() === date.getTime();
+}
+
+/**
+ * Get the earliest instant at or after `date` that falls inside the business' send window,
+ * with the window's hours read in the business' time zone.
+ * Returns `date` unchanged when no window is configured or it is disabled.
+ */
+export function getNextAllowedSendTime(
+  date: Date,
+  window: SendWindowSettings | undefined,
+  timeZone: string
+): Date {
+  if (!window?.enabled) {
+    return date;
+  }
+
+  const local = getLocalDateTime(date, timeZone);
+
+  // Look at most one week ahead - every weekday has been checked by then
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    const weekday = WEEKDAYS[day.getUTCDay()] ?? 'mon';
+    const hours = getHoursForDay(window, weekday);
+
+    if (!hours) {
+      continue;
+    }
+
+    const start = parseTime(hours.start);
+    const end = parseTime(hours.end);
+
+    if (offset === 0) {
+      if (local.minutes >= end) {
+        continue;
+      }
+      if (local.minutes >= start) {
+        return date;
+      }
+    }
+
+    return zonedTimeToUtc(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      start,
+      timeZone
+    );
+  }
+
+  // No allowed day configured at all - don't block sending forever
+  console.warn('[sendWindow] Send window has no allowed days, ignoring');
+  return date;
+}
+
+/**
+ * Get the most recent instant at or before `date` when the local clock in the
+ * time zone showed `time` ('HH:mm') - e.g. today's 08:00, or yesterday's if it is not 08:00 yet
+ */
+export function getLatestLocalTime(date: Date, time: string, timeZone: string): Date {
+  const local = getLocalDateTime(date, timeZone);
+  const minutes = parseTime(time);
+  const today = zonedTimeToUtc(local.year, local.month, local.day, minutes, timeZone);
+  if (today.getTime() <= date.getTime()) {
+    return today;
+  }
+  const yesterday = new Date(Date.UTC(local.year, local.month - 1, local.day - 1));
+  return zonedTimeToUtc(
+    yesterday.getUTCFullYear(),
+    yesterday.getUTCMonth() + 1,
+    yesterday.getUTCDate(),
+    minutes,
+    timeZone
+  );
+}
+
+/**
+ * Get the most recent fully completed week (Monday-Sunday) or calendar month before `date`,
+ * with boundaries at local midnight in the time zone. `end` is exclusive.
+ */
+export function getLastCompletedPeriod(
+  date: Date,
+  frequency: ReportFrequency,
+  timeZone: string
+): { start: Date; end: Date } {
+  const local = getLocalDateTime(date, timeZone);
+
+  if (frequency === 'monthly') {
+    return {
+      start: zonedTimeToUtc(local.year, local.month - 1, 1, 0, timeZone),
+      end: zonedTimeToUtc(local.year, local.month, 1, 0, timeZone),
+    };
+  }
+
+  // Days since this week's Monday (getUTCDay: 0 = Sunday)
+  const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+  const monday = local.day - ((weekday + 6) % 7);
+  return {
+    start: zonedTimeToUtc(local.year, local.month, monday - 7, 0, timeZone),
+    end: zonedTimeToUtc(local.year, local.month, monday, 0, timeZone),
+  };
+}
@@ -0,0 +1,307 @@
+import zlib from 'zlib';
+
+/**
+ * Minimal CSV and XLSX readers for customer list uploads.
+ * Both return the first sheet as rows of trimmed cell strings; formatting,
+ * formulas and styles are ignored.
+ */
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export class SpreadsheetParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetParseError';
+  }
+}
+
+// Guard against zip bombs - a 5 MB upload never needs more than this
+const MAX_UNCOMPRESSED_ENTRY_BYTES = 50 * 1024 * 1024;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+/**
+ * XLSX files are zip archives, anything else is treated as CSV
+ */
+export function detectSpreadsheetFormat(buffer: Buffer): SpreadsheetFormat {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER ? 'xlsx' : 'csv';
+}
+
+export function parseSpreadsheet(buffer: Buffer): string[][] {
+  return detectSpreadsheetFormat(buffer) === 'xlsx'
+    ? parseXlsx(buffer)
+    : parseCsv(buffer.toString('utf8'));
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Danish Excel exports use ';', so the delimiter is picked from the header line
+ */
+function detectDelimiter(headerLine: string): string {
+  const candidates = [';', ',', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = headerLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * RFC 4180 CSV with quoted fields, escaped quotes ("") and line breaks inside quotes
+ */
+export function parseCsv(input: string): string[][] {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] ?? '');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.length > 0));
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function inflateEntry(data: Buffer): string {
+  try {
+    return zlib
+      .inflateRawSync(data, { maxOutputLength: MAX_UNCOMPRESSED_ENTRY_BYTES })
+      .toString('utf8');
+  } catch (error) {
+    // The size in the central directory can understate the real output
+    if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new SpreadsheetParseError('Excel-filen er for stor');
+    }
+    throw new SpreadsheetParseError('Excel-filen er ugyldig eller beskadiget');
+  }
+}
+
+/**
+ * Read the named entries of a zip archive via its central directory
+ */
+function readZipEntries(buffer: Buffer, names: string[]): Map<string, string> {
+  const entries = new Map<string, string>();
+
+  // End of central directory record is at least 22 bytes, followed by an optional comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new SpreadsheetParseError('Excel-filen er ugyldig eller beskadiget');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new SpreadsheetParseError('Excel-filen er ugyldig eller beskadiget');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!names.includes(name)) {
+      continue;
+    }
+    if (uncompressedSize > MAX_UNCOMPRESSED_ENTRY_BYTES) {
+      throw new SpreadsheetParseError('Excel-filen er for stor');
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw new SpreadsheetParseError('Excel-filen er ugyldig eller beskadiget');
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw new SpreadsheetParseError('Excel-filen er ugyldig eller beskadiget');
+    }
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data.toString('utf8'));
+    } else if (method === 8) {
+      entries.set(name, inflateEntry(data));
+    } else {
+      throw new SpreadsheetParseError('Excel-filen bruger en ukendt komprimering');
+    }
+  }
+
+  return entries;
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    return named[lower] ?? match;
+  });
+}
+
+/**
+ * Concatenate all <t> runs, so rich text cells come out as plain text
+ */
+function readTextRuns(xml: string): string {
+  let text = '';
+  for (const match of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1] ?? '');
+  }
+  return text;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  return new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+}
+
+/**
+ * Zero-based column index from a cell reference, e.g. 'C12' → 2
+ */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Path of the first worksheet, following workbook.xml and its relationships
+ */
+function findFirstSheetPath(entries: Map<string, string>): string {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const sheet = /<sheet\s[^>]*>/.exec(entries.get('xl/workbook.xml') ?? '')?.[0];
+  const relationId = sheet ? getAttribute(sheet, 'r:id') : undefined;
+  if (!relationId) {
+    return fallback;
+  }
+
+  for (const match of (entries.get('xl/_rels/workbook.xml.rels') ?? '').matchAll(
+    /<Relationship\s[^>]*>/g
+  )) {
+    if (getAttribute(match[0], 'Id') === relationId) {
+      const target = getAttribute(match[0], 'Target') ?? '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return fallback;
+}
+
+export function parseXlsx(buffer: Buffer): string[][] {
+  const meta = readZipEntries(buffer, [
+    'xl/workbook.xml',
+    'xl/_rels/workbook.xml.rels',
+    'xl/sharedStrings.xml',
+  ]);
+  const sheetPath = findFirstSheetPath(meta);
+  const sheetXml = readZipEntries(buffer, [sheetPath]).get(sheetPath);
+  if (sheetXml === undefined) {
+    throw new SpreadsheetParseError('Excel-filen indeholder ingen ark');
+  }
+
+  const sharedStrings = [
+    ...(meta.get('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+  ].map((match) => readTextRuns(match[1] ?? ''));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1] ?? '';
+      const content = cellMatch[2] ?? '';
+      const type = getAttribute(attributes, 't');
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+
+      let value = '';
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readTextRuns(content);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+        // Long phone numbers may be stored in scientific notation (1.2345678E7)
+        if (type === undefined && /e/i.test(value) && !Number.isNaN(Number(value))) {
+          value = String(Number(value));
+        }
+      }
+
+      const reference = getAttribute(attributes, 'r');
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = value.trim();
+    }
+
+    if (row.some((cell) => cell.length > 0)) {
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { safeEqual } from './safeEqual.js';
+
+/**
+ * Svix webhook signature verification (used by Resend).
+ * Docs: https://docs.svix.com/receiving/verifying-payloads/how-manual
+ *
+ * Signed content: `${svix-id}.${svix-timestamp}.${rawBody}`
+ * Signature header: space-separated list of `v1,<base64 HMAC-SHA256>` values
+ * Secret: `whsec_<base64 key>`
+ */
+
+// Reject messages older/newer than 5 minutes (replay protection)
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export interface SvixHeaders {
+  id: string;
+  timestamp: string;
+  signature: string;
+}
+
+export type SvixVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: 'missing_headers' | 'invalid_timestamp' | 'invalid_signature' };
+
+/**
+ * Parse a secret setting into individual secrets.
+ * Several secrets may be configured (space or comma separated) while rotating.
+ */
+export function parseSvixSecrets(value: string | undefined): string[] {
+  return (value ?? '').split(/[\s,]+/).filter((secret) => secret.length > 0);
+}
+
+function decodeSecret(secret: string): Buffer {
+  return Buffer.from(secret.startsWith('whsec_') ? secret.slice(6) : secret, 'base64');
+}
+
+/**
+ * Compute the base64 signature for a payload, as Svix would
+ */
+export function signSvixPayload(
+  secret: string,
+  id: string,
+  timestamp: string,
+  payload: string
+): string {
+  return crypto
+    .createHmac('sha256', decodeSecret(secret))
+    .update(`${id}.${timestamp}.${payload}`)
+    .digest('base64');
+}
+
+/**
+ * Verify a Svix-signed webhook against one or more secrets
+ * @param payload - Raw request body exactly as received
+ * @param headers - svix-id, svix-timestamp and svix-signature header values
+ * @param secrets - Accepted secrets (current and, during rotation, previous)
+ */
+export function verifySvixSignature(
+  payload: string,
+  headers: { [K in keyof SvixHeaders]?: string | undefined },
+  secrets: string[],
+  now: Date = new Date()
+): SvixVerificationResult {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const timestampSeconds = Number(timestamp);
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (
+    !Number.isInteger(timestampSeconds) ||
+    Math.abs(nowSeconds - timestampSeconds) > TIMESTAMP_TOLERANCE_SECONDS
+  ) {
+    return { valid: false, reason: 'invalid_timestamp' };
+  }
+
+  const provided = signature.split(' ').flatMap((entry) => {
+    const [version, value] = entry.split(',');
+    return version === 'v1' && value ? [value] : [];
+  });
+
+  for (const secret of secrets) {
+    const expected = signSvixPayload(secret, id, timestamp, payload);
+    if (provided.some((value) => safeEqual(value, expected))) {
+      return { valid: true };
+    }
+  }
+
+  return { valid: false, reason: 'invalid_signature' };
+}
@@ -0,0 +1,16 @@
+/**
+ * Canonical key for an insight theme, so the same theme can be followed across
+ * runs even when the model words its name differently, e.g. "Long wait times"
+ * and "long-wait-times" both become "long-wait-times".
+ */
+export function canonicalizeThemeKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/æ/g, 'ae')
+    .replace(/ø/g, 'oe')
+    .replace(/ß/g, 'ss')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,130 @@
+import { DEFAULT_TIMEZONE } from '@easyrate/shared';
+
+/**
+ * Helpers for wall-clock dates and times in a business' IANA time zone.
+ * Servers run in UTC, so never rely on the process' local time zone.
+ */
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  minutes: number; // Minutes since local midnight
+}
+
+interface TimeZoneSource {
+  timezone?: string | undefined;
+  settings?: { sendWindow?: { timezone?: string | undefined } | undefined } | undefined;
+}
+
+/**
+ * The business' time zone. Businesses created before Business.timezone existed
+ * may only have the (legacy) send window time zone.
+ */
+export function getBusinessTimeZone(business: TimeZoneSource | null | undefined): string {
+  return business?.timezone ?? business?.settings?.sendWindow?.timezone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the wall-clock date and time of an instant in the given IANA time zone
+ */
+export function getLocalDateTime(date: Date, timeZone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find((part) => part.type === type)?.value ?? '0', 10);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    minutes: get('hour') * 60 + get('minute'),
+  };
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const local = getLocalDateTime(date, timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day) + local.minutes * 60 * 1000;
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return asUtc - truncated;
+}
+
+/**
+ * Convert a wall-clock time in the given time zone to a UTC instant.
+ * Times that fall in a DST gap are shifted forward by the length of the gap.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day) + minutes * 60 * 1000;
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  // Re-check the offset at the guessed instant to handle DST transitions
+  const secondGuess = asUtc - getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(Math.max(firstGuess, secondGuess));
+}
+
+/**
+ * Local midnight of the day containing `date`, moved `dayOffset` days
+ */
+export function startOfLocalDay(date: Date, timeZone: string, dayOffset = 0): Date {
+  const local = getLocalDateTime(date, timeZone);
+  return zonedTimeToUtc(local.year, local.month, local.day + dayOffset, 0, timeZone);
+}
+
+/**
+ * Parse a local date ('YYYY-MM-DD') and optional time ('HH:mm') in the time zone.
+ * Returns null if the date is not in that format.
+ */
+export function parseLocalDateTime(
+  date: string,
+  time: string | undefined,
+  timeZone: string
+): Date | null {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  if (!dateMatch) {
+    return null;
+  }
+
+  const timeMatch = /^(\d{1,2}):(\d{2})/.exec(time?.trim() ?? '');
+  const minutes = timeMatch ? Number(timeMatch[1]) * 60 + Number(timeMatch[2]) : 0;
+
+  return zonedTimeToUtc(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]),
+    Number(dateMatch[3]),
+    minutes,
+    timeZone
+  );
+}
+
+/**
+ * Resolve a dashboard date range. Date-only values cover whole local days, so
+ * '2024-03-01' to '2024-03-31' is all of March in the business' time zone;
+ * full timestamps are used as given.
+ */
+export function resolveDateRange(
+  fromDate: string,
+  toDate: string,
+  timeZone: string
+): { from: Date; to: Date } {
+  const from = parseLocalDateTime(fromDate, undefined, timeZone) ?? new Date(fromDate);
+  const toDay = parseLocalDateTime(toDate, undefined, timeZone);
+  // The end is inclusive, so a date-only end runs until just before the next local midnight
+  const to = toDay ? new Date(startOfLocalDay(toDay, timeZone, 1).getTime() - 1) : new Date(toDate);
+  return { from, to };
+}
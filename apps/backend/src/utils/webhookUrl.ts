@@ -0,0 +1,129 @@
+import dns from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+/**
+ * Outgoing webhook targets must be public hosts. Tenants choose the URL, so
+ * without this check the backend could be made to call loopback, the private
+ * network or the cloud metadata endpoint (169.254.169.254).
+ */
+
+const PRIVATE_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], // "This" network
+  ['10.0.0.0', 8, 'ipv4'], // RFC 1918
+  ['100.64.0.0', 10, 'ipv4'], // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'], // Loopback
+  ['169.254.0.0', 16, 'ipv4'], // Link-local, incl. cloud metadata
+  ['172.16.0.0', 12, 'ipv4'], // RFC 1918
+  ['192.0.0.0', 24, 'ipv4'], // IETF protocol assignments
+  ['192.168.0.0', 16, 'ipv4'], // RFC 1918
+  ['198.18.0.0', 15, 'ipv4'], // Benchmarking
+  ['224.0.0.0', 4, 'ipv4'], // Multicast
+  ['240.0.0.0', 4, 'ipv4'], // Reserved and broadcast
+  ['::', 128, 'ipv6'], // Unspecified
+  ['::1', 128, 'ipv6'], // Loopback
+  ['64:ff9b::', 96, 'ipv6'], // NAT64, maps onto IPv4 addresses
+  ['fc00::', 7, 'ipv6'], // Unique local, incl. fd00:ec2::254 metadata
+  ['fe80::', 10, 'ipv6'], // Link-local
+  ['ff00::', 8, 'ipv6'], // Multicast
+];
+
+const privateAddresses = new BlockList();
+for (const [network, prefix, type] of PRIVATE_SUBNETS) {
+  privateAddresses.addSubnet(network, prefix, type);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable. IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) {
+    return false;
+  }
+  return privateAddresses.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+function isLocalTestHost(hostname: string): boolean {
+  return hostname === 'localhost' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * DNS lookup for webhook connections that fails for private addresses. It runs
+ * for the connection itself, so a host cannot pass getBlockedWebhookReason and
+ * then resolve to 127.0.0.1 for the request (DNS rebinding).
+ */
+export const webhookLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = isLocalTestHost(hostname)
+      ? undefined
+      : addresses.find(({ address }) => isPrivateAddress(address));
+    const [first] = addresses;
+    if (blocked || !first) {
+      callback(
+        new Error(
+          blocked
+            ? `${hostname} resolves to a private address (${blocked.address})`
+            : `Could not resolve ${hostname}`
+        ),
+        '',
+        0
+      );
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * Connection pool for webhook deliveries. IP literal hosts skip the lookup, but
+ * cannot rebind, so getBlockedWebhookReason has already checked them.
+ */
+export const webhookDispatcher = new Agent({ connect: { lookup: webhookLookup } });
+
+/**
+ * Check a webhook URL right before it is called: https only, and the host must
+ * resolve to public addresses. http://localhost is allowed outside production
+ * for local testing. Returns why the URL is blocked, or null if it may be called.
+ */
+export async function getBlockedWebhookReason(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isLocalTestHost(hostname)) {
+    return null;
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    return `Could not resolve ${hostname}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    return `${hostname} resolves to a private address (${blocked.address})`;
+  }
+
+  return null;
+}
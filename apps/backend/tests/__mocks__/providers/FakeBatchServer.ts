@@ -0,0 +1,270 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface FakeBatchRequestLine {
+  custom_id: string;
+  method: string;
+  url: string;
+  body: {
+    model: string;
+    messages: { role: string; content: string }[];
+    [key: string]: unknown;
+  };
+}
+
+export interface FakeBatch {
+  id: string;
+  status: string;
+  inputFileId: string;
+  endpoint: string;
+  completionWindow: string;
+  outputFileId: string | null;
+  errorFileId: string | null;
+  createdAt: number; // Unix seconds, like the API
+  endedAt: number | null;
+}
+
+// Chat completion content for a request, or a failed request
+export type FakeBatchResponse = { content: string } | { statusCode: number; message: string };
+
+/**
+ * Fields of a multipart/form-data body by name
+ */
+function parseMultipart(body: string, contentType: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  const delimiter = `--${boundary?.[1] ?? boundary?.[2] ?? ''}`;
+
+  for (const part of body.split(delimiter).slice(1, -1)) {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const name = /name="([^"]+)"/.exec(part.slice(0, headerEnd))?.[1];
+    if (name) {
+      // Strip the blank line and the CRLF before the next delimiter
+      fields.set(name, part.slice(headerEnd + 4, -2));
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Local OpenAI-compatible Files + Batches API for tests. Batches stay
+ * in progress until finish() runs their requests through `respond`.
+ * Real-time chat completions are answered by `respond` right away.
+ */
+export class FakeBatchServer {
+  files = new Map<string, string>();
+  batches = new Map<string, FakeBatch>();
+  authorizations: string[] = [];
+  private server: http.Server;
+  private nextId = 1;
+  private respond: (request: FakeBatchRequestLine) => FakeBatchResponse;
+
+  constructor(respond: (request: FakeBatchRequestLine) => FakeBatchResponse) {
+    this.respond = respond;
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        res.writeHead(500).end(String(error));
+      });
+    });
+  }
+
+  listen(): Promise<string> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => {
+        resolve(`http://127.0.0.1:${String((this.server.address() as AddressInfo).port)}/v1`);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => {
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Requests uploaded for a batch
+   */
+  getRequests(batchId: string): FakeBatchRequestLine[] {
+    const batch = this.batches.get(batchId);
+    const content = batch ? (this.files.get(batch.inputFileId) ?? '') : '';
+    return content
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as FakeBatchRequestLine);
+  }
+
+  /**
+   * Run a batch's requests and write the output and error files
+   */
+  finish(batchId: string, status = 'completed'): void {
+    const batch = this.batches.get(batchId);
+    if (!batch) {
+      throw new Error(`Unknown batch ${batchId}`);
+    }
+
+    const output: string[] = [];
+    const errors: string[] = [];
+
+    for (const request of this.getRequests(batchId)) {
+      const response = this.respond(request);
+      if ('content' in response) {
+        output.push(
+          JSON.stringify({
+            id: `response_${request.custom_id}`,
+            custom_id: request.custom_id,
+            response: {
+              status_code: 200,
+              body: this.toChatResponse(request.body.model, response.content),
+            },
+            error: null,
+          })
+        );
+      } else {
+        errors.push(
+          JSON.stringify({
+            id: `response_${request.custom_id}`,
+            custom_id: request.custom_id,
+            response: {
+              status_code: response.statusCode,
+              body: { error: { message: response.message } },
+            },
+            error: null,
+          })
+        );
+      }
+    }
+
+    batch.status = status;
+    batch.endedAt = Math.floor(Date.now() / 1000);
+    batch.outputFileId = output.length > 0 ? this.createFile(output.join('\n')) : null;
+    batch.errorFileId = errors.length > 0 ? this.createFile(errors.join('\n')) : null;
+  }
+
+  private createFile(content: string): string {
+    const id = `file-${String(this.nextId++)}`;
+    this.files.set(id, content);
+    return id;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    this.authorizations.push(req.headers.authorization ?? '');
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = Buffer.concat(chunks);
+    const url = req.url ?? '';
+
+    const json = (statusCode: number, data: unknown) => {
+      res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    };
+
+    if (req.method === 'POST' && url === '/v1/chat/completions') {
+      const request: FakeBatchRequestLine = {
+        custom_id: '',
+        method: 'POST',
+        url,
+        body: JSON.parse(body.toString('utf-8')) as FakeBatchRequestLine['body'],
+      };
+      const response = this.respond(request);
+      if ('content' in response) {
+        json(200, this.toChatResponse(request.body.model, response.content));
+      } else {
+        json(response.statusCode, { error: { message: response.message } });
+      }
+      return;
+    }
+
+    if (req.method === 'POST' && url === '/v1/files') {
+      const fields = parseMultipart(body.toString('utf-8'), req.headers['content-type'] ?? '');
+      const file = fields.get('file');
+      if (fields.get('purpose') !== 'batch' || file === undefined) {
+        json(400, { error: { message: 'Invalid file upload' } });
+        return;
+      }
+      json(200, { id: this.createFile(file), purpose: 'batch' });
+      return;
+    }
+
+    if (req.method === 'POST' && url === '/v1/batches') {
+      const input = JSON.parse(body.toString('utf-8')) as {
+        input_file_id: string;
+        endpoint: string;
+        completion_window: string;
+      };
+      if (!this.files.has(input.input_file_id)) {
+        json(404, { error: { message: 'File not found' } });
+        return;
+      }
+      const batch: FakeBatch = {
+        id: `batch_${String(this.nextId++)}`,
+        status: 'validating',
+        inputFileId: input.input_file_id,
+        endpoint: input.endpoint,
+        completionWindow: input.completion_window,
+        outputFileId: null,
+        errorFileId: null,
+        createdAt: Math.floor(Date.now() / 1000),
+        endedAt: null,
+      };
+      this.batches.set(batch.id, batch);
+      json(200, this.toBatchObject(batch));
+      return;
+    }
+
+    const batchMatch = /^\/v1\/batches\/([^/]+)$/.exec(url);
+    if (req.method === 'GET' && batchMatch) {
+      const batch = this.batches.get(decodeURIComponent(batchMatch[1] ?? ''));
+      if (!batch) {
+        json(404, { error: { message: 'Batch not found' } });
+        return;
+      }
+      json(200, this.toBatchObject(batch));
+      return;
+    }
+
+    const contentMatch = /^\/v1\/files\/([^/]+)\/content$/.exec(url);
+    if (req.method === 'GET' && contentMatch) {
+      const content = this.files.get(decodeURIComponent(contentMatch[1] ?? ''));
+      if (content === undefined) {
+        json(404, { error: { message: 'File not found' } });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/jsonl' });
+      res.end(content);
+      return;
+    }
+
+    json(404, { error: { message: `No route for ${req.method ?? ''} ${url}` } });
+  }
+
+  private toChatResponse(model: string, content: string): Record<string, unknown> {
+    return {
+      id: `chatcmpl-${String(this.nextId++)}`,
+      model,
+      choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 60, completion_tokens: 40, total_tokens: 100 },
+    };
+  }
+
+  private toBatchObject(batch: FakeBatch): Record<string, unknown> {
+    return {
+      id: batch.id,
+      object: 'batch',
+      endpoint: batch.endpoint,
+      input_file_id: batch.inputFileId,
+      completion_window: batch.completionWindow,
+      status: batch.status,
+      output_file_id: batch.outputFileId,
+      error_file_id: batch.errorFileId,
+      created_at: batch.createdAt,
+      ...(batch.endedAt !== null && { [`${batch.status}_at`]: batch.endedAt }),
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import net from 'net';
+import type { AddressInfo } from 'net';
+
+export interface SinkMessage {
+  from: string;
+  mailParams: string;
+  to: string[];
+  data: string;
+}
+
+export interface SmtpSinkOptions {
+  extensions?: string[]; // EHLO keywords, e.g. ['AUTH PLAIN LOGIN', 'DSN']
+  username?: string;
+  password?: string;
+  rejectRecipients?: string[];
+  rejectSenders?: string[];
+}
+
+/**
+ * Local SMTP sink for tests: accepts mail on a random port and keeps it in memory
+ */
+export class SmtpSink {
+  messages: SinkMessage[] = [];
+  commands: string[] = [];
+  private server: net.Server;
+  private options: SmtpSinkOptions;
+
+  constructor(options: SmtpSinkOptions = {}) {
+    this.options = options;
+    this.server = net.createServer((socket) => {
+      this.handle(socket);
+    });
+  }
+
+  listen(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => {
+        resolve((this.server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => {
+        resolve();
+      });
+    });
+  }
+
+  private handle(socket: net.Socket): void {
+    const extensions = this.options.extensions ?? ['AUTH PLAIN LOGIN', 'DSN'];
+    let buffer = '';
+    let current: SinkMessage | null = null;
+    let dataLines: string[] | null = null;
+    let loginStep: 'username' | 'password' | null = null;
+    let loginUsername = '';
+
+    const reply = (line: string) => {
+      socket.write(`${line}\r\n`);
+    };
+    const checkCredentials = (username: string, password: string) => {
+      reply(
+        username === this.options.username && password === this.options.password
+          ? '235 2.7.0 Authentication successful'
+          : '535 5.7.8 Authentication credentials invalid'
+      );
+    };
+
+    reply('220 sink.test ESMTP');
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (dataLines) {
+          if (line === '.' && current) {
+            current.data = dataLines.map((l) => (l.startsWith('..') ? l.slice(1) : l)).join('\r\n');
+            this.messages.push(current);
+            current = null;
+            dataLines = null;
+            reply(`250 2.0.0 Ok: queued as ${String(this.messages.length)}`);
+          } else {
+            dataLines.push(line);
+          }
+          continue;
+        }
+
+        if (loginStep) {
+          const value = Buffer.from(line, 'base64').toString();
+          if (loginStep === 'username') {
+            loginUsername = value;
+            loginStep = 'password';
+            reply('334 UGFzc3dvcmQ6');
+          } else {
+            loginStep = null;
+            checkCredentials(loginUsername, value);
+          }
+          continue;
+        }
+
+        this.commands.push(line);
+        const verb = (line.split(/[\s:]/)[0] ?? '').toUpperCase();
+
+        if (verb === 'EHLO') {
+          reply(
+            ['sink.test', ...extensions]
+              .map((ext, i, all) => `250${i === all.length - 1 ? ' ' : '-'}${ext}`)
+              .join('\r\n')
+          );
+        } else if (verb === 'AUTH' && line.toUpperCase().startsWith('AUTH PLAIN ')) {
+          const [, username = '', password = ''] = Buffer.from(line.slice(11), 'base64')
+            .toString()
+            .split('\0');
+          checkCredentials(username, password);
+        } else if (verb === 'AUTH') {
+          loginStep = 'username';
+          reply('334 VXNlcm5hbWU6');
+        } else if (verb === 'MAIL') {
+          const match = /^MAIL FROM:<([^>]*)>(.*)$/i.exec(line);
+          if (this.options.rejectSenders?.includes(match?.[1] ?? '')) {
+            reply('553 5.7.1 Sender address rejected: not owned by user');
+            return;
+          }
+          current = {
+            from: match?.[1] ?? '',
+            mailParams: match?.[2]?.trim() ?? '',
+            to: [],
+            data: '',
+          };
+          reply('250 2.1.0 Ok');
+        } else if (verb === 'RCPT') {
+          const recipient = /<([^>]*)>/.exec(line)?.[1] ?? '';
+          if (this.options.rejectRecipients?.includes(recipient)) {
+            reply('550 5.1.1 User unknown');
+          } else {
+            current?.to.push(recipient);
+            reply('250 2.1.5 Ok');
+          }
+        } else if (verb === 'DATA') {
+          dataLines = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (verb === 'QUIT') {
+          reply('221 2.0.0 Bye');
+          socket.end();
+        } else {
+          reply('502 5.5.2 Command not recognized');
+        }
+      }
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { EasyTableAdapter } from '../../../src/integrations/easytable/EasyTableAdapter.js';
 import { easyTableBookingSchema } from '@easyrate/shared';
 import type { EasyTableBooking } from '@easyrate/shared';
@@ -33,7 +33,8 @@ describe('EasyTableAdapter', () => {
       expect(orderData.customerEmail).toBe('anders@example.com');
       expect(orderData.customerPhone).toBe('4512345678');
       expect(orderData.platform).toBe('easytable');
-      expect(orderData.orderDate).toEqual(new Date('2024-01-15T19:00:00'));
+      // 19:00 in Copenhagen (CET, UTC+1)
+      expect(orderData.orderDate).toEqual(new Date('2024-01-15T18:00:00.000Z'));
       expect(orderData.metadata?.partySize).toBe(4);
     });
 
@@ -52,7 +53,42 @@ describe('EasyTableAdapter', () => {
       const orderData = adapter.transformBooking(booking);
 
       // Arrival at 19:00, duration 90 min, should complete at 20:30
-      expect(orderData.completedAt).toEqual(new Date('2024-01-15T20:30:00'));
+      expect(orderData.completedAt).toEqual(new Date('2024-01-15T19:30:00.000Z'));
+    });
+
+    it('should read booking times in summer time', () => {
+      const booking: EasyTableBooking = {
+        bookingID: 12345,
+        date: '2024-07-15',
+        arrival: '19:00',
+        duration: 120,
+        persons: 2,
+        status: '1',
+        arrived: 1,
+        expired: 0,
+      };
+
+      const orderData = adapter.transformBooking(booking);
+
+      // 19:00 in Copenhagen (CEST, UTC+2)
+      expect(orderData.orderDate).toEqual(new Date('2024-07-15T17:00:00.000Z'));
+    });
+
+    it("should read booking times in the business' time zone", () => {
+      const booking: EasyTableBooking = {
+        bookingID: 12345,
+        date: '2024-01-15',
+        arrival: '19:00',
+        duration: 120,
+        persons: 2,
+        status: '1',
+        arrived: 1,
+        expired: 0,
+      };
+
+      const orderData = new EasyTableAdapter('Europe/London').transformBooking(booking);
+
+      expect(orderData.orderDate).toEqual(new Date('2024-01-15T19:00:00.000Z'));
     });
 
     it('should handle minimal booking data', () => {
@@ -203,6 +239,34 @@ describe('EasyTableAdapter', () => {
       ).resolves.not.toThrow();
     });
   });
+
+  describe('fetchModifiedBookings', () => {
+    it('should return only completed bookings with the server time', async () => {
+      await adapter.connect({
+        platform: 'easytable',
+        apiKey: 'test-api-key',
+        enabled: true,
+        settings: { placeToken: 'test-place-token' },
+      });
+      const serverTime = new Date('2024-01-15T21:00:00Z');
+      const base = { date: '2024-01-15', arrival: '19:00', duration: 120, persons: 2 };
+      const bookings: EasyTableBooking[] = [
+        { ...base, bookingID: 1, status: '1', arrived: 1, expired: 0 },
+        { ...base, bookingID: 2, status: '1', arrived: 0, expired: 0 },
+        { ...base, bookingID: 3, status: '2', arrived: 0, expired: 0 },
+      ];
+      const client = (adapter as unknown as { client: object }).client;
+      Object.assign(client, {
+        getBookingsModifiedSince: vi.fn().mockResolvedValue({ bookings, serverTime }),
+      });
+
+      const result = await adapter.fetchModifiedBookings(new Date('2024-01-15T20:00:00Z'));
+
+      expect(result.fetched).toBe(3);
+      expect(result.orders.map((order) => order.orderId)).toEqual(['1']);
+      expect(result.serverTime).toEqual(serverTime);
+    });
+  });
 });
 
 describe('easyTableBookingSchema', () => {
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { EASYTABLE_POLLING } from '@easyrate/shared';
+import { resolvePollWindow } from '../../../src/integrations/easytable/EasyTablePoller.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const INTERVAL_MS = 5 * 60 * 1000;
+
+describe('resolvePollWindow', () => {
+  const now = new Date('2024-01-15T12:00:00Z');
+
+  it('should start from the initial lookback when there is no cursor', () => {
+    const window = resolvePollWindow(undefined, now, INTERVAL_MS);
+
+    expect(window.since).toEqual(
+      new Date(now.getTime() - EASYTABLE_POLLING.initialLookbackHours * HOUR_MS)
+    );
+    expect(window.isBackfill).toBe(false);
+  });
+
+  it('should continue from a recent cursor', () => {
+    const cursor = new Date(now.getTime() - INTERVAL_MS);
+
+    const window = resolvePollWindow(cursor, now, INTERVAL_MS);
+
+    expect(window.since).toEqual(cursor);
+    expect(window.isBackfill).toBe(false);
+  });
+
+  it('should backfill the gap after downtime', () => {
+    const cursor = new Date(now.getTime() - 3 * HOUR_MS);
+
+    const window = resolvePollWindow(cursor, now, INTERVAL_MS);
+
+    expect(window.since).toEqual(cursor);
+    expect(window.isBackfill).toBe(true);
+  });
+
+  it('should cap the backfill at the max lookback', () => {
+    const cursor = new Date(now.getTime() - 30 * 24 * HOUR_MS);
+
+    const window = resolvePollWindow(cursor, now, INTERVAL_MS);
+
+    expect(window.since).toEqual(
+      new Date(now.getTime() - EASYTABLE_POLLING.maxLookbackHours * HOUR_MS)
+    );
+    expect(window.isBackfill).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { OrderData } from '@easyrate/shared';
+import { OrderQueueProcessor } from '../../src/jobs/processOrderQueue.js';
+import { orderQueueService } from '../../src/services/OrderQueueService.js';
+import { Business } from '../../src/models/Business.js';
+import { Notification } from '../../src/models/Notification.js';
+import { OrderQueue } from '../../src/models/OrderQueue.js';
+
+function order(orderId: string): OrderData {
+  return {
+    orderId,
+    orderDate: new Date(),
+    platform: 'dully',
+    customerName: 'Anders Jensen',
+    customerPhone: `+45123456${orderId.slice(-2)}`,
+  };
+}
+
+describe('OrderQueueProcessor', () => {
+  let businessId: string;
+
+  beforeEach(async () => {
+    const business = await Business.create({ name: 'Test', email: 'processor@example.com' });
+    businessId = business._id.toString();
+  });
+
+  it('should process each order once when several instances run at the same time', async () => {
+    for (let i = 10; i < 20; i++) {
+      await orderQueueService.enqueue(businessId, order(`10${String(i)}`), 0);
+    }
+    const processors = [1, 2, 3].map(() => new OrderQueueProcessor({ batchSize: 2 }));
+
+    await Promise.all(processors.map((processor) => processor.processQueue()));
+
+    expect(await OrderQueue.countDocuments({ status: 'completed' })).toBe(10);
+    expect(await Notification.countDocuments({ type: 'sms' })).toBe(10);
+    expect(await OrderQueue.countDocuments({ lockedBy: { $ne: null } })).toBe(0);
+  });
+
+  it('should recover an item whose worker died while processing it', async () => {
+    const item = await orderQueueService.enqueue(businessId, order('1001'), 0);
+    await OrderQueue.findByIdAndUpdate(item.id, {
+      status: 'processing',
+      lockedBy: 'crashed-worker',
+      lockedUntil: new Date(Date.now() - 1000),
+    });
+
+    await new OrderQueueProcessor().processQueue();
+
+    const processed = await OrderQueue.findById(item.id);
+    expect(processed?.status).toBe('completed');
+    expect(processed?.attempts).toBe(1);
+    expect(await Notification.countDocuments({ orderId: '1001' })).toBe(1);
+  });
+
+  it('should not send the SMS again when a partly sent order is retried manually', async () => {
+    const item = await orderQueueService.enqueue(businessId, order('1001'), 0);
+    // The SMS went out before a later step failed and the item was dead-lettered
+    await Notification.create({
+      businessId,
+      type: 'sms',
+      status: 'sent',
+      recipient: '+4512345601',
+      content: 'Hej',
+      reviewLink: 'https://example.com/r/abc',
+      orderId: '1001',
+    });
+    await orderQueueService.markDeadLetter(item.id, 'Email step failed');
+
+    await orderQueueService.retry(businessId, item.id);
+    await new OrderQueueProcessor().processQueue();
+
+    expect((await OrderQueue.findById(item.id))?.status).toBe('completed');
+    expect(await Notification.countDocuments({ orderId: '1001', type: 'sms' })).toBe(1);
+  });
+
+  it('should leave items leased by a live worker alone', async () => {
+    const item = await orderQueueService.enqueue(businessId, order('1001'), 0);
+    await OrderQueue.findByIdAndUpdate(item.id, {
+      lockedBy: 'other-worker',
+      lockedUntil: new Date(Date.now() + 60 * 1000),
+    });
+
+    await new OrderQueueProcessor().processQueue();
+
+    expect((await OrderQueue.findById(item.id))?.status).toBe('pending');
+    expect(await Notification.countDocuments({ orderId: '1001' })).toBe(0);
+  });
+});
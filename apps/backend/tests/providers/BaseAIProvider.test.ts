@@ -0,0 +1,437 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AIAnalysisInput } from '@easyrate/shared';
+import {
+  AIResponseError,
+  GrokProvider,
+  OpenAIProvider,
+  type BaseAIProvider,
+} from '../../src/providers/ai/index.js';
+import {
+  FakeBatchServer,
+  type FakeBatchRequestLine,
+  type FakeBatchResponse,
+} from '../__mocks__/providers/FakeBatchServer.js';
+
+const analysis = {
+  overallSentiment: { score: 82, label: 'positive', summary: 'Gæsterne er glade' },
+  themes: [
+    {
+      name: 'Service',
+      description: 'Venligt personale',
+      customerCount: 4,
+      mentionCount: 5,
+      severity: 'low',
+      sentiment: 'positive',
+      exampleQuotes: ['Super venlig betjening'],
+      suggestion: 'Fortsæt det gode arbejde',
+      sources: ['google', 'easyrate', 'tripadvisor'],
+    },
+  ],
+  topImprovementPoint: 'Kortere ventetid',
+  customerSatisfactionSummary: 'Høj tilfredshed',
+};
+
+const englishAnalysis = {
+  ...analysis,
+  overallSentiment: {
+    score: 82,
+    label: 'positive',
+    summary: 'The guests are very happy with the food and the staff',
+  },
+  topImprovementPoint: 'The waiting time is too long on busy evenings',
+  customerSatisfactionSummary: 'Customers are satisfied with the service',
+};
+
+const input: AIAnalysisInput = {
+  reviews: [
+    {
+      rating: 5,
+      feedbackText: 'Super venlig betjening',
+      createdAt: new Date('2024-01-10'),
+      source: 'easyrate',
+    },
+    {
+      rating: 4,
+      feedbackText: 'Lidt ventetid',
+      createdAt: new Date('2024-01-12'),
+      source: 'google',
+    },
+  ],
+  businessName: 'Café Hygge',
+  analysisLanguage: 'da',
+};
+
+describe.each([
+  { name: 'GrokProvider', Provider: GrokProvider },
+  { name: 'OpenAIProvider', Provider: OpenAIProvider },
+])('$name batch API', ({ Provider }) => {
+  let server: FakeBatchServer;
+  let provider: BaseAIProvider;
+  let respond: (request: FakeBatchRequestLine) => FakeBatchResponse;
+
+  beforeEach(async () => {
+    respond = () => ({ content: JSON.stringify(analysis) });
+    server = new FakeBatchServer((request) => respond(request));
+    const baseUrl = await server.listen();
+    provider = new Provider({ apiKey: 'test-key', model: 'test-model', baseUrl });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should submit the analysis requests as one batch job', async () => {
+    const batch = await provider.submitAnalysisBatch([
+      { customId: 'run-1', input },
+      { customId: 'run-2', input: { ...input, businessName: 'Bar Ærø' } },
+    ]);
+
+    expect(batch.status).toBe('in_progress');
+    expect(server.authorizations.every((value) => value === 'Bearer test-key')).toBe(true);
+
+    const stored = server.batches.get(batch.id);
+    expect(stored?.endpoint).toBe('/v1/chat/completions');
+    expect(stored?.completionWindow).toBe('24h');
+
+    const requests = server.getRequests(batch.id);
+    expect(requests.map((request) => request.custom_id)).toEqual(['run-1', 'run-2']);
+    expect(requests[0]?.url).toBe('/v1/chat/completions');
+    expect(requests[0]?.body.model).toBe('test-model');
+    expect(requests[1]?.body.messages[1]?.content).toContain('BUSINESS: Bar Ærø');
+  });
+
+  it('should report the batch in progress until it has finished', async () => {
+    const submitted = await provider.submitAnalysisBatch([{ customId: 'run-1', input }]);
+
+    expect((await provider.getBatch(submitted.id)).status).toBe('in_progress');
+
+    server.finish(submitted.id);
+    const batch = await provider.getBatch(submitted.id);
+
+    expect(batch.status).toBe('completed');
+    expect(batch.outputFileId).toBeDefined();
+    expect(batch.submittedAt).toBeInstanceOf(Date);
+    expect(batch.endedAt).toBeInstanceOf(Date);
+  });
+
+  it('should parse the results of a finished batch', async () => {
+    const submitted = await provider.submitAnalysisBatch([{ customId: 'run-1', input }]);
+    server.finish(submitted.id);
+
+    const results = await provider.getBatchResults(await provider.getBatch(submitted.id));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.customId).toBe('run-1');
+    expect(results[0]?.error).toBeUndefined();
+    expect(results[0]?.result).toMatchObject({
+      overallSentiment: { score: 82, label: 'positive' },
+      topImprovementPoint: 'Kortere ventetid',
+      modelUsed: 'test-model',
+      tokensUsed: 100,
+    });
+    expect(results[0]?.result?.themes[0]?.name).toBe('Service');
+    expect(results[0]?.result?.themes[0]?.sources).toEqual(['easyrate', 'google']);
+  });
+
+  it('should label each review with its source', async () => {
+    const batch = await provider.submitAnalysisBatch([{ customId: 'run-1', input }]);
+
+    const prompt = server.getRequests(batch.id)[0]?.body.messages[1]?.content ?? '';
+    expect(prompt).toContain('1. [easyrate] Rating: 5/5 - "Super venlig betjening"');
+    expect(prompt).toContain('2. [google] Rating: 4/5 - "Lidt ventetid"');
+    expect(prompt).toContain('SOURCES: easyrate, google');
+  });
+
+  it('should return errors for failed and unparsable requests', async () => {
+    respond = (request) => {
+      if (request.custom_id === 'run-1') {
+        return { statusCode: 429, message: 'Rate limit exceeded' };
+      }
+      return { content: 'Beklager, det kan jeg ikke' };
+    };
+
+    const submitted = await provider.submitAnalysisBatch([
+      { customId: 'run-1', input },
+      { customId: 'run-2', input },
+    ]);
+    server.finish(submitted.id);
+
+    const results = await provider.getBatchResults(await provider.getBatch(submitted.id));
+    const byId = new Map(results.map((result) => [result.customId, result]));
+
+    expect(byId.get('run-1')).toEqual({ customId: 'run-1', error: 'Rate limit exceeded' });
+    expect(byId.get('run-2')?.result).toBeUndefined();
+    expect(byId.get('run-2')?.error).toBeDefined();
+    expect(byId.get('run-2')?.rawResponse).toBe('Beklager, det kan jeg ikke');
+  });
+
+  it('should keep the other results when a batch line is malformed', async () => {
+    const submitted = await provider.submitAnalysisBatch([
+      { customId: 'run-1', input },
+      { customId: 'run-2', input },
+    ]);
+    server.finish(submitted.id);
+    const batch = await provider.getBatch(submitted.id);
+    const fileId = batch.outputFileId ?? '';
+    const [first = ''] = (server.files.get(fileId) ?? '').split('\n');
+    server.files.set(
+      fileId,
+      [first, '{"id":"response_run-2","custom_id":"run-2","response":{', '{not json'].join('\n')
+    );
+
+    const results = await provider.getBatchResults(batch);
+
+    expect(results).toHaveLength(2);
+    expect(results[0]?.customId).toBe('run-1');
+    expect(results[0]?.result?.overallSentiment.score).toBe(82);
+    expect(results[1]).toEqual({
+      customId: 'run-2',
+      error: expect.stringMatching(/malformed batch result/) as unknown,
+    });
+  });
+
+  it('should repair invalid batch results with a real-time request', async () => {
+    const truncated = JSON.stringify(analysis).slice(0, 120);
+    // Batch lines carry a custom ID, the repair request does not
+    respond = (request) => ({
+      content: request.custom_id ? truncated : JSON.stringify(analysis),
+    });
+
+    const submitted = await provider.submitAnalysisBatch([{ customId: 'run-1', input }]);
+    server.finish(submitted.id);
+
+    const results = await provider.getBatchResults(await provider.getBatch(submitted.id));
+
+    expect(results[0]?.error).toBeUndefined();
+    expect(results[0]?.result?.overallSentiment.score).toBe(82);
+    expect(results[0]?.result?.tokensUsed).toBe(200);
+  });
+
+  it('should return no results for a batch that failed as a whole', async () => {
+    const submitted = await provider.submitAnalysisBatch([{ customId: 'run-1', input }]);
+    const batch = server.batches.get(submitted.id);
+    if (batch) {
+      batch.status = 'failed';
+    }
+
+    const failed = await provider.getBatch(submitted.id);
+
+    expect(failed.status).toBe('failed');
+    expect(await provider.getBatchResults(failed)).toEqual([]);
+  });
+
+  it('should ask for the analysis language', async () => {
+    const batch = await provider.submitAnalysisBatch([
+      { customId: 'run-1', input: { ...input, analysisLanguage: 'sv' } },
+    ]);
+
+    const prompt = server.getRequests(batch.id)[0]?.body.messages[1]?.content ?? '';
+    expect(prompt).toContain('generate a structured report in Swedish');
+    expect(prompt).toContain('All text must be in Swedish');
+  });
+
+  it('should reject batch results written in another language', async () => {
+    respond = () => ({ content: JSON.stringify(englishAnalysis) });
+    const submitted = await provider.submitAnalysisBatch([
+      { customId: 'run-1', input },
+      { customId: 'run-2', input: { ...input, analysisLanguage: 'en' } },
+    ]);
+    server.finish(submitted.id);
+
+    const results = await provider.getBatchResults(
+      await provider.getBatch(submitted.id),
+      new Map([
+        ['run-1', 'da'],
+        ['run-2', 'en'],
+      ])
+    );
+    const byId = new Map(results.map((result) => [result.customId, result]));
+
+    expect(byId.get('run-1')?.error).toMatch(/answered in English instead of Danish/);
+    expect(byId.get('run-2')?.result?.overallSentiment.score).toBe(82);
+  });
+
+  it('should list the known themes and canonicalise theme keys', async () => {
+    respond = () => ({
+      content: JSON.stringify({
+        ...analysis,
+        themes: [
+          { ...analysis.themes[0], key: 'Friendly Staff' },
+          { ...analysis.themes[0], name: 'Lang ventetid på maden' },
+        ],
+      }),
+    });
+    const submitted = await provider.submitAnalysisBatch([
+      {
+        customId: 'run-1',
+        input: { ...input, knownThemes: [{ key: 'friendly-staff', name: 'Service' }] },
+      },
+    ]);
+    server.finish(submitted.id);
+
+    const prompt = server.getRequests(submitted.id)[0]?.body.messages[1]?.content ?? '';
+    expect(prompt).toContain('KNOWN THEMES');
+    expect(prompt).toContain('- friendly-staff: Service');
+
+    const results = await provider.getBatchResults(await provider.getBatch(submitted.id));
+    expect(results[0]?.result?.themes.map((theme) => theme.key)).toEqual([
+      'friendly-staff',
+      'lang-ventetid-pa-maden',
+    ]);
+  });
+
+  it('should throw on API errors', async () => {
+    await expect(provider.getBatch('batch_unknown')).rejects.toThrow(/API error: 404/);
+  });
+
+  it('should not submit without an API key', async () => {
+    const unconfigured = new Provider({ apiKey: '' });
+
+    await expect(unconfigured.submitAnalysisBatch([{ customId: 'run-1', input }])).rejects.toThrow(
+      /API is not configured/
+    );
+  });
+});
+
+describe.each([
+  { name: 'GrokProvider', Provider: GrokProvider },
+  { name: 'OpenAIProvider', Provider: OpenAIProvider },
+])('$name analysis language', ({ Provider }) => {
+  let server: FakeBatchServer;
+  let provider: BaseAIProvider;
+  let content: string;
+
+  beforeEach(async () => {
+    content = JSON.stringify(analysis);
+    server = new FakeBatchServer(() => ({ content }));
+    const baseUrl = await server.listen();
+    provider = new Provider({ apiKey: 'test-key', model: 'test-model', baseUrl });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should accept an analysis in the requested language', async () => {
+    content = JSON.stringify(englishAnalysis);
+
+    const result = await provider.analyze({ ...input, analysisLanguage: 'en' });
+
+    expect(result.topImprovementPoint).toBe('The waiting time is too long on busy evenings');
+  });
+
+  it('should reject an analysis written in another language', async () => {
+    content = JSON.stringify(englishAnalysis);
+
+    await expect(provider.analyze(input)).rejects.toThrow(/answered in English instead of Danish/);
+  });
+
+  it('should ask for reply drafts in the business language', async () => {
+    const prompts: string[] = [];
+    await server.close();
+    server = new FakeBatchServer((request) => {
+      prompts.push(request.body.messages[1]?.content ?? '');
+      return { content: 'Vielen Dank für Ihren Besuch, wir freuen uns sehr über die Bewertung!' };
+    });
+    provider = new Provider({ apiKey: 'test-key', baseUrl: await server.listen() });
+
+    const result = await provider.generateResponse({
+      review: { rating: 5, feedbackText: 'Sehr gutes Essen', customerName: 'Jonas' },
+      businessName: 'Café Hygge',
+      language: 'de',
+    });
+
+    expect(prompts[0]).toContain('Write the response in German.');
+    expect(result.responseText).toContain('Vielen Dank');
+  });
+
+  it('should reject a reply draft written in another language', async () => {
+    content = 'Thank you so much for the kind words, we are very happy that the food was good!';
+
+    await expect(
+      provider.generateResponse({
+        review: { rating: 5, customerName: 'Anders' },
+        businessName: 'Café Hygge',
+        language: 'da',
+      })
+    ).rejects.toThrow(/answered in English instead of Danish/);
+  });
+});
+
+describe.each([
+  { name: 'GrokProvider', Provider: GrokProvider },
+  { name: 'OpenAIProvider', Provider: OpenAIProvider },
+])('$name analysis validation', ({ Provider }) => {
+  let server: FakeBatchServer;
+  let provider: BaseAIProvider;
+  let requests: FakeBatchRequestLine[];
+  let responses: string[];
+
+  beforeEach(async () => {
+    requests = [];
+    responses = [];
+    server = new FakeBatchServer((request) => {
+      requests.push(request);
+      return { content: responses.shift() ?? JSON.stringify(analysis) };
+    });
+    const baseUrl = await server.listen();
+    provider = new Provider({ apiKey: 'test-key', model: 'test-model', baseUrl });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should ask for JSON output', async () => {
+    await provider.analyze(input);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('should accept JSON wrapped in a code block or text', async () => {
+    responses = [`Her er analysen:\n\`\`\`json\n${JSON.stringify(analysis)}\n\`\`\``];
+
+    const result = await provider.analyze(input);
+
+    expect(result.overallSentiment.score).toBe(82);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should repair a cut off analysis', async () => {
+    const truncated = JSON.stringify(analysis).slice(0, 150);
+    responses = [truncated, JSON.stringify(analysis)];
+
+    const result = await provider.analyze(input);
+
+    expect(result.themes[0]?.name).toBe('Service');
+    expect(result.tokensUsed).toBe(200);
+    const repairPrompt = requests[1]?.body.messages[1]?.content ?? '';
+    expect(repairPrompt).toContain('Invalid JSON');
+    expect(repairPrompt).toContain(truncated);
+  });
+
+  it('should repair an analysis that does not match the schema', async () => {
+    responses = [
+      JSON.stringify({ ...analysis, overallSentiment: { score: 'high', label: 'great' } }),
+      JSON.stringify(analysis),
+    ];
+
+    const result = await provider.analyze(input);
+
+    expect(result.overallSentiment.label).toBe('positive');
+    const repairPrompt = requests[1]?.body.messages[1]?.content ?? '';
+    expect(repairPrompt).toContain('overallSentiment.score');
+    expect(repairPrompt).toContain('overallSentiment.label');
+  });
+
+  it('should fail with the raw response when the repair is invalid too', async () => {
+    responses = ['{"overallSentiment": {"score": 82', 'Beklager, det kan jeg ikke'];
+
+    const error = await provider.analyze(input).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AIResponseError);
+    expect((error as AIResponseError).message).toMatch(/invalid analysis, also after a repair/);
+    expect((error as AIResponseError).rawResponse).toBe('{"overallSentiment": {"score": 82');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HttpSmsProvider } from '../../src/providers/sms/HttpSmsProvider.js';
+
+describe('HttpSmsProvider', () => {
+  const fetchMock = vi.fn();
+  let provider: HttpSmsProvider;
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    provider = new HttpSmsProvider({
+      url: 'https://sms.example.com/messages/',
+      apiKey: 'test-key',
+      senderId: 'EasyRate',
+      webhookSecret: 'secret',
+    });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the message and return the gateway message id', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ id: 'msg-1' }), { status: 200 }));
+
+    const result = await provider.send({ to: '12345678', content: 'Hej', fromName: 'Restaurant' });
+
+    expect(result).toEqual({ success: true, messageId: 'msg-1', provider: 'http_sms' });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://sms.example.com/messages',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ to: '+4512345678', from: 'Restaurant', text: 'Hej' }),
+      })
+    );
+  });
+
+  it('should mark invalid phone numbers as permanent without calling the gateway', async () => {
+    const result = await provider.send({ to: 'abc', content: 'Hej' });
+
+    expect(result.success).toBe(false);
+    expect(result.permanent).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should mark rejected messages as permanent and server errors as not', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('bad number', { status: 422 }));
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 503 }));
+
+    const rejected = await provider.send({ to: '12345678', content: 'Hej' });
+    const unavailable = await provider.send({ to: '12345678', content: 'Hej' });
+
+    expect(rejected).toMatchObject({
+      success: false,
+      error: 'HTTP 422: bad number',
+      permanent: true,
+    });
+    expect(unavailable).toMatchObject({ success: false, error: 'HTTP 503', permanent: false });
+  });
+
+  it('should verify the webhook secret', () => {
+    expect(provider.verifyWebhookSignature('', 'secret')).toBe(true);
+    expect(provider.verifyWebhookSignature('', 'wrong')).toBe(false);
+  });
+
+  it('should map gateway statuses', () => {
+    expect(HttpSmsProvider.mapStatus('DELIVERED')).toBe('delivered');
+    expect(HttpSmsProvider.mapStatus('undelivered')).toBe('failed');
+    expect(HttpSmsProvider.mapStatus('accepted')).toBe('sent');
+  });
+});
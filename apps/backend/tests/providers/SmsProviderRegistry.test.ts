@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { SmsProvider } from '@easyrate/shared';
+import {
+  SmsProviderRegistry,
+  FailoverSmsProvider,
+} from '../../src/providers/sms/SmsProviderRegistry.js';
+import { MockSmsProvider } from '../__mocks__/providers/MockSmsProvider.js';
+
+describe('SmsProviderRegistry', () => {
+  let registry: SmsProviderRegistry;
+  let inmobile: MockSmsProvider;
+  let httpSms: MockSmsProvider;
+  let httpSmsConfigured: boolean;
+
+  const message = { to: '+4512345678', content: 'Hej' };
+
+  beforeEach(() => {
+    inmobile = new MockSmsProvider();
+    httpSms = new MockSmsProvider();
+    httpSmsConfigured = true;
+
+    registry = new SmsProviderRegistry({ failureThreshold: 2, cooldownMs: 60_000 });
+    registry.register('inmobile', {
+      isConfigured: () => true,
+      create: () => inmobile as unknown as SmsProvider,
+    });
+    registry.register('http_sms', {
+      isConfigured: () => httpSmsConfigured,
+      create: () => httpSms as unknown as SmsProvider,
+    });
+  });
+
+  describe('resolveOrder', () => {
+    it('should use registration order by default', () => {
+      expect(registry.resolveOrder()).toEqual(['inmobile', 'http_sms']);
+    });
+
+    it('should put the preferred provider first', () => {
+      expect(registry.resolveOrder('http_sms')).toEqual(['http_sms', 'inmobile']);
+      expect(registry.resolveOrder(undefined, 'http_sms')).toEqual(['http_sms', 'inmobile']);
+    });
+
+    it('should skip preferred providers that are not configured', () => {
+      httpSmsConfigured = false;
+
+      expect(registry.resolveOrder('http_sms')).toEqual(['inmobile']);
+    });
+  });
+
+  describe('send', () => {
+    it('should send via the primary and record the provider', async () => {
+      const result = await registry.send(message);
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('inmobile');
+      expect(inmobile.getCallCount()).toBe(1);
+      expect(httpSms.getCallCount()).toBe(0);
+    });
+
+    it('should fail over to the next provider when the primary fails', async () => {
+      inmobile.simulateFailure('HTTP 503');
+
+      const result = await registry.send(message);
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('http_sms');
+      expect(inmobile.getCallCount()).toBe(1);
+      expect(httpSms.getCallCount()).toBe(1);
+    });
+
+    it('should fail over when the primary throws', async () => {
+      inmobile.send.mockRejectedValueOnce(new Error('socket hang up'));
+
+      const result = await registry.send(message);
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('http_sms');
+    });
+
+    it('should not fail over on permanent errors', async () => {
+      inmobile.send.mockResolvedValueOnce({
+        success: false,
+        error: 'Invalid phone number: 123',
+        permanent: true,
+      });
+
+      const result = await registry.send(message);
+
+      expect(result.success).toBe(false);
+      expect(result.provider).toBe('inmobile');
+      expect(httpSms.getCallCount()).toBe(0);
+    });
+
+    it('should return all errors when every provider fails', async () => {
+      inmobile.simulateFailure('HTTP 503');
+      httpSms.simulateFailure('HTTP 500');
+
+      const result = await registry.send(message);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('inmobile: HTTP 503; http_sms: HTTP 500');
+    });
+
+    it('should fail when no provider is configured', async () => {
+      const empty = new SmsProviderRegistry();
+
+      const result = await empty.send(message);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No SMS provider is configured');
+    });
+
+    it('should move a failing provider last until it recovers', async () => {
+      inmobile.simulateFailure('HTTP 503');
+      await registry.send(message);
+      await registry.send(message);
+
+      expect(registry.resolveOrder()).toEqual(['http_sms', 'inmobile']);
+
+      // During the cooldown sends skip straight to the working provider
+      await registry.send(message);
+      expect(inmobile.getCallCount()).toBe(2);
+
+      registry.reset();
+      expect(registry.resolveOrder()).toEqual(['inmobile', 'http_sms']);
+    });
+  });
+
+  describe('FailoverSmsProvider', () => {
+    it('should send through the registry with its preference', async () => {
+      const provider = new FailoverSmsProvider(registry, 'http_sms');
+
+      const result = await provider.send(message);
+
+      expect(result.provider).toBe('http_sms');
+      expect(httpSms.getCallCount()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SmtpProvider, type SmtpConfig } from '../../src/providers/email/SmtpProvider.js';
+import { SmtpSink, type SmtpSinkOptions } from '../__mocks__/providers/SmtpSink.js';
+
+describe('SmtpProvider', () => {
+  let sink: SmtpSink;
+
+  async function createProvider(
+    sinkOptions: SmtpSinkOptions = {},
+    config: Partial<SmtpConfig> = {}
+  ): Promise<SmtpProvider> {
+    sink = new SmtpSink({ username: 'relay-user', password: 'relay-pass', ...sinkOptions });
+    const port = await sink.listen();
+
+    return new SmtpProvider({
+      host: '127.0.0.1',
+      port,
+      security: 'none',
+      username: 'relay-user',
+      password: 'relay-pass',
+      fromEmail: 'noreply@restaurant.dk',
+      fromName: 'EasyRate',
+      ...config,
+    });
+  }
+
+  function decodeBase64Part(data: string, contentType: string): string {
+    const start = data.indexOf(`Content-Type: ${contentType}`);
+    const body = data.slice(start).split('\r\n\r\n')[1] ?? '';
+    const encoded = body.split('\r\n--')[0] ?? '';
+    return Buffer.from(encoded.replace(/\r\n/g, ''), 'base64').toString('utf-8');
+  }
+
+  beforeEach(() => {
+    sink = new SmtpSink();
+  });
+
+  afterEach(async () => {
+    await sink.close();
+  });
+
+  it('should deliver the message with a Message-ID matching the returned id', async () => {
+    const provider = await createProvider();
+
+    const result = await provider.send({
+      to: 'anders@example.com',
+      subject: 'Hvordan var dit besøg?',
+      content: 'Hej Anders, giv os en anmeldelse',
+      fromName: 'Café Ærø',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe('smtp');
+    expect(result.messageId).toMatch(/^[0-9a-f-]+@restaurant\.dk$/);
+
+    const [message] = sink.messages;
+    expect(message?.from).toBe('noreply@restaurant.dk');
+    expect(message?.to).toEqual(['anders@example.com']);
+    const data = message?.data ?? '';
+    expect(data).toContain(`Message-ID: <${result.messageId ?? ''}>`);
+    expect(data).toContain('Subject: =?UTF-8?B?');
+    expect(data).toContain('From: =?UTF-8?B?');
+    expect(decodeBase64Part(data, 'text/plain')).toBe('Hej Anders, giv os en anmeldelse');
+  });
+
+  it('should request DSN with the message id as envelope id', async () => {
+    const provider = await createProvider();
+
+    const result = await provider.send({ to: 'anders@example.com', content: 'Hej' });
+
+    expect(sink.messages[0]?.mailParams).toBe(`RET=HDRS ENVID=${result.messageId ?? ''}`);
+    expect(sink.commands).toContain('RCPT TO:<anders@example.com> NOTIFY=FAILURE,DELAY');
+  });
+
+  it('should not use DSN parameters when the server does not support them', async () => {
+    const provider = await createProvider({ extensions: ['AUTH PLAIN'] });
+
+    await provider.send({ to: 'anders@example.com', content: 'Hej' });
+
+    expect(sink.messages[0]?.mailParams).toBe('');
+  });
+
+  it('should authenticate with AUTH LOGIN when PLAIN is not offered', async () => {
+    const provider = await createProvider({ extensions: ['AUTH LOGIN'] });
+
+    const result = await provider.send({ to: 'anders@example.com', content: 'Hej' });
+
+    expect(result.success).toBe(true);
+    expect(sink.commands).toContain('AUTH LOGIN');
+  });
+
+  it('should fail on invalid credentials without echoing them', async () => {
+    const provider = await createProvider({}, { password: 'wrong' });
+
+    const result = await provider.send({ to: 'anders@example.com', content: 'Hej' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('AUTH failed: 535 5.7.8 Authentication credentials invalid');
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should mark rejected recipients as permanent failures', async () => {
+    const provider = await createProvider({ rejectRecipients: ['gone@example.com'] });
+
+    const result = await provider.send({ to: 'gone@example.com', content: 'Hej' });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'RCPT failed: 550 5.1.1 User unknown',
+      permanent: true,
+    });
+  });
+
+  it('should send from the default address when the relay rejects the sender', async () => {
+    const provider = await createProvider({ rejectSenders: ['kontakt@cafe.dk'] });
+
+    const result = await provider.send({
+      to: 'guest@example.com',
+      content: 'Hej',
+      from: 'kontakt@cafe.dk',
+      fromName: 'Cafe Nord',
+    });
+
+    expect(result.success).toBe(true);
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0]?.from).toBe('noreply@restaurant.dk');
+    expect(sink.messages[0]?.data).toContain('From: "Cafe Nord" <noreply@restaurant.dk>');
+  });
+
+  it('should refuse to send unencrypted when STARTTLS is required but not offered', async () => {
+    const provider = await createProvider({}, { security: 'starttls' });
+
+    const result = await provider.send({ to: 'anders@example.com', content: 'Hej' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Server does not support STARTTLS');
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should send HTML with a plain text alternative', async () => {
+    const provider = await createProvider();
+
+    await provider.send({
+      to: 'anders@example.com',
+      content: 'Tak for besøget',
+      html: '<p>Tak for besøget</p>',
+    });
+
+    const data = sink.messages[0]?.data ?? '';
+    expect(data).toContain('Content-Type: multipart/alternative');
+    expect(decodeBase64Part(data, 'text/plain')).toBe('Tak for besøget');
+    expect(decodeBase64Part(data, 'text/html')).toBe('<p>Tak for besøget</p>');
+  });
+
+  it('should strip line breaks from header values', async () => {
+    const provider = await createProvider();
+
+    await provider.send({
+      to: 'anders@example.com',
+      subject: 'Hej\r\nBcc: victim@example.com',
+      content: 'Hej',
+    });
+
+    expect(sink.messages[0]?.data).toContain('Subject: Hej Bcc: victim@example.com');
+    expect(sink.messages[0]?.data).not.toContain('\r\nBcc:');
+  });
+});
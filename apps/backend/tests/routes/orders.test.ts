@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import express, { type Express } from 'express';
+import { Business } from '../../src/models/Business.js';
+import { OrderQueue } from '../../src/models/OrderQueue.js';
+import ordersRoutes from '../../src/routes/orders.js';
+import { errorHandler } from '../../src/middleware/errorHandler.js';
+
+describe('Order API Routes', () => {
+  let app: Express;
+  let testBusinessId: string;
+  const apiKey = 'er_test_key_12345';
+
+  const order = {
+    orderId: 'POS-1001',
+    source: 'lightspeed',
+    customerName: 'Anders',
+    customerPhone: '+4512345678',
+  };
+
+  beforeEach(async () => {
+    app = express();
+    app.use(express.json());
+    app.use('/orders', ordersRoutes);
+    app.use(errorHandler);
+
+    const business = await Business.create({
+      name: 'Test Restaurant',
+      email: 'test@restaurant.com',
+      integrations: [
+        {
+          platform: 'api',
+          enabled: true,
+          apiKey,
+          settings: { defaultDelayMinutes: 30, sourceDelays: { lightspeed: 0 } },
+        },
+      ],
+    });
+    testBusinessId = business._id.toString();
+  });
+
+  it('should reject requests without a valid API key', async () => {
+    const response = await request(app).post('/orders').send(order);
+    expect(response.status).toBe(401);
+
+    const invalid = await request(app).post('/orders').set('X-API-Key', 'wrong').send(order);
+    expect(invalid.status).toBe(401);
+  });
+
+  it('should reject the key of another integration', async () => {
+    await Business.findByIdAndUpdate(testBusinessId, {
+      $push: { integrations: { platform: 'dully', enabled: true, apiKey: 'dully_key_12345' } },
+    });
+
+    const response = await request(app)
+      .post('/orders')
+      .set('X-API-Key', 'dully_key_12345')
+      .send(order);
+
+    expect(response.status).toBe(401);
+    expect(await OrderQueue.countDocuments({ businessId: testBusinessId })).toBe(0);
+  });
+
+  it('should revoke access when the API integration is disabled', async () => {
+    await Business.updateOne(
+      { _id: testBusinessId, 'integrations.platform': 'api' },
+      {
+        $set: { 'integrations.$.enabled': false },
+        $push: { integrations: { platform: 'dully', enabled: true, apiKey: 'dully_key_12345' } },
+      }
+    );
+
+    const response = await request(app).post('/orders').set('X-API-Key', apiKey).send(order);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should queue an order using the source delay', async () => {
+    const before = Date.now();
+    const response = await request(app).post('/orders').set('X-API-Key', apiKey).send(order);
+
+    expect(response.status).toBe(202);
+    expect(response.body.data.order.orderId).toBe('POS-1001');
+
+    const queued = await OrderQueue.findOne({ businessId: testBusinessId });
+    expect(queued?.platform).toBe('api');
+    expect(queued?.orderData.source).toBe('lightspeed');
+    expect(queued?.scheduledFor.getTime()).toBeLessThan(before + 60 * 1000);
+
+    const business = await Business.findById(testBusinessId);
+    expect(business?.integrations[0]?.webhookCount).toBe(1);
+  });
+
+  it('should require a phone number or email', async () => {
+    const response = await request(app)
+      .post('/orders')
+      .set('X-API-Key', apiKey)
+      .send({ orderId: 'POS-1002' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should replay the stored response for a repeated Idempotency-Key', async () => {
+    const first = await request(app)
+      .post('/orders')
+      .set('X-API-Key', apiKey)
+      .set('Idempotency-Key', 'key-1')
+      .send(order);
+    const second = await request(app)
+      .post('/orders')
+      .set('X-API-Key', apiKey)
+      .set('Idempotency-Key', 'key-1')
+      .send(order);
+
+    expect(second.status).toBe(202);
+    expect(second.headers['idempotent-replayed']).toBe('true');
+    expect(second.body.data.order.id).toBe(first.body.data.order.id);
+    expect(await OrderQueue.countDocuments({ businessId: testBusinessId })).toBe(1);
+
+    const conflict = await request(app)
+      .post('/orders')
+      .set('X-API-Key', apiKey)
+      .set('Idempotency-Key', 'key-1')
+      .send({ ...order, orderId: 'POS-2000' });
+    expect(conflict.status).toBe(409);
+  });
+
+  it('should accept valid orders in a batch and report invalid ones', async () => {
+    const response = await request(app)
+      .post('/orders/batch')
+      .set('X-API-Key', apiKey)
+      .send({
+        orders: [order, { orderId: 'POS-1002' }, { ...order, orderId: 'POS-1003' }],
+      });
+
+    expect(response.status).toBe(202);
+    expect(response.body.data.accepted).toBe(2);
+    expect(response.body.data.rejected).toBe(1);
+    expect(response.body.data.results[1]).toMatchObject({
+      index: 1,
+      orderId: 'POS-1002',
+      success: false,
+    });
+    expect(await OrderQueue.countDocuments({ businessId: testBusinessId })).toBe(2);
+  });
+
+  it('should cancel a pending order', async () => {
+    await request(app).post('/orders').set('X-API-Key', apiKey).send(order);
+
+    const response = await request(app)
+      .post('/orders/POS-1001/cancel')
+      .set('X-API-Key', apiKey)
+      .send({ reason: 'Refunderet' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.cancelled).toBe(true);
+
+    const queued = await OrderQueue.findOne({ businessId: testBusinessId });
+    expect(queued?.status).toBe('cancelled');
+    expect(queued?.cancelReason).toBe('Refunderet');
+  });
+});
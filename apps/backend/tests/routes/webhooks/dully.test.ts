@@ -7,6 +7,7 @@ import { Business } from '../../../src/models/Business.js';
 import { OrderQueue } from '../../../src/models/OrderQueue.js';
 import dullyWebhookRoutes from '../../../src/routes/webhooks/dully.js';
 import { errorHandler } from '../../../src/middleware/errorHandler.js';
+import { captureRawBody } from '../../../src/middleware/rawBody.js';
 
 describe('Dully Webhook Routes', () => {
   let app: Express;
@@ -59,7 +60,7 @@ describe('Dully Webhook Routes', () => {
 
   beforeEach(async () => {
     app = express();
-    app.use(express.json());
+    app.use(express.json({ verify: captureRawBody }));
     app.use('/webhooks/dully', dullyWebhookRoutes);
     app.use(errorHandler);
 
@@ -200,6 +201,34 @@ describe('Dully Webhook Routes', () => {
       expect(integration?.webhookCount).toBe(1);
       expect(integration?.lastWebhookAt).toBeDefined();
     });
+
+    it('should record orders excluded by filter rules as skipped with a trace', async () => {
+      await Business.updateOne(
+        { _id: testBusiness._id, 'integrations.platform': 'dully' },
+        { $set: { 'integrations.$.filterRules': [{ type: 'min_order_total', min: 100 }] } }
+      );
+
+      const payload = {
+        event: 'order.picked_up',
+        orderId: 'order-small',
+        customerPhone: '+4512345678',
+        totalAmount: 45,
+        timestamp: new Date().toISOString(),
+        restaurantId: 'rest-456',
+      };
+
+      const response = await makeWebhookRequest(payload);
+
+      expect(response.status).toBe(200);
+
+      const queuedOrder = await OrderQueue.findOne({
+        businessId: testBusiness._id,
+        orderId: 'order-small',
+      });
+      expect(queuedOrder?.status).toBe('skipped');
+      expect(queuedOrder?.skipReason).toBe('filtered');
+      expect(queuedOrder?.skipTrace?.[0]?.passed).toBe(false);
+    });
   });
 
   describe('POST /webhooks/dully/:businessId - Cancellation handling', () => {
@@ -394,6 +423,32 @@ describe('Dully Webhook Routes', () => {
 
       expect(response.status).toBe(401);
     });
+
+    it('should verify the raw body rather than the re-serialized payload', async () => {
+      // Pretty-printed JSON differs from JSON.stringify(req.body) after parsing
+      const rawBody = JSON.stringify(
+        {
+          event: 'order.picked_up',
+          orderId: 'order-raw-body',
+          timestamp: new Date().toISOString(),
+          restaurantId: 'rest-456',
+        },
+        null,
+        2
+      );
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const webhookId = 'msg_raw';
+
+      const response = await request(app)
+        .post(`/webhooks/dully/${testBusinessId}`)
+        .set('Content-Type', 'application/json')
+        .set('webhook-id', webhookId)
+        .set('webhook-timestamp', timestamp)
+        .set('webhook-signature', computeSignature(webhookSecret, timestamp, webhookId, rawBody))
+        .send(rawBody);
+
+      expect(response.status).toBe(200);
+    });
   });
 
   describe('POST /webhooks/dully/:businessId - Business validation', () => {
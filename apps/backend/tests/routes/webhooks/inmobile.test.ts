@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express, { type Express } from 'express';
+import { Business } from '../../../src/models/Business.js';
+import { Notification } from '../../../src/models/Notification.js';
+import { Suppression } from '../../../src/models/Suppression.js';
+import inmobileWebhookRoutes from '../../../src/routes/webhooks/inmobile.js';
+
+describe('InMobile Webhook Routes', () => {
+  let app: Express;
+  const webhookSecret = 'inmobile-secret';
+
+  function postInbound(secret: string | null = webhookSecret) {
+    const req = request(app).post('/webhooks/inmobile/inbound');
+    if (secret) {
+      req.set('X-InMobile-Secret', secret);
+    }
+    return req.send({ from: '4512345678', text: 'STOP' });
+  }
+
+  beforeEach(async () => {
+    process.env.INMOBILE_WEBHOOK_SECRET = webhookSecret;
+
+    app = express();
+    app.use(express.json());
+    app.use('/webhooks/inmobile', inmobileWebhookRoutes);
+
+    const business = await Business.create({
+      name: 'Test Restaurant',
+      email: 'test@restaurant.com',
+    });
+    await Notification.create({
+      businessId: business._id,
+      type: 'sms',
+      status: 'sent',
+      recipient: '+4512345678',
+      content: 'Hej',
+      reviewLink: 'https://example.com/r/abc',
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.INMOBILE_WEBHOOK_SECRET;
+  });
+
+  it('should suppress the sender of a STOP reply', async () => {
+    const response = await postInbound();
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ received: true, suppressed: true });
+    expect(await Suppression.countDocuments()).toBe(1);
+  });
+
+  it('should reject inbound messages with a missing or wrong secret', async () => {
+    expect((await postInbound(null)).status).toBe(401);
+    expect((await postInbound('wrong-secret')).status).toBe(401);
+    expect(await Suppression.countDocuments()).toBe(0);
+  });
+
+  it('should reject every inbound message when no secret is configured', async () => {
+    delete process.env.INMOBILE_WEBHOOK_SECRET;
+
+    const response = await postInbound(null);
+
+    expect(response.status).toBe(401);
+    expect(await Suppression.countDocuments()).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express, { type Express } from 'express';
+import { Business } from '../../../src/models/Business.js';
+import { Notification } from '../../../src/models/Notification.js';
+import resendWebhookRoutes from '../../../src/routes/webhooks/resend.js';
+import { captureRawBody } from '../../../src/middleware/rawBody.js';
+import { signSvixPayload } from '../../../src/utils/svix.js';
+
+describe('Resend Webhook Routes', () => {
+  let app: Express;
+  let notificationId: string;
+  const webhookSecret = `whsec_${Buffer.from('resend-test-secret').toString('base64')}`;
+
+  function makeWebhookRequest(
+    payload: object,
+    options: { secret?: string; timestamp?: string; omitHeaders?: boolean } = {}
+  ) {
+    const body = JSON.stringify(payload);
+    const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000).toString();
+    const signature = signSvixPayload(options.secret ?? webhookSecret, 'msg_1', timestamp, body);
+
+    const req = request(app)
+      .post('/webhooks/resend/events')
+      .set('Content-Type', 'application/json');
+
+    if (!options.omitHeaders) {
+      req
+        .set('svix-id', 'msg_1')
+        .set('svix-timestamp', timestamp)
+        .set('svix-signature', `v1,${signature}`);
+    }
+
+    return req.send(body);
+  }
+
+  function deliveredEvent() {
+    return {
+      type: 'email.delivered',
+      created_at: new Date().toISOString(),
+      data: { email_id: 'resend-123', to: ['anders@example.com'] },
+    };
+  }
+
+  beforeEach(async () => {
+    process.env.RESEND_WEBHOOK_SECRET = webhookSecret;
+
+    app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.use('/webhooks/resend', resendWebhookRoutes);
+
+    const business = await Business.create({
+      name: 'Test Restaurant',
+      email: 'test@restaurant.com',
+    });
+    const notification = await Notification.create({
+      businessId: business._id,
+      type: 'email',
+      status: 'sent',
+      recipient: 'anders@example.com',
+      content: 'Hej',
+      reviewLink: 'https://example.com/r/abc',
+      externalMessageId: 'resend-123',
+    });
+    notificationId = notification._id.toString();
+  });
+
+  afterEach(() => {
+    delete process.env.RESEND_WEBHOOK_SECRET;
+  });
+
+  it('should update the notification for a correctly signed event', async () => {
+    const response = await makeWebhookRequest(deliveredEvent());
+
+    expect(response.status).toBe(200);
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('delivered');
+  });
+
+  it('should reject forged events', async () => {
+    const secret = `whsec_${Buffer.from('attacker-secret').toString('base64')}`;
+
+    const response = await makeWebhookRequest(deliveredEvent(), { secret });
+
+    expect(response.status).toBe(401);
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('sent');
+  });
+
+  it('should reject events without svix headers', async () => {
+    const response = await makeWebhookRequest(deliveredEvent(), { omitHeaders: true });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject replayed events with stale timestamps', async () => {
+    const timestamp = Math.floor((Date.now() - 10 * 60 * 1000) / 1000).toString();
+
+    const response = await makeWebhookRequest(deliveredEvent(), { timestamp });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject every event when no secret is configured', async () => {
+    delete process.env.RESEND_WEBHOOK_SECRET;
+
+    const response = await makeWebhookRequest(deliveredEvent(), { omitHeaders: true });
+
+    expect(response.status).toBe(401);
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('sent');
+  });
+
+  it('should accept events signed with the previous secret during rotation', async () => {
+    const oldSecret = `whsec_${Buffer.from('old-secret').toString('base64')}`;
+    process.env.RESEND_WEBHOOK_SECRET = `${webhookSecret} ${oldSecret}`;
+
+    const response = await makeWebhookRequest(deliveredEvent(), { secret: oldSecret });
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express, { type Express } from 'express';
+import { Business } from '../../../src/models/Business.js';
+import { Notification } from '../../../src/models/Notification.js';
+import smsHttpWebhookRoutes from '../../../src/routes/webhooks/sms-http.js';
+
+describe('SMS HTTP Webhook Routes', () => {
+  let app: Express;
+  let notificationId: string;
+  const webhookSecret = 'sms-secret';
+
+  function postStatus(secret: string | null = webhookSecret) {
+    const req = request(app).post('/webhooks/sms-http/delivery');
+    if (secret) {
+      req.set('X-Webhook-Secret', secret);
+    }
+    return req.send({ messageId: 'sms-123', status: 'delivered' });
+  }
+
+  beforeEach(async () => {
+    process.env.SMS_HTTP_WEBHOOK_SECRET = webhookSecret;
+
+    app = express();
+    app.use(express.json());
+    app.use('/webhooks/sms-http', smsHttpWebhookRoutes);
+
+    const business = await Business.create({
+      name: 'Test Restaurant',
+      email: 'test@restaurant.com',
+    });
+    const notification = await Notification.create({
+      businessId: business._id,
+      type: 'sms',
+      status: 'sent',
+      recipient: '+4512345678',
+      content: 'Hej',
+      reviewLink: 'https://example.com/r/abc',
+      externalMessageId: 'sms-123',
+      provider: 'http_sms',
+    });
+    notificationId = notification._id.toString();
+  });
+
+  afterEach(() => {
+    delete process.env.SMS_HTTP_WEBHOOK_SECRET;
+  });
+
+  it('should update the notification status', async () => {
+    const response = await postStatus();
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ received: true, updated: true });
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('delivered');
+  });
+
+  it('should reject requests with a missing or wrong secret', async () => {
+    expect((await postStatus(null)).status).toBe(401);
+    expect((await postStatus('wrong-secret')).status).toBe(401);
+
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('sent');
+  });
+
+  it('should reject every request when no secret is configured', async () => {
+    delete process.env.SMS_HTTP_WEBHOOK_SECRET;
+
+    const response = await postStatus('');
+
+    expect(response.status).toBe(401);
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('sent');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express, { type Express } from 'express';
+import { Business } from '../../../src/models/Business.js';
+import { Notification } from '../../../src/models/Notification.js';
+import smtpWebhookRoutes from '../../../src/routes/webhooks/smtp.js';
+
+describe('SMTP Webhook Routes', () => {
+  let app: Express;
+  let notificationId: string;
+  const bounceSecret = 'bounce-secret';
+
+  function dsn(action: 'failed' | 'delayed', messageId = 'abc-123@restaurant.dk'): string {
+    return [
+      'Content-Type: multipart/report; report-type=delivery-status; boundary="B"',
+      '',
+      '--B',
+      'Content-Type: message/delivery-status',
+      '',
+      'Reporting-MTA: dns; mail.restaurant.dk',
+      '',
+      'Final-Recipient: rfc822; anders@example.com',
+      `Action: ${action}`,
+      `Status: ${action === 'failed' ? '5.1.1' : '4.4.1'}`,
+      'Diagnostic-Code: smtp; 550 User unknown',
+      '',
+      '--B',
+      'Content-Type: text/rfc822-headers',
+      '',
+      `Message-ID: <${messageId}>`,
+      '',
+      '--B--',
+    ].join('\r\n');
+  }
+
+  function postBounce(body: string, secret: string | null = bounceSecret) {
+    const req = request(app).post('/webhooks/smtp/bounces').set('Content-Type', 'message/rfc822');
+    if (secret) {
+      req.set('X-Webhook-Secret', secret);
+    }
+    return req.send(body);
+  }
+
+  beforeEach(async () => {
+    process.env.SMTP_BOUNCE_SECRET = bounceSecret;
+
+    app = express();
+    app.use(express.json());
+    app.use('/webhooks/smtp', smtpWebhookRoutes);
+
+    const business = await Business.create({
+      name: 'Test Restaurant',
+      email: 'test@restaurant.com',
+    });
+    const notification = await Notification.create({
+      businessId: business._id,
+      type: 'email',
+      status: 'sent',
+      recipient: 'anders@example.com',
+      content: 'Hej',
+      reviewLink: 'https://example.com/r/abc',
+      externalMessageId: 'abc-123@restaurant.dk',
+      provider: 'smtp',
+    });
+    notificationId = notification._id.toString();
+  });
+
+  afterEach(() => {
+    delete process.env.SMTP_BOUNCE_SECRET;
+  });
+
+  it('should mark the notification bounced for a failed DSN', async () => {
+    const response = await postBounce(dsn('failed'));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ received: true, updated: true });
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('bounced');
+    expect(notification?.errorMessage).toBe('5.1.1 550 User unknown');
+  });
+
+  it('should leave the notification unchanged for a delay report', async () => {
+    const response = await postBounce(dsn('delayed'));
+
+    expect(response.body).toEqual({ received: true, updated: false });
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('sent');
+  });
+
+  it('should acknowledge bounces for unknown messages', async () => {
+    const response = await postBounce(dsn('failed', 'unknown@restaurant.dk'));
+
+    expect(response.body).toEqual({ received: true, found: false });
+  });
+
+  it('should acknowledge messages that are not delivery reports', async () => {
+    const response = await postBounce('Subject: Out of office\r\n\r\nI am away.');
+
+    expect(response.body).toEqual({ received: true, parsed: false });
+  });
+
+  it('should reject requests without the bounce secret', async () => {
+    const response = await postBounce(dsn('failed'), null);
+
+    expect(response.status).toBe(401);
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('sent');
+  });
+
+  it('should reject requests with a wrong bounce secret', async () => {
+    const response = await postBounce(dsn('failed'), 'wrong-secret');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject every request when no bounce secret is configured', async () => {
+    delete process.env.SMTP_BOUNCE_SECRET;
+
+    const response = await postBounce(dsn('failed'), null);
+
+    expect(response.status).toBe(401);
+    const notification = await Notification.findById(notificationId);
+    expect(notification?.status).toBe('sent');
+  });
+});
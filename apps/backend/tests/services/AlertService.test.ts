@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AlertSettings, Review } from '@easyrate/shared';
+import { FEEDBACK_ALERTS } from '@easyrate/shared';
+import {
+  AlertService,
+  getAlertTriggers,
+  resolveAlertAddresses,
+} from '../../src/services/AlertService.js';
+import { Business } from '../../src/models/Business.js';
+import { FeedbackAlert } from '../../src/models/FeedbackAlert.js';
+
+const { mockEmailProvider } = vi.hoisted(() => ({
+  mockEmailProvider: {
+    send: vi.fn().mockResolvedValue({ success: true, messageId: 'mock-email-id' }),
+  },
+}));
+
+// Only email is configured - SMS alerts are recorded as failed deliveries
+vi.mock('../../src/providers/index.js', () => ({
+  getEmailProvider: () => mockEmailProvider,
+  getSmsProvider: () => mockEmailProvider,
+  isEmailConfigured: () => true,
+  isSmsConfigured: () => false,
+}));
+
+const settings: AlertSettings = {
+  enabled: true,
+  ratingThreshold: 2,
+  keywords: ['Madforgiftning', 'uhøflig'],
+  googleReviews: true,
+  notifyOwner: true,
+  ownerChannels: ['email'],
+  recipients: [],
+  deliveryMode: 'instant',
+  digestTime: '08:00',
+};
+
+describe('AlertService', () => {
+  describe('getAlertTriggers', () => {
+    it('should trigger on ratings at or below the threshold', () => {
+      expect(getAlertTriggers(settings, { source: 'review', rating: 2 }).triggers).toEqual([
+        'rating',
+      ]);
+      expect(getAlertTriggers(settings, { source: 'review', rating: 3 }).triggers).toEqual([]);
+    });
+
+    it('should match keywords case-insensitively regardless of rating', () => {
+      const match = getAlertTriggers(settings, {
+        source: 'review',
+        rating: 5,
+        text: 'God mad, men tjeneren var UHØFLIG',
+      });
+
+      expect(match.triggers).toEqual(['keyword']);
+      expect(match.matchedKeywords).toEqual(['uhøflig']);
+    });
+
+    it('should only use the google rule for Google reviews', () => {
+      expect(
+        getAlertTriggers(settings, { source: 'google_review', rating: 1, text: 'uhøflig' }).triggers
+      ).toEqual(['google_review']);
+      expect(
+        getAlertTriggers(
+          { ...settings, googleReviews: false },
+          { source: 'google_review', rating: 1 }
+        ).triggers
+      ).toEqual([]);
+    });
+  });
+
+  describe('resolveAlertAddresses', () => {
+    it('should combine owner and staff without duplicates', () => {
+      const addresses = resolveAlertAddresses(
+        {
+          ...settings,
+          ownerChannels: ['email', 'sms'],
+          recipients: [
+            { name: 'Chef', email: 'owner@restaurant.com', channels: ['email'] },
+            { name: 'Vagt', phone: '+4512345678', channels: ['sms'] },
+          ],
+        },
+        { email: 'owner@restaurant.com' }
+      );
+
+      expect(addresses).toEqual([
+        { channel: 'email', address: 'owner@restaurant.com' },
+        { channel: 'sms', address: '+4512345678' },
+      ]);
+    });
+  });
+
+  describe('handleReview', () => {
+    let service: AlertService;
+    let businessId: string;
+
+    const review = (rating: Review['rating'], feedbackText?: string): Review =>
+      ({
+        id: '507f1f77bcf86cd799439011',
+        businessId,
+        rating,
+        feedbackText,
+        customer: { name: 'Anders' },
+      }) as Review;
+
+    beforeEach(async () => {
+      service = new AlertService();
+
+      const business = await Business.create({
+        name: 'Test Restaurant',
+        email: 'owner@restaurant.com',
+        settings: { alerts: settings },
+      });
+      businessId = business._id.toString();
+    });
+
+    it('should send an instant alert to the owner and record it', async () => {
+      await service.handleReview(businessId, review(1, 'Kold mad'));
+
+      const alerts = await FeedbackAlert.find({ businessId });
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]?.status).toBe('sent');
+      expect(alerts[0]?.triggers).toEqual(['rating']);
+      expect(mockEmailProvider.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'owner@restaurant.com' })
+      );
+    });
+
+    it('should not alert on reviews that match no rule', async () => {
+      await service.handleReview(businessId, review(4, 'Alt var fint'));
+
+      expect(await FeedbackAlert.countDocuments({ businessId })).toBe(0);
+      expect(mockEmailProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should collect digest alerts and send them after the digest time', async () => {
+      await Business.updateOne({ _id: businessId }, { 'settings.alerts.deliveryMode': 'digest' });
+
+      await service.handleReview(businessId, review(1));
+      await service.handleReview(businessId, review(2));
+      expect(mockEmailProvider.send).not.toHaveBeenCalled();
+
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      expect(await service.sendDueDigests(tomorrow)).toBe(1);
+
+      expect(mockEmailProvider.send).toHaveBeenCalledTimes(1);
+      const alerts = await FeedbackAlert.find({ businessId });
+      expect(alerts.every((alert) => alert.status === 'sent')).toBe(true);
+    });
+
+    it('should keep a digest nobody received pending until the attempts run out', async () => {
+      await Business.updateOne({ _id: businessId }, { 'settings.alerts.deliveryMode': 'digest' });
+      await service.handleReview(businessId, review(1));
+      for (let attempt = 0; attempt < FEEDBACK_ALERTS.maxDigestAttempts; attempt++) {
+        mockEmailProvider.send.mockResolvedValueOnce({ success: false, error: 'Provider down' });
+      }
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      await service.sendDueDigests(tomorrow);
+
+      let alert = await FeedbackAlert.findOne({ businessId });
+      expect(alert?.status).toBe('pending_digest');
+      expect(alert?.digestAttempts).toBe(1);
+
+      for (let attempt = 1; attempt < FEEDBACK_ALERTS.maxDigestAttempts; attempt++) {
+        await service.sendDueDigests(tomorrow);
+      }
+
+      alert = await FeedbackAlert.findOne({ businessId });
+      expect(alert?.status).toBe('failed');
+      expect(alert?.digestAttempts).toBe(FEEDBACK_ALERTS.maxDigestAttempts);
+      expect(mockEmailProvider.send).toHaveBeenCalledTimes(FEEDBACK_ALERTS.maxDigestAttempts);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ContactFrequencySettings, OrderData } from '@easyrate/shared';
+import { ContactFrequencyService } from '../../src/services/ContactFrequencyService.js';
+import { ReviewService } from '../../src/services/ReviewService.js';
+import { Business } from '../../src/models/Business.js';
+import { Notification } from '../../src/models/Notification.js';
+
+const settings: ContactFrequencySettings = {
+  enabled: true,
+  maxRequests: 1,
+  periodDays: 30,
+  skipIfReviewedWithinDays: 90,
+};
+
+function buildOrder(overrides: Partial<OrderData> = {}): OrderData {
+  return {
+    orderId: 'order-2',
+    orderDate: new Date(),
+    platform: 'dully',
+    ...overrides,
+  };
+}
+
+function phoneOrder(): OrderData {
+  return buildOrder({ customerPhone: '12345678' });
+}
+
+describe('ContactFrequencyService', () => {
+  let service: ContactFrequencyService;
+  let testBusinessId: string;
+
+  beforeEach(async () => {
+    service = new ContactFrequencyService();
+
+    const business = new Business({
+      name: 'Test Restaurant',
+      email: 'test@restaurant.com',
+    });
+    await business.save();
+    testBusinessId = business._id.toString();
+  });
+
+  async function createNotification(
+    recipient: string,
+    orderId: string,
+    createdAt = new Date(),
+    reminderStep = 0
+  ): Promise<void> {
+    const notification = await Notification.create({
+      businessId: testBusinessId,
+      type: recipient.includes('@') ? 'email' : 'sms',
+      status: 'sent',
+      recipient,
+      content: 'Hej',
+      reviewLink: 'https://example.com/r/abc',
+      orderId,
+      reminderStep,
+    });
+    // Bypass timestamps to backdate the notification
+    await Notification.collection.updateOne({ _id: notification._id }, { $set: { createdAt } });
+  }
+
+  it('should allow orders when disabled', async () => {
+    await createNotification('+4512345678', 'order-1');
+
+    const result = await service.evaluate(testBusinessId, phoneOrder(), {
+      ...settings,
+      enabled: false,
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it('should allow first-time customers', async () => {
+    expect(await service.evaluate(testBusinessId, phoneOrder(), settings)).toBeNull();
+  });
+
+  it('should cap requests across phone number formats', async () => {
+    await createNotification('+4512345678', 'order-1');
+
+    const result = await service.evaluate(testBusinessId, phoneOrder(), settings);
+
+    expect(result).toBe('frequency_cap');
+  });
+
+  it('should match emails case-insensitively', async () => {
+    await createNotification('anders@example.com', 'order-1');
+
+    const result = await service.evaluate(
+      testBusinessId,
+      buildOrder({ customerEmail: 'Anders@Example.com' }),
+      settings
+    );
+
+    expect(result).toBe('frequency_cap');
+  });
+
+  it('should ignore requests outside the period and reminders', async () => {
+    await createNotification('+4512345678', 'order-1', new Date(Date.now() - 31 * 86400000));
+    await createNotification('+4512345678', 'order-0', new Date(), 1);
+
+    expect(await service.evaluate(testBusinessId, phoneOrder(), settings)).toBeNull();
+  });
+
+  it('should not count notifications for the same order', async () => {
+    await createNotification('+4512345678', 'order-2');
+
+    expect(await service.evaluate(testBusinessId, phoneOrder(), settings)).toBeNull();
+  });
+
+  it('should skip customers who reviewed recently', async () => {
+    await new ReviewService().create(testBusinessId, {
+      rating: 5,
+      customer: { phone: '+4512345678' },
+      sourcePlatform: 'dully',
+    });
+
+    const result = await service.evaluate(testBusinessId, phoneOrder(), settings);
+
+    expect(result).toBe('recently_reviewed');
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CustomerImportService,
+  parseCustomerRows,
+  parseVisitDate,
+} from '../../src/services/CustomerImportService.js';
+import { Business } from '../../src/models/Business.js';
+import { Notification } from '../../src/models/Notification.js';
+import { OrderQueue } from '../../src/models/OrderQueue.js';
+import { Suppression } from '../../src/models/Suppression.js';
+import { orderQueueService } from '../../src/services/OrderQueueService.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+const now = new Date('2024-03-01T12:00:00.000Z');
+
+describe('CustomerImportService', () => {
+  describe('parseVisitDate', () => {
+    it('should parse ISO, Danish and Excel serial dates', () => {
+      const expected = new Date('2024-01-15T00:00:00.000Z');
+      expect(parseVisitDate('2024-01-15')).toEqual(expected);
+      expect(parseVisitDate('15-01-2024')).toEqual(expected);
+      expect(parseVisitDate('15.1.24')).toEqual(expected);
+      expect(parseVisitDate('15/01/2024 19:30')).toEqual(expected);
+      expect(parseVisitDate('45306')).toEqual(expected);
+    });
+
+    it('should reject impossible dates', () => {
+      expect(parseVisitDate('31-02-2024')).toBeNull();
+      expect(parseVisitDate('i går')).toBeNull();
+    });
+  });
+
+  describe('parseCustomerRows', () => {
+    it('should validate phone, email and visit date per row', () => {
+      const rows = parseCustomerRows(
+        [
+          ['Navn', 'Tlf', 'E-mail', 'Besøgsdato'],
+          ['Anders', '12 34 56 78', 'Anders@Example.com', '01-02-2024'],
+          ['Bente', '+46701234567', '', ''],
+          ['Carl', '', 'ikke-en-email', '01-04-2024'],
+          ['Dorthe', '', '', ''],
+        ],
+        now
+      );
+
+      expect(rows[0]).toMatchObject({
+        rowNumber: 2,
+        name: 'Anders',
+        phone: '+4512345678',
+        email: 'anders@example.com',
+        visitDate: new Date('2024-02-01T00:00:00.000Z'),
+        status: 'valid',
+      });
+      expect(rows[1]?.status).toBe('invalid');
+      expect(rows[1]?.reasons).toEqual(['Ugyldigt dansk telefonnummer: +46701234567']);
+      expect(rows[2]?.reasons).toEqual([
+        'Ugyldig email: ikke-en-email',
+        'Besøgsdatoen ligger i fremtiden',
+      ]);
+      expect(rows[3]?.reasons).toEqual(['Telefonnummer eller email mangler']);
+    });
+
+    it('should mark repeated customers as duplicates', () => {
+      const rows = parseCustomerRows(
+        [
+          ['phone', 'email'],
+          ['12345678', ''],
+          ['', 'kunde@example.com'],
+          ['+4512345678', 'ny@example.com'],
+          ['87654321', 'KUNDE@example.com'],
+        ],
+        now
+      );
+
+      expect(rows.map((row) => row.status)).toEqual(['valid', 'valid', 'duplicate', 'duplicate']);
+      expect(rows[2]?.reasons).toEqual(['Samme kunde som række 2']);
+      expect(rows[3]?.reasons).toEqual(['Samme kunde som række 3']);
+    });
+
+    it('should require a phone or email column', () => {
+      expect(() => parseCustomerRows([['Navn'], ['Anders']], now)).toThrow(ValidationError);
+    });
+  });
+
+  describe('preview and schedule', () => {
+    let service: CustomerImportService;
+    let businessId: string;
+
+    beforeEach(async () => {
+      service = new CustomerImportService();
+
+      const business = await Business.create({
+        name: 'Test Restaurant',
+        email: 'owner@restaurant.com',
+        settings: { smsEnabled: true, emailEnabled: true },
+      });
+      businessId = business._id.toString();
+
+      await Notification.create({
+        businessId,
+        type: 'sms',
+        status: 'sent',
+        recipient: '22222222',
+        content: 'Hej',
+        reviewLink: 'https://example.com/r/abc',
+      });
+      await Suppression.create({
+        businessId: null,
+        channel: 'sms',
+        value: '+4533333333',
+        reason: 'sms_stop',
+      });
+    });
+
+    const csv = [
+      'navn;telefon;email',
+      'Anders;11111111;',
+      'Bente;22222222;',
+      'Carl;33333333;',
+      'Dorthe;33333333;dorthe@example.com',
+      'Erik;44444444;erik@example.com',
+    ].join('\n');
+
+    it('should dedupe against notifications and suppressions and count SMS segments', async () => {
+      const result = await service.preview(businessId, 'kunder.csv', Buffer.from(csv));
+
+      expect(result.status).toBe('preview');
+      expect(result.rows.map((row) => row.status)).toEqual([
+        'valid',
+        'already_contacted',
+        'suppressed',
+        'duplicate',
+        'valid',
+      ]);
+      expect(result.rows[4]?.channels).toEqual(['sms', 'email']);
+      expect(result.summary).toMatchObject({
+        total: 5,
+        valid: 2,
+        alreadyContacted: 1,
+        suppressed: 1,
+        duplicate: 1,
+        smsCount: 2,
+        emailCount: 1,
+        smsEncoding: 'GSM-7',
+      });
+      expect(result.summary.smsSegments).toBe(2 * (result.rows[0]?.smsSegments ?? 0));
+      expect(result.smsPreview).toContain('Test Restaurant');
+    });
+
+    it('should dedupe against review requests still waiting in the order queue', async () => {
+      await orderQueueService.enqueue(
+        businessId,
+        {
+          orderId: '1001',
+          orderDate: new Date(),
+          platform: 'dully',
+          customerName: 'Anders',
+          customerPhone: '11111111',
+        },
+        60
+      );
+
+      const result = await service.preview(businessId, 'kunder.csv', Buffer.from(csv));
+
+      expect(result.rows[0]?.status).toBe('already_contacted');
+      expect(result.rows[0]?.reasons).toContain(
+        'Kunden venter allerede på en anmeldelsesforespørgsel'
+      );
+      expect(result.rows[4]?.status).toBe('valid');
+    });
+
+    it('should queue valid rows throttled to sendsPerHour and cancel them again', async () => {
+      const preview = await service.preview(businessId, 'kunder.csv', Buffer.from(csv));
+      const scheduled = await service.schedule(businessId, preview.id, { sendsPerHour: 2 });
+
+      expect(scheduled.status).toBe('scheduled');
+      const queued = await OrderQueue.find({ businessId, platform: 'import' }).sort({
+        scheduledFor: 1,
+      });
+      expect(queued).toHaveLength(2);
+      expect(queued[0]?.orderData.customerName).toBe('Anders');
+      const [first, second] = queued;
+      const gapMinutes =
+        ((second?.scheduledFor.getTime() ?? 0) - (first?.scheduledFor.getTime() ?? 0)) / 60000;
+      expect(gapMinutes).toBeCloseTo(30, 0);
+
+      await expect(service.schedule(businessId, preview.id)).rejects.toThrow(
+        'Importen er allerede planlagt eller annulleret'
+      );
+
+      const cancelled = await service.cancel(businessId, preview.id);
+      expect(cancelled.status).toBe('cancelled');
+      expect(await OrderQueue.countDocuments({ businessId, status: 'cancelled' })).toBe(2);
+    });
+  });
+});
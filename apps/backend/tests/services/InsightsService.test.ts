@@ -0,0 +1,556 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { InsightRun as InsightRunType, InsightTheme } from '@easyrate/shared';
+import type { BaseAIProvider } from '../../src/providers/ai/index.js';
+import { GrokProvider, OpenAIProvider } from '../../src/providers/ai/index.js';
+import { InsightsService, buildInsightTrends } from '../../src/services/InsightsService.js';
+import { jobLeaseService } from '../../src/services/JobLeaseService.js';
+import { Business } from '../../src/models/Business.js';
+import { InsightRun } from '../../src/models/InsightRun.js';
+import { Review } from '../../src/models/Review.js';
+import { ExternalReview } from '../../src/models/ExternalReview.js';
+import { FakeBatchServer } from '../__mocks__/providers/FakeBatchServer.js';
+
+const { providerState } = vi.hoisted(() => ({
+  providerState: {
+    provider: null as BaseAIProvider | null,
+    fallback: null as BaseAIProvider | null,
+  },
+}));
+
+vi.mock('../../src/providers/ProviderFactory.js', () => ({
+  getAIProvider: () => providerState.provider,
+  getFallbackAIProvider: () => providerState.fallback,
+  isAIConfigured: () => true,
+  getConfiguredAIProviderName: () => 'grok',
+}));
+
+const analysis = {
+  overallSentiment: { score: 75, label: 'positive', summary: 'Gæsterne er glade' },
+  themes: [],
+  customerSatisfactionSummary: 'Høj tilfredshed',
+};
+
+describe('InsightsService scheduled batches', () => {
+  let service: InsightsService;
+  let server: FakeBatchServer;
+
+  async function createBusiness(name: string, reviewCount: number): Promise<string> {
+    const business = await Business.create({
+      name,
+      email: `${name.toLowerCase()}@restaurant.dk`,
+      settings: { aiSettings: { enabled: true, autoRefresh: true } },
+    });
+    const businessId = business._id.toString();
+
+    for (let i = 0; i < reviewCount; i++) {
+      await Review.create({
+        businessId,
+        rating: 5,
+        feedbackText: 'Dejlig mad',
+        sourcePlatform: 'direct',
+        customer: { name: 'Anders' },
+        consent: { given: true, timestamp: new Date() },
+      });
+    }
+
+    return businessId;
+  }
+
+  async function createGoogleReview(
+    businessId: string,
+    reviewText: string,
+    internalReviewId?: string
+  ): Promise<void> {
+    await ExternalReview.create({
+      businessId,
+      sourcePlatform: 'google',
+      externalId: `google-${reviewText}`,
+      rating: 4,
+      reviewText,
+      reviewerName: 'Mette',
+      reviewedAt: new Date(),
+      lastSyncedAt: new Date(),
+      ...(internalReviewId && {
+        attribution: { internalReviewId, confidence: 0.9, matchMethod: 'name_time' },
+      }),
+    });
+  }
+
+  function getSubmittedPrompt(): string {
+    const [batchId] = [...server.batches.keys()];
+    return server.getRequests(batchId ?? '')[0]?.body.messages[1]?.content ?? '';
+  }
+
+  beforeEach(async () => {
+    service = new InsightsService();
+    server = new FakeBatchServer(() => ({ content: JSON.stringify(analysis) }));
+    const baseUrl = await server.listen();
+    providerState.provider = new GrokProvider({ apiKey: 'test-key', baseUrl });
+    providerState.fallback = null;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should submit businesses needing a refresh as one batch job', async () => {
+    const cafeId = await createBusiness('Cafe', 2);
+    const barId = await createBusiness('Bar', 3);
+
+    const submitted = await service.submitScheduledBatch(10);
+
+    expect(submitted).toBe(2);
+    expect(server.batches.size).toBe(1);
+
+    const runs = await InsightRun.find({ businessId: { $in: [cafeId, barId] } });
+    expect(runs).toHaveLength(2);
+    for (const run of runs) {
+      expect(run.status).toBe('processing');
+      expect(run.triggeredBy).toBe('scheduled');
+      expect(run.batchId).toBe([...server.batches.keys()][0]);
+    }
+    expect(runs.find((run) => String(run.businessId) === barId)?.reviewCount).toBe(3);
+  });
+
+  it('should analyse in the business language', async () => {
+    const businessId = await createBusiness('Cafe', 2);
+    await Business.updateOne({ _id: businessId }, { 'settings.aiSettings.language': 'sv' });
+
+    await service.submitScheduledBatch(10);
+
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.language).toBe('sv');
+    const [batchId] = [...server.batches.keys()];
+    const prompt = server.getRequests(batchId ?? '')[0]?.body.messages[1]?.content;
+    expect(prompt).toContain('All text must be in Swedish');
+  });
+
+  it('should pass the previous themes to keep their keys', async () => {
+    const businessId = await createBusiness('Cafe', 2);
+    await InsightRun.create({
+      businessId,
+      status: 'completed',
+      dateRange: { from: new Date('2024-01-01'), to: new Date('2024-01-31') },
+      reviewCount: 4,
+      themes: [
+        {
+          key: 'long-wait-times',
+          name: 'Lang ventetid',
+          description: 'Gæsterne venter for længe',
+          customerCount: 2,
+          mentionCount: 2,
+          severity: 'high',
+          sentiment: 'negative',
+          exampleQuotes: [],
+        },
+      ],
+      aiProvider: 'grok',
+      modelUsed: 'grok-3',
+      triggeredBy: 'scheduled',
+    });
+
+    await service.submitScheduledBatch(10);
+
+    const [batchId] = [...server.batches.keys()];
+    const prompt = server.getRequests(batchId ?? '')[0]?.body.messages[1]?.content;
+    expect(prompt).toContain('KNOWN THEMES');
+    expect(prompt).toContain('- long-wait-times: Lang ventetid');
+  });
+
+  it('should include Google reviews labelled by source', async () => {
+    const businessId = await createBusiness('Cafe', 2);
+    await createGoogleReview(businessId, 'Lang ventetid på maden');
+
+    await service.submitScheduledBatch(10);
+
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.reviewCount).toBe(3);
+    expect(run?.reviewCountsBySource).toMatchObject({ easyrate: 2, google: 1 });
+    expect(run?.avgRating).toBe(4.7);
+    expect(getSubmittedPrompt()).toContain('[google] Rating: 4/5 - "Lang ventetid på maden"');
+  });
+
+  it('should count a Google review attributed to an analysed review once', async () => {
+    const businessId = await createBusiness('Cafe', 1);
+    const withoutText = await Review.create({
+      businessId,
+      rating: 5,
+      sourcePlatform: 'direct',
+      customer: { name: 'Mette' },
+      consent: { given: true, timestamp: new Date() },
+    });
+    const [withText] = await Review.find({ businessId, feedbackText: 'Dejlig mad' });
+    await createGoogleReview(businessId, 'Fantastisk brunch', String(withoutText._id));
+    await createGoogleReview(businessId, 'Dejlig mad og god service', String(withText?._id));
+
+    await service.submitScheduledBatch(10);
+
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.reviewCount).toBe(2);
+    expect(run?.reviewCountsBySource).toMatchObject({ easyrate: 1, google: 1 });
+    const prompt = getSubmittedPrompt();
+    expect(prompt).toContain('[google] Rating: 5/5 - "Fantastisk brunch"');
+    expect(prompt).not.toContain('Dejlig mad og god service');
+  });
+
+  it('should leave out Google reviews when the business has turned them off', async () => {
+    const businessId = await createBusiness('Cafe', 2);
+    await Business.updateOne(
+      { _id: businessId },
+      { 'settings.aiSettings.includeExternalReviews': false }
+    );
+    await createGoogleReview(businessId, 'Lang ventetid på maden');
+
+    await service.submitScheduledBatch(10);
+
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.reviewCount).toBe(2);
+    expect(getSubmittedPrompt()).not.toContain('[google]');
+  });
+
+  it('should complete businesses without reviews without submitting them', async () => {
+    const businessId = await createBusiness('Cafe', 0);
+
+    const submitted = await service.submitScheduledBatch(10);
+
+    expect(submitted).toBe(0);
+    expect(server.batches.size).toBe(0);
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.status).toBe('completed');
+  });
+
+  it('should not submit a business that is already waiting for a batch', async () => {
+    await createBusiness('Cafe', 2);
+
+    await service.submitScheduledBatch(10);
+    const submittedAgain = await service.submitScheduledBatch(10);
+
+    expect(submittedAgain).toBe(0);
+    expect(await InsightRun.countDocuments()).toBe(1);
+  });
+
+  it('should leave runs processing while the batch is in progress', async () => {
+    await createBusiness('Cafe', 2);
+    await service.submitScheduledBatch(10);
+
+    const collected = await service.collectBatchResults('test-worker');
+
+    expect(collected).toBe(0);
+    expect((await InsightRun.findOne())?.status).toBe('processing');
+  });
+
+  it('should store batch results in their insight runs', async () => {
+    const businessId = await createBusiness('Cafe', 2);
+    await service.submitScheduledBatch(10);
+    const [batchId] = [...server.batches.keys()];
+    server.finish(batchId ?? '');
+
+    const collected = await service.collectBatchResults('test-worker');
+
+    expect(collected).toBe(1);
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.status).toBe('completed');
+    expect(run?.overallSentiment?.score).toBe(75);
+    expect(run?.customerSatisfactionSummary).toBe('Høj tilfredshed');
+    expect(run?.tokensUsed).toBe(100);
+
+    const business = await Business.findById(businessId);
+    expect(String(business?.settings.aiSettings?.lastInsightRunId)).toBe(String(run?._id));
+  });
+
+  it('should store the other results when one batch line is malformed', async () => {
+    const cafeId = await createBusiness('Cafe', 2);
+    const barId = await createBusiness('Bar', 2);
+    await service.submitScheduledBatch(10);
+    const [batchId = ''] = [...server.batches.keys()];
+    server.finish(batchId);
+    const batch = server.batches.get(batchId);
+    const barRun = await InsightRun.findOne({ businessId: barId });
+    const fileId = batch?.outputFileId ?? '';
+    server.files.set(
+      fileId,
+      (server.files.get(fileId) ?? '')
+        .split('\n')
+        // Cut off after the custom ID, as in an interrupted write
+        .map((line) =>
+          line.includes(String(barRun?._id)) ? line.slice(0, line.indexOf('"response"')) : line
+        )
+        .join('\n')
+    );
+
+    await service.collectBatchResults('test-worker');
+
+    expect((await InsightRun.findOne({ businessId: cafeId }))?.status).toBe('completed');
+    const failed = await InsightRun.findOne({ businessId: barId });
+    expect(failed?.status).toBe('failed');
+    expect(failed?.errorMessage).toMatch(/malformed batch result/);
+  });
+
+  it('should measure batch runs from submit to the end of the batch', async () => {
+    const businessId = await createBusiness('Cafe', 2);
+    await service.submitScheduledBatch(10);
+    const [batchId = ''] = [...server.batches.keys()];
+    server.finish(batchId);
+    const batch = server.batches.get(batchId);
+    if (batch) {
+      batch.createdAt = 1_700_000_000;
+      batch.endedAt = 1_700_000_000 + 90 * 60;
+    }
+
+    await service.collectBatchResults('test-worker');
+
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.processingTimeMs).toBeGreaterThanOrEqual(90 * 60 * 1000);
+    expect(run?.processingTimeMs).toBeLessThan(90 * 60 * 1000 + 5000);
+  });
+
+  it('should skip runs another instance is already storing', async () => {
+    const businessId = await createBusiness('Cafe', 2);
+    await service.submitScheduledBatch(10);
+    const [batchId = ''] = [...server.batches.keys()];
+    server.finish(batchId);
+    await jobLeaseService.claim(InsightRun, { businessId }, 'other-worker', {
+      leaseMs: 60_000,
+    });
+
+    const collected = await service.collectBatchResults('test-worker');
+
+    expect(collected).toBe(0);
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.status).toBe('processing');
+    expect(run?.lockedBy).toBe('other-worker');
+  });
+
+  it('should fail runs without a result when the batch has ended', async () => {
+    await createBusiness('Cafe', 2);
+    await service.submitScheduledBatch(10);
+    const [batchId] = [...server.batches.keys()];
+    const batch = server.batches.get(batchId ?? '');
+    if (batch) {
+      batch.status = 'expired';
+    }
+
+    await service.collectBatchResults('test-worker');
+
+    const run = await InsightRun.findOne();
+    expect(run?.status).toBe('failed');
+    expect(run?.errorMessage).toContain('expired');
+  });
+});
+
+describe('InsightsService provider fallback', () => {
+  let service: InsightsService;
+  let primary: FakeBatchServer;
+  let fallback: FakeBatchServer;
+  let primaryContent: string;
+  let fallbackContent: string;
+  let businessId: string;
+
+  beforeEach(async () => {
+    service = new InsightsService();
+    primaryContent = 'Beklager, det kan jeg ikke';
+    fallbackContent = JSON.stringify(analysis);
+    primary = new FakeBatchServer(() => ({ content: primaryContent }));
+    fallback = new FakeBatchServer(() => ({ content: fallbackContent }));
+    providerState.provider = new GrokProvider({
+      apiKey: 'test-key',
+      baseUrl: await primary.listen(),
+    });
+    providerState.fallback = new OpenAIProvider({
+      apiKey: 'test-key',
+      model: 'gpt-test',
+      baseUrl: await fallback.listen(),
+    });
+
+    const business = await Business.create({
+      name: 'Cafe',
+      email: 'cafe@restaurant.dk',
+      settings: { aiSettings: { enabled: true, autoRefresh: true } },
+    });
+    businessId = business._id.toString();
+    await Review.create({
+      businessId,
+      rating: 5,
+      feedbackText: 'Dejlig mad',
+      sourcePlatform: 'direct',
+      customer: { name: 'Anders' },
+      consent: { given: true, timestamp: new Date() },
+    });
+  });
+
+  afterEach(async () => {
+    await primary.close();
+    await fallback.close();
+  });
+
+  it('should complete the run with the fallback provider', async () => {
+    const run = await service.createAndProcess(businessId, 'manual');
+
+    expect(run.status).toBe('completed');
+    expect(run.aiProvider).toBe('openai');
+    expect(run.modelUsed).toBe('gpt-test');
+    expect(run.overallSentiment?.score).toBe(75);
+    expect(run.failures).toHaveLength(1);
+    expect(run.failures[0]).toMatchObject({
+      provider: 'grok',
+      rawResponse: 'Beklager, det kan jeg ikke',
+    });
+    expect(run.failures[0]?.message).toMatch(/invalid analysis, also after a repair/);
+  });
+
+  it('should record both attempts when the fallback fails too', async () => {
+    fallbackContent = '{"overallSentiment":';
+
+    await expect(service.createAndProcess(businessId, 'manual')).rejects.toThrow(
+      /OpenAI returned an invalid analysis/
+    );
+
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.status).toBe('failed');
+    expect(run?.failures.map((failure) => failure.provider)).toEqual(['grok', 'openai']);
+    expect(run?.failures[1]?.rawResponse).toBe('{"overallSentiment":');
+  });
+
+  it('should fail the run when no other provider is configured', async () => {
+    providerState.fallback = null;
+
+    await expect(service.createAndProcess(businessId, 'manual')).rejects.toThrow(
+      /Grok returned an invalid analysis/
+    );
+
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.status).toBe('failed');
+    expect(run?.failures).toHaveLength(1);
+  });
+
+  it('should analyse a failed batch request with the fallback provider', async () => {
+    await service.submitScheduledBatch(10);
+    const [batchId] = [...primary.batches.keys()];
+    primary.finish(batchId ?? '');
+
+    await service.collectBatchResults('test-worker');
+
+    const run = await InsightRun.findOne({ businessId });
+    expect(run?.status).toBe('completed');
+    expect(run?.aiProvider).toBe('openai');
+    expect(run?.failures[0]).toMatchObject({
+      provider: 'grok',
+      rawResponse: 'Beklager, det kan jeg ikke',
+    });
+  });
+});
+
+describe('buildInsightTrends', () => {
+  function theme(key: string, customerCount: number): InsightTheme {
+    return {
+      key,
+      name: key.replace(/-/g, ' '),
+      description: '',
+      customerCount,
+      mentionCount: customerCount,
+      severity: 'medium',
+      sentiment: 'negative',
+      exampleQuotes: [],
+    };
+  }
+
+  function run(id: string, reviewCount: number, score: number, themes: InsightTheme[]) {
+    return {
+      id,
+      businessId: 'business-1',
+      status: 'completed',
+      dateRange: { from: new Date('2024-01-01'), to: new Date(`2024-0${id}-28`) },
+      reviewCount,
+      overallSentiment: { score, label: 'neutral', summary: '' },
+      themes,
+      aiProvider: 'grok',
+      language: 'da',
+      modelUsed: 'grok-3',
+      tokensUsed: 0,
+      processingTimeMs: 0,
+      triggeredBy: 'scheduled',
+      failures: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } satisfies InsightRunType;
+  }
+
+  it('should return the sentiment score of each run, oldest first', () => {
+    const trends = buildInsightTrends([run('1', 10, 60, []), run('2', 10, 72, [])]);
+
+    expect(trends.sentiment.map((point) => point.score)).toEqual([60, 72]);
+    expect(trends.latestRunId).toBe('2');
+    expect(trends.previousRunId).toBe('1');
+  });
+
+  it('should compare each theme with the previous run', () => {
+    const trends = buildInsightTrends([
+      run('1', 20, 60, [
+        theme('long-wait-times', 8),
+        theme('friendly-staff', 5),
+        theme('cold-food', 4),
+        theme('noise', 2),
+      ]),
+      run('2', 20, 70, [
+        theme('long-wait-times', 3),
+        theme('friendly-staff', 5),
+        theme('noise', 4),
+        theme('parking', 2),
+      ]),
+    ]);
+    const byKey = new Map(trends.themes.map((trend) => [trend.key, trend]));
+
+    expect(byKey.get('long-wait-times')).toMatchObject({
+      status: 'shrinking',
+      customerCount: 3,
+      previousCustomerCount: 8,
+    });
+    expect(byKey.get('friendly-staff')?.status).toBe('stable');
+    expect(byKey.get('noise')?.status).toBe('growing');
+    expect(byKey.get('parking')?.status).toBe('new');
+    expect(byKey.get('cold-food')).toMatchObject({ status: 'resolved', customerCount: 0 });
+  });
+
+  it('should compare shares of reviews rather than customer counts', () => {
+    const trends = buildInsightTrends([
+      run('1', 10, 60, [theme('long-wait-times', 4)]),
+      run('2', 20, 60, [theme('long-wait-times', 8)]),
+    ]);
+
+    expect(trends.themes[0]?.status).toBe('stable');
+  });
+
+  it('should follow a theme by key even when it is named differently', () => {
+    const trends = buildInsightTrends([
+      run('1', 10, 60, [{ ...theme('long-wait-times', 4), name: 'Lang ventetid' }]),
+      run('2', 10, 60, [{ ...theme('long-wait-times', 4), name: 'Ventetid' }]),
+      run('3', 10, 60, [{ ...theme('long-wait-times', 4), name: 'Lange ventetider' }]),
+    ]);
+
+    expect(trends.themes).toHaveLength(1);
+    expect(trends.themes[0]?.name).toBe('Lange ventetider');
+    expect(trends.themes[0]?.history.map((point) => point.runId)).toEqual(['1', '2', '3']);
+  });
+
+  it('should key themes from before theme keys by their name', () => {
+    const { key: _key, ...legacyTheme } = theme('long-wait-times', 4);
+
+    const trends = buildInsightTrends([
+      run('1', 10, 60, [{ ...legacyTheme, name: 'Long wait times' }]),
+      run('2', 10, 60, [theme('long-wait-times', 4)]),
+    ]);
+
+    expect(trends.themes).toHaveLength(1);
+    expect(trends.themes[0]?.status).toBe('stable');
+  });
+
+  it('should leave out themes resolved before the previous run', () => {
+    const trends = buildInsightTrends([
+      run('1', 10, 60, [theme('cold-food', 4)]),
+      run('2', 10, 60, [theme('noise', 2)]),
+      run('3', 10, 60, [theme('noise', 2)]),
+    ]);
+
+    expect(trends.themes.map((trend) => trend.key)).toEqual(['noise']);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import type { OrderData } from '@easyrate/shared';
+import {
+  evaluateFilterRules,
+  getOrderTables,
+  getOrderTags,
+} from '../../src/services/IntegrationFilterService.js';
+
+function easyTableOrder(metadata: Record<string, unknown>): OrderData {
+  return {
+    orderId: '12345',
+    orderDate: new Date('2024-01-15T19:00:00'),
+    platform: 'easytable',
+    customerPhone: '+4512345678',
+    metadata,
+  };
+}
+
+describe('IntegrationFilterService', () => {
+  describe('getOrderTags', () => {
+    it('should read EasyTable tag objects and plain strings', () => {
+      expect(getOrderTags(easyTableOrder({ tags: [{ tagID: 1, tagName: 'VIP' }] }))).toEqual([
+        'VIP',
+      ]);
+      expect(getOrderTags(easyTableOrder({ tags: ['staff'] }))).toEqual(['staff']);
+      expect(getOrderTags(easyTableOrder({}))).toEqual([]);
+    });
+  });
+
+  describe('getOrderTables', () => {
+    it('should collect table names and IDs', () => {
+      const order = easyTableOrder({ tables: [{ tableID: 7, tableName: 'Terrasse 1' }] });
+
+      expect(getOrderTables(order)).toEqual(['Terrasse 1', '7']);
+    });
+
+    it('should read a plain table field from API orders', () => {
+      expect(getOrderTables(easyTableOrder({ table: '12' }))).toEqual(['12']);
+    });
+  });
+
+  describe('evaluateFilterRules', () => {
+    it('should pass when there are no rules', () => {
+      const evaluation = evaluateFilterRules([], easyTableOrder({}));
+
+      expect(evaluation.passed).toBe(true);
+      expect(evaluation.results).toEqual([]);
+    });
+
+    it('should skip orders with an excluded tag, ignoring case', () => {
+      const evaluation = evaluateFilterRules(
+        [{ type: 'exclude_tags', tags: ['staff', 'vip'] }],
+        easyTableOrder({ tags: [{ tagID: 1, tagName: 'VIP' }] })
+      );
+
+      expect(evaluation.passed).toBe(false);
+      expect(evaluation.results[0]?.detail).toContain('VIP');
+    });
+
+    it('should skip parties larger than the maximum', () => {
+      const rules = [{ type: 'max_party_size' as const, max: 8 }];
+
+      expect(evaluateFilterRules(rules, easyTableOrder({ partySize: 12 })).passed).toBe(false);
+      expect(evaluateFilterRules(rules, easyTableOrder({ partySize: 8 })).passed).toBe(true);
+      expect(evaluateFilterRules(rules, easyTableOrder({})).passed).toBe(true);
+    });
+
+    it('should skip orders under the minimum total', () => {
+      const rules = [{ type: 'min_order_total' as const, min: 100 }];
+      const order: OrderData = { ...easyTableOrder({}), platform: 'dully', orderTotal: 49 };
+
+      expect(evaluateFilterRules(rules, order).passed).toBe(false);
+      expect(evaluateFilterRules(rules, { ...order, orderTotal: 100 }).passed).toBe(true);
+    });
+
+    it('should only handle the listed tables', () => {
+      const rules = [{ type: 'only_tables' as const, tables: ['terrasse 1', '2'] }];
+
+      expect(
+        evaluateFilterRules(
+          rules,
+          easyTableOrder({ tables: [{ tableID: 7, tableName: 'Terrasse 1' }] })
+        ).passed
+      ).toBe(true);
+      expect(
+        evaluateFilterRules(rules, easyTableOrder({ tables: [{ tableID: 5, tableName: 'Bar' }] }))
+          .passed
+      ).toBe(false);
+      expect(evaluateFilterRules(rules, easyTableOrder({})).passed).toBe(false);
+    });
+
+    it('should report every rule in the trace', () => {
+      const evaluation = evaluateFilterRules(
+        [
+          { type: 'exclude_tags', tags: ['staff'] },
+          { type: 'max_party_size', max: 4 },
+        ],
+        easyTableOrder({ tags: ['staff'], partySize: 6 })
+      );
+
+      expect(evaluation.passed).toBe(false);
+      expect(evaluation.results.map((result) => result.passed)).toEqual([false, false]);
+    });
+  });
+});
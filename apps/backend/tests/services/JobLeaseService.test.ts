@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { JobLeaseService, createWorkerId } from '../../src/services/JobLeaseService.js';
+import { Notification } from '../../src/models/Notification.js';
+
+const LEASE_MS = 60 * 1000;
+
+describe('JobLeaseService', () => {
+  let service: JobLeaseService;
+  let businessId: mongoose.Types.ObjectId;
+
+  beforeEach(() => {
+    service = new JobLeaseService();
+    businessId = new mongoose.Types.ObjectId();
+  });
+
+  async function createNotifications(count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await Notification.create({
+        businessId,
+        type: 'sms',
+        recipient: `+451234567${String(i)}`,
+        content: 'Hej',
+        reviewLink: 'http://localhost:3000/r/abc',
+      });
+    }
+  }
+
+  describe('createWorkerId', () => {
+    it('should be unique per instance', () => {
+      expect(createWorkerId('NotificationProcessor')).not.toBe(
+        createWorkerId('NotificationProcessor')
+      );
+    });
+  });
+
+  describe('claimBatch', () => {
+    it('should never give the same item to two workers', async () => {
+      await createNotifications(6);
+
+      const batches = await Promise.all(
+        ['a', 'b', 'c'].map((workerId) =>
+          service.claimBatch(Notification, { status: 'pending' }, workerId, 6, {
+            leaseMs: LEASE_MS,
+          })
+        )
+      );
+
+      const ids = batches.flat().map((item) => item.id);
+      expect(ids).toHaveLength(6);
+      expect(new Set(ids).size).toBe(6);
+    });
+
+    it('should skip items leased by another worker until the lease expires', async () => {
+      await createNotifications(1);
+      const [claimed] = await service.claimBatch(Notification, {}, 'a', 1, { leaseMs: LEASE_MS });
+
+      expect(await service.claim(Notification, {}, 'b', { leaseMs: LEASE_MS })).toBeNull();
+
+      // Worker a died - its lease runs out
+      await Notification.findByIdAndUpdate(claimed?._id, {
+        lockedUntil: new Date(Date.now() - 1000),
+      });
+
+      const reclaimed = await service.claim(Notification, {}, 'b', { leaseMs: LEASE_MS });
+      expect(reclaimed?.lockedBy).toBe('b');
+    });
+
+    it('should set extra fields on the claimed item', async () => {
+      await createNotifications(1);
+
+      const claimed = await service.claim(Notification, {}, 'a', {
+        leaseMs: LEASE_MS,
+        set: { errorMessage: 'claimed' },
+      });
+
+      expect(claimed?.errorMessage).toBe('claimed');
+      expect(claimed?.lockedUntil?.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('release', () => {
+    it('should only release a lease held by the worker', async () => {
+      await createNotifications(1);
+      const claimed = await service.claim(Notification, {}, 'a', { leaseMs: LEASE_MS });
+      const id = String(claimed?._id);
+
+      await service.release(Notification, id, 'b');
+      expect((await Notification.findById(id))?.lockedBy).toBe('a');
+
+      await service.release(Notification, id, 'a');
+      const released = await Notification.findById(id);
+      expect(released?.lockedBy).toBeNull();
+      expect(released?.lockedUntil).toBeNull();
+    });
+  });
+
+  describe('acquireLock', () => {
+    it('should elect a single holder and let it renew', async () => {
+      const workers = ['a', 'b', 'c'];
+      const results = await Promise.all(
+        workers.map((workerId) => service.acquireLock('poller', workerId, LEASE_MS))
+      );
+
+      const holders = workers.filter((_, index) => results[index]);
+      expect(holders).toHaveLength(1);
+      for (const holder of holders) {
+        expect(await service.acquireLock('poller', holder, LEASE_MS)).toBe(true);
+      }
+    });
+
+    it('should let another worker take over an expired or released lock', async () => {
+      expect(await service.acquireLock('poller', 'a', -1000)).toBe(true);
+      expect(await service.acquireLock('poller', 'b', LEASE_MS)).toBe(true);
+      expect(await service.acquireLock('poller', 'a', LEASE_MS)).toBe(false);
+
+      await service.releaseLock('poller', 'b');
+      expect(await service.acquireLock('poller', 'a', LEASE_MS)).toBe(true);
+    });
+  });
+
+  describe('runExclusive', () => {
+    it('should not run the task while another worker holds the lock', async () => {
+      await service.acquireLock('reports', 'a', LEASE_MS);
+      let ran = false;
+
+      const result = await service.runExclusive('reports', 'b', LEASE_MS, () => {
+        ran = true;
+        return Promise.resolve();
+      });
+
+      expect(result).toBe(false);
+      expect(ran).toBe(false);
+    });
+
+    it('should release the lock after the task, also when it fails', async () => {
+      await expect(
+        service.runExclusive('reports', 'a', LEASE_MS, () => Promise.reject(new Error('boom')))
+      ).rejects.toThrow('boom');
+
+      expect(await service.acquireLock('reports', 'b', LEASE_MS)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { resolveApiOrderDelay, toApiOrderData } from '../../src/services/OrderApiService.js';
+
+describe('OrderApiService', () => {
+  describe('resolveApiOrderDelay', () => {
+    const settings = { defaultDelayMinutes: 45, sourceDelays: { Lightspeed: 10 } };
+
+    it('should prefer the per-order delay, then the source delay, then the default', () => {
+      expect(resolveApiOrderDelay(settings, { source: 'lightspeed', delayMinutes: 0 })).toBe(0);
+      expect(resolveApiOrderDelay(settings, { source: 'lightspeed' })).toBe(10);
+      expect(resolveApiOrderDelay(settings, { source: 'square' })).toBe(45);
+    });
+
+    it('should fall back to the integration default delay', () => {
+      expect(resolveApiOrderDelay({}, {})).toBe(60);
+    });
+  });
+
+  describe('toApiOrderData', () => {
+    it('should mark orders as api orders and omit missing fields', () => {
+      const orderDate = new Date('2024-01-15T12:00:00.000Z');
+      expect(
+        toApiOrderData({
+          orderId: 'POS-1',
+          source: 'square',
+          customerPhone: '+4512345678',
+          orderDate,
+        })
+      ).toEqual({
+        orderId: 'POS-1',
+        orderDate,
+        platform: 'api',
+        source: 'square',
+        customerPhone: '+4512345678',
+      });
+    });
+  });
+});
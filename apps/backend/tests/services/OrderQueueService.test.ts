@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { OrderData } from '@easyrate/shared';
+import { OrderQueueService } from '../../src/services/OrderQueueService.js';
+import { Business } from '../../src/models/Business.js';
+import { OrderQueue } from '../../src/models/OrderQueue.js';
+
+function order(orderId: string, overrides: Partial<OrderData> = {}): OrderData {
+  return {
+    orderId,
+    orderDate: new Date('2024-01-15T18:00:00.000Z'),
+    platform: 'dully',
+    customerName: 'Anders Jensen',
+    customerPhone: '+4512345678',
+    ...overrides,
+  };
+}
+
+describe('OrderQueueService', () => {
+  let service: OrderQueueService;
+  let businessId: string;
+  let otherBusinessId: string;
+
+  beforeEach(async () => {
+    service = new OrderQueueService();
+
+    const business = await Business.create({ name: 'Test', email: 'queue@example.com' });
+    const otherBusiness = await Business.create({ name: 'Other', email: 'other@example.com' });
+    businessId = business._id.toString();
+    otherBusinessId = otherBusiness._id.toString();
+  });
+
+  describe('scheduleRetry', () => {
+    it('should keep the item out of the due list until the next attempt', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 0);
+      await service.markProcessing(item.id);
+
+      const retrying = await service.scheduleRetry(item, 'SMS provider timeout', 60 * 1000);
+
+      expect(retrying.status).toBe('pending');
+      expect(retrying.attempts).toBe(1);
+      expect(retrying.errorMessage).toBe('SMS provider timeout');
+      expect(retrying.nextAttemptAt).not.toBeNull();
+      expect(await service.getDueOrders()).toHaveLength(0);
+
+      await OrderQueue.findByIdAndUpdate(item.id, { nextAttemptAt: new Date(Date.now() - 1000) });
+      expect((await service.getDueOrders()).map((due) => due.id)).toEqual([item.id]);
+    });
+  });
+
+  describe('markDeadLetter', () => {
+    it('should give up on the item and count the last attempt', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 0);
+      await service.scheduleRetry(item, 'SMS provider timeout', 0);
+
+      const dead = await service.markDeadLetter(item.id, 'Max retries exceeded');
+
+      expect(dead.status).toBe('dead_letter');
+      expect(dead.attempts).toBe(2);
+      expect(dead.nextAttemptAt).toBeNull();
+      expect((await service.getBusinessQueueStats(businessId)).dead_letter).toBe(1);
+    });
+  });
+
+  describe('list', () => {
+    it('should filter by status and search the customer fields', async () => {
+      const failed = await service.enqueue(businessId, order('1001'), 0);
+      await service.markFailed(failed.id, 'SMS provider error');
+      await service.enqueue(businessId, order('1002', { customerName: 'Maria Nielsen' }), 0);
+      await service.enqueue(otherBusinessId, order('1003'), 0);
+
+      const failedOnly = await service.list(businessId, { status: 'failed' });
+      expect(failedOnly.data.map((item) => item.orderId)).toEqual(['1001']);
+
+      const search = await service.list(businessId, { search: 'maria' });
+      expect(search.data.map((item) => item.orderId)).toEqual(['1002']);
+      expect(search.pagination.total).toBe(1);
+    });
+  });
+
+  describe('retry', () => {
+    it('should put a failed item back in the queue and clear the error', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 0);
+      await service.markFailed(item.id, 'SMS provider error');
+
+      const retried = await service.retry(businessId, item.id);
+
+      expect(retried.status).toBe('pending');
+      expect(retried.errorMessage).toBeUndefined();
+      expect(retried.processedAt).toBeUndefined();
+    });
+
+    it('should reset the attempts of a dead-lettered item', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 0);
+      await service.scheduleRetry(item, 'SMS provider timeout', 0);
+      await service.markDeadLetter(item.id, 'Max retries exceeded');
+
+      const retried = await service.retry(businessId, item.id);
+
+      expect(retried.status).toBe('pending');
+      expect(retried.attempts).toBe(0);
+      expect(retried.nextAttemptAt).toBeNull();
+    });
+
+    it('should reject items that are not failed or cancelled', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 0);
+
+      await expect(service.retry(businessId, item.id)).rejects.toThrow(
+        'Kun fejlede eller annullerede ordrer kan sendes igen'
+      );
+    });
+
+    it("should not touch another business' items", async () => {
+      const item = await service.enqueue(otherBusinessId, order('1001'), 0);
+      await service.markFailed(item.id, 'SMS provider error');
+
+      await expect(service.retry(businessId, item.id)).rejects.toThrow(
+        'Ordren blev ikke fundet i køen'
+      );
+    });
+  });
+
+  describe('retryAllFailed', () => {
+    it('should retry every failed and dead-lettered item of the business', async () => {
+      for (const orderId of ['1001', '1002']) {
+        const item = await service.enqueue(businessId, order(orderId), 0);
+        await service.markFailed(item.id, 'SMS provider error');
+      }
+      const dead = await service.enqueue(businessId, order('1003'), 0);
+      await service.markDeadLetter(dead.id, 'Max retries exceeded');
+      await service.enqueue(businessId, order('1004'), 0);
+
+      expect(await service.retryAllFailed(businessId)).toBe(3);
+      expect(await OrderQueue.countDocuments({ businessId, status: 'pending' })).toBe(4);
+    });
+
+    it('should only retry the given items', async () => {
+      const first = await service.enqueue(businessId, order('1001'), 0);
+      const second = await service.enqueue(businessId, order('1002'), 0);
+      await service.markFailed(first.id, 'SMS provider error');
+      await service.markFailed(second.id, 'SMS provider error');
+
+      expect(await service.retryAllFailed(businessId, [first.id])).toBe(1);
+      expect((await service.findForBusiness(businessId, second.id)).status).toBe('failed');
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel a pending item with the reason', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 60);
+
+      const cancelled = await service.cancel(businessId, item.id, 'Kunden klagede');
+
+      expect(cancelled.status).toBe('cancelled');
+      expect(cancelled.cancelReason).toBe('Kunden klagede');
+      expect(cancelled.cancelledAt).toBeDefined();
+    });
+
+    it('should not cancel completed items', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 0);
+      await service.markCompleted(item.id);
+
+      await expect(service.cancel(businessId, item.id)).rejects.toThrow(
+        'Kun ventende ordrer kan annulleres'
+      );
+    });
+  });
+
+  describe('migrateIndexes', () => {
+    it('should drop the legacy unique index so reminders can be scheduled', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 60);
+      await OrderQueue.collection.createIndex(
+        { businessId: 1, orderId: 1, platform: 1 },
+        { unique: true, name: 'businessId_1_orderId_1_platform_1' }
+      );
+
+      // The legacy index rejects the reminder step as a duplicate order
+      expect(await service.scheduleReminder(item, 1, 60)).toBeNull();
+
+      await service.migrateIndexes();
+      const reminder = await service.scheduleReminder(item, 1, 60);
+
+      expect(reminder?.reminderStep).toBe(1);
+      const indexNames = (await OrderQueue.collection.indexes()).map((index) => index.name);
+      expect(indexNames).not.toContain('businessId_1_orderId_1_platform_1');
+      expect(indexNames).toContain('businessId_1_orderId_1_platform_1_reminderStep_1');
+    });
+
+    it('should do nothing when the legacy index is gone', async () => {
+      await service.migrateIndexes();
+
+      await expect(service.migrateIndexes()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('reschedule', () => {
+    it('should move a pending item to the new time', async () => {
+      const item = await service.enqueue(businessId, order('1001'), 60);
+      const scheduledFor = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      const rescheduled = await service.reschedule(businessId, item.id, scheduledFor);
+
+      expect(new Date(rescheduled.scheduledFor).getTime()).toBe(scheduledFor.getTime());
+    });
+
+    it('should keep the new time inside the send window', async () => {
+      await Business.findByIdAndUpdate(businessId, {
+        timezone: 'Europe/Copenhagen',
+        'settings.sendWindow': { enabled: true, start: '09:00', end: '21:00' },
+      });
+      const item = await service.enqueue(businessId, order('1001'), 60);
+
+      // 03:00 in Copenhagen -> 09:00 the same day
+      const rescheduled = await service.reschedule(
+        businessId,
+        item.id,
+        new Date('2030-01-15T02:00:00.000Z')
+      );
+
+      expect(new Date(rescheduled.scheduledFor).toISOString()).toBe('2030-01-15T08:00:00.000Z');
+    });
+  });
+});
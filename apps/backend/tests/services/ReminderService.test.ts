@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { ReminderSettings } from '@easyrate/shared';
+import { ReminderService } from '../../src/services/ReminderService.js';
+import { orderQueueService } from '../../src/services/OrderQueueService.js';
+import { Business } from '../../src/models/Business.js';
+import { OrderQueue } from '../../src/models/OrderQueue.js';
+
+const settings: ReminderSettings = {
+  enabled: true,
+  maxAttempts: 3,
+  steps: [
+    { channel: 'email', delayHours: 48 },
+    { channel: 'sms', delayHours: 24 },
+    { channel: 'sms', delayHours: 24 },
+  ],
+};
+
+describe('ReminderService', () => {
+  const reminderService = new ReminderService();
+
+  describe('getStep', () => {
+    it('should return the configured step', () => {
+      expect(reminderService.getStep(settings, 1)).toEqual({ channel: 'email', delayHours: 48 });
+      expect(reminderService.getStep(settings, 2)).toEqual({ channel: 'sms', delayHours: 24 });
+    });
+
+    it('should respect maxAttempts including the initial request', () => {
+      expect(reminderService.getStep(settings, 3)).toBeNull();
+      expect(reminderService.getStep({ ...settings, maxAttempts: 1 }, 1)).toBeNull();
+    });
+
+    it('should return null when reminders are disabled or missing', () => {
+      expect(reminderService.getStep({ ...settings, enabled: false }, 1)).toBeNull();
+      expect(reminderService.getStep(undefined, 1)).toBeNull();
+      expect(reminderService.getStep(settings, 0)).toBeNull();
+    });
+
+    it('should return null for steps that are not configured', () => {
+      expect(reminderService.getStep({ ...settings, steps: [] }, 1)).toBeNull();
+    });
+  });
+
+  describe('hasEngaged', () => {
+    it('should detect clicked or converted notifications', () => {
+      expect(reminderService.hasEngaged([{ status: 'delivered' }, { status: 'clicked' }])).toBe(
+        true
+      );
+      expect(reminderService.hasEngaged([{ status: 'converted' }])).toBe(true);
+    });
+
+    it('should not treat sent or opened notifications as engaged', () => {
+      expect(reminderService.hasEngaged([{ status: 'sent' }, { status: 'opened' }])).toBe(false);
+      expect(reminderService.hasEngaged([])).toBe(false);
+    });
+  });
+
+  describe('scheduleNext', () => {
+    it('should enqueue the next reminder step once', async () => {
+      const business = await Business.create({ name: 'Test', email: 'reminder@example.com' });
+      const order = await orderQueueService.enqueue(
+        String(business._id),
+        {
+          orderId: 'order-1',
+          customerPhone: '+4512345678',
+          orderDate: new Date(),
+          platform: 'dully',
+        },
+        0
+      );
+
+      const reminder = await reminderService.scheduleNext(order, settings);
+      expect(reminder?.reminderStep).toBe(1);
+      expect(reminder?.scheduledFor.getTime()).toBeGreaterThan(Date.now() + 47 * 60 * 60 * 1000);
+
+      const duplicate = await reminderService.scheduleNext(order, settings);
+      expect(duplicate).toBeNull();
+      expect(await OrderQueue.countDocuments({ orderId: 'order-1' })).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { PerformanceReportData } from '@easyrate/shared';
+import {
+  ReportService,
+  formatReportPeriod,
+  renderPerformanceReport,
+} from '../../src/services/ReportService.js';
+import { Business } from '../../src/models/Business.js';
+import { PerformanceReport } from '../../src/models/PerformanceReport.js';
+import { Review } from '../../src/models/Review.js';
+
+const { mockEmailProvider } = vi.hoisted(() => ({
+  mockEmailProvider: {
+    send: vi.fn().mockResolvedValue({ success: true, messageId: 'mock-email-id' }),
+  },
+}));
+
+vi.mock('../../src/providers/index.js', () => ({
+  getEmailProvider: () => mockEmailProvider,
+  isEmailConfigured: () => true,
+}));
+
+const data: PerformanceReportData = {
+  reviews: { total: 12, avgRating: 4.25, previousAvgRating: 3.9, volumeTrend: 20, negative: 2 },
+  notifications: { smsSent: 40, emailSent: 10, smsConversionRate: 25, emailConversionRate: 10 },
+  google: { newReviews: 3, avgRating: 4.7, unanswered: 1 },
+  insight: {
+    headline: 'Ventetid <over> 20 min',
+    sentiment: 'positive',
+    generatedAt: new Date('2024-01-14T00:00:00.000Z'),
+  },
+};
+
+describe('ReportService', () => {
+  describe('formatReportPeriod', () => {
+    it('should format weekly and monthly periods in Danish', () => {
+      const week = {
+        start: new Date('2024-01-07T23:00:00.000Z'),
+        end: new Date('2024-01-14T23:00:00.000Z'),
+      };
+      const month = {
+        start: new Date('2023-11-30T23:00:00.000Z'),
+        end: new Date('2023-12-31T23:00:00.000Z'),
+      };
+
+      expect(formatReportPeriod(week, 'weekly', 'Europe/Copenhagen')).toBe(
+        '8. jan. - 14. jan. 2024'
+      );
+      expect(formatReportPeriod(month, 'monthly', 'Europe/Copenhagen')).toBe('december 2023');
+    });
+  });
+
+  describe('renderPerformanceReport', () => {
+    it('should render branded HTML with escaped values and a text version', () => {
+      const report = renderPerformanceReport({
+        businessName: 'Café & Bar',
+        primaryColor: '#FF0000',
+        frequency: 'weekly',
+        periodLabel: '8. jan. - 14. jan. 2024',
+        data,
+      });
+
+      expect(report.subject).toBe('Ugerapport for Café & Bar: 8. jan. - 14. jan. 2024');
+      expect(report.html).toContain('background:#FF0000');
+      expect(report.html).toContain('Café &amp; Bar');
+      expect(report.html).toContain('Ventetid &lt;over&gt; 20 min');
+      expect(report.html).not.toContain('{{');
+      expect(report.text).toContain('Anmeldelser: 12 (+20%)');
+      expect(report.text).toContain('Gennemsnitlig bedømmelse: 4,3 (3,9)');
+      expect(report.text).toContain('Seneste AI indsigt (positiv): Ventetid <over> 20 min');
+    });
+
+    it('should leave out logos and colours that are not plain values', () => {
+      const report = renderPerformanceReport({
+        businessName: 'Café & Bar',
+        logoUrl: 'javascript:alert(1)',
+        primaryColor: 'red;background:url(https://evil.example)',
+        frequency: 'weekly',
+        periodLabel: '8. jan. - 14. jan. 2024',
+        data,
+      });
+
+      expect(report.html).not.toContain('<img');
+      expect(report.html).not.toContain('evil.example');
+    });
+  });
+
+  describe('sendDueReports', () => {
+    let service: ReportService;
+    let businessId: string;
+
+    beforeEach(async () => {
+      service = new ReportService();
+
+      const business = await Business.create({
+        name: 'Test Restaurant',
+        email: 'owner@restaurant.com',
+        settings: { reports: { enabled: true, frequency: 'weekly', recipients: [] } },
+      });
+      businessId = business._id.toString();
+      // Backdate so the business existed during the reported week
+      await Business.collection.updateOne(
+        { _id: business._id },
+        { $set: { createdAt: new Date('2024-01-01T00:00:00.000Z') } }
+      );
+
+      const review = await Review.create({
+        businessId,
+        rating: 2,
+        sourcePlatform: 'direct',
+        customer: { name: 'Anders' },
+        consent: { given: true, timestamp: new Date() },
+      });
+      await Review.collection.updateOne(
+        { _id: review._id },
+        { $set: { createdAt: new Date('2024-01-10T12:00:00.000Z') } }
+      );
+    });
+
+    it('should send the report once after the send hour and log it', async () => {
+      const mondayMorning = new Date('2024-01-15T06:00:00.000Z'); // 07:00 local
+      expect(await service.sendDueReports(mondayMorning)).toBe(0);
+
+      const mondayAfterSendHour = new Date('2024-01-15T08:00:00.000Z');
+      expect(await service.sendDueReports(mondayAfterSendHour)).toBe(1);
+      expect(await service.sendDueReports(mondayAfterSendHour)).toBe(0);
+
+      expect(mockEmailProvider.send).toHaveBeenCalledTimes(1);
+      expect(mockEmailProvider.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'owner@restaurant.com', html: expect.any(String) })
+      );
+
+      const reports = await PerformanceReport.find({ businessId });
+      expect(reports).toHaveLength(1);
+      expect(reports[0]?.status).toBe('sent');
+      expect(reports[0]?.data.reviews.total).toBe(1);
+      expect(reports[0]?.data.reviews.negative).toBe(1);
+    });
+
+    it('should retry a failed report on the next run', async () => {
+      const mondayAfterSendHour = new Date('2024-01-15T08:00:00.000Z');
+      mockEmailProvider.send.mockResolvedValueOnce({ success: false, error: 'Provider down' });
+      expect(await service.sendDueReports(mondayAfterSendHour)).toBe(0);
+
+      const failed = await PerformanceReport.findOne({ businessId });
+      expect(failed?.status).toBe('failed');
+      expect(failed?.error).toBe('owner@restaurant.com: Provider down');
+
+      const tuesday = new Date('2024-01-16T08:00:00.000Z');
+      expect(await service.sendDueReports(tuesday)).toBe(1);
+      expect(await service.sendDueReports(tuesday)).toBe(0);
+
+      const reports = await PerformanceReport.find({ businessId });
+      expect(reports).toHaveLength(1);
+      expect(reports[0]?.status).toBe('sent');
+      expect(reports[0]?.error).toBeUndefined();
+    });
+
+    it('should not send late reports after the max delay', async () => {
+      const weekLater = new Date('2024-01-20T08:00:00.000Z');
+      expect(await service.sendDueReports(weekLater)).toBe(0);
+    });
+  });
+});
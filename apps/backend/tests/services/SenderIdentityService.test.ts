@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { smsSenderIdSchema, updateSenderIdentitySchema } from '@easyrate/shared';
+import type { SenderIdentity } from '@easyrate/shared';
+import type * as dnsModule from 'dns';
+import {
+  SenderIdentityService,
+  resolveEmailSender,
+  resolveSmsSender,
+} from '../../src/services/SenderIdentityService.js';
+import { Business } from '../../src/models/Business.js';
+
+const { resolveTxt } = vi.hoisted(() => ({ resolveTxt: vi.fn() }));
+
+vi.mock('dns', async (importOriginal) => {
+  const actual = await importOriginal<typeof dnsModule>();
+  return { ...actual, promises: { ...actual.promises, resolveTxt } };
+});
+
+const verifiedIdentity: SenderIdentity = {
+  fromName: 'Café Ærø Booking',
+  fromEmail: 'booking@cafe-aero.dk',
+  smsSenderId: 'CafeAeroe',
+  domain: { name: 'cafe-aero.dk', status: 'verified', verificationToken: 'easyrate-verify=abc' },
+};
+
+describe('SenderIdentityService', () => {
+  describe('smsSenderIdSchema', () => {
+    it('should accept alphanumeric senders up to 11 GSM characters', () => {
+      expect(smsSenderIdSchema.safeParse('Café Ærø').success).toBe(true);
+      expect(smsSenderIdSchema.safeParse('Restaurant1').success).toBe(true);
+    });
+
+    it('should reject senders longer than 11 characters', () => {
+      expect(smsSenderIdSchema.safeParse('Restaurant12').success).toBe(false);
+    });
+
+    it('should reject characters outside the GSM basic set', () => {
+      expect(smsSenderIdSchema.safeParse('Pizza€').success).toBe(false);
+      expect(smsSenderIdSchema.safeParse('Café 🍕').success).toBe(false);
+      expect(smsSenderIdSchema.safeParse('Line\nbreak').success).toBe(false);
+    });
+
+    it('should reject senders without a letter', () => {
+      expect(smsSenderIdSchema.safeParse('12345678').success).toBe(false);
+    });
+
+    it('should allow clearing fields with empty strings', () => {
+      expect(
+        updateSenderIdentitySchema.safeParse({ fromName: '', fromEmail: '', smsSenderId: '' })
+          .success
+      ).toBe(true);
+    });
+  });
+
+  describe('resolveEmailSender', () => {
+    it('should send from the custom address once the domain is verified', () => {
+      expect(resolveEmailSender({ name: 'Café Ærø', senderIdentity: verifiedIdentity })).toEqual({
+        fromName: 'Café Ærø Booking',
+        from: 'booking@cafe-aero.dk',
+      });
+    });
+
+    it('should keep the provider address while the domain is unverified', () => {
+      const senderIdentity: SenderIdentity = {
+        ...verifiedIdentity,
+        domain: { name: 'cafe-aero.dk', status: 'pending', verificationToken: 'x' },
+      };
+
+      expect(resolveEmailSender({ name: 'Café Ærø', senderIdentity })).toEqual({
+        fromName: 'Café Ærø Booking',
+      });
+    });
+
+    it('should fall back to the business name', () => {
+      expect(resolveEmailSender({ name: 'Café Ærø' })).toEqual({ fromName: 'Café Ærø' });
+    });
+  });
+
+  describe('resolveSmsSender', () => {
+    it('should prefer the SMS sender ID over the business name', () => {
+      expect(resolveSmsSender({ name: 'Café Ærø', senderIdentity: verifiedIdentity })).toBe(
+        'CafeAeroe'
+      );
+      expect(resolveSmsSender({ name: 'Café Ærø', senderIdentity: {} })).toBe('Café Ærø');
+    });
+  });
+
+  describe('update', () => {
+    let service: SenderIdentityService;
+    let businessId: string;
+
+    beforeEach(async () => {
+      service = new SenderIdentityService();
+      resolveTxt.mockReset();
+
+      const business = await Business.create({
+        name: 'Test Restaurant',
+        email: 'test@restaurant.com',
+      });
+      businessId = business._id.toString();
+    });
+
+    it('should start a new sending domain as pending with a token', async () => {
+      const identity = await service.update(businessId, {
+        fromName: 'Test Restaurant',
+        fromEmail: 'Hej@Restaurant.dk',
+      });
+
+      expect(identity.fromEmail).toBe('hej@restaurant.dk');
+      expect(identity.domain).toMatchObject({ name: 'restaurant.dk', status: 'pending' });
+      expect(identity.domain?.verificationToken).toMatch(/^easyrate-verify=[0-9a-f]{32}$/);
+    });
+
+    it('should keep the verification when the address stays on the same domain', async () => {
+      const { domain } = await service.update(businessId, { fromEmail: 'hej@restaurant.dk' });
+      resolveTxt.mockResolvedValue([[domain?.verificationToken ?? '']]);
+      await service.verifyDomain(businessId);
+
+      const identity = await service.update(businessId, { fromEmail: 'booking@restaurant.dk' });
+
+      expect(identity.domain?.status).toBe('verified');
+    });
+
+    it('should remove the domain when the address is cleared', async () => {
+      await service.update(businessId, {
+        fromEmail: 'hej@restaurant.dk',
+        smsSenderId: 'Restaurant',
+      });
+
+      const identity = await service.update(businessId, { fromEmail: '' });
+
+      expect(identity.fromEmail).toBeUndefined();
+      expect(identity.domain).toBeUndefined();
+      expect(identity.smsSenderId).toBe('Restaurant');
+    });
+  });
+
+  describe('verifyDomain', () => {
+    let service: SenderIdentityService;
+    let businessId: string;
+
+    beforeEach(async () => {
+      service = new SenderIdentityService();
+      resolveTxt.mockReset();
+
+      const business = await Business.create({
+        name: 'Test Restaurant',
+        email: 'test@restaurant.com',
+      });
+      businessId = business._id.toString();
+    });
+
+    it('should verify when the TXT record holds the token', async () => {
+      const { domain } = await service.update(businessId, { fromEmail: 'hej@restaurant.dk' });
+      const token = domain?.verificationToken ?? '';
+      // Long records arrive split into chunks
+      resolveTxt.mockResolvedValue([['v=spf1 -all'], [token.slice(0, 10), token.slice(10)]]);
+
+      const identity = await service.verifyDomain(businessId);
+
+      expect(resolveTxt).toHaveBeenCalledWith('_easyrate.restaurant.dk');
+      expect(identity.domain?.status).toBe('verified');
+      expect(identity.domain?.verifiedAt).toBeDefined();
+    });
+
+    it('should fail with a reason when the record is missing', async () => {
+      await service.update(businessId, { fromEmail: 'hej@restaurant.dk' });
+      resolveTxt.mockRejectedValue(
+        Object.assign(new Error('queryTxt ENOTFOUND'), { code: 'ENOTFOUND' })
+      );
+
+      const identity = await service.verifyDomain(businessId);
+
+      expect(identity.domain?.status).toBe('failed');
+      expect(identity.domain?.lastError).toBe('Ingen TXT-record fundet på _easyrate.restaurant.dk');
+    });
+
+    it('should reject verification without a sending domain', async () => {
+      await expect(service.verifyDomain(businessId)).rejects.toThrow(
+        'Der er ikke angivet en afsenderadresse med eget domæne'
+      );
+    });
+  });
+});
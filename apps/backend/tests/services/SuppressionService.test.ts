@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SuppressionService } from '../../src/services/SuppressionService.js';
+import { Business } from '../../src/models/Business.js';
+import { Notification } from '../../src/models/Notification.js';
+import { Suppression } from '../../src/models/Suppression.js';
+
+describe('SuppressionService', () => {
+  let service: SuppressionService;
+  let testBusinessId: string;
+  let otherBusinessId: string;
+
+  beforeEach(async () => {
+    service = new SuppressionService();
+
+    const business = await Business.create({
+      name: 'Test Restaurant',
+      email: 'test@restaurant.com',
+    });
+    const otherBusiness = await Business.create({
+      name: 'Other Restaurant',
+      email: 'other@restaurant.com',
+    });
+    testBusinessId = business._id.toString();
+    otherBusinessId = otherBusiness._id.toString();
+  });
+
+  describe('isSuppressed', () => {
+    it('should match phone numbers across formats', async () => {
+      await service.add(testBusinessId, { channel: 'sms', value: '12 34 56 78' }, 'manual');
+
+      expect(await service.isSuppressed(testBusinessId, 'sms', '+4512345678')).toBe(true);
+      expect(await service.isSuppressed(testBusinessId, 'sms', '004512345678')).toBe(true);
+    });
+
+    it('should match emails case-insensitively', async () => {
+      await service.add(
+        testBusinessId,
+        { channel: 'email', value: 'Anders@Example.com' },
+        'manual'
+      );
+
+      expect(await service.isSuppressed(testBusinessId, 'email', 'anders@example.com')).toBe(true);
+      expect(await service.isSuppressed(testBusinessId, 'sms', 'anders@example.com')).toBe(false);
+    });
+
+    it('should scope business entries and apply global entries everywhere', async () => {
+      await service.add(testBusinessId, { channel: 'sms', value: '11111111' }, 'manual');
+      await service.add(null, { channel: 'sms', value: '22222222' }, 'sms_stop');
+
+      expect(await service.isSuppressed(otherBusinessId, 'sms', '11111111')).toBe(false);
+      expect(await service.isSuppressed(otherBusinessId, 'sms', '22222222')).toBe(true);
+    });
+  });
+
+  describe('add', () => {
+    it('should be idempotent and keep the original reason', async () => {
+      await service.add(testBusinessId, { channel: 'sms', value: '12345678' }, 'sms_stop');
+      const again = await service.add(
+        testBusinessId,
+        { channel: 'sms', value: '+4512345678' },
+        'manual'
+      );
+
+      expect(again.reason).toBe('sms_stop');
+      expect(await Suppression.countDocuments()).toBe(1);
+    });
+  });
+
+  describe('remove', () => {
+    it('should not remove entries belonging to another scope', async () => {
+      const global = await service.add(null, { channel: 'sms', value: '12345678' }, 'sms_stop');
+
+      await expect(service.remove(testBusinessId, global.id)).rejects.toThrow();
+      expect(await Suppression.countDocuments()).toBe(1);
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should suppress the email embedded in the token', async () => {
+      const token = service.generateUnsubscribeToken({
+        businessId: testBusinessId,
+        email: 'anders@example.com',
+      });
+
+      const result = await service.unsubscribe(token);
+
+      expect(result).toEqual({ businessName: 'Test Restaurant', email: 'anders@example.com' });
+      expect(await service.isSuppressed(testBusinessId, 'email', 'anders@example.com')).toBe(true);
+    });
+
+    it('should reject tampered tokens', async () => {
+      await expect(service.unsubscribe('eyJhbGciOiJIUzI1NiJ9.e30.invalid')).rejects.toThrow();
+    });
+  });
+
+  describe('handleInboundSms', () => {
+    it('should ignore messages that are not opt-outs', async () => {
+      expect(await service.handleInboundSms('+4512345678', 'Tak for maden!')).toBeNull();
+      expect(await Suppression.countDocuments()).toBe(0);
+    });
+
+    it('should attribute STOP replies to the business that last texted the sender', async () => {
+      await Notification.create({
+        businessId: testBusinessId,
+        type: 'sms',
+        status: 'sent',
+        recipient: '+4512345678',
+        content: 'Hej',
+        reviewLink: 'https://example.com/r/abc',
+      });
+
+      const suppression = await service.handleInboundSms('+4512345678', ' stop ');
+
+      expect(suppression?.businessId).toBe(testBusinessId);
+      expect(suppression?.reason).toBe('sms_stop');
+    });
+
+    it('should ignore STOP replies from numbers no business has texted', async () => {
+      const suppression = await service.handleInboundSms('+4587654321', 'Afmeld');
+
+      expect(suppression).toBeNull();
+      expect(await Suppression.countDocuments()).toBe(0);
+    });
+  });
+});
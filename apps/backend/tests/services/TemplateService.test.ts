@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { buildRatingLink, templateService } from '../../src/services/TemplateService.js';
+
+describe('TemplateService', () => {
+  describe('buildRatingLink', () => {
+    it('should preselect the rating on the landing page link', () => {
+      expect(buildRatingLink('https://easyrate.app/r/abc123', 5)).toBe(
+        'https://easyrate.app/r/abc123?rating=5'
+      );
+      expect(buildRatingLink('https://easyrate.app/r/abc123?isTest=true', 2)).toBe(
+        'https://easyrate.app/r/abc123?isTest=true&rating=2'
+      );
+    });
+  });
+
+  describe('renderReviewRequestEmail', () => {
+    const input = {
+      businessName: 'Café Hygge',
+      body: 'Hej Anders,\n\nTak for besøget!\nDel din mening: https://easyrate.app/r/abc123',
+      reviewLink: 'https://easyrate.app/r/abc123',
+      footer: 'Afmeld her: https://easyrate.app/unsubscribe/token',
+      primaryColor: '#10B981',
+      logoUrl: 'https://cdn.example.com/logo.png',
+    };
+
+    it('should add a star row deep-linking each rating', () => {
+      const { html } = templateService.renderReviewRequestEmail(input);
+
+      for (const rating of [1, 2, 3, 4, 5]) {
+        expect(html).toContain(`href="https://easyrate.app/r/abc123?rating=${String(rating)}"`);
+      }
+      expect(html).toContain('aria-label="1 stjerne"');
+      expect(html).toContain('aria-label="5 stjerner"');
+    });
+
+    it('should apply the branding', () => {
+      const { html } = templateService.renderReviewRequestEmail(input);
+
+      expect(html).toContain('background:#10B981');
+      expect(html).toContain('<img src="https://cdn.example.com/logo.png" alt="Café Hygge"');
+    });
+
+    it('should fall back to the default color and the business name without branding', () => {
+      const { html } = templateService.renderReviewRequestEmail({
+        ...input,
+        primaryColor: 'red;background:url(x)',
+        logoUrl: 'javascript:alert(1)',
+      });
+
+      expect(html).toContain('background:#3B82F6');
+      expect(html).not.toContain('javascript:');
+      expect(html).toContain('font-weight:bold;">Café Hygge</p>');
+    });
+
+    it('should turn the body into paragraphs with links', () => {
+      const { html } = templateService.renderReviewRequestEmail(input);
+
+      expect(html).toContain('>Hej Anders,</p>');
+      expect(html).toContain(
+        'Tak for besøget!<br>Del din mening: <a href="https://easyrate.app/r/abc123"'
+      );
+    });
+
+    it('should escape business text', () => {
+      const { html } = templateService.renderReviewRequestEmail({
+        ...input,
+        businessName: 'Bar <b>&</b>',
+        body: '<script>alert(1)</script> {{footer}}',
+      });
+
+      expect(html).toContain('Bar &lt;b&gt;&amp;&lt;/b&gt;');
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; {{footer}}');
+      expect(html).not.toContain('<script>');
+    });
+
+    it('should build a plain text alternative with the rating links', () => {
+      const { text } = templateService.renderReviewRequestEmail(input);
+
+      expect(text).toBe(
+        [
+          'Hej Anders,',
+          '',
+          'Tak for besøget!',
+          'Del din mening: https://easyrate.app/r/abc123',
+          '',
+          'Bedøm din oplevelse med ét klik:',
+          '1 stjerne: https://easyrate.app/r/abc123?rating=1',
+          '2 stjerner: https://easyrate.app/r/abc123?rating=2',
+          '3 stjerner: https://easyrate.app/r/abc123?rating=3',
+          '4 stjerner: https://easyrate.app/r/abc123?rating=4',
+          '5 stjerner: https://easyrate.app/r/abc123?rating=5',
+          '',
+          '--',
+          'Afmeld her: https://easyrate.app/unsubscribe/token',
+        ].join('\n')
+      );
+    });
+
+    it('should leave out the star row without a review link', () => {
+      const { html, text } = templateService.renderReviewRequestEmail({
+        ...input,
+        reviewLink: 'pending',
+      });
+
+      expect(html).not.toContain('?rating=');
+      expect(text).toBe(
+        'Hej Anders,\n\nTak for besøget!\nDel din mening: https://easyrate.app/r/abc123\n\n--\nAfmeld her: https://easyrate.app/unsubscribe/token'
+      );
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  WebhookService,
+  buildWebhookHeaders,
+  getNextWebhookAttempt,
+} from '../../src/services/WebhookService.js';
+import { Business } from '../../src/models/Business.js';
+import { WebhookDelivery } from '../../src/models/WebhookDelivery.js';
+import { verifySvixSignature } from '../../src/utils/svix.js';
+
+const { dnsState } = vi.hoisted(() => ({
+  dnsState: { addresses: ['93.184.216.34'] },
+}));
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(() => Promise.resolve(dnsState.addresses.map((address) => ({ address })))),
+}));
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let testBusinessId: string;
+  const fetchMock = vi.fn();
+
+  beforeEach(async () => {
+    service = new WebhookService();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const business = await Business.create({
+      name: 'Test Restaurant',
+      email: 'test@restaurant.com',
+    });
+    testBusinessId = business._id.toString();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    dnsState.addresses = ['93.184.216.34'];
+  });
+
+  describe('buildWebhookHeaders', () => {
+    it('should produce a signature receivers can verify with svix', () => {
+      const secret = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
+      const body = JSON.stringify({ type: 'review.created' });
+      const timestamp = 1700000000;
+
+      const headers = buildWebhookHeaders(secret, 'evt_1', body, timestamp);
+
+      const result = verifySvixSignature(
+        body,
+        {
+          id: headers['webhook-id'],
+          timestamp: headers['webhook-timestamp'],
+          signature: headers['webhook-signature'],
+        },
+        [secret],
+        new Date(timestamp * 1000)
+      );
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('getNextWebhookAttempt', () => {
+    it('should back off and stop after the last retry', () => {
+      const now = new Date('2026-01-01T12:00:00Z');
+
+      expect(getNextWebhookAttempt(1, now)?.toISOString()).toBe('2026-01-01T12:01:00.000Z');
+      expect(getNextWebhookAttempt(2, now)?.toISOString()).toBe('2026-01-01T12:05:00.000Z');
+      expect(getNextWebhookAttempt(6, now)).toBeNull();
+    });
+  });
+
+  describe('createEndpoint', () => {
+    it('should return the secret once and hide it afterwards', async () => {
+      const created = await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/hook',
+        events: ['review.created'],
+      });
+
+      expect(created.secret).toMatch(/^whsec_/);
+
+      const [listed] = await service.listEndpoints(testBusinessId);
+      expect(listed?.id).toBe(created.id);
+      expect(listed?.secret).toBeUndefined();
+    });
+
+    it('should reject a URL pointing at a private address', async () => {
+      dnsState.addresses = ['169.254.169.254'];
+
+      await expect(
+        service.createEndpoint(testBusinessId, {
+          url: 'https://metadata.example.com/hook',
+          events: ['review.created'],
+        })
+      ).rejects.toThrow('Webhook URL skal pege på en offentlig https adresse');
+    });
+  });
+
+  describe('emit', () => {
+    it('should queue deliveries only for enabled endpoints subscribed to the event', async () => {
+      const subscribed = await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/a',
+        events: ['review.created', 'review.negative'],
+      });
+      await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/b',
+        events: ['review.replied'],
+      });
+      await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/c',
+        events: ['review.created'],
+        enabled: false,
+      });
+
+      await service.emit(testBusinessId, 'review.created', { rating: 5 });
+
+      const deliveries = await WebhookDelivery.find({});
+      expect(deliveries).toHaveLength(1);
+      expect(String(deliveries[0]?.endpointId)).toBe(subscribed.id);
+      expect(deliveries[0]?.status).toBe('pending');
+      expect(deliveries[0]?.payload.data).toEqual({ rating: 5 });
+    });
+  });
+
+  describe('deliver', () => {
+    it('should mark a 2xx response as succeeded', async () => {
+      await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/a',
+        events: ['review.created'],
+      });
+      await service.emit(testBusinessId, 'review.created', { rating: 5 });
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      const delivery = await WebhookDelivery.findOne({});
+      const result = await service.deliver(delivery!);
+
+      expect(result.status).toBe('succeeded');
+      expect(result.attempts).toBe(1);
+      expect(result.lastResponseStatus).toBe(204);
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://example.com/a',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should schedule a retry after a failed attempt', async () => {
+      await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/a',
+        events: ['review.created'],
+      });
+      await service.emit(testBusinessId, 'review.created', { rating: 5 });
+      fetchMock.mockResolvedValueOnce(new Response('oops', { status: 500 }));
+
+      const delivery = await WebhookDelivery.findOne({});
+      const result = await service.deliver(delivery!);
+
+      expect(result.status).toBe('pending');
+      expect(result.lastError).toBe('HTTP 500');
+      expect(new Date(result.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should give up after all retries are used', async () => {
+      await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/a',
+        events: ['review.created'],
+      });
+      await service.emit(testBusinessId, 'review.created', { rating: 5 });
+      await WebhookDelivery.updateMany({}, { attempts: 5 });
+      fetchMock.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      const delivery = await WebhookDelivery.findOne({});
+      const result = await service.deliver(delivery!);
+
+      expect(result.status).toBe('failed');
+      expect(result.attempts).toBe(6);
+      expect(result.lastError).toBe('connect ECONNREFUSED');
+    });
+
+    it('should not call a host that now resolves to a private address', async () => {
+      await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/a',
+        events: ['review.created'],
+      });
+      await service.emit(testBusinessId, 'review.created', { rating: 5 });
+      dnsState.addresses = ['10.0.0.5'];
+
+      const delivery = await WebhookDelivery.findOne({});
+      const result = await service.deliver(delivery!);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(result.status).toBe('pending');
+      expect(result.lastError).toBe('example.com resolves to a private address (10.0.0.5)');
+    });
+  });
+
+  describe('sendTestEvent', () => {
+    it('should not retry a failed test event', async () => {
+      const endpoint = await service.createEndpoint(testBusinessId, {
+        url: 'https://example.com/a',
+        events: ['review.created'],
+      });
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+      const result = await service.sendTestEvent(testBusinessId, endpoint.id);
+
+      expect(result.eventType).toBe('webhook.test');
+      expect(result.status).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { parseDsn, stripAngleBrackets } from '../../src/utils/dsn.js';
+
+function bounce(options: {
+  action?: string;
+  status?: string;
+  deliveryStatusEncoding?: 'base64';
+  originalPart?: string;
+}): string {
+  const deliveryStatus = [
+    'Reporting-MTA: dns; mail.restaurant.dk',
+    'Original-Envelope-Id: 3f1c2b4e@restaurant.dk',
+    '',
+    'Final-Recipient: rfc822; gone@example.com',
+    'Original-Recipient: rfc822;gone@example.com',
+    `Action: ${options.action ?? 'failed'}`,
+    `Status: ${options.status ?? '5.1.1'}`,
+    'Remote-MTA: dns; mx.example.com',
+    'Diagnostic-Code: smtp; 550 5.1.1 <gone@example.com>: Recipient address',
+    '    rejected: User unknown',
+    '',
+  ].join('\r\n');
+
+  return [
+    'From: MAILER-DAEMON@mail.restaurant.dk (Mail Delivery System)',
+    'Subject: Undelivered Mail Returned to Sender',
+    'Content-Type: multipart/report; report-type=delivery-status;',
+    '\tboundary="B0UND"',
+    'MIME-Version: 1.0',
+    '',
+    'This is a MIME-encapsulated message.',
+    '',
+    '--B0UND',
+    'Content-Description: Notification',
+    'Content-Type: text/plain; charset=us-ascii',
+    '',
+    "I'm sorry to have to inform you that your message could not be delivered.",
+    '',
+    '--B0UND',
+    'Content-Description: Delivery report',
+    'Content-Type: message/delivery-status',
+    ...(options.deliveryStatusEncoding
+      ? ['Content-Transfer-Encoding: base64', '', Buffer.from(deliveryStatus).toString('base64')]
+      : ['', deliveryStatus]),
+    '--B0UND',
+    options.originalPart ??
+      [
+        'Content-Description: Undelivered Message Headers',
+        'Content-Type: text/rfc822-headers',
+        '',
+        'From: "EasyRate" <noreply@restaurant.dk>',
+        'To: gone@example.com',
+        'Message-ID: <3f1c2b4e@restaurant.dk>',
+        'Subject: Hvordan var dit besøg?',
+        '',
+      ].join('\r\n'),
+    '--B0UND--',
+    '',
+  ].join('\r\n');
+}
+
+describe('dsn', () => {
+  describe('parseDsn', () => {
+    it('should parse a hard bounce', () => {
+      expect(parseDsn(bounce({}))).toEqual({
+        action: 'failed',
+        status: '5.1.1',
+        recipient: 'gone@example.com',
+        diagnosticCode: '550 5.1.1 <gone@example.com>: Recipient address rejected: User unknown',
+        envelopeId: '3f1c2b4e@restaurant.dk',
+        originalMessageId: '3f1c2b4e@restaurant.dk',
+        permanent: true,
+      });
+    });
+
+    it('should not treat a failed 4.x.x status as permanent', () => {
+      expect(parseDsn(bounce({ status: '4.2.2' }))).toMatchObject({
+        action: 'failed',
+        permanent: false,
+      });
+    });
+
+    it('should parse delay reports', () => {
+      expect(parseDsn(bounce({ action: 'delayed', status: '4.4.1' }))).toMatchObject({
+        action: 'delayed',
+        permanent: false,
+      });
+    });
+
+    it('should decode a base64 delivery-status part', () => {
+      expect(parseDsn(bounce({ deliveryStatusEncoding: 'base64' }))).toMatchObject({
+        action: 'failed',
+        recipient: 'gone@example.com',
+      });
+    });
+
+    it('should read the Message-ID from a returned full message', () => {
+      const originalPart = [
+        'Content-Type: message/rfc822',
+        '',
+        'From: noreply@restaurant.dk',
+        'Message-ID: <full-message@restaurant.dk>',
+        '',
+        'Hej Anders',
+        '',
+      ].join('\r\n');
+
+      expect(parseDsn(bounce({ originalPart }))?.originalMessageId).toBe(
+        'full-message@restaurant.dk'
+      );
+    });
+
+    it('should return null for messages that are not delivery reports', () => {
+      const autoReply = [
+        'From: anders@example.com',
+        'Subject: Out of office',
+        'Content-Type: text/plain',
+        '',
+        'I am away until Monday.',
+      ].join('\r\n');
+
+      expect(parseDsn(autoReply)).toBeNull();
+    });
+  });
+
+  describe('stripAngleBrackets', () => {
+    it('should remove the brackets around a Message-ID', () => {
+      expect(stripAngleBrackets(' <abc@restaurant.dk> ')).toBe('abc@restaurant.dk');
+      expect(stripAngleBrackets('abc@restaurant.dk')).toBe('abc@restaurant.dk');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import mongoose from 'mongoose';
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  isRetryableError,
+} from '../../src/utils/errors.js';
+
+describe('isRetryableError', () => {
+  it('should not retry client errors', () => {
+    expect(isRetryableError(new ValidationError('Ugyldig telefonnummer'))).toBe(false);
+    expect(isRetryableError(new NotFoundError())).toBe(false);
+  });
+
+  it('should retry server-side app errors', () => {
+    expect(isRetryableError(new AppError('SMS-udbyder svarer ikke', 'SMS_ERROR', 502))).toBe(true);
+  });
+
+  it('should not retry schema errors', () => {
+    const castError = new mongoose.Error.CastError('ObjectId', 'not-an-id', '_id');
+
+    expect(isRetryableError(castError)).toBe(false);
+    expect(isRetryableError(new mongoose.Error.ValidationError())).toBe(false);
+  });
+
+  it('should retry unexpected errors', () => {
+    const duplicateKey = Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+    expect(isRetryableError(new Error('connect ETIMEDOUT'))).toBe(true);
+    expect(isRetryableError(duplicateKey)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage } from '../../src/utils/language.js';
+
+describe('detectLanguage', () => {
+  it('should recognise each analysis language', () => {
+    expect(
+      detectLanguage(
+        'Gæsterne er meget glade for maden, men ventetiden er for lang og bør ikke stige.'
+      )
+    ).toBe('da');
+    expect(
+      detectLanguage(
+        'Gästerna är mycket nöjda med maten, men väntetiden är för lång och bör inte öka.'
+      )
+    ).toBe('sv');
+    expect(
+      detectLanguage('The guests are very happy with the food, but the waiting time is too long.')
+    ).toBe('en');
+    expect(
+      detectLanguage('Die Gäste sind sehr zufrieden mit dem Essen, aber die Wartezeit ist zu lang.')
+    ).toBe('de');
+  });
+
+  it('should tell Danish and Swedish apart despite shared words', () => {
+    expect(detectLanguage('Det var en god oplevelse og personalet har været søde')).toBe('da');
+    expect(detectLanguage('Det var en bra upplevelse och personalen har varit trevlig')).toBe('sv');
+  });
+
+  it('should not guess from too little text', () => {
+    expect(detectLanguage('Service')).toBeNull();
+    expect(detectLanguage('Super hyggeligt')).toBeNull();
+    expect(detectLanguage('')).toBeNull();
+  });
+
+  it('should not guess from mixed text', () => {
+    expect(
+      detectLanguage('The food is good. Maden er god og ikke dyr, and the staff are nice.')
+    ).toBeNull();
+  });
+});
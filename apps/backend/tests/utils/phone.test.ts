@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePhone, getPhoneVariants, toDanishPhone } from '../../src/utils/phone.js';
+
+describe('phone', () => {
+  describe('normalizePhone', () => {
+    it('should add the Danish country code to 8-digit numbers', () => {
+      expect(normalizePhone('12345678')).toBe('+4512345678');
+      expect(normalizePhone('12 34 56 78')).toBe('+4512345678');
+    });
+
+    it('should convert 00 prefix to +', () => {
+      expect(normalizePhone('004512345678')).toBe('+4512345678');
+      expect(normalizePhone('0046701234567')).toBe('+46701234567');
+    });
+
+    it('should keep numbers that already have a country code', () => {
+      expect(normalizePhone('+45 12-34-56-78')).toBe('+4512345678');
+    });
+  });
+
+  describe('toDanishPhone', () => {
+    it('should normalize Danish numbers in common formats', () => {
+      expect(toDanishPhone('12 34 56 78')).toBe('+4512345678');
+      expect(toDanishPhone('+45 12 34 56 78')).toBe('+4512345678');
+      expect(toDanishPhone('4512345678')).toBe('+4512345678');
+    });
+
+    it('should reject foreign and malformed numbers', () => {
+      expect(toDanishPhone('+46701234567')).toBeNull();
+      expect(toDanishPhone('1234567')).toBeNull();
+      expect(toDanishPhone('12345678a')).toBeNull();
+    });
+  });
+
+  describe('getPhoneVariants', () => {
+    it('should include all common Danish formats', () => {
+      expect(getPhoneVariants('+4512345678').sort()).toEqual(
+        ['+4512345678', '12345678', '4512345678', '004512345678'].sort()
+      );
+    });
+
+    it('should include the original input', () => {
+      expect(getPhoneVariants(' 12 34 56 78 ')).toContain('12 34 56 78');
+    });
+
+    it('should not add Danish variants for foreign numbers', () => {
+      expect(getPhoneVariants('+46701234567')).toEqual(['+46701234567']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { SendWindowSettings } from '@easyrate/shared';
+import {
+  getLatestLocalTime,
+  getLastCompletedPeriod,
+  getNextAllowedSendTime,
+  isWithinSendWindow,
+} from '../../src/utils/sendWindow.js';
+
+const TZ = 'Europe/Copenhagen';
+
+const window: SendWindowSettings = {
+  enabled: true,
+  start: '09:00',
+  end: '21:00',
+};
+
+describe('sendWindow', () => {
+  describe('getNextAllowedSendTime', () => {
+    it('should return the same time when inside the window', () => {
+      const date = new Date('2024-01-15T12:00:00.000Z'); // 13:00 local
+      expect(getNextAllowedSendTime(date, window, TZ)).toBe(date);
+      expect(isWithinSendWindow(date, window, TZ)).toBe(true);
+    });
+
+    it('should push early morning sends to the window start the same day', () => {
+      const date = new Date('2024-01-15T05:00:00.000Z'); // 06:00 local
+      expect(getNextAllowedSendTime(date, window, TZ).toISOString()).toBe(
+        '2024-01-15T08:00:00.000Z'
+      );
+      expect(isWithinSendWindow(date, window, TZ)).toBe(false);
+    });
+
+    it('should push late evening sends to the next day', () => {
+      const date = new Date('2024-01-15T20:30:00.000Z'); // 21:30 local
+      expect(getNextAllowedSendTime(date, window, TZ).toISOString()).toBe(
+        '2024-01-16T08:00:00.000Z'
+      );
+    });
+
+    it('should treat the end time as exclusive', () => {
+      const date = new Date('2024-07-15T19:00:00.000Z'); // 21:00 local (CEST)
+      expect(getNextAllowedSendTime(date, window, TZ).toISOString()).toBe(
+        '2024-07-16T07:00:00.000Z'
+      );
+    });
+
+    it('should handle local dates that differ from the UTC date', () => {
+      const date = new Date('2024-01-15T23:30:00.000Z'); // 00:30 local on the 16th
+      expect(getNextAllowedSendTime(date, window, TZ).toISOString()).toBe(
+        '2024-01-16T08:00:00.000Z'
+      );
+    });
+
+    it("should use the business' time zone", () => {
+      const date = new Date('2024-01-15T08:30:00.000Z'); // 09:30 in Copenhagen, 08:30 in London
+      expect(isWithinSendWindow(date, window, TZ)).toBe(true);
+      expect(getNextAllowedSendTime(date, window, 'Europe/London').toISOString()).toBe(
+        '2024-01-15T09:00:00.000Z'
+      );
+    });
+
+    it('should apply per-weekday overrides', () => {
+      const weekendWindow: SendWindowSettings = {
+        ...window,
+        days: { sat: { start: '11:00', end: '16:00' }, sun: null },
+      };
+
+      // Saturday 2024-01-20 at 10:00 local -> 11:00 local
+      expect(
+        getNextAllowedSendTime(
+          new Date('2024-01-20T09:00:00.000Z'),
+          weekendWindow,
+          TZ
+        ).toISOString()
+      ).toBe('2024-01-20T10:00:00.000Z');
+
+      // Saturday after 16:00 local -> skip Sunday -> Monday 09:00 local
+      expect(
+        getNextAllowedSendTime(
+          new Date('2024-01-20T15:30:00.000Z'),
+          weekendWindow,
+          TZ
+        ).toISOString()
+      ).toBe('2024-01-22T08:00:00.000Z');
+    });
+
+    it('should ignore disabled or missing windows', () => {
+      const date = new Date('2024-01-15T02:00:00.000Z');
+      expect(getNextAllowedSendTime(date, { ...window, enabled: false }, TZ)).toBe(date);
+      expect(getNextAllowedSendTime(date, undefined, TZ)).toBe(date);
+    });
+
+    it('should not block sending when no day is allowed', () => {
+      const date = new Date('2024-01-15T02:00:00.000Z');
+      const closed: SendWindowSettings = {
+        ...window,
+        days: { mon: null, tue: null, wed: null, thu: null, fri: null, sat: null, sun: null },
+      };
+      expect(getNextAllowedSendTime(date, closed, TZ)).toBe(date);
+    });
+  });
+
+  describe('getLatestLocalTime', () => {
+    it("should return today's time once it has passed", () => {
+      const date = new Date('2024-01-15T12:00:00.000Z'); // 13:00 local
+      expect(getLatestLocalTime(date, '08:00', 'Europe/Copenhagen').toISOString()).toBe(
+        '2024-01-15T07:00:00.000Z'
+      );
+    });
+
+    it("should return yesterday's time before it is reached today", () => {
+      const date = new Date('2024-01-15T05:00:00.000Z'); // 06:00 local
+      expect(getLatestLocalTime(date, '08:00', 'Europe/Copenhagen').toISOString()).toBe(
+        '2024-01-14T07:00:00.000Z'
+      );
+    });
+  });
+
+  describe('getLastCompletedPeriod', () => {
+    it('should return the previous Monday-Sunday week in local time', () => {
+      const date = new Date('2024-01-17T12:00:00.000Z'); // Wednesday
+      const period = getLastCompletedPeriod(date, 'weekly', 'Europe/Copenhagen');
+      expect(period.start.toISOString()).toBe('2024-01-07T23:00:00.000Z');
+      expect(period.end.toISOString()).toBe('2024-01-14T23:00:00.000Z');
+    });
+
+    it('should return the previous calendar month across a year boundary', () => {
+      const date = new Date('2024-01-01T10:00:00.000Z');
+      const period = getLastCompletedPeriod(date, 'monthly', 'Europe/Copenhagen');
+      expect(period.start.toISOString()).toBe('2023-11-30T23:00:00.000Z');
+      expect(period.end.toISOString()).toBe('2023-12-31T23:00:00.000Z');
+    });
+  });
+});
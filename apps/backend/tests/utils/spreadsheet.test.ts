@@ -0,0 +1,126 @@
+import zlib from 'zlib';
+import { describe, it, expect } from 'vitest';
+import {
+  detectSpreadsheetFormat,
+  parseCsv,
+  parseSpreadsheet,
+  SpreadsheetParseError,
+} from '../../src/utils/spreadsheet.js';
+
+/**
+ * Build a minimal zip archive (deflated entries, no CRC - the reader does not check it)
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = zlib.deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+const workbook = {
+  'xl/workbook.xml':
+    '<workbook><sheets><sheet name="Kunder" sheetId="1" r:id="rId3"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<Relationships><Relationship Id="rId3" Type="worksheet" Target="worksheets/kunder.xml"/></Relationships>',
+  'xl/sharedStrings.xml':
+    '<sst><si><t>Navn</t></si><si><t>Telefon</t></si><si><r><t>Søren </t></r><r><t>&amp; Co</t></r></si></sst>',
+  'xl/worksheets/kunder.xml': [
+    '<worksheet><sheetData>',
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Dato</t></is></c></row>',
+    '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>1.2345678E7</v></c><c r="C2"><v>45306</v></c></row>',
+    '<row r="3"><c r="B3"><v>87654321</v></c></row>',
+    '</sheetData></worksheet>',
+  ].join(''),
+};
+
+describe('spreadsheet', () => {
+  describe('parseCsv', () => {
+    it('should detect semicolons as used by Danish Excel', () => {
+      expect(parseCsv('\uFEFFNavn;Telefon\nAnders;12345678\n')).toEqual([
+        ['Navn', 'Telefon'],
+        ['Anders', '12345678'],
+      ]);
+    });
+
+    it('should handle quoted fields, escaped quotes and CRLF', () => {
+      expect(parseCsv('name,note\r\n"Jensen, Anders","Sagde ""tak""\nigen"\r\n\r\n')).toEqual([
+        ['name', 'note'],
+        ['Jensen, Anders', 'Sagde "tak"\nigen'],
+      ]);
+    });
+  });
+
+  describe('parseSpreadsheet', () => {
+    it('should read the first sheet of an XLSX file', () => {
+      const buffer = buildZip(workbook);
+
+      expect(detectSpreadsheetFormat(buffer)).toBe('xlsx');
+      expect(parseSpreadsheet(buffer)).toEqual([
+        ['Navn', 'Telefon', 'Dato'],
+        ['Søren & Co', '12345678', '45306'],
+        ['', '87654321'],
+      ]);
+    });
+
+    it('should read CSV when the file is not a zip archive', () => {
+      expect(parseSpreadsheet(Buffer.from('email\nanders@example.com'))).toEqual([
+        ['email'],
+        ['anders@example.com'],
+      ]);
+    });
+
+    it('should reject broken XLSX files', () => {
+      const broken = buildZip(workbook).subarray(0, 200);
+      expect(() => parseSpreadsheet(broken)).toThrow(SpreadsheetParseError);
+    });
+
+    it('should reject entries that point past the end of the file', () => {
+      const zip = buildZip(workbook);
+      const centralDirectory = zip.readUInt32LE(zip.length - 22 + 16);
+      zip.writeUInt32LE(zip.length - 10, centralDirectory + 42);
+
+      expect(() => parseSpreadsheet(zip)).toThrow(SpreadsheetParseError);
+    });
+
+    it('should reject entries that do not inflate', () => {
+      const zip = buildZip(workbook);
+      const dataStart = 30 + Buffer.byteLength('xl/workbook.xml');
+      zip.fill(0xff, dataStart, dataStart + 4);
+
+      expect(() => parseSpreadsheet(zip)).toThrow(SpreadsheetParseError);
+    });
+  });
+});
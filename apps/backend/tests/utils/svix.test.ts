@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { parseSvixSecrets, signSvixPayload, verifySvixSignature } from '../../src/utils/svix.js';
+
+const SECRET = `whsec_${Buffer.from('current-secret-key').toString('base64')}`;
+const OLD_SECRET = `whsec_${Buffer.from('previous-secret-key').toString('base64')}`;
+const NOW = new Date('2026-03-01T12:00:00Z');
+const TIMESTAMP = String(Math.floor(NOW.getTime() / 1000));
+const PAYLOAD = '{"type":"email.delivered","data":{"email_id":"abc"}}';
+
+function sign(secret: string, payload = PAYLOAD): string {
+  return `v1,${signSvixPayload(secret, 'msg_1', TIMESTAMP, payload)}`;
+}
+
+describe('svix', () => {
+  describe('parseSvixSecrets', () => {
+    it('should split space and comma separated secrets', () => {
+      expect(parseSvixSecrets(`${SECRET} ${OLD_SECRET}`)).toEqual([SECRET, OLD_SECRET]);
+      expect(parseSvixSecrets(`${SECRET},${OLD_SECRET}`)).toEqual([SECRET, OLD_SECRET]);
+      expect(parseSvixSecrets(undefined)).toEqual([]);
+    });
+  });
+
+  describe('verifySvixSignature', () => {
+    it('should accept a valid signature', () => {
+      const result = verifySvixSignature(
+        PAYLOAD,
+        { id: 'msg_1', timestamp: TIMESTAMP, signature: sign(SECRET) },
+        [SECRET],
+        NOW
+      );
+
+      expect(result).toEqual({ valid: true });
+    });
+
+    it('should accept any of multiple signatures in the header', () => {
+      const signature = `v1,bm90LXRoZS1yaWdodC1vbmU= ${sign(SECRET)}`;
+
+      const result = verifySvixSignature(
+        PAYLOAD,
+        { id: 'msg_1', timestamp: TIMESTAMP, signature },
+        [SECRET],
+        NOW
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should accept signatures made with a previous secret during rotation', () => {
+      const result = verifySvixSignature(
+        PAYLOAD,
+        { id: 'msg_1', timestamp: TIMESTAMP, signature: sign(OLD_SECRET) },
+        [SECRET, OLD_SECRET],
+        NOW
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject a tampered payload', () => {
+      const result = verifySvixSignature(
+        PAYLOAD.replace('delivered', 'clicked'),
+        { id: 'msg_1', timestamp: TIMESTAMP, signature: sign(SECRET) },
+        [SECRET],
+        NOW
+      );
+
+      expect(result).toEqual({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it('should ignore unknown signature versions', () => {
+      const signature = sign(SECRET).replace('v1,', 'v2,');
+
+      const result = verifySvixSignature(
+        PAYLOAD,
+        { id: 'msg_1', timestamp: TIMESTAMP, signature },
+        [SECRET],
+        NOW
+      );
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject stale timestamps', () => {
+      const later = new Date(NOW.getTime() + 6 * 60 * 1000);
+
+      const result = verifySvixSignature(
+        PAYLOAD,
+        { id: 'msg_1', timestamp: TIMESTAMP, signature: sign(SECRET) },
+        [SECRET],
+        later
+      );
+
+      expect(result).toEqual({ valid: false, reason: 'invalid_timestamp' });
+    });
+
+    it('should reject missing headers', () => {
+      const result = verifySvixSignature(PAYLOAD, { id: 'msg_1' }, [SECRET], NOW);
+
+      expect(result).toEqual({ valid: false, reason: 'missing_headers' });
+    });
+  });
+});
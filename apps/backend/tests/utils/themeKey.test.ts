@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeThemeKey } from '../../src/utils/themeKey.js';
+
+describe('canonicalizeThemeKey', () => {
+  it('should give differently written names the same key', () => {
+    expect(canonicalizeThemeKey('Long wait times')).toBe('long-wait-times');
+    expect(canonicalizeThemeKey('  long-wait-times ')).toBe('long-wait-times');
+    expect(canonicalizeThemeKey('Long_Wait  Times!')).toBe('long-wait-times');
+  });
+
+  it('should transliterate Nordic and German letters', () => {
+    expect(canonicalizeThemeKey('Lang ventetid på maden')).toBe('lang-ventetid-pa-maden');
+    expect(canonicalizeThemeKey('Venligt personale og god øl')).toBe(
+      'venligt-personale-og-god-oel'
+    );
+    expect(canonicalizeThemeKey('Größe der Portionen')).toBe('grosse-der-portionen');
+  });
+
+  it('should return an empty key when nothing is left', () => {
+    expect(canonicalizeThemeKey('!!!')).toBe('');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBusinessTimeZone,
+  parseLocalDateTime,
+  resolveDateRange,
+  startOfLocalDay,
+  zonedTimeToUtc,
+} from '../../src/utils/timezone.js';
+
+const TZ = 'Europe/Copenhagen';
+
+describe('timezone', () => {
+  describe('getBusinessTimeZone', () => {
+    it('should prefer the business time zone', () => {
+      expect(
+        getBusinessTimeZone({
+          timezone: 'Europe/London',
+          settings: { sendWindow: { timezone: 'Europe/Oslo' } },
+        })
+      ).toBe('Europe/London');
+    });
+
+    it('should fall back to the legacy send window time zone, then the default', () => {
+      expect(getBusinessTimeZone({ settings: { sendWindow: { timezone: 'Europe/Oslo' } } })).toBe(
+        'Europe/Oslo'
+      );
+      expect(getBusinessTimeZone({ settings: {} })).toBe('Europe/Copenhagen');
+      expect(getBusinessTimeZone(null)).toBe('Europe/Copenhagen');
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert winter time (CET, UTC+1)', () => {
+      expect(zonedTimeToUtc(2024, 1, 15, 9 * 60, TZ).toISOString()).toBe(
+        '2024-01-15T08:00:00.000Z'
+      );
+    });
+
+    it('should convert summer time (CEST, UTC+2)', () => {
+      expect(zonedTimeToUtc(2024, 7, 15, 9 * 60, TZ).toISOString()).toBe(
+        '2024-07-15T07:00:00.000Z'
+      );
+    });
+
+    it('should shift times in the spring-forward gap', () => {
+      // 02:30 does not exist on 2024-03-31 in Copenhagen
+      expect(zonedTimeToUtc(2024, 3, 31, 2 * 60 + 30, TZ).toISOString()).toBe(
+        '2024-03-31T01:30:00.000Z'
+      );
+    });
+  });
+
+  describe('startOfLocalDay', () => {
+    it('should return local midnight, moved by the day offset', () => {
+      const date = new Date('2024-01-15T23:30:00.000Z'); // 00:30 local on the 16th
+      expect(startOfLocalDay(date, TZ).toISOString()).toBe('2024-01-15T23:00:00.000Z');
+      expect(startOfLocalDay(date, TZ, -30).toISOString()).toBe('2023-12-16T23:00:00.000Z');
+    });
+  });
+
+  describe('parseLocalDateTime', () => {
+    it('should parse a local booking time on either side of a DST change', () => {
+      expect(parseLocalDateTime('2024-03-30', '19:00', TZ)?.toISOString()).toBe(
+        '2024-03-30T18:00:00.000Z'
+      );
+      expect(parseLocalDateTime('2024-03-31', '19:00', TZ)?.toISOString()).toBe(
+        '2024-03-31T17:00:00.000Z'
+      );
+    });
+
+    it('should default to local midnight without a time', () => {
+      expect(parseLocalDateTime('2024-07-01', undefined, TZ)?.toISOString()).toBe(
+        '2024-06-30T22:00:00.000Z'
+      );
+    });
+
+    it('should return null for dates in other formats', () => {
+      expect(parseLocalDateTime('15-01-2024', '19:00', TZ)).toBeNull();
+    });
+  });
+
+  describe('resolveDateRange', () => {
+    it('should cover whole local days for date-only values', () => {
+      const { from, to } = resolveDateRange('2024-03-01', '2024-03-31', TZ);
+      expect(from.toISOString()).toBe('2024-02-29T23:00:00.000Z');
+      expect(to.toISOString()).toBe('2024-03-31T21:59:59.999Z');
+    });
+
+    it('should use full timestamps as given', () => {
+      const { from, to } = resolveDateRange(
+        '2024-03-01T12:00:00.000Z',
+        '2024-03-02T12:00:00.000Z',
+        TZ
+      );
+      expect(from.toISOString()).toBe('2024-03-01T12:00:00.000Z');
+      expect(to.toISOString()).toBe('2024-03-02T12:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { LookupAddress } from 'dns';
+import {
+  getBlockedWebhookReason,
+  isPrivateAddress,
+  webhookLookup,
+} from '../../src/utils/webhookUrl.js';
+
+const { dnsState } = vi.hoisted(() => ({
+  dnsState: { addresses: ['93.184.216.34'] },
+}));
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(() => Promise.resolve(dnsState.addresses.map((address) => ({ address })))),
+}));
+
+describe('webhookUrl', () => {
+  describe('isPrivateAddress', () => {
+    it('should flag loopback, private, link-local and metadata addresses', () => {
+      for (const address of [
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.16.0.1',
+        '192.168.1.10',
+        '169.254.169.254',
+        '100.64.0.1',
+        '0.0.0.0',
+        '::1',
+        'fd00:ec2::254',
+        'fe80::1',
+        '::ffff:127.0.0.1',
+        '64:ff9b::7f00:1',
+      ]) {
+        expect(isPrivateAddress(address), address).toBe(true);
+      }
+    });
+
+    it('should allow public addresses', () => {
+      expect(isPrivateAddress('93.184.216.34')).toBe(false);
+      expect(isPrivateAddress('172.32.0.1')).toBe(false);
+      expect(isPrivateAddress('2606:2800:220:1::1')).toBe(false);
+    });
+  });
+
+  describe('webhookLookup', () => {
+    function connectLookup(hostname: string, all = false) {
+      return new Promise<{ error: Error | null; address: string | LookupAddress[] }>((resolve) => {
+        webhookLookup(hostname, { all }, (error, address) => {
+          resolve({ error, address });
+        });
+      });
+    }
+
+    it('should refuse to connect to a private address', async () => {
+      const { error } = await connectLookup('127.0.0.1');
+
+      expect(error?.message).toBe('127.0.0.1 resolves to a private address (127.0.0.1)');
+    });
+
+    it('should pass public addresses on to the connection', async () => {
+      expect(await connectLookup('93.184.216.34')).toEqual({
+        error: null,
+        address: '93.184.216.34',
+      });
+      expect(await connectLookup('93.184.216.34', true)).toEqual({
+        error: null,
+        address: [{ address: '93.184.216.34', family: 4 }],
+      });
+    });
+  });
+
+  describe('getBlockedWebhookReason', () => {
+    afterEach(() => {
+      dnsState.addresses = ['93.184.216.34'];
+      vi.unstubAllEnvs();
+    });
+
+    it('should allow https hosts with public addresses', async () => {
+      expect(await getBlockedWebhookReason('https://example.com/hook')).toBeNull();
+    });
+
+    it('should block hosts resolving to a private address', async () => {
+      dnsState.addresses = ['93.184.216.34', '169.254.169.254'];
+
+      expect(await getBlockedWebhookReason('https://metadata.example.com/')).toBe(
+        'metadata.example.com resolves to a private address (169.254.169.254)'
+      );
+    });
+
+    it('should block plain http', async () => {
+      expect(await getBlockedWebhookReason('http://example.com/hook')).toBe(
+        'Webhook URL must use https'
+      );
+    });
+
+    it('should allow localhost only outside production', async () => {
+      dnsState.addresses = ['127.0.0.1'];
+      expect(await getBlockedWebhookReason('http://localhost:4000/hook')).toBeNull();
+
+      vi.stubEnv('NODE_ENV', 'production');
+      expect(await getBlockedWebhookReason('http://localhost:4000/hook')).toBe(
+        'Webhook URL must use https'
+      );
+      expect(await getBlockedWebhookReason('https://localhost:4000/hook')).toMatch(
+        /private address/
+      );
+    });
+  });
+});
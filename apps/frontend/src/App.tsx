@@ -1,5 +1,5 @@
 import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
-import { ReviewPage } from './pages/landing';
+import { ReviewPage, UnsubscribePage } from './pages/landing';
 import { LoginPage, RegisterPage } from './pages/auth';
 import {
   OverviewPage,
@@ -9,6 +9,10 @@ import {
   SettingsPage,
   FlowPage,
   TestPage,
+  SuppressionsPage,
+  ImportsPage,
+  OrderQueuePage,
+  AlertsPage,
 } from './pages/dashboard';
 import { DashboardLayout } from './components/dashboard/layout';
 import { ProtectedRoute } from './components/shared';
@@ -24,6 +28,7 @@ function App() {
           <Route path="/login" element={<LoginPage />} />
           <Route path="/register" element={<RegisterPage />} />
           <Route path="/r/:token" element={<ReviewPage />} />
+          <Route path="/unsubscribe/:token" element={<UnsubscribePage />} />
 
           {/* Protected dashboard routes */}
           <Route
@@ -40,6 +45,10 @@ function App() {
             <Route path="integrations/:platform" element={<IntegrationDetailPage />} />
             <Route path="flow" element={<FlowPage />} />
             <Route path="test" element={<TestPage />} />
+            <Route path="suppressions" element={<SuppressionsPage />} />
+            <Route path="imports" element={<ImportsPage />} />
+            <Route path="queue" element={<OrderQueuePage />} />
+            <Route path="alerts" element={<AlertsPage />} />
             <Route path="settings" element={<SettingsPage />} />
           </Route>
 
@@ -0,0 +1,66 @@
+import { Badge, Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@easyrate/ui';
+import { ALERT_TEMPLATES, DASHBOARD_TEXT } from '@easyrate/shared';
+import type { FeedbackAlert, FeedbackAlertStatus } from '@easyrate/shared';
+
+const STATUS_VARIANTS: Record<
+  FeedbackAlertStatus,
+  'success' | 'warning' | 'destructive' | 'secondary'
+> = {
+  sent: 'success',
+  pending_digest: 'warning',
+  failed: 'destructive',
+  skipped: 'secondary',
+};
+
+interface AlertHistoryTableProps {
+  alerts: FeedbackAlert[];
+}
+
+export function AlertHistoryTable({ alerts }: AlertHistoryTableProps) {
+  const text = DASHBOARD_TEXT.alerts;
+
+  if (alerts.length === 0) {
+    return <p className="py-12 text-center text-sm text-muted-foreground">{text.empty}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{text.columns.createdAt}</TableHead>
+          <TableHead>{text.columns.source}</TableHead>
+          <TableHead>{text.columns.rating}</TableHead>
+          <TableHead>{text.columns.feedback}</TableHead>
+          <TableHead>{text.columns.triggers}</TableHead>
+          <TableHead>{text.columns.status}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {alerts.map((alert) => (
+          <TableRow key={alert.id}>
+            <TableCell className="whitespace-nowrap text-muted-foreground">
+              {new Date(alert.createdAt).toLocaleString('da-DK')}
+            </TableCell>
+            <TableCell>
+              <Badge variant="secondary">{ALERT_TEMPLATES.sources[alert.source]}</Badge>
+            </TableCell>
+            <TableCell className="font-medium">{alert.rating}/5</TableCell>
+            <TableCell className="max-w-sm">
+              {alert.customerName && <p className="font-medium">{alert.customerName}</p>}
+              <p className="truncate text-sm text-muted-foreground">
+                {alert.excerpt ?? ALERT_TEMPLATES.noText}
+              </p>
+            </TableCell>
+            <TableCell className="text-sm text-muted-foreground">
+              {alert.triggers.map((trigger) => ALERT_TEMPLATES.triggers[trigger]).join(', ')}
+              {alert.matchedKeywords.length > 0 && ` (${alert.matchedKeywords.join(', ')})`}
+            </TableCell>
+            <TableCell>
+              <Badge variant={STATUS_VARIANTS[alert.status]}>{text.statuses[alert.status]}</Badge>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
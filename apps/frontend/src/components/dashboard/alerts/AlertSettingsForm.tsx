@@ -0,0 +1,313 @@
+import { useEffect, useState } from 'react';
+import { Check, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectOption,
+  Switch,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type {
+  AlertChannel,
+  AlertDeliveryMode,
+  AlertRecipient,
+  AlertSettings,
+} from '@easyrate/shared';
+
+const CHANNELS: AlertChannel[] = ['email', 'sms'];
+
+interface AlertSettingsFormProps {
+  settings: AlertSettings;
+  isSaving: boolean;
+  onSave: (settings: AlertSettings) => Promise<void>;
+}
+
+function toggleChannel(channels: AlertChannel[], channel: AlertChannel): AlertChannel[] {
+  return channels.includes(channel)
+    ? channels.filter((c) => c !== channel)
+    : [...channels, channel];
+}
+
+export function AlertSettingsForm({ settings, isSaving, onSave }: AlertSettingsFormProps) {
+  const text = DASHBOARD_TEXT.alerts;
+  const [draft, setDraft] = useState<AlertSettings>(settings);
+  const [keywords, setKeywords] = useState(settings.keywords.join(', '));
+  const [saved, setSaved] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Server is source of truth whenever it changes
+  useEffect(() => {
+    setDraft(settings);
+    setKeywords(settings.keywords.join(', '));
+  }, [settings]);
+
+  const update = (value: Partial<AlertSettings>) => {
+    setSaved(false);
+    setDraft((prev) => ({ ...prev, ...value }));
+  };
+
+  const updateRecipient = (index: number, value: Partial<AlertRecipient>) => {
+    update({
+      recipients: draft.recipients.map((recipient, i) =>
+        i === index ? { ...recipient, ...value } : recipient
+      ),
+    });
+  };
+
+  const handleSave = async () => {
+    setSaveError(null);
+    try {
+      await onSave({
+        ...draft,
+        keywords: keywords
+          .split(',')
+          .map((keyword) => keyword.trim())
+          .filter((keyword) => keyword.length > 0),
+        // Empty contact fields are omitted rather than sent as ''
+        recipients: draft.recipients.map(({ name, email, phone, channels }) => ({
+          name,
+          channels,
+          ...(email && { email }),
+          ...(phone && { phone }),
+        })),
+      });
+      setSaved(true);
+    } catch {
+      setSaveError(text.saveError);
+    }
+  };
+
+  const disabled = !draft.enabled;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{text.settingsTitle}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-muted-foreground">{text.enabled}</Label>
+            <Switch
+              checked={draft.enabled}
+              onCheckedChange={(checked) => {
+                update({ enabled: checked });
+              }}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">{text.enabledDescription}</p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Rules */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>{text.ratingThreshold}</Label>
+            <Select
+              value={String(draft.ratingThreshold)}
+              onChange={(e) => {
+                update({ ratingThreshold: parseInt(e.target.value, 10) });
+              }}
+              disabled={disabled}
+            >
+              {[1, 2, 3, 4].map((rating) => (
+                <SelectOption key={rating} value={String(rating)}>
+                  {rating} {text.stars}
+                </SelectOption>
+              ))}
+            </Select>
+            <p className="text-xs text-muted-foreground">{text.ratingThresholdDescription}</p>
+          </div>
+          <div className="space-y-2">
+            <Label>{text.keywords}</Label>
+            <Input
+              value={keywords}
+              placeholder={text.keywordsPlaceholder}
+              onChange={(e) => {
+                setSaved(false);
+                setKeywords(e.target.value);
+              }}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground">{text.keywordsDescription}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>{text.googleReviews}</Label>
+            <p className="text-sm text-muted-foreground">{text.googleReviewsDescription}</p>
+          </div>
+          <Switch
+            checked={draft.googleReviews}
+            onCheckedChange={(checked) => {
+              update({ googleReviews: checked });
+            }}
+            disabled={disabled}
+          />
+        </div>
+
+        {/* Delivery */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>{text.deliveryMode}</Label>
+            <Select
+              value={draft.deliveryMode}
+              onChange={(e) => {
+                update({ deliveryMode: e.target.value as AlertDeliveryMode });
+              }}
+              disabled={disabled}
+            >
+              <SelectOption value="instant">{text.deliveryModes.instant}</SelectOption>
+              <SelectOption value="digest">{text.deliveryModes.digest}</SelectOption>
+            </Select>
+          </div>
+          {draft.deliveryMode === 'digest' && (
+            <div className="space-y-2">
+              <Label>{text.digestTime}</Label>
+              <Input
+                type="time"
+                value={draft.digestTime}
+                onChange={(e) => {
+                  update({ digestTime: e.target.value });
+                }}
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Recipients */}
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{text.owner}</Label>
+              <p className="text-sm text-muted-foreground">{text.ownerDescription}</p>
+            </div>
+            <Switch
+              checked={draft.notifyOwner}
+              onCheckedChange={(checked) => {
+                update({ notifyOwner: checked });
+              }}
+              disabled={disabled}
+            />
+          </div>
+          {draft.notifyOwner && (
+            <div className="flex gap-4">
+              {CHANNELS.map((channel) => (
+                <label key={channel} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.ownerChannels.includes(channel)}
+                    onChange={() => {
+                      update({ ownerChannels: toggleChannel(draft.ownerChannels, channel) });
+                    }}
+                    disabled={disabled}
+                    className="h-4 w-4"
+                  />
+                  {text.channels[channel]}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <Label>{text.recipients}</Label>
+          {draft.recipients.map((recipient, index) => (
+            <div key={index} className="space-y-2 rounded-lg border p-4">
+              <div className="grid gap-2 sm:grid-cols-3">
+                <Input
+                  value={recipient.name}
+                  placeholder={text.recipientName}
+                  onChange={(e) => {
+                    updateRecipient(index, { name: e.target.value });
+                  }}
+                  disabled={disabled}
+                />
+                <Input
+                  type="email"
+                  value={recipient.email ?? ''}
+                  placeholder={text.recipientEmail}
+                  onChange={(e) => {
+                    updateRecipient(index, { email: e.target.value });
+                  }}
+                  disabled={disabled}
+                />
+                <Input
+                  type="tel"
+                  value={recipient.phone ?? ''}
+                  placeholder={text.recipientPhone}
+                  onChange={(e) => {
+                    updateRecipient(index, { phone: e.target.value });
+                  }}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex gap-4">
+                  {CHANNELS.map((channel) => (
+                    <label key={channel} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={recipient.channels.includes(channel)}
+                        onChange={() => {
+                          updateRecipient(index, {
+                            channels: toggleChannel(recipient.channels, channel),
+                          });
+                        }}
+                        disabled={disabled}
+                        className="h-4 w-4"
+                      />
+                      {text.channels[channel]}
+                    </label>
+                  ))}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    update({ recipients: draft.recipients.filter((_, i) => i !== index) });
+                  }}
+                  disabled={disabled}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {text.removeRecipient}
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              update({
+                recipients: [...draft.recipients, { name: '', channels: ['email'] }],
+              });
+            }}
+            disabled={disabled}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {text.addRecipient}
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : saved ? (
+              <Check className="mr-2 h-4 w-4" />
+            ) : null}
+            {isSaving ? text.saving : saved ? text.saved : text.save}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,2 @@
+export { AlertSettingsForm } from './AlertSettingsForm';
+export { AlertHistoryTable } from './AlertHistoryTable';
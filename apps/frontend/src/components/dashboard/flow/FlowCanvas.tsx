@@ -1,4 +1,5 @@
 import { DEFAULT_FLOW, DASHBOARD_TEXT } from '@easyrate/shared';
+import type { ReminderSettings } from '@easyrate/shared';
 import { FlowNode } from './FlowNode';
 import { FlowConnector } from './FlowConnector';
 import { FlowBranch } from './FlowBranch';
@@ -7,6 +8,7 @@ import { FlowChannelToggle } from './FlowChannelToggle';
 interface FlowCanvasProps {
   smsEnabled: boolean;
   emailEnabled: boolean;
+  reminderSettings: ReminderSettings;
   onToggleChannel: (channel: 'sms' | 'email', enabled: boolean) => void;
   onNodeSelect: (nodeId: string) => void;
   selectedNodeId: string | null;
@@ -15,6 +17,7 @@ interface FlowCanvasProps {
 export function FlowCanvas({
   smsEnabled,
   emailEnabled,
+  reminderSettings,
   onToggleChannel,
   onNodeSelect,
   selectedNodeId,
@@ -41,6 +44,11 @@ export function FlowCanvas({
 
   const hasActiveChannel = smsEnabled || emailEnabled;
 
+  // Only steps within maxAttempts are ever sent (the initial request counts as one)
+  const activeReminderSteps = reminderSettings.enabled
+    ? reminderSettings.steps.slice(0, Math.max(reminderSettings.maxAttempts - 1, 0))
+    : [];
+
   return (
     <div className="flex flex-col items-center py-8">
       {/* Trigger Node */}
@@ -132,6 +140,32 @@ export function FlowCanvas({
             )}
           </svg>
 
+          {/* Follow-up Reminder Node */}
+          <FlowNode
+            node={getNode('reminder')}
+            isActive={activeReminderSteps.length > 0}
+            isSelected={selectedNodeId === 'reminder'}
+            onClick={() => {
+              onNodeSelect('reminder');
+            }}
+          >
+            {activeReminderSteps.length > 0 ? (
+              <ol className="space-y-1 text-xs text-muted-foreground">
+                {activeReminderSteps.map((step, index) => (
+                  <li key={index}>
+                    {index + 1}. {step.channel === 'sms' ? 'SMS' : 'Email'} +{step.delayHours}t
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <span className="text-xs text-muted-foreground">
+                {DASHBOARD_TEXT.flow.status.inactive}
+              </span>
+            )}
+          </FlowNode>
+
+          <FlowConnector length="medium" />
+
           {/* Landing Page Node */}
           <FlowNode
             node={getNode('landing')}
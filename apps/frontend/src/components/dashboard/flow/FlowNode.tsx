@@ -7,6 +7,7 @@ import {
   MessageCircle,
   ExternalLink,
   CheckCircle,
+  BellRing,
   type LucideIcon,
 } from 'lucide-react';
 import { Card } from '@easyrate/ui';
@@ -24,6 +25,7 @@ const iconMap: Record<string, LucideIcon> = {
   MessageCircle,
   ExternalLink,
   CheckCircle,
+  BellRing,
 };
 
 const borderColors: Record<NodeType, string> = {
@@ -1,7 +1,15 @@
-import type { Business } from '@easyrate/shared';
+import type {
+  Business,
+  ContactFrequencySettings,
+  ReminderSettings,
+  SendWindowSettings,
+} from '@easyrate/shared';
 import {
   SmsConfigPanel,
   EmailConfigPanel,
+  ReminderConfigPanel,
+  SendWindowPanel,
+  ContactFrequencyPanel,
   TriggerInfoPanel,
   LandingInfoPanel,
   BranchInfoPanel,
@@ -19,9 +27,15 @@ interface FlowSidebarProps {
   smsTemplate: string;
   emailTemplate: string;
   delayMinutes: number;
+  reminderSettings: ReminderSettings;
+  sendWindow: SendWindowSettings;
+  contactFrequency: ContactFrequencySettings;
   onSmsTemplateChange: (value: string) => void;
   onEmailTemplateChange: (value: string) => void;
   onDelayChange: (value: number) => void;
+  onRemindersChange: (value: ReminderSettings) => void;
+  onSendWindowChange: (value: SendWindowSettings) => void;
+  onContactFrequencyChange: (value: ContactFrequencySettings) => void;
   onToggleChannel: (channel: 'sms' | 'email', enabled: boolean) => void;
 }
 
@@ -33,45 +47,68 @@ export function FlowSidebar({
   smsTemplate,
   emailTemplate,
   delayMinutes,
+  reminderSettings,
+  sendWindow,
+  contactFrequency,
   onSmsTemplateChange,
   onEmailTemplateChange,
   onDelayChange,
+  onRemindersChange,
+  onSendWindowChange,
+  onContactFrequencyChange,
   onToggleChannel,
 }: FlowSidebarProps) {
   const renderPanel = () => {
     switch (selectedNodeId) {
       case 'sms':
         return (
-          <SmsConfigPanel
-            template={smsTemplate}
-            delay={delayMinutes}
-            enabled={smsEnabled}
-            otherChannelEnabled={emailEnabled}
-            onTemplateChange={onSmsTemplateChange}
-            onDelayChange={onDelayChange}
-            onToggle={(enabled) => {
-              onToggleChannel('sms', enabled);
-            }}
-          />
+          <>
+            <SmsConfigPanel
+              template={smsTemplate}
+              delay={delayMinutes}
+              enabled={smsEnabled}
+              otherChannelEnabled={emailEnabled}
+              onTemplateChange={onSmsTemplateChange}
+              onDelayChange={onDelayChange}
+              onToggle={(enabled) => {
+                onToggleChannel('sms', enabled);
+              }}
+            />
+            <SendWindowPanel settings={sendWindow} onChange={onSendWindowChange} />
+          </>
         );
 
       case 'email':
         return (
-          <EmailConfigPanel
-            template={emailTemplate}
-            delay={delayMinutes}
-            enabled={emailEnabled}
-            otherChannelEnabled={smsEnabled}
-            onTemplateChange={onEmailTemplateChange}
-            onDelayChange={onDelayChange}
-            onToggle={(enabled) => {
-              onToggleChannel('email', enabled);
-            }}
-          />
+          <>
+            <EmailConfigPanel
+              template={emailTemplate}
+              delay={delayMinutes}
+              enabled={emailEnabled}
+              otherChannelEnabled={smsEnabled}
+              onTemplateChange={onEmailTemplateChange}
+              onDelayChange={onDelayChange}
+              onToggle={(enabled) => {
+                onToggleChannel('email', enabled);
+              }}
+            />
+            <SendWindowPanel settings={sendWindow} onChange={onSendWindowChange} />
+          </>
         );
 
+      case 'reminder':
+        return <ReminderConfigPanel settings={reminderSettings} onChange={onRemindersChange} />;
+
       case 'trigger':
-        return <TriggerInfoPanel />;
+        return (
+          <>
+            <TriggerInfoPanel />
+            <ContactFrequencyPanel
+              settings={contactFrequency}
+              onChange={onContactFrequencyChange}
+            />
+          </>
+        );
 
       case 'landing':
         return <LandingInfoPanel business={business} />;
@@ -0,0 +1,85 @@
+import { Card, CardContent, CardHeader, CardTitle, Input, Label, Switch } from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { ContactFrequencySettings } from '@easyrate/shared';
+
+interface ContactFrequencyPanelProps {
+  settings: ContactFrequencySettings;
+  onChange: (value: ContactFrequencySettings) => void;
+}
+
+export function ContactFrequencyPanel({ settings, onChange }: ContactFrequencyPanelProps) {
+  const sidebar = DASHBOARD_TEXT.flow.sidebar;
+  const { enabled, maxRequests, periodDays, skipIfReviewedWithinDays } = settings;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">{sidebar.contactFrequencyConfig}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">{sidebar.enabled}</Label>
+            <Switch
+              checked={enabled}
+              onCheckedChange={(checked) => {
+                onChange({ ...settings, enabled: checked });
+              }}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">{sidebar.contactFrequencyDescription}</p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">{sidebar.maxRequests}</Label>
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              value={maxRequests}
+              onChange={(e) => {
+                onChange({ ...settings, maxRequests: parseInt(e.target.value, 10) || 1 });
+              }}
+              className="text-sm"
+              disabled={!enabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{sidebar.periodDays}</Label>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={periodDays}
+              onChange={(e) => {
+                onChange({ ...settings, periodDays: parseInt(e.target.value, 10) || 1 });
+              }}
+              className="text-sm"
+              disabled={!enabled}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">{sidebar.skipIfReviewedWithinDays}</Label>
+          <Input
+            type="number"
+            min={0}
+            max={730}
+            value={skipIfReviewedWithinDays ?? 0}
+            onChange={(e) => {
+              onChange({
+                ...settings,
+                skipIfReviewedWithinDays: parseInt(e.target.value, 10) || 0,
+              });
+            }}
+            className="text-sm"
+            disabled={!enabled}
+          />
+          <p className="text-xs text-muted-foreground">{sidebar.skipIfReviewedHelp}</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,8 @@ import {
   Input,
 } from '@easyrate/ui';
 import { DASHBOARD_TEXT, EMAIL_TEMPLATES } from '@easyrate/shared';
+import { Loader2 } from 'lucide-react';
+import { useEmailPreview } from '../../../../hooks/useEmailPreview';
 
 interface EmailConfigPanelProps {
   template: string;
@@ -30,6 +32,11 @@ export function EmailConfigPanel({
   onToggle,
 }: EmailConfigPanelProps) {
   const sidebar = DASHBOARD_TEXT.flow.sidebar;
+  const {
+    preview,
+    isLoading: isPreviewLoading,
+    error: previewError,
+  } = useEmailPreview(template, enabled);
 
   const handleToggle = (checked: boolean) => {
     // Prevent disabling if this is the only active channel
@@ -83,6 +90,37 @@ export function EmailConfigPanel({
           <p className="text-xs text-muted-foreground">{sidebar.delayHelp}</p>
         </div>
 
+        {enabled && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">{sidebar.emailPreview}</Label>
+              {isPreviewLoading && (
+                <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+              )}
+            </div>
+            {previewError ? (
+              <p className="text-xs text-red-700">{sidebar.emailPreviewError}</p>
+            ) : (
+              preview && (
+                <div className="overflow-hidden rounded-md border">
+                  <p className="truncate border-b bg-slate-50 px-3 py-2 text-xs">
+                    <span className="text-muted-foreground">{sidebar.emailPreviewSubject}:</span>{' '}
+                    {preview.subject}
+                  </p>
+                  {/* Sandboxed: the preview is display only, links and scripts are inert */}
+                  <iframe
+                    title={sidebar.emailPreview}
+                    srcDoc={preview.html}
+                    sandbox=""
+                    className="h-[420px] w-full bg-white"
+                  />
+                </div>
+              )
+            )}
+            <p className="text-xs text-muted-foreground">{sidebar.emailPreviewHelp}</p>
+          </div>
+        )}
+
         <div className="rounded-md border bg-slate-50 p-3">
           <p className="mb-2 text-xs font-medium">{sidebar.variablesTitle}</p>
           <ul className="space-y-1 text-xs text-muted-foreground">
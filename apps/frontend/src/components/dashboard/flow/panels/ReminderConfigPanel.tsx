@@ -0,0 +1,178 @@
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectOption,
+  Switch,
+  Textarea,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT, REMINDER_LIMITS } from '@easyrate/shared';
+import type { ReminderSettings, ReminderStep } from '@easyrate/shared';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ReminderConfigPanelProps {
+  settings: ReminderSettings;
+  onChange: (value: ReminderSettings) => void;
+}
+
+const DEFAULT_STEP: ReminderStep = { channel: 'email', delayHours: 48 };
+
+export function ReminderConfigPanel({ settings, onChange }: ReminderConfigPanelProps) {
+  const sidebar = DASHBOARD_TEXT.flow.sidebar;
+  const { enabled, steps, maxAttempts } = settings;
+
+  const updateStep = (index: number, patch: Partial<ReminderStep>) => {
+    onChange({
+      ...settings,
+      steps: steps.map((step, i) => (i === index ? { ...step, ...patch } : step)),
+    });
+  };
+
+  const addStep = () => {
+    const nextSteps = [...steps, DEFAULT_STEP];
+    onChange({
+      ...settings,
+      steps: nextSteps,
+      // Make sure the new step is actually sent
+      maxAttempts: Math.max(maxAttempts, nextSteps.length + 1),
+    });
+  };
+
+  const removeStep = (index: number) => {
+    onChange({ ...settings, steps: steps.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">{sidebar.remindersConfig}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">{sidebar.enabled}</Label>
+            <Switch
+              checked={enabled}
+              onCheckedChange={(checked) => {
+                onChange({ ...settings, enabled: checked });
+              }}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">{sidebar.remindersDescription}</p>
+
+        {steps.map((step, index) => (
+          <div key={index} className="space-y-3 rounded-md border bg-white p-3">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium">
+                {sidebar.reminderStep} {index + 1}
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  removeStep(index);
+                }}
+                disabled={!enabled}
+                className="h-7 gap-1 px-2 text-xs text-muted-foreground"
+              >
+                <Trash2 className="h-3 w-3" />
+                {sidebar.removeReminder}
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">{sidebar.reminderChannel}</Label>
+                <Select
+                  value={step.channel}
+                  onChange={(e) => {
+                    updateStep(index, { channel: e.target.value as ReminderStep['channel'] });
+                  }}
+                  className="h-9 text-sm"
+                  disabled={!enabled}
+                >
+                  <SelectOption value="sms">SMS</SelectOption>
+                  <SelectOption value="email">Email</SelectOption>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">{sidebar.reminderDelayHours}</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={REMINDER_LIMITS.maxDelayHours}
+                  value={step.delayHours}
+                  onChange={(e) => {
+                    updateStep(index, { delayHours: parseInt(e.target.value, 10) || 1 });
+                  }}
+                  className="h-9 text-sm"
+                  disabled={!enabled}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">{sidebar.reminderDelayHelp}</p>
+
+            <div className="space-y-1">
+              <Label className="text-xs">{sidebar.reminderTemplate}</Label>
+              <Textarea
+                value={step.template ?? ''}
+                onChange={(e) => {
+                  const { template: _template, ...rest } = step;
+                  const value = e.target.value;
+                  onChange({
+                    ...settings,
+                    steps: steps.map((s, i) =>
+                      i === index ? (value ? { ...rest, template: value } : rest) : s
+                    ),
+                  });
+                }}
+                placeholder={sidebar.reminderTemplatePlaceholder}
+                className="min-h-[80px] text-sm"
+                disabled={!enabled}
+              />
+            </div>
+          </div>
+        ))}
+
+        {steps.length < REMINDER_LIMITS.maxSteps && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addStep}
+            disabled={!enabled}
+            className="w-full gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            {sidebar.addReminder}
+          </Button>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-xs">{sidebar.maxAttempts}</Label>
+          <Input
+            type="number"
+            min={1}
+            max={REMINDER_LIMITS.maxAttempts}
+            value={maxAttempts}
+            onChange={(e) => {
+              onChange({ ...settings, maxAttempts: parseInt(e.target.value, 10) || 1 });
+            }}
+            className="text-sm"
+            disabled={!enabled}
+          />
+          <p className="text-xs text-muted-foreground">{sidebar.maxAttemptsHelp}</p>
+        </div>
+
+        <div className="rounded-md border bg-slate-50 p-3">
+          <p className="text-xs text-muted-foreground">{sidebar.reminderSkipHelp}</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { Card, CardContent, CardHeader, CardTitle, Input, Label, Switch } from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { SendWindowHours, SendWindowSettings, Weekday } from '@easyrate/shared';
+
+interface SendWindowPanelProps {
+  settings: SendWindowSettings;
+  onChange: (value: SendWindowSettings) => void;
+}
+
+const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export function SendWindowPanel({ settings, onChange }: SendWindowPanelProps) {
+  const sidebar = DASHBOARD_TEXT.flow.sidebar;
+  const { enabled, start, end, days } = settings;
+  const perDay = days !== undefined;
+
+  const updateDay = (weekday: Weekday, hours: SendWindowHours | null) => {
+    onChange({ ...settings, days: { ...days, [weekday]: hours } });
+  };
+
+  const togglePerDay = (checked: boolean) => {
+    if (checked) {
+      onChange({ ...settings, days: {} });
+    } else {
+      const { days: _days, ...rest } = settings;
+      onChange(rest);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">{sidebar.sendWindowConfig}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">{sidebar.enabled}</Label>
+            <Switch
+              checked={enabled}
+              onCheckedChange={(checked) => {
+                onChange({ ...settings, enabled: checked });
+              }}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">{sidebar.sendWindowDescription}</p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">{sidebar.sendWindowFrom}</Label>
+            <Input
+              type="time"
+              value={start}
+              onChange={(e) => {
+                onChange({ ...settings, start: e.target.value });
+              }}
+              className="text-sm"
+              disabled={!enabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{sidebar.sendWindowTo}</Label>
+            <Input
+              type="time"
+              value={end}
+              onChange={(e) => {
+                onChange({ ...settings, end: e.target.value });
+              }}
+              className="text-sm"
+              disabled={!enabled}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">{sidebar.sendWindowPerDay}</Label>
+          <Switch checked={perDay} onCheckedChange={togglePerDay} disabled={!enabled} />
+        </div>
+
+        {perDay && (
+          <div className="space-y-2">
+            {WEEKDAYS.map((weekday) => {
+              // Days without an override use the default hours above
+              const hours = days[weekday] === undefined ? { start, end } : days[weekday];
+              return (
+                <div key={weekday} className="space-y-1 rounded-md border bg-white p-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-medium">{sidebar.weekdays[weekday]}</span>
+                    <Switch
+                      checked={hours !== null}
+                      onCheckedChange={(checked) => {
+                        updateDay(weekday, checked ? { start, end } : null);
+                      }}
+                      disabled={!enabled}
+                    />
+                  </div>
+                  {hours ? (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="time"
+                        value={hours.start}
+                        onChange={(e) => {
+                          updateDay(weekday, { ...hours, start: e.target.value });
+                        }}
+                        className="h-8 text-xs"
+                        disabled={!enabled}
+                      />
+                      <Input
+                        type="time"
+                        value={hours.end}
+                        onChange={(e) => {
+                          updateDay(weekday, { ...hours, end: e.target.value });
+                        }}
+                        className="h-8 text-xs"
+                        disabled={!enabled}
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">{sidebar.sendWindowClosed}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,8 @@
 export { SmsConfigPanel } from './SmsConfigPanel';
 export { EmailConfigPanel } from './EmailConfigPanel';
+export { ReminderConfigPanel } from './ReminderConfigPanel';
+export { SendWindowPanel } from './SendWindowPanel';
+export { ContactFrequencyPanel } from './ContactFrequencyPanel';
 export { TriggerInfoPanel } from './TriggerInfoPanel';
 export { LandingInfoPanel } from './LandingInfoPanel';
 export { BranchInfoPanel } from './BranchInfoPanel';
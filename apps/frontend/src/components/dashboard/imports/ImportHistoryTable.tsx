@@ -0,0 +1,68 @@
+import {
+  Badge,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { CustomerImportListItem } from '@easyrate/shared';
+
+interface ImportHistoryTableProps {
+  imports: CustomerImportListItem[];
+  onSelect: (id: string) => void;
+}
+
+export function ImportHistoryTable({ imports, onSelect }: ImportHistoryTableProps) {
+  const text = DASHBOARD_TEXT.imports;
+
+  if (imports.length === 0) {
+    return <p className="py-12 text-center text-sm text-muted-foreground">{text.empty}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{text.columns.fileName}</TableHead>
+          <TableHead>{text.columns.createdAt}</TableHead>
+          <TableHead>{text.summary.valid}</TableHead>
+          <TableHead>{text.columns.status}</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {imports.map((customerImport) => (
+          <TableRow key={customerImport.id}>
+            <TableCell className="font-medium">{customerImport.fileName}</TableCell>
+            <TableCell className="text-muted-foreground">
+              {new Date(customerImport.createdAt).toLocaleDateString('da-DK')}
+            </TableCell>
+            <TableCell>
+              {customerImport.summary.valid} / {customerImport.summary.total}
+            </TableCell>
+            <TableCell>
+              <Badge variant={customerImport.status === 'scheduled' ? 'success' : 'secondary'}>
+                {text.statuses[customerImport.status]}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  onSelect(customerImport.id);
+                }}
+              >
+                {text.previewTitle}
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
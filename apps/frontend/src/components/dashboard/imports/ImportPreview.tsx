@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@easyrate/ui';
+import { CUSTOMER_IMPORTS, DASHBOARD_TEXT } from '@easyrate/shared';
+import type { CustomerImport, CustomerImportRowStatus } from '@easyrate/shared';
+
+interface ImportPreviewProps {
+  customerImport: CustomerImport;
+  onSchedule: (id: string, sendsPerHour: number) => Promise<void>;
+  onCancel: (id: string) => Promise<void>;
+}
+
+const rowStatusVariants: Record<
+  CustomerImportRowStatus,
+  'success' | 'destructive' | 'warning' | 'secondary'
+> = {
+  valid: 'success',
+  invalid: 'destructive',
+  duplicate: 'secondary',
+  already_contacted: 'secondary',
+  suppressed: 'warning',
+};
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('da-DK', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export function ImportPreview({ customerImport, onSchedule, onCancel }: ImportPreviewProps) {
+  const text = DASHBOARD_TEXT.imports;
+  const { summary } = customerImport;
+  const [sendsPerHour, setSendsPerHour] = useState<number>(CUSTOMER_IMPORTS.defaultSendsPerHour);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, errorText: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await action();
+    } catch {
+      setError(errorText);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const metrics = [
+    { label: text.summary.total, value: summary.total },
+    { label: text.summary.valid, value: summary.valid },
+    { label: text.summary.skipped, value: summary.total - summary.valid },
+    { label: text.summary.smsCount, value: summary.smsCount },
+    { label: text.summary.emailCount, value: summary.emailCount },
+    { label: text.summary.smsSegments, value: summary.smsSegments },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-base">
+            {text.previewTitle}: {customerImport.fileName}
+          </CardTitle>
+          <Badge variant={customerImport.status === 'cancelled' ? 'secondary' : 'success'}>
+            {text.statuses[customerImport.status]}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-6">
+          {metrics.map((metric) => (
+            <div key={metric.label} className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">{metric.label}</p>
+              <p className="text-xl font-semibold">{metric.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {customerImport.smsPreview && (
+          <div className="space-y-1">
+            <Label>{text.smsPreview}</Label>
+            <p className="rounded-lg bg-muted p-3 text-sm">{customerImport.smsPreview}</p>
+            {summary.smsEncoding === 'UCS-2' && (
+              <p className="text-xs text-muted-foreground">{text.smsEncodingUcs2}</p>
+            )}
+          </div>
+        )}
+
+        {customerImport.status === 'preview' && summary.valid > 0 && (
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="sendsPerHour">{text.sendsPerHour}</Label>
+              <Input
+                id="sendsPerHour"
+                type="number"
+                min={1}
+                max={CUSTOMER_IMPORTS.maxSendsPerHour}
+                value={sendsPerHour}
+                onChange={(e) => {
+                  setSendsPerHour(Number(e.target.value));
+                }}
+                className="sm:w-40"
+              />
+              <p className="text-xs text-muted-foreground">{text.sendsPerHourDescription}</p>
+            </div>
+            <Button
+              onClick={() => {
+                void run(() => onSchedule(customerImport.id, sendsPerHour), text.scheduleError);
+              }}
+              disabled={isSubmitting || sendsPerHour < 1}
+            >
+              {isSubmitting ? text.scheduling : text.schedule}
+            </Button>
+          </div>
+        )}
+
+        {customerImport.status === 'scheduled' && (
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            {customerImport.firstSendAt && customerImport.lastSendAt && (
+              <p className="text-sm text-muted-foreground">
+                {text.scheduledInfo
+                  .replace('{first}', formatDateTime(customerImport.firstSendAt))
+                  .replace('{last}', formatDateTime(customerImport.lastSendAt))}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => {
+                void run(() => onCancel(customerImport.id), text.cancelError);
+              }}
+              disabled={isSubmitting}
+            >
+              {text.cancel}
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{text.columns.row}</TableHead>
+              <TableHead>{text.columns.name}</TableHead>
+              <TableHead>{text.columns.phone}</TableHead>
+              <TableHead>{text.columns.email}</TableHead>
+              <TableHead>{text.columns.visitDate}</TableHead>
+              <TableHead>{text.columns.status}</TableHead>
+              <TableHead>{text.columns.reason}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {customerImport.rows.map((row) => (
+              <TableRow key={row.rowNumber}>
+                <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                <TableCell>{row.name ?? '-'}</TableCell>
+                <TableCell>{row.phone ?? '-'}</TableCell>
+                <TableCell>{row.email ?? '-'}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {row.visitDate ? new Date(row.visitDate).toLocaleDateString('da-DK') : '-'}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={rowStatusVariants[row.status]}>
+                    {text.rowStatuses[row.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {row.reasons.join(', ')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle } from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+
+interface ImportUploadCardProps {
+  onUpload: (file: File) => Promise<void>;
+}
+
+export function ImportUploadCard({ onUpload }: ImportUploadCardProps) {
+  const text = DASHBOARD_TEXT.imports;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      await onUpload(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : text.uploadError);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{text.uploadTitle}</CardTitle>
+        <CardDescription>{text.uploadDescription}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          className="hidden"
+          onChange={(e) => {
+            void handleChange(e);
+          }}
+        />
+        <Button
+          onClick={() => {
+            inputRef.current?.click();
+          }}
+          disabled={isUploading}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {isUploading ? text.uploading : text.chooseFile}
+        </Button>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
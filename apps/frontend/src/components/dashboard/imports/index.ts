@@ -0,0 +1,3 @@
+export { ImportUploadCard } from './ImportUploadCard';
+export { ImportPreview } from './ImportPreview';
+export { ImportHistoryTable } from './ImportHistoryTable';
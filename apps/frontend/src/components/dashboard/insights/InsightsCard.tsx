@@ -1,13 +1,16 @@
 import { useState } from 'react';
-import { RefreshCw, AlertTriangle, Sparkles, Clock } from 'lucide-react';
+import { RefreshCw, AlertTriangle, Sparkles, Clock, Check } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, Button, Spinner, Switch, Label } from '@easyrate/ui';
-import { DASHBOARD_TEXT } from '@easyrate/shared';
-import { useInsights, useBusinessSettings } from '../../../hooks';
+import { DASHBOARD_TEXT, DEFAULT_ANALYSIS_LANGUAGE } from '@easyrate/shared';
+import type { InsightReviewSource } from '@easyrate/shared';
+import { useInsights, useInsightTrends, useBusinessSettings } from '../../../hooks';
 import { SentimentGauge } from './SentimentGauge';
+import { SentimentTrend } from './SentimentTrend';
 import { ThemeItem } from './ThemeItem';
 
 export function InsightsCard() {
   const { insight, isLoading, isRefreshing, error, status, refresh, refetch } = useInsights();
+  const { trends } = useInsightTrends(insight?.id);
   const { business, updateSettings } = useBusinessSettings();
   const [isToggling, setIsToggling] = useState(false);
 
@@ -22,6 +25,8 @@ export function InsightsCard() {
             enabled,
             autoRefresh: business?.settings?.aiSettings?.autoRefresh ?? true,
             provider: business?.settings?.aiSettings?.provider ?? 'grok',
+            language: business?.settings.aiSettings?.language ?? DEFAULT_ANALYSIS_LANGUAGE,
+            includeExternalReviews: business?.settings.aiSettings?.includeExternalReviews ?? true,
           },
         },
       });
@@ -258,6 +263,17 @@ export function InsightsCard() {
   const canRefresh = status?.canRequestNew;
   const timeUntilRefresh = status?.nextAvailableAt ? formatTimeUntil(status.nextAvailableAt) : null;
 
+  // Theme changes, only once there is a previous analysis to compare with
+  const themeTrends =
+    trends?.latestRunId === insight.id && trends.previousRunId ? trends.themes : [];
+  const trendsByKey = new Map(themeTrends.map((trend) => [trend.key, trend]));
+  const resolvedThemes = themeTrends.filter((trend) => trend.status === 'resolved');
+
+  // Reviews per source, shown once more than one source was analysed
+  const sourceCounts = (
+    Object.entries(insight.reviewCountsBySource ?? {}) as [InsightReviewSource, number][]
+  ).filter(([, count]) => count > 0);
+
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -327,6 +343,9 @@ export function InsightsCard() {
           <p className="text-sm text-muted-foreground">{insight.customerSatisfactionSummary}</p>
         )}
 
+        {/* Sentiment over time */}
+        {trends && <SentimentTrend points={trends.sentiment} />}
+
         {/* Themes */}
         {insight.themes.length > 0 && (
           <div>
@@ -335,12 +354,39 @@ export function InsightsCard() {
             </h3>
             <div className="space-y-4">
               {insight.themes.map((theme, index) => (
-                <ThemeItem key={index} theme={theme} />
+                <ThemeItem
+                  key={index}
+                  theme={theme}
+                  trend={theme.key ? trendsByKey.get(theme.key) : undefined}
+                />
               ))}
             </div>
           </div>
         )}
 
+        {/* Themes from the previous analysis that are no longer mentioned */}
+        {resolvedThemes.length > 0 && (
+          <div>
+            <h3 className="mb-3 text-sm font-semibold text-muted-foreground">
+              {DASHBOARD_TEXT.insights.trends.resolvedThemes}
+            </h3>
+            <ul className="space-y-2 text-sm">
+              {resolvedThemes.map((trend) => (
+                <li key={trend.key} className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <Check className="h-4 w-4 text-muted-foreground" />
+                    {trend.name}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {DASHBOARD_TEXT.insights.trends.previously}: {trend.previousCustomerCount}{' '}
+                    {DASHBOARD_TEXT.insights.customers}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="flex items-center justify-between border-t border-border pt-4 text-xs text-muted-foreground">
           <span>
@@ -348,6 +394,12 @@ export function InsightsCard() {
           </span>
           <span>
             {insight.reviewCount} {DASHBOARD_TEXT.insights.reviewsAnalyzed}
+            {sourceCounts.length > 1 &&
+              ` (${sourceCounts
+                .map(
+                  ([source, count]) => `${String(count)} ${DASHBOARD_TEXT.insights.sources[source]}`
+                )
+                .join(', ')})`}
           </span>
         </div>
       </CardContent>
@@ -0,0 +1,58 @@
+import { cn } from '@easyrate/ui/lib';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { SentimentTrendPoint } from '@easyrate/shared';
+
+interface SentimentTrendProps {
+  points: SentimentTrendPoint[]; // Oldest first
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('da-DK', { day: 'numeric', month: 'short' });
+}
+
+/**
+ * Sentiment score of each analysis as bars, with the change since the previous one
+ */
+export function SentimentTrend({ points }: SentimentTrendProps) {
+  const latest = points.at(-1);
+  const previous = points.at(-2);
+  if (!latest || !previous) {
+    return null;
+  }
+
+  const change = latest.score - previous.score;
+
+  return (
+    <div>
+      <h3 className="mb-3 text-sm font-semibold text-muted-foreground">
+        {DASHBOARD_TEXT.insights.trends.title}
+      </h3>
+      <div className="flex h-16 items-end gap-1">
+        {points.map((point) => (
+          <div
+            key={point.runId}
+            className="flex-1 rounded-t bg-primary/70"
+            style={{ height: `${String(Math.max(4, point.score))}%` }}
+            title={`${formatDate(point.date)}: ${String(point.score)}`}
+          />
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+        <span>{formatDate(points[0]?.date ?? latest.date)}</span>
+        <span>{formatDate(latest.date)}</span>
+      </div>
+      <p
+        className={cn(
+          'mt-2 text-sm',
+          change > 0 && 'text-green-600',
+          change < 0 && 'text-red-600',
+          change === 0 && 'text-muted-foreground'
+        )}
+      >
+        {change === 0
+          ? DASHBOARD_TEXT.insights.trends.noChange
+          : `${change > 0 ? '+' : ''}${String(change)} ${DASHBOARD_TEXT.insights.trends.scoreChange}`}
+      </p>
+    </div>
+  );
+}
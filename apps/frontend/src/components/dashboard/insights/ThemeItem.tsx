@@ -1,12 +1,31 @@
 import { Badge } from '@easyrate/ui';
 import { cn } from '@easyrate/ui/lib';
 import { DASHBOARD_TEXT } from '@easyrate/shared';
-import type { InsightTheme, ThemeSeverity, ThemeSentiment } from '@easyrate/shared';
-import { ChevronDown, ChevronUp, Lightbulb, Users, MessageSquare } from 'lucide-react';
+import type {
+  InsightTheme,
+  ThemeSeverity,
+  ThemeSentiment,
+  ThemeTrend,
+  ThemeTrendStatus,
+} from '@easyrate/shared';
+import {
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Lightbulb,
+  Minus,
+  Sparkle,
+  TrendingDown,
+  TrendingUp,
+  Users,
+  MessageSquare,
+  type LucideIcon,
+} from 'lucide-react';
 import { useState } from 'react';
 
 interface ThemeItemProps {
   theme: InsightTheme;
+  trend?: ThemeTrend | undefined; // Change since the previous run
 }
 
 const SEVERITY_VARIANTS: Record<
@@ -25,10 +44,33 @@ const SENTIMENT_COLORS: Record<ThemeSentiment, string> = {
   neutral: 'text-gray-600',
 };
 
-export function ThemeItem({ theme }: ThemeItemProps) {
+const TREND_ICONS: Record<ThemeTrendStatus, LucideIcon> = {
+  new: Sparkle,
+  growing: TrendingUp,
+  shrinking: TrendingDown,
+  stable: Minus,
+  resolved: Check,
+};
+
+/**
+ * Green when the change is good news: praise growing or complaints shrinking
+ */
+function getTrendColor(trend: ThemeTrend): string {
+  if (trend.status === 'growing') {
+    return trend.sentiment === 'positive' ? 'text-green-600' : 'text-red-600';
+  }
+  if (trend.status === 'shrinking' || trend.status === 'resolved') {
+    return trend.sentiment === 'positive' ? 'text-red-600' : 'text-green-600';
+  }
+  return 'text-muted-foreground';
+}
+
+export function ThemeItem({ theme, trend }: ThemeItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const severityText = DASHBOARD_TEXT.insights.severity[theme.severity];
   const sentimentText = DASHBOARD_TEXT.insights.themeSentiment[theme.sentiment];
+  const TrendIcon = trend ? TREND_ICONS[trend.status] : null;
+  const sources = theme.sources ?? [];
 
   return (
     <div className="border-b border-border pb-4 last:border-b-0 last:pb-0">
@@ -47,6 +89,12 @@ export function ThemeItem({ theme }: ThemeItemProps) {
             <span className={cn('text-xs', SENTIMENT_COLORS[theme.sentiment])}>
               {sentimentText}
             </span>
+            {trend && TrendIcon && (
+              <span className={cn('flex items-center gap-1 text-xs', getTrendColor(trend))}>
+                <TrendIcon className="h-3 w-3" />
+                {DASHBOARD_TEXT.insights.trends.status[trend.status]}
+              </span>
+            )}
           </div>
           <p className="mt-1 text-sm text-muted-foreground">{theme.description}</p>
         </div>
@@ -69,6 +117,18 @@ export function ThemeItem({ theme }: ThemeItemProps) {
           <MessageSquare className="h-3 w-3" />
           {theme.mentionCount} {DASHBOARD_TEXT.insights.mentions}
         </span>
+        {sources.length > 0 && (
+          <span>
+            {DASHBOARD_TEXT.insights.sourcesLabel}:{' '}
+            {sources.map((source) => DASHBOARD_TEXT.insights.sources[source]).join(', ')}
+          </span>
+        )}
+        {trend && trend.status !== 'new' && (
+          <span>
+            {DASHBOARD_TEXT.insights.trends.previously}: {trend.previousCustomerCount}{' '}
+            {DASHBOARD_TEXT.insights.customers}
+          </span>
+        )}
       </div>
 
       {/* Expanded content */}
@@ -1,3 +1,4 @@
 export { InsightsCard } from './InsightsCard';
 export { SentimentGauge } from './SentimentGauge';
 export { ThemeItem } from './ThemeItem';
+export { SentimentTrend } from './SentimentTrend';
@@ -0,0 +1,144 @@
+import { Input, Label } from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { IntegrationFilterRule } from '@easyrate/shared';
+
+/**
+ * Form state for the filter rules. Each rule type gets one field;
+ * an empty field means the rule is not used.
+ */
+export interface FilterRuleFormValues {
+  excludeTags: string;
+  maxPartySize: string;
+  minOrderTotal: string;
+  onlyTables: string;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+export function toFilterRuleForm(rules: IntegrationFilterRule[] | undefined): FilterRuleFormValues {
+  const values: FilterRuleFormValues = {
+    excludeTags: '',
+    maxPartySize: '',
+    minOrderTotal: '',
+    onlyTables: '',
+  };
+
+  for (const rule of rules ?? []) {
+    if (rule.type === 'exclude_tags') values.excludeTags = rule.tags.join(', ');
+    if (rule.type === 'max_party_size') values.maxPartySize = String(rule.max);
+    if (rule.type === 'min_order_total') values.minOrderTotal = String(rule.min);
+    if (rule.type === 'only_tables') values.onlyTables = rule.tables.join(', ');
+  }
+
+  return values;
+}
+
+export function fromFilterRuleForm(values: FilterRuleFormValues): IntegrationFilterRule[] {
+  const rules: IntegrationFilterRule[] = [];
+
+  const tags = splitList(values.excludeTags);
+  if (tags.length > 0) rules.push({ type: 'exclude_tags', tags });
+
+  const maxPartySize = parseInt(values.maxPartySize, 10);
+  if (maxPartySize > 0) rules.push({ type: 'max_party_size', max: maxPartySize });
+
+  const minOrderTotal = parseFloat(values.minOrderTotal.replace(',', '.'));
+  if (minOrderTotal > 0) rules.push({ type: 'min_order_total', min: minOrderTotal });
+
+  const tables = splitList(values.onlyTables);
+  if (tables.length > 0) rules.push({ type: 'only_tables', tables });
+
+  return rules;
+}
+
+interface FilterRulesSectionProps {
+  platform: 'dully' | 'easytable';
+  values: FilterRuleFormValues;
+  onChange: (values: FilterRuleFormValues) => void;
+}
+
+export function FilterRulesSection({ platform, values, onChange }: FilterRulesSectionProps) {
+  const text = DASHBOARD_TEXT.integrations.filterRules;
+  // Dully orders have no tags, party size or tables - only the order total applies
+  const isBooking = platform === 'easytable';
+
+  const update = (field: keyof FilterRuleFormValues, value: string) => {
+    onChange({ ...values, [field]: value });
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-6">
+      <div>
+        <h3 className="font-medium">{text.title}</h3>
+        <p className="text-sm text-muted-foreground">{text.description}</p>
+      </div>
+
+      {isBooking && (
+        <div className="space-y-2">
+          <Label htmlFor="excludeTags">{text.excludeTagsLabel}</Label>
+          <Input
+            id="excludeTags"
+            placeholder={text.excludeTagsPlaceholder}
+            value={values.excludeTags}
+            onChange={(e) => {
+              update('excludeTags', e.target.value);
+            }}
+          />
+          <p className="text-xs text-muted-foreground">{text.excludeTagsDescription}</p>
+        </div>
+      )}
+
+      {isBooking && (
+        <div className="space-y-2">
+          <Label htmlFor="maxPartySize">{text.maxPartySizeLabel}</Label>
+          <Input
+            id="maxPartySize"
+            type="number"
+            min={1}
+            value={values.maxPartySize}
+            onChange={(e) => {
+              update('maxPartySize', e.target.value);
+            }}
+          />
+          <p className="text-xs text-muted-foreground">{text.maxPartySizeDescription}</p>
+        </div>
+      )}
+
+      {!isBooking && (
+        <div className="space-y-2">
+          <Label htmlFor="minOrderTotal">{text.minOrderTotalLabel}</Label>
+          <Input
+            id="minOrderTotal"
+            type="number"
+            min={0}
+            value={values.minOrderTotal}
+            onChange={(e) => {
+              update('minOrderTotal', e.target.value);
+            }}
+          />
+          <p className="text-xs text-muted-foreground">{text.minOrderTotalDescription}</p>
+        </div>
+      )}
+
+      {isBooking && (
+        <div className="space-y-2">
+          <Label htmlFor="onlyTables">{text.onlyTablesLabel}</Label>
+          <Input
+            id="onlyTables"
+            placeholder={text.onlyTablesPlaceholder}
+            value={values.onlyTables}
+            onChange={(e) => {
+              update('onlyTables', e.target.value);
+            }}
+          />
+          <p className="text-xs text-muted-foreground">{text.onlyTablesDescription}</p>
+        </div>
+      )}
+    </div>
+  );
+}
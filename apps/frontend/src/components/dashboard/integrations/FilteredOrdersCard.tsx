@@ -0,0 +1,55 @@
+import { Card, CardContent, CardHeader, CardTitle, Spinner } from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import { useFilteredOrders } from '../../../hooks';
+
+interface FilteredOrdersCardProps {
+  platform: 'dully' | 'easytable';
+}
+
+/**
+ * Recent orders skipped by the filter rules, with the rules that excluded them
+ */
+export function FilteredOrdersCard({ platform }: FilteredOrdersCardProps) {
+  const { orders, isLoading } = useFilteredOrders(platform);
+  const text = DASHBOARD_TEXT.integrations.filterRules;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{text.recentlyFiltered}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spinner />
+          </div>
+        ) : orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{text.noneFiltered}</p>
+        ) : (
+          <ul className="space-y-3">
+            {orders.map((order) => (
+              <li key={order.id} className="text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">#{order.orderId}</span>
+                  <span className="text-muted-foreground">
+                    {new Date(order.createdAt).toLocaleString('da-DK', {
+                      dateStyle: 'short',
+                      timeStyle: 'short',
+                    })}
+                  </span>
+                </div>
+                {(order.skipTrace ?? [])
+                  .filter((result) => !result.passed)
+                  .map((result, index) => (
+                    <p key={index} className="text-muted-foreground">
+                      {result.detail}
+                    </p>
+                  ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { DASHBOARD_TEXT } from '@easyrate/shared';
 interface IntegrationCardProps {
   platform: 'dully' | 'easytable';
   isConnected: boolean;
+  lastSuccessfulPollAt?: Date | string | undefined;
 }
 
 const platformConfig = {
@@ -23,7 +24,11 @@ const platformConfig = {
   },
 };
 
-export function IntegrationCard({ platform, isConnected }: IntegrationCardProps) {
+export function IntegrationCard({
+  platform,
+  isConnected,
+  lastSuccessfulPollAt,
+}: IntegrationCardProps) {
   const config = platformConfig[platform];
 
   return (
@@ -49,6 +54,18 @@ export function IntegrationCard({ platform, isConnected }: IntegrationCardProps)
           </Badge>
         </div>
 
+        {platform === 'easytable' && isConnected && (
+          <p className="mt-4 text-xs text-muted-foreground">
+            {DASHBOARD_TEXT.integrations.easytable.lastSuccessfulPoll}:{' '}
+            {lastSuccessfulPollAt
+              ? new Date(lastSuccessfulPollAt).toLocaleString('da-DK', {
+                  dateStyle: 'short',
+                  timeStyle: 'short',
+                })
+              : DASHBOARD_TEXT.integrations.easytable.neverPolled}
+          </p>
+        )}
+
         <div className="mt-4">
           <Link to={`/dashboard/integrations/${platform}`} className="block">
             <Button variant={isConnected ? 'outline' : 'default'} className="w-full">
@@ -17,6 +17,7 @@ export function IntegrationGrid({ integrations }: IntegrationGridProps) {
             key={platform}
             platform={platform}
             isConnected={integration?.enabled ?? false}
+            lastSuccessfulPollAt={integration?.polling?.lastSuccessAt}
           />
         );
       })}
@@ -1,11 +1,23 @@
 import { useState } from 'react';
-import { ArrowLeft, Check, X, Loader2, Copy, CheckCircle, Clock, Activity } from 'lucide-react';
+import {
+  ArrowLeft,
+  Check,
+  X,
+  Loader2,
+  Copy,
+  CheckCircle,
+  Clock,
+  Activity,
+  AlertTriangle,
+} from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button, Card, CardContent, CardHeader, CardTitle, Input, Label } from '@easyrate/ui';
 import { DASHBOARD_TEXT } from '@easyrate/shared';
 import type { IntegrationConfig } from '@easyrate/shared';
 import { useIntegrations } from '../../../hooks';
 import { useAuth } from '../../../contexts/AuthContext';
+import { FilterRulesSection, fromFilterRuleForm, toFilterRuleForm } from './FilterRulesSection';
+import { FilteredOrdersCard } from './FilteredOrdersCard';
 
 interface IntegrationSetupFormProps {
   platform: 'dully' | 'easytable';
@@ -19,6 +31,7 @@ export function IntegrationSetupForm({ platform, integration }: IntegrationSetup
   const [apiKey, setApiKey] = useState(integration?.apiKey ?? '');
   const [webhookSecret, setWebhookSecret] = useState(integration?.webhookSecret ?? '');
   const [placeToken, setPlaceToken] = useState((integration?.settings?.placeToken as string) ?? '');
+  const [filterRules, setFilterRules] = useState(toFilterRuleForm(integration?.filterRules));
   const [isSaving, setIsSaving] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<boolean | null>(null);
@@ -35,6 +48,7 @@ export function IntegrationSetupForm({ platform, integration }: IntegrationSetup
         apiKey,
         enabled: true,
         settings: isDully ? {} : { placeToken },
+        filterRules: fromFilterRuleForm(filterRules),
       };
       if (isDully) {
         configData.webhookSecret = webhookSecret;
@@ -168,6 +182,12 @@ export function IntegrationSetupForm({ platform, integration }: IntegrationSetup
               </div>
             )}
 
+            <FilterRulesSection
+              platform={platform}
+              values={filterRules}
+              onChange={setFilterRules}
+            />
+
             {/* Test Result */}
             {testResult !== null && (
               <div
@@ -238,10 +258,44 @@ export function IntegrationSetupForm({ platform, integration }: IntegrationSetup
             </CardContent>
           </Card>
         )}
+
+        {/* Polling Status Card (EasyTable only, when enabled) */}
+        {!isDully && integration?.enabled && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{easytableConfig.pollingStatus}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-start gap-3">
+                <Clock className="h-5 w-5 text-muted-foreground mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium">{easytableConfig.lastSuccessfulPoll}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {integration.polling?.lastSuccessAt
+                      ? formatDate(integration.polling.lastSuccessAt)
+                      : easytableConfig.neverPolled}
+                  </p>
+                </div>
+              </div>
+              {integration.polling?.lastError && (
+                <div className="flex items-start gap-3">
+                  <AlertTriangle className="h-5 w-5 text-destructive mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium">{easytableConfig.lastPollError}</p>
+                    <p className="text-sm text-muted-foreground">{integration.polling.lastError}</p>
+                  </div>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">{easytableConfig.pollingDescription}</p>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Sidebar */}
       <div className="space-y-6">
+        {integration?.enabled && <FilteredOrdersCard platform={platform} />}
+
         {/* Setup Instructions (Dully only) */}
         {isDully && (
           <Card>
@@ -1,3 +1,5 @@
 export { IntegrationCard } from './IntegrationCard';
+export { FilterRulesSection } from './FilterRulesSection';
+export { FilteredOrdersCard } from './FilteredOrdersCard';
 export { IntegrationGrid } from './IntegrationGrid';
 export { IntegrationSetupForm } from './IntegrationSetupForm';
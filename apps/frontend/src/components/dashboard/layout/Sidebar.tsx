@@ -1,5 +1,17 @@
 import { Link, useLocation } from 'react-router-dom';
-import { BarChart3, MessageSquare, Plug, GitBranch, FlaskConical, Settings, LogOut } from 'lucide-react';
+import {
+  BarChart3,
+  MessageSquare,
+  Plug,
+  GitBranch,
+  FlaskConical,
+  BellOff,
+  FileUp,
+  ListOrdered,
+  BellRing,
+  Settings,
+  LogOut,
+} from 'lucide-react';
 import { DASHBOARD_TEXT } from '@easyrate/shared';
 import { cn } from '@easyrate/ui/lib';
 import { useAuth } from '../../../contexts/AuthContext';
@@ -10,6 +22,10 @@ const navItems = [
   { path: '/dashboard/integrations', label: DASHBOARD_TEXT.nav.integrations, icon: Plug },
   { path: '/dashboard/flow', label: DASHBOARD_TEXT.nav.flow, icon: GitBranch },
   { path: '/dashboard/test', label: DASHBOARD_TEXT.nav.test, icon: FlaskConical },
+  { path: '/dashboard/suppressions', label: DASHBOARD_TEXT.nav.suppressions, icon: BellOff },
+  { path: '/dashboard/imports', label: DASHBOARD_TEXT.nav.imports, icon: FileUp },
+  { path: '/dashboard/queue', label: DASHBOARD_TEXT.nav.orderQueue, icon: ListOrdered },
+  { path: '/dashboard/alerts', label: DASHBOARD_TEXT.nav.alerts, icon: BellRing },
   { path: '/dashboard/settings', label: DASHBOARD_TEXT.nav.settings, icon: Settings },
 ];
 
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Spinner,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { Notification, OrderQueueItem } from '@easyrate/shared';
+import { RETRYABLE_STATUSES } from './OrderQueueTable';
+
+interface OrderQueueDetailsProps {
+  item: OrderQueueItem | null;
+  notifications: Notification[];
+  isLoading: boolean;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onReschedule: (id: string, scheduledFor: Date) => void;
+}
+
+/**
+ * Format a date for a datetime-local input, in the browser's time zone
+ */
+function toDateTimeLocal(value: Date | string): string {
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${String(date.getFullYear())}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('da-DK', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+/**
+ * Details for the selected queue item: actions, reschedule and the notifications sent
+ */
+export function OrderQueueDetails({
+  item,
+  notifications,
+  isLoading,
+  onRetry,
+  onCancel,
+  onReschedule,
+}: OrderQueueDetailsProps) {
+  const text = DASHBOARD_TEXT.orderQueue;
+  const [scheduledFor, setScheduledFor] = useState('');
+
+  useEffect(() => {
+    setScheduledFor(item ? toDateTimeLocal(item.scheduledFor) : '');
+  }, [item]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{text.detailsTitle}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spinner />
+          </div>
+        ) : !item ? (
+          <p className="text-sm text-muted-foreground">{text.selectOrder}</p>
+        ) : (
+          <>
+            <div className="space-y-1 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">#{item.orderId}</span>
+                <Badge variant="secondary">{text.statuses[item.status]}</Badge>
+              </div>
+              <p className="text-muted-foreground">
+                {text.platforms[item.platform]}
+                {item.reminderStep > 0 &&
+                  ` · ${text.reminderStep.replace('{step}', String(item.reminderStep))}`}
+              </p>
+              {item.orderData.customerName && <p>{item.orderData.customerName}</p>}
+              {item.orderData.customerPhone && (
+                <p className="text-muted-foreground">{item.orderData.customerPhone}</p>
+              )}
+              {item.orderData.customerEmail && (
+                <p className="text-muted-foreground">{item.orderData.customerEmail}</p>
+              )}
+              {item.errorMessage && (
+                <p className="text-destructive">
+                  {text.columns.error}: {item.errorMessage}
+                </p>
+              )}
+              {item.attempts > 0 && (
+                <p className="text-muted-foreground">
+                  {text.attempts}: {item.attempts}
+                </p>
+              )}
+              {item.status === 'pending' && item.nextAttemptAt && (
+                <p className="text-muted-foreground">
+                  {text.nextAttempt}: {formatDateTime(item.nextAttemptAt)}
+                </p>
+              )}
+              {item.cancelReason && <p className="text-muted-foreground">{item.cancelReason}</p>}
+              {(item.skipTrace ?? [])
+                .filter((result) => !result.passed)
+                .map((result, index) => (
+                  <p key={index} className="text-muted-foreground">
+                    {result.detail}
+                  </p>
+                ))}
+            </div>
+
+            {item.status === 'pending' && (
+              <div className="space-y-2">
+                <Label htmlFor="scheduledFor">{text.reschedule}</Label>
+                <Input
+                  id="scheduledFor"
+                  type="datetime-local"
+                  value={scheduledFor}
+                  onChange={(e) => {
+                    setScheduledFor(e.target.value);
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">{text.sendWindowNote}</p>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      onReschedule(item.id, new Date(scheduledFor));
+                    }}
+                    disabled={!scheduledFor}
+                  >
+                    {text.saveSchedule}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      onCancel(item.id);
+                    }}
+                  >
+                    {text.cancel}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {RETRYABLE_STATUSES.includes(item.status) && (
+              <Button
+                size="sm"
+                onClick={() => {
+                  onRetry(item.id);
+                }}
+              >
+                {text.retry}
+              </Button>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{text.notifications}</p>
+              {notifications.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{text.noNotifications}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {notifications.map((notification) => (
+                    <li key={notification.id} className="rounded-md border p-2 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium uppercase">{notification.type}</span>
+                        <Badge variant="outline">
+                          {text.notificationStatuses[notification.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-muted-foreground">
+                        {notification.recipient}
+                        {notification.provider && ` · ${notification.provider}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDateTime(notification.sentAt ?? notification.createdAt)}
+                      </p>
+                      {notification.errorMessage && (
+                        <p className="text-xs text-destructive">{notification.errorMessage}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
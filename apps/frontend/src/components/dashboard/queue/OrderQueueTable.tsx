@@ -0,0 +1,135 @@
+import { RotateCcw, X } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { OrderQueueItem, OrderQueueStatus } from '@easyrate/shared';
+
+interface OrderQueueTableProps {
+  items: OrderQueueItem[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+const STATUS_VARIANTS: Record<
+  OrderQueueStatus,
+  'default' | 'secondary' | 'destructive' | 'outline' | 'success' | 'warning'
+> = {
+  pending: 'warning',
+  processing: 'default',
+  completed: 'success',
+  failed: 'destructive',
+  dead_letter: 'destructive',
+  cancelled: 'secondary',
+  skipped: 'outline',
+};
+
+// Statuses that can be sent again manually
+export const RETRYABLE_STATUSES: OrderQueueStatus[] = ['failed', 'dead_letter', 'cancelled'];
+
+export function OrderQueueTable({
+  items,
+  selectedId,
+  onSelect,
+  onRetry,
+  onCancel,
+}: OrderQueueTableProps) {
+  const text = DASHBOARD_TEXT.orderQueue;
+
+  if (items.length === 0) {
+    return <p className="py-12 text-center text-sm text-muted-foreground">{text.empty}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{text.columns.orderId}</TableHead>
+          <TableHead>{text.columns.customer}</TableHead>
+          <TableHead>{text.columns.platform}</TableHead>
+          <TableHead>{text.columns.status}</TableHead>
+          <TableHead>{text.columns.scheduledFor}</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item) => (
+          <TableRow
+            key={item.id}
+            className={item.id === selectedId ? 'cursor-pointer bg-muted/50' : 'cursor-pointer'}
+            onClick={() => {
+              onSelect(item.id);
+            }}
+          >
+            <TableCell>
+              <p className="font-medium">#{item.orderId}</p>
+              {item.reminderStep > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {text.reminderStep.replace('{step}', String(item.reminderStep))}
+                </p>
+              )}
+            </TableCell>
+            <TableCell>
+              <p>{item.orderData.customerName ?? '-'}</p>
+              <p className="text-xs text-muted-foreground">
+                {item.orderData.customerPhone ?? item.orderData.customerEmail}
+              </p>
+            </TableCell>
+            <TableCell className="text-muted-foreground">{text.platforms[item.platform]}</TableCell>
+            <TableCell>
+              <Badge variant={STATUS_VARIANTS[item.status]}>{text.statuses[item.status]}</Badge>
+              {item.errorMessage && (
+                <p className="mt-1 max-w-xs truncate text-xs text-destructive">
+                  {item.errorMessage}
+                </p>
+              )}
+            </TableCell>
+            <TableCell className="text-muted-foreground">
+              {new Date(item.scheduledFor).toLocaleString('da-DK', {
+                dateStyle: 'short',
+                timeStyle: 'short',
+              })}
+            </TableCell>
+            <TableCell className="text-right">
+              {RETRYABLE_STATUSES.includes(item.status) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRetry(item.id);
+                  }}
+                  aria-label={text.retry}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status === 'pending' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCancel(item.id);
+                  }}
+                  aria-label={text.cancel}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
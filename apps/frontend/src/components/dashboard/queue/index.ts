@@ -0,0 +1,2 @@
+export { OrderQueueTable } from './OrderQueueTable';
+export { OrderQueueDetails } from './OrderQueueDetails';
@@ -46,6 +46,8 @@ export function ReviewCard({ review, onReplySuccess }: ReviewCardProps) {
   const sourceLabels: Record<string, string> = {
     dully: 'Dully',
     easytable: 'EasyTable',
+    api: 'Ordre API',
+    import: 'Import',
     direct: 'Direkte',
   };
 
@@ -62,6 +62,8 @@ export function ReviewFilters({
           <SelectOption value="">{DASHBOARD_TEXT.reviews.allSources}</SelectOption>
           <SelectOption value="dully">Dully</SelectOption>
           <SelectOption value="easytable">EasyTable</SelectOption>
+          <SelectOption value="api">Ordre API</SelectOption>
+          <SelectOption value="import">Import</SelectOption>
           <SelectOption value="direct">Direkte</SelectOption>
         </Select>
       )}
@@ -1,26 +1,44 @@
-import { Card, CardContent, CardHeader, CardTitle, CardDescription, Switch, Label } from '@easyrate/ui';
-import { DASHBOARD_TEXT } from '@easyrate/shared';
-import type { AIProviderType } from '@easyrate/shared';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Switch,
+  Label,
+  Select,
+  SelectOption,
+} from '@easyrate/ui';
+import { ANALYSIS_LANGUAGES, DASHBOARD_TEXT } from '@easyrate/shared';
+import type { AIProviderType, AnalysisLanguage } from '@easyrate/shared';
 import { Sparkles, AlertCircle } from 'lucide-react';
 
 interface AIInsightsSectionProps {
   enabled: boolean;
   autoRefresh: boolean;
   provider: AIProviderType;
+  language: AnalysisLanguage;
+  includeExternalReviews: boolean;
   isConfigured: boolean;
   onEnabledChange: (enabled: boolean) => void;
   onAutoRefreshChange: (autoRefresh: boolean) => void;
   onProviderChange: (provider: AIProviderType) => void;
+  onLanguageChange: (language: AnalysisLanguage) => void;
+  onIncludeExternalReviewsChange: (includeExternalReviews: boolean) => void;
 }
 
 export function AIInsightsSection({
   enabled,
   autoRefresh,
   provider,
+  language,
+  includeExternalReviews,
   isConfigured,
   onEnabledChange,
   onAutoRefreshChange,
   onProviderChange,
+  onLanguageChange,
+  onIncludeExternalReviewsChange,
 }: AIInsightsSectionProps) {
   return (
     <Card>
@@ -75,6 +93,24 @@ export function AIInsightsSection({
           />
         </div>
 
+        {/* Include Google reviews */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="ai-include-external" className="text-base">
+              {DASHBOARD_TEXT.settings.aiInsights.includeExternalLabel}
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {DASHBOARD_TEXT.settings.aiInsights.includeExternalDescription}
+            </p>
+          </div>
+          <Switch
+            id="ai-include-external"
+            checked={includeExternalReviews}
+            onCheckedChange={onIncludeExternalReviewsChange}
+            disabled={!isConfigured || !enabled}
+          />
+        </div>
+
         {/* Provider Selection */}
         <div className="space-y-2">
           <Label className="text-base">{DASHBOARD_TEXT.settings.aiInsights.providerLabel}</Label>
@@ -113,6 +149,31 @@ export function AIInsightsSection({
             </label>
           </div>
         </div>
+
+        {/* Report Language */}
+        <div className="space-y-2">
+          <Label htmlFor="ai-language" className="text-base">
+            {DASHBOARD_TEXT.settings.aiInsights.languageLabel}
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            {DASHBOARD_TEXT.settings.aiInsights.languageDescription}
+          </p>
+          <Select
+            id="ai-language"
+            value={language}
+            onChange={(e) => {
+              onLanguageChange(e.target.value as AnalysisLanguage);
+            }}
+            disabled={!isConfigured || !enabled}
+            className="max-w-xs"
+          >
+            {ANALYSIS_LANGUAGES.map((code) => (
+              <SelectOption key={code} value={code}>
+                {DASHBOARD_TEXT.settings.aiInsights.languages[code]}
+              </SelectOption>
+            ))}
+          </Select>
+        </div>
       </CardContent>
     </Card>
   );
@@ -1,4 +1,13 @@
-import { Card, CardContent, CardHeader, CardTitle, Input, Label } from '@easyrate/ui';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectOption,
+} from '@easyrate/ui';
 import { DASHBOARD_TEXT } from '@easyrate/shared';
 
 interface ProfileSectionProps {
@@ -6,21 +15,34 @@ interface ProfileSectionProps {
   email: string;
   phone: string;
   address: string;
+  timezone: string;
   onNameChange: (value: string) => void;
   onEmailChange: (value: string) => void;
   onPhoneChange: (value: string) => void;
   onAddressChange: (value: string) => void;
+  onTimezoneChange: (value: string) => void;
 }
 
+const TIMEZONES = [
+  'Europe/Copenhagen',
+  'Europe/Stockholm',
+  'Europe/Oslo',
+  'Europe/Berlin',
+  'Europe/London',
+  'UTC',
+];
+
 export function ProfileSection({
   name,
   email,
   phone,
   address,
+  timezone,
   onNameChange,
   onEmailChange,
   onPhoneChange,
   onAddressChange,
+  onTimezoneChange,
 }: ProfileSectionProps) {
   return (
     <Card>
@@ -63,6 +85,23 @@ export function ProfileSection({
               onChange={(e) => onAddressChange(e.target.value)}
             />
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="timezone">{DASHBOARD_TEXT.settings.profile.timezone}</Label>
+            <Select
+              id="timezone"
+              value={timezone}
+              onChange={(e) => onTimezoneChange(e.target.value)}
+            >
+              {(TIMEZONES.includes(timezone) ? TIMEZONES : [timezone, ...TIMEZONES]).map((zone) => (
+                <SelectOption key={zone} value={zone}>
+                  {zone}
+                </SelectOption>
+              ))}
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {DASHBOARD_TEXT.settings.profile.timezoneDescription}
+            </p>
+          </div>
         </div>
       </CardContent>
     </Card>
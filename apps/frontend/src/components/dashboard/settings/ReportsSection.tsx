@@ -0,0 +1,108 @@
+import {
+  Badge,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectOption,
+  Switch,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { ReportFrequency } from '@easyrate/shared';
+import { useReportHistory } from '../../../hooks';
+
+const text = DASHBOARD_TEXT.settings.reports;
+
+interface ReportsSectionProps {
+  enabled: boolean;
+  frequency: ReportFrequency;
+  recipients: string;
+  onEnabledChange: (value: boolean) => void;
+  onFrequencyChange: (value: ReportFrequency) => void;
+  onRecipientsChange: (value: string) => void;
+}
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString('da-DK');
+}
+
+export function ReportsSection({
+  enabled,
+  frequency,
+  recipients,
+  onEnabledChange,
+  onFrequencyChange,
+  onRecipientsChange,
+}: ReportsSectionProps) {
+  const { reports } = useReportHistory();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{text.title}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-muted-foreground">{text.enabled}</Label>
+            <Switch checked={enabled} onCheckedChange={onEnabledChange} />
+          </div>
+        </div>
+        <CardDescription>{text.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="reportFrequency">{text.frequency}</Label>
+            <Select
+              id="reportFrequency"
+              value={frequency}
+              onChange={(e) => {
+                onFrequencyChange(e.target.value as ReportFrequency);
+              }}
+              disabled={!enabled}
+            >
+              <SelectOption value="weekly">{text.frequencies.weekly}</SelectOption>
+              <SelectOption value="monthly">{text.frequencies.monthly}</SelectOption>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reportRecipients">{text.recipients}</Label>
+            <Input
+              id="reportRecipients"
+              value={recipients}
+              onChange={(e) => {
+                onRecipientsChange(e.target.value);
+              }}
+              placeholder={text.recipientsPlaceholder}
+              disabled={!enabled}
+            />
+            <p className="text-xs text-muted-foreground">{text.recipientsDescription}</p>
+          </div>
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <Label>{text.history}</Label>
+          {reports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{text.noHistory}</p>
+          ) : (
+            reports.map((report) => (
+              <div key={report.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {formatDate(report.periodStart)} -{' '}
+                  {formatDate(new Date(new Date(report.periodEnd).getTime() - 1))}
+                  <span className="ml-2 text-muted-foreground">{report.recipients.join(', ')}</span>
+                </span>
+                <Badge variant={report.status === 'sent' ? 'success' : 'destructive'}>
+                  {text.status[report.status]}
+                </Badge>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
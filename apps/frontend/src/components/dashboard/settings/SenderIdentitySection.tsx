@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Badge,
+  Button,
+  Input,
+  Label,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import { AlertCircle, Loader2, ShieldCheck, UserRound } from 'lucide-react';
+import { useSenderIdentity } from '../../../hooks/useSenderIdentity';
+
+const text = DASHBOARD_TEXT.settings.senderIdentity;
+
+const DOMAIN_STATUS_VARIANTS = {
+  pending: 'warning',
+  verified: 'success',
+  failed: 'destructive',
+} as const;
+
+const SMS_SENDER_ID_MAX_LENGTH = 11;
+
+export function SenderIdentitySection() {
+  const {
+    senderIdentity,
+    verificationRecord,
+    isLoading,
+    error,
+    updateSenderIdentity,
+    verifyDomain,
+  } = useSenderIdentity();
+
+  const [fromName, setFromName] = useState('');
+  const [fromEmail, setFromEmail] = useState('');
+  const [smsSenderId, setSmsSenderId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFromName(senderIdentity.fromName ?? '');
+    setFromEmail(senderIdentity.fromEmail ?? '');
+    setSmsSenderId(senderIdentity.smsSenderId ?? '');
+  }, [senderIdentity]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setActionError(null);
+    try {
+      await updateSenderIdentity({
+        fromName: fromName.trim(),
+        fromEmail: fromEmail.trim(),
+        smsSenderId: smsSenderId.trim(),
+      });
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : text.saveError);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    setActionError(null);
+    try {
+      await verifyDomain();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : text.saveError);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const domain = senderIdentity.domain;
+  const smsSenderIdTooLong = smsSenderId.trim().length > SMS_SENDER_ID_MAX_LENGTH;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserRound className="h-5 w-5" />
+          {text.title}
+        </CardTitle>
+        <CardDescription>{text.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(actionError ?? error) && (
+          <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-red-800 dark:bg-red-900/20 dark:text-red-200">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            <p className="text-sm">{actionError ?? error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="sender-from-name">{text.fromName}</Label>
+                <Input
+                  id="sender-from-name"
+                  value={fromName}
+                  onChange={(e) => {
+                    setFromName(e.target.value);
+                  }}
+                  placeholder={text.fromNamePlaceholder}
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sender-from-email">{text.fromEmail}</Label>
+                <Input
+                  id="sender-from-email"
+                  type="email"
+                  value={fromEmail}
+                  onChange={(e) => {
+                    setFromEmail(e.target.value);
+                  }}
+                  placeholder={text.fromEmailPlaceholder}
+                />
+                <p className="text-sm text-muted-foreground">{text.fromEmailHelp}</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sender-sms-id">{text.smsSenderId}</Label>
+                <Input
+                  id="sender-sms-id"
+                  value={smsSenderId}
+                  onChange={(e) => {
+                    setSmsSenderId(e.target.value);
+                  }}
+                  placeholder={text.smsSenderIdPlaceholder}
+                />
+                <p
+                  className={
+                    smsSenderIdTooLong
+                      ? 'text-sm text-red-700 dark:text-red-400'
+                      : 'text-sm text-muted-foreground'
+                  }
+                >
+                  {smsSenderIdTooLong ? text.smsSenderIdTooLong : text.smsSenderIdHelp}
+                </p>
+              </div>
+            </div>
+
+            <Button size="sm" onClick={handleSave} disabled={isSaving || smsSenderIdTooLong}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isSaving ? text.saving : text.save}
+            </Button>
+
+            {domain && (
+              <div className="space-y-3 rounded-lg border p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm">
+                    {text.domain}: <span className="font-mono">{domain.name}</span>
+                  </p>
+                  <Badge variant={DOMAIN_STATUS_VARIANTS[domain.status]}>
+                    {text.domainStatus[domain.status]}
+                  </Badge>
+                </div>
+
+                {domain.status !== 'verified' && verificationRecord && (
+                  <div className="space-y-1 rounded-md bg-muted p-3 text-sm">
+                    <p>{text.dnsInstructions}</p>
+                    <p>
+                      {text.recordName}:{' '}
+                      <span className="break-all font-mono">{verificationRecord.name}</span>
+                    </p>
+                    <p>
+                      {text.recordValue}:{' '}
+                      <span className="break-all font-mono">{verificationRecord.value}</span>
+                    </p>
+                  </div>
+                )}
+
+                {domain.lastError && (
+                  <p className="text-sm text-red-700 dark:text-red-400">{domain.lastError}</p>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+                    {isVerifying ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                    )}
+                    {isVerifying ? text.verifying : text.verify}
+                  </Button>
+                  {domain.lastCheckedAt && (
+                    <span className="text-sm text-muted-foreground">
+                      {text.lastChecked} {new Date(domain.lastCheckedAt).toLocaleString('da-DK')}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
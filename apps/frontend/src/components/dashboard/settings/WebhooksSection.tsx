@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Badge,
+  Button,
+  Input,
+  Label,
+  Switch,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT, WEBHOOK_EVENT_TYPES } from '@easyrate/shared';
+import type { WebhookDelivery, WebhookEndpoint, WebhookEventType } from '@easyrate/shared';
+import { AlertCircle, ChevronDown, ChevronUp, Loader2, Send, Trash2, Webhook } from 'lucide-react';
+import { useWebhookEndpoints } from '../../../hooks/useWebhookEndpoints';
+
+const text = DASHBOARD_TEXT.settings.webhooks;
+
+const DELIVERY_STATUS_VARIANTS = {
+  pending: 'warning',
+  succeeded: 'success',
+  failed: 'destructive',
+} as const;
+
+interface EndpointRowProps {
+  endpoint: WebhookEndpoint;
+  onToggle: (enabled: boolean) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onTest: () => Promise<WebhookDelivery>;
+  onLoadDeliveries: () => Promise<WebhookDelivery[]>;
+}
+
+function EndpointRow({ endpoint, onToggle, onDelete, onTest, onLoadDeliveries }: EndpointRowProps) {
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<WebhookDelivery | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+
+  const loadDeliveries = async () => {
+    setDeliveries(await onLoadDeliveries());
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult(await onTest());
+      if (deliveries) {
+        await loadDeliveries();
+      }
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleToggleDeliveries = async () => {
+    if (deliveries) {
+      setDeliveries(null);
+    } else {
+      await loadDeliveries();
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 space-y-1">
+          <p className="truncate font-mono text-sm">{endpoint.url}</p>
+          {endpoint.description && (
+            <p className="text-sm text-muted-foreground">{endpoint.description}</p>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {endpoint.events.map((event) => (
+              <Badge key={event} variant="secondary">
+                {text.eventLabels[event]}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <Switch
+          checked={endpoint.enabled}
+          onCheckedChange={(checked) => {
+            void onToggle(checked);
+          }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handleTest} disabled={isTesting}>
+          {isTesting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="mr-2 h-4 w-4" />
+          )}
+          {isTesting ? text.sendingTest : text.sendTest}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleToggleDeliveries}>
+          {deliveries ? (
+            <ChevronUp className="mr-2 h-4 w-4" />
+          ) : (
+            <ChevronDown className="mr-2 h-4 w-4" />
+          )}
+          {text.deliveries}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onDelete}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          {text.delete}
+        </Button>
+        {testResult && (
+          <span
+            className={
+              testResult.status === 'succeeded'
+                ? 'text-sm text-green-700 dark:text-green-400'
+                : 'text-sm text-red-700 dark:text-red-400'
+            }
+          >
+            {testResult.status === 'succeeded' ? text.testSucceeded : text.testFailed}
+            {testResult.lastError && ` (${testResult.lastError})`}
+          </span>
+        )}
+      </div>
+
+      {deliveries && (
+        <div className="space-y-1 border-t pt-3">
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{text.noDeliveries}</p>
+          ) : (
+            deliveries.map((delivery) => (
+              <div key={delivery.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {text.eventLabels[delivery.eventType]}
+                  <span className="ml-2 text-muted-foreground">
+                    {new Date(delivery.createdAt).toLocaleString('da-DK')}
+                  </span>
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="text-muted-foreground">
+                    {delivery.lastError ?? delivery.lastResponseStatus} · {delivery.attempts}{' '}
+                    {text.attempts}
+                  </span>
+                  <Badge variant={DELIVERY_STATUS_VARIANTS[delivery.status]}>
+                    {text.deliveryStatus[delivery.status]}
+                  </Badge>
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WebhooksSection() {
+  const {
+    endpoints,
+    isLoading,
+    error,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    sendTestEvent,
+    fetchDeliveries,
+  } = useWebhookEndpoints();
+
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  const handleToggleEvent = (event: WebhookEventType) => {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setCreateError(null);
+    setNewSecret(null);
+    try {
+      const endpoint = await createEndpoint({
+        url: url.trim(),
+        events,
+        ...(description.trim() && { description: description.trim() }),
+      });
+      setNewSecret(endpoint.secret ?? null);
+      setUrl('');
+      setDescription('');
+      setEvents([]);
+    } catch {
+      setCreateError(text.createError);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          {text.title}
+        </CardTitle>
+        <CardDescription>{text.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(error ?? createError) && (
+          <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-red-800 dark:bg-red-900/20 dark:text-red-200">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            <p className="text-sm">{createError ?? error}</p>
+          </div>
+        )}
+
+        {newSecret && (
+          <div className="space-y-1 rounded-md bg-amber-50 p-3 text-amber-800 dark:bg-amber-900/20 dark:text-amber-200">
+            <p className="text-sm font-medium">{text.secret}</p>
+            <p className="break-all font-mono text-sm">{newSecret}</p>
+            <p className="text-sm">{text.secretHelp}</p>
+          </div>
+        )}
+
+        {/* Existing endpoints */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{text.noEndpoints}</p>
+        ) : (
+          <div className="space-y-3">
+            {endpoints.map((endpoint) => (
+              <EndpointRow
+                key={endpoint.id}
+                endpoint={endpoint}
+                onToggle={(enabled) => updateEndpoint(endpoint.id, { enabled })}
+                onDelete={() => deleteEndpoint(endpoint.id)}
+                onTest={() => sendTestEvent(endpoint.id)}
+                onLoadDeliveries={() => fetchDeliveries(endpoint.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Add endpoint */}
+        <div className="space-y-4 rounded-lg border p-4">
+          <Label className="text-base">{text.addEndpoint}</Label>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">{text.url}</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={url}
+              onChange={(e) => {
+                setUrl(e.target.value);
+              }}
+              placeholder={text.urlPlaceholder}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">{text.descriptionLabel}</Label>
+            <Input
+              id="webhook-description"
+              value={description}
+              onChange={(e) => {
+                setDescription(e.target.value);
+              }}
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{text.events}</Label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {WEBHOOK_EVENT_TYPES.map((event) => (
+                <label key={event} className="flex cursor-pointer items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => {
+                      handleToggleEvent(event);
+                    }}
+                    className="h-4 w-4"
+                  />
+                  {text.eventLabels[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={isCreating || !url.trim() || events.length === 0}
+          >
+            {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isCreating ? text.creating : text.create}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
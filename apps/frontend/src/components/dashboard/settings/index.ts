@@ -4,3 +4,6 @@ export { BrandingSection } from './BrandingSection';
 export { GoogleReviewSection } from './GoogleReviewSection';
 export { AIInsightsSection } from './AIInsightsSection';
 export { GoogleBusinessSection } from './GoogleBusinessSection';
+export { SenderIdentitySection } from './SenderIdentitySection';
+export { WebhooksSection } from './WebhooksSection';
+export { ReportsSection } from './ReportsSection';
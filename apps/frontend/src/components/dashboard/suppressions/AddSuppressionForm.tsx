@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectOption,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { CreateSuppressionInput, NotificationType } from '@easyrate/shared';
+
+interface AddSuppressionFormProps {
+  onAdd: (input: CreateSuppressionInput) => Promise<void>;
+}
+
+export function AddSuppressionForm({ onAdd }: AddSuppressionFormProps) {
+  const text = DASHBOARD_TEXT.suppressions;
+  const [channel, setChannel] = useState<NotificationType>('sms');
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onAdd({ channel, value: value.trim(), ...(note.trim() && { note: note.trim() }) });
+      setValue('');
+      setNote('');
+    } catch {
+      setError(text.addError);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{text.addTitle}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-[140px_1fr_1fr_auto]">
+          <div className="space-y-2">
+            <Label>{text.channel}</Label>
+            <Select
+              value={channel}
+              onChange={(e) => {
+                setChannel(e.target.value as NotificationType);
+              }}
+            >
+              <SelectOption value="sms">{text.channels.sms}</SelectOption>
+              <SelectOption value="email">{text.channels.email}</SelectOption>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{text.value}</Label>
+            <Input
+              type={channel === 'email' ? 'email' : 'tel'}
+              value={value}
+              placeholder={text.valuePlaceholder}
+              onChange={(e) => {
+                setValue(e.target.value);
+              }}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{text.note}</Label>
+            <Input
+              value={note}
+              maxLength={500}
+              onChange={(e) => {
+                setNote(e.target.value);
+              }}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button type="submit" disabled={isSubmitting || !value.trim()}>
+              {isSubmitting ? text.adding : text.add}
+            </Button>
+          </div>
+        </form>
+        {error && <p className="mt-3 text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
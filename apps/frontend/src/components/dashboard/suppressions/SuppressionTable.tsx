@@ -0,0 +1,73 @@
+import { Trash2 } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { Suppression } from '@easyrate/shared';
+
+interface SuppressionTableProps {
+  suppressions: Suppression[];
+  onRemove: (id: string) => void;
+}
+
+export function SuppressionTable({ suppressions, onRemove }: SuppressionTableProps) {
+  const text = DASHBOARD_TEXT.suppressions;
+
+  if (suppressions.length === 0) {
+    return <p className="py-12 text-center text-sm text-muted-foreground">{text.empty}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{text.columns.channel}</TableHead>
+          <TableHead>{text.columns.value}</TableHead>
+          <TableHead>{text.columns.reason}</TableHead>
+          <TableHead>{text.columns.createdAt}</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {suppressions.map((suppression) => (
+          <TableRow key={suppression.id}>
+            <TableCell>
+              <Badge variant="secondary">{text.channels[suppression.channel]}</Badge>
+            </TableCell>
+            <TableCell>
+              <p className="font-medium">{suppression.value}</p>
+              {suppression.note && (
+                <p className="text-xs text-muted-foreground">{suppression.note}</p>
+              )}
+            </TableCell>
+            <TableCell className="text-muted-foreground">
+              {text.reasons[suppression.reason]}
+            </TableCell>
+            <TableCell className="text-muted-foreground">
+              {new Date(suppression.createdAt).toLocaleDateString('da-DK')}
+            </TableCell>
+            <TableCell className="text-right">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  onRemove(suppression.id);
+                }}
+                aria-label={text.remove}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,2 @@
+export { AddSuppressionForm } from './AddSuppressionForm';
+export { SuppressionTable } from './SuppressionTable';
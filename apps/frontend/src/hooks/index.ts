@@ -10,4 +10,14 @@ export { useIntegrations } from './useIntegrations';
 export { useBusinessSettings } from './useBusinessSettings';
 export { useFlowSettings } from './useFlowSettings';
 export { useInsights } from './useInsights';
+export { useInsightTrends } from './useInsightTrends';
 export { useTestOrder } from './useTestOrder';
+export { useSuppressions } from './useSuppressions';
+export { useWebhookEndpoints } from './useWebhookEndpoints';
+export { useSenderIdentity } from './useSenderIdentity';
+export { useEmailPreview } from './useEmailPreview';
+export { useAlertHistory } from './useAlertHistory';
+export { useReportHistory } from './useReportHistory';
+export { useCustomerImports } from './useCustomerImports';
+export { useFilteredOrders } from './useFilteredOrders';
+export { useOrderQueue, useOrderQueueItem } from './useOrderQueue';
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FeedbackAlert, PaginatedResponse } from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+interface UseAlertHistoryResult {
+  alerts: FeedbackAlert[];
+  total: number;
+  page: number;
+  totalPages: number;
+  isLoading: boolean;
+  error: string | null;
+  setPage: (page: number) => void;
+  refetch: () => Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+export function useAlertHistory(): UseAlertHistoryResult {
+  const { token } = useAuth();
+  const [alerts, setAlerts] = useState<FeedbackAlert[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      params.set('page', String(page));
+      params.set('limit', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/v1/alerts?${params.toString()}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch alerts');
+      }
+
+      const data = (await response.json()) as PaginatedResponse<FeedbackAlert>;
+      setAlerts(data.data);
+      setTotal(data.pagination.total);
+      setTotalPages(Math.max(data.pagination.totalPages, 1));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, page]);
+
+  useEffect(() => {
+    void fetchAlerts();
+  }, [fetchAlerts]);
+
+  return {
+    alerts,
+    total,
+    page,
+    totalPages,
+    isLoading,
+    error,
+    setPage,
+    refetch: fetchAlerts,
+  };
+}
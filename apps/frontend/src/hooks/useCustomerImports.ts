@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  ApiResponse,
+  CustomerImport,
+  CustomerImportListItem,
+  PaginatedResponse,
+} from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+interface UseCustomerImportsResult {
+  imports: CustomerImportListItem[];
+  current: CustomerImport | null;
+  isLoading: boolean;
+  error: string | null;
+  upload: (file: File) => Promise<void>;
+  select: (id: string) => Promise<void>;
+  schedule: (id: string, sendsPerHour: number) => Promise<void>;
+  cancel: (id: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export function useCustomerImports(): UseCustomerImportsResult {
+  const { token } = useAuth();
+  const [imports, setImports] = useState<CustomerImportListItem[]>([]);
+  const [current, setCurrent] = useState<CustomerImport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchImports = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/imports?limit=10', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch imports');
+      }
+
+      const data = (await response.json()) as PaginatedResponse<CustomerImportListItem>;
+      setImports(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    void fetchImports();
+  }, [fetchImports]);
+
+  /**
+   * Send a request that returns an import and make it the current one
+   */
+  const loadImport = useCallback(
+    async (
+      url: string,
+      init: { method?: string; headers?: Record<string, string>; body?: BodyInit } = {}
+    ) => {
+      if (!token) return;
+
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...init.headers,
+        },
+      });
+
+      const data = (await response.json()) as ApiResponse<CustomerImport>;
+      if (!response.ok || !data.data) {
+        throw new Error(data.error?.message ?? 'Request failed');
+      }
+
+      setCurrent(data.data);
+    },
+    [token]
+  );
+
+  const upload = useCallback(
+    async (file: File) => {
+      await loadImport(`/api/v1/imports?fileName=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+      await fetchImports();
+    },
+    [loadImport, fetchImports]
+  );
+
+  const select = useCallback(
+    async (id: string) => {
+      await loadImport(`/api/v1/imports/${id}`);
+    },
+    [loadImport]
+  );
+
+  const schedule = useCallback(
+    async (id: string, sendsPerHour: number) => {
+      await loadImport(`/api/v1/imports/${id}/schedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sendsPerHour }),
+      });
+      await fetchImports();
+    },
+    [loadImport, fetchImports]
+  );
+
+  const cancel = useCallback(
+    async (id: string) => {
+      await loadImport(`/api/v1/imports/${id}/cancel`, { method: 'POST' });
+      await fetchImports();
+    },
+    [loadImport, fetchImports]
+  );
+
+  return {
+    imports,
+    current,
+    isLoading,
+    error,
+    upload,
+    select,
+    schedule,
+    cancel,
+    refetch: fetchImports,
+  };
+}
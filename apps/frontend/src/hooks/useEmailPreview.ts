@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import type { ApiResponse } from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface UseEmailPreviewResult {
+  preview: EmailPreview | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Wait for a pause in typing before rendering the preview
+const PREVIEW_DEBOUNCE_MS = 400;
+
+/**
+ * Review request email rendered by the backend with the business' branding,
+ * exactly as it is sent. Re-renders as the template is edited.
+ */
+export function useEmailPreview(template: string, enabled = true): UseEmailPreviewResult {
+  const { token } = useAuth();
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token || !enabled) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsLoading(true);
+      setError(null);
+
+      fetch('/api/v1/businesses/me/email-preview', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ template }),
+        signal: controller.signal,
+      })
+        .then(async (response) => {
+          const data = (await response.json()) as ApiResponse<EmailPreview>;
+          if (!response.ok || !data.data) {
+            throw new Error(data.error?.message ?? 'Email preview failed');
+          }
+          setPreview(data.data);
+          setIsLoading(false);
+        })
+        .catch((err: unknown) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          setError(err instanceof Error ? err.message : 'An error occurred');
+          setIsLoading(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [token, template, enabled]);
+
+  return { preview, isLoading, error };
+}
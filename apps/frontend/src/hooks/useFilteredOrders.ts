@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiResponse, FilterRuleResult } from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface FilteredOrder {
+  id: string;
+  orderId: string;
+  createdAt: string;
+  skipTrace?: FilterRuleResult[];
+}
+
+interface UseFilteredOrdersResult {
+  orders: FilteredOrder[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Recent orders an integration's filter rules excluded, with the rule trace
+ */
+export function useFilteredOrders(platform: string): UseFilteredOrdersResult {
+  const { token } = useAuth();
+  const [orders, setOrders] = useState<FilteredOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/v1/businesses/me/integrations/${platform}/filtered-orders`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch filtered orders');
+      }
+
+      const data = (await response.json()) as ApiResponse<{ orders: FilteredOrder[] }>;
+      setOrders(data.data?.orders ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, platform]);
+
+  useEffect(() => {
+    void fetchOrders();
+  }, [fetchOrders]);
+
+  return { orders, isLoading, error, refetch: fetchOrders };
+}
@@ -1,6 +1,18 @@
 import { useCallback, useState, useEffect, useRef } from 'react';
-import { DASHBOARD_TEXT, SMS_TEMPLATES, EMAIL_TEMPLATES } from '@easyrate/shared';
-import type { Business } from '@easyrate/shared';
+import {
+  DASHBOARD_TEXT,
+  SMS_TEMPLATES,
+  EMAIL_TEMPLATES,
+  DEFAULT_REMINDER_SETTINGS,
+  DEFAULT_SEND_WINDOW,
+  DEFAULT_CONTACT_FREQUENCY,
+} from '@easyrate/shared';
+import type {
+  Business,
+  ContactFrequencySettings,
+  ReminderSettings,
+  SendWindowSettings,
+} from '@easyrate/shared';
 import { useBusinessSettings } from './useBusinessSettings';
 
 interface ChannelSettings {
@@ -18,6 +30,9 @@ interface UseFlowSettingsResult {
   business: Business | null;
   channelSettings: ChannelSettings;
   templateSettings: TemplateSettings;
+  reminderSettings: ReminderSettings;
+  sendWindow: SendWindowSettings;
+  contactFrequency: ContactFrequencySettings;
   isLoading: boolean;
   isSaving: boolean;
   error: string | null;
@@ -25,6 +40,9 @@ interface UseFlowSettingsResult {
   toggleChannel: (channel: 'sms' | 'email', enabled: boolean) => void;
   updateTemplate: (channel: 'sms' | 'email', value: string) => void;
   updateDelay: (value: number) => void;
+  updateReminders: (value: ReminderSettings) => void;
+  updateSendWindow: (value: SendWindowSettings) => void;
+  updateContactFrequency: (value: ContactFrequencySettings) => void;
   clearValidationError: () => void;
 }
 
@@ -48,6 +66,20 @@ export function useFlowSettings(): UseFlowSettingsResult {
     delayMinutes: 60,
   });
 
+  // Local state for the follow-up reminder sequence
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>({
+    ...DEFAULT_REMINDER_SETTINGS,
+    steps: [],
+  });
+
+  // Local state for quiet hours / send window
+  const [sendWindow, setSendWindow] = useState<SendWindowSettings>({ ...DEFAULT_SEND_WINDOW });
+
+  // Local state for per-customer contact frequency capping
+  const [contactFrequency, setContactFrequency] = useState<ContactFrequencySettings>({
+    ...DEFAULT_CONTACT_FREQUENCY,
+  });
+
   // Track if we're in the middle of a save to prevent useEffect from overwriting
   const isSavingRef = useRef(false);
 
@@ -71,6 +103,17 @@ export function useFlowSettings(): UseFlowSettingsResult {
         emailTemplate: business.messageTemplates?.email || EMAIL_TEMPLATES.reviewRequest.body,
         delayMinutes: business.settings.defaultDelayMinutes || 60,
       });
+
+      // Sync reminder settings
+      setReminderSettings(
+        business.settings.reminders ?? { ...DEFAULT_REMINDER_SETTINGS, steps: [] }
+      );
+
+      // Sync send window
+      setSendWindow(business.settings.sendWindow ?? { ...DEFAULT_SEND_WINDOW });
+
+      // Sync contact frequency
+      setContactFrequency(business.settings.contactFrequency ?? { ...DEFAULT_CONTACT_FREQUENCY });
     }
   }, [business?.settings, business?.messageTemplates, isLoading]);
 
@@ -192,10 +235,96 @@ export function useFlowSettings(): UseFlowSettingsResult {
     [templateSettings, updateSettings]
   );
 
+  const updateReminders = useCallback(
+    async (value: ReminderSettings) => {
+      // Store previous state for potential revert
+      const previousSettings = reminderSettings;
+
+      // Update local state immediately (optimistic update)
+      setReminderSettings(value);
+
+      // Mark that we're saving
+      isSavingRef.current = true;
+
+      try {
+        // Persist to backend - the whole sequence is replaced
+        await updateSettings({
+          settings: { reminders: value },
+        });
+      } catch (err) {
+        console.error('[FlowSettings] Reminder save failed:', err);
+        // Revert to previous state on failure
+        setReminderSettings(previousSettings);
+        setValidationError('Kunne ikke gemme påmindelser. Prøv igen.');
+      } finally {
+        isSavingRef.current = false;
+      }
+    },
+    [reminderSettings, updateSettings]
+  );
+
+  const updateSendWindow = useCallback(
+    async (value: SendWindowSettings) => {
+      // Store previous state for potential revert
+      const previousSettings = sendWindow;
+
+      // Update local state immediately (optimistic update)
+      setSendWindow(value);
+
+      // Mark that we're saving
+      isSavingRef.current = true;
+
+      try {
+        // Persist to backend - the whole window is replaced
+        await updateSettings({
+          settings: { sendWindow: value },
+        });
+      } catch (err) {
+        console.error('[FlowSettings] Send window save failed:', err);
+        // Revert to previous state on failure
+        setSendWindow(previousSettings);
+        setValidationError('Kunne ikke gemme sendevindue. Prøv igen.');
+      } finally {
+        isSavingRef.current = false;
+      }
+    },
+    [sendWindow, updateSettings]
+  );
+
+  const updateContactFrequency = useCallback(
+    async (value: ContactFrequencySettings) => {
+      // Store previous state for potential revert
+      const previousSettings = contactFrequency;
+
+      // Update local state immediately (optimistic update)
+      setContactFrequency(value);
+
+      // Mark that we're saving
+      isSavingRef.current = true;
+
+      try {
+        await updateSettings({
+          settings: { contactFrequency: value },
+        });
+      } catch (err) {
+        console.error('[FlowSettings] Contact frequency save failed:', err);
+        // Revert to previous state on failure
+        setContactFrequency(previousSettings);
+        setValidationError('Kunne ikke gemme kontaktfrekvens. Prøv igen.');
+      } finally {
+        isSavingRef.current = false;
+      }
+    },
+    [contactFrequency, updateSettings]
+  );
+
   return {
     business,
     channelSettings,
     templateSettings,
+    reminderSettings,
+    sendWindow,
+    contactFrequency,
     isLoading,
     isSaving,
     error,
@@ -203,6 +332,9 @@ export function useFlowSettings(): UseFlowSettingsResult {
     toggleChannel,
     updateTemplate,
     updateDelay,
+    updateReminders,
+    updateSendWindow,
+    updateContactFrequency,
     clearValidationError,
   };
 }
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { InsightTrendsResponse } from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+interface UseInsightTrendsResult {
+  trends: InsightTrendsResponse | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Sentiment and theme trends across insight runs. Refetched when the latest
+ * run changes, so a new analysis shows up compared with the one before it.
+ */
+export function useInsightTrends(latestRunId?: string): UseInsightTrendsResult {
+  const { token } = useAuth();
+  const [trends, setTrends] = useState<InsightTrendsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrends = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/insights/trends', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Kunne ikke hente udvikling');
+      }
+
+      const json = (await response.json()) as { data?: InsightTrendsResponse };
+      setTrends(json.data ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Der opstod en fejl');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    void fetchTrends();
+  }, [fetchTrends, latestRunId]);
+
+  return {
+    trends,
+    isLoading,
+    error,
+    refetch: fetchTrends,
+  };
+}
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  ApiResponse,
+  Notification,
+  OrderPlatform,
+  OrderQueueItem,
+  OrderQueueStats,
+  OrderQueueStatus,
+  PaginatedResponse,
+} from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+interface OrderQueueFilters {
+  status?: OrderQueueStatus | undefined;
+  platform?: OrderPlatform | undefined;
+  search?: string | undefined;
+}
+
+interface UseOrderQueueResult {
+  items: OrderQueueItem[];
+  stats: OrderQueueStats | null;
+  total: number;
+  page: number;
+  totalPages: number;
+  isLoading: boolean;
+  error: string | null;
+  setPage: (page: number) => void;
+  setFilters: (filters: OrderQueueFilters) => void;
+  retry: (id: string) => Promise<void>;
+  retryAllFailed: () => Promise<number>;
+  cancel: (id: string) => Promise<void>;
+  reschedule: (id: string, scheduledFor: Date) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+interface UseOrderQueueItemResult {
+  item: OrderQueueItem | null;
+  notifications: Notification[];
+  isLoading: boolean;
+  refetch: () => Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+/**
+ * Order queue items for the current business, with manual retry, cancel and reschedule
+ */
+export function useOrderQueue(): UseOrderQueueResult {
+  const { token } = useAuth();
+  const [items, setItems] = useState<OrderQueueItem[]>([]);
+  const [stats, setStats] = useState<OrderQueueStats | null>(null);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<OrderQueueFilters>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      params.set('page', String(page));
+      params.set('limit', String(PAGE_SIZE));
+      if (filters.status) {
+        params.set('status', filters.status);
+      }
+      if (filters.platform) {
+        params.set('platform', filters.platform);
+      }
+      if (filters.search) {
+        params.set('search', filters.search);
+      }
+
+      const headers = { Authorization: `Bearer ${token}` };
+      const [listResponse, statsResponse] = await Promise.all([
+        fetch(`/api/v1/order-queue?${params.toString()}`, { headers }),
+        fetch('/api/v1/order-queue/stats', { headers }),
+      ]);
+
+      if (!listResponse.ok || !statsResponse.ok) {
+        throw new Error('Failed to fetch order queue');
+      }
+
+      const list = (await listResponse.json()) as PaginatedResponse<OrderQueueItem>;
+      const statsData = (await statsResponse.json()) as ApiResponse<{ stats: OrderQueueStats }>;
+      setItems(list.data);
+      setTotal(list.pagination.total);
+      setTotalPages(Math.max(list.pagination.totalPages, 1));
+      setStats(statsData.data?.stats ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, page, filters]);
+
+  useEffect(() => {
+    void fetchQueue();
+  }, [fetchQueue]);
+
+  const handleSetFilters = useCallback((newFilters: OrderQueueFilters) => {
+    setFilters(newFilters);
+    setPage(1); // Reset to first page when filters change
+  }, []);
+
+  const post = useCallback(
+    async (path: string, body: unknown = {}): Promise<Response> => {
+      const response = await fetch(`/api/v1/order-queue${path}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token ?? ''}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        throw new Error('Order queue action failed');
+      }
+
+      return response;
+    },
+    [token]
+  );
+
+  const retry = useCallback(
+    async (id: string) => {
+      await post(`/${id}/retry`);
+      await fetchQueue();
+    },
+    [post, fetchQueue]
+  );
+
+  const retryAllFailed = useCallback(async () => {
+    const response = await post('/retry-failed');
+    const data = (await response.json()) as ApiResponse<{ retried: number }>;
+    await fetchQueue();
+    return data.data?.retried ?? 0;
+  }, [post, fetchQueue]);
+
+  const cancel = useCallback(
+    async (id: string) => {
+      await post(`/${id}/cancel`);
+      await fetchQueue();
+    },
+    [post, fetchQueue]
+  );
+
+  const reschedule = useCallback(
+    async (id: string, scheduledFor: Date) => {
+      await post(`/${id}/reschedule`, { scheduledFor: scheduledFor.toISOString() });
+      await fetchQueue();
+    },
+    [post, fetchQueue]
+  );
+
+  return {
+    items,
+    stats,
+    total,
+    page,
+    totalPages,
+    isLoading,
+    error,
+    setPage,
+    setFilters: handleSetFilters,
+    retry,
+    retryAllFailed,
+    cancel,
+    reschedule,
+    refetch: fetchQueue,
+  };
+}
+
+/**
+ * A single queue item with the notifications sent for its order
+ */
+export function useOrderQueueItem(id: string | null): UseOrderQueueItemResult {
+  const { token } = useAuth();
+  const [item, setItem] = useState<OrderQueueItem | null>(null);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchItem = useCallback(async () => {
+    if (!token || !id) {
+      setItem(null);
+      setNotifications([]);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/v1/order-queue/${id}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch queue item');
+      }
+
+      const data = (await response.json()) as ApiResponse<{
+        item: OrderQueueItem;
+        notifications: Notification[];
+      }>;
+      setItem(data.data?.item ?? null);
+      setNotifications(data.data?.notifications ?? []);
+    } catch (err) {
+      console.error('Failed to fetch queue item:', err);
+      setItem(null);
+      setNotifications([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, id]);
+
+  useEffect(() => {
+    void fetchItem();
+  }, [fetchItem]);
+
+  return { item, notifications, isLoading, refetch: fetchItem };
+}
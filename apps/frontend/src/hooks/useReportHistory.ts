@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { PaginatedResponse, PerformanceReport } from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+interface UseReportHistoryResult {
+  reports: PerformanceReport[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+const HISTORY_SIZE = 5;
+
+export function useReportHistory(): UseReportHistoryResult {
+  const { token } = useAuth();
+  const [reports, setReports] = useState<PerformanceReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReports = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/reports?limit=${String(HISTORY_SIZE)}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch reports');
+      }
+
+      const data = (await response.json()) as PaginatedResponse<PerformanceReport>;
+      setReports(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    void fetchReports();
+  }, [fetchReports]);
+
+  return {
+    reports,
+    isLoading,
+    error,
+    refetch: fetchReports,
+  };
+}
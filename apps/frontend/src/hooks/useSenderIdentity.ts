@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiResponse, SenderIdentity, UpdateSenderIdentityInput } from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface DomainVerificationRecord {
+  type: 'TXT';
+  name: string;
+  value: string;
+}
+
+interface SenderIdentityData {
+  senderIdentity: SenderIdentity;
+  verificationRecord: DomainVerificationRecord | null;
+}
+
+interface UseSenderIdentityResult {
+  senderIdentity: SenderIdentity;
+  verificationRecord: DomainVerificationRecord | null;
+  isLoading: boolean;
+  error: string | null;
+  updateSenderIdentity: (input: UpdateSenderIdentityInput) => Promise<void>;
+  verifyDomain: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export function useSenderIdentity(): UseSenderIdentityResult {
+  const { token } = useAuth();
+  const [data, setData] = useState<SenderIdentityData>({
+    senderIdentity: {},
+    verificationRecord: null,
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(
+    async (path: string, init: RequestInit = {}): Promise<SenderIdentityData> => {
+      const response = await fetch(`/api/v1/businesses/me/sender-identity${path}`, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${token ?? ''}`,
+          ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        },
+      });
+
+      const body = (await response.json()) as ApiResponse<SenderIdentityData>;
+      if (!response.ok || !body.data) {
+        throw new Error(body.error?.message ?? 'Sender identity request failed');
+      }
+
+      return body.data;
+    },
+    [token]
+  );
+
+  const fetchSenderIdentity = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setData(await request(''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, request]);
+
+  useEffect(() => {
+    void fetchSenderIdentity();
+  }, [fetchSenderIdentity]);
+
+  const updateSenderIdentity = useCallback(
+    async (input: UpdateSenderIdentityInput) => {
+      setData(await request('', { method: 'PATCH', body: JSON.stringify(input) }));
+    },
+    [request]
+  );
+
+  const verifyDomain = useCallback(async () => {
+    setData(await request('/verify-domain', { method: 'POST' }));
+  }, [request]);
+
+  return {
+    senderIdentity: data.senderIdentity,
+    verificationRecord: data.verificationRecord,
+    isLoading,
+    error,
+    updateSenderIdentity,
+    verifyDomain,
+    refetch: fetchSenderIdentity,
+  };
+}
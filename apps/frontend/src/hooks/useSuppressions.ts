@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  CreateSuppressionInput,
+  NotificationType,
+  PaginatedResponse,
+  Suppression,
+} from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+interface SuppressionFilters {
+  channel?: NotificationType | undefined;
+  search?: string | undefined;
+}
+
+interface UseSuppressionsResult {
+  suppressions: Suppression[];
+  total: number;
+  page: number;
+  totalPages: number;
+  isLoading: boolean;
+  error: string | null;
+  setPage: (page: number) => void;
+  setFilters: (filters: SuppressionFilters) => void;
+  addSuppression: (input: CreateSuppressionInput) => Promise<void>;
+  removeSuppression: (id: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+export function useSuppressions(): UseSuppressionsResult {
+  const { token } = useAuth();
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<SuppressionFilters>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSuppressions = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      params.set('page', String(page));
+      params.set('limit', String(PAGE_SIZE));
+      if (filters.channel) {
+        params.set('channel', filters.channel);
+      }
+      if (filters.search) {
+        params.set('search', filters.search);
+      }
+
+      const response = await fetch(`/api/v1/suppressions?${params.toString()}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch suppressions');
+      }
+
+      const data = (await response.json()) as PaginatedResponse<Suppression>;
+      setSuppressions(data.data);
+      setTotal(data.pagination.total);
+      setTotalPages(Math.max(data.pagination.totalPages, 1));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, page, filters]);
+
+  useEffect(() => {
+    void fetchSuppressions();
+  }, [fetchSuppressions]);
+
+  const handleSetFilters = useCallback((newFilters: SuppressionFilters) => {
+    setFilters(newFilters);
+    setPage(1); // Reset to first page when filters change
+  }, []);
+
+  const addSuppression = useCallback(
+    async (input: CreateSuppressionInput) => {
+      if (!token) return;
+
+      const response = await fetch('/api/v1/suppressions', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to add suppression');
+      }
+
+      await fetchSuppressions();
+    },
+    [token, fetchSuppressions]
+  );
+
+  const removeSuppression = useCallback(
+    async (id: string) => {
+      if (!token) return;
+
+      const response = await fetch(`/api/v1/suppressions/${id}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to remove suppression');
+      }
+
+      await fetchSuppressions();
+    },
+    [token, fetchSuppressions]
+  );
+
+  return {
+    suppressions,
+    total,
+    page,
+    totalPages,
+    isLoading,
+    error,
+    setPage,
+    setFilters: handleSetFilters,
+    addSuppression,
+    removeSuppression,
+    refetch: fetchSuppressions,
+  };
+}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  ApiResponse,
+  CreateWebhookEndpointInput,
+  PaginatedResponse,
+  UpdateWebhookEndpointInput,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '@easyrate/shared';
+import { useAuth } from '../contexts/AuthContext';
+
+interface UseWebhookEndpointsResult {
+  endpoints: WebhookEndpoint[];
+  isLoading: boolean;
+  error: string | null;
+  createEndpoint: (input: CreateWebhookEndpointInput) => Promise<WebhookEndpoint>;
+  updateEndpoint: (id: string, input: UpdateWebhookEndpointInput) => Promise<void>;
+  deleteEndpoint: (id: string) => Promise<void>;
+  sendTestEvent: (id: string) => Promise<WebhookDelivery>;
+  fetchDeliveries: (id: string) => Promise<WebhookDelivery[]>;
+  refetch: () => Promise<void>;
+}
+
+const DELIVERY_LOG_SIZE = 10;
+
+export function useWebhookEndpoints(): UseWebhookEndpointsResult {
+  const { token } = useAuth();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(
+    async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+      const response = await fetch(`/api/v1/webhook-endpoints${path}`, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${token ?? ''}`,
+          ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Webhook request failed');
+      }
+
+      return (await response.json()) as T;
+    },
+    [token]
+  );
+
+  const fetchEndpoints = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await request<ApiResponse<WebhookEndpoint[]>>('');
+      setEndpoints(data.data ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, request]);
+
+  useEffect(() => {
+    void fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  const createEndpoint = useCallback(
+    async (input: CreateWebhookEndpointInput) => {
+      const data = await request<ApiResponse<WebhookEndpoint>>('', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      });
+      await fetchEndpoints();
+      if (!data.data) {
+        throw new Error('Webhook request failed');
+      }
+      return data.data;
+    },
+    [request, fetchEndpoints]
+  );
+
+  const updateEndpoint = useCallback(
+    async (id: string, input: UpdateWebhookEndpointInput) => {
+      await request(`/${id}`, { method: 'PATCH', body: JSON.stringify(input) });
+      await fetchEndpoints();
+    },
+    [request, fetchEndpoints]
+  );
+
+  const deleteEndpoint = useCallback(
+    async (id: string) => {
+      await request(`/${id}`, { method: 'DELETE' });
+      await fetchEndpoints();
+    },
+    [request, fetchEndpoints]
+  );
+
+  const sendTestEvent = useCallback(
+    async (id: string) => {
+      const data = await request<ApiResponse<WebhookDelivery>>(`/${id}/test`, { method: 'POST' });
+      if (!data.data) {
+        throw new Error('Webhook request failed');
+      }
+      return data.data;
+    },
+    [request]
+  );
+
+  const fetchDeliveries = useCallback(
+    async (id: string) => {
+      const data = await request<PaginatedResponse<WebhookDelivery>>(
+        `/${id}/deliveries?limit=${String(DELIVERY_LOG_SIZE)}`
+      );
+      return data.data;
+    },
+    [request]
+  );
+
+  return {
+    endpoints,
+    isLoading,
+    error,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    sendTestEvent,
+    fetchDeliveries,
+    refetch: fetchEndpoints,
+  };
+}
@@ -20,6 +20,7 @@ import type {
   GdprExportResponse,
   GdprDeletionResponse,
   RetentionPolicyResponse,
+  UnsubscribePageResponse,
 } from '@easyrate/shared';
 
 const API_BASE = '/api/v1';
@@ -99,6 +100,18 @@ class ApiClient {
     });
   }
 
+  // ============ Unsubscribe ============
+
+  async getUnsubscribeData(token: string): Promise<UnsubscribePageResponse> {
+    return this.request<UnsubscribePageResponse>(`/unsubscribe/${token}`);
+  }
+
+  async unsubscribe(token: string): Promise<UnsubscribePageResponse> {
+    return this.request<UnsubscribePageResponse>(`/unsubscribe/${token}`, {
+      method: 'POST',
+    });
+  }
+
   // ============ Auth ============
 
   async login(input: LoginInput): Promise<AuthResponse> {
@@ -0,0 +1,98 @@
+import { Button, Card, CardContent, CardHeader, CardTitle, Spinner } from '@easyrate/ui';
+import { DASHBOARD_TEXT, DEFAULT_ALERT_SETTINGS } from '@easyrate/shared';
+import type { AlertSettings } from '@easyrate/shared';
+import { Header } from '../../components/dashboard/layout';
+import { AlertHistoryTable, AlertSettingsForm } from '../../components/dashboard/alerts';
+import { useAlertHistory, useBusinessSettings } from '../../hooks';
+
+const DEFAULT_SETTINGS: AlertSettings = {
+  ...DEFAULT_ALERT_SETTINGS,
+  keywords: [],
+  ownerChannels: [...DEFAULT_ALERT_SETTINGS.ownerChannels],
+  recipients: [],
+};
+
+export function AlertsPage() {
+  const text = DASHBOARD_TEXT.alerts;
+  const {
+    business,
+    isLoading: isLoadingSettings,
+    isSaving,
+    updateSettings,
+  } = useBusinessSettings();
+  const { alerts, total, page, totalPages, isLoading, error, setPage } = useAlertHistory();
+
+  const handleSave = async (alertSettings: AlertSettings) => {
+    await updateSettings({ settings: { alerts: alertSettings } });
+  };
+
+  return (
+    <div className="flex flex-col">
+      <Header title={text.title} />
+
+      <div className="space-y-6 p-6">
+        <p className="text-muted-foreground">{text.subtitle}</p>
+
+        {isLoadingSettings ? (
+          <div className="flex justify-center py-12">
+            <Spinner />
+          </div>
+        ) : (
+          <AlertSettingsForm
+            settings={business?.settings.alerts ?? DEFAULT_SETTINGS}
+            isSaving={isSaving}
+            onSave={handleSave}
+          />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{text.historyTitle}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && <p className="text-sm text-destructive">{DASHBOARD_TEXT.common.error}</p>}
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Spinner />
+              </div>
+            ) : (
+              <AlertHistoryTable alerts={alerts} />
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-sm text-muted-foreground">
+                  {page} / {totalPages} ({total})
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setPage(page - 1);
+                    }}
+                    disabled={page <= 1}
+                  >
+                    {DASHBOARD_TEXT.common.back}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setPage(page + 1);
+                    }}
+                    disabled={page >= totalPages}
+                  >
+                    {DASHBOARD_TEXT.common.next}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
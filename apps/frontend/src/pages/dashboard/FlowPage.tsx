@@ -49,11 +49,17 @@ function FlowPageContent() {
     business,
     channelSettings,
     templateSettings,
+    reminderSettings,
+    sendWindow,
+    contactFrequency,
     isLoading,
     validationError,
     toggleChannel,
     updateTemplate,
     updateDelay,
+    updateReminders,
+    updateSendWindow,
+    updateContactFrequency,
     clearValidationError,
   } = useFlowSettings();
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
@@ -94,6 +100,7 @@ function FlowPageContent() {
           <FlowCanvas
             smsEnabled={channelSettings.smsEnabled}
             emailEnabled={channelSettings.emailEnabled}
+            reminderSettings={reminderSettings}
             onToggleChannel={toggleChannel}
             onNodeSelect={setSelectedNodeId}
             selectedNodeId={selectedNodeId}
@@ -110,9 +117,15 @@ function FlowPageContent() {
             smsTemplate={templateSettings.smsTemplate}
             emailTemplate={templateSettings.emailTemplate}
             delayMinutes={templateSettings.delayMinutes}
+            reminderSettings={reminderSettings}
+            sendWindow={sendWindow}
+            contactFrequency={contactFrequency}
             onSmsTemplateChange={(value) => updateTemplate('sms', value)}
             onEmailTemplateChange={(value) => updateTemplate('email', value)}
             onDelayChange={updateDelay}
+            onRemindersChange={updateReminders}
+            onSendWindowChange={updateSendWindow}
+            onContactFrequencyChange={updateContactFrequency}
             onToggleChannel={toggleChannel}
           />
         </div>
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, Spinner } from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import { Header } from '../../components/dashboard/layout';
+import {
+  ImportHistoryTable,
+  ImportPreview,
+  ImportUploadCard,
+} from '../../components/dashboard/imports';
+import { useCustomerImports } from '../../hooks';
+
+export function ImportsPage() {
+  const text = DASHBOARD_TEXT.imports;
+  const [selectError, setSelectError] = useState<string | null>(null);
+  const { imports, current, isLoading, error, upload, select, schedule, cancel } =
+    useCustomerImports();
+
+  const handleSelect = (id: string) => {
+    setSelectError(null);
+    select(id).catch(() => {
+      setSelectError(DASHBOARD_TEXT.common.error);
+    });
+  };
+
+  return (
+    <div className="flex flex-col">
+      <Header title={text.title} />
+
+      <div className="space-y-6 p-6">
+        <p className="text-muted-foreground">{text.subtitle}</p>
+
+        <ImportUploadCard onUpload={upload} />
+
+        {current && (
+          <ImportPreview
+            key={current.id}
+            customerImport={current}
+            onSchedule={schedule}
+            onCancel={cancel}
+          />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{text.historyTitle}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {(error ?? selectError) && (
+              <p className="text-sm text-destructive">
+                {selectError ?? DASHBOARD_TEXT.common.error}
+              </p>
+            )}
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Spinner />
+              </div>
+            ) : (
+              <ImportHistoryTable imports={imports} onSelect={handleSelect} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
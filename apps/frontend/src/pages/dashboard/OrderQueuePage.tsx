@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button, Card, CardContent, Input, Select, SelectOption, Spinner } from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { OrderPlatform, OrderQueueStatus } from '@easyrate/shared';
+import { Header } from '../../components/dashboard/layout';
+import { OrderQueueDetails, OrderQueueTable } from '../../components/dashboard/queue';
+import { useOrderQueue, useOrderQueueItem } from '../../hooks';
+
+const STATUSES: OrderQueueStatus[] = [
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+  'dead_letter',
+  'cancelled',
+  'skipped',
+];
+
+const PLATFORMS: OrderPlatform[] = ['dully', 'easytable', 'api', 'import', 'test'];
+
+export function OrderQueuePage() {
+  const text = DASHBOARD_TEXT.orderQueue;
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<OrderQueueStatus | ''>('');
+  const [platform, setPlatform] = useState<OrderPlatform | ''>('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const {
+    items,
+    stats,
+    total,
+    page,
+    totalPages,
+    isLoading,
+    error,
+    setPage,
+    setFilters,
+    retry,
+    retryAllFailed,
+    cancel,
+    reschedule,
+  } = useOrderQueue();
+  const selected = useOrderQueueItem(selectedId);
+
+  const updateFilters = (
+    nextSearch: string,
+    nextStatus: OrderQueueStatus | '',
+    nextPlatform: OrderPlatform | ''
+  ) => {
+    setFilters({
+      search: nextSearch || undefined,
+      status: nextStatus || undefined,
+      platform: nextPlatform || undefined,
+    });
+  };
+
+  // Run a queue action, then reload the selected item so its details stay current
+  const runAction = (action: Promise<unknown>) => {
+    setActionError(null);
+    setNotice(null);
+    action
+      .then(() => selected.refetch())
+      .catch(() => {
+        setActionError(text.actionError);
+      });
+  };
+
+  const failedCount = stats ? stats.failed + stats.dead_letter : 0;
+
+  const handleRetryAllFailed = () => {
+    runAction(
+      retryAllFailed().then((count) => {
+        setNotice(text.retriedCount.replace('{count}', String(count)));
+      })
+    );
+  };
+
+  return (
+    <div className="flex flex-col">
+      <Header title={text.title} />
+
+      <div className="space-y-6 p-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-muted-foreground">{text.subtitle}</p>
+          {failedCount > 0 && (
+            <Button variant="outline" onClick={handleRetryAllFailed} className="shrink-0">
+              <RotateCcw className="mr-2 h-4 w-4" />
+              {text.retryAllFailed} ({failedCount})
+            </Button>
+          )}
+        </div>
+
+        {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardContent className="space-y-4 pt-6">
+              <div className="flex flex-col gap-3 sm:flex-row">
+                <Input
+                  value={search}
+                  placeholder={text.search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    updateFilters(e.target.value, status, platform);
+                  }}
+                  className="sm:max-w-xs"
+                />
+                <Select
+                  value={status}
+                  onChange={(e) => {
+                    const value = e.target.value as OrderQueueStatus | '';
+                    setStatus(value);
+                    updateFilters(search, value, platform);
+                  }}
+                  className="sm:w-40"
+                >
+                  <SelectOption value="">{text.allStatuses}</SelectOption>
+                  {STATUSES.map((value) => (
+                    <SelectOption key={value} value={value}>
+                      {text.statuses[value]}
+                      {stats ? ` (${String(stats[value])})` : ''}
+                    </SelectOption>
+                  ))}
+                </Select>
+                <Select
+                  value={platform}
+                  onChange={(e) => {
+                    const value = e.target.value as OrderPlatform | '';
+                    setPlatform(value);
+                    updateFilters(search, status, value);
+                  }}
+                  className="sm:w-40"
+                >
+                  <SelectOption value="">{text.allPlatforms}</SelectOption>
+                  {PLATFORMS.map((value) => (
+                    <SelectOption key={value} value={value}>
+                      {text.platforms[value]}
+                    </SelectOption>
+                  ))}
+                </Select>
+              </div>
+
+              {(error ?? actionError) && (
+                <p className="text-sm text-destructive">
+                  {actionError ?? DASHBOARD_TEXT.common.error}
+                </p>
+              )}
+
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Spinner />
+                </div>
+              ) : (
+                <OrderQueueTable
+                  items={items}
+                  selectedId={selectedId}
+                  onSelect={setSelectedId}
+                  onRetry={(id) => {
+                    runAction(retry(id));
+                  }}
+                  onCancel={(id) => {
+                    runAction(cancel(id));
+                  }}
+                />
+              )}
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between pt-2">
+                  <p className="text-sm text-muted-foreground">
+                    {page} / {totalPages} ({total})
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setPage(page - 1);
+                      }}
+                      disabled={page <= 1}
+                    >
+                      {DASHBOARD_TEXT.common.back}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setPage(page + 1);
+                      }}
+                      disabled={page >= totalPages}
+                    >
+                      {DASHBOARD_TEXT.common.next}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <OrderQueueDetails
+            item={selected.item}
+            notifications={selected.notifications}
+            isLoading={selected.isLoading}
+            onRetry={(id) => {
+              runAction(retry(id));
+            }}
+            onCancel={(id) => {
+              runAction(cancel(id));
+            }}
+            onReschedule={(id, scheduledFor) => {
+              runAction(reschedule(id, scheduledFor));
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
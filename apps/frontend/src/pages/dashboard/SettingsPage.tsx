@@ -1,16 +1,26 @@
 import { useState, useEffect } from 'react';
 import { Loader2, Check } from 'lucide-react';
 import { Button, Spinner } from '@easyrate/ui';
-import { DASHBOARD_TEXT, SMS_TEMPLATES, EMAIL_TEMPLATES } from '@easyrate/shared';
-import type { AIProviderType } from '@easyrate/shared';
+import {
+  DASHBOARD_TEXT,
+  SMS_TEMPLATES,
+  EMAIL_TEMPLATES,
+  DEFAULT_REPORT_SETTINGS,
+  DEFAULT_TIMEZONE,
+  DEFAULT_ANALYSIS_LANGUAGE,
+} from '@easyrate/shared';
+import type { AIProviderType, AnalysisLanguage, ReportFrequency } from '@easyrate/shared';
 import { Header } from '../../components/dashboard/layout';
 import {
   ProfileSection,
   MessageTemplatesSection,
   BrandingSection,
+  SenderIdentitySection,
   GoogleReviewSection,
   AIInsightsSection,
   GoogleBusinessSection,
+  WebhooksSection,
+  ReportsSection,
 } from '../../components/dashboard/settings';
 import { useBusinessSettings, useInsights } from '../../hooks';
 import { isGoogleConfigured } from '../../utils/config';
@@ -25,6 +35,7 @@ export function SettingsPage() {
   const [email, setEmail] = useState('');
   const [phone, setPhone] = useState('');
   const [address, setAddress] = useState('');
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
   const [smsTemplate, setSmsTemplate] = useState('');
   const [emailTemplate, setEmailTemplate] = useState('');
   const [primaryColor, setPrimaryColor] = useState('#000000');
@@ -35,6 +46,15 @@ export function SettingsPage() {
   const [aiEnabled, setAiEnabled] = useState(false);
   const [aiAutoRefresh, setAiAutoRefresh] = useState(true);
   const [aiProvider, setAiProvider] = useState<AIProviderType>('grok');
+  const [aiLanguage, setAiLanguage] = useState<AnalysisLanguage>(DEFAULT_ANALYSIS_LANGUAGE);
+  const [aiIncludeExternalReviews, setAiIncludeExternalReviews] = useState(true);
+
+  // Performance report state
+  const [reportsEnabled, setReportsEnabled] = useState(false);
+  const [reportFrequency, setReportFrequency] = useState<ReportFrequency>(
+    DEFAULT_REPORT_SETTINGS.frequency
+  );
+  const [reportRecipients, setReportRecipients] = useState('');
 
   // Initialize form state from business data
   useEffect(() => {
@@ -43,6 +63,8 @@ export function SettingsPage() {
       setEmail(business.email || '');
       setPhone(business.phone || '');
       setAddress(business.address || '');
+      // Older businesses only have the time zone on their send window
+      setTimezone(business.timezone ?? business.settings.sendWindow?.timezone ?? DEFAULT_TIMEZONE);
       setSmsTemplate(business.messageTemplates?.sms || SMS_TEMPLATES.reviewRequest);
       setEmailTemplate(business.messageTemplates?.email || EMAIL_TEMPLATES.reviewRequest.body);
       setPrimaryColor(business.branding?.primaryColor || '#000000');
@@ -52,6 +74,14 @@ export function SettingsPage() {
       setAiEnabled(business.settings?.aiSettings?.enabled || false);
       setAiAutoRefresh(business.settings?.aiSettings?.autoRefresh ?? true);
       setAiProvider(business.settings?.aiSettings?.provider || 'grok');
+      setAiLanguage(business.settings.aiSettings?.language ?? DEFAULT_ANALYSIS_LANGUAGE);
+      setAiIncludeExternalReviews(business.settings.aiSettings?.includeExternalReviews ?? true);
+      // Performance reports
+      setReportsEnabled(business.settings?.reports?.enabled ?? false);
+      setReportFrequency(
+        business.settings?.reports?.frequency ?? DEFAULT_REPORT_SETTINGS.frequency
+      );
+      setReportRecipients(business.settings?.reports?.recipients.join(', ') ?? '');
     }
   }, [business]);
 
@@ -62,6 +92,7 @@ export function SettingsPage() {
         email,
         phone,
         address,
+        timezone,
         messageTemplates: {
           sms: smsTemplate,
           email: emailTemplate,
@@ -76,6 +107,16 @@ export function SettingsPage() {
             enabled: aiEnabled,
             autoRefresh: aiAutoRefresh,
             provider: aiProvider,
+            language: aiLanguage,
+            includeExternalReviews: aiIncludeExternalReviews,
+          },
+          reports: {
+            enabled: reportsEnabled,
+            frequency: reportFrequency,
+            recipients: reportRecipients
+              .split(',')
+              .map((recipient) => recipient.trim())
+              .filter((recipient) => recipient.length > 0),
           },
         },
       });
@@ -105,10 +146,12 @@ export function SettingsPage() {
             email={email}
             phone={phone}
             address={address}
+            timezone={timezone}
             onNameChange={setName}
             onEmailChange={setEmail}
             onPhoneChange={setPhone}
             onAddressChange={setAddress}
+            onTimezoneChange={setTimezone}
           />
 
           <MessageTemplatesSection
@@ -125,6 +168,8 @@ export function SettingsPage() {
             onLogoUrlChange={setLogoUrl}
           />
 
+          <SenderIdentitySection />
+
           <GoogleReviewSection
             googleReviewUrl={googleReviewUrl}
             onGoogleReviewUrlChange={setGoogleReviewUrl}
@@ -132,14 +177,29 @@ export function SettingsPage() {
 
           <GoogleBusinessSection isConfigured={isGoogleConfigured()} />
 
+          <WebhooksSection />
+
+          <ReportsSection
+            enabled={reportsEnabled}
+            frequency={reportFrequency}
+            recipients={reportRecipients}
+            onEnabledChange={setReportsEnabled}
+            onFrequencyChange={setReportFrequency}
+            onRecipientsChange={setReportRecipients}
+          />
+
           <AIInsightsSection
             enabled={aiEnabled}
             autoRefresh={aiAutoRefresh}
             provider={aiProvider}
+            language={aiLanguage}
+            includeExternalReviews={aiIncludeExternalReviews}
             isConfigured={insightsStatus?.configured ?? false}
             onEnabledChange={setAiEnabled}
             onAutoRefreshChange={setAiAutoRefresh}
             onProviderChange={setAiProvider}
+            onLanguageChange={setAiLanguage}
+            onIncludeExternalReviewsChange={setAiIncludeExternalReviews}
           />
 
           {/* Save Button */}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Button, Card, CardContent, Input, Select, SelectOption, Spinner } from '@easyrate/ui';
+import { DASHBOARD_TEXT } from '@easyrate/shared';
+import type { NotificationType } from '@easyrate/shared';
+import { Header } from '../../components/dashboard/layout';
+import { AddSuppressionForm, SuppressionTable } from '../../components/dashboard/suppressions';
+import { useSuppressions } from '../../hooks';
+
+export function SuppressionsPage() {
+  const text = DASHBOARD_TEXT.suppressions;
+  const [search, setSearch] = useState('');
+  const [channel, setChannel] = useState<NotificationType | ''>('');
+  const [removeError, setRemoveError] = useState<string | null>(null);
+  const {
+    suppressions,
+    total,
+    page,
+    totalPages,
+    isLoading,
+    error,
+    setPage,
+    setFilters,
+    addSuppression,
+    removeSuppression,
+  } = useSuppressions();
+
+  const updateFilters = (nextSearch: string, nextChannel: NotificationType | '') => {
+    setFilters({ search: nextSearch || undefined, channel: nextChannel || undefined });
+  };
+
+  const handleRemove = (id: string) => {
+    setRemoveError(null);
+    removeSuppression(id).catch(() => {
+      setRemoveError(text.removeError);
+    });
+  };
+
+  return (
+    <div className="flex flex-col">
+      <Header title={text.title} />
+
+      <div className="space-y-6 p-6">
+        <p className="text-muted-foreground">{text.subtitle}</p>
+
+        <AddSuppressionForm onAdd={addSuppression} />
+
+        <Card>
+          <CardContent className="space-y-4 pt-6">
+            <div className="flex flex-col gap-3 sm:flex-row">
+              <Input
+                value={search}
+                placeholder={text.search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  updateFilters(e.target.value, channel);
+                }}
+                className="sm:max-w-xs"
+              />
+              <Select
+                value={channel}
+                onChange={(e) => {
+                  const value = e.target.value as NotificationType | '';
+                  setChannel(value);
+                  updateFilters(search, value);
+                }}
+                className="sm:w-40"
+              >
+                <SelectOption value="">{text.channel}</SelectOption>
+                <SelectOption value="sms">{text.channels.sms}</SelectOption>
+                <SelectOption value="email">{text.channels.email}</SelectOption>
+              </Select>
+            </div>
+
+            {(error ?? removeError) && (
+              <p className="text-sm text-destructive">
+                {removeError ?? DASHBOARD_TEXT.common.error}
+              </p>
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Spinner />
+              </div>
+            ) : (
+              <SuppressionTable suppressions={suppressions} onRemove={handleRemove} />
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-sm text-muted-foreground">
+                  {page} / {totalPages} ({total})
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setPage(page - 1);
+                    }}
+                    disabled={page <= 1}
+                  >
+                    {DASHBOARD_TEXT.common.back}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setPage(page + 1);
+                    }}
+                    disabled={page >= totalPages}
+                  >
+                    {DASHBOARD_TEXT.common.next}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -5,3 +5,7 @@ export { IntegrationDetailPage } from './IntegrationDetailPage';
 export { SettingsPage } from './SettingsPage';
 export { FlowPage } from './FlowPage';
 export { TestPage } from './TestPage';
+export { SuppressionsPage } from './SuppressionsPage';
+export { AlertsPage } from './AlertsPage';
+export { ImportsPage } from './ImportsPage';
+export { OrderQueuePage } from './OrderQueuePage';
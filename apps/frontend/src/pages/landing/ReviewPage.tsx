@@ -13,10 +13,18 @@ import {
 } from '../../components/landing';
 import { api } from '../../lib/api';
 
+const RATINGS: readonly ReviewRating[] = [1, 2, 3, 4, 5];
+
+function parseRating(value: string | null): ReviewRating | null {
+  return RATINGS.find((rating) => String(rating) === value) ?? null;
+}
+
 export function ReviewPage() {
   const { token } = useParams<{ token: string }>();
   const [searchParams] = useSearchParams();
   const isTest = searchParams.get('isTest') === 'true';
+  // Star links in review request emails open the flow with the rating chosen
+  const preselectedRating = parseRating(searchParams.get('rating'));
   const {
     business,
     customer,
@@ -33,8 +41,11 @@ export function ReviewPage() {
   useEffect(() => {
     if (business && state.step === 'loading') {
       reset();
+      if (preselectedRating) {
+        setRating(preselectedRating);
+      }
     }
-  }, [business, state.step, reset]);
+  }, [business, state.step, reset, setRating, preselectedRating]);
 
   // Handle rating selection
   const handleRatingSelect = useCallback(
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { CheckCircle2 } from 'lucide-react';
+import { Button } from '@easyrate/ui';
+import { ERROR_MESSAGES, UNSUBSCRIBE_TEXT } from '@easyrate/shared';
+import type { UnsubscribePageResponse } from '@easyrate/shared';
+import { ErrorScreen, LoadingScreen } from '../../components/landing';
+import { api } from '../../lib/api';
+
+export function UnsubscribePage() {
+  const { token } = useParams<{ token: string }>();
+  const [data, setData] = useState<UnsubscribePageResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    api
+      .getUnsubscribeData(token)
+      .then(setData)
+      .catch(() => {
+        setError(UNSUBSCRIBE_TEXT.invalidLink);
+      });
+  }, [token]);
+
+  const handleConfirm = async () => {
+    if (!token) return;
+
+    setIsSubmitting(true);
+    try {
+      await api.unsubscribe(token);
+      setIsDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : ERROR_MESSAGES.generic);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (error || !token) {
+    return <ErrorScreen error={error ?? UNSUBSCRIBE_TEXT.invalidLink} />;
+  }
+
+  if (!data) {
+    return <LoadingScreen />;
+  }
+
+  if (isDone) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[100dvh] px-6 text-center">
+        <CheckCircle2 className="w-12 h-12 text-primary mb-6" />
+        <h1 className="text-2xl font-bold text-foreground mb-2">{UNSUBSCRIBE_TEXT.successTitle}</h1>
+        <p className="text-muted-foreground max-w-xs">
+          {UNSUBSCRIBE_TEXT.successMessage.replace('{businessName}', data.businessName)}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[100dvh] px-6 text-center">
+      <h1 className="text-2xl font-bold text-foreground mb-2">{UNSUBSCRIBE_TEXT.title}</h1>
+      <p className="text-muted-foreground mb-6 max-w-xs">
+        {UNSUBSCRIBE_TEXT.description
+          .replace('{businessName}', data.businessName)
+          .replace('{email}', data.email)}
+      </p>
+      <Button onClick={handleConfirm} disabled={isSubmitting}>
+        {isSubmitting ? UNSUBSCRIBE_TEXT.confirming : UNSUBSCRIBE_TEXT.confirmButton}
+      </Button>
+    </div>
+  );
+}
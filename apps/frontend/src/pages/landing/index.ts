@@ -1 +1,2 @@
 export { ReviewPage } from './ReviewPage';
+export { UnsubscribePage } from './UnsubscribePage';
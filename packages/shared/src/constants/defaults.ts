@@ -1,9 +1,31 @@
 export const INTEGRATION_DELAYS = {
   dully: 60, // 1 hour after pickup
   easytable: 120, // 2 hours after booking
+  api: 60, // Generic order API, overridable per source
+  import: 0, // Customer imports are spread out by their own throttling
   test: 0, // Immediate for testing
 } as const;
 
+export const EASYTABLE_POLLING = {
+  intervalMinutes: 5,
+  initialLookbackHours: 24, // First poll for a newly connected business
+  maxLookbackHours: 72, // Catch-up after downtime never reaches further back than this
+  runRetentionDays: 30,
+} as const;
+
+export const ORDER_API = {
+  maxBatchSize: 100,
+  idempotencyKeyTtlHours: 24, // Replays with the same Idempotency-Key return the stored response
+} as const;
+
+export const CUSTOMER_IMPORTS = {
+  maxFileSizeMb: 5,
+  maxRows: 5000,
+  defaultSendsPerHour: 60,
+  maxSendsPerHour: 600,
+  maxVisitAgeDays: 365, // Older visits are rejected - the customer will not remember them
+} as const;
+
 export const PAGINATION = {
   defaultLimit: 20,
   maxLimit: 100,
@@ -21,6 +43,68 @@ export const DEFAULT_BUSINESS_SETTINGS = {
   primaryColor: '#3B82F6', // Blue-500
 } as const;
 
+export const DEFAULT_REMINDER_SETTINGS = {
+  enabled: false,
+  steps: [],
+  maxAttempts: 2,
+} as const;
+
+export const REMINDER_LIMITS = {
+  maxSteps: 5,
+  maxAttempts: 6,
+  maxDelayHours: 720, // 30 days
+} as const;
+
+// Used for businesses that have not set Business.timezone
+export const DEFAULT_TIMEZONE = 'Europe/Copenhagen';
+
+// Languages AI insight reports and reply drafts can be written in
+export const ANALYSIS_LANGUAGES = ['da', 'en', 'sv', 'de'] as const;
+
+export const DEFAULT_ANALYSIS_LANGUAGE = 'da';
+
+export const DEFAULT_SEND_WINDOW = {
+  enabled: false,
+  start: '09:00',
+  end: '21:00',
+} as const;
+
+export const DEFAULT_CONTACT_FREQUENCY = {
+  enabled: false,
+  maxRequests: 1,
+  periodDays: 30,
+  skipIfReviewedWithinDays: 90,
+} as const;
+
+export const DEFAULT_ALERT_SETTINGS = {
+  enabled: false,
+  ratingThreshold: 3, // Matches REVIEW_THRESHOLDS.negative
+  keywords: [],
+  googleReviews: true,
+  notifyOwner: true,
+  ownerChannels: ['email'],
+  recipients: [],
+  deliveryMode: 'instant',
+  digestTime: '08:00',
+} as const;
+
+export const FEEDBACK_ALERTS = {
+  excerptLength: 200,
+  googleMaxAgeHours: 48, // Older Google reviews (e.g. a first full sync) never alert
+  maxDigestAttempts: 6, // Failed digest sends, one per processor tick, before the alerts fail
+} as const;
+
+export const DEFAULT_REPORT_SETTINGS = {
+  enabled: false,
+  frequency: 'weekly',
+  recipients: [],
+} as const;
+
+export const PERFORMANCE_REPORTS = {
+  sendHour: 8, // Local time on the first day after the period ends
+  maxSendDelayDays: 3, // Missed reports older than this are skipped, not sent late
+} as const;
+
 export const DEFAULT_BRANDING = {
   primaryColor: '#3B82F6',
 } as const;
@@ -39,3 +123,19 @@ export const FILE_UPLOAD = {
 export const API_VERSIONS = {
   current: 'v1',
 } as const;
+
+// Events businesses can subscribe to ('webhook.test' is only sent on demand)
+export const WEBHOOK_EVENT_TYPES = [
+  'review.created',
+  'review.negative',
+  'review.replied',
+  'external_review.synced',
+  'notification.failed',
+  'insight_run.completed',
+] as const;
+
+export const WEBHOOK_DELIVERY = {
+  timeoutMs: 10 * 1000,
+  retryDelaysMinutes: [1, 5, 30, 120, 360], // Exponential-ish backoff, 6 attempts in total
+  maxEndpointsPerBusiness: 10,
+} as const;
@@ -30,6 +30,13 @@ export const DEFAULT_FLOW: FlowDefinition = {
       toggleable: true,
       settingsKey: 'emailEnabled',
     },
+    {
+      id: 'reminder',
+      type: 'channel',
+      title: 'reminder',
+      description: 'reminder_desc',
+      icon: 'BellRing',
+    },
     {
       id: 'landing',
       type: 'page',
@@ -76,6 +83,9 @@ export const DEFAULT_FLOW: FlowDefinition = {
     { id: 'e7', source: 'branch', target: 'external', label: 'positive' },
     { id: 'e8', source: 'internal', target: 'thankyou' },
     { id: 'e9', source: 'external', target: 'thankyou' },
+    { id: 'e10', source: 'sms', target: 'reminder', label: 'not_clicked' },
+    { id: 'e11', source: 'email', target: 'reminder', label: 'not_clicked' },
+    { id: 'e12', source: 'reminder', target: 'landing' },
   ],
 };
 
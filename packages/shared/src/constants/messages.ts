@@ -3,6 +3,7 @@
 export const SMS_TEMPLATES = {
   reviewRequest: `Hej {{customerName}}! Tak for din ordre hos {{businessName}}. Vi vil meget gerne høre om din oplevelse: {{reviewLink}}`,
   reviewRequestShort: `Tak for besøget hos {{businessName}}! Del din oplevelse: {{reviewLink}}`,
+  reminder: `Hej {{customerName}}! Har du et minut til at fortælle os om dit besøg hos {{businessName}}? {{reviewLink}}`,
 } as const;
 
 export const EMAIL_TEMPLATES = {
@@ -18,6 +19,17 @@ Del din mening her: {{reviewLink}}
 
 Det tager kun et minut, og din feedback hjælper os med at blive bedre.
 
+Med venlig hilsen,
+{{businessName}}`,
+  },
+  reminder: {
+    subject: `Vi mangler stadig din mening, {{customerName}}`,
+    body: `Hej {{customerName}},
+
+For nylig besøgte du {{businessName}}, og vi vil stadig meget gerne høre, hvordan det gik.
+
+Det tager kun et minut: {{reviewLink}}
+
 Med venlig hilsen,
 {{businessName}}`,
   },
@@ -27,6 +39,59 @@ Med venlig hilsen,
   },
 } as const;
 
+// Branded HTML layout around review request emails. The business' template is
+// the body; the star row links to the landing page with the rating preselected.
+export const REVIEW_EMAIL_LAYOUT = {
+  html: `<!DOCTYPE html>
+<html lang="da">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>{{businessName}}</title>
+</head>
+<body style="margin:0;padding:16px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+  <table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;border-collapse:collapse;">
+    <tr><td style="background:{{primaryColor}};padding:20px 24px;color:#ffffff;">
+      {{header}}
+    </td></tr>
+    <tr><td style="padding:24px;font-size:16px;">
+      {{body}}
+      {{ratingRow}}
+    </td></tr>
+    <tr><td style="padding:16px 24px;font-size:12px;line-height:1.5;color:#71717a;">{{footer}}</td></tr>
+  </table>
+</body>
+</html>`,
+  logo: `<img src="{{logoUrl}}" alt="{{businessName}}" style="display:block;max-height:48px;max-width:200px;border:0;">`,
+  title: `<p style="margin:0;font-size:20px;font-weight:bold;">{{businessName}}</p>`,
+  paragraph: `<p style="margin:0 0 16px;line-height:1.5;">{{text}}</p>`,
+  link: `<a href="{{url}}" style="color:{{primaryColor}};word-break:break-all;">{{url}}</a>`,
+  ratingRow: `<table role="presentation" style="margin:24px auto 0;border-collapse:collapse;">
+        <tr><td colspan="5" style="padding-bottom:8px;text-align:center;font-weight:bold;">{{ratingTitle}}</td></tr>
+        <tr>{{stars}}</tr>
+        <tr><td colspan="5" style="padding-top:4px;text-align:center;font-size:12px;color:#71717a;">{{ratingHint}}</td></tr>
+      </table>`,
+  star: `<td style="padding:0 4px;"><a href="{{url}}" title="{{label}}" aria-label="{{label}}" style="font-size:36px;line-height:1;color:{{primaryColor}};text-decoration:none;">&#9733;</a></td>`,
+  text: `{{body}}
+{{ratingRow}}
+--
+{{footer}}`,
+  textRatingRow: `
+{{ratingTitle}}:
+{{stars}}
+`,
+  textStar: `{{label}}: {{url}}`,
+  ratingTitle: 'Bedøm din oplevelse med ét klik',
+  ratingHint: 'Tryk på en stjerne',
+  starLabels: {
+    1: '1 stjerne',
+    2: '2 stjerner',
+    3: '3 stjerner',
+    4: '4 stjerner',
+    5: '5 stjerner',
+  },
+} as const;
+
 export const LANDING_PAGE_TEXT = {
   // Rating screen
   ratingTitle: 'Hvordan var din oplevelse?',
@@ -107,6 +172,128 @@ export const PHOTO_UPLOAD_TEXT = {
   maxPhotosReached: 'Maksimalt antal billeder nået',
 } as const;
 
+export const UNSUBSCRIBE_TEXT = {
+  // Appended to every review request email
+  emailFooter: `Ønsker du ikke at modtage flere beskeder fra {{businessName}}? Afmeld her: {{unsubscribeLink}}`,
+  // Landing page
+  title: 'Afmeld beskeder',
+  description: 'Du modtager ikke flere anmeldelsesforespørgsler fra {businessName} på {email}.',
+  confirmButton: 'Afmeld',
+  confirming: 'Afmelder...',
+  successTitle: 'Du er afmeldt',
+  successMessage: 'Du modtager ikke flere beskeder fra {businessName}.',
+  invalidLink: 'Linket er ugyldigt eller udløbet.',
+} as const;
+
+// Owner/staff alerts on negative feedback. {{reviewLink}} points to the dashboard.
+export const ALERT_TEMPLATES = {
+  sms: `EasyRate: {{rating}}/5 fra {{customerName}} ({{source}}) hos {{businessName}}. "{{excerpt}}" {{reviewLink}}`,
+  email: {
+    subject: `Negativ anmeldelse ({{rating}}/5) hos {{businessName}}`,
+    body: `Hej,
+
+{{businessName}} har modtaget en anmeldelse, der kræver opmærksomhed.
+
+Kilde: {{source}}
+Bedømmelse: {{rating}}/5
+Kunde: {{customerName}}
+Årsag: {{reasons}}
+
+"{{excerpt}}"
+
+Se anmeldelsen: {{reviewLink}}
+
+Med venlig hilsen,
+EasyRate`,
+  },
+  digest: {
+    subject: `Daglig oversigt: {{count}} anmeldelsesalarmer hos {{businessName}}`,
+    body: `Hej,
+
+Siden sidste oversigt har {{businessName}} modtaget {{count}} anmeldelser, der kræver opmærksomhed:
+
+{{items}}
+
+Se alle anmeldelser: {{reviewLink}}
+
+Med venlig hilsen,
+EasyRate`,
+    item: `- {{rating}}/5 ({{source}}) fra {{customerName}}: "{{excerpt}}"`,
+    sms: `EasyRate: {{count}} nye anmeldelsesalarmer hos {{businessName}} siden sidste oversigt. {{reviewLink}}`,
+  },
+  sources: {
+    review: 'EasyRate',
+    google_review: 'Google',
+  },
+  triggers: {
+    rating: 'Lav bedømmelse',
+    keyword: 'Nøgleord',
+    google_review: 'Negativ Google anmeldelse',
+  },
+  anonymousCustomer: 'Anonym kunde',
+  noText: '(ingen tekst)',
+} as const;
+
+export const REPORT_TEMPLATES = {
+  subject: `{{periodTitle}} for {{businessName}}: {{periodLabel}}`,
+  periodTitles: {
+    weekly: 'Ugerapport',
+    monthly: 'Månedsrapport',
+  },
+  html: `<!DOCTYPE html>
+<html lang="da">
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+  <table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;border-collapse:collapse;">
+    <tr><td style="background:{{primaryColor}};padding:24px;color:#ffffff;">
+      {{logo}}
+      <h1 style="margin:0;font-size:22px;">{{periodTitle}} for {{businessName}}</h1>
+      <p style="margin:4px 0 0;font-size:14px;">{{periodLabel}}</p>
+    </td></tr>
+    <tr><td style="padding:24px;">
+      <table role="presentation" width="100%" style="border-collapse:collapse;font-size:14px;">
+        {{rows}}
+      </table>
+      {{insight}}
+      <p style="margin:24px 0 0;"><a href="{{reviewLink}}" style="display:inline-block;background:{{primaryColor}};color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none;">Se dashboardet</a></p>
+    </td></tr>
+    <tr><td style="padding:16px 24px;font-size:12px;color:#71717a;">Du modtager denne rapport, fordi den er slået til under Indstillinger i EasyRate.</td></tr>
+  </table>
+</body>
+</html>`,
+  row: `<tr><td style="padding:8px 0;border-bottom:1px solid #e4e4e7;">{{label}}</td><td style="padding:8px 0;border-bottom:1px solid #e4e4e7;text-align:right;font-weight:bold;">{{value}}</td></tr>`,
+  insight: `<div style="margin-top:24px;padding:16px;border-left:4px solid {{primaryColor}};background:#fafafa;"><p style="margin:0 0 4px;font-weight:bold;">Seneste AI indsigt ({{sentiment}})</p><p style="margin:0;">{{headline}}</p></div>`,
+  text: `{{periodTitle}} for {{businessName}}
+{{periodLabel}}
+
+{{rows}}
+{{insight}}
+Se dashboardet: {{reviewLink}}
+
+Med venlig hilsen,
+EasyRate`,
+  textRow: `{{label}}: {{value}}`,
+  textInsight: `Seneste AI indsigt ({{sentiment}}): {{headline}}
+`,
+  labels: {
+    reviews: 'Anmeldelser',
+    avgRating: 'Gennemsnitlig bedømmelse',
+    negative: 'Negative anmeldelser',
+    smsConversion: 'SMS konvertering',
+    emailConversion: 'Email konvertering',
+    googleNew: 'Nye Google anmeldelser',
+    googleUnanswered: 'Ubesvarede Google anmeldelser',
+  },
+  sentiments: {
+    very_negative: 'meget negativ',
+    negative: 'negativ',
+    neutral: 'neutral',
+    positive: 'positiv',
+    very_positive: 'meget positiv',
+  },
+  sent: 'sendt',
+  noReviews: '-',
+} as const;
+
 export const ERROR_MESSAGES = {
   generic: 'Der opstod en fejl. Prøv venligst igen.',
   notFound: 'Den ønskede ressource blev ikke fundet.',
@@ -143,9 +330,214 @@ export const DASHBOARD_TEXT = {
     integrations: 'Integrationer',
     flow: 'Flow',
     test: 'Test',
+    suppressions: 'Afmeldinger',
+    imports: 'Kundeimport',
+    orderQueue: 'Ordrekø',
+    alerts: 'Alarmer',
     settings: 'Indstillinger',
     logout: 'Log ud',
   },
+  suppressions: {
+    title: 'Afmeldinger',
+    subtitle:
+      'Kunder på listen modtager ikke anmeldelsesforespørgsler. Kunder tilføjes automatisk, når de afmelder sig via email eller svarer STOP på en SMS.',
+    addTitle: 'Tilføj afmelding',
+    channel: 'Kanal',
+    value: 'Telefon eller email',
+    valuePlaceholder: '+4512345678 eller navn@eksempel.dk',
+    note: 'Note (valgfri)',
+    add: 'Tilføj',
+    adding: 'Tilføjer...',
+    remove: 'Fjern',
+    empty: 'Ingen afmeldinger endnu',
+    search: 'Søg efter telefon eller email...',
+    addError: 'Kunne ikke tilføje afmelding',
+    removeError: 'Kunne ikke fjerne afmelding',
+    columns: {
+      channel: 'Kanal',
+      value: 'Modtager',
+      reason: 'Årsag',
+      createdAt: 'Tilføjet',
+    },
+    channels: {
+      sms: 'SMS',
+      email: 'Email',
+    },
+    reasons: {
+      unsubscribe: 'Afmeldt via email',
+      sms_stop: 'Svarede STOP',
+      complaint: 'Markeret som spam',
+      manual: 'Tilføjet manuelt',
+    },
+  },
+  imports: {
+    title: 'Kundeimport',
+    subtitle:
+      'Upload en kundeliste som CSV eller Excel for at sende anmeldelsesforespørgsler til tidligere gæster. Kolonner: navn, telefon, email og besøgsdato.',
+    uploadTitle: 'Upload kundeliste',
+    uploadDescription:
+      'Dubletter, kunder der allerede har fået en forespørgsel, og afmeldte kunder sorteres fra automatisk.',
+    chooseFile: 'Vælg fil',
+    uploading: 'Indlæser...',
+    uploadError: 'Kunne ikke indlæse filen',
+    previewTitle: 'Forhåndsvisning',
+    summary: {
+      total: 'Rækker',
+      valid: 'Klar til afsendelse',
+      skipped: 'Sorteres fra',
+      smsCount: 'SMS',
+      emailCount: 'Emails',
+      smsSegments: 'SMS-segmenter i alt',
+    },
+    smsPreview: 'SMS-tekst',
+    smsEncodingUcs2: 'Teksten indeholder specialtegn, så hver SMS-del rummer færre tegn.',
+    sendsPerHour: 'Afsendelser pr. time',
+    sendsPerHourDescription: 'Forespørgslerne spredes ud, så de ikke sendes på én gang.',
+    schedule: 'Planlæg afsendelse',
+    scheduling: 'Planlægger...',
+    scheduleError: 'Kunne ikke planlægge afsendelse',
+    cancel: 'Annuller afsendelse',
+    cancelError: 'Kunne ikke annullere afsendelse',
+    scheduledInfo: 'Planlagt fra {first} til {last}',
+    historyTitle: 'Tidligere imports',
+    empty: 'Ingen imports endnu',
+    columns: {
+      row: 'Række',
+      name: 'Navn',
+      phone: 'Telefon',
+      email: 'Email',
+      visitDate: 'Besøgsdato',
+      status: 'Status',
+      reason: 'Årsag',
+      fileName: 'Fil',
+      createdAt: 'Oprettet',
+    },
+    statuses: {
+      preview: 'Forhåndsvisning',
+      scheduled: 'Planlagt',
+      cancelled: 'Annulleret',
+    },
+    rowStatuses: {
+      valid: 'Klar',
+      invalid: 'Ugyldig',
+      duplicate: 'Dublet',
+      already_contacted: 'Allerede kontaktet',
+      suppressed: 'Afmeldt',
+    },
+  },
+  orderQueue: {
+    title: 'Ordrekø',
+    subtitle:
+      'Ordrer der venter på en anmeldelsesforespørgsel, og ordrer der fejlede eller blev annulleret. Midlertidige fejl forsøges igen automatisk. Send igen, annuller eller flyt afsendelsestidspunktet.',
+    search: 'Søg efter ordre-ID, navn, telefon eller email...',
+    allStatuses: 'Alle statusser',
+    allPlatforms: 'Alle kilder',
+    empty: 'Ingen ordrer i køen',
+    retry: 'Send igen',
+    retryAllFailed: 'Send alle fejlede igen',
+    retriedCount: '{count} ordrer sendes igen',
+    cancel: 'Annuller',
+    reschedule: 'Flyt afsendelse',
+    saveSchedule: 'Gem tidspunkt',
+    actionError: 'Handlingen kunne ikke udføres',
+    sendWindowNote: 'Tidspunkter uden for sendevinduet flyttes til næste tilladte tidspunkt.',
+    detailsTitle: 'Ordredetaljer',
+    selectOrder: 'Vælg en ordre for at se detaljer og beskeder',
+    reminderStep: 'Påmindelse {step}',
+    notifications: 'Beskeder',
+    noNotifications: 'Ingen beskeder sendt for denne ordre',
+    columns: {
+      orderId: 'Ordre',
+      customer: 'Kunde',
+      platform: 'Kilde',
+      status: 'Status',
+      scheduledFor: 'Planlagt',
+      error: 'Fejl',
+    },
+    statuses: {
+      pending: 'Venter',
+      processing: 'Behandles',
+      completed: 'Sendt',
+      failed: 'Fejlet',
+      dead_letter: 'Opgivet',
+      cancelled: 'Annulleret',
+      skipped: 'Sprunget over',
+    },
+    attempts: 'Forsøg',
+    nextAttempt: 'Nyt forsøg',
+    platforms: {
+      dully: 'Dully',
+      easytable: 'EasyTable',
+      api: 'API',
+      import: 'Import',
+      test: 'Test',
+    },
+    notificationStatuses: {
+      pending: 'Afventer',
+      sent: 'Sendt',
+      delivered: 'Leveret',
+      failed: 'Fejlet',
+      bounced: 'Afvist',
+      opened: 'Åbnet',
+      clicked: 'Klikket',
+      converted: 'Anmeldt',
+    },
+  },
+  alerts: {
+    title: 'Alarmer',
+    subtitle:
+      'Få besked med det samme, når en kunde giver en lav bedømmelse, nævner bestemte ord eller skriver en negativ Google anmeldelse.',
+    settingsTitle: 'Alarmindstillinger',
+    enabled: 'Aktiver alarmer',
+    enabledDescription: 'Send en alarm, når negativ feedback kommer ind.',
+    ratingThreshold: 'Bedømmelse',
+    ratingThresholdDescription: 'Alarm ved anmeldelser med denne bedømmelse eller lavere.',
+    stars: 'stjerner',
+    keywords: 'Nøgleord',
+    keywordsDescription:
+      'Alarm når feedback nævner et af ordene, uanset bedømmelse. Adskil med komma.',
+    keywordsPlaceholder: 'madforgiftning, uhøflig, kold mad',
+    googleReviews: 'Google anmeldelser',
+    googleReviewsDescription: 'Alarm ved nye Google anmeldelser med lav bedømmelse.',
+    deliveryMode: 'Levering',
+    deliveryModes: {
+      instant: 'Med det samme',
+      digest: 'Daglig oversigt',
+    },
+    digestTime: 'Tidspunkt for oversigt',
+    owner: 'Ejer',
+    ownerDescription: 'Send til virksomhedens email og telefonnummer.',
+    recipients: 'Medarbejdere',
+    addRecipient: 'Tilføj medarbejder',
+    recipientName: 'Navn',
+    recipientEmail: 'Email',
+    recipientPhone: 'Telefon',
+    removeRecipient: 'Fjern',
+    channels: {
+      sms: 'SMS',
+      email: 'Email',
+    },
+    save: 'Gem alarmindstillinger',
+    saving: 'Gemmer...',
+    saved: 'Gemt',
+    saveError: 'Kunne ikke gemme alarmindstillinger',
+    historyTitle: 'Alarmhistorik',
+    empty: 'Ingen alarmer endnu',
+    columns: {
+      createdAt: 'Tidspunkt',
+      source: 'Kilde',
+      rating: 'Bedømmelse',
+      feedback: 'Feedback',
+      triggers: 'Årsag',
+      status: 'Status',
+    },
+    statuses: {
+      pending_digest: 'Afventer oversigt',
+      sent: 'Sendt',
+      failed: 'Fejlet',
+      skipped: 'Ingen modtagere',
+    },
+  },
   insights: {
     title: 'AI Indsigt',
     regenerate: 'Generer',
@@ -185,6 +577,26 @@ export const DASHBOARD_TEXT = {
     customers: 'kunder',
     suggestion: 'Forslag',
     toggleLabel: 'Aktiveret',
+    sourcesLabel: 'Kilder',
+    sources: {
+      easyrate: 'EasyRate',
+      google: 'Google',
+      trustpilot: 'Trustpilot',
+    },
+    trends: {
+      title: 'Udvikling',
+      scoreChange: 'point siden sidste analyse',
+      noChange: 'Uændret siden sidste analyse',
+      previously: 'Før',
+      resolvedThemes: 'Ikke længere nævnt',
+      status: {
+        new: 'Ny',
+        growing: 'Vokser',
+        shrinking: 'Aftager',
+        stable: 'Stabil',
+        resolved: 'Løst',
+      },
+    },
   },
   test: {
     title: 'Test Anmeldelsesflow',
@@ -246,6 +658,8 @@ export const DASHBOARD_TEXT = {
       external_review_desc: 'Google Review prompt',
       thank_you: 'Tak Side',
       thank_you_desc: 'Afslutning af flow',
+      reminder: 'Påmindelse',
+      reminder_desc: 'Hvis linket ikke er åbnet',
     },
     sidebar: {
       title: 'Flow Oversigt',
@@ -285,6 +699,54 @@ export const DASHBOARD_TEXT = {
       variableCustomerName: '{{customerName}} - Kundens navn',
       variableBusinessName: '{{businessName}} - Virksomhedens navn',
       variableReviewLink: '{{reviewLink}} - Link til anmeldelse',
+      // Email preview
+      emailPreview: 'Forhåndsvisning',
+      emailPreviewHelp:
+        'Emailen sendes med dit logo og din farve. Stjernerne åbner anmeldelsessiden med bedømmelsen valgt.',
+      emailPreviewSubject: 'Emne',
+      emailPreviewError: 'Kunne ikke vise forhåndsvisning',
+      // Reminders
+      remindersConfig: 'Påmindelser',
+      remindersDescription:
+        'Send en påmindelse til kunder, der ikke har klikket på linket i den første besked.',
+      remindersEnabled: 'Send påmindelser',
+      reminderStep: 'Påmindelse',
+      reminderChannel: 'Kanal',
+      reminderDelayHours: 'Forsinkelse (timer)',
+      reminderDelayHelp: 'Timer efter forrige besked',
+      reminderTemplate: 'Beskedskabelon (valgfri)',
+      reminderTemplatePlaceholder: 'Tom = standard påmindelse',
+      addReminder: 'Tilføj påmindelse',
+      removeReminder: 'Fjern',
+      maxAttempts: 'Maks. beskeder pr. ordre',
+      maxAttemptsHelp: 'Inkl. den første anmodning',
+      reminderSkipHelp:
+        'Påmindelser springes over, hvis kunden allerede har klikket eller anmeldt.',
+      // Send window
+      sendWindowConfig: 'Sendevindue',
+      sendWindowDescription:
+        'Beskeder uden for sendevinduet udskydes til næste tilladte tidspunkt. Gælder også genforsøg.',
+      sendWindowFrom: 'Fra',
+      sendWindowTo: 'Til',
+      sendWindowPerDay: 'Forskellige tider pr. ugedag',
+      sendWindowClosed: 'Ingen udsendelse',
+      weekdays: {
+        mon: 'Mandag',
+        tue: 'Tirsdag',
+        wed: 'Onsdag',
+        thu: 'Torsdag',
+        fri: 'Fredag',
+        sat: 'Lørdag',
+        sun: 'Søndag',
+      },
+      // Contact frequency
+      contactFrequencyConfig: 'Kontaktfrekvens',
+      contactFrequencyDescription:
+        'Undgå at sende for mange anmodninger til den samme kunde på tværs af ordrer.',
+      maxRequests: 'Maks. anmodninger pr. kunde',
+      periodDays: 'Periode (dage)',
+      skipIfReviewedWithinDays: 'Spring over hvis anmeldt inden for (dage)',
+      skipIfReviewedHelp: '0 = tjek ikke tidligere anmeldelser',
     },
     validation: {
       atLeastOneRequired: 'Mindst én kanal skal være aktiv',
@@ -428,12 +890,34 @@ export const DASHBOARD_TEXT = {
       apiKeyPlaceholder: 'Indtast din EasyTable API nøgle',
       placeTokenLabel: 'Place Token',
       placeTokenPlaceholder: 'Indtast dit Place Token',
+      pollingStatus: 'Synkroniseringsstatus',
+      lastSuccessfulPoll: 'Sidste vellykkede synkronisering',
+      neverPolled: 'Ikke synkroniseret endnu',
+      lastPollError: 'Seneste synkronisering fejlede',
+      pollingDescription: 'Nye besøg hentes fra EasyTable hvert 5. minut.',
       benefits: [
         'Automatisk anmeldelsesanmodning efter besøg',
         'Synkronisering af reservationsdata',
         'Gæsteoplysninger importeres automatisk',
       ],
     },
+    filterRules: {
+      title: 'Filterregler',
+      description:
+        'Vælg hvilke ordrer der skal udløse en anmeldelsesanmodning. Tomme felter bruges ikke.',
+      excludeTagsLabel: 'Spring over ved tags',
+      excludeTagsPlaceholder: 'f.eks. personale, VIP',
+      excludeTagsDescription: 'Kommasepareret. Ordrer med et af disse tags springes over.',
+      maxPartySizeLabel: 'Maks. antal personer',
+      maxPartySizeDescription: 'Selskaber med flere personer springes over.',
+      minOrderTotalLabel: 'Mindste ordrebeløb (kr.)',
+      minOrderTotalDescription: 'Ordrer under beløbet springes over.',
+      onlyTablesLabel: 'Kun disse borde',
+      onlyTablesPlaceholder: 'f.eks. 1, 2, Terrasse',
+      onlyTablesDescription: 'Kommasepareret bordnavne eller ID. Andre borde springes over.',
+      recentlyFiltered: 'Senest frasorterede ordrer',
+      noneFiltered: 'Ingen ordrer er frasorteret endnu',
+    },
   },
   settings: {
     title: 'Indstillinger',
@@ -443,6 +927,8 @@ export const DASHBOARD_TEXT = {
       email: 'Email',
       phone: 'Telefon',
       address: 'Adresse',
+      timezone: 'Tidszone',
+      timezoneDescription: 'Bruges til bookingtider, afsendelsesvindue, statistik og rapporter.',
     },
     templates: {
       title: 'Beskedskabeloner',
@@ -477,6 +963,17 @@ export const DASHBOARD_TEXT = {
       providerLabel: 'AI Udbyder',
       providerGrok: 'Grok (Anbefalet)',
       providerOpenAI: 'OpenAI',
+      languageLabel: 'Sprog',
+      languageDescription: 'Sproget AI skriver indsigtsrapporter og svarforslag på.',
+      languages: {
+        da: 'Dansk',
+        en: 'Engelsk',
+        sv: 'Svensk',
+        de: 'Tysk',
+      },
+      includeExternalLabel: 'Medtag Google-anmeldelser',
+      includeExternalDescription:
+        'Analyser også anmeldelser hentet fra Google. En Google-anmeldelse, der er koblet til en af dine egne anmeldelser, tælles kun én gang.',
       notConfigured: 'AI er ikke konfigureret på serveren. Kontakt support.',
     },
     googleBusiness: {
@@ -512,6 +1009,94 @@ export const DASHBOARD_TEXT = {
       newReviews: 'nye anmeldelser',
       updatedReviews: 'opdaterede anmeldelser',
     },
+    senderIdentity: {
+      title: 'Afsender',
+      description:
+        'Vælg hvem dine kunder ser beskederne fra. Egen emailadresse kræver at domænet verificeres via DNS.',
+      fromName: 'Afsendernavn (email)',
+      fromNamePlaceholder: 'Som standard virksomhedens navn',
+      fromEmail: 'Afsenderadresse (email)',
+      fromEmailPlaceholder: 'booking@ditdomæne.dk',
+      fromEmailHelp:
+        'Indtil domænet er verificeret, sendes emails fra EasyRates adresse med dit afsendernavn.',
+      smsSenderId: 'Afsender-ID (SMS)',
+      smsSenderIdPlaceholder: 'Som standard virksomhedens navn',
+      smsSenderIdHelp: 'Højst 11 tegn, mindst ét bogstav. Undgå emojis og specialtegn som €.',
+      smsSenderIdTooLong: 'Afsender-ID må højst være 11 tegn',
+      save: 'Gem afsender',
+      saving: 'Gemmer...',
+      saveError: 'Kunne ikke gemme afsender',
+      domain: 'Domæne',
+      dnsInstructions: 'Opret denne TXT-record hos din DNS-udbyder og klik derefter på Verificér:',
+      recordName: 'Navn',
+      recordValue: 'Værdi',
+      verify: 'Verificér domæne',
+      verifying: 'Verificerer...',
+      lastChecked: 'Sidst tjekket',
+      domainStatus: {
+        pending: 'Afventer verificering',
+        verified: 'Verificeret',
+        failed: 'Verificering fejlede',
+      },
+    },
+    webhooks: {
+      title: 'Webhooks',
+      description:
+        'Send hændelser fra EasyRate til dine egne systemer, fx dit CRM. Hver besked signeres med endpointets hemmelige nøgle.',
+      addEndpoint: 'Tilføj endpoint',
+      url: 'Endpoint URL',
+      urlPlaceholder: 'https://example.com/webhooks/easyrate',
+      descriptionLabel: 'Beskrivelse (valgfri)',
+      events: 'Hændelser',
+      create: 'Opret',
+      creating: 'Opretter...',
+      delete: 'Slet',
+      sendTest: 'Send testhændelse',
+      sendingTest: 'Sender...',
+      testSucceeded: 'Testhændelse leveret',
+      testFailed: 'Testhændelse fejlede',
+      secret: 'Hemmelig nøgle',
+      secretHelp: 'Gem nøglen nu - den vises kun én gang.',
+      noEndpoints: 'Ingen webhooks oprettet',
+      deliveries: 'Seneste leveringer',
+      noDeliveries: 'Ingen leveringer endnu',
+      attempts: 'forsøg',
+      createError: 'Kunne ikke oprette webhook',
+      eventLabels: {
+        'review.created': 'Ny anmeldelse',
+        'review.negative': 'Negativ anmeldelse',
+        'review.replied': 'Anmeldelse besvaret',
+        'external_review.synced': 'Google anmeldelse synkroniseret',
+        'notification.failed': 'Besked fejlede',
+        'insight_run.completed': 'AI indsigt færdig',
+        'webhook.test': 'Testhændelse',
+      },
+      deliveryStatus: {
+        pending: 'Afventer',
+        succeeded: 'Leveret',
+        failed: 'Fejlet',
+      },
+    },
+    reports: {
+      title: 'Performancerapporter',
+      description:
+        'Få en oversigt over anmeldelser, konvertering og AI indsigter sendt på email hver uge eller måned.',
+      enabled: 'Send rapporter',
+      frequency: 'Hyppighed',
+      frequencies: {
+        weekly: 'Ugentligt (mandag morgen)',
+        monthly: 'Månedligt (den 1. i måneden)',
+      },
+      recipients: 'Modtagere',
+      recipientsPlaceholder: 'ejer@restaurant.dk, chef@restaurant.dk',
+      recipientsDescription: 'Kommaseparerede emailadresser. Tom = virksomhedens email.',
+      history: 'Seneste rapporter',
+      noHistory: 'Ingen rapporter sendt endnu',
+      status: {
+        sent: 'Sendt',
+        failed: 'Fejlet',
+      },
+    },
     save: 'Gem ændringer',
     saving: 'Gemmer...',
     saved: 'Ændringer gemt',
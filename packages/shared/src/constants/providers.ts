@@ -2,7 +2,9 @@
 
 export const PROVIDER_RATE_LIMITS = {
   inmobile: { maxRequests: 400, windowMs: 1000 },
+  http_sms: { maxRequests: 20, windowMs: 1000 }, // Default, override with SMS_HTTP_RATE_LIMIT
   resend: { maxRequests: 10, windowMs: 1000 },
+  smtp: { maxRequests: 5, windowMs: 1000 }, // One connection per message
 } as const;
 
 export const SMS_ENCODING = {
@@ -34,7 +36,18 @@ export const GSM7_EXTENDED_CHARS = new Set(['|', '^', '€', '{', '}', '[', ']',
 
 export const PROVIDER_NAMES = {
   INMOBILE: 'inmobile',
+  HTTP_SMS: 'http_sms',
   RESEND: 'resend',
+  SMTP: 'smtp',
 } as const;
 
 export type ProviderName = (typeof PROVIDER_NAMES)[keyof typeof PROVIDER_NAMES];
+
+// SMS providers in default failover order
+export const SMS_PROVIDER_NAMES = [PROVIDER_NAMES.INMOBILE, PROVIDER_NAMES.HTTP_SMS] as const;
+
+export type SmsProviderName = (typeof SMS_PROVIDER_NAMES)[number];
+
+export const EMAIL_PROVIDER_NAMES = [PROVIDER_NAMES.RESEND, PROVIDER_NAMES.SMTP] as const;
+
+export type EmailProviderName = (typeof EMAIL_PROVIDER_NAMES)[number];
@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { integrationFilterRuleSchema } from './integration.js';
+import {
+  EMAIL_PROVIDER_NAMES,
+  GSM7_BASIC_CHARS,
+  SMS_PROVIDER_NAMES,
+} from '../constants/providers.js';
+import { ANALYSIS_LANGUAGES } from '../constants/defaults.js';
 
 // Helper for optional URL fields that also accept empty strings
 const optionalUrl = z.union([z.string().url(), z.literal('')]).optional();
@@ -8,6 +15,107 @@ export const aiSettingsSchema = z.object({
   enabled: z.boolean(),
   provider: z.enum(['grok', 'openai']),
   autoRefresh: z.boolean(),
+  language: z.enum(ANALYSIS_LANGUAGES),
+  includeExternalReviews: z.boolean(),
+});
+
+// Follow-up reminder sequence schema
+export const reminderStepSchema = z.object({
+  channel: z.enum(['sms', 'email']),
+  delayHours: z.number().int().min(1).max(720),
+  template: z.string().max(5000).optional(),
+});
+
+export const reminderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  steps: z.array(reminderStepSchema).max(5),
+  maxAttempts: z.number().int().min(1).max(6),
+});
+
+// Send window (quiet hours) schema
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Forventet format HH:mm');
+
+export const sendWindowHoursSchema = z
+  .object({
+    start: timeOfDay,
+    end: timeOfDay,
+  })
+  .refine((hours) => hours.start < hours.end, {
+    message: 'Starttidspunkt skal være før sluttidspunkt',
+    path: ['end'],
+  });
+
+const weekdaySchema = z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']);
+
+// IANA time zone name, e.g. 'Europe/Copenhagen'
+export const timeZoneSchema = z.string().refine(
+  (timeZone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Ugyldig tidszone' }
+);
+
+export const sendWindowSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    timezone: timeZoneSchema.optional(),
+    start: timeOfDay,
+    end: timeOfDay,
+    days: z.record(weekdaySchema, sendWindowHoursSchema.nullable()).optional(),
+  })
+  .refine((window) => window.start < window.end, {
+    message: 'Starttidspunkt skal være før sluttidspunkt',
+    path: ['end'],
+  });
+
+// Per-customer contact frequency schema
+export const contactFrequencySettingsSchema = z.object({
+  enabled: z.boolean(),
+  maxRequests: z.number().int().min(1).max(10),
+  periodDays: z.number().int().min(1).max(365),
+  skipIfReviewedWithinDays: z.number().int().min(0).max(730).optional(),
+});
+
+// Negative feedback alert schema
+const alertChannelSchema = z.enum(['sms', 'email']);
+
+export const alertRecipientSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    email: z.string().email().optional(),
+    phone: z.string().min(8).max(20).optional(),
+    channels: z.array(alertChannelSchema).min(1),
+  })
+  .refine(
+    (recipient) =>
+      recipient.channels.every((channel) =>
+        channel === 'email' ? Boolean(recipient.email) : Boolean(recipient.phone)
+      ),
+    { message: 'Modtageren mangler email eller telefonnummer', path: ['channels'] }
+  );
+
+export const alertSettingsSchema = z.object({
+  enabled: z.boolean(),
+  ratingThreshold: z.number().int().min(1).max(5),
+  keywords: z.array(z.string().trim().min(1).max(50)).max(30),
+  googleReviews: z.boolean(),
+  notifyOwner: z.boolean(),
+  ownerChannels: z.array(alertChannelSchema),
+  recipients: z.array(alertRecipientSchema).max(10),
+  deliveryMode: z.enum(['instant', 'digest']),
+  digestTime: timeOfDay,
+});
+
+// Performance report email schema
+export const reportSettingsSchema = z.object({
+  enabled: z.boolean(),
+  frequency: z.enum(['weekly', 'monthly']),
+  recipients: z.array(z.string().email()).max(10),
 });
 
 export const businessSettingsSchema = z.object({
@@ -16,6 +124,8 @@ export const businessSettingsSchema = z.object({
   emailDelayMinutes: z.number().int().min(0).max(1440).optional(),
   smsEnabled: z.boolean(),
   emailEnabled: z.boolean(),
+  smsProvider: z.enum(SMS_PROVIDER_NAMES).optional(),
+  emailProvider: z.enum(EMAIL_PROVIDER_NAMES).optional(),
   googleReviewUrl: optionalUrl,
   primaryColor: z
     .string()
@@ -23,10 +133,15 @@ export const businessSettingsSchema = z.object({
     .optional(),
   logoUrl: optionalUrl,
   aiSettings: aiSettingsSchema.partial().optional(),
+  reminders: reminderSettingsSchema.optional(),
+  sendWindow: sendWindowSettingsSchema.optional(),
+  contactFrequency: contactFrequencySettingsSchema.optional(),
+  alerts: alertSettingsSchema.optional(),
+  reports: reportSettingsSchema.optional(),
 });
 
 export const integrationConfigSchema = z.object({
-  platform: z.enum(['dully', 'easytable']),
+  platform: z.enum(['dully', 'easytable', 'api']),
   apiKey: z.string().min(1).optional(),
   webhookSecret: z.string().min(1).optional(),
   enabled: z.boolean(),
@@ -34,6 +149,7 @@ export const integrationConfigSchema = z.object({
   connectedAt: z.coerce.date().optional(),
   lastWebhookAt: z.coerce.date().optional(),
   webhookCount: z.number().int().min(0).optional(),
+  filterRules: z.array(integrationFilterRuleSchema).max(20).optional(),
 });
 
 export const createBusinessSchema = z.object({
@@ -41,6 +157,7 @@ export const createBusinessSchema = z.object({
   email: z.string().email(),
   phone: z.string().min(8).max(20).optional(),
   address: z.string().max(500).optional(),
+  timezone: timeZoneSchema.optional(),
   settings: businessSettingsSchema.partial().optional(),
 });
 
@@ -49,6 +166,7 @@ export const updateBusinessSchema = z.object({
   email: z.string().email().optional(),
   phone: z.string().min(8).max(20).optional(),
   address: z.string().max(500).optional(),
+  timezone: timeZoneSchema.optional(),
   settings: businessSettingsSchema.partial().optional(),
   integrations: z.array(integrationConfigSchema).optional(),
   messageTemplates: z
@@ -68,7 +186,32 @@ export const updateBusinessSchema = z.object({
     .optional(),
 });
 
+// Alphanumeric SMS sender ID: operators allow at most 11 GSM-7 characters,
+// and an all-digit sender would be read as a phone number
+export const smsSenderIdSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(11, 'Afsender-ID må højst være 11 tegn')
+  .refine((value) => Array.from(value).every((char) => GSM7_BASIC_CHARS.has(char) && char >= ' '), {
+    message: 'Afsender-ID må kun indeholde tegn fra GSM-tegnsættet',
+  })
+  .refine((value) => /\p{L}/u.test(value), {
+    message: 'Afsender-ID skal indeholde mindst ét bogstav',
+  });
+
+// Sender identity - empty strings clear a field
+export const updateSenderIdentitySchema = z.object({
+  fromName: z.string().trim().max(100).optional(),
+  fromEmail: z.union([z.string().trim().toLowerCase().email(), z.literal('')]).optional(),
+  smsSenderId: z.union([smsSenderIdSchema, z.literal('')]).optional(),
+});
+
 export type BusinessSettingsSchema = z.infer<typeof businessSettingsSchema>;
+export type ReminderSettingsSchema = z.infer<typeof reminderSettingsSchema>;
+export type SendWindowSettingsSchema = z.infer<typeof sendWindowSettingsSchema>;
+export type ContactFrequencySettingsSchema = z.infer<typeof contactFrequencySettingsSchema>;
 export type IntegrationConfigSchema = z.infer<typeof integrationConfigSchema>;
 export type CreateBusinessSchema = z.infer<typeof createBusinessSchema>;
 export type UpdateBusinessSchema = z.infer<typeof updateBusinessSchema>;
+export type UpdateSenderIdentitySchema = z.infer<typeof updateSenderIdentitySchema>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { CUSTOMER_IMPORTS } from '../constants/defaults.js';
+
+export const customerImportUploadQuerySchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+});
+
+export const scheduleCustomerImportSchema = z.object({
+  sendsPerHour: z.number().int().min(1).max(CUSTOMER_IMPORTS.maxSendsPerHour).optional(),
+  startAt: z.coerce.date().optional(),
+});
@@ -5,3 +5,6 @@ export * from './integration.js';
 export * from './api.js';
 export * from './auth.js';
 export * from './landing.js';
+export * from './suppression.js';
+export * from './webhook.js';
+export * from './import.js';
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ORDER_API } from '../constants/defaults.js';
 
 export const orderDataSchema = z.object({
   orderId: z.string().min(1),
@@ -8,10 +9,91 @@ export const orderDataSchema = z.object({
   orderTotal: z.number().positive().optional(),
   orderDate: z.coerce.date(),
   completedAt: z.coerce.date().optional(),
-  platform: z.enum(['dully', 'easytable', 'test']),
+  platform: z.enum(['dully', 'easytable', 'api', 'import', 'test']),
+  source: z.string().optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
+/**
+ * Order submitted through the generic order API (POST /api/v1/orders)
+ */
+export const apiOrderSchema = z
+  .object({
+    orderId: z.string().trim().min(1).max(200),
+    source: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9_-]{1,50}$/i, 'Kilde må kun indeholde bogstaver, tal, - og _')
+      .optional(),
+    customerName: z.string().trim().max(200).optional(),
+    customerEmail: z.string().email().optional(),
+    customerPhone: z.string().min(8).max(20).optional(),
+    orderTotal: z.number().nonnegative().optional(),
+    orderDate: z.coerce.date().optional(),
+    completedAt: z.coerce.date().optional(),
+    delayMinutes: z.number().int().min(0).max(10080).optional(),
+    metadata: z.record(z.unknown()).optional(),
+  })
+  .refine((order) => Boolean(order.customerEmail ?? order.customerPhone), {
+    message: 'Telefonnummer eller email er påkrævet',
+    path: ['customerPhone'],
+  });
+
+export const apiOrderBatchSchema = z.object({
+  // Orders are validated one by one so a single bad order does not reject the batch
+  orders: z.array(z.unknown()).min(1).max(ORDER_API.maxBatchSize),
+});
+
+export const apiOrderCancelSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const orderQueueStatusSchema = z.enum([
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+  'dead_letter',
+  'cancelled',
+  'skipped',
+]);
+
+/**
+ * Bulk retry of failed queue items. Without ids every failed item is retried.
+ */
+export const orderQueueRetrySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100).optional(),
+});
+
+export const orderQueueCancelSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const orderQueueRescheduleSchema = z.object({
+  scheduledFor: z.coerce.date(),
+});
+
+/**
+ * Settings stored on the 'api' integration
+ */
+export const apiIntegrationSettingsSchema = z.object({
+  defaultDelayMinutes: z.number().int().min(0).max(10080).optional(),
+  sourceDelays: z.record(z.number().int().min(0).max(10080)).optional(),
+});
+
+export const integrationFilterRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('exclude_tags'),
+    tags: z.array(z.string().trim().min(1).max(100)).min(1).max(50),
+  }),
+  z.object({ type: z.literal('max_party_size'), max: z.number().int().min(1).max(1000) }),
+  z.object({ type: z.literal('min_order_total'), min: z.number().min(0) }),
+  z.object({
+    type: z.literal('only_tables'),
+    tables: z.array(z.string().trim().min(1).max(100)).min(1).max(200),
+  }),
+]);
+
 export const dullyWebhookPayloadSchema = z.object({
   event: z.enum(['order.created', 'order.approved', 'order.picked_up', 'order.cancelled']),
   orderId: z.string().min(1),
@@ -67,5 +149,10 @@ export const easyTableBookingSchema = z.object({
 });
 
 export type OrderDataSchema = z.infer<typeof orderDataSchema>;
+export type ApiOrderInput = z.infer<typeof apiOrderSchema>;
+export type ApiIntegrationSettings = z.infer<typeof apiIntegrationSettingsSchema>;
+export type OrderQueueRetryInput = z.infer<typeof orderQueueRetrySchema>;
+export type OrderQueueCancelInput = z.infer<typeof orderQueueCancelSchema>;
+export type OrderQueueRescheduleInput = z.infer<typeof orderQueueRescheduleSchema>;
 export type DullyWebhookPayloadSchema = z.infer<typeof dullyWebhookPayloadSchema>;
 export type EasyTableBookingSchema = z.infer<typeof easyTableBookingSchema>;
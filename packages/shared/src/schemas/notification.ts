@@ -21,6 +21,7 @@ export const createNotificationSchema = z.object({
   content: z.string().min(1).max(5000),
   reviewLink: z.string().url(),
   orderId: z.string().optional(),
+  reminderStep: z.number().int().min(0).optional(),
 });
 
 export type NotificationTypeSchema = z.infer<typeof notificationTypeSchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { notificationTypeSchema } from './notification.js';
+
+export const suppressionReasonSchema = z.enum(['unsubscribe', 'sms_stop', 'complaint', 'manual']);
+
+export const createSuppressionSchema = z
+  .object({
+    channel: notificationTypeSchema,
+    value: z.string().trim().min(1).max(255),
+    note: z.string().max(500).optional(),
+  })
+  .refine(
+    (data) =>
+      data.channel === 'email'
+        ? z.string().email().safeParse(data.value).success
+        : /^\+?[\d\s\-().]{8,20}$/.test(data.value),
+    { message: 'Ugyldig email eller telefonnummer', path: ['value'] }
+  );
+
+export type SuppressionReasonSchema = z.infer<typeof suppressionReasonSchema>;
+export type CreateSuppressionSchema = z.infer<typeof createSuppressionSchema>;
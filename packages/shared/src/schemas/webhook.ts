@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+// Subscribable events (see WEBHOOK_EVENT_TYPES)
+export const webhookEventTypeSchema = z.enum([
+  'review.created',
+  'review.negative',
+  'review.replied',
+  'external_review.synced',
+  'notification.failed',
+  'insight_run.completed',
+]);
+
+export const createWebhookEndpointSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .max(2048)
+    // http is only for local testing; the backend also rejects it in production
+    // and checks that the host is public before every delivery
+    .refine(
+      (url) => {
+        try {
+          const { protocol, hostname } = new URL(url);
+          return protocol === 'https:' || (protocol === 'http:' && hostname === 'localhost');
+        } catch {
+          return false; // Reported by .url()
+        }
+      },
+      { message: 'Webhook URL skal bruge https' }
+    ),
+  description: z.string().max(200).optional(),
+  events: z.array(webhookEventTypeSchema).min(1),
+  enabled: z.boolean().optional(),
+});
+
+export const updateWebhookEndpointSchema = createWebhookEndpointSchema.partial();
+
+export type CreateWebhookEndpointSchema = z.infer<typeof createWebhookEndpointSchema>;
+export type UpdateWebhookEndpointSchema = z.infer<typeof updateWebhookEndpointSchema>;
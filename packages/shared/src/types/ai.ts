@@ -1,5 +1,8 @@
 // AI Insights types for sentiment analysis and theme extraction
 
+import type { ANALYSIS_LANGUAGES } from '../constants/defaults.js';
+import type { ExternalReviewSource } from './google.js';
+
 export type ThemeSeverity = 'critical' | 'high' | 'medium' | 'low';
 export type ThemeSentiment = 'positive' | 'negative' | 'neutral';
 export type SentimentLabel =
@@ -11,8 +14,12 @@ export type SentimentLabel =
 export type InsightRunStatus = 'pending' | 'processing' | 'completed' | 'failed';
 export type InsightTrigger = 'scheduled' | 'manual';
 export type AIProviderType = 'grok' | 'openai';
+export type AnalysisLanguage = (typeof ANALYSIS_LANGUAGES)[number];
+// Where an analysed review came from: our own review flow or a synced external platform
+export type InsightReviewSource = 'easyrate' | ExternalReviewSource;
 
 export interface InsightTheme {
+  key?: string; // Canonical theme identity across runs; unset on runs from before theme keys
   name: string;
   description: string;
   customerCount: number;
@@ -21,6 +28,7 @@ export interface InsightTheme {
   sentiment: ThemeSentiment;
   exampleQuotes: string[];
   suggestion?: string;
+  sources?: InsightReviewSource[]; // Sources of the reviews mentioning the theme; unset on older runs
 }
 
 export interface OverallSentiment {
@@ -29,6 +37,14 @@ export interface OverallSentiment {
   summary: string;
 }
 
+// A failed attempt at producing a run's analysis, kept for debugging
+export interface InsightRunFailure {
+  provider: AIProviderType;
+  message: string;
+  rawResponse?: string; // The model's answer (truncated), when it could not be used
+  failedAt: Date;
+}
+
 export interface InsightRun {
   id: string;
   businessId: string;
@@ -38,17 +54,21 @@ export interface InsightRun {
     to: Date;
   };
   reviewCount: number;
+  reviewCountsBySource?: Partial<Record<InsightReviewSource, number>>;
   avgRating?: number;
   overallSentiment?: OverallSentiment;
   themes: InsightTheme[];
   topImprovementPoint?: string;
   customerSatisfactionSummary?: string;
   aiProvider: AIProviderType;
+  language: AnalysisLanguage;
   modelUsed: string;
   tokensUsed: number;
   processingTimeMs: number;
   triggeredBy: InsightTrigger;
+  batchId?: string; // Set while a scheduled run waits for its provider batch job
   errorMessage?: string;
+  failures: InsightRunFailure[]; // Also when a fallback provider completed the run
   createdAt: Date;
   updatedAt: Date;
 }
@@ -59,9 +79,11 @@ export interface AIAnalysisInput {
     feedbackText?: string | undefined;
     createdAt: Date;
     customerId?: string | undefined;
+    source: InsightReviewSource;
   }[];
   businessName: string;
-  analysisLanguage: 'da';
+  analysisLanguage: AnalysisLanguage;
+  knownThemes?: { key: string; name: string }[]; // Themes of the previous run, to reuse their keys
 }
 
 export interface AIAnalysisResult {
@@ -78,6 +100,8 @@ export interface AISettings {
   enabled: boolean;
   provider: AIProviderType;
   autoRefresh: boolean;
+  language: AnalysisLanguage; // Language of insight reports and reply drafts
+  includeExternalReviews: boolean; // Analyse synced Google reviews alongside our own
   lastInsightRunId?: string;
   lastInsightRunAt?: Date;
 }
@@ -92,6 +116,44 @@ export interface InsightStatusResponse {
   lastRunStatus?: InsightRunStatus | undefined;
 }
 
+// Insight trends across completed runs
+export type ThemeTrendStatus = 'new' | 'growing' | 'shrinking' | 'stable' | 'resolved';
+
+export interface SentimentTrendPoint {
+  runId: string;
+  date: Date; // End of the analysed period
+  score: number;
+  label: SentimentLabel;
+  avgRating?: number | undefined;
+  reviewCount: number;
+}
+
+export interface ThemeTrendPoint {
+  runId: string;
+  date: Date;
+  customerCount: number;
+  mentionCount: number;
+  share: number; // customerCount / reviewCount of the run, 0-1
+}
+
+export interface ThemeTrend {
+  key: string;
+  name: string; // Name in the latest run that had the theme
+  sentiment: ThemeSentiment;
+  severity: ThemeSeverity;
+  status: ThemeTrendStatus; // Latest run compared with the one before it
+  customerCount: number; // In the latest run, 0 when resolved
+  previousCustomerCount: number;
+  history: ThemeTrendPoint[]; // Only runs that had the theme, oldest first
+}
+
+export interface InsightTrendsResponse {
+  sentiment: SentimentTrendPoint[]; // Oldest first
+  themes: ThemeTrend[];
+  latestRunId?: string | undefined;
+  previousRunId?: string | undefined;
+}
+
 // AI Response Generation types
 export interface AIResponseGenerationInput {
   review: {
@@ -100,6 +162,7 @@ export interface AIResponseGenerationInput {
     customerName?: string | undefined;
   };
   businessName: string;
+  language: AnalysisLanguage;
 }
 
 export interface AIResponseGenerationResult {
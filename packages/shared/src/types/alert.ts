@@ -0,0 +1,62 @@
+/**
+ * Owner/staff alerts on negative feedback (internal reviews and Google reviews)
+ */
+
+export type AlertChannel = 'sms' | 'email';
+
+export type AlertDeliveryMode = 'instant' | 'digest';
+
+export interface AlertRecipient {
+  name: string;
+  email?: string;
+  phone?: string;
+  channels: AlertChannel[];
+}
+
+export interface AlertSettings {
+  enabled: boolean;
+  ratingThreshold: number; // Alert on internal reviews rated at or below this (1-5)
+  keywords: string[]; // Alert when feedback text contains any of these, regardless of rating
+  googleReviews: boolean; // Alert on new Google reviews rated at or below ratingThreshold
+  notifyOwner: boolean; // Business email/phone
+  ownerChannels: AlertChannel[];
+  recipients: AlertRecipient[]; // Named staff members
+  deliveryMode: AlertDeliveryMode;
+  digestTime: string; // 'HH:mm' local time for the daily digest
+}
+
+export type FeedbackAlertSource = 'review' | 'google_review';
+
+export type FeedbackAlertTrigger = 'rating' | 'keyword' | 'google_review';
+
+export type FeedbackAlertStatus =
+  | 'pending_digest' // Waiting for the next daily digest
+  | 'sent'
+  | 'failed'
+  | 'skipped'; // No reachable recipients or providers
+
+export interface FeedbackAlertDelivery {
+  channel: AlertChannel;
+  recipient: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface FeedbackAlert {
+  id: string;
+  businessId: string;
+  source: FeedbackAlertSource;
+  reviewId?: string;
+  externalReviewId?: string;
+  rating: number;
+  excerpt?: string;
+  customerName?: string;
+  triggers: FeedbackAlertTrigger[];
+  matchedKeywords: string[];
+  status: FeedbackAlertStatus;
+  deliveries: FeedbackAlertDelivery[];
+  digestAttempts: number; // Digest sends that reached no recipient so far
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
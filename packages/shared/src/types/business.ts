@@ -1,5 +1,43 @@
 import type { AISettings } from './ai.js';
 import type { GoogleBusinessSettings } from './google.js';
+import type { AlertSettings } from './alert.js';
+import type { ReportSettings } from './report.js';
+import type { IntegrationFilterRule } from './integration.js';
+import type { EmailProviderName, SmsProviderName } from '../constants/providers.js';
+
+export type ReminderChannel = 'sms' | 'email';
+
+export interface ReminderStep {
+  channel: ReminderChannel;
+  delayHours: number; // Hours after the previous message in the sequence
+  template?: string; // Falls back to the channel's default reminder template
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  steps: ReminderStep[];
+  maxAttempts: number; // Total messages per order, including the initial request
+}
+
+export interface ContactFrequencySettings {
+  enabled: boolean;
+  maxRequests: number; // Max review requests per customer within periodDays
+  periodDays: number;
+  skipIfReviewedWithinDays?: number; // Skip customers who reviewed recently, 0 = disabled
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface SendWindowHours {
+  start: string; // 'HH:mm', local time in the business' time zone
+  end: string; // 'HH:mm', exclusive
+}
+
+export interface SendWindowSettings extends SendWindowHours {
+  enabled: boolean;
+  timezone?: string; // Legacy - replaced by Business.timezone, only read as a fallback
+  days?: Partial<Record<Weekday, SendWindowHours | null>>; // Per-weekday override, null = no sending
+}
 
 export interface BusinessSettings {
   defaultDelayMinutes: number;
@@ -7,15 +45,24 @@ export interface BusinessSettings {
   emailDelayMinutes?: number;
   smsEnabled: boolean;
   emailEnabled: boolean;
+  smsProvider?: SmsProviderName; // Preferred SMS provider, otherwise SMS_PROVIDER
+  emailProvider?: EmailProviderName; // Email provider, otherwise EMAIL_PROVIDER
   googleReviewUrl?: string;
   primaryColor?: string;
   logoUrl?: string;
   aiSettings?: AISettings;
   googleBusiness?: GoogleBusinessSettings;
+  reminders?: ReminderSettings;
+  sendWindow?: SendWindowSettings;
+  contactFrequency?: ContactFrequencySettings;
+  alerts?: AlertSettings;
+  reports?: ReportSettings;
 }
 
+export type IntegrationPlatform = 'dully' | 'easytable' | 'api';
+
 export interface IntegrationConfig {
-  platform: 'dully' | 'easytable';
+  platform: IntegrationPlatform;
   apiKey?: string;
   webhookSecret?: string;
   enabled: boolean;
@@ -23,6 +70,46 @@ export interface IntegrationConfig {
   connectedAt?: Date;
   lastWebhookAt?: Date;
   webhookCount?: number;
+  polling?: IntegrationPollState; // Polling integrations (EasyTable) only
+  filterRules?: IntegrationFilterRule[];
+}
+
+/**
+ * Persisted poll cursor, so a restart catches up from where the last poll ended
+ */
+export interface IntegrationPollState {
+  cursor?: Date; // Bookings modified after this time have not been fetched yet
+  lastPollAt?: Date;
+  lastSuccessAt?: Date;
+  lastError?: string; // Error of the latest poll, cleared on success
+}
+
+export type SenderDomainStatus = 'pending' | 'verified' | 'failed';
+
+/**
+ * Custom email sending domain. Ownership is proven with a TXT record on
+ * `_easyrate.<domain>` holding the verification token.
+ */
+export interface SenderDomain {
+  name: string;
+  status: SenderDomainStatus;
+  verificationToken: string;
+  lastCheckedAt?: Date;
+  verifiedAt?: Date;
+  lastError?: string; // Why the latest check failed, cleared on success
+}
+
+export interface SenderIdentity {
+  fromName?: string; // Email display name, defaults to the business name
+  fromEmail?: string; // Only used once its domain is verified
+  smsSenderId?: string; // Alphanumeric SMS sender, max 11 GSM-7 characters
+  domain?: SenderDomain; // Domain of fromEmail
+}
+
+export interface UpdateSenderIdentityInput {
+  fromName?: string; // Empty string clears the field
+  fromEmail?: string;
+  smsSenderId?: string;
 }
 
 export interface Business {
@@ -31,6 +118,7 @@ export interface Business {
   email: string;
   phone?: string;
   address?: string;
+  timezone?: string; // IANA time zone, e.g. 'Europe/Copenhagen' - defaults to DEFAULT_TIMEZONE
   settings: BusinessSettings;
   integrations: IntegrationConfig[];
   messageTemplates: {
@@ -41,6 +129,7 @@ export interface Business {
     primaryColor: string;
     logoUrl?: string;
   };
+  senderIdentity?: SenderIdentity;
   locationId?: string; // Reserved for future multi-location support
   metadata?: Record<string, unknown>; // Reserved for extensibility
   tags?: string[]; // Reserved for categorization
@@ -53,6 +142,7 @@ export interface CreateBusinessInput {
   email: string;
   phone?: string;
   address?: string;
+  timezone?: string;
   settings?: Partial<BusinessSettings>;
 }
 
@@ -61,6 +151,7 @@ export interface UpdateBusinessInput {
   email?: string;
   phone?: string;
   address?: string;
+  timezone?: string;
   settings?: Partial<BusinessSettings>;
   integrations?: IntegrationConfig[];
   messageTemplates?: {
@@ -0,0 +1,71 @@
+import type { NotificationType } from './notification.js';
+
+/**
+ * One-off review request campaigns from an uploaded customer list (CSV/XLSX)
+ */
+
+export type CustomerImportStatus =
+  | 'preview' // Parsed and validated, nothing queued yet
+  | 'scheduled' // Valid rows queued in the order queue
+  | 'cancelled'; // Pending sends cancelled by the business
+
+export type CustomerImportRowStatus =
+  | 'valid'
+  | 'invalid' // Missing or malformed phone/email/date
+  | 'duplicate' // Same phone or email earlier in the file
+  | 'already_contacted' // The customer already received a review request
+  | 'suppressed'; // Opted out of every channel they could be reached on
+
+export interface CustomerImportRow {
+  rowNumber: number; // Line in the file, the header is row 1
+  name?: string;
+  phone?: string; // Normalized (+45...)
+  email?: string; // Lowercased
+  visitDate?: Date;
+  status: CustomerImportRowStatus;
+  reasons: string[]; // Why the row is not sent, in Danish
+  channels: NotificationType[]; // Channels the review request will be sent on
+  smsSegments?: number;
+  orderId?: string; // Order queue orderId, set when scheduled
+  scheduledFor?: Date;
+}
+
+export interface CustomerImportSummary {
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicate: number;
+  alreadyContacted: number;
+  suppressed: number;
+  smsCount: number;
+  emailCount: number;
+  smsSegments: number; // Total SMS segments for all valid rows, i.e. the SMS cost
+  smsEncoding?: 'GSM-7' | 'UCS-2';
+}
+
+export interface CustomerImport {
+  id: string;
+  businessId: string;
+  fileName: string;
+  status: CustomerImportStatus;
+  rows: CustomerImportRow[];
+  summary: CustomerImportSummary;
+  smsPreview?: string; // Rendered SMS text used for the segment calculation
+  sendsPerHour?: number;
+  scheduledAt?: Date;
+  firstSendAt?: Date;
+  lastSendAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Import history entry - rows are only returned for a single import
+ */
+export type CustomerImportListItem = Omit<CustomerImport, 'rows'>;
+
+export interface ScheduleCustomerImportInput {
+  sendsPerHour?: number;
+  startAt?: Date;
+}
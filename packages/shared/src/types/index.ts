@@ -12,3 +12,8 @@ export * from './flow.js';
 export * from './reviewToken.js';
 export * from './ai.js';
 export * from './google.js';
+export * from './suppression.js';
+export * from './webhook.js';
+export * from './alert.js';
+export * from './report.js';
+export * from './import.js';
@@ -1,3 +1,9 @@
+/**
+ * Where an order came from. 'api' = any POS using the generic order API,
+ * 'import' = a customer list uploaded as CSV/XLSX.
+ */
+export type OrderPlatform = 'dully' | 'easytable' | 'api' | 'import' | 'test';
+
 export interface OrderData {
   orderId: string;
   customerName?: string;
@@ -6,10 +12,85 @@ export interface OrderData {
   orderTotal?: number;
   orderDate: Date;
   completedAt?: Date;
-  platform: 'dully' | 'easytable' | 'test';
+  platform: OrderPlatform;
+  source?: string; // POS identifier for 'api' orders, e.g. 'lightspeed'
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Why an order queue item was skipped instead of sending a review request
+ */
+export type QueueSkipReason =
+  | 'no_contact' // Order has no phone or email
+  | 'no_channel' // No enabled channel matches the available contact info
+  | 'frequency_cap' // Customer already received the maximum number of requests in the period
+  | 'recently_reviewed' // Customer left a review recently
+  | 'customer_engaged' // Reminder not needed, customer already clicked or converted
+  | 'reminder_not_configured' // Reminder step was removed from the sequence
+  | 'suppressed' // Every available contact is on the suppression list
+  | 'filtered'; // Excluded by the integration's filter rules
+
+/**
+ * Per-integration rule deciding whether an order triggers a review request.
+ * Orders must pass every rule; tags and tables are matched case-insensitively.
+ */
+export type IntegrationFilterRule =
+  | { type: 'exclude_tags'; tags: string[] } // Skip orders with any of these tags
+  | { type: 'max_party_size'; max: number } // Skip parties larger than this
+  | { type: 'min_order_total'; min: number } // Skip orders below this total
+  | { type: 'only_tables'; tables: string[] }; // Only handle these tables (name or ID)
+
+export type IntegrationFilterRuleType = IntegrationFilterRule['type'];
+
+/**
+ * Outcome of one filter rule for an order, stored on skipped queue items
+ * so the dashboard can show why no review request was sent
+ */
+export interface FilterRuleResult {
+  rule: IntegrationFilterRule;
+  passed: boolean;
+  detail: string;
+}
+
+/**
+ * 'failed' = permanent error, 'dead_letter' = retryable error that persisted
+ * after every automatic retry. Both need a manual retry.
+ */
+export type OrderQueueStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'dead_letter'
+  | 'cancelled'
+  | 'skipped';
+
+/**
+ * An order in the review request queue. Every reminder step is a separate item.
+ */
+export interface OrderQueueItem {
+  id: string;
+  businessId: string;
+  orderId: string;
+  platform: OrderPlatform;
+  orderData: OrderData;
+  status: OrderQueueStatus;
+  reminderStep: number; // 0 = initial review request
+  scheduledFor: Date;
+  attempts: number; // Failed processing attempts so far
+  nextAttemptAt: Date | null; // Set while waiting for an automatic retry
+  processedAt?: Date;
+  errorMessage?: string; // Last error, kept while retrying
+  cancelledAt?: Date;
+  cancelReason?: string;
+  skipReason?: QueueSkipReason;
+  skipTrace?: FilterRuleResult[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type OrderQueueStats = Record<OrderQueueStatus, number>;
+
 export type OrderHandler = (order: OrderData) => Promise<void>;
 
 import type { IntegrationConfig } from './business.js';
@@ -64,3 +145,23 @@ export interface EasyTableBooking {
   }[];
   tags?: { tagID: number; tagName: string }[];
 }
+
+export type IntegrationPollRunStatus = 'success' | 'failed';
+
+/**
+ * Record of one poll of a polling integration (EasyTable), for troubleshooting
+ */
+export interface IntegrationPollRun {
+  id: string;
+  businessId: string;
+  platform: 'easytable';
+  status: IntegrationPollRunStatus;
+  since: Date; // Cursor the poll fetched from
+  until?: Date; // New cursor, set on success
+  isBackfill: boolean; // Catch-up after downtime
+  fetched: number; // Bookings returned by the API
+  queued: number; // Completed visits handed to the order queue
+  error?: string;
+  durationMs: number;
+  createdAt: Date;
+}
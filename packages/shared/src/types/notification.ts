@@ -1,3 +1,5 @@
+import type { ProviderName } from '../constants/providers.js';
+
 export type NotificationType = 'sms' | 'email';
 
 export type NotificationStatus =
@@ -20,7 +22,9 @@ export interface Notification {
   content: string;
   reviewLink: string;
   orderId?: string;
+  reminderStep?: number; // 0 = initial request, 1+ = follow-up reminders
   externalMessageId?: string;
+  provider?: ProviderName; // Provider that sent the message
   errorMessage?: string;
   sentAt?: Date;
   deliveredAt?: Date;
@@ -41,4 +45,5 @@ export interface CreateNotificationInput {
   content: string;
   reviewLink: string;
   orderId?: string;
+  reminderStep?: number;
 }
@@ -1,3 +1,5 @@
+import type { ProviderName } from '../constants/providers.js';
+
 export interface Message {
   to: string;
   content: string;
@@ -5,12 +7,15 @@ export interface Message {
   fromName?: string; // Per-message sender display name (email) or sender ID (SMS)
   subject?: string; // For email
   html?: string; // For email
+  headers?: Record<string, string>; // Extra email headers, e.g. List-Unsubscribe
 }
 
 export interface SendResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  provider?: ProviderName; // Provider that handled the send (after any failover)
+  permanent?: boolean; // The message itself was rejected (e.g. invalid number) - no failover
 }
 
 export type MessageStatus =
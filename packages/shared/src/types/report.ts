@@ -0,0 +1,55 @@
+import type { SentimentLabel } from './ai.js';
+
+/**
+ * Scheduled performance report emails for business owners
+ */
+
+export type ReportFrequency = 'weekly' | 'monthly';
+
+export interface ReportSettings {
+  enabled: boolean;
+  frequency: ReportFrequency;
+  recipients: string[]; // Email addresses, empty = the business email
+}
+
+export interface PerformanceReportData {
+  reviews: {
+    total: number;
+    avgRating: number;
+    previousAvgRating: number; // Same-length period before, 0 = no reviews
+    volumeTrend: number; // Percentage change in review count vs. previous period
+    negative: number; // Ratings in REVIEW_THRESHOLDS.negative
+  };
+  notifications: {
+    smsSent: number;
+    emailSent: number;
+    smsConversionRate: number; // Percentage of sent messages that led to a review
+    emailConversionRate: number;
+  };
+  google: {
+    newReviews: number;
+    avgRating: number;
+    unanswered: number; // All unanswered Google reviews, not only from the period
+  };
+  insight?: {
+    headline: string;
+    sentiment: SentimentLabel;
+    generatedAt: Date;
+  };
+}
+
+export type PerformanceReportStatus = 'sent' | 'failed';
+
+export interface PerformanceReport {
+  id: string;
+  businessId: string;
+  frequency: ReportFrequency;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  recipients: string[];
+  status: PerformanceReportStatus;
+  error?: string;
+  data: PerformanceReportData;
+  createdAt: Date;
+  updatedAt: Date;
+}
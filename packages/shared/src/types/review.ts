@@ -25,7 +25,7 @@ export interface Review {
   rating: ReviewRating;
   feedbackText?: string;
   customer: ReviewCustomer;
-  sourcePlatform: 'dully' | 'easytable' | 'direct' | 'test';
+  sourcePlatform: 'dully' | 'easytable' | 'api' | 'import' | 'direct' | 'test';
   orderId?: string;
   photos?: string[];
   isPublic: boolean;
@@ -44,7 +44,7 @@ export interface CreateReviewInput {
   rating: ReviewRating;
   feedbackText?: string;
   customer?: ReviewCustomer;
-  sourcePlatform: 'dully' | 'easytable' | 'direct' | 'test';
+  sourcePlatform: 'dully' | 'easytable' | 'api' | 'import' | 'direct' | 'test';
   orderId?: string;
   photos?: string[];
   consent?: ConsentRecord;
@@ -54,7 +54,7 @@ export interface CreateReviewInput {
 export interface ReviewFilters {
   businessId: string;
   rating?: ReviewRating | ReviewRating[];
-  sourcePlatform?: 'dully' | 'easytable' | 'direct';
+  sourcePlatform?: 'dully' | 'easytable' | 'api' | 'import' | 'direct';
   isPublic?: boolean;
   fromDate?: Date;
   toDate?: Date;
@@ -0,0 +1,44 @@
+import type { NotificationType } from './notification.js';
+
+/**
+ * Why a recipient was added to the suppression list
+ */
+export type SuppressionReason =
+  | 'unsubscribe' // Customer clicked the unsubscribe link in an email
+  | 'sms_stop' // Customer replied STOP to an SMS
+  | 'complaint' // Recipient marked an email as spam
+  | 'manual'; // Added by the business from the dashboard
+
+/**
+ * A recipient that must not receive review requests.
+ * Entries without a businessId are global and apply to every business.
+ */
+export interface Suppression {
+  id: string;
+  businessId: string | null;
+  channel: NotificationType;
+  value: string; // Normalized phone number (+45...) or lowercased email
+  reason: SuppressionReason;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSuppressionInput {
+  channel: NotificationType;
+  value: string;
+  note?: string;
+}
+
+/**
+ * Payload embedded in email unsubscribe links
+ */
+export interface UnsubscribeTokenPayload {
+  businessId: string;
+  email: string;
+}
+
+export interface UnsubscribePageResponse {
+  businessName: string;
+  email: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * Outgoing webhooks - lets businesses subscribe their own systems to EasyRate events
+ */
+
+export type WebhookEventType =
+  | 'review.created'
+  | 'review.negative' // Review with a rating in REVIEW_THRESHOLDS.negative
+  | 'review.replied'
+  | 'external_review.synced'
+  | 'notification.failed'
+  | 'insight_run.completed'
+  | 'webhook.test'; // Sent from the "send test event" button only
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  businessId: string;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  secret?: string; // Only returned when the endpoint is created or the secret is rotated
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookEndpointInput {
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export type UpdateWebhookEndpointInput = Partial<CreateWebhookEndpointInput>;
+
+/**
+ * Body posted to subscribed endpoints
+ */
+export interface WebhookEventPayload<T = Record<string, unknown>> {
+  id: string; // Event ID - identical across retries, use it for idempotency
+  type: WebhookEventType;
+  createdAt: string;
+  businessId: string;
+  data: T;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  businessId: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEventPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastResponseStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}